@@ -40,6 +40,8 @@ import { TicketsOrganizerDashboard } from "@/pages/TicketsOrganizerDashboard";
 import { TicketsOrganizerConnect } from "@/pages/TicketsOrganizerConnect";
 import { TicketsCheckinPage } from "@/pages/TicketsCheckinPage";
 import { TicketsCheckinDashboard } from "@/pages/TicketsCheckinDashboard";
+import { TicketsScannerLoginPage } from "@/pages/TicketsScannerLoginPage";
+import { TicketsPromoterViewPage } from "@/pages/TicketsPromoterViewPage";
 import { TicketsAttendeesPageEnhanced } from "@/pages/TicketsAttendeesPageEnhanced";
 import { TicketsAnalyticsPage } from "@/pages/TicketsAnalyticsPage";
 import { TicketsOrganizerPayouts } from "@/pages/TicketsOrganizerPayouts";
@@ -124,6 +126,7 @@ function Router() {
           <>
             <Route path="/tickets" component={TicketsEventListPage} />
             <Route path="/tickets/event/:slug" component={TicketsEventDetailPage} />
+            <Route path="/tickets/e/:slug" component={TicketsEventDetailPage} />
             <Route path="/tickets/organizer/dashboard" component={TicketsOrganizerDashboard} />
             <Route path="/tickets/organizer/events/new" component={TicketsEventCreatePage} />
             <Route path="/tickets/organizer/events/:eventId/edit" component={TicketsEventEditPage} />
@@ -135,6 +138,8 @@ function Router() {
             {/* <Route path="/tickets/organizer/signup" component={TicketsOrganizerSignup} /> */}
             <Route path="/tickets/organizer/connect" component={TicketsOrganizerConnect} />
             <Route path="/tickets/checkin" component={TicketsCheckinPage} />
+            <Route path="/tickets/scanner" component={TicketsScannerLoginPage} />
+            <Route path="/tickets/promoter/:token" component={TicketsPromoterViewPage} />
             <Route path="/tickets/organizer/payouts" component={TicketsOrganizerPayouts} />
             <Route path="/tickets/organizer/settings" component={TicketsOrganizerSettings} />
             <Route path="/tickets/order/success" component={TicketsOrderSuccessPage} />
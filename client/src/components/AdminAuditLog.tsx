@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { adminFetch } from '@/lib/endpoints';
+import { History, Loader2 } from 'lucide-react';
+
+interface AuditEntry {
+  id: string;
+  created_at: string;
+  action: string;
+  user_id: string | null;
+  actor_email: string | null;
+  actor_role: string | null;
+  status_code: number | null;
+}
+
+// Who changed what in the admin console, newest first
+export default function AdminAuditLog() {
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState('');
+
+  const { data, isLoading } = useQuery<{ ok: boolean; logs: AuditEntry[] }>({
+    queryKey: ['/api/admin/audit-log', actor, action],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: '200' });
+      if (actor) params.set('actor', actor);
+      if (action) params.set('action', action);
+      const response = await adminFetch(`/api/admin/audit-log?${params}`);
+      if (!response.ok) throw new Error('Failed to load audit log');
+      return response.json();
+    }
+  });
+
+  const logs = data?.logs || [];
+
+  return (
+    <Card className="p-4 bg-white/5 border-white/10 space-y-4" data-testid="admin-audit-log">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="font-fraunces text-lg font-bold text-white flex items-center gap-2">
+          <History className="w-5 h-5 text-copper-500" />
+          Audit Log
+        </h2>
+        <div className="flex gap-2">
+          <Input
+            placeholder="Admin email"
+            value={actor}
+            onChange={(e) => setActor(e.target.value.trim())}
+            className="w-48 bg-white/5 border-white/20 text-white"
+            data-testid="input-audit-actor"
+          />
+          <Input
+            placeholder="Action contains…"
+            value={action}
+            onChange={(e) => setAction(e.target.value.trim())}
+            className="w-48 bg-white/5 border-white/20 text-white"
+            data-testid="input-audit-action"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-6 h-6 animate-spin text-copper-500" />
+        </div>
+      ) : logs.length === 0 ? (
+        <p className="text-sm text-muted">Nothing recorded yet</p>
+      ) : (
+        <div className="space-y-1 text-sm max-h-[32rem] overflow-y-auto">
+          {logs.map(entry => (
+            <div key={entry.id} className="flex flex-wrap items-center gap-3 py-1 border-b border-white/5">
+              <span className="w-40 text-muted text-xs">{new Date(entry.created_at).toLocaleString()}</span>
+              <span className="w-48 truncate text-white">{entry.actor_email || entry.user_id || 'unknown'}</span>
+              {entry.actor_role && (
+                <Badge variant="outline" className="text-white/60 border-white/20 text-xs">{entry.actor_role.replace('_', ' ')}</Badge>
+              )}
+              <span className="flex-1 font-mono text-xs text-white/80 truncate">{entry.action}</span>
+              {entry.status_code !== null && (
+                <span className={`text-xs ${entry.status_code >= 400 ? 'text-red-400' : 'text-green-400'}`}>{entry.status_code}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { adminFetch } from '@/lib/endpoints';
+import { FlaskConical, Trophy } from 'lucide-react';
+
+interface VariantResult {
+  creativeId: string;
+  label: string;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  confidence: number | null;
+  isLeader: boolean;
+  isWinner: boolean;
+  isActive: boolean;
+}
+
+interface CreativeTest {
+  placement: string;
+  status: 'collecting' | 'inconclusive' | 'significant' | 'promoted';
+  requiredConfidence: number;
+  minImpressions: number;
+  winnerCreativeId: string | null;
+  decidedAt: string | null;
+  variants: VariantResult[];
+}
+
+interface AdminCreativeTestsProps {
+  campaignId: string;
+  // Promoting pauses the other creatives, so the campaign form needs reloading
+  onPromoted?: () => void;
+}
+
+const STATUS_LABELS: Record<CreativeTest['status'], string> = {
+  collecting: 'Collecting data',
+  inconclusive: 'No clear winner',
+  significant: 'Winner found',
+  promoted: 'Winner promoted'
+};
+
+// A/B results for a campaign's creatives, with a way to promote a variant by hand
+export default function AdminCreativeTests({ campaignId, onPromoted }: AdminCreativeTestsProps) {
+  const queryKey = ['/api/spotlight/admin/campaigns', campaignId, 'creative-tests'];
+
+  const { data } = useQuery<{ ok: boolean; tests: CreativeTest[] }>({
+    queryKey,
+    queryFn: async () => {
+      const response = await adminFetch(`/api/spotlight/admin/campaigns/${campaignId}/creative-tests`);
+      if (!response.ok) throw new Error('Failed to load creative tests');
+      return response.json();
+    }
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async ({ placement, creativeId }: { placement: string; creativeId: string }) => {
+      const response = await adminFetch(`/api/spotlight/admin/campaigns/${campaignId}/creative-tests/promote`, {
+        method: 'POST',
+        body: JSON.stringify({ placement, creativeId })
+      });
+      const result = await response.json();
+      if (!result.ok) throw new Error(result.error || 'Failed to promote creative');
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: 'Creative promoted', description: 'The other creatives on that placement are paused.' });
+      onPromoted?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const tests = data?.tests || [];
+  if (tests.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mt-4" data-testid="creative-tests">
+      <p className="text-white font-medium flex items-center gap-2">
+        <FlaskConical className="w-4 h-4 text-copper-400" />
+        A/B Results
+      </p>
+      {tests.map(test => (
+        <div key={test.placement} className="p-3 rounded-lg bg-white/5">
+          <div className="flex items-center justify-between text-sm mb-2">
+            <span className="text-white">{test.placement}</span>
+            <Badge variant="outline" className="text-white/70 border-white/20">
+              {STATUS_LABELS[test.status]} • {Math.round(test.requiredConfidence * 100)}% confidence
+            </Badge>
+          </div>
+          <div className="space-y-1 text-sm">
+            {test.variants.map(v => (
+              <div key={v.creativeId} className={`flex items-center gap-3 ${v.isActive ? 'text-white/80' : 'text-white/40'}`}>
+                <span className="w-28 truncate flex items-center gap-1">
+                  {v.isWinner && <Trophy className="w-3 h-3 text-copper-400" />}
+                  {v.label}
+                </span>
+                <span className="w-28">{v.impressions.toLocaleString()} impr.</span>
+                <span className="w-20">{v.clicks.toLocaleString()} clicks</span>
+                <span className="w-16">{v.ctr.toFixed(2)}%</span>
+                <span className="flex-1 text-white/50">
+                  {v.isLeader ? 'Leading' : v.confidence !== null ? `${(v.confidence * 100).toFixed(1)}% sure it's behind` : ''}
+                </span>
+                {test.status !== 'promoted' && v.isActive && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="text-copper-400 hover:bg-white/10"
+                    onClick={() => promoteMutation.mutate({ placement: test.placement, creativeId: v.creativeId })}
+                    disabled={promoteMutation.isPending}
+                  >
+                    Promote
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from '@/hooks/use-toast';
+import { Receipt, RotateCw, CheckCircle, ShieldAlert, Copy, Download } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface Invoice {
+  id: string;
+  number: string;
+  status: 'open' | 'paid' | 'void';
+  currency: string;
+  province: string;
+  line_items: Array<{ kind: string; description: string; amountCents: number }>;
+  subtotal_cents: number;
+  tax_breakdown: { components: Array<{ label: string; ratePercent: number; cents: number }> } | null;
+  total_cents: number;
+  issued_at: string;
+  due_at: string | null;
+  paid_at: string | null;
+  stripe_payment_link_url: string | null;
+  override_at: string | null;
+  override_by: string | null;
+  override_reason: string | null;
+}
+
+interface AdminLeadInvoiceProps {
+  leadId: string;
+  adminKey: string;
+}
+
+const formatMoney = (cents: number) => `${cents < 0 ? '-' : ''}CA$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+const statusColors = {
+  open: 'bg-yellow-600 text-yellow-100',
+  paid: 'bg-green-600 text-green-100',
+  void: 'bg-gray-600 text-gray-100'
+};
+
+// The invoice issued when the lead was approved, and the ways to settle it
+export default function AdminLeadInvoice({ leadId, adminKey }: AdminLeadInvoiceProps) {
+  const queryClient = useQueryClient();
+  const [overrideReason, setOverrideReason] = useState('');
+  const queryKey = ['admin-lead-invoice', leadId];
+
+  const { data, isLoading } = useQuery<{ invoice: Invoice; pdf_url: string } | null>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/leads/${leadId}/invoice`, {
+        headers: { 'x-admin-key': adminKey }
+      });
+      // Leads approved before invoicing don't have one
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error('Failed to fetch invoice');
+      return response.json();
+    }
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, body }: { action: 'sync' | 'mark-paid' | 'override'; body?: object }) => {
+      const response = await fetch(`/api/admin/leads/${leadId}/invoice/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-admin-key': adminKey
+        },
+        body: JSON.stringify(body || {})
+      });
+      const result = await response.json();
+      if (!result.ok) throw new Error(result.error || 'Failed to update invoice');
+      return result;
+    },
+    onSuccess: (result, { action }) => {
+      queryClient.setQueryData(queryKey, result);
+      queryClient.invalidateQueries({ queryKey: ['admin-leads'] });
+      if (action === 'sync') {
+        toast({ title: result.invoice.status === 'paid' ? 'Payment received' : 'No payment yet' });
+      }
+      setOverrideReason('');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  if (isLoading || !data) return null;
+  const { invoice, pdf_url } = data;
+
+  return (
+    <Card className="border-gray-700 bg-gray-800/50 mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg text-white flex items-center gap-2">
+          <Receipt className="h-5 w-5 text-orange-400" />
+          Invoice {invoice.number}
+          <Badge className={statusColors[invoice.status]}>{invoice.status}</Badge>
+          {invoice.override_at && invoice.status === 'open' && (
+            <Badge className="bg-purple-600 text-purple-100">overridden</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1 text-sm">
+          {invoice.line_items.map((item, i) => (
+            <div key={i} className="flex justify-between text-gray-300">
+              <span>{item.description}</span>
+              <span className={item.amountCents < 0 ? 'text-green-400' : ''}>{formatMoney(item.amountCents)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between text-gray-300 pt-1 border-t border-gray-700">
+            <span>Subtotal</span>
+            <span>{formatMoney(invoice.subtotal_cents)}</span>
+          </div>
+          {(invoice.tax_breakdown?.components || []).map(c => (
+            <div key={c.label} className="flex justify-between text-gray-300">
+              <span>{c.label} {c.ratePercent}% ({invoice.province})</span>
+              <span>{formatMoney(c.cents)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between font-medium text-lg text-white pt-1 border-t border-gray-700">
+            <span>Total</span>
+            <span>{formatMoney(invoice.total_cents)}</span>
+          </div>
+        </div>
+
+        <div className="text-xs text-gray-400 space-y-1">
+          <p>Issued {format(new Date(invoice.issued_at), 'MMM d, yyyy')}{invoice.due_at && ` • Due ${format(new Date(invoice.due_at), 'MMM d, yyyy')}`}</p>
+          {invoice.paid_at && <p>Paid {format(new Date(invoice.paid_at), 'MMM d, yyyy h:mm a')}</p>}
+          {invoice.override_at && (
+            <p>
+              Overridden by {invoice.override_by} on {format(new Date(invoice.override_at), 'MMM d, yyyy')}: {invoice.override_reason}
+            </p>
+          )}
+        </div>
+
+        {invoice.status === 'open' && invoice.stripe_payment_link_url && (
+          <div className="p-3 bg-gray-800 rounded-lg">
+            <label className="text-sm font-medium text-gray-400">Payment Link</label>
+            <div className="mt-1 flex items-center gap-2">
+              <code className="text-xs text-blue-400 break-all">{invoice.stripe_payment_link_url}</code>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => navigator.clipboard.writeText(invoice.stripe_payment_link_url!)}
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" asChild>
+            <a href={pdf_url} target="_blank" rel="noopener noreferrer" data-testid="button-invoice-pdf">
+              <Download className="h-4 w-4 mr-2" />
+              PDF
+            </a>
+          </Button>
+          {invoice.status === 'open' && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => actionMutation.mutate({ action: 'sync' })}
+                disabled={actionMutation.isPending}
+                data-testid="button-invoice-sync"
+              >
+                <RotateCw className="h-4 w-4 mr-2" />
+                Check Payment
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => actionMutation.mutate({ action: 'mark-paid' })}
+                disabled={actionMutation.isPending}
+                data-testid="button-invoice-mark-paid"
+              >
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Mark Paid
+              </Button>
+            </>
+          )}
+        </div>
+
+        {invoice.status === 'open' && !invoice.override_at && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Reason to run the campaign before payment"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              className="bg-gray-800 border-gray-700 text-white placeholder:text-gray-400"
+              data-testid="input-invoice-override-reason"
+            />
+            <Button
+              variant="outline"
+              className="text-orange-400 hover:text-orange-300"
+              onClick={() => actionMutation.mutate({ action: 'override', body: { reason: overrideReason } })}
+              disabled={actionMutation.isPending || !overrideReason.trim()}
+              data-testid="button-invoice-override"
+            >
+              <ShieldAlert className="h-4 w-4 mr-2" />
+              Override
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
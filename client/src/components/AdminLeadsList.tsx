@@ -29,6 +29,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Eye, Download, Search, Filter, Users, ExternalLink, Send, RotateCw, X, CheckCircle, Copy, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { apiRequest } from '@/lib/queryClient';
+import AdminLeadInvoice from './AdminLeadInvoice';
 
 interface Lead {
   id: string;
@@ -60,6 +61,8 @@ interface Lead {
   num_weeks?: number;
   num_days?: number;
   add_ons?: any[];
+  payment_status?: 'unpaid' | 'paid' | 'overridden' | null;
+  paid_at?: string | null;
 }
 
 interface AdminLeadsListProps {
@@ -178,6 +181,7 @@ export default function AdminLeadsList({ adminKey }: AdminLeadsListProps) {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['admin-leads'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-lead-invoice'] });
       // Store the returned onboarding link
       if (data.onboarding_link && selectedLead) {
         setSelectedLead({
@@ -253,6 +257,12 @@ export default function AdminLeadsList({ adminKey }: AdminLeadsListProps) {
     rejected: 'bg-red-600 text-red-100'
   };
   
+  const paymentColors = {
+    unpaid: 'bg-yellow-600 text-yellow-100',
+    paid: 'bg-green-600 text-green-100',
+    overridden: 'bg-purple-600 text-purple-100'
+  };
+  
   const packageNames = {
     events_spotlight: 'Events Spotlight',
     homepage_feature: 'Homepage Feature',
@@ -455,6 +465,14 @@ export default function AdminLeadsList({ adminKey }: AdminLeadsListProps) {
                         >
                           {lead.status}
                         </Badge>
+                        {lead.payment_status && (
+                          <Badge 
+                            className={`${paymentColors[lead.payment_status]} border-0 ml-1`}
+                            data-testid={`payment-${lead.payment_status}`}
+                          >
+                            {lead.payment_status}
+                          </Badge>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
@@ -624,6 +642,8 @@ export default function AdminLeadsList({ adminKey }: AdminLeadsListProps) {
               </Card>
             </div>
             
+            <AdminLeadInvoice leadId={selectedLead.id} adminKey={adminKey} />
+            
             {/* Creative Assets Section */}
             {(selectedLead.desktop_asset_url || selectedLead.mobile_asset_url) && (
               <Card className="border-gray-700 bg-gray-800/50 mt-6">
@@ -922,7 +942,7 @@ export default function AdminLeadsList({ adminKey }: AdminLeadsListProps) {
             <AlertDialogDescription className="text-gray-400">
               {approveLeadDialog.lead && (
                 <>
-                  Are you sure you want to approve "{approveLeadDialog.lead.business_name}" and send an onboarding email to {approveLeadDialog.lead.email}?
+                  Are you sure you want to approve "{approveLeadDialog.lead.business_name}", issue an invoice for CA${(approveLeadDialog.lead.total_cents / 100).toFixed(2)} plus GST/HST, and send an onboarding email to {approveLeadDialog.lead.email}?
                 </>
               )}
             </AlertDialogDescription>
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { adminFetch } from '@/lib/endpoints';
+import { UserPlus, Users } from 'lucide-react';
+
+type AdminRole = 'super_admin' | 'sales' | 'content' | 'support';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  is_active: boolean;
+  last_login_at: string | null;
+}
+
+interface AdminTeamProps {
+  currentUserId?: string;
+}
+
+const USERS_KEY = ['/api/admin/users'];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: 'Super admin',
+  sales: 'Sales',
+  content: 'Content',
+  support: 'Support'
+};
+
+const emptyForm = { email: '', name: '', role: 'sales' as AdminRole, password: '' };
+
+// Admin accounts: add people, change their role, or turn off their access
+export default function AdminTeam({ currentUserId }: AdminTeamProps) {
+  const [form, setForm] = useState(emptyForm);
+
+  const { data } = useQuery<{ ok: boolean; users: AdminUser[] }>({
+    queryKey: USERS_KEY,
+    queryFn: async () => {
+      const response = await adminFetch('/api/admin/users');
+      if (!response.ok) throw new Error('Failed to load admin users');
+      return response.json();
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await adminFetch('/api/admin/users', {
+        method: 'POST',
+        body: JSON.stringify({ ...form, name: form.name || undefined })
+      });
+      const result = await response.json();
+      if (!result.ok) throw new Error(result.error || 'Failed to add admin');
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: USERS_KEY });
+      setForm(emptyForm);
+      toast({ title: 'Admin added', description: `${result.user.email} can now sign in` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...update }: { id: string; role?: AdminRole; isActive?: boolean }) => {
+      const response = await adminFetch(`/api/admin/users/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(update)
+      });
+      const result = await response.json();
+      if (!result.ok) throw new Error(result.error || 'Failed to update admin');
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USERS_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const users = data?.users || [];
+
+  return (
+    <Card className="p-4 bg-white/5 border-white/10 space-y-4" data-testid="admin-team">
+      <h2 className="font-fraunces text-lg font-bold text-white flex items-center gap-2">
+        <Users className="w-5 h-5 text-copper-500" />
+        Team
+      </h2>
+
+      <div className="space-y-2">
+        {users.map(user => (
+          <div key={user.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div className={user.is_active ? 'text-white' : 'text-white/40'}>
+              {user.name || user.email}
+              {user.name && <span className="text-muted ml-2">{user.email}</span>}
+              <p className="text-xs text-muted">
+                {user.last_login_at ? `Last signed in ${new Date(user.last_login_at).toLocaleString()}` : 'Never signed in'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={user.role}
+                onValueChange={(role) => updateMutation.mutate({ id: user.id, role: role as AdminRole })}
+                disabled={user.id === currentUserId || updateMutation.isPending}
+              >
+                <SelectTrigger className="w-36 bg-white/5 border-white/20 text-white" data-testid={`select-role-${user.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {user.id === currentUserId ? (
+                <Badge variant="outline" className="text-white/70 border-white/20">You</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-white/20 text-white hover:bg-white/10"
+                  onClick={() => updateMutation.mutate({ id: user.id, isActive: !user.is_active })}
+                  disabled={updateMutation.isPending}
+                  data-testid={`button-toggle-admin-${user.id}`}
+                >
+                  {user.is_active ? 'Deactivate' : 'Reactivate'}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-3 border-t border-white/10 grid gap-2 sm:grid-cols-[1fr_1fr_9rem_1fr_auto]">
+        <Input
+          placeholder="Email"
+          type="email"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          className="bg-white/5 border-white/20 text-white"
+          data-testid="input-admin-email"
+        />
+        <Input
+          placeholder="Name"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          className="bg-white/5 border-white/20 text-white"
+          data-testid="input-admin-name"
+        />
+        <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as AdminRole })}>
+          <SelectTrigger className="bg-white/5 border-white/20 text-white" data-testid="select-admin-role">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(ROLE_LABELS).map(([role, label]) => (
+              <SelectItem key={role} value={role}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Temporary password (12+ characters)"
+          type="password"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          className="bg-white/5 border-white/20 text-white"
+          data-testid="input-admin-password"
+        />
+        <Button
+          className="bg-copper-500 hover:bg-copper-600 !text-black"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending || !form.email || form.password.length < 12}
+          data-testid="button-add-admin"
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          Add
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { DoorOpen, KeyRound, Plus, Trash2, Copy, Ban } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Gate {
+  id: string;
+  name: string;
+}
+
+interface Scanner {
+  id: string;
+  name: string;
+  gateId: string | null;
+  status: 'active' | 'revoked';
+  lastSeenAt: string | null;
+  revokedAt: string | null;
+  checkedIn: number;
+}
+
+interface CheckinStaffManagerProps {
+  eventId: string;
+}
+
+const NO_GATE = 'none';
+
+// Organizer controls for gates and door staff scanner accounts
+export function CheckinStaffManager({ eventId }: CheckinStaffManagerProps) {
+  const { toast } = useToast();
+  const [gateName, setGateName] = useState("");
+  const [scannerName, setScannerName] = useState("");
+  const [scannerGateId, setScannerGateId] = useState(NO_GATE);
+  const [issued, setIssued] = useState<{ name: string; accessCode: string } | null>(null);
+
+  const gatesKey = [`/api/tickets/events/${eventId}/gates`];
+  const scannersKey = [`/api/tickets/events/${eventId}/scanners`];
+
+  const { data: gatesData } = useQuery<{ ok: boolean; gates: Gate[] }>({ queryKey: gatesKey });
+  const { data: scannersData } = useQuery<{ ok: boolean; scanners: Scanner[] }>({
+    queryKey: scannersKey,
+    refetchInterval: 30000
+  });
+
+  const gates = gatesData?.gates || [];
+  const scanners = scannersData?.scanners || [];
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: errorText(error), variant: "destructive" });
+  };
+
+  const addGateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/gates`, { name: gateName });
+      return response.json();
+    },
+    onSuccess: () => {
+      setGateName("");
+      queryClient.invalidateQueries({ queryKey: gatesKey });
+    },
+    onError: onError("Couldn't add gate")
+  });
+
+  const removeGateMutation = useMutation({
+    mutationFn: async (gateId: string) => {
+      const response = await apiRequest('DELETE', `/api/tickets/events/${eventId}/gates/${gateId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: gatesKey });
+      queryClient.invalidateQueries({ queryKey: scannersKey });
+    },
+    onError: onError("Couldn't remove gate")
+  });
+
+  const issueScannerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/scanners`, {
+        name: scannerName,
+        gateId: scannerGateId === NO_GATE ? null : scannerGateId
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      setIssued({ name: result.scanner.name, accessCode: result.accessCode });
+      setScannerName("");
+      queryClient.invalidateQueries({ queryKey: scannersKey });
+    },
+    onError: onError("Couldn't create scanner")
+  });
+
+  const moveScannerMutation = useMutation({
+    mutationFn: async ({ scannerId, gateId }: { scannerId: string; gateId: string | null }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/events/${eventId}/scanners/${scannerId}`, { gateId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: scannersKey });
+    },
+    onError: onError("Couldn't move scanner")
+  });
+
+  const revokeScannerMutation = useMutation({
+    mutationFn: async (scannerId: string) => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/scanners/${scannerId}/revoke`);
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({ title: "Scanner revoked", description: `${result.scanner.name} can no longer check tickets in` });
+      queryClient.invalidateQueries({ queryKey: scannersKey });
+    },
+    onError: onError("Couldn't revoke scanner")
+  });
+
+  const signInLink = issued
+    ? `${window.location.origin}/tickets/scanner?code=${encodeURIComponent(issued.accessCode)}`
+    : '';
+
+  const copy = (text: string) => {
+    navigator.clipboard?.writeText(text);
+    toast({ title: "Copied" });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Gates */}
+      <div className="space-y-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <DoorOpen className="h-4 w-4" />
+          Gates
+        </h3>
+        {gates.length === 0 && (
+          <p className="text-sm text-muted-foreground">Add your entrances to see check-in throughput per gate.</p>
+        )}
+        {gates.map(gate => (
+          <div key={gate.id} className="flex items-center justify-between text-sm" data-testid={`gate-${gate.id}`}>
+            <span>{gate.name}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeGateMutation.mutate(gate.id)}
+              disabled={removeGateMutation.isPending}
+              data-testid={`button-remove-gate-${gate.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addGateMutation.mutate();
+          }}
+        >
+          <Input
+            value={gateName}
+            onChange={(e) => setGateName(e.target.value)}
+            placeholder="e.g., North Entrance"
+            data-testid="input-gate-name"
+          />
+          <Button type="submit" variant="outline" disabled={!gateName.trim() || addGateMutation.isPending} data-testid="button-add-gate">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+      </div>
+
+      <Separator />
+
+      {/* Scanner accounts */}
+      <div className="space-y-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <KeyRound className="h-4 w-4" />
+          Scanner Accounts
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Each door staff member gets their own access code. It only works for this event's check-in.
+        </p>
+
+        {issued && (
+          <Alert data-testid="alert-issued-scanner">
+            <AlertDescription className="space-y-2">
+              <p>Access code for <strong>{issued.name}</strong> - it won't be shown again:</p>
+              <div className="flex items-center gap-2">
+                <code className="font-mono text-lg tracking-wider">{issued.accessCode}</code>
+                <Button variant="ghost" size="icon" onClick={() => copy(issued.accessCode)} data-testid="button-copy-access-code">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => copy(signInLink)} data-testid="button-copy-sign-in-link">
+                Copy sign-in link
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            issueScannerMutation.mutate();
+          }}
+        >
+          <Label htmlFor="scanner-name">Staff name</Label>
+          <Input
+            id="scanner-name"
+            value={scannerName}
+            onChange={(e) => setScannerName(e.target.value)}
+            placeholder="e.g., Priya - Door 1"
+            data-testid="input-scanner-name"
+          />
+          <Select value={scannerGateId} onValueChange={setScannerGateId}>
+            <SelectTrigger data-testid="select-scanner-gate">
+              <SelectValue placeholder="Gate" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_GATE}>No gate</SelectItem>
+              {gates.map(gate => (
+                <SelectItem key={gate.id} value={gate.id}>{gate.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" className="w-full" disabled={!scannerName.trim() || issueScannerMutation.isPending} data-testid="button-issue-scanner">
+            {issueScannerMutation.isPending ? 'Creating...' : 'Create Access Code'}
+          </Button>
+        </form>
+
+        <div className="space-y-3 pt-2">
+          {scanners.map(scanner => (
+            <div key={scanner.id} className="rounded-md border p-3 space-y-2" data-testid={`scanner-${scanner.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{scanner.name}</span>
+                <Badge variant={scanner.status === 'active' ? 'default' : 'secondary'}>
+                  {scanner.status === 'active' ? 'Active' : 'Revoked'}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {scanner.checkedIn} checked in
+                {scanner.lastSeenAt && ` · seen ${formatDistanceToNow(new Date(scanner.lastSeenAt), { addSuffix: true })}`}
+              </p>
+              {scanner.status === 'active' && (
+                <div className="flex gap-2">
+                  <Select
+                    value={scanner.gateId || NO_GATE}
+                    onValueChange={(value) => moveScannerMutation.mutate({ scannerId: scanner.id, gateId: value === NO_GATE ? null : value })}
+                  >
+                    <SelectTrigger className="h-8" data-testid={`select-move-scanner-${scanner.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_GATE}>No gate</SelectItem>
+                      {gates.map(gate => (
+                        <SelectItem key={gate.id} value={gate.id}>{gate.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => revokeScannerMutation.mutate(scanner.id)}
+                    disabled={revokeScannerMutation.isPending}
+                    data-testid={`button-revoke-scanner-${scanner.id}`}
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
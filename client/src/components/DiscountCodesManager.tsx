@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Tag, Plus, Trash2, Pause, Play, Download, Layers } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type DiscountState = 'active' | 'paused' | 'scheduled' | 'expired' | 'exhausted';
+
+interface Discount {
+  id: string;
+  code: string;
+  type: 'percent' | 'fixed';
+  value: number;
+  maxUses: number | null;
+  usedCount: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  tierIds: string[] | null;
+  minQuantity: number | null;
+  batchId: string | null;
+  status: string;
+  state: DiscountState;
+}
+
+interface RulesDraft {
+  type: 'percent' | 'fixed';
+  amount: string; // percent, or dollars for fixed discounts
+  startsAt: string; // datetime-local value
+  endsAt: string;
+  tierIds: string[];
+  minQuantity: string;
+}
+
+interface DiscountCodesManagerProps {
+  eventId: string;
+  tiers: Array<{ id?: string; name: string }>;
+}
+
+const inputClassName = "bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500";
+
+const emptyRules: RulesDraft = { type: 'percent', amount: '', startsAt: '', endsAt: '', tierIds: [], minQuantity: '' };
+
+const stateLabels: Record<DiscountState, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  scheduled: 'Scheduled',
+  expired: 'Expired',
+  exhausted: 'Used up'
+};
+
+function rulesPayload(rules: RulesDraft) {
+  const amount = parseFloat(rules.amount) || 0;
+  return {
+    type: rules.type,
+    value: rules.type === 'fixed' ? Math.round(amount * 100) : amount,
+    startsAt: rules.startsAt ? new Date(rules.startsAt).toISOString() : null,
+    endsAt: rules.endsAt ? new Date(rules.endsAt).toISOString() : null,
+    tierIds: rules.tierIds.length > 0 ? rules.tierIds : null,
+    minQuantity: rules.minQuantity ? parseInt(rules.minQuantity) : null
+  };
+}
+
+function describeValue(discount: Discount): string {
+  return discount.type === 'percent' ? `${discount.value}% off` : `$${(discount.value / 100).toFixed(2)} off`;
+}
+
+// Organizer controls for an event's discount codes
+export function DiscountCodesManager({ eventId, tiers }: DiscountCodesManagerProps) {
+  const { toast } = useToast();
+  const savedTiers = tiers.filter((t): t is { id: string; name: string } => !!t.id);
+  const [code, setCode] = useState("");
+  const [maxUses, setMaxUses] = useState("");
+  const [bulkCount, setBulkCount] = useState("50");
+  const [bulkPrefix, setBulkPrefix] = useState("");
+  const [rules, setRules] = useState<RulesDraft>(emptyRules);
+  const [lastBatch, setLastBatch] = useState<{ batchId: string; count: number } | null>(null);
+
+  const discountsKey = [`/api/tickets/events/${eventId}/discounts`];
+  const { data, isLoading } = useQuery<{ ok: boolean; discounts: Discount[] }>({
+    queryKey: discountsKey,
+    enabled: !!eventId
+  });
+  const discounts = data?.discounts || [];
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: errorText(error), variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/discounts`, {
+        ...rulesPayload(rules),
+        code,
+        maxUses: maxUses ? parseInt(maxUses) : null
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({ title: "Discount code created", description: result.discount.code });
+      setCode("");
+      setMaxUses("");
+      setRules(emptyRules);
+      queryClient.invalidateQueries({ queryKey: discountsKey });
+    },
+    onError: onError("Couldn't create discount code")
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/discounts/bulk`, {
+        ...rulesPayload(rules),
+        count: parseInt(bulkCount) || 0,
+        prefix: bulkPrefix || undefined
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      setLastBatch({ batchId: result.batchId, count: result.count });
+      setRules(emptyRules);
+      queryClient.invalidateQueries({ queryKey: discountsKey });
+    },
+    onError: onError("Couldn't generate codes")
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ discountId, status }: { discountId: string; status: 'active' | 'paused' }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/events/${eventId}/discounts/${discountId}`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: discountsKey });
+    },
+    onError: onError("Couldn't update discount code")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (discountId: string) => {
+      const response = await apiRequest('DELETE', `/api/tickets/events/${eventId}/discounts/${discountId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: discountsKey });
+    },
+    onError: onError("Couldn't delete discount code")
+  });
+
+  const exportCsv = (batchId?: string) => {
+    window.open(`/api/tickets/events/${eventId}/discounts/export${batchId ? `?batchId=${batchId}` : ''}`, '_blank');
+  };
+
+  const toggleTier = (tierId: string, checked: boolean) => {
+    setRules({
+      ...rules,
+      tierIds: checked ? [...rules.tierIds, tierId] : rules.tierIds.filter(id => id !== tierId)
+    });
+  };
+
+  const tierName = (tierId: string) => savedTiers.find(t => t.id === tierId)?.name || 'Removed tier';
+  const hasAmount = parseFloat(rules.amount) > 0;
+
+  // Bulk codes are listed as one row per batch rather than hundreds of single rows
+  const singleCodes = discounts.filter(d => !d.batchId);
+  const batches = Array.from(
+    discounts.filter(d => d.batchId).reduce((map, d) => {
+      map.set(d.batchId!, [...(map.get(d.batchId!) || []), d]);
+      return map;
+    }, new Map<string, Discount[]>())
+  );
+
+  const rulesFields = (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium">Discount Type</label>
+          <Select value={rules.type} onValueChange={(value: 'percent' | 'fixed') => setRules({ ...rules, type: value })}>
+            <SelectTrigger className={inputClassName} data-testid="select-discount-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percent">Percentage</SelectItem>
+              <SelectItem value="fixed">Fixed amount</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm font-medium">{rules.type === 'percent' ? 'Percent Off' : 'Amount Off ($)'}</label>
+          <Input
+            type="number"
+            min="0"
+            step={rules.type === 'percent' ? '1' : '0.01'}
+            value={rules.amount}
+            onChange={(e) => setRules({ ...rules, amount: e.target.value })}
+            className={inputClassName}
+            data-testid="input-discount-amount"
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium">Starts</label>
+          <Input
+            type="datetime-local"
+            value={rules.startsAt}
+            onChange={(e) => setRules({ ...rules, startsAt: e.target.value })}
+            className={inputClassName}
+            data-testid="input-discount-starts"
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium">Ends</label>
+          <Input
+            type="datetime-local"
+            value={rules.endsAt}
+            onChange={(e) => setRules({ ...rules, endsAt: e.target.value })}
+            className={inputClassName}
+            data-testid="input-discount-ends"
+          />
+        </div>
+      </div>
+      {savedTiers.length > 0 && (
+        <div>
+          <label className="text-sm font-medium">Applies To</label>
+          <p className="text-xs text-neutral-400 mb-2">Leave all unchecked to apply to every tier.</p>
+          <div className="flex flex-wrap gap-4">
+            {savedTiers.map(tier => (
+              <label key={tier.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={rules.tierIds.includes(tier.id)}
+                  onCheckedChange={(checked) => toggleTier(tier.id, checked === true)}
+                  data-testid={`checkbox-discount-tier-${tier.id}`}
+                />
+                {tier.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      <div>
+        <label className="text-sm font-medium">Minimum Tickets</label>
+        <Input
+          type="number"
+          min="1"
+          value={rules.minQuantity}
+          onChange={(e) => setRules({ ...rules, minQuantity: e.target.value })}
+          placeholder="No minimum"
+          className={inputClassName}
+          data-testid="input-discount-min-quantity"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <Tag className="w-5 h-5 inline mr-2" />
+          Discount Codes
+        </CardTitle>
+        <CardDescription>
+          Create promo codes, or generate a batch of single-use codes to hand out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-neutral-400">Loading discount codes...</p>
+        ) : (
+          <>
+            {singleCodes.length === 0 && batches.length === 0 && (
+              <p className="text-sm text-neutral-400">No discount codes yet.</p>
+            )}
+
+            {singleCodes.map(discount => (
+              <div key={discount.id} className="flex items-center justify-between gap-3 rounded-md border border-charcoal-700 p-3" data-testid={`discount-${discount.id}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-semibold">{discount.code}</span>
+                    <Badge variant={discount.state === 'active' ? 'default' : 'secondary'}>{stateLabels[discount.state]}</Badge>
+                  </div>
+                  <p className="text-xs text-neutral-400">
+                    {describeValue(discount)}
+                    {' · '}{discount.usedCount}{discount.maxUses ? ` / ${discount.maxUses}` : ''} used
+                    {discount.tierIds && ` · ${discount.tierIds.map(tierName).join(', ')}`}
+                    {discount.minQuantity && ` · min ${discount.minQuantity} tickets`}
+                    {discount.endsAt && ` · ends ${format(new Date(discount.endsAt), 'MMM d, h:mm a')}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  {(discount.status === 'active' || discount.status === 'paused') && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => statusMutation.mutate({ discountId: discount.id, status: discount.status === 'paused' ? 'active' : 'paused' })}
+                      disabled={statusMutation.isPending}
+                      data-testid={`button-toggle-discount-${discount.id}`}
+                    >
+                      {discount.status === 'paused' ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                    </Button>
+                  )}
+                  {discount.usedCount === 0 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(discount.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-discount-${discount.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {batches.map(([batchId, codes]) => (
+              <div key={batchId} className="flex items-center justify-between gap-3 rounded-md border border-charcoal-700 p-3" data-testid={`discount-batch-${batchId}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <Layers className="w-4 h-4" />
+                    {codes.length} single-use codes
+                  </div>
+                  <p className="text-xs text-neutral-400">
+                    {describeValue(codes[0])} · {codes.filter(c => c.usedCount > 0).length} redeemed
+                  </p>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={() => exportCsv(batchId)} data-testid={`button-export-batch-${batchId}`}>
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+              </div>
+            ))}
+
+            {lastBatch && (
+              <Alert>
+                <AlertDescription className="flex items-center justify-between gap-3">
+                  <span>{lastBatch.count} codes generated.</span>
+                  <Button type="button" variant="outline" size="sm" onClick={() => exportCsv(lastBatch.batchId)} data-testid="button-export-last-batch">
+                    <Download className="w-4 h-4 mr-2" />
+                    Download CSV
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Tabs defaultValue="single">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="single">Single Code</TabsTrigger>
+                <TabsTrigger value="bulk">Bulk Generate</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="single" className="space-y-4 pt-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium">Code</label>
+                    <Input
+                      value={code}
+                      onChange={(e) => setCode(e.target.value.toUpperCase())}
+                      placeholder="e.g., EARLYBIRD"
+                      className={`${inputClassName} font-mono`}
+                      data-testid="input-discount-code"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Usage Limit</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={maxUses}
+                      onChange={(e) => setMaxUses(e.target.value)}
+                      placeholder="Unlimited"
+                      className={inputClassName}
+                      data-testid="input-discount-max-uses"
+                    />
+                  </div>
+                </div>
+                {rulesFields}
+                <Button
+                  type="button"
+                  className="w-full"
+                  onClick={() => createMutation.mutate()}
+                  disabled={!code.trim() || !hasAmount || createMutation.isPending}
+                  data-testid="button-create-discount"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  {createMutation.isPending ? "Creating..." : "Create Code"}
+                </Button>
+              </TabsContent>
+
+              <TabsContent value="bulk" className="space-y-4 pt-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium">Number of Codes</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="1000"
+                      value={bulkCount}
+                      onChange={(e) => setBulkCount(e.target.value)}
+                      className={inputClassName}
+                      data-testid="input-bulk-count"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Prefix (optional)</label>
+                    <Input
+                      value={bulkPrefix}
+                      onChange={(e) => setBulkPrefix(e.target.value.toUpperCase())}
+                      placeholder="e.g., VIP-"
+                      className={`${inputClassName} font-mono`}
+                      data-testid="input-bulk-prefix"
+                    />
+                  </div>
+                </div>
+                {rulesFields}
+                <Button
+                  type="button"
+                  className="w-full"
+                  onClick={() => bulkMutation.mutate()}
+                  disabled={!(parseInt(bulkCount) > 0) || !hasAmount || bulkMutation.isPending}
+                  data-testid="button-generate-discounts"
+                >
+                  <Layers className="w-4 h-4 mr-2" />
+                  {bulkMutation.isPending ? "Generating..." : `Generate ${parseInt(bulkCount) || 0} Codes`}
+                </Button>
+              </TabsContent>
+            </Tabs>
+
+            {discounts.length > 0 && (
+              <Button type="button" variant="outline" className="w-full" onClick={() => exportCsv()} data-testid="button-export-discounts">
+                <Download className="w-4 h-4 mr-2" />
+                Export All Codes
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,11 +18,13 @@ const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY);
 interface CheckoutFormProps {
   clientSecret: string;
   orderId: string;
+  // Where Stripe sends the buyer back after a redirect-based payment method
+  returnUrl?: string;
   onSuccess: () => void;
   onError: (error: string) => void;
 }
 
-function CheckoutForm({ clientSecret, orderId, onSuccess, onError }: CheckoutFormProps) {
+function CheckoutForm({ clientSecret, orderId, returnUrl, onSuccess, onError }: CheckoutFormProps) {
   const stripe = useStripe();
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
@@ -44,7 +46,7 @@ function CheckoutForm({ clientSecret, orderId, onSuccess, onError }: CheckoutFor
       const { error, paymentIntent } = await stripe.confirmPayment({
         elements,
         confirmParams: {
-          return_url: `${window.location.origin}/tickets/order/success?order_id=${orderId}`,
+          return_url: returnUrl || `${window.location.origin}/tickets/order/success?order_id=${orderId}`,
         },
         redirect: "if_required"
       });
@@ -141,11 +143,13 @@ function CheckoutForm({ clientSecret, orderId, onSuccess, onError }: CheckoutFor
 interface EmbeddedCheckoutProps {
   clientSecret: string;
   orderId: string;
+  // Where Stripe sends the buyer back after a redirect-based payment method
+  returnUrl?: string;
   onSuccess: () => void;
   onError: (error: string) => void;
 }
 
-export default function EmbeddedCheckout({ clientSecret, orderId, onSuccess, onError }: EmbeddedCheckoutProps) {
+export default function EmbeddedCheckout({ clientSecret, orderId, returnUrl, onSuccess, onError }: EmbeddedCheckoutProps) {
   const [elementsOptions, setElementsOptions] = useState<StripeElementsOptions | null>(null);
 
   useEffect(() => {
@@ -207,6 +211,7 @@ export default function EmbeddedCheckout({ clientSecret, orderId, onSuccess, onE
       <CheckoutForm 
         clientSecret={clientSecret}
         orderId={orderId}
+        returnUrl={returnUrl}
         onSuccess={onSuccess}
         onError={onError}
       />
@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarDays, Plus, Trash2, Ban, RotateCcw, Repeat } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface OccurrenceStats {
+  occurrenceId: string;
+  startAt: string;
+  endAt: string | null;
+  status: 'scheduled' | 'canceled';
+  ticketsSold: number;
+  passHolders: number;
+  checkedIn: number;
+}
+
+interface RuleDraft {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: string;
+  firstStartAt: string; // datetime-local value
+  durationMinutes: string;
+  count: string;
+  until: string; // date value
+  weekdays: number[];
+}
+
+interface EventOccurrencesManagerProps {
+  eventId: string;
+}
+
+const inputClassName = "bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500";
+
+const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyRule: RuleDraft = { frequency: 'weekly', interval: '1', firstStartAt: '', durationMinutes: '', count: '8', until: '', weekdays: [] };
+
+// Organizer controls for running an event on several dates
+export function EventOccurrencesManager({ eventId }: EventOccurrencesManagerProps) {
+  const { toast } = useToast();
+  const [startAt, setStartAt] = useState("");
+  const [endAt, setEndAt] = useState("");
+  const [rule, setRule] = useState<RuleDraft>(emptyRule);
+
+  const occurrencesKey = [`/api/tickets/events/${eventId}/occurrences`];
+  const { data, isLoading } = useQuery<{ ok: boolean; occurrences: OccurrenceStats[] }>({
+    queryKey: occurrencesKey,
+    enabled: !!eventId
+  });
+  const occurrences = data?.occurrences || [];
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: errorText(error), variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: occurrencesKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/tickets/events/${eventId}`] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (payload: Record<string, any>) => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/occurrences`, payload);
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({
+        title: `${result.created} date${result.created !== 1 ? 's' : ''} added`,
+        description: result.skipped > 0 ? `${result.skipped} already on the schedule were skipped.` : undefined
+      });
+      setStartAt("");
+      setEndAt("");
+      setRule(emptyRule);
+      refresh();
+    },
+    onError: onError("Couldn't add dates")
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ occurrenceId, status }: { occurrenceId: string; status: 'scheduled' | 'canceled' }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/events/${eventId}/occurrences/${occurrenceId}`, { status });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Couldn't update date")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (occurrenceId: string) => {
+      const response = await apiRequest('DELETE', `/api/tickets/events/${eventId}/occurrences/${occurrenceId}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Couldn't remove date")
+  });
+
+  const addSingleDate = () => {
+    addMutation.mutate({
+      dates: [{
+        startAt: new Date(startAt).toISOString(),
+        endAt: endAt ? new Date(endAt).toISOString() : null
+      }]
+    });
+  };
+
+  const addRepeatingDates = () => {
+    addMutation.mutate({
+      rule: {
+        frequency: rule.frequency,
+        interval: parseInt(rule.interval) || 1,
+        count: rule.count ? parseInt(rule.count) : null,
+        // The last date counts until the end of that day
+        until: rule.until ? new Date(`${rule.until}T23:59:59`).toISOString() : null,
+        weekdays: rule.frequency === 'weekly' && rule.weekdays.length > 0 ? rule.weekdays : null
+      },
+      firstStartAt: new Date(rule.firstStartAt).toISOString(),
+      durationMinutes: rule.durationMinutes ? parseInt(rule.durationMinutes) : null
+    });
+  };
+
+  const toggleWeekday = (weekday: number, checked: boolean) => {
+    setRule({
+      ...rule,
+      weekdays: checked ? [...rule.weekdays, weekday].sort() : rule.weekdays.filter(d => d !== weekday)
+    });
+  };
+
+  const unit = rule.frequency === 'daily' ? 'days' : rule.frequency === 'weekly' ? 'weeks' : 'months';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <CalendarDays className="w-5 h-5 inline mr-2" />
+          Dates
+        </CardTitle>
+        <CardDescription>
+          Run this event on more than one date. Each tier's capacity applies per date; series passes admit to every date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-neutral-400">Loading dates...</p>
+        ) : occurrences.length === 0 ? (
+          <p className="text-sm text-neutral-400">This event runs once, at the start time above.</p>
+        ) : (
+          <div className="space-y-2">
+            {occurrences.map(occurrence => (
+              <div key={occurrence.occurrenceId} className="flex items-center justify-between gap-3 rounded-md border border-charcoal-700 p-3" data-testid={`occurrence-${occurrence.occurrenceId}`}>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`font-semibold ${occurrence.status === 'canceled' ? 'line-through text-neutral-500' : ''}`}>
+                      {format(new Date(occurrence.startAt), 'EEE, MMM d, yyyy · h:mm a')}
+                    </span>
+                    {occurrence.status === 'canceled' && <Badge variant="secondary">Canceled</Badge>}
+                  </div>
+                  <p className="text-xs text-neutral-400">
+                    {occurrence.ticketsSold} sold
+                    {occurrence.passHolders > 0 && ` · ${occurrence.passHolders} pass holders`}
+                    {' · '}{occurrence.checkedIn} checked in
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => statusMutation.mutate({
+                      occurrenceId: occurrence.occurrenceId,
+                      status: occurrence.status === 'canceled' ? 'scheduled' : 'canceled'
+                    })}
+                    disabled={statusMutation.isPending}
+                    title={occurrence.status === 'canceled' ? 'Reinstate date' : 'Cancel date'}
+                    data-testid={`button-toggle-occurrence-${occurrence.occurrenceId}`}
+                  >
+                    {occurrence.status === 'canceled' ? <RotateCcw className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+                  </Button>
+                  {occurrence.ticketsSold === 0 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(occurrence.occurrenceId)}
+                      disabled={deleteMutation.isPending}
+                      title="Remove date"
+                      data-testid={`button-delete-occurrence-${occurrence.occurrenceId}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Tabs defaultValue="single">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="single">Add a Date</TabsTrigger>
+            <TabsTrigger value="repeat">Repeat</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="single" className="space-y-4 pt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">Starts</label>
+                <Input
+                  type="datetime-local"
+                  value={startAt}
+                  onChange={(e) => setStartAt(e.target.value)}
+                  className={inputClassName}
+                  data-testid="input-occurrence-start"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Ends (Optional)</label>
+                <Input
+                  type="datetime-local"
+                  value={endAt}
+                  onChange={(e) => setEndAt(e.target.value)}
+                  className={inputClassName}
+                  data-testid="input-occurrence-end"
+                />
+              </div>
+            </div>
+            <Button
+              type="button"
+              className="w-full"
+              onClick={addSingleDate}
+              disabled={!startAt || addMutation.isPending}
+              data-testid="button-add-occurrence"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {addMutation.isPending ? "Adding..." : "Add Date"}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="repeat" className="space-y-4 pt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">Repeats</label>
+                <Select value={rule.frequency} onValueChange={(value: RuleDraft['frequency']) => setRule({ ...rule, frequency: value })}>
+                  <SelectTrigger className={inputClassName} data-testid="select-occurrence-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Every ({unit})</label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="12"
+                  value={rule.interval}
+                  onChange={(e) => setRule({ ...rule, interval: e.target.value })}
+                  className={inputClassName}
+                  data-testid="input-occurrence-interval"
+                />
+              </div>
+            </div>
+            {rule.frequency === 'weekly' && (
+              <div>
+                <label className="text-sm font-medium">On</label>
+                <p className="text-xs text-neutral-400 mb-2">Leave all unchecked to repeat on the first date's weekday.</p>
+                <div className="flex flex-wrap gap-4">
+                  {weekdayLabels.map((label, weekday) => (
+                    <label key={label} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={rule.weekdays.includes(weekday)}
+                        onCheckedChange={(checked) => toggleWeekday(weekday, checked === true)}
+                        data-testid={`checkbox-occurrence-weekday-${weekday}`}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">First Date</label>
+                <Input
+                  type="datetime-local"
+                  value={rule.firstStartAt}
+                  onChange={(e) => setRule({ ...rule, firstStartAt: e.target.value })}
+                  className={inputClassName}
+                  data-testid="input-occurrence-first-start"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Length (minutes)</label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={rule.durationMinutes}
+                  onChange={(e) => setRule({ ...rule, durationMinutes: e.target.value })}
+                  placeholder="No end time"
+                  className={inputClassName}
+                  data-testid="input-occurrence-duration"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">Number of Dates</label>
+                <Input
+                  type="number"
+                  min="1"
+                  max="200"
+                  value={rule.count}
+                  onChange={(e) => setRule({ ...rule, count: e.target.value })}
+                  placeholder="Until the last date"
+                  className={inputClassName}
+                  data-testid="input-occurrence-count"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Last Date (Optional)</label>
+                <Input
+                  type="date"
+                  value={rule.until}
+                  onChange={(e) => setRule({ ...rule, until: e.target.value })}
+                  className={inputClassName}
+                  data-testid="input-occurrence-until"
+                />
+              </div>
+            </div>
+            <Button
+              type="button"
+              className="w-full"
+              onClick={addRepeatingDates}
+              disabled={!rule.firstStartAt || (!rule.count && !rule.until) || addMutation.isPending}
+              data-testid="button-add-occurrence-rule"
+            >
+              <Repeat className="w-4 h-4 mr-2" />
+              {addMutation.isPending ? "Adding..." : "Add Dates"}
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
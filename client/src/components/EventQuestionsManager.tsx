@@ -0,0 +1,388 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ClipboardList, Plus, Trash2, Eye, EyeOff, ArrowUp, ArrowDown, Pencil } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type QuestionType = 'text' | 'textarea' | 'select' | 'checkbox' | 'number';
+
+interface Question {
+  id: string;
+  label: string;
+  helpText: string | null;
+  type: QuestionType;
+  options: string[] | null;
+  required: boolean;
+  appliesTo: 'order' | 'ticket';
+  tierIds: string[] | null;
+  sortOrder: number;
+  status: 'active' | 'hidden';
+  answerCount: number;
+}
+
+interface QuestionDraft {
+  label: string;
+  helpText: string;
+  type: QuestionType;
+  options: string; // one per line
+  required: boolean;
+  appliesTo: 'order' | 'ticket';
+  tierIds: string[];
+}
+
+interface EventQuestionsManagerProps {
+  eventId: string;
+  tiers: Array<{ id?: string; name: string }>;
+}
+
+const inputClassName = "bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500";
+
+const typeLabels: Record<QuestionType, string> = {
+  text: 'Short answer',
+  textarea: 'Paragraph',
+  select: 'Dropdown',
+  checkbox: 'Checkbox',
+  number: 'Number'
+};
+
+const emptyDraft: QuestionDraft = { label: '', helpText: '', type: 'text', options: '', required: false, appliesTo: 'order', tierIds: [] };
+
+// Organizer controls for the extra questions buyers answer at checkout
+export function EventQuestionsManager({ eventId, tiers }: EventQuestionsManagerProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<QuestionDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const savedTiers = tiers.filter((t): t is { id: string; name: string } => !!t.id);
+
+  const questionsKey = [`/api/tickets/events/${eventId}/questions`];
+  const { data, isLoading } = useQuery<{ ok: boolean; questions: Question[] }>({
+    queryKey: questionsKey,
+    enabled: !!eventId
+  });
+  const questions = data?.questions || [];
+  const editing = questions.find(q => q.id === editingId);
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: errorText(error), variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: questionsKey });
+  };
+
+  const resetForm = () => {
+    setDraft(emptyDraft);
+    setEditingId(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: Record<string, any>) => {
+      const response = editingId
+        ? await apiRequest('PATCH', `/api/tickets/events/${eventId}/questions/${editingId}`, payload)
+        : await apiRequest('POST', `/api/tickets/events/${eventId}/questions`, payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: editingId ? "Question updated" : "Question added" });
+      resetForm();
+      refresh();
+    },
+    onError: onError("Couldn't save question")
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ questionId, updates }: { questionId: string; updates: Record<string, any> }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/events/${eventId}/questions/${questionId}`, updates);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Couldn't update question")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (questionId: string) => {
+      const response = await apiRequest('DELETE', `/api/tickets/events/${eventId}/questions/${questionId}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Couldn't remove question")
+  });
+
+  const startEditing = (question: Question) => {
+    setEditingId(question.id);
+    setDraft({
+      label: question.label,
+      helpText: question.helpText || '',
+      type: question.type,
+      options: (question.options || []).join('\n'),
+      required: question.required,
+      appliesTo: question.appliesTo,
+      tierIds: question.tierIds || []
+    });
+  };
+
+  const saveQuestion = () => {
+    const payload: Record<string, any> = {
+      label: draft.label,
+      helpText: draft.helpText || null,
+      options: draft.type === 'select' ? draft.options.split('\n').map(o => o.trim()).filter(Boolean) : null,
+      required: draft.required,
+      tierIds: draft.appliesTo === 'ticket' && draft.tierIds.length > 0 ? draft.tierIds : null
+    };
+    // Type and scope are locked once buyers have answered
+    if (!editing || editing.answerCount === 0) {
+      payload.type = draft.type;
+      payload.appliesTo = draft.appliesTo;
+    }
+    saveMutation.mutate(payload);
+  };
+
+  // Swap sort positions with the neighbouring question
+  const move = (index: number, direction: -1 | 1) => {
+    const other = questions[index + direction];
+    const question = questions[index];
+    if (!other) return;
+    const [first, second] = direction === -1 ? [other, question] : [question, other];
+    const firstOrder = Math.min(first.sortOrder, second.sortOrder);
+    updateMutation.mutate({ questionId: second.id, updates: { sortOrder: firstOrder } });
+    updateMutation.mutate({ questionId: first.id, updates: { sortOrder: firstOrder + 1 } });
+  };
+
+  const toggleTier = (tierId: string, checked: boolean) => {
+    setDraft({
+      ...draft,
+      tierIds: checked ? [...draft.tierIds, tierId] : draft.tierIds.filter(id => id !== tierId)
+    });
+  };
+
+  const locked = !!editing && editing.answerCount > 0;
+  const tierName = (tierId: string) => savedTiers.find(t => t.id === tierId)?.name || 'Removed tier';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <ClipboardList className="w-5 h-5 inline mr-2" />
+          Checkout Questions
+        </CardTitle>
+        <CardDescription>
+          Ask buyers for extra details at checkout, once per order or for every ticket. Answers show on the attendee list and export.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-neutral-400">Loading questions...</p>
+        ) : questions.length === 0 ? (
+          <p className="text-sm text-neutral-400">Buyers are only asked for their name, email and phone.</p>
+        ) : (
+          <div className="space-y-2">
+            {questions.map((question, index) => (
+              <div key={question.id} className="flex items-center justify-between gap-3 rounded-md border border-charcoal-700 p-3" data-testid={`question-${question.id}`}>
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`font-semibold ${question.status === 'hidden' ? 'text-neutral-500' : ''}`}>
+                      {question.label}
+                      {question.required && <span className="text-copper-500"> *</span>}
+                    </span>
+                    <Badge variant="outline">{typeLabels[question.type]}</Badge>
+                    <Badge variant="outline">{question.appliesTo === 'ticket' ? 'Each ticket' : 'Once per order'}</Badge>
+                    {question.status === 'hidden' && <Badge variant="secondary">Hidden</Badge>}
+                  </div>
+                  <p className="text-xs text-neutral-400">
+                    {question.answerCount} answer{question.answerCount !== 1 ? 's' : ''}
+                    {question.type === 'select' && question.options && ` · ${question.options.join(', ')}`}
+                    {question.tierIds && question.tierIds.length > 0 && ` · ${question.tierIds.map(tierName).join(', ')} only`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0 || updateMutation.isPending}
+                    title="Move up"
+                    data-testid={`button-question-up-${question.id}`}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => move(index, 1)}
+                    disabled={index === questions.length - 1 || updateMutation.isPending}
+                    title="Move down"
+                    data-testid={`button-question-down-${question.id}`}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => startEditing(question)}
+                    title="Edit question"
+                    data-testid={`button-edit-question-${question.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateMutation.mutate({
+                      questionId: question.id,
+                      updates: { status: question.status === 'hidden' ? 'active' : 'hidden' }
+                    })}
+                    disabled={updateMutation.isPending}
+                    title={question.status === 'hidden' ? 'Ask again at checkout' : 'Stop asking at checkout'}
+                    data-testid={`button-toggle-question-${question.id}`}
+                  >
+                    {question.status === 'hidden' ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                  </Button>
+                  {question.answerCount === 0 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(question.id)}
+                      disabled={deleteMutation.isPending}
+                      title="Remove question"
+                      data-testid={`button-delete-question-${question.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 rounded-md border border-charcoal-700 p-4">
+          <p className="text-sm font-semibold">{editing ? `Edit "${editing.label}"` : 'Add a Question'}</p>
+          <div>
+            <label className="text-sm font-medium">Question</label>
+            <Input
+              value={draft.label}
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              placeholder="e.g. T-shirt size"
+              className={inputClassName}
+              data-testid="input-question-label"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Help Text (Optional)</label>
+            <Input
+              value={draft.helpText}
+              onChange={(e) => setDraft({ ...draft, helpText: e.target.value })}
+              placeholder="Shown under the question"
+              className={inputClassName}
+              data-testid="input-question-help"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium">Answer Type</label>
+              <Select value={draft.type} onValueChange={(value: QuestionType) => setDraft({ ...draft, type: value })} disabled={locked}>
+                <SelectTrigger className={inputClassName} data-testid="select-question-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(typeLabels) as QuestionType[]).map(type => (
+                    <SelectItem key={type} value={type}>{typeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Ask</label>
+              <Select value={draft.appliesTo} onValueChange={(value: 'order' | 'ticket') => setDraft({ ...draft, appliesTo: value })} disabled={locked}>
+                <SelectTrigger className={inputClassName} data-testid="select-question-applies-to">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="order">Once per order</SelectItem>
+                  <SelectItem value="ticket">For each ticket</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {locked && (
+            <p className="text-xs text-neutral-400">Buyers have already answered, so the answer type and who it's asked of can't change.</p>
+          )}
+          {draft.type === 'select' && (
+            <div>
+              <label className="text-sm font-medium">Options (one per line)</label>
+              <Textarea
+                value={draft.options}
+                onChange={(e) => setDraft({ ...draft, options: e.target.value })}
+                placeholder={"S\nM\nL"}
+                rows={4}
+                className={inputClassName}
+                data-testid="input-question-options"
+              />
+            </div>
+          )}
+          {draft.appliesTo === 'ticket' && savedTiers.length > 0 && (
+            <div>
+              <label className="text-sm font-medium">Tiers</label>
+              <p className="text-xs text-neutral-400 mb-2">Leave all unchecked to ask for every ticket.</p>
+              <div className="flex flex-wrap gap-4">
+                {savedTiers.map(tier => (
+                  <label key={tier.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.tierIds.includes(tier.id)}
+                      onCheckedChange={(checked) => toggleTier(tier.id, checked === true)}
+                      data-testid={`checkbox-question-tier-${tier.id}`}
+                    />
+                    {tier.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={draft.required}
+              onCheckedChange={(checked) => setDraft({ ...draft, required: checked === true })}
+              data-testid="checkbox-question-required"
+            />
+            {draft.type === 'checkbox' ? 'Must be checked to buy' : 'Required'}
+          </label>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              className="flex-1"
+              onClick={saveQuestion}
+              disabled={!draft.label.trim() || saveMutation.isPending}
+              data-testid="button-save-question"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : editing ? "Save Question" : "Add Question"}
+            </Button>
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm} data-testid="button-cancel-question">
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
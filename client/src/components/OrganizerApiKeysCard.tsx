@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { KeyRound, Copy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const apiKeysKey = ['/api/tickets/organizers/api-keys'];
+
+// Read-only keys for the public API - events, orders and attendees for this account's events
+export function OrganizerApiKeysCard() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<string[] | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ ok: boolean; apiKeys: ApiKey[]; scopes: string[] }>({
+    queryKey: apiKeysKey
+  });
+  const apiKeys = data?.apiKeys || [];
+  const scopes = data?.scopes || [];
+  // Every scope is ticked until the organizer changes it
+  const chosenScopes = selectedScopes ?? scopes;
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setSelectedScopes(checked ? [...chosenScopes, scope] : chosenScopes.filter(s => s !== scope));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/tickets/organizers/api-keys', {
+        name: name.trim(),
+        scopes: chosenScopes
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      setNewKey(result.key);
+      setName("");
+      setSelectedScopes(null);
+      queryClient.invalidateQueries({ queryKey: apiKeysKey });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't create key", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/tickets/organizers/api-keys/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Key revoked" });
+      queryClient.invalidateQueries({ queryKey: apiKeysKey });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't revoke key", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const copyKey = async (key: string) => {
+    await navigator.clipboard.writeText(key);
+    toast({ title: "Key copied" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Read your events, orders and attendees from <span className="font-mono">/api/tickets/v1</span> with
+          an <span className="font-mono">Authorization: Bearer</span> header.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newKey && (
+          <div className="rounded-md bg-muted p-3 space-y-1">
+            <p className="text-xs text-muted-foreground">Your new key - copy it now, it won't be shown again</p>
+            <div className="flex items-center gap-2">
+              <code className="text-xs break-all flex-1" data-testid="text-new-api-key">{newKey}</code>
+              <Button type="button" variant="ghost" size="sm" onClick={() => copyKey(newKey)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading keys...</p>
+        ) : apiKeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No API keys yet</p>
+        ) : (
+          <div className="space-y-2">
+            {apiKeys.map(apiKey => (
+              <div key={apiKey.id} className="flex items-center justify-between gap-3 border rounded-md px-3 py-2" data-testid={`api-key-${apiKey.id}`}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{apiKey.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{apiKey.keyPrefix}…</span>
+                    {apiKey.revokedAt && <Badge variant="secondary">Revoked</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {apiKey.scopes.join(', ')}
+                    {' · '}
+                    {apiKey.lastUsedAt ? `Last used ${format(new Date(apiKey.lastUsedAt), 'MMM d, h:mm a')}` : 'Never used'}
+                  </p>
+                </div>
+                {!apiKey.revokedAt && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      if (confirm(`Revoke "${apiKey.name}"? Anything using it will stop working.`)) revokeMutation.mutate(apiKey.id);
+                    }}
+                    data-testid={`button-revoke-key-${apiKey.id}`}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="pt-4 border-t space-y-3">
+          <div>
+            <Label htmlFor="apiKeyName">Key name</Label>
+            <Input
+              id="apiKeyName"
+              placeholder="e.g. Mailing list sync"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="mt-1.5"
+              data-testid="input-api-key-name"
+            />
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {scopes.map(scope => (
+              <label key={scope} className="flex items-center gap-2 text-sm font-mono">
+                <Checkbox
+                  checked={chosenScopes.includes(scope)}
+                  onCheckedChange={checked => toggleScope(scope, checked === true)}
+                />
+                {scope}
+              </label>
+            ))}
+          </div>
+          <Button
+            type="button"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || chosenScopes.length === 0 || createMutation.isPending}
+            data-testid="button-create-api-key"
+          >
+            Create key
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ShieldAlert, Copy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+interface Dispute {
+  id: string;
+  orderId: string;
+  amountCents: number;
+  reason: string;
+  status: string;
+  evidenceDueBy: string | null;
+  closedAt: string | null;
+  createdAt: string;
+  open: boolean;
+  blockedTicketCount: number;
+  buyerName: string | null;
+  buyerEmail: string | null;
+  eventTitle: string | null;
+}
+
+interface EvidencePack {
+  purchase: { at: string; ipAddress: string | null; userAgent: string | null } | null;
+  stripeEvidence: Record<string, string | null>;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  warning_needs_response: 'Inquiry - needs response',
+  warning_under_review: 'Inquiry - under review',
+  warning_closed: 'Inquiry closed',
+  needs_response: 'Needs response',
+  under_review: 'Under review',
+  won: 'Won',
+  lost: 'Lost'
+};
+
+const EVIDENCE_LABELS: Record<string, string> = {
+  customer_name: 'Customer name',
+  customer_email_address: 'Customer email',
+  customer_purchase_ip: 'Purchase IP',
+  product_description: 'Product description',
+  service_date: 'Service date',
+  access_activity_log: 'Access activity log',
+  refund_policy_disclosure: 'Refund policy disclosure'
+};
+
+const formatCurrency = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+function EvidenceDialog({ dispute, onClose }: { dispute: Dispute; onClose: () => void }) {
+  const { toast } = useToast();
+  const { data, isLoading, error } = useQuery<{ ok: boolean; evidence: EvidencePack }>({
+    queryKey: [`/api/tickets/organizers/disputes/${dispute.id}/evidence`]
+  });
+  const evidence = data?.evidence;
+
+  const copy = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: "Copied" });
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Evidence pack</DialogTitle>
+          <DialogDescription>
+            Paste these into the matching fields when you respond to the dispute in Stripe.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Putting the evidence together...</p>
+        ) : error || !evidence ? (
+          <p className="text-sm text-muted-foreground">Couldn't load the evidence pack</p>
+        ) : (
+          <div className="space-y-4">
+            {Object.entries(evidence.stripeEvidence)
+              .filter(([, value]) => value)
+              .map(([field, value]) => (
+                <div key={field} className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{EVIDENCE_LABELS[field] || field}</span>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => copy(value!)}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap rounded-md bg-muted p-2">{value}</p>
+                </div>
+              ))}
+
+            {evidence.purchase?.userAgent && (
+              <p className="text-xs text-muted-foreground">
+                Bought {format(new Date(evidence.purchase.at), 'MMM d, yyyy h:mm a')} from {evidence.purchase.userAgent}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Chargebacks and card issuer inquiries on this account's orders
+export function OrganizerDisputesCard() {
+  const [evidenceFor, setEvidenceFor] = useState<Dispute | null>(null);
+  const { data, isLoading } = useQuery<{ ok: boolean; disputes: Dispute[] }>({
+    queryKey: ['/api/tickets/organizers/disputes']
+  });
+  const disputes = data?.disputes || [];
+
+  // Nothing to show until a buyer disputes something
+  if (isLoading || disputes.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" />
+          Disputes
+        </CardTitle>
+        <CardDescription>
+          Tickets on a disputed order are blocked at the door until the dispute closes. Chargebacks come off your payouts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {disputes.map(dispute => (
+          <div key={dispute.id} className="flex items-center justify-between gap-3 border rounded-md px-3 py-2" data-testid={`dispute-${dispute.id}`}>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{formatCurrency(dispute.amountCents)}</span>
+                <Badge variant={dispute.open ? 'destructive' : dispute.status === 'won' ? 'default' : 'secondary'}>
+                  {STATUS_LABELS[dispute.status] || dispute.status}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {dispute.eventTitle} • {dispute.buyerName || dispute.buyerEmail} • {dispute.reason.replace(/_/g, ' ')}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Opened {format(new Date(dispute.createdAt), 'MMM d, yyyy')}
+                {dispute.open && dispute.evidenceDueBy && ` • Evidence due ${format(new Date(dispute.evidenceDueBy), 'MMM d, h:mm a')}`}
+                {dispute.open && dispute.blockedTicketCount > 0 && ` • ${dispute.blockedTicketCount} ticket${dispute.blockedTicketCount === 1 ? '' : 's'} blocked`}
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setEvidenceFor(dispute)}
+              data-testid={`button-dispute-evidence-${dispute.id}`}
+            >
+              Evidence
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+
+      {evidenceFor && <EvidenceDialog dispute={evidenceFor} onClose={() => setEvidenceFor(null)} />}
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Receipt, Download } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface TaxSummary {
+  year: number;
+  quarter: number;
+  periodStart: string;
+  periodEnd: string;
+  orderCount: number;
+  lines: Array<{
+    province: string;
+    code: string;
+    label: string;
+    ratePercent: number;
+    collectedCents: number;
+    refundedCents: number;
+    netCents: number;
+  }>;
+  events: Array<{
+    eventId: string;
+    title: string;
+    province: string;
+    orderCount: number;
+    salesCents: number;
+    netTaxCents: number;
+  }>;
+  totals: { collectedCents: number; refundedCents: number; netCents: number };
+}
+
+const formatCurrency = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// The last eight quarters, newest first, as "year-quarter"
+const recentQuarters = () => {
+  const now = new Date();
+  let year = now.getFullYear();
+  let quarter = Math.floor(now.getMonth() / 3) + 1;
+  const quarters: string[] = [];
+  for (let i = 0; i < 8; i++) {
+    quarters.push(`${year}-${quarter}`);
+    quarter -= 1;
+    if (quarter === 0) {
+      quarter = 4;
+      year -= 1;
+    }
+  }
+  return quarters;
+};
+
+// Sales tax collected on this account's orders in a quarter, for filing returns
+export function OrganizerTaxSummaryCard() {
+  const quarters = recentQuarters();
+  const [selected, setSelected] = useState(quarters[0]);
+  const [year, quarter] = selected.split('-');
+  const summaryUrl = `/api/tickets/organizers/tax-summary?year=${year}&quarter=${quarter}`;
+
+  const { data, isLoading, error } = useQuery<{ ok: boolean; summary: TaxSummary }>({
+    queryKey: [summaryUrl]
+  });
+  const summary = data?.summary;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="w-5 h-5" />
+              Sales Tax
+            </CardTitle>
+            <CardDescription>
+              Tax collected on your ticket sales, by province, net of refunds
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={selected} onValueChange={setSelected}>
+              <SelectTrigger className="w-32" data-testid="select-tax-quarter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {quarters.map(q => (
+                  <SelectItem key={q} value={q}>Q{q.split('-')[1]} {q.split('-')[0]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" asChild>
+              <a
+                href={summaryUrl.replace('/tax-summary?', '/tax-summary/csv?')}
+                data-testid="button-tax-summary-csv"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : error || !summary ? (
+          <p className="text-sm text-muted-foreground">Couldn't load the tax summary</p>
+        ) : summary.orderCount === 0 ? (
+          <p className="text-sm text-muted-foreground">No paid orders in Q{summary.quarter} {summary.year}</p>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tax</TableHead>
+                  <TableHead className="text-right">Collected</TableHead>
+                  <TableHead className="text-right">Refunded</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.lines.map(line => (
+                  <TableRow key={`${line.province}-${line.code}-${line.ratePercent}`}>
+                    <TableCell>{line.province} {line.label} {line.ratePercent}%</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.collectedCents)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(line.refundedCents)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(line.netCents)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-semibold">Total</TableCell>
+                  <TableCell className="text-right">{formatCurrency(summary.totals.collectedCents)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(summary.totals.refundedCents)}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatCurrency(summary.totals.netCents)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            <div className="space-y-1 text-sm">
+              {summary.events.map(event => (
+                <div key={event.eventId} className="flex justify-between text-muted-foreground">
+                  <span>{event.title} ({event.province}) • {event.orderCount} order{event.orderCount === 1 ? '' : 's'}</span>
+                  <span>{formatCurrency(event.salesCents)} sales • {formatCurrency(event.netTaxCents)} tax</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,355 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Webhook, Copy, Send, RefreshCw, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+
+interface OrganizerWebhook {
+  id: string;
+  url: string;
+  eventTypes: string[];
+  description: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventType: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string;
+  lastResponseStatus: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+const webhooksKey = ['/api/tickets/organizers/webhooks'];
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const { toast } = useToast();
+  const deliveriesKey = [`/api/tickets/organizers/webhooks/${webhookId}/deliveries`];
+  const { data, isLoading } = useQuery<{ ok: boolean; deliveries: WebhookDelivery[] }>({
+    queryKey: deliveriesKey
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const response = await apiRequest('POST', `/api/tickets/organizers/webhook-deliveries/${deliveryId}/redeliver`);
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({ title: result.delivery.status === 'succeeded' ? "Delivered" : "Redelivery failed - it will be retried" });
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't redeliver", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading deliveries...</p>;
+  }
+  const deliveries = data?.deliveries || [];
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing sent yet</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map(delivery => (
+        <div key={delivery.id} className="flex items-center justify-between gap-3 text-sm border rounded-md px-3 py-2" data-testid={`delivery-${delivery.id}`}>
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-mono">{delivery.eventType}</span>
+              {delivery.status === 'succeeded' ? (
+                <Badge variant="default" className="bg-green-600">Delivered</Badge>
+              ) : delivery.status === 'failed' ? (
+                <Badge variant="destructive">Failed</Badge>
+              ) : (
+                <Badge variant="secondary">Retrying</Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground truncate">
+              {format(new Date(delivery.createdAt), 'MMM d, h:mm a')}
+              {' · '}{delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+              {delivery.lastResponseStatus ? ` · HTTP ${delivery.lastResponseStatus}` : ''}
+              {delivery.status !== 'succeeded' && delivery.lastError ? ` · ${delivery.lastError}` : ''}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => redeliverMutation.mutate(delivery.id)}
+            disabled={redeliverMutation.isPending}
+            data-testid={`button-redeliver-${delivery.id}`}
+          >
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Endpoints that receive signed POSTs when orders are paid and tickets are checked in, refunded or transferred
+export function OrganizerWebhooksCard() {
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+  const [logWebhookId, setLogWebhookId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<{ ok: boolean; webhooks: OrganizerWebhook[]; eventTypes: string[] }>({
+    queryKey: webhooksKey
+  });
+  const webhooks = data?.webhooks || [];
+  const eventTypes = data?.eventTypes || [];
+
+  const toggleType = (type: string, checked: boolean) => {
+    setSelectedTypes(types => checked ? [...types, type] : types.filter(t => t !== type));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/tickets/organizers/webhooks', {
+        url: url.trim(),
+        description: description.trim() || undefined,
+        eventTypes: selectedTypes
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({ title: "Endpoint added" });
+      setRevealedSecret({ webhookId: result.webhook.id, secret: result.secret });
+      setUrl("");
+      setDescription("");
+      setSelectedTypes([]);
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't add endpoint", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/organizers/webhooks/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: webhooksKey }),
+    onError: (error: any) => {
+      toast({ title: "Couldn't update endpoint", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/tickets/organizers/webhooks/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Endpoint removed" });
+      queryClient.invalidateQueries({ queryKey: webhooksKey });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't remove endpoint", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/tickets/organizers/webhooks/${id}/rotate-secret`);
+      return { id, ...(await response.json()) };
+    },
+    onSuccess: (result: any) => {
+      toast({ title: "New signing secret created", description: "Update your endpoint - the old secret no longer works" });
+      setRevealedSecret({ webhookId: result.id, secret: result.secret });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't rotate secret", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/tickets/organizers/webhooks/${id}/test`);
+      return { id, ...(await response.json()) };
+    },
+    onSuccess: (result: any) => {
+      const delivery: WebhookDelivery = result.delivery;
+      if (delivery.status === 'succeeded') {
+        toast({ title: "Test delivered", description: `Your endpoint responded ${delivery.lastResponseStatus}` });
+      } else {
+        toast({ title: "Test failed", description: delivery.lastError || 'No response', variant: "destructive" });
+      }
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/organizers/webhooks/${result.id}/deliveries`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't send test", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Secret copied" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="w-5 h-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Get a POST when orders are paid and tickets are checked in, refunded or transferred. Each request carries an
+          X-Jugnu-Signature header: <span className="font-mono">t=timestamp,v1=HMAC-SHA256(secret, "timestamp.body")</span>.
+          Failed deliveries are retried for about two hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading endpoints...</p>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No endpoints yet</p>
+        ) : (
+          <div className="space-y-4">
+            {webhooks.map(webhook => (
+              <div key={webhook.id} className="border rounded-lg p-4 space-y-3" data-testid={`webhook-${webhook.id}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-mono text-sm break-all">{webhook.url}</p>
+                    {webhook.description && (
+                      <p className="text-xs text-muted-foreground">{webhook.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {webhook.eventTypes.map(type => (
+                        <Badge key={type} variant="outline" className="font-mono text-xs">{type}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Switch
+                    checked={webhook.isActive}
+                    onCheckedChange={isActive => updateMutation.mutate({ id: webhook.id, isActive })}
+                    data-testid={`switch-webhook-active-${webhook.id}`}
+                  />
+                </div>
+
+                {revealedSecret?.webhookId === webhook.id && (
+                  <div className="rounded-md bg-muted p-3 space-y-1">
+                    <p className="text-xs text-muted-foreground">Signing secret - copy it now, it won't be shown again</p>
+                    <div className="flex items-center gap-2">
+                      <code className="text-xs break-all flex-1">{revealedSecret.secret}</code>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => copySecret(revealedSecret.secret)}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => testMutation.mutate(webhook.id)}
+                    disabled={testMutation.isPending}
+                    data-testid={`button-test-webhook-${webhook.id}`}
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    Send test
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLogWebhookId(logWebhookId === webhook.id ? null : webhook.id)}
+                  >
+                    {logWebhookId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => rotateMutation.mutate(webhook.id)}
+                    disabled={rotateMutation.isPending}
+                  >
+                    Rotate secret
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      if (confirm('Remove this endpoint? Pending retries will stop.')) deleteMutation.mutate(webhook.id);
+                    }}
+                    data-testid={`button-delete-webhook-${webhook.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {logWebhookId === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="pt-4 border-t space-y-3">
+          <div>
+            <Label htmlFor="webhookUrl">Endpoint URL</Label>
+            <Input
+              id="webhookUrl"
+              placeholder="https://example.com/jugnu/webhooks"
+              value={url}
+              onChange={e => setUrl(e.target.value)}
+              className="mt-1.5"
+              data-testid="input-webhook-url"
+            />
+          </div>
+          <div>
+            <Label htmlFor="webhookDescription">Description (optional)</Label>
+            <Input
+              id="webhookDescription"
+              placeholder="e.g. CRM sync"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              className="mt-1.5"
+            />
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {eventTypes.map(type => (
+              <label key={type} className="flex items-center gap-2 text-sm font-mono">
+                <Checkbox
+                  checked={selectedTypes.includes(type)}
+                  onCheckedChange={checked => toggleType(type, checked === true)}
+                />
+                {type}
+              </label>
+            ))}
+          </div>
+          <Button
+            type="button"
+            onClick={() => createMutation.mutate()}
+            disabled={!url.trim() || selectedTypes.length === 0 || createMutation.isPending}
+            data-testid="button-add-webhook"
+          >
+            Add endpoint
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
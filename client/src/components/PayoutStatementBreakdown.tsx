@@ -0,0 +1,137 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileText, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface StatementLine {
+  ledgerEntryId: string;
+  date: string;
+  type: string;
+  description: string | null;
+  orderId: string | null;
+  eventTitle: string | null;
+  buyerName: string | null;
+  buyerEmail: string | null;
+  amountCents: number;
+  reconciliation: 'matched' | 'needs_review' | 'pending' | 'not_applicable';
+}
+
+interface PayoutStatement {
+  lines: StatementLine[];
+  totals: {
+    salesCents: number;
+    refundsCents: number;
+    chargebacksCents: number;
+    adjustmentsCents: number;
+    netCents: number;
+  };
+  needsReviewCount: number;
+}
+
+const formatCurrency = (cents: number) => `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+const TYPE_LABELS: Record<string, string> = {
+  sale: 'Sale',
+  refund: 'Refund',
+  chargeback: 'Chargeback',
+  adjustment: 'Adjustment'
+};
+
+// Line-by-line breakdown of what a payout settled, with CSV and PDF downloads
+export function PayoutStatementBreakdown({ payoutId }: { payoutId: string }) {
+  const statementUrl = `/api/tickets/organizers/payouts/${payoutId}/statement`;
+  const { data, isLoading, error } = useQuery<{ ok: boolean; statement: PayoutStatement }>({
+    queryKey: [statementUrl]
+  });
+  const statement = data?.statement;
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+  if (error || !statement) {
+    return <p className="text-sm text-muted-foreground">Couldn't load this statement</p>;
+  }
+
+  const totals: Array<[string, number]> = [
+    ['Sales', statement.totals.salesCents],
+    ['Refunds', statement.totals.refundsCents],
+    ['Chargebacks', statement.totals.chargebacksCents],
+    ['Adjustments', statement.totals.adjustmentsCents]
+  ];
+
+  return (
+    <div className="space-y-4" data-testid={`payout-statement-${payoutId}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-4 text-sm">
+          {totals.map(([label, cents]) => (
+            <div key={label}>
+              <span className="text-muted-foreground">{label}: </span>
+              <span className="font-medium">{formatCurrency(cents)}</span>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`${statementUrl}/csv`} data-testid={`button-statement-csv-${payoutId}`}>
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`${statementUrl}/pdf`} data-testid={`button-statement-pdf-${payoutId}`}>
+              <FileText className="w-4 h-4 mr-2" />
+              PDF
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {statement.needsReviewCount > 0 && (
+        <p className="text-sm text-amber-700">
+          {statement.needsReviewCount} {statement.needsReviewCount === 1 ? 'line is' : 'lines are'} under review because
+          Stripe's records don't match ours yet. Any correction will show up on a later payout.
+        </p>
+      )}
+
+      {statement.lines.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No ledger entries are linked to this payout</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {statement.lines.map(line => (
+              <TableRow key={line.ledgerEntryId}>
+                <TableCell className="whitespace-nowrap">{format(new Date(line.date), 'MMM d, yyyy')}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {TYPE_LABELS[line.type] || line.type}
+                    {line.reconciliation === 'needs_review' && (
+                      <Badge variant="outline" className="border-amber-500 text-amber-700">Needs review</Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm">
+                  <div>{line.eventTitle || line.description || '—'}</div>
+                  {(line.buyerName || line.buyerEmail) && (
+                    <div className="text-xs text-muted-foreground">{line.buyerName || line.buyerEmail}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(line.amountCents)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
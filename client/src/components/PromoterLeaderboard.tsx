@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Megaphone, Plus, Link2, Eye, Pause, Play, Trash2, RefreshCw, Trophy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Promoter {
+  id: string;
+  name: string;
+  email: string | null;
+  refCode: string;
+  commissionType: 'percent' | 'fixed' | null;
+  commissionValue: number | null;
+  viewToken: string;
+  status: 'active' | 'disabled';
+  stats: {
+    orders: number;
+    ticketsSold: number;
+    grossCents: number;
+    commissionCents: number | null;
+    lastSaleAt: string | null;
+  };
+}
+
+interface PromoterLeaderboardProps {
+  eventId: string;
+  eventSlug?: string;
+}
+
+type CommissionChoice = 'none' | 'percent' | 'fixed';
+
+const formatMoney = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+function describeCommission(promoter: Promoter): string {
+  if (promoter.commissionType === 'percent') return `${promoter.commissionValue}%`;
+  if (promoter.commissionType === 'fixed') return `${formatMoney(promoter.commissionValue || 0)}/ticket`;
+  return 'None';
+}
+
+// Promoter tracking links for an event, ranked by what they've sold
+export function PromoterLeaderboard({ eventId, eventSlug }: PromoterLeaderboardProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [refCode, setRefCode] = useState("");
+  const [commissionType, setCommissionType] = useState<CommissionChoice>('none');
+  const [commissionAmount, setCommissionAmount] = useState("");
+
+  const promotersKey = [`/api/tickets/events/${eventId}/promoters`];
+  const { data, isLoading } = useQuery<{ ok: boolean; promoters: Promoter[] }>({
+    queryKey: promotersKey,
+    enabled: !!eventId
+  });
+  const promoters = data?.promoters || [];
+
+  const totals = promoters.reduce((sum, p) => ({
+    ticketsSold: sum.ticketsSold + p.stats.ticketsSold,
+    grossCents: sum.grossCents + p.stats.grossCents,
+    commissionCents: sum.commissionCents + (p.stats.commissionCents || 0)
+  }), { ticketsSold: 0, grossCents: 0, commissionCents: 0 });
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: errorText(error), variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const amount = parseFloat(commissionAmount) || 0;
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/promoters`, {
+        name,
+        email: email || null,
+        refCode: refCode || undefined,
+        commissionType: commissionType === 'none' ? null : commissionType,
+        commissionValue: commissionType === 'none' ? null : commissionType === 'fixed' ? Math.round(amount * 100) : amount
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({ title: "Promoter link created", description: `?ref=${result.promoter.refCode}` });
+      setName("");
+      setEmail("");
+      setRefCode("");
+      setCommissionType('none');
+      setCommissionAmount("");
+      queryClient.invalidateQueries({ queryKey: promotersKey });
+    },
+    onError: onError("Couldn't create promoter link")
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ promoterId, status }: { promoterId: string; status: Promoter['status'] }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/events/${eventId}/promoters/${promoterId}`, { status });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: promotersKey }),
+    onError: onError("Couldn't update promoter link")
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (promoterId: string) => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/promoters/${promoterId}/rotate-token`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "New stats link created", description: "The old stats link no longer works." });
+      queryClient.invalidateQueries({ queryKey: promotersKey });
+    },
+    onError: onError("Couldn't create a new stats link")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (promoterId: string) => {
+      const response = await apiRequest('DELETE', `/api/tickets/events/${eventId}/promoters/${promoterId}`);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: promotersKey }),
+    onError: onError("Couldn't delete promoter link")
+  });
+
+  const copy = async (text: string, title: string) => {
+    await navigator.clipboard.writeText(text);
+    toast({ title });
+  };
+
+  const trackingLink = (promoter: Promoter) =>
+    `${window.location.origin}/tickets/e/${eventSlug || eventId}?ref=${promoter.refCode}`;
+  const viewLink = (promoter: Promoter) =>
+    `${window.location.origin}/tickets/promoter/${promoter.viewToken}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Tickets via Promoters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-promoter-total-tickets">{totals.ticketsSold}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Promoter Gross</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-promoter-total-gross">{formatMoney(totals.grossCents)}</div>
+            <div className="text-sm text-muted-foreground">Ticket sales after discounts and refunds</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Commission Owed</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold" data-testid="text-promoter-total-commission">{formatMoney(totals.commissionCents)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trophy className="w-5 h-5" />
+            Promoter Leaderboard
+          </CardTitle>
+          <CardDescription>
+            Sales credited to each promoter's tracking link
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading promoters...</p>
+          ) : promoters.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No promoter links yet. Create one below and share it with your promoters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Promoter</TableHead>
+                  <TableHead className="text-right">Tickets</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead>Commission</TableHead>
+                  <TableHead className="text-right">Owed</TableHead>
+                  <TableHead>Last Sale</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promoters.map((promoter, index) => (
+                  <TableRow key={promoter.id} data-testid={`row-promoter-${promoter.id}`}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell>
+                      <div className="font-medium flex items-center gap-2">
+                        {promoter.name}
+                        {promoter.status === 'disabled' && <Badge variant="secondary">Disabled</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono">?ref={promoter.refCode}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{promoter.stats.ticketsSold}</TableCell>
+                    <TableCell className="text-right">{formatMoney(promoter.stats.grossCents)}</TableCell>
+                    <TableCell>{describeCommission(promoter)}</TableCell>
+                    <TableCell className="text-right">
+                      {promoter.stats.commissionCents != null ? formatMoney(promoter.stats.commissionCents) : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {promoter.stats.lastSaleAt ? format(new Date(promoter.stats.lastSaleAt), 'MMM d, h:mm a') : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Copy tracking link"
+                          onClick={() => copy(trackingLink(promoter), "Tracking link copied")}
+                          data-testid={`button-copy-promoter-link-${promoter.id}`}
+                        >
+                          <Link2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Copy promoter's stats link"
+                          onClick={() => copy(viewLink(promoter), "Stats link copied")}
+                          data-testid={`button-copy-promoter-view-${promoter.id}`}
+                        >
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Replace stats link"
+                          onClick={() => rotateMutation.mutate(promoter.id)}
+                          disabled={rotateMutation.isPending}
+                          data-testid={`button-rotate-promoter-view-${promoter.id}`}
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={promoter.status === 'active' ? 'Disable link' : 'Enable link'}
+                          onClick={() => statusMutation.mutate({ promoterId: promoter.id, status: promoter.status === 'active' ? 'disabled' : 'active' })}
+                          disabled={statusMutation.isPending}
+                          data-testid={`button-toggle-promoter-${promoter.id}`}
+                        >
+                          {promoter.status === 'active' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                        </Button>
+                        {promoter.stats.orders === 0 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete link"
+                            onClick={() => deleteMutation.mutate(promoter.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-promoter-${promoter.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5" />
+            New Promoter Link
+          </CardTitle>
+          <CardDescription>
+            Leave the ref code blank to make one from the promoter's name
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid grid-cols-1 md:grid-cols-2 gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div>
+              <Label htmlFor="promoter-name">Name</Label>
+              <Input
+                id="promoter-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., DJ Kiran"
+                data-testid="input-promoter-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="promoter-email">Email (Optional)</Label>
+              <Input
+                id="promoter-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                data-testid="input-promoter-email"
+              />
+            </div>
+            <div>
+              <Label htmlFor="promoter-ref">Ref Code (Optional)</Label>
+              <Input
+                id="promoter-ref"
+                value={refCode}
+                onChange={(e) => setRefCode(e.target.value)}
+                placeholder="e.g., kiran"
+                data-testid="input-promoter-ref"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label>Commission</Label>
+                <Select value={commissionType} onValueChange={(value) => setCommissionType(value as CommissionChoice)}>
+                  <SelectTrigger data-testid="select-promoter-commission-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="percent">% of gross</SelectItem>
+                    <SelectItem value="fixed">$ per ticket</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="promoter-commission">{commissionType === 'fixed' ? 'Amount ($)' : 'Percent'}</Label>
+                <Input
+                  id="promoter-commission"
+                  type="number"
+                  min="0"
+                  step={commissionType === 'fixed' ? '0.01' : '0.1'}
+                  value={commissionAmount}
+                  onChange={(e) => setCommissionAmount(e.target.value)}
+                  disabled={commissionType === 'none'}
+                  data-testid="input-promoter-commission"
+                />
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <Button
+                type="submit"
+                disabled={!name.trim() || createMutation.isPending}
+                data-testid="button-create-promoter"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {createMutation.isPending ? 'Creating...' : 'Create Link'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+
+interface BuyerRefundRequest {
+  id: string;
+  ticketIds: string[];
+  reason: string;
+  requestedCents: number;
+  approvedCents: number | null;
+  status: 'pending' | 'approved' | 'declined';
+  decisionNote: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+interface RefundRequestCardProps {
+  orderId: string;
+  buyerEmail: string;
+  tickets: Array<{ id: string; tierName: string; serial: string; seatLabel?: string | null }>;
+}
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Buyers ask the organizer for a refund while the event's refund window is open
+export function RefundRequestCard({ orderId, buyerEmail, tickets }: RefundRequestCardProps) {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [reason, setReason] = useState("");
+  const [showForm, setShowForm] = useState(false);
+
+  const requestsKey = [`/api/tickets/orders/${orderId}/refund-requests?email=${encodeURIComponent(buyerEmail)}`];
+  const { data } = useQuery<{
+    ok: boolean;
+    window: { open: boolean; closesAt: string };
+    requestableTicketIds: string[];
+    requests: BuyerRefundRequest[];
+  }>({
+    queryKey: requestsKey,
+    enabled: !!orderId && !!buyerEmail
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/orders/${orderId}/refund-requests`, {
+        buyerEmail,
+        ticketIds: selectedIds,
+        reason: reason.trim()
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({
+        title: result.request.status === 'approved' ? "Refund approved" : "Request sent",
+        description: result.request.status === 'approved'
+          ? `${dollars(result.request.approvedCents)} is on its way back to your card.`
+          : "The organizer will review it - we'll email you their decision."
+      });
+      setSelectedIds([]);
+      setReason("");
+      setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: requestsKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/orders/${orderId}`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't send request", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  if (!data) return null;
+
+  const requestable = tickets.filter(ticket => data.requestableTicketIds.includes(ticket.id));
+  const canRequest = data.window.open && requestable.length > 0;
+  if (!canRequest && data.requests.length === 0) return null;
+
+  const toggleTicket = (ticketId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, ticketId] : prev.filter(id => id !== ticketId));
+  };
+
+  return (
+    <Card className="mt-8" data-testid="card-refund-request">
+      <CardHeader>
+        <CardTitle>Refunds</CardTitle>
+        <CardDescription>
+          {data.window.open
+            ? `You can request a refund until ${format(new Date(data.window.closesAt), "MMMM d, yyyy 'at' h:mm a")}`
+            : 'The refund window for this event has closed'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.requests.map(request => (
+          <div key={request.id} className="border rounded-lg p-4 space-y-1" data-testid={`refund-request-${request.id}`}>
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                {request.ticketIds.length} ticket{request.ticketIds.length !== 1 ? 's' : ''} · {dollars(request.approvedCents ?? request.requestedCents)}
+              </span>
+              <Badge variant={request.status === 'declined' ? 'destructive' : request.status === 'approved' ? 'default' : 'secondary'}>
+                {request.status === 'pending' ? 'Waiting for organizer' : request.status === 'approved' ? 'Refunded' : 'Declined'}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">Requested {format(new Date(request.createdAt), 'MMM d, h:mm a')}</p>
+            {request.decisionNote && (
+              <p className="text-sm">Organizer: {request.decisionNote}</p>
+            )}
+          </div>
+        ))}
+
+        {canRequest && !showForm && (
+          <Button type="button" variant="outline" onClick={() => setShowForm(true)} data-testid="button-request-refund">
+            Request a Refund
+          </Button>
+        )}
+
+        {canRequest && showForm && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (selectedIds.length > 0 && reason.trim()) submitMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label>Which tickets?</Label>
+              {requestable.map(ticket => (
+                <label key={ticket.id} className="flex items-center gap-3 text-sm" data-testid={`option-refund-ticket-${ticket.id}`}>
+                  <Checkbox
+                    checked={selectedIds.includes(ticket.id)}
+                    onCheckedChange={(checked) => toggleTicket(ticket.id, checked === true)}
+                  />
+                  <span>{ticket.tierName}{ticket.seatLabel ? ` · ${ticket.seatLabel}` : ''} · {ticket.serial}</span>
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea
+                id="refund-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Let the organizer know why you can't make it"
+                rows={3}
+                data-testid="input-refund-reason"
+              />
+            </div>
+            <Alert>
+              <AlertDescription>Refunded tickets are canceled and can't be used for entry.</AlertDescription>
+            </Alert>
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                disabled={selectedIds.length === 0 || !reason.trim() || submitMutation.isPending}
+                data-testid="button-submit-refund-request"
+              >
+                {submitMutation.isPending ? 'Sending...' : 'Send Request'}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
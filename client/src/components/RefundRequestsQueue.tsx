@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+
+interface RefundRequest {
+  id: string;
+  orderId: string;
+  ticketIds: string[];
+  buyerEmail: string;
+  buyerName: string | null;
+  reason: string;
+  requestedCents: number;
+  approvedCents: number | null;
+  status: 'pending' | 'approved' | 'declined';
+  autoApproved: boolean;
+  decisionNote: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+interface RefundRequestsQueueProps {
+  eventId: string;
+}
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Organizer review of buyer refund requests: approve in full or in part, or decline
+export function RefundRequestsQueue({ eventId }: RefundRequestsQueueProps) {
+  const { toast } = useToast();
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const requestsKey = [`/api/tickets/events/${eventId}/refund-requests`];
+  const { data, isLoading } = useQuery<{ ok: boolean; requests: RefundRequest[]; pendingCount: number }>({
+    queryKey: requestsKey,
+    enabled: !!eventId
+  });
+  const requests = data?.requests || [];
+  const pending = requests.filter(r => r.status === 'pending');
+  const decided = requests.filter(r => r.status !== 'pending').reverse();
+
+  const startReview = (request: RefundRequest) => {
+    setReviewingId(request.id);
+    setAmount((request.requestedCents / 100).toFixed(2));
+    setNote("");
+  };
+
+  const onDecided = (title: string) => {
+    toast({ title });
+    setReviewingId(null);
+    queryClient.invalidateQueries({ queryKey: requestsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/tickets/events', eventId, 'attendees'] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (request: RefundRequest) => {
+      const response = await apiRequest('POST', `/api/tickets/refund-requests/${request.id}/approve`, {
+        amountCents: Math.round(parseFloat(amount) * 100),
+        note: note.trim() || undefined
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => onDecided(`Refunded ${dollars(result.request.approvedCents)}`),
+    onError: (error: any) => {
+      toast({ title: "Refund failed", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (request: RefundRequest) => {
+      const response = await apiRequest('POST', `/api/tickets/refund-requests/${request.id}/decline`, {
+        note: note.trim() || undefined
+      });
+      return response.json();
+    },
+    onSuccess: () => onDecided("Request declined - the buyer has been emailed"),
+    onError: (error: any) => {
+      toast({ title: "Couldn't decline request", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const amountCents = Math.round(parseFloat(amount) * 100);
+
+  return (
+    <Card className="glass-elevated border-copper-500/30">
+      <CardContent className="p-4 md:p-6 space-y-4">
+        <div>
+          <h3 className="font-fraunces text-xl font-bold text-white">Refund Requests</h3>
+          <p className="text-sm text-copper-300">
+            Buyers ask from their order page. Approving refunds the money and cancels the tickets; the buyer is emailed either way.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-copper-300 text-sm">Loading refund requests...</p>
+        ) : requests.length === 0 ? (
+          <div className="text-center py-8">
+            <RotateCcw className="h-10 w-10 text-copper-400 mx-auto mb-3" />
+            <p className="text-copper-300">No refund requests yet</p>
+          </div>
+        ) : (
+          <>
+            {pending.length === 0 && (
+              <p className="text-copper-300 text-sm">You're all caught up.</p>
+            )}
+            {pending.map(request => (
+              <div key={request.id} className="p-3 rounded-lg bg-black/40 border border-copper-500/20 space-y-3" data-testid={`refund-request-${request.id}`}>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-white truncate">{request.buyerName || request.buyerEmail}</div>
+                    <div className="text-xs text-copper-300">
+                      {request.ticketIds.length} ticket{request.ticketIds.length !== 1 ? 's' : ''} · order {request.orderId.slice(0, 8).toUpperCase()} · asked {format(new Date(request.createdAt), 'MMM d, h:mm a')}
+                    </div>
+                  </div>
+                  <span className="font-semibold text-white">{dollars(request.requestedCents)}</span>
+                </div>
+                <p className="text-sm text-copper-100 italic">"{request.reason}"</p>
+
+                {reviewingId === request.id ? (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor={`refund-amount-${request.id}`} className="text-copper-200">Refund amount</Label>
+                        <Input
+                          id={`refund-amount-${request.id}`}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          max={(request.requestedCents / 100).toFixed(2)}
+                          value={amount}
+                          onChange={(e) => setAmount(e.target.value)}
+                          className="bg-black/40 border-copper-500/30 text-white"
+                          data-testid="input-refund-amount"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor={`refund-note-${request.id}`} className="text-copper-200">Note to buyer (optional)</Label>
+                        <Textarea
+                          id={`refund-note-${request.id}`}
+                          value={note}
+                          onChange={(e) => setNote(e.target.value)}
+                          rows={2}
+                          className="bg-black/40 border-copper-500/30 text-white"
+                          data-testid="input-refund-note"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => approveMutation.mutate(request)}
+                        disabled={isNaN(amountCents) || amountCents < 0 || amountCents > request.requestedCents || approveMutation.isPending}
+                        className="bg-copper-500 hover:bg-copper-600 text-white"
+                        data-testid="button-approve-refund"
+                      >
+                        {approveMutation.isPending
+                          ? 'Refunding...'
+                          : amountCents < request.requestedCents ? `Approve partial (${dollars(amountCents || 0)})` : 'Approve full refund'}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => declineMutation.mutate(request)}
+                        disabled={declineMutation.isPending}
+                        className="border-red-500/40 text-red-300 hover:bg-red-500/10"
+                        data-testid="button-decline-refund"
+                      >
+                        {declineMutation.isPending ? 'Declining...' : 'Decline'}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setReviewingId(null)} className="text-copper-300">
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => startReview(request)}
+                    className="border-copper-500/30 text-copper-200"
+                    data-testid={`button-review-refund-${request.id}`}
+                  >
+                    Review
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {decided.length > 0 && (
+              <div className="space-y-2 pt-2">
+                <h4 className="font-semibold text-white">Decided</h4>
+                {decided.map(request => (
+                  <div key={request.id} className="flex items-center gap-3 p-3 rounded-lg bg-black/20 border border-copper-500/10 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-white truncate">{request.buyerName || request.buyerEmail}</div>
+                      <div className="text-xs text-copper-300 truncate">
+                        {request.decidedAt && format(new Date(request.decidedAt), 'MMM d, h:mm a')}
+                        {request.decisionNote && ` · ${request.decisionNote}`}
+                      </div>
+                    </div>
+                    {request.status === 'approved' ? (
+                      <Badge variant="outline" className="border-green-500/40 text-green-300">
+                        {request.autoApproved ? 'Auto-approved' : 'Refunded'} {dollars(request.approvedCents ?? 0)}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="border-red-500/40 text-red-300">Declined</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
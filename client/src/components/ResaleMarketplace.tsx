@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+import EmbeddedCheckout from "@/components/EmbeddedCheckout";
+
+interface ResaleListing {
+  id: string;
+  tierId: string;
+  tierName: string;
+  seatLabel: string | null;
+  occurrenceId: string | null;
+  priceCents: number;
+  faceValueCents: number;
+}
+
+interface ResaleMarketplaceProps {
+  eventId: string;
+  occurrences?: { id: string; startAt: string }[];
+  defaultBuyerName?: string;
+  defaultBuyerEmail?: string;
+}
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Tickets other fans are reselling at or below face value
+export function ResaleMarketplace({ eventId, occurrences = [], defaultBuyerName = "", defaultBuyerEmail = "" }: ResaleMarketplaceProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [buyerName, setBuyerName] = useState(defaultBuyerName);
+  const [buyerEmail, setBuyerEmail] = useState(defaultBuyerEmail);
+  const [clientSecret, setClientSecret] = useState<string | null>(null);
+
+  const listingsKey = [`/api/tickets/events/${eventId}/resale`];
+  const { data } = useQuery<{ ok: boolean; listings: ResaleListing[] }>({
+    queryKey: listingsKey,
+    enabled: !!eventId
+  });
+  const listings = data?.listings || [];
+
+  const purchaseMutation = useMutation({
+    mutationFn: async (listingId: string) => {
+      const response = await apiRequest('POST', `/api/tickets/resale/${listingId}/purchase`, {
+        buyerName: buyerName.trim(),
+        buyerEmail: buyerEmail.trim()
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      setClientSecret(result.clientSecret);
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't buy this ticket", description: errorText(error), variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: listingsKey });
+    }
+  });
+
+  const closeCheckout = () => {
+    setClientSecret(null);
+    setSelectedId(null);
+    queryClient.invalidateQueries({ queryKey: listingsKey });
+  };
+
+  if (listings.length === 0) return null;
+
+  const dateOf = (listing: ResaleListing) => {
+    const occurrence = occurrences.find(o => o.id === listing.occurrenceId);
+    return occurrence ? format(new Date(occurrence.startAt), 'EEE, MMM d') : null;
+  };
+
+  return (
+    <div className="premium-surface-elevated p-6 premium-slide-up" data-testid="section-fan-resale">
+      <div className="flex items-center gap-3 mb-2">
+        <Repeat className="w-5 h-5 text-orange-400" />
+        <h3 className="text-xl font-semibold text-white">Fan Resale</h3>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Tickets from fans who can't make it, never above face value. You'll get a brand new ticket in your name.
+      </p>
+
+      <div className="space-y-3">
+        {listings.map(listing => (
+          <div key={listing.id} className="rounded-lg bg-white/5 p-4" data-testid={`row-resale-${listing.id}`}>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="font-medium text-white">{listing.tierName}</p>
+                <p className="text-sm text-gray-400">
+                  {[dateOf(listing), listing.seatLabel].filter(Boolean).join(' · ')}
+                  {listing.priceCents < listing.faceValueCents && ` · Face value ${dollars(listing.faceValueCents)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-semibold text-white">{dollars(listing.priceCents)}</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={selectedId === listing.id ? "secondary" : "default"}
+                  onClick={() => setSelectedId(selectedId === listing.id ? null : listing.id)}
+                  data-testid={`button-buy-resale-${listing.id}`}
+                >
+                  {selectedId === listing.id ? 'Cancel' : 'Buy'}
+                </Button>
+              </div>
+            </div>
+
+            {selectedId === listing.id && (
+              <form
+                className="mt-4 grid gap-3 sm:grid-cols-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (buyerName.trim() && buyerEmail.trim()) purchaseMutation.mutate(listing.id);
+                }}
+              >
+                <div className="space-y-1">
+                  <Label htmlFor={`resale-name-${listing.id}`} className="text-gray-300">Full name</Label>
+                  <Input
+                    id={`resale-name-${listing.id}`}
+                    value={buyerName}
+                    onChange={(e) => setBuyerName(e.target.value)}
+                    required
+                    data-testid="input-resale-buyer-name"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`resale-email-${listing.id}`} className="text-gray-300">Email</Label>
+                  <Input
+                    id={`resale-email-${listing.id}`}
+                    type="email"
+                    value={buyerEmail}
+                    onChange={(e) => setBuyerEmail(e.target.value)}
+                    required
+                    data-testid="input-resale-buyer-email"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="sm:col-span-2"
+                  disabled={purchaseMutation.isPending}
+                  data-testid="button-checkout-resale"
+                >
+                  {purchaseMutation.isPending ? 'Holding ticket...' : `Pay ${dollars(listing.priceCents)}`}
+                </Button>
+              </form>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* The ticket is held for the buyer while they pay */}
+      {clientSecret && selectedId && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 overflow-y-auto">
+          <div className="min-h-screen flex items-center justify-center p-4">
+            <div className="bg-background rounded-lg shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-700">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-2xl font-fraunces text-white">Buy Resale Ticket</h2>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={closeCheckout}
+                    className="text-gray-400 hover:text-white"
+                    data-testid="button-close-resale-checkout"
+                  >
+                    ✕
+                  </Button>
+                </div>
+                <p className="text-gray-400 mt-2">We'll hold this ticket for you for 15 minutes</p>
+              </div>
+
+              <div className="p-6">
+                <EmbeddedCheckout
+                  clientSecret={clientSecret}
+                  orderId={selectedId}
+                  returnUrl={window.location.href}
+                  onSuccess={() => {
+                    toast({
+                      title: "Ticket purchased",
+                      description: `Your ticket is being reissued to ${buyerEmail.trim()} - check your inbox in a few minutes.`
+                    });
+                    closeCheckout();
+                  }}
+                  onError={() => {}}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Armchair, Plus, Trash2, Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SeatMapData, SeatMapSeat } from "@/components/SeatPicker";
+
+interface SectionDraft {
+  name: string;
+  tierId: string;
+  rows: string; // e.g. "A-J" or "1-5, AA, BB"
+  seatsPerRow: number;
+}
+
+interface SeatMapEditorProps {
+  eventId: string;
+  tiers: Array<{ id?: string; name: string }>;
+}
+
+const inputClassName = "bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500";
+
+// Expand "A-C, AA" into ["A", "B", "C", "AA"]; numeric ranges work the same way
+function expandRowLabels(spec: string): string[] {
+  const labels: string[] = [];
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const range = part.match(/^([A-Za-z]|\d+)\s*-\s*([A-Za-z]|\d+)$/);
+    if (!range) {
+      labels.push(part);
+      continue;
+    }
+    const [, from, to] = range;
+    if (/^\d+$/.test(from) && /^\d+$/.test(to)) {
+      for (let n = parseInt(from); n <= parseInt(to); n++) labels.push(String(n));
+    } else if (/^[A-Za-z]$/.test(from) && /^[A-Za-z]$/.test(to)) {
+      for (let c = from.toUpperCase().charCodeAt(0); c <= to.toUpperCase().charCodeAt(0); c++) {
+        labels.push(String.fromCharCode(c));
+      }
+    } else {
+      labels.push(part);
+    }
+  }
+  return labels;
+}
+
+export function SeatMapEditor({ eventId, tiers }: SeatMapEditorProps) {
+  const { toast } = useToast();
+  const savedTiers = tiers.filter((t): t is { id: string; name: string } => !!t.id);
+  const [mapName, setMapName] = useState("");
+  const [sections, setSections] = useState<SectionDraft[]>([]);
+
+  const { data: seatMapData, isLoading } = useQuery<{
+    ok: boolean;
+    seatMap: SeatMapData | null;
+    seats: SeatMapSeat[];
+  }>({
+    queryKey: [`/api/tickets/events/${eventId}/seat-map`],
+    enabled: !!eventId
+  });
+
+  // Load the saved seat map into the editor
+  useEffect(() => {
+    const seatMap = seatMapData?.seatMap;
+    if (!seatMap) return;
+    setMapName(seatMap.name);
+    setSections(seatMap.sections.map(section => {
+      const zone = seatMap.zones.find(z => z.key === section.zone);
+      return {
+        name: section.name,
+        tierId: zone?.tierId || '',
+        rows: section.rows.map(r => r.label).join(', '),
+        seatsPerRow: section.rows[0]?.seats || 10
+      };
+    }));
+  }, [seatMapData]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const usedTierIds = Array.from(new Set(sections.map(s => s.tierId)));
+      const response = await apiRequest('PUT', `/api/tickets/events/${eventId}/seat-map`, {
+        name: mapName,
+        zones: usedTierIds.map(tierId => ({
+          key: tierId,
+          name: savedTiers.find(t => t.id === tierId)?.name || 'Zone',
+          tierId
+        })),
+        sections: sections.map(section => ({
+          name: section.name,
+          zone: section.tierId,
+          rows: expandRowLabels(section.rows).map(label => ({ label, seats: section.seatsPerRow }))
+        }))
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({
+        title: "Seat map saved",
+        description: `${result.seatCount} seats created. Tier capacities now follow the seat map.`
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/events/${eventId}/seat-map`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't save seat map",
+        description: errorText(error) || "Please check your sections and rows",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `/api/tickets/events/${eventId}/seat-map`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setMapName("");
+      setSections([]);
+      toast({ title: "Seat map removed", description: "This event is general admission again." });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/events/${eventId}/seat-map`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't remove seat map",
+        description: errorText(error),
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateSection = (index: number, updates: Partial<SectionDraft>) => {
+    setSections(sections.map((s, i) => i === index ? { ...s, ...updates } : s));
+  };
+
+  const totalSeats = sections.reduce((sum, s) => sum + expandRowLabels(s.rows).length * (s.seatsPerRow || 0), 0);
+  const canSave = mapName.trim().length > 0 && sections.length > 0 &&
+    sections.every(s => s.name.trim() && s.tierId && expandRowLabels(s.rows).length > 0 && s.seatsPerRow > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <Armchair className="w-5 h-5 inline mr-2" />
+          Reserved Seating
+        </CardTitle>
+        <CardDescription>
+          Lay out sections and rows, and map each section to a ticket tier as its price zone.
+          Buyers pick their own seats. Leave empty for general admission.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {savedTiers.length === 0 ? (
+          <p className="text-sm text-neutral-400">Save your ticket tiers first, then come back to add a seat map.</p>
+        ) : isLoading ? (
+          <p className="text-sm text-neutral-400">Loading seat map...</p>
+        ) : (
+          <>
+            <div>
+              <label className="text-sm font-medium">Seat Map Name</label>
+              <Input
+                value={mapName}
+                onChange={(e) => setMapName(e.target.value)}
+                placeholder="e.g., Main Theatre"
+                className={inputClassName}
+                data-testid="input-seat-map-name"
+              />
+            </div>
+
+            {sections.map((section, index) => (
+              <Card key={index} className="relative">
+                <CardContent className="pt-6 space-y-4">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="absolute right-2 top-2"
+                    onClick={() => setSections(sections.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-section-${index}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm font-medium">Section Name</label>
+                      <Input
+                        value={section.name}
+                        onChange={(e) => updateSection(index, { name: e.target.value })}
+                        placeholder="e.g., Orchestra"
+                        className={inputClassName}
+                        data-testid={`input-section-name-${index}`}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium">Price Zone (Tier)</label>
+                      <Select value={section.tierId} onValueChange={(value) => updateSection(index, { tierId: value })}>
+                        <SelectTrigger className={inputClassName} data-testid={`select-section-tier-${index}`}>
+                          <SelectValue placeholder="Choose a tier" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {savedTiers.map(tier => (
+                            <SelectItem key={tier.id} value={tier.id}>{tier.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm font-medium">Rows</label>
+                      <Input
+                        value={section.rows}
+                        onChange={(e) => updateSection(index, { rows: e.target.value })}
+                        placeholder="e.g., A-J"
+                        className={inputClassName}
+                        data-testid={`input-section-rows-${index}`}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium">Seats per Row</label>
+                      <Input
+                        type="number"
+                        min="1"
+                        max="200"
+                        value={section.seatsPerRow}
+                        onChange={(e) => updateSection(index, { seatsPerRow: parseInt(e.target.value) || 0 })}
+                        className={inputClassName}
+                        data-testid={`input-section-seats-${index}`}
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => setSections([...sections, { name: '', tierId: savedTiers[0].id, rows: 'A-J', seatsPerRow: 10 }])}
+              data-testid="button-add-section"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Section
+            </Button>
+
+            {sections.length > 0 && (
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-sm text-neutral-400">{totalSeats} seats</span>
+                <div className="flex gap-2">
+                  {seatMapData?.seatMap && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => removeMutation.mutate()}
+                      disabled={removeMutation.isPending}
+                      data-testid="button-remove-seat-map"
+                    >
+                      Remove Seat Map
+                    </Button>
+                  )}
+                  <Button
+                    type="button"
+                    onClick={() => saveMutation.mutate()}
+                    disabled={!canSave || saveMutation.isPending}
+                    data-testid="button-save-seat-map"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : "Save Seat Map"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
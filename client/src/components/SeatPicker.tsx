@@ -0,0 +1,133 @@
+import { useMemo } from "react";
+
+export interface SeatMapZone {
+  key: string;
+  name: string;
+  tierId: string;
+  color?: string;
+}
+
+export interface SeatMapSection {
+  name: string;
+  zone?: string;
+  rows: Array<{ label: string; seats: number; zone?: string }>;
+}
+
+export interface SeatMapSeat {
+  id: string;
+  tierId: string;
+  section: string;
+  row: string;
+  number: string;
+  available: boolean;
+}
+
+export interface SeatMapData {
+  id: string;
+  name: string;
+  zones: SeatMapZone[];
+  sections: SeatMapSection[];
+}
+
+interface SeatPickerProps {
+  seatMap: SeatMapData;
+  seats: SeatMapSeat[];
+  tiers: Array<{ id: string; name: string; priceCents: number }>;
+  selectedSeatIds: string[];
+  onToggleSeat: (seat: SeatMapSeat) => void;
+}
+
+const DEFAULT_ZONE_COLORS = ['#c0580f', '#17C0A9', '#8B5CF6', '#EAB308', '#EC4899', '#3B82F6'];
+
+export default function SeatPicker({ seatMap, seats, tiers, selectedSeatIds, onToggleSeat }: SeatPickerProps) {
+  const zoneColors = useMemo(() => {
+    const colors = new Map<string, string>();
+    seatMap.zones.forEach((zone, index) => {
+      colors.set(zone.tierId, zone.color || DEFAULT_ZONE_COLORS[index % DEFAULT_ZONE_COLORS.length]);
+    });
+    return colors;
+  }, [seatMap]);
+
+  // Group seats by section and row, keeping the organizer's layout order
+  const seatsByRow = useMemo(() => {
+    const grouped = new Map<string, SeatMapSeat[]>();
+    for (const seat of seats) {
+      const key = `${seat.section}\u0000${seat.row}`;
+      if (!grouped.has(key)) grouped.set(key, []);
+      grouped.get(key)!.push(seat);
+    }
+    return grouped;
+  }, [seats]);
+
+  const selected = new Set(selectedSeatIds);
+
+  return (
+    <div className="space-y-6" data-testid="seat-picker">
+      {/* Price zone legend */}
+      <div className="flex flex-wrap gap-4">
+        {seatMap.zones.map(zone => {
+          const tier = tiers.find(t => t.id === zone.tierId);
+          return (
+            <div key={zone.key} className="flex items-center gap-2 text-sm text-gray-300">
+              <span className="h-4 w-4 rounded" style={{ backgroundColor: zoneColors.get(zone.tierId) }} />
+              <span>{zone.name}</span>
+              {tier && <span className="text-gray-500">${(tier.priceCents / 100).toFixed(2)}</span>}
+            </div>
+          );
+        })}
+        <div className="flex items-center gap-2 text-sm text-gray-300">
+          <span className="h-4 w-4 rounded bg-gray-700" />
+          <span>Unavailable</span>
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-300">
+          <span className="h-4 w-4 rounded bg-white" />
+          <span>Your seats</span>
+        </div>
+      </div>
+
+      <div className="text-center text-xs uppercase tracking-widest text-gray-500 border-b border-gray-700 pb-2">
+        Stage
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="space-y-6 min-w-max">
+          {seatMap.sections.map(section => (
+            <div key={section.name}>
+              <h4 className="text-sm font-semibold text-white mb-2">{section.name}</h4>
+              <div className="space-y-1">
+                {section.rows.map(row => (
+                  <div key={row.label} className="flex items-center gap-1">
+                    <span className="w-8 text-xs text-gray-500 text-right pr-2">{row.label}</span>
+                    {(seatsByRow.get(`${section.name}\u0000${row.label}`) || []).map(seat => {
+                      const isSelected = selected.has(seat.id);
+                      return (
+                        <button
+                          key={seat.id}
+                          type="button"
+                          disabled={!seat.available && !isSelected}
+                          onClick={() => onToggleSeat(seat)}
+                          title={`${section.name} · Row ${seat.row} · Seat ${seat.number}`}
+                          className={`h-7 w-7 rounded text-[10px] font-medium transition-transform ${
+                            isSelected
+                              ? 'bg-white text-black scale-110'
+                              : seat.available
+                                ? 'text-white hover:scale-110'
+                                : 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                          }`}
+                          style={!isSelected && seat.available ? { backgroundColor: zoneColors.get(seat.tierId) } : undefined}
+                          data-testid={`seat-${seat.id}`}
+                        >
+                          {seat.number}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
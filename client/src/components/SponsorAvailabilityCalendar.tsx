@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { addMonths, endOfMonth, format, getDay, startOfMonth } from 'date-fns';
+
+type DayStatus = 'available' | 'held' | 'sold';
+
+interface SponsorAvailabilityCalendarProps {
+  packageCode: string;
+  // The visitor's own hold, which shows as available to them
+  holdQuoteId?: string | null;
+  startDate?: string;
+  endDate?: string;
+  onSelectStart: (day: string) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const statusClasses: Record<DayStatus, string> = {
+  available: 'bg-white/5 text-white hover:bg-copper-500/20 hover:border-copper-500/50 cursor-pointer',
+  held: 'bg-amber-500/10 text-amber-300/70 cursor-not-allowed',
+  sold: 'bg-white/[0.02] text-white/25 line-through cursor-not-allowed'
+};
+
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Month view of which days the selected package can still be booked on
+export default function SponsorAvailabilityCalendar({
+  packageCode,
+  holdQuoteId,
+  startDate,
+  endDate,
+  onSelectStart
+}: SponsorAvailabilityCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const { data, isLoading } = useQuery<{ ok: boolean; days: Array<{ day: string; status: DayStatus }> }>({
+    queryKey: ['/api/spotlight/inventory', packageCode, holdQuoteId || null],
+    queryFn: async () => {
+      const params = new URLSearchParams({ package_code: packageCode });
+      if (holdQuoteId) params.set('quote_id', holdQuoteId);
+      const response = await fetch(`/api/spotlight/inventory?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch availability');
+      return response.json();
+    },
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000
+  });
+
+  const statusByDay = new Map((data?.days || []).map(({ day, status }) => [day, status]));
+  const lastDay = data?.days.length ? data.days[data.days.length - 1].day : null;
+
+  // Days outside the bookable window have no status and can't be picked
+  const days: Array<string | null> = Array(getDay(month)).fill(null);
+  for (let date = month; date <= endOfMonth(month); date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)) {
+    days.push(toDay(date));
+  }
+
+  const canGoBack = month > startOfMonth(new Date());
+  const canGoForward = !!lastDay && toDay(addMonths(month, 1)) <= lastDay;
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-lg p-4" data-testid="sponsor-availability-calendar">
+      <div className="flex items-center justify-between mb-3">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setMonth(addMonths(month, -1))}
+          disabled={!canGoBack}
+          className="text-white/70 hover:text-white"
+          data-testid="calendar-prev-month"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <p className="text-white font-medium">{format(month, 'MMMM yyyy')}</p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setMonth(addMonths(month, 1))}
+          disabled={!canGoForward}
+          className="text-white/70 hover:text-white"
+          data-testid="calendar-next-month"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs text-white/50 mb-1">
+        {WEEKDAYS.map(weekday => <div key={weekday}>{weekday}</div>)}
+      </div>
+
+      <div className={`grid grid-cols-7 gap-1 ${isLoading ? 'opacity-50' : ''}`}>
+        {days.map((day, i) => {
+          if (!day) return <div key={`blank-${i}`} />;
+
+          const status = statusByDay.get(day);
+          const inRange = !!startDate && !!endDate && day >= startDate && day <= endDate;
+          const base = status ? statusClasses[status] : 'text-white/20 cursor-not-allowed';
+
+          return (
+            <button
+              key={day}
+              type="button"
+              disabled={status !== 'available'}
+              onClick={() => onSelectStart(day)}
+              title={status === 'held' ? 'On hold for another sponsor' : status === 'sold' ? 'Booked' : undefined}
+              className={`h-9 rounded text-sm border border-transparent transition-colors ${base} ${
+                inRange ? '!bg-copper-500/30 !border-copper-500 !text-white' : ''
+              }`}
+              data-testid={`calendar-day-${day}`}
+            >
+              {Number(day.slice(8))}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-4 mt-3 text-xs text-white/60">
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded bg-white/10 border border-white/20" /> Available
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded bg-amber-500/20" /> On hold
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded bg-white/[0.02] border border-white/10" /> Booked
+        </span>
+        {startDate && endDate && (
+          <span className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded bg-copper-500/30 border border-copper-500" /> Your dates
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
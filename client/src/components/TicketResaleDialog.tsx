@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+
+interface ResaleListing {
+  id: string;
+  status: 'active' | 'pending' | 'sold' | 'canceled';
+  priceCents: number;
+  pendingUntil: string | null;
+}
+
+interface ResaleDetails {
+  ok: boolean;
+  resaleEnabled: boolean;
+  listing: ResaleListing | null;
+  maxPriceCents?: number;
+  faceValueCents?: number;
+  unavailableReason?: string;
+}
+
+interface TicketResaleDialogProps {
+  ticketId: string;
+  eventTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const dollars = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// List a ticket on the event's fan resale market, capped at what was paid for it
+export function TicketResaleDialog({ ticketId, eventTitle, open, onOpenChange }: TicketResaleDialogProps) {
+  const [price, setPrice] = useState("");
+  const { toast } = useToast();
+
+  const resaleKey = [`/api/tickets/my-tickets/${ticketId}/resale`];
+  const { data, isLoading } = useQuery<ResaleDetails>({
+    queryKey: resaleKey,
+    enabled: open
+  });
+  const listing = data?.listing;
+  const buyerCheckingOut = listing?.status === 'pending' && !!listing.pendingUntil && new Date(listing.pendingUntil) > new Date();
+
+  const onDone = (title: string, description: string) => {
+    toast({ title, description });
+    queryClient.invalidateQueries({ queryKey: resaleKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/tickets/my-tickets'] });
+    setPrice("");
+  };
+
+  const listMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/my-tickets/${ticketId}/resale`, {
+        priceCents: Math.round(parseFloat(price) * 100)
+      });
+      return response.json();
+    },
+    onSuccess: () => onDone("Ticket listed", `Your ticket for ${eventTitle} is on sale. You'll be refunded once it sells.`),
+    onError: (error: any) => {
+      toast({ title: "Couldn't list ticket", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `/api/tickets/my-tickets/${ticketId}/resale`);
+      return response.json();
+    },
+    onSuccess: () => onDone("Listing removed", "Your ticket is no longer for sale."),
+    onError: (error: any) => {
+      toast({ title: "Couldn't remove listing", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  const priceCents = Math.round(parseFloat(price) * 100);
+  const priceValid = !isNaN(priceCents) && priceCents > 0 && (!data?.maxPriceCents || priceCents <= data.maxPriceCents);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resell ticket</DialogTitle>
+          <DialogDescription>
+            Can't make it to {eventTitle}? Sell your ticket to another fan. When it sells you're refunded the sale price and your ticket is reissued to the buyer.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : !data?.resaleEnabled ? (
+          <Alert>
+            <AlertDescription>The organizer hasn't opened fan resale for this event. You can still transfer your ticket to a friend.</AlertDescription>
+          </Alert>
+        ) : listing ? (
+          <div className="space-y-3" data-testid="resale-current-listing">
+            <div className="flex items-center justify-between">
+              <span>Listed for {dollars(listing.priceCents)}</span>
+              <Badge variant="secondary">{buyerCheckingOut ? 'Buyer checking out' : 'On sale'}</Badge>
+            </div>
+            {buyerCheckingOut && (
+              <p className="text-sm text-muted-foreground">Someone is paying for your ticket right now. If they don't finish, it goes back on sale.</p>
+            )}
+          </div>
+        ) : data.unavailableReason ? (
+          <Alert>
+            <AlertDescription>{data.unavailableReason}</AlertDescription>
+          </Alert>
+        ) : (
+          <form
+            id="ticket-resale-form"
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (priceValid) listMutation.mutate();
+            }}
+          >
+            <Label htmlFor="resale-price">Price (CAD)</Label>
+            <Input
+              id="resale-price"
+              type="number"
+              min="0.50"
+              step="0.01"
+              max={data.maxPriceCents ? (data.maxPriceCents / 100).toFixed(2) : undefined}
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder={data.maxPriceCents ? (data.maxPriceCents / 100).toFixed(2) : ''}
+              data-testid="input-resale-price"
+            />
+            {data.maxPriceCents !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                Resale is capped at face value - up to {dollars(data.maxPriceCents)} for this ticket.
+              </p>
+            )}
+          </form>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {listing ? (
+            <Button
+              type="button"
+              variant="destructive"
+              disabled={buyerCheckingOut || cancelMutation.isPending}
+              onClick={() => cancelMutation.mutate()}
+              data-testid="button-cancel-resale"
+            >
+              {cancelMutation.isPending ? 'Removing...' : 'Remove listing'}
+            </Button>
+          ) : data?.resaleEnabled && !data.unavailableReason && (
+            <Button
+              type="submit"
+              form="ticket-resale-form"
+              disabled={!priceValid || listMutation.isPending}
+              data-testid="button-list-resale"
+            >
+              {listMutation.isPending ? 'Listing...' : 'List for sale'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+
+interface TicketTransferDialogProps {
+  ticketId: string;
+  eventTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTransferred?: (newTicketId: string) => void;
+}
+
+// Hand a ticket to someone else - their copy gets a new QR code and this one stops working
+export function TicketTransferDialog({ ticketId, eventTitle, open, onOpenChange, onTransferred }: TicketTransferDialogProps) {
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [confirming, setConfirming] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setEmail("");
+    setName("");
+    setConfirming(false);
+  };
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/my-tickets/${ticketId}/transfer`, {
+        email: email.trim(),
+        name: name.trim() || undefined
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({
+        title: "Ticket transferred",
+        description: `We've emailed your ticket for ${eventTitle} to ${result.transfer.transferredTo}.`
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets/my-tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets', ticketId] });
+      reset();
+      onOpenChange(false);
+      onTransferred?.(result.transfer.newTicketId);
+    },
+    onError: (error: any) => {
+      setConfirming(false);
+      toast({ title: "Transfer failed", description: errorText(error), variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer ticket</DialogTitle>
+          <DialogDescription>
+            Send your ticket for {eventTitle} to a friend. They'll get a new QR code by email and yours will stop working.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="ticket-transfer-form"
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!email.trim()) return;
+            if (!confirming) {
+              setConfirming(true);
+              return;
+            }
+            transferMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="transfer-email">Recipient email</Label>
+            <Input
+              id="transfer-email"
+              type="email"
+              required
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                setConfirming(false);
+              }}
+              placeholder="friend@example.com"
+              data-testid="input-transfer-email"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-name">Recipient name (optional)</Label>
+            <Input
+              id="transfer-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-transfer-name"
+            />
+          </div>
+
+          {confirming && (
+            <Alert variant="destructive" data-testid="alert-transfer-confirm">
+              <AlertDescription>
+                This can't be undone - only {email.trim()} will be able to use the ticket.
+              </AlertDescription>
+            </Alert>
+          )}
+        </form>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            form="ticket-transfer-form"
+            disabled={!email.trim() || transferMutation.isPending}
+            data-testid="button-confirm-transfer"
+          >
+            {transferMutation.isPending ? 'Transferring...' : confirming ? 'Yes, transfer it' : 'Transfer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
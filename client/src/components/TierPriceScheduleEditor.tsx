@@ -0,0 +1,124 @@
+import { format } from "date-fns";
+import { Plus, Trash2, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export interface PriceStep {
+  label?: string | null;
+  priceCents: number;
+  startsAt?: string | null;
+  afterSold?: number | null;
+}
+
+interface TierPriceScheduleEditorProps {
+  basePriceCents: number;
+  schedule: PriceStep[] | null | undefined;
+  onChange: (schedule: PriceStep[] | null) => void;
+  testIdSuffix: string | number;
+}
+
+const inputClassName = "bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500";
+
+// Price steps for a tier - e.g. early bird at the base price, then regular, then door
+export function TierPriceScheduleEditor({ basePriceCents, schedule, onChange, testIdSuffix }: TierPriceScheduleEditorProps) {
+  const steps = schedule || [];
+
+  const updateStep = (index: number, updates: Partial<PriceStep>) => {
+    onChange(steps.map((step, i) => i === index ? { ...step, ...updates } : step));
+  };
+
+  const removeStep = (index: number) => {
+    const remaining = steps.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : null);
+  };
+
+  const addStep = () => {
+    const lastPrice = steps.length > 0 ? steps[steps.length - 1].priceCents : basePriceCents;
+    onChange([...steps, { label: steps.length === 0 ? 'Regular' : 'Door', priceCents: lastPrice, startsAt: null, afterSold: null }]);
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div>
+        <label className="text-sm font-medium flex items-center gap-2">
+          <TrendingUp className="w-4 h-4" />
+          Price Schedule (Optional)
+        </label>
+        <p className="text-xs text-neutral-500 mt-1">
+          The price above is the opening price. Each step raises it at a set time or once enough tickets sell, whichever comes first.
+        </p>
+      </div>
+
+      {steps.map((step, index) => (
+        <div key={index} className="rounded-md border border-charcoal-700 p-3 space-y-3" data-testid={`price-step-${testIdSuffix}-${index}`}>
+          <div className="flex items-center gap-2">
+            <Input
+              value={step.label || ''}
+              onChange={(e) => updateStep(index, { label: e.target.value })}
+              placeholder="e.g., Regular"
+              className={inputClassName}
+              data-testid={`input-price-step-label-${testIdSuffix}-${index}`}
+            />
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={step.priceCents / 100}
+              onChange={(e) => updateStep(index, { priceCents: Math.round(parseFloat(e.target.value || '0') * 100) })}
+              className={`${inputClassName} w-32`}
+              data-testid={`input-price-step-price-${testIdSuffix}-${index}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removeStep(index)}
+              data-testid={`button-remove-price-step-${testIdSuffix}-${index}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-neutral-400">Starting at</label>
+              <Input
+                type="datetime-local"
+                value={step.startsAt ? format(new Date(step.startsAt), "yyyy-MM-dd'T'HH:mm") : ''}
+                onChange={(e) => updateStep(index, { startsAt: e.target.value ? new Date(e.target.value).toISOString() : null })}
+                className={inputClassName}
+                data-testid={`input-price-step-starts-${testIdSuffix}-${index}`}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-neutral-400">Or after tickets sold</label>
+              <Input
+                type="number"
+                min="1"
+                value={step.afterSold ?? ''}
+                onChange={(e) => updateStep(index, { afterSold: e.target.value ? parseInt(e.target.value) : null })}
+                placeholder="e.g., 100"
+                className={inputClassName}
+                data-testid={`input-price-step-sold-${testIdSuffix}-${index}`}
+              />
+            </div>
+          </div>
+          {!step.startsAt && step.afterSold == null && (
+            <p className="text-xs text-red-400">Set a start time or a number of tickets sold for this step.</p>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addStep}
+        disabled={steps.length >= 10}
+        data-testid={`button-add-price-step-${testIdSuffix}`}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Price Step
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Gift, CheckCircle, XCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { queryClient, apiRequest, errorText } from "@/lib/queryClient";
+
+interface Voucher {
+  id: string;
+  code: string;
+  status: 'issued' | 'redeemed' | 'void';
+  tierName: string;
+  buyerName: string | null;
+  buyerEmail: string;
+  redeemedAt: string | null;
+}
+
+interface RedeemResult {
+  ok: boolean;
+  status: 'redeemed' | 'used' | 'void' | 'not_found';
+  error?: string;
+  meta?: { code: string; itemName: string; redeemedAt: string | null; redeemedBy: string | null };
+}
+
+interface VoucherRedeemPanelProps {
+  eventId: string;
+}
+
+// Door staff look up and redeem add-on vouchers (parking, merch pickup, ...)
+export function VoucherRedeemPanel({ eventId }: VoucherRedeemPanelProps) {
+  const [code, setCode] = useState("");
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  const vouchersKey = [`/api/tickets/events/${eventId}/vouchers`];
+  const { data } = useQuery<{ ok: boolean; vouchers: Voucher[]; summary: { issued: number; redeemed: number } }>({
+    queryKey: vouchersKey,
+    enabled: !!eventId
+  });
+  const vouchers = data?.vouchers || [];
+
+  const redeemMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/vouchers/redeem`, { code });
+      return response.json() as Promise<RedeemResult>;
+    },
+    onSuccess: (response) => {
+      if (response.ok) {
+        setResult({ success: true, message: `${response.meta?.itemName} - hand it over` });
+        setCode("");
+      } else if (response.status === 'used' && response.meta?.redeemedAt) {
+        setResult({ success: false, message: `Already redeemed ${format(new Date(response.meta.redeemedAt), 'MMM d, h:mm a')}${response.meta.redeemedBy ? ` by ${response.meta.redeemedBy}` : ''}` });
+      } else {
+        setResult({ success: false, message: response.error || "Voucher can't be redeemed" });
+      }
+      queryClient.invalidateQueries({ queryKey: vouchersKey });
+    },
+    onError: (error: any) => {
+      setResult({ success: false, message: errorText(error) });
+    }
+  });
+
+  return (
+    <Card className="bg-[#0B0B0F]/80 border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Gift className="w-5 h-5" />
+          Add-on Vouchers
+        </CardTitle>
+        <CardDescription>
+          {data ? `${data.summary.redeemed} of ${data.summary.issued + data.summary.redeemed} redeemed` : 'Redeem codes from the buyer\'s confirmation'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (code.trim()) redeemMutation.mutate();
+          }}
+        >
+          <Input
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value.toUpperCase());
+              setResult(null);
+            }}
+            placeholder="XXXXX-XXXXX"
+            className="font-mono bg-white/5 border-white/10 text-white"
+            data-testid="input-voucher-code"
+          />
+          <Button type="submit" disabled={!code.trim() || redeemMutation.isPending} data-testid="button-redeem-voucher">
+            {redeemMutation.isPending ? 'Redeeming...' : 'Redeem'}
+          </Button>
+        </form>
+
+        {result && (
+          <Alert variant={result.success ? "default" : "destructive"} data-testid="alert-voucher-result">
+            {result.success ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            <AlertDescription>{result.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {vouchers.length > 0 && (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {vouchers.map(voucher => (
+              <div key={voucher.id} className="flex items-center justify-between text-sm p-2 rounded bg-white/5" data-testid={`row-voucher-${voucher.id}`}>
+                <div>
+                  <p className="font-mono text-white">{voucher.code}</p>
+                  <p className="text-white/60">{voucher.tierName} · {voucher.buyerName || voucher.buyerEmail}</p>
+                </div>
+                <Badge variant={voucher.status === 'issued' ? 'secondary' : 'outline'}>
+                  {voucher.status === 'issued' ? 'Not redeemed' : voucher.status === 'redeemed' ? 'Redeemed' : 'Void'}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
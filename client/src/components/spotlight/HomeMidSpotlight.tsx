@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { spotlightActiveUrl, trackSponsorEvent, watchViewability } from '@/lib/sponsor-visitor';
 
 interface SpotlightData {
   id: string; // This is the actual campaign ID
@@ -14,6 +15,7 @@ interface SpotlightData {
   is_sponsored: boolean;
   image_url?: string; // Direct image URL (used for featured events)
   creative?: {
+    id?: string;
     image_desktop_url?: string;
     image_mobile_url?: string;
     logo_url?: string;
@@ -23,11 +25,14 @@ interface SpotlightData {
 
 export function HomeMidSpotlight() {
   const [hasTrackedImpression, setHasTrackedImpression] = useState<{tracked: boolean; startTime?: number}>({tracked: false});
+  const stopViewability = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopViewability.current?.(), []);
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['/api/spotlight/active', 'home_mid'],
     queryFn: async () => {
-      const response = await fetch('/api/spotlight/active?route=/&slots=home_mid');
+      const response = await fetch(spotlightActiveUrl('home_mid'));
       if (!response.ok) throw new Error('Failed to fetch spotlight');
       return response.json();
     },
@@ -59,35 +64,24 @@ export function HomeMidSpotlight() {
             // Update last impression timestamp
             localStorage.setItem(lastImpressionKey, String(now));
             
-            // Generate or get unique user ID
-            let userId = localStorage.getItem('jugnu_user_id');
-            if (!userId) {
-              userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-              localStorage.setItem('jugnu_user_id', userId);
-            }
-
-            // Detect device type
-            const deviceType = window.innerWidth < 768 ? 'mobile' : 'desktop';
-            
-            // Track view start time for duration
-            const viewStartTime = Date.now();
-
-            // Track impression with device type
-            fetch('/api/spotlight/admin/metrics/track', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                campaignId: spotlight.id,
-                placement: 'home_mid',
-                eventType: 'impression',
-                userId: userId,
-                deviceType: deviceType,
-                viewDuration: 0 // Will be updated when component unmounts or banner scrolls out
-              })
-            }).catch(console.error);
-
-            // Store view start time for later duration calculation
-            setHasTrackedImpression({ tracked: true, startTime: viewStartTime });
+            // The server decides whether it's billable against this visitor's caps
+            trackSponsorEvent({
+              campaignId: spotlight.id,
+              creativeId: spotlight.creative?.id,
+              placement: 'home_mid',
+              eventType: 'impression'
+            });
+
+            // Counted as viewable separately, once it has stayed in view long enough
+            stopViewability.current = watchViewability(entry.target, visibleMs => trackSponsorEvent({
+              campaignId: spotlight.id,
+              creativeId: spotlight.creative?.id,
+              placement: 'home_mid',
+              eventType: 'viewable',
+              viewDuration: visibleMs
+            }));
+
+            setHasTrackedImpression({ tracked: true, startTime: now });
             observer.disconnect();
           }
         },
@@ -107,15 +101,12 @@ export function HomeMidSpotlight() {
     if (!spotlight) return;
 
     // Track click event
-    fetch('/api/spotlight/admin/metrics/track', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        campaignId: spotlight.id,
-        placement: 'home_mid',
-        eventType: 'click'
-      })
-    }).catch(console.error);
+    trackSponsorEvent({
+      campaignId: spotlight.id,
+      creativeId: spotlight.creative?.id,
+      placement: 'home_mid',
+      eventType: 'click'
+    });
 
     // For relative URLs (internal links like /tickets/event/...), navigate directly
     // For absolute URLs (external links), use the redirector for UTM tracking
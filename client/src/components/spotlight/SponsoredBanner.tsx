@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { spotlightActiveUrl, trackSponsorEvent, watchViewability } from '@/lib/sponsor-visitor';
 
 interface SpotlightData {
   id: string; // This is the actual campaign ID
@@ -15,6 +16,7 @@ interface SpotlightData {
   freq_cap_per_user_per_day?: number;
   image_url?: string; // Direct image URL (used for featured events)
   creative?: {
+    id?: string;
     image_desktop_url?: string;
     image_mobile_url?: string;
     logo_url?: string;
@@ -24,12 +26,18 @@ interface SpotlightData {
 
 export function SponsoredBanner() {
   const [hasTrackedImpression, setHasTrackedImpression] = useState<{tracked: boolean; startTime?: number}>({tracked: false});
-  const [isVisible, setIsVisible] = useState(true);
+  const stopViewability = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopViewability.current?.(), []);
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['/api/spotlight/active', 'events_banner'],
     queryFn: async () => {
-      const response = await fetch('/api/spotlight/active?placement=events_banner');
+      // Debug mode skips the server's frequency cap by not identifying the visitor (dev only)
+      const debugSponsor = new URLSearchParams(window.location.search).get('debugSponsor') === '1';
+      const response = await fetch(debugSponsor && import.meta.env.DEV
+        ? '/api/spotlight/active?placement=events_banner'
+        : spotlightActiveUrl('events_banner'));
       if (!response.ok) throw new Error('Failed to fetch spotlight');
       return response.json();
     },
@@ -39,50 +47,13 @@ export function SponsoredBanner() {
 
   const spotlight: SpotlightData | null = data?.ok ? data.spotlights?.events_banner : null;
 
-  // Frequency capping - check if user has seen this campaign today based on campaign settings
-  useEffect(() => {
-    if (spotlight) {
-      // Debug mode bypass frequency capping (dev only)
-      const urlParams = new URLSearchParams(window.location.search);
-      const debugSponsor = urlParams.get('debugSponsor') === '1';
-      
-      if (debugSponsor && import.meta.env.DEV) {
-        console.log('🔧 Debug mode: Bypassing frequency capping for sponsor banner');
-        return; // Skip frequency capping logic
-      }
-
-      // Get frequency cap from spotlight data (default to 0 for unlimited if not provided)
-      const freqCap = spotlight.freq_cap_per_user_per_day ?? 0;
-      
-      // If frequency cap is 0, no limit
-      if (freqCap === 0) {
-        return;
-      }
-
-      const today = new Date().toISOString().split('T')[0];
-      const seenKey = `spotlightSeen:${spotlight.id}:events_banner:${today}`;
-      const seenCount = parseInt(localStorage.getItem(seenKey) || '0', 10);
-      
-      if (seenCount >= freqCap) {
-        setIsVisible(false);
-        return;
-      }
-    }
-  }, [spotlight]);
-
   // Track impression when component mounts and spotlight is active
   useEffect(() => {
-    if (spotlight && isVisible && !hasTrackedImpression.tracked) {
+    if (spotlight && !hasTrackedImpression.tracked) {
       const observer = new IntersectionObserver(
         (entries) => {
           const entry = entries[0];
           if (entry.isIntersecting && entry.intersectionRatio >= 0.5) {
-            // Track raw view (always counted)
-            const today = new Date().toISOString().split('T')[0];
-            const freqCap = spotlight.freq_cap_per_user_per_day ?? 0;
-            const seenKey = `spotlightSeen:${spotlight.id}:events_banner:${today}`;
-            const seenCount = parseInt(localStorage.getItem(seenKey) || '0', 10);
-            
             // 10-second debounce to prevent accidental double counts
             const now = Date.now();
             const lastImpressionKey = `lastImpression:${spotlight.id}:events_banner`;
@@ -95,42 +66,27 @@ export function SponsoredBanner() {
               return;
             }
 
-            // Determine if this is a billable impression
-            const isBillable = freqCap === 0 || seenCount < freqCap;
-            
-            // Update seen count and last impression timestamp
-            localStorage.setItem(seenKey, String(seenCount + 1));
+            // Update last impression timestamp
             localStorage.setItem(lastImpressionKey, String(now));
             
-            // Generate or get unique user ID
-            let userId = localStorage.getItem('jugnu_user_id');
-            if (!userId) {
-              userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-              localStorage.setItem('jugnu_user_id', userId);
-            }
-
-            // Detect device type
-            const deviceType = window.innerWidth < 768 ? 'mobile' : 'desktop';
-            
-            // Track view start time for duration
-            const viewStartTime = Date.now();
-
-            // Track both raw view and billable impression with device type
-            fetch('/api/spotlight/admin/metrics/track', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                campaignId: spotlight.id,
-                placement: 'events_banner',
-                eventType: 'impression', 
-                userId: userId,
-                deviceType: deviceType,
-                viewDuration: 0 // Will be updated when component unmounts or banner scrolls out
-              })
-            }).catch(console.error);
-            
-            // Store view start time for later duration calculation
-            setHasTrackedImpression({ tracked: true, startTime: viewStartTime });
+            // The server decides whether it's billable against this visitor's caps
+            trackSponsorEvent({
+              campaignId: spotlight.id,
+              creativeId: spotlight.creative?.id,
+              placement: 'events_banner',
+              eventType: 'impression'
+            });
+
+            // Counted as viewable separately, once it has stayed in view long enough
+            stopViewability.current = watchViewability(entry.target, visibleMs => trackSponsorEvent({
+              campaignId: spotlight.id,
+              creativeId: spotlight.creative?.id,
+              placement: 'events_banner',
+              eventType: 'viewable',
+              viewDuration: visibleMs
+            }));
+
+            setHasTrackedImpression({ tracked: true, startTime: now });
             observer.disconnect();
           }
         },
@@ -144,21 +100,18 @@ export function SponsoredBanner() {
 
       return () => observer.disconnect();
     }
-  }, [spotlight, isVisible, hasTrackedImpression]);
+  }, [spotlight, hasTrackedImpression]);
 
   const handleClick = () => {
     if (!spotlight) return;
 
     // Track click event
-    fetch('/api/spotlight/admin/metrics/track', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        campaignId: spotlight.id,
-        placement: 'events_banner',
-        eventType: 'click'
-      })
-    }).catch(console.error);
+    trackSponsorEvent({
+      campaignId: spotlight.id,
+      creativeId: spotlight.creative?.id,
+      placement: 'events_banner',
+      eventType: 'click'
+    });
 
     // For relative URLs (internal links like /tickets/event/...), navigate directly
     // For absolute URLs (external links), use the redirector for UTM tracking
@@ -177,8 +130,8 @@ export function SponsoredBanner() {
   // Check if Events Banner is enabled via client-side environment variable
   const isEventsSponsorsEnabled = import.meta.env.VITE_ENABLE_EVENTS_BANNER !== 'false';
 
-  // Don't render if no spotlight, loading, error, not visible due to frequency capping, or disabled
-  if (isLoading || error || !spotlight || !isVisible || !isEventsSponsorsEnabled) {
+  // Don't render if no spotlight, loading, error, or disabled
+  if (isLoading || error || !spotlight || !isEventsSponsorsEnabled) {
     return null;
   }
 
@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { ExternalLink } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { spotlightActiveUrl, trackSponsorEvent, watchViewability } from '@/lib/sponsor-visitor';
 
 interface SpotlightData {
   campaignId: string;
@@ -14,6 +15,7 @@ interface SpotlightData {
   is_sponsored: boolean;
   image_url?: string; // Direct image URL (used for featured events)
   creative?: {
+    id?: string;
     image_desktop_url?: string;
     image_mobile_url?: string;
     logo_url?: string;
@@ -27,11 +29,14 @@ interface SpotlightHeroProps {
 
 export function SpotlightHero({ fallbackContent }: SpotlightHeroProps) {
   const [hasTrackedImpression, setHasTrackedImpression] = useState(false);
+  const stopViewability = useRef<(() => void) | null>(null);
+
+  useEffect(() => () => stopViewability.current?.(), []);
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['/api/spotlight/active', 'home_hero'],
     queryFn: async () => {
-      const response = await fetch('/api/spotlight/active?route=/&slots=home_hero');
+      const response = await fetch(spotlightActiveUrl('home_hero'));
       if (!response.ok) throw new Error('Failed to fetch spotlight');
       return response.json();
     },
@@ -63,17 +68,22 @@ export function SpotlightHero({ fallbackContent }: SpotlightHeroProps) {
             // Update last impression timestamp
             localStorage.setItem(lastImpressionKey, String(now));
             
-            // Track impression
-            fetch('/api/spotlight/admin/metrics/track', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                campaignId: spotlight.campaignId,
-                placement: 'home_hero',
-                type: 'impression',
-                is_billable: true
-              })
-            }).catch(console.error);
+            // The server decides whether it's billable against this visitor's caps
+            trackSponsorEvent({
+              campaignId: spotlight.campaignId,
+              creativeId: spotlight.creative?.id,
+              placement: 'home_hero',
+              eventType: 'impression'
+            });
+
+            // Counted as viewable separately, once it has stayed in view long enough
+            stopViewability.current = watchViewability(entry.target, visibleMs => trackSponsorEvent({
+              campaignId: spotlight.campaignId,
+              creativeId: spotlight.creative?.id,
+              placement: 'home_hero',
+              eventType: 'viewable',
+              viewDuration: visibleMs
+            }));
 
             setHasTrackedImpression(true);
             observer.disconnect();
@@ -94,6 +104,14 @@ export function SpotlightHero({ fallbackContent }: SpotlightHeroProps) {
   const handleClick = () => {
     if (!spotlight) return;
 
+    // Track click event against the creative that was shown
+    trackSponsorEvent({
+      campaignId: spotlight.campaignId,
+      creativeId: spotlight.creative?.id,
+      placement: 'home_hero',
+      eventType: 'click'
+    });
+
     // Build redirector URL with encoded target and utm_content
     const redirectUrl = `/r/${spotlight.campaignId}?to=${encodeURIComponent(spotlight.click_url)}&utm_content=home_hero`;
     
@@ -0,0 +1,241 @@
+// Offline check-in: a downloaded attendee manifest, signed-code verification
+// with WebCrypto, and a queue of scans waiting to be synced back.
+
+export interface ManifestTicket {
+  ticketId: string;
+  serial: string;
+  qrToken: string;
+  status: string;
+  isBlocked?: boolean;
+  tierName: string;
+  seatLabel: string | null;
+  buyerName: string;
+  checkedInAt: string | null;
+  checkedInBy: string | null;
+}
+
+export interface CheckinManifest {
+  eventId: string;
+  occurrenceId?: string | null; // the date of a series this list is for
+  occurrenceStartAt?: string | null;
+  generatedAt: string;
+  keyId: string;
+  publicKey: JsonWebKey;
+  tickets: ManifestTicket[];
+}
+
+export interface QueuedScan {
+  scanId: string;
+  code: string;
+  scannedAt: string;
+  scannedBy?: string;
+}
+
+export interface ScanSyncResult {
+  scanId: string;
+  ticketId: string | null;
+  result: 'accepted' | 'duplicate' | 'rejected';
+  reason?: string;
+  checkedInAt?: string;
+  checkedInBy?: string;
+}
+
+// Same shape as /api/tickets/validate-qr responses so the scanner UI handles both
+export interface OfflineValidation {
+  ok: boolean;
+  status: string;
+  message: string;
+  error?: string;
+  meta?: Record<string, any>;
+  offline: true;
+}
+
+interface SignedTicketPayload {
+  t: string;
+  e: string;
+  q: string;
+  s: string;
+}
+
+const manifestKey = (eventId: string) => `jugnu_checkin_manifest_${eventId}`;
+const queueKey = (eventId: string) => `jugnu_checkin_queue_${eventId}`;
+
+export function loadManifest(eventId: string): CheckinManifest | null {
+  try {
+    const stored = localStorage.getItem(manifestKey(eventId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveManifest(manifest: CheckinManifest) {
+  localStorage.setItem(manifestKey(manifest.eventId), JSON.stringify(manifest));
+}
+
+export function loadQueue(eventId: string): QueuedScan[] {
+  try {
+    const stored = localStorage.getItem(queueKey(eventId));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveQueue(eventId: string, queue: QueuedScan[]) {
+  localStorage.setItem(queueKey(eventId), JSON.stringify(queue));
+}
+
+// Stable per-browser ID so the server can tell scanning devices apart
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem('jugnu_checkin_device_id');
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem('jugnu_checkin_device_id', deviceId);
+  }
+  return deviceId;
+}
+
+export function isSignedCode(code: string): boolean {
+  return code.startsWith('JT1.') && code.split('.').length === 3;
+}
+
+const base64UrlToBytes = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+/**
+ * Check a signed ticket code against the manifest's public key.
+ * Returns the payload only if the signature is genuine.
+ */
+export async function verifySignedCode(code: string, publicKey: JsonWebKey): Promise<SignedTicketPayload | null> {
+  if (!isSignedCode(code)) return null;
+
+  try {
+    const [prefix, encoded, signature] = code.split('.');
+    const key = await crypto.subtle.importKey('jwk', publicKey, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      base64UrlToBytes(signature),
+      new TextEncoder().encode(`${prefix}.${encoded}`)
+    );
+    if (!valid) return null;
+
+    return JSON.parse(new TextDecoder().decode(base64UrlToBytes(encoded)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a scanned code using only the downloaded manifest. Signed codes are
+ * trusted even if the ticket was bought after the manifest was downloaded.
+ */
+export async function validateOffline(manifest: CheckinManifest, code: string): Promise<OfflineValidation> {
+  let qrToken = code;
+  let payload: SignedTicketPayload | null = null;
+
+  if (isSignedCode(code)) {
+    payload = await verifySignedCode(code, manifest.publicKey);
+    if (!payload) {
+      return { ok: false, status: 'invalid', message: '❌ Ticket signature is not valid', error: 'Invalid signature', offline: true };
+    }
+    if (payload.e !== manifest.eventId) {
+      return {
+        ok: false,
+        status: 'wrong_event',
+        message: '❌ This ticket is for another event',
+        error: 'Ticket is for a different event',
+        meta: { actualEventId: payload.e, actualEventTitle: 'another event', ticketSerial: payload.s },
+        offline: true
+      };
+    }
+    qrToken = payload.q;
+  }
+
+  const ticket = findManifestTicket(manifest, qrToken);
+
+  if (!ticket) {
+    if (payload) {
+      return {
+        ok: true,
+        status: 'valid',
+        message: '✅ Valid ticket (signed)',
+        meta: { ticketId: payload.t, serial: payload.s, tierName: '', seatLabel: null, buyerName: '' },
+        offline: true
+      };
+    }
+    return { ok: false, status: 'invalid', message: '❌ Ticket not in the offline list', error: 'Invalid QR code', offline: true };
+  }
+
+  const meta = {
+    ticketId: ticket.ticketId,
+    serial: ticket.serial,
+    tierName: ticket.tierName,
+    seatLabel: ticket.seatLabel,
+    buyerName: ticket.buyerName,
+    checkedInAt: ticket.checkedInAt,
+    checkedInBy: ticket.checkedInBy || 'unknown'
+  };
+
+  if (ticket.status === 'used') {
+    return {
+      ok: false,
+      status: 'used',
+      message: `⚠️ Already checked in${ticket.checkedInAt ? ' on ' + new Date(ticket.checkedInAt).toLocaleString() : ''}`,
+      error: 'Ticket has already been checked in',
+      meta,
+      offline: true
+    };
+  }
+
+  if (ticket.status === 'refunded') {
+    return { ok: false, status: 'refunded', message: '❌ This ticket has been refunded', error: 'Ticket has been refunded', meta, offline: true };
+  }
+
+  if (ticket.isBlocked) {
+    return { ok: false, status: 'blocked', message: '⛔ This ticket is blocked - send the guest to the box office', error: 'Ticket is blocked', meta, offline: true };
+  }
+
+  if (ticket.status !== 'valid') {
+    return { ok: false, status: 'invalid', message: '❌ Ticket is not valid for check-in', error: 'Ticket is not valid', meta, offline: true };
+  }
+
+  return { ok: true, status: 'valid', message: `✅ Valid ticket for ${ticket.buyerName || 'Guest'}`, meta, offline: true };
+}
+
+/**
+ * Record a check-in on this device: mark the ticket used in the manifest so a
+ * second scan here is caught, and queue the scan for syncing.
+ */
+export async function recordOfflineCheckin(manifest: CheckinManifest, code: string, scannedBy: string): Promise<{ manifest: CheckinManifest; scan: QueuedScan }> {
+  const scannedAt = new Date().toISOString();
+  const payload = isSignedCode(code) ? await verifySignedCode(code, manifest.publicKey) : null;
+  const qrToken = payload?.q || code;
+  const existing = findManifestTicket(manifest, qrToken);
+
+  const tickets = existing
+    ? manifest.tickets.map(t => t === existing ? { ...t, status: 'used', checkedInAt: scannedAt, checkedInBy: scannedBy } : t)
+    : [...manifest.tickets, {
+        ticketId: payload?.t || '',
+        serial: payload?.s || '',
+        qrToken,
+        status: 'used',
+        tierName: '',
+        seatLabel: null,
+        buyerName: '',
+        checkedInAt: scannedAt,
+        checkedInBy: scannedBy
+      }];
+
+  return {
+    manifest: { ...manifest, tickets },
+    scan: { scanId: crypto.randomUUID(), code, scannedAt, scannedBy }
+  };
+}
+
+function findManifestTicket(manifest: CheckinManifest, qrToken: string): ManifestTicket | undefined {
+  return manifest.tickets.find(t => t.qrToken === qrToken);
+}
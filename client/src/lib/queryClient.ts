@@ -34,6 +34,16 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors look like `409: {"ok":false,"error":"..."}` - pull out the server's message
+export function errorText(error: unknown): string {
+  const message = (error instanceof Error ? error.message : "").replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(message).error || message;
+  } catch {
+    return message;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
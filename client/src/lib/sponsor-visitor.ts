@@ -0,0 +1,113 @@
+// Anonymous id for this browser, so the server can apply sponsor frequency caps and dedup impressions,
+// and the batched ad event tracking the spotlight components report through
+
+const VISITOR_ID_KEY = 'jugnu_user_id';
+
+export function getSponsorVisitorId(): string {
+  let visitorId = localStorage.getItem(VISITOR_ID_KEY);
+  if (!visitorId) {
+    visitorId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    localStorage.setItem(VISITOR_ID_KEY, visitorId);
+  }
+  return visitorId;
+}
+
+// /api/spotlight/active for a placement, leaving out campaigns this visitor is capped on
+export function spotlightActiveUrl(placement: string): string {
+  return `/api/spotlight/active?placement=${placement}&visitorId=${encodeURIComponent(getSponsorVisitorId())}`;
+}
+
+export type SponsorEventType = 'impression' | 'viewable' | 'click';
+
+export interface SponsorEvent {
+  campaignId: string;
+  creativeId?: string;
+  placement: string;
+  eventType: SponsorEventType;
+  viewDuration?: number; // milliseconds the ad was in view
+}
+
+const TRACK_URL = '/api/spotlight/admin/metrics/track';
+const FLUSH_DELAY_MS = 2000;
+const MAX_BATCH = 50; // the server's per-request limit
+
+// An ad is viewable once at least half of it has been on screen for a second without a break
+export const VIEWABLE_THRESHOLD = 0.5;
+export const VIEWABLE_MS = 1000;
+
+let pending: object[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let listening = false;
+
+// Send everything queued. When the page is going away only sendBeacon is sure to get through.
+export function flushSponsorEvents(leavingPage = false): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  while (pending.length > 0) {
+    const body = JSON.stringify({ events: pending.splice(0, MAX_BATCH) });
+    if (leavingPage && navigator.sendBeacon?.(TRACK_URL, new Blob([body], { type: 'application/json' }))) continue;
+    fetch(TRACK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true
+    }).catch(console.error);
+  }
+}
+
+/**
+ * Queue a sponsor ad event. Events go out in batches every couple of seconds and when the page
+ * is hidden; clicks go straight away since they usually come just before navigating.
+ */
+export function trackSponsorEvent(event: SponsorEvent): void {
+  if (!listening) {
+    listening = true;
+    window.addEventListener('pagehide', () => flushSponsorEvents(true));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flushSponsorEvents(true);
+    });
+  }
+
+  pending.push({
+    ...event,
+    userId: getSponsorVisitorId(),
+    deviceType: window.innerWidth < 768 ? 'mobile' : 'desktop'
+  });
+
+  if (event.eventType === 'click' || pending.length >= MAX_BATCH) {
+    flushSponsorEvents(event.eventType === 'click');
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => flushSponsorEvents(), FLUSH_DELAY_MS);
+  }
+}
+
+/**
+ * Call onViewable once the element has met the viewability standard. Scrolling it out of view
+ * before then restarts the clock. Returns a cleanup that stops watching.
+ */
+export function watchViewability(element: Element, onViewable: (visibleMs: number) => void): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const observer = new IntersectionObserver(([entry]) => {
+    const inView = entry.isIntersecting && entry.intersectionRatio >= VIEWABLE_THRESHOLD;
+    if (inView && timer === undefined) {
+      const since = Date.now();
+      timer = setTimeout(() => {
+        observer.disconnect();
+        onViewable(Date.now() - since);
+      }, VIEWABLE_MS);
+    } else if (!inView && timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  }, { threshold: VIEWABLE_THRESHOLD });
+
+  observer.observe(element);
+  return () => {
+    clearTimeout(timer);
+    observer.disconnect();
+  };
+}
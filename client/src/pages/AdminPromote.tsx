@@ -45,7 +45,11 @@ import { toast } from '@/hooks/use-toast';
 import { ENDPOINTS, adminFetch } from '@/lib/endpoints';
 import AdminDeals from '@/pages/AdminDeals';
 import AdminPromoCodes from '@/pages/AdminPromoCodes';
+import AdminSponsorDelivery from '@/pages/AdminSponsorDelivery';
 import AdminNav from '@/components/AdminNav';
+import AdminCreativeTests from '@/components/AdminCreativeTests';
+import AdminTeam, { ROLE_LABELS } from '@/components/AdminTeam';
+import AdminAuditLog from '@/components/AdminAuditLog';
 
 interface Campaign {
   id: string;
@@ -59,6 +63,11 @@ interface Campaign {
   start_at: string;
   end_at: string;
   priority: number;
+  share_of_voice: number | null;
+  creative_rotation: 'even' | 'performance' | 'split';
+  ab_auto_promote?: boolean;
+  ab_confidence?: number;
+  ab_min_impressions?: number;
   is_active: boolean;
   is_sponsored: boolean;
   tags: string[];
@@ -69,11 +78,19 @@ interface Campaign {
 }
 
 interface Creative {
+  id?: string;
   placement: string;
   image_desktop_url?: string;
   image_mobile_url?: string;
   logo_url?: string;
   alt: string;
+  is_active?: boolean;
+  variant_label?: string | null;
+  headline?: string | null;
+  subline?: string | null;
+  cta_text?: string | null;
+  traffic_weight?: number | null;
+  promoted_at?: string | null;
 }
 
 interface PortalToken {
@@ -92,6 +109,9 @@ interface PortalToken {
 interface AdminSession {
   isAdmin: boolean;
   loginTime?: number;
+  // Absent when signed in with the shared admin key
+  user?: { id: string; email: string; name: string | null; role: keyof typeof ROLE_LABELS } | null;
+  permissions?: Record<string, 'read' | 'write'>;
 }
 
 export default function AdminPromote() {
@@ -117,6 +137,7 @@ export default function AdminPromote() {
   const highlightCampaignId = urlParams.get('campaign');
 
   // Form state
+  const [loginEmail, setLoginEmail] = useState('');
   const [loginPassword, setLoginPassword] = useState('');
   const [adminKey, setAdminKey] = useState(localStorage.getItem('adminKey') || '');
   const [campaignForm, setCampaignForm] = useState({
@@ -130,6 +151,11 @@ export default function AdminPromote() {
     start_at: '',
     end_at: '',
     priority: 1,
+    share_of_voice: null as number | null,
+    creative_rotation: 'even' as Campaign['creative_rotation'],
+    ab_auto_promote: false,
+    ab_confidence: 0.95,
+    ab_min_impressions: 1000,
     is_active: true,
     is_sponsored: true,
     tags: [] as string[],
@@ -172,7 +198,15 @@ export default function AdminPromote() {
 
   const checkSession = async () => {
     try {
-      // Check if admin key exists in localStorage (like admin/leads does)
+      const sessionResponse = await fetch(ENDPOINTS.ADMIN.SESSION);
+      const sessionData = await sessionResponse.json();
+      if (sessionData.isAdmin) {
+        setSession(sessionData);
+        loadData();
+        return;
+      }
+
+      // Otherwise fall back to a shared admin key saved by one of the older admin pages
       const existingKey = localStorage.getItem('adminKey');
       
       if (existingKey) {
@@ -204,21 +238,17 @@ export default function AdminPromote() {
       const response = await fetch(ENDPOINTS.ADMIN.LOGIN, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password: loginPassword })
+        body: JSON.stringify({ email: loginEmail, password: loginPassword })
       });
       
       const data = await response.json();
       
       if (data.ok) {
-        // Store the admin key returned from the server (environment-specific)
-        const serverAdminKey = data.adminKey || 'jugnu-admin-dev-2025';
-        localStorage.setItem('adminKey', serverAdminKey);
-        setAdminKey(serverAdminKey);
-        setSession({ isAdmin: true, loginTime: Date.now() });
+        // The session cookie identifies this admin from now on
+        setSession({ isAdmin: true, loginTime: Date.now(), user: data.user, permissions: data.permissions });
         setShowLoginForm(false);
         setLoginPassword('');
-        // Pass the admin key directly to ensure it's used immediately
-        loadData(serverAdminKey);
+        loadData();
         toast({ title: "Logged in successfully" });
       } else {
         toast({ title: "Login failed", description: data.error, variant: "destructive" });
@@ -332,6 +362,10 @@ export default function AdminPromote() {
       if (response.ok) {
         toast({ title: "Campaign updated" });
         loadData();
+      } else {
+        // e.g. the sponsor's invoice hasn't been paid yet
+        const data = await response.json();
+        toast({ title: "Error", description: data.error || "Failed to toggle campaign", variant: "destructive" });
       }
     } catch (error) {
       console.error('Toggle campaign error:', error);
@@ -606,6 +640,11 @@ export default function AdminPromote() {
       start_at: '',
       end_at: '',
       priority: 1,
+      share_of_voice: null,
+      creative_rotation: 'even',
+      ab_auto_promote: false,
+      ab_confidence: 0.95,
+      ab_min_impressions: 1000,
       is_active: true,
       is_sponsored: true,
       tags: [],
@@ -634,6 +673,11 @@ export default function AdminPromote() {
       start_at: campaign.start_at.split('T')[0],
       end_at: campaign.end_at.split('T')[0],
       priority: campaign.priority,
+      share_of_voice: campaign.share_of_voice ?? null,
+      creative_rotation: campaign.creative_rotation || 'even',
+      ab_auto_promote: campaign.ab_auto_promote ?? false,
+      ab_confidence: Number(campaign.ab_confidence ?? 0.95),
+      ab_min_impressions: campaign.ab_min_impressions ?? 1000,
       is_active: campaign.is_active,
       is_sponsored: campaign.is_sponsored,
       tags: campaign.tags,
@@ -696,6 +740,8 @@ export default function AdminPromote() {
     );
   }
 
+  const showTeamTab = !!(session?.permissions?.users || session?.permissions?.audit);
+
   if (showLoginForm) {
     return (
       <div className="min-h-screen bg-bg flex items-center justify-center">
@@ -705,15 +751,28 @@ export default function AdminPromote() {
             <h1 className="font-fraunces text-2xl font-bold text-white mb-2">
               Admin Console
             </h1>
-            <p className="text-muted">Enter admin password to continue</p>
+            <p className="text-muted">Sign in with your admin account</p>
           </div>
 
           <div className="space-y-4">
+            <div>
+              <Label htmlFor="email" className="text-white">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="username"
+                value={loginEmail}
+                onChange={(e) => setLoginEmail(e.target.value)}
+                className="bg-white/10 border-white/20 text-white"
+                data-testid="admin-email-input"
+              />
+            </div>
             <div>
               <Label htmlFor="password" className="text-white">Password</Label>
               <Input
                 id="password"
                 type="password"
+                autoComplete="current-password"
                 value={loginPassword}
                 onChange={(e) => setLoginPassword(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && login()}
@@ -748,7 +807,9 @@ export default function AdminPromote() {
                   Sponsorship Console
                 </h1>
                 <p className="text-muted text-xs sm:text-sm">
-                  Campaign & portal management
+                  {session?.user
+                    ? `${session.user.name || session.user.email} • ${ROLE_LABELS[session.user.role]}`
+                    : 'Campaign & portal management'}
                 </p>
               </div>
             </div>
@@ -860,7 +921,7 @@ export default function AdminPromote() {
 
       <div className="container mx-auto px-4 py-4 sm:py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6 sm:space-y-8">
-          <TabsList className="grid w-full grid-cols-5 bg-white/5 h-12">
+          <TabsList className={`grid w-full ${showTeamTab ? 'grid-cols-6' : 'grid-cols-5'} bg-white/5 h-12`}>
             <TabsTrigger value="campaigns" className="data-[state=active]:bg-copper-500 data-[state=active]:text-black text-xs sm:text-sm h-10">
               <Target className="w-4 h-4 mr-1 sm:mr-2" />
               <span className="hidden sm:inline">Campaigns</span>
@@ -886,6 +947,13 @@ export default function AdminPromote() {
               <span className="hidden sm:inline">Promo Codes</span>
               <span className="sm:hidden">Codes</span>
             </TabsTrigger>
+            {showTeamTab && (
+              <TabsTrigger value="team" className="data-[state=active]:bg-copper-500 data-[state=active]:text-black text-xs sm:text-sm h-10">
+                <Users className="w-4 h-4 mr-1 sm:mr-2" />
+                <span className="hidden sm:inline">Team & Audit</span>
+                <span className="sm:hidden">Team</span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {/* Campaigns Tab */}
@@ -954,6 +1022,9 @@ export default function AdminPromote() {
                               </span>
                             )}
                             <span>Priority: {campaign.priority}</span>
+                            {campaign.share_of_voice != null && (
+                              <span>Share of voice: {campaign.share_of_voice}%</span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -1393,6 +1464,8 @@ export default function AdminPromote() {
                 </div>
               </Card>
             </div>
+
+            <AdminSponsorDelivery />
           </TabsContent>
 
           {/* Deals Tab */}
@@ -1404,6 +1477,13 @@ export default function AdminPromote() {
           <TabsContent value="codes" className="space-y-4 sm:space-y-6">
             <AdminPromoCodes />
           </TabsContent>
+
+          {showTeamTab && (
+            <TabsContent value="team" className="space-y-4 sm:space-y-6">
+              {session?.permissions?.users === 'write' && <AdminTeam currentUserId={session.user?.id} />}
+              {session?.permissions?.audit && <AdminAuditLog />}
+            </TabsContent>
+          )}
         </Tabs>
       </div>
 
@@ -1584,6 +1664,212 @@ export default function AdminPromote() {
                   className="bg-white/10 border-white/20 text-white"
                 />
               </div>
+
+              <div>
+                <Label htmlFor="share_of_voice" className="text-white">Share of Voice (%)</Label>
+                <Input
+                  id="share_of_voice"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={campaignForm.share_of_voice ?? ''}
+                  onChange={(e) => {
+                    const val = e.target.value;
+                    setCampaignForm(prev => ({
+                      ...prev,
+                      share_of_voice: val === '' ? null : Math.min(100, Math.max(0, parseInt(val) || 0))
+                    }));
+                  }}
+                  className="bg-white/10 border-white/20 text-white"
+                  placeholder="Unbooked"
+                />
+                <p className="text-xs text-muted mt-1">Blank = split what other campaigns haven't booked</p>
+              </div>
+
+              <div>
+                <Label className="text-white">Creative Rotation</Label>
+                <Select
+                  value={campaignForm.creative_rotation}
+                  onValueChange={(value) => setCampaignForm(prev => ({
+                    ...prev,
+                    creative_rotation: value as Campaign['creative_rotation']
+                  }))}
+                >
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="even">Even</SelectItem>
+                    <SelectItem value="performance">By click-through rate</SelectItem>
+                    <SelectItem value="split">A/B test (traffic split)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {campaignForm.creative_rotation === 'split' && (
+              <div className="grid md:grid-cols-3 gap-4 p-3 rounded-lg bg-white/5">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="ab_auto_promote"
+                    checked={campaignForm.ab_auto_promote}
+                    onCheckedChange={(checked) => setCampaignForm(prev => ({ ...prev, ab_auto_promote: checked }))}
+                  />
+                  <Label htmlFor="ab_auto_promote" className="text-white">Auto-promote the winner</Label>
+                </div>
+                <div>
+                  <Label className="text-white">Confidence</Label>
+                  <Select
+                    value={String(campaignForm.ab_confidence)}
+                    onValueChange={(value) => setCampaignForm(prev => ({ ...prev, ab_confidence: Number(value) }))}
+                  >
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0.9">90%</SelectItem>
+                      <SelectItem value="0.95">95%</SelectItem>
+                      <SelectItem value="0.99">99%</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="ab_min_impressions" className="text-white">Min. impressions per variant</Label>
+                  <Input
+                    id="ab_min_impressions"
+                    type="number"
+                    min="0"
+                    value={campaignForm.ab_min_impressions}
+                    onChange={(e) => setCampaignForm(prev => ({ ...prev, ab_min_impressions: Math.max(0, parseInt(e.target.value) || 0) }))}
+                    className="bg-white/10 border-white/20 text-white"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Creatives */}
+            <div>
+              <div className="flex items-center justify-between">
+                <Label className="text-white">Creatives</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="border-white/20 text-white hover:bg-white/10"
+                  onClick={() => setCampaignForm(prev => ({
+                    ...prev,
+                    creatives: [...prev.creatives, { placement: prev.placements[0] || 'events_banner', alt: '', is_active: true }]
+                  }))}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Creative
+                </Button>
+              </div>
+              <p className="text-xs text-muted mt-1">
+                Creatives for the same placement take turns{campaignForm.creative_rotation === 'split' && '; blank traffic weights split what the others leave'}
+              </p>
+              <div className="space-y-3 mt-2">
+                {campaignForm.creatives.map((creative, index) => {
+                  const updateCreative = (changes: Partial<Creative>) => setCampaignForm(prev => ({
+                    ...prev,
+                    creatives: prev.creatives.map((c, i) => i === index ? { ...c, ...changes } : c)
+                  }));
+                  return (
+                    <div key={creative.id || `new-${index}`} className="grid md:grid-cols-4 gap-2 p-3 rounded-lg bg-white/5">
+                      <Input
+                        value={creative.variant_label || ''}
+                        onChange={(e) => updateCreative({ variant_label: e.target.value })}
+                        className="bg-white/10 border-white/20 text-white"
+                        placeholder={`Variant ${String.fromCharCode(65 + index)}`}
+                      />
+                      <Input
+                        value={creative.headline || ''}
+                        onChange={(e) => updateCreative({ headline: e.target.value })}
+                        className="bg-white/10 border-white/20 text-white"
+                        placeholder="Headline (campaign's if blank)"
+                      />
+                      <Input
+                        value={creative.cta_text || ''}
+                        onChange={(e) => updateCreative({ cta_text: e.target.value })}
+                        className="bg-white/10 border-white/20 text-white"
+                        placeholder="CTA text (campaign's if blank)"
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={creative.traffic_weight ?? ''}
+                        onChange={(e) => updateCreative({
+                          traffic_weight: e.target.value === '' ? null : Math.min(100, Math.max(0, parseInt(e.target.value) || 0))
+                        })}
+                        disabled={campaignForm.creative_rotation !== 'split'}
+                        className="bg-white/10 border-white/20 text-white"
+                        placeholder="Traffic %"
+                      />
+                      <Select
+                        value={creative.placement}
+                        onValueChange={(value) => updateCreative({ placement: value })}
+                      >
+                        <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {['events_banner', 'home_mid', 'home_hero'].map((placement) => (
+                            <SelectItem key={placement} value={placement}>{placement}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={creative.image_desktop_url || ''}
+                        onChange={(e) => updateCreative({ image_desktop_url: e.target.value })}
+                        className="bg-white/10 border-white/20 text-white"
+                        placeholder="Desktop image URL"
+                      />
+                      <Input
+                        value={creative.image_mobile_url || ''}
+                        onChange={(e) => updateCreative({ image_mobile_url: e.target.value })}
+                        className="bg-white/10 border-white/20 text-white"
+                        placeholder="Mobile image URL"
+                      />
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={creative.alt}
+                          onChange={(e) => updateCreative({ alt: e.target.value })}
+                          className="bg-white/10 border-white/20 text-white"
+                          placeholder="Alt text"
+                        />
+                        <Switch
+                          checked={creative.is_active !== false}
+                          onCheckedChange={(checked) => updateCreative({ is_active: checked })}
+                        />
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-400 hover:bg-white/10"
+                          onClick={() => setCampaignForm(prev => ({
+                            ...prev,
+                            creatives: prev.creatives.filter((_, i) => i !== index)
+                          }))}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {editingCampaign && (
+                <AdminCreativeTests
+                  campaignId={editingCampaign.id}
+                  onPromoted={() => {
+                    // The form still has the paused creatives as active; saving it would undo the promotion
+                    setShowCampaignForm(false);
+                    setEditingCampaign(null);
+                    loadData();
+                  }}
+                />
+              )}
             </div>
 
             {/* Dates */}
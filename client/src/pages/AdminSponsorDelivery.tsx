@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/hooks/use-toast';
+import { adminFetch } from '@/lib/endpoints';
+import { Loader2, RefreshCcw, TrendingUp, CheckCircle, XCircle, Database } from 'lucide-react';
+
+interface PlacementPacing {
+  placement: string;
+  targetImpressions: number | null;
+  expectedToDate: number;
+  delivered: number;
+  pacePercent: number | null;
+  status: 'no_target' | 'on_track' | 'behind' | 'ahead' | 'delivered' | 'under_delivered';
+  boost: number;
+}
+
+interface CampaignPacing {
+  campaignId: string;
+  name: string;
+  sponsorName: string;
+  startAt: string;
+  endAt: string;
+  needsMakegood: boolean;
+  placements: PlacementPacing[];
+}
+
+interface Makegood {
+  id: string;
+  campaignId: string;
+  placement: string;
+  day: string;
+  status: 'proposed' | 'approved' | 'declined';
+  makegoodImpressions: number | null;
+}
+
+const PACING_KEY = ['/api/spotlight/admin/pacing'];
+
+const STATUS_STYLES: Record<PlacementPacing['status'], string> = {
+  no_target: 'bg-white/10 text-white/60 border-white/20',
+  on_track: 'bg-green-500/20 text-green-400 border-green-500/30',
+  ahead: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  behind: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  delivered: 'bg-green-500/20 text-green-400 border-green-500/30',
+  under_delivered: 'bg-red-500/20 text-red-400 border-red-500/30'
+};
+
+const today = () => new Date().toLocaleDateString('en-CA', { timeZone: 'America/Vancouver' });
+
+// Delivery pacing against impression guarantees, and makegood days waiting for approval
+export default function AdminSponsorDelivery() {
+  const [rollupFrom, setRollupFrom] = useState(today);
+  const [rollupTo, setRollupTo] = useState(today);
+
+  const { data, isLoading } = useQuery<{ ok: boolean; pacing: CampaignPacing[]; makegoods: Makegood[] }>({
+    queryKey: PACING_KEY,
+    queryFn: async () => {
+      const response = await adminFetch('/api/spotlight/admin/pacing');
+      if (!response.ok) throw new Error('Failed to load pacing');
+      return response.json();
+    }
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await adminFetch('/api/spotlight/admin/pacing/run', { method: 'POST' });
+      const result = await response.json();
+      if (!result.ok) throw new Error(result.error || 'Failed to run pacing');
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: PACING_KEY });
+      toast({
+        title: 'Pacing updated',
+        description: `${result.boosted} campaigns boosted, ${result.proposed} makegood days proposed`
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const rollupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await adminFetch('/api/spotlight/admin/metrics/rollup', {
+        method: 'POST',
+        body: JSON.stringify({ from: rollupFrom, to: rollupTo })
+      });
+      const result = await response.json();
+      if (!result.ok) throw new Error(result.error || 'Failed to rebuild metrics');
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: PACING_KEY });
+      toast({
+        title: 'Metrics rebuilt',
+        description: `${result.rows} daily rows recomputed for ${result.from} to ${result.to}`
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: 'approve' | 'decline' }) => {
+      const response = await adminFetch(`/api/spotlight/admin/makegoods/${id}/${decision}`, { method: 'POST' });
+      const result = await response.json();
+      if (!result.ok) throw new Error(result.error || 'Failed to update makegood');
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PACING_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const pacing = data?.pacing || [];
+  const makegoods = data?.makegoods || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-fraunces text-lg sm:text-xl font-bold text-white flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-copper-500" />
+          Delivery & Makegoods
+        </h2>
+        <Button
+          size="sm"
+          variant="outline"
+          className="border-white/20 text-white hover:bg-white/10"
+          onClick={() => runMutation.mutate()}
+          disabled={runMutation.isPending}
+        >
+          {runMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCcw className="w-4 h-4 mr-2" />}
+          Run Pacing
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-copper-500" />
+        </div>
+      ) : pacing.length === 0 ? (
+        <p className="text-sm text-muted">No running or recently finished campaigns</p>
+      ) : (
+        pacing.map(campaign => {
+          const campaignMakegoods = makegoods.filter(m => m.campaignId === campaign.campaignId);
+          return (
+            <Card key={campaign.campaignId} className="p-4 bg-white/5 border-white/10">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <div>
+                  <h3 className="font-medium text-white">{campaign.name}</h3>
+                  <p className="text-xs text-muted">
+                    {campaign.sponsorName} • {campaign.startAt.split('T')[0]} to {campaign.endAt.split('T')[0]}
+                  </p>
+                </div>
+                {campaign.needsMakegood && (
+                  <Badge className="bg-red-500/20 text-red-400 border-red-500/30">Needs makegood</Badge>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                {campaign.placements.map(p => (
+                  <div key={p.placement} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="text-white">{p.placement}</span>
+                    <div className="flex items-center gap-2 text-muted">
+                      {p.targetImpressions !== null && (
+                        <span>
+                          {p.delivered.toLocaleString()} delivered • {p.expectedToDate.toLocaleString()} expected • {p.targetImpressions.toLocaleString()} target
+                        </span>
+                      )}
+                      {p.boost > 1 && <span>• {p.boost}x boost</span>}
+                      <Badge className={STATUS_STYLES[p.status]}>
+                        {p.status.replace('_', ' ')}{p.pacePercent !== null ? ` ${p.pacePercent}%` : ''}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {campaignMakegoods.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-white/10 space-y-2">
+                  {campaignMakegoods.map(m => (
+                    <div key={m.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                      <span className="text-white">
+                        Makegood {m.day} on {m.placement}
+                        {m.makegoodImpressions ? ` • ~${m.makegoodImpressions.toLocaleString()} impressions` : ''}
+                      </span>
+                      {m.status === 'proposed' ? (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            className="bg-green-600 hover:bg-green-700 text-white"
+                            onClick={() => decideMutation.mutate({ id: m.id, decision: 'approve' })}
+                            disabled={decideMutation.isPending}
+                          >
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="border-white/20 text-white hover:bg-white/10"
+                            onClick={() => decideMutation.mutate({ id: m.id, decision: 'decline' })}
+                            disabled={decideMutation.isPending}
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Decline
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Approved</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          );
+        })
+      )}
+
+      <Card className="p-4 bg-white/5 border-white/10">
+        <h3 className="font-medium text-white flex items-center gap-2 mb-1">
+          <Database className="w-4 h-4 text-copper-500" />
+          Rebuild Metrics
+        </h3>
+        <p className="text-xs text-muted mb-3">
+          Daily metrics are rolled up from the ad event log every few minutes. Rebuilding a range recomputes it from the log.
+        </p>
+        <div className="flex flex-wrap items-end gap-2">
+          <Input
+            type="date"
+            value={rollupFrom}
+            onChange={(e) => setRollupFrom(e.target.value)}
+            className="w-40 bg-white/5 border-white/20 text-white"
+            data-testid="input-rollup-from"
+          />
+          <span className="text-muted text-sm pb-2">to</span>
+          <Input
+            type="date"
+            value={rollupTo}
+            onChange={(e) => setRollupTo(e.target.value)}
+            className="w-40 bg-white/5 border-white/20 text-white"
+            data-testid="input-rollup-to"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="border-white/20 text-white hover:bg-white/10"
+            onClick={() => rollupMutation.mutate()}
+            disabled={rollupMutation.isPending || !rollupFrom || !rollupTo}
+            data-testid="button-rebuild-metrics"
+          >
+            {rollupMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCcw className="w-4 h-4 mr-2" />}
+            Rebuild
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { ArrowRight, BarChart3, Target, TrendingUp, Eye, MousePointer, Users, MapPin, Calendar, CheckCircle, Upload, ExternalLink, Mail, Plus, Minus, Zap, Star, Shield, AlertTriangle, Info, XCircle } from 'lucide-react';
 import { PromoteCreativeUpload } from './PromoteCreativeUpload';
@@ -18,7 +18,8 @@ import { AreaChart, Area, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip
 import { PRICING_CONFIG, calculatePricing, formatCAD, type PackageType, type AddOnType, type DurationType } from '@/lib/pricing';
 import { useQuotePrefill } from '@/hooks/useQuotePrefill';
 import QuotePrefillBanner from '@/components/QuotePrefillBanner';
-import { useQuery } from '@tanstack/react-query';
+import SponsorAvailabilityCalendar from '@/components/SponsorAvailabilityCalendar';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 
 // Sample data for analytics preview
 const sampleData = [
@@ -66,7 +67,7 @@ const FAQ_ITEMS = [
   },
   {
     question: "Can I book the same dates as another sponsor?",
-    answer: "No, we enforce one sponsor per placement per day to maintain exclusivity and maximize your visibility. This prevents dilution and ensures you get the full attention of our audience."
+    answer: "No, we enforce one sponsor per placement per day to maintain exclusivity and maximize your visibility. This prevents dilution and ensures you get the full attention of our audience. When you pick your dates we hold them for 30 minutes while you finish your application, and for up to 7 days while we review it."
   }
 ];
 
@@ -84,6 +85,12 @@ export default function Promote() {
   const [promoCodeValidation, setPromoCodeValidation] = useState<{ valid: boolean, message: string, discount?: any } | null>(null);
   const [isValidatingPromoCode, setIsValidatingPromoCode] = useState(false);
   const [isLoadingBlockedDates, setIsLoadingBlockedDates] = useState(true);
+  // Quote holding the picked dates so nobody else can book them while the form is filled in
+  const [holdQuoteId, setHoldQuoteId] = useState<string | null>(() => sessionStorage.getItem('jugnu:hold_quote'));
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null);
+  const [inventoryVersion, setInventoryVersion] = useState(0);
+  const heldRangeRef = useRef<string | null>(null);
+  const queryClient = useQueryClient();
   
   // Quote prefill functionality
   const { quoteId, prefillData, isLoading: isPrefillLoading, error: prefillError, hasPrefill } = useQuotePrefill();
@@ -117,11 +124,12 @@ export default function Promote() {
       setIsLoadingBlockedDates(true);
       try {
         // Build URL with package_code parameter if a package is selected
-        const url = selectedPackage 
-          ? `/api/spotlight/blocked-dates?package_code=${selectedPackage}`
-          : '/api/spotlight/blocked-dates';
+        const params = new URLSearchParams();
+        if (selectedPackage) params.set('package_code', selectedPackage);
+        // Our own hold shouldn't show up as taken
+        if (holdQuoteId) params.set('quote_id', holdQuoteId);
           
-        const response = await fetch(url);
+        const response = await fetch(`/api/spotlight/blocked-dates?${params}`);
         if (response.ok) {
           const data = await response.json();
           setBlockedDates(new Set(data.blockedDates));
@@ -134,7 +142,7 @@ export default function Promote() {
       }
     };
     fetchBlockedDates();
-  }, [selectedPackage]); // Re-fetch when package changes
+  }, [selectedPackage, holdQuoteId, inventoryVersion]); // Re-fetch when package or hold changes
   
   // Force Full Feature to weekly
   useEffect(() => {
@@ -450,6 +458,51 @@ export default function Promote() {
     }
   }, [formData.start_date, durationType, weekDuration, dayDuration, selectedPackage, blockedDates]);
 
+  // Hold the dates once they check out, replacing any earlier hold from this visit
+  useEffect(() => {
+    if (!selectedPackage || !formData.start_date || !formData.end_date || dateValidationMessage?.type !== 'success') return;
+
+    const range = `${selectedPackage}|${formData.start_date}|${formData.end_date}`;
+    if (heldRangeRef.current === range) return;
+    heldRangeRef.current = range;
+
+    const holdDates = async () => {
+      try {
+        const response = await fetch('/api/spotlight/quotes', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            packageCode: selectedPackage,
+            duration: selectedPackage === 'full_feature' ? 'weekly' : durationType,
+            numWeeks: weekDuration,
+            numDays: dayDuration,
+            startDate: formData.start_date,
+            endDate: formData.end_date,
+            addOns: selectedAddOns,
+            replacesQuoteId: holdQuoteId || undefined
+          })
+        });
+        const result = await response.json();
+        if (!result.ok) throw new Error(result.error || 'Failed to hold dates');
+
+        sessionStorage.setItem('jugnu:hold_quote', result.quote_id);
+        setHoldQuoteId(result.quote_id);
+        setHoldExpiresAt(result.hold_expires_at);
+      } catch (error) {
+        heldRangeRef.current = null;
+        setHoldExpiresAt(null);
+        toast({
+          variant: "destructive",
+          title: "Dates just became unavailable",
+          description: error instanceof Error ? error.message : 'Please pick different dates.',
+        });
+        setInventoryVersion(version => version + 1);
+        queryClient.invalidateQueries({ queryKey: ['/api/spotlight/inventory'] });
+      }
+    };
+    holdDates();
+  }, [selectedPackage, formData.start_date, formData.end_date, dateValidationMessage]);
+
   // Get tomorrow's date as minimum start date
   const getTomorrowDate = () => {
     const tomorrow = new Date();
@@ -735,6 +788,7 @@ export default function Promote() {
       formDataToSend.append('objective', formData.objective);
       if (formData.comments) formDataToSend.append('comments', formData.comments);
       if (quoteId) formDataToSend.append('quoteId', quoteId);
+      if (holdQuoteId) formDataToSend.append('holdQuoteId', holdQuoteId);
       // Always send promoCode field, even if empty
       formDataToSend.append('promoCode', formData.promo_code && promoCodeValidation?.valid ? formData.promo_code : '');
       
@@ -821,6 +875,10 @@ export default function Promote() {
           selected_add_ons: [] as AddOnType[]
         });
         setSelectedPackage(null);
+        sessionStorage.removeItem('jugnu:hold_quote');
+        setHoldQuoteId(null);
+        setHoldExpiresAt(null);
+        heldRangeRef.current = null;
         setDurationType('weekly');
         setWeekDuration(1);
         setSelectedAddOns([]);
@@ -2687,6 +2745,16 @@ export default function Promote() {
                   </div>
                 </div>
                 
+                {selectedPackage && (
+                  <SponsorAvailabilityCalendar
+                    packageCode={selectedPackage}
+                    holdQuoteId={holdQuoteId}
+                    startDate={formData.start_date}
+                    endDate={formData.end_date}
+                    onSelectStart={(day) => setFormData({...formData, start_date: day})}
+                  />
+                )}
+                
                 {/* Date availability message */}
                 {dateValidationMessage && (
                   <div className={`${
@@ -2711,6 +2779,11 @@ export default function Promote() {
                         }`}>
                           {dateValidationMessage.message}
                         </p>
+                        {dateValidationMessage.type === 'success' && holdExpiresAt && (
+                          <p className="text-sm mt-1 text-green-300/70" data-testid="text-hold-expiry">
+                            Held for you until {new Date(holdExpiresAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -1,12 +1,33 @@
 import { useState, useEffect } from 'react';
 import { useRoute } from 'wouter';
 import { motion } from 'framer-motion';
-import { BarChart3, TrendingUp, Eye, MousePointer, Calendar, Download, AlertCircle, Award, ExternalLink, Rocket, Users } from 'lucide-react';
+import { BarChart3, TrendingUp, Eye, MousePointer, Calendar, Download, AlertCircle, Award, ExternalLink, Rocket, Users, FlaskConical, Trophy } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { AreaChart, Area, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
+const PLACEMENT_LABELS: Record<string, string> = {
+  events_banner: 'Events Banner',
+  home_mid: 'Homepage Feature',
+  home_hero: 'Homepage Hero'
+};
+
+const CREATIVE_TEST_LABELS: Record<string, string> = {
+  collecting: 'Collecting data',
+  inconclusive: 'Too close to call',
+  significant: 'Winner found',
+  promoted: 'Winner now running'
+};
+
+const DELIVERY_STATUS_LABELS: Record<string, string> = {
+  on_track: 'On track',
+  ahead: 'Ahead of schedule',
+  behind: 'Catching up',
+  delivered: 'Delivered',
+  under_delivered: 'Makegood scheduled'
+};
+
 interface PortalData {
   ok: boolean;
   campaign?: {
@@ -17,6 +38,7 @@ interface PortalData {
   };
   totals?: {
     billable_impressions: number;
+    viewable_impressions: number;
     raw_views: number;
     unique_users: number;
     clicks: number;
@@ -28,9 +50,38 @@ interface PortalData {
     totalCampaigns: number;
     averageCtr: string;
   } | null;
+  delivery?: {
+    placements: Array<{
+      placement: string;
+      targetImpressions: number | null;
+      expectedToDate: number;
+      delivered: number;
+      pacePercent: number | null;
+      status: 'no_target' | 'on_track' | 'behind' | 'ahead' | 'delivered' | 'under_delivered';
+    }>;
+    makegoods: Array<{ placement: string; day: string; impressions: number | null }>;
+  } | null;
+  creativeTests?: Array<{
+    placement: string;
+    status: 'collecting' | 'inconclusive' | 'significant' | 'promoted';
+    requiredConfidence: number;
+    minImpressions: number;
+    winnerCreativeId: string | null;
+    variants: Array<{
+      creativeId: string;
+      label: string;
+      impressions: number;
+      clicks: number;
+      ctr: number;
+      confidence: number | null;
+      isLeader: boolean;
+      isWinner: boolean;
+    }>;
+  }>;
   chartData?: Array<{
     date: string;
     billable_impressions: number;
+    viewable_impressions: number;
     raw_views: number;
     unique_users: number;
     clicks: number;
@@ -214,7 +265,8 @@ export default function SponsorPortal() {
     );
   }
 
-  const { campaign, totals, chartData, last7Days } = data;
+  const { campaign, totals, chartData, last7Days, delivery, creativeTests } = data;
+  const guaranteed = delivery?.placements.filter(p => p.targetImpressions !== null) || [];
 
   return (
     <div className="min-h-screen bg-bg">
@@ -316,6 +368,11 @@ export default function SponsorPortal() {
                   {(totals?.billable_impressions || totals?.raw_views || 0).toLocaleString()}
                 </div>
                 <p className="text-muted text-sm">Impressions</p>
+                {!!totals?.viewable_impressions && totals.raw_views > 0 && (
+                  <p className="text-xs text-muted mt-1" title="Shown at least half on screen for a full second">
+                    {totals.viewable_impressions.toLocaleString()} viewable ({Math.min(100, Math.round(totals.viewable_impressions / totals.raw_views * 100))}% of views)
+                  </p>
+                )}
               </Card>
 
               {/* Reach (Unique Users) */}
@@ -366,6 +423,106 @@ export default function SponsorPortal() {
                 )}
               </Card>
             </div>
+
+            {/* Delivery against the impression guarantee */}
+            {guaranteed.length > 0 && (
+              <Card className="p-6 bg-white/5 border-white/10" data-testid="delivery-card">
+                <h3 className="font-medium text-white mb-4 flex items-center gap-2">
+                  <TrendingUp className="w-5 h-5 text-copper-400" />
+                  Guaranteed Delivery
+                </h3>
+                <div className="space-y-4">
+                  {guaranteed.map(p => (
+                    <div key={p.placement}>
+                      <div className="flex items-center justify-between text-sm mb-1">
+                        <span className="text-white">{PLACEMENT_LABELS[p.placement] || p.placement}</span>
+                        <span className="text-muted">
+                          {p.delivered.toLocaleString()} / {(p.targetImpressions || 0).toLocaleString()} impressions
+                          {' • '}
+                          {DELIVERY_STATUS_LABELS[p.status]}
+                        </span>
+                      </div>
+                      <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                        <div
+                          className="h-full bg-copper-500"
+                          style={{ width: `${Math.min(100, p.delivered / Math.max(1, p.targetImpressions || 0) * 100)}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {delivery && delivery.makegoods.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-white/10">
+                    <p className="text-sm text-white mb-2">
+                      We fell short of your guarantee, so your campaign runs again at no charge on:
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {delivery.makegoods.map(m => (
+                        <Badge key={`${m.placement}-${m.day}`} className="bg-copper-500/20 text-copper-400 border-copper-500/30">
+                          {formatDate(m.day)} • {PLACEMENT_LABELS[m.placement] || m.placement}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </Card>
+            )}
+
+            {/* Which creative variant is winning */}
+            {creativeTests && creativeTests.length > 0 && (
+              <Card className="p-6 bg-white/5 border-white/10 mt-6" data-testid="creative-tests-card">
+                <h3 className="font-medium text-white mb-4 flex items-center gap-2">
+                  <FlaskConical className="w-5 h-5 text-copper-400" />
+                  Creative A/B Test
+                </h3>
+                <div className="space-y-6">
+                  {creativeTests.map(test => {
+                    const bestCtr = Math.max(...test.variants.map(v => v.ctr), 0);
+                    return (
+                      <div key={test.placement}>
+                        <div className="flex items-center justify-between text-sm mb-2">
+                          <span className="text-white">{PLACEMENT_LABELS[test.placement] || test.placement}</span>
+                          <Badge variant="outline" className="text-copper-400 border-copper-500/50">
+                            {CREATIVE_TEST_LABELS[test.status]}
+                          </Badge>
+                        </div>
+                        <div className="space-y-2">
+                          {test.variants.map(v => (
+                            <div key={v.creativeId}>
+                              <div className="flex items-center justify-between text-sm mb-1">
+                                <span className="text-white flex items-center gap-1.5">
+                                  {v.isWinner && <Trophy className="w-4 h-4 text-copper-400" />}
+                                  {v.label}
+                                </span>
+                                <span className="text-muted">
+                                  {v.ctr.toFixed(2)}% CTR • {v.clicks.toLocaleString()} clicks / {v.impressions.toLocaleString()} impressions
+                                </span>
+                              </div>
+                              <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                                <div
+                                  className={`h-full ${v.isLeader ? 'bg-copper-500' : 'bg-white/30'}`}
+                                  style={{ width: `${bestCtr > 0 ? v.ctr / bestCtr * 100 : 0}%` }}
+                                />
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted mt-2">
+                          {test.status === 'collecting'
+                            ? `Each version needs ${test.minImpressions.toLocaleString()} impressions before we can call it.`
+                            : test.status === 'inconclusive'
+                              ? `The leader wasn't far enough ahead to be ${Math.round(test.requiredConfidence * 100)}% sure it's better.`
+                              : test.status === 'significant'
+                                ? `The leader beat the other versions with at least ${Math.round(test.requiredConfidence * 100)}% confidence.`
+                                : 'The winning version now gets all of this placement\'s traffic.'}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            )}
           </motion.div>
         </div>
       </section>
@@ -6,7 +6,7 @@ import {
   TrendingUp, TrendingDown, Users, DollarSign, 
   Clock, Calendar, Download, Filter, ChevronRight,
   BarChart3, PieChart, Activity, RefreshCw,
-  UserCheck, Ticket, AlertCircle, XCircle, ArrowLeft
+  UserCheck, Ticket, AlertCircle, XCircle, ArrowLeft, Megaphone
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -15,6 +15,7 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { PromoterLeaderboard } from "@/components/PromoterLeaderboard";
 import {
   Select,
   SelectContent,
@@ -65,6 +66,15 @@ interface AnalyticsData {
     hour: string;
     count: number;
   }>;
+  occurrences?: Array<{
+    occurrenceId: string;
+    startAt: string;
+    status: string;
+    ticketsSold: number;
+    passHolders: number;
+    checkedIn: number;
+    checkInRate: number;
+  }>;
   refundStats: {
     totalRefunds: number;
     refundedAmount: number;
@@ -105,7 +115,7 @@ export function TicketsAnalyticsPage() {
   console.log('[Analytics] Component mounted, eventId:', eventId, 'params:', params);
   
   // Fetch event details
-  const { data: event } = useQuery<{ event: { title: string } }>({
+  const { data: event } = useQuery<{ event: { title: string; slug: string } }>({
     queryKey: ['/api/tickets/events', eventId],
     enabled: !!eventId
   });
@@ -377,6 +387,14 @@ export function TicketsAnalyticsPage() {
                   <Users className="h-4 w-4 mr-2" />
                   Demographics
                 </TabsTrigger>
+                <TabsTrigger 
+                  value="promoters"
+                  className="data-[state=active]:bg-copper data-[state=active]:text-white data-[state=active]:shadow-lg"
+                  data-testid="tab-promoters"
+                >
+                  <Megaphone className="h-4 w-4 mr-2" />
+                  Promoters
+                </TabsTrigger>
               </TabsList>
               
               <TabsContent value="sales" className="space-y-4">
@@ -587,6 +605,36 @@ export function TicketsAnalyticsPage() {
                     </CardContent>
                   </Card>
                 </div>
+                
+                {analytics.occurrences && analytics.occurrences.length > 0 && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>By Date</CardTitle>
+                      <CardDescription>
+                        Tickets sold and check-ins for each date of the series
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-4">
+                        {analytics.occurrences.map(occurrence => (
+                          <div key={occurrence.occurrenceId} className="space-y-2" data-testid={`occurrence-stats-${occurrence.occurrenceId}`}>
+                            <div className="flex justify-between text-sm">
+                              <span className={occurrence.status === 'canceled' ? 'line-through text-muted-foreground' : 'font-medium'}>
+                                {format(new Date(occurrence.startAt), 'EEE, MMM d, yyyy · h:mm a')}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {occurrence.ticketsSold} sold
+                                {occurrence.passHolders > 0 && ` + ${occurrence.passHolders} passes`}
+                                {' · '}{occurrence.checkedIn} checked in
+                              </span>
+                            </div>
+                            <Progress value={occurrence.checkInRate} />
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
               </TabsContent>
               
               <TabsContent value="refunds" className="space-y-4">
@@ -724,6 +772,10 @@ export function TicketsAnalyticsPage() {
                   </Card>
                 )}
               </TabsContent>
+              
+              <TabsContent value="promoters" className="space-y-4">
+                <PromoterLeaderboard eventId={eventId} eventSlug={event?.event.slug} />
+              </TabsContent>
             </Tabs>
             
             {/* Export Section */}
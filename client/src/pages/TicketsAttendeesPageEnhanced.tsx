@@ -10,7 +10,8 @@ import {
   Edit, DollarSign, UserX, UserPlus, Tag,
   MessageSquare, Shield, ShieldOff, Star,
   ArrowLeft, Copy, FileText, ChevronRight,
-  QrCode, Phone, AtSign, ArrowRightLeft
+  QrCode, Phone, AtSign, ArrowRightLeft,
+  ArrowUp, ArrowDown, Trash2
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -61,6 +62,7 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import Papa from "papaparse";
+import { RefundRequestsQueue } from "@/components/RefundRequestsQueue";
 
 interface Attendee {
   ticketId: string;
@@ -80,6 +82,27 @@ interface Attendee {
   isBlocked?: boolean;
   refundedAt?: string;
   refundReason?: string;
+  answers?: AttendeeAnswer[];
+}
+
+// A checkout question answered for this ticket (or once for its whole order)
+interface AttendeeAnswer {
+  questionId: string;
+  label: string;
+  value: string;
+}
+
+interface WaitlistEntry {
+  id: string;
+  tierId: string;
+  tierName: string;
+  email: string;
+  name: string | null;
+  quantity: number;
+  position: number;
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'removed';
+  offerExpiresAt: string | null;
+  createdAt: string;
 }
 
 export function TicketsAttendeesPageEnhanced() {
@@ -275,6 +298,72 @@ export function TicketsAttendeesPageEnhanced() {
     }
   });
   
+  // Waitlist queue for sold-out tiers
+  const { data: waitlistData, isLoading: waitlistLoading } = useQuery<{ entries: WaitlistEntry[] }>({
+    queryKey: [`/api/tickets/events/${eventId}/waitlist`],
+    enabled: !!eventId && activeTab === 'waitlist'
+  });
+  
+  const reorderWaitlistMutation = useMutation({
+    mutationFn: async ({ tierId, entryIds }: { tierId: string; entryIds: string[] }) => {
+      const response = await apiRequest('PATCH', `/api/tickets/events/${eventId}/waitlist/reorder`, { tierId, entryIds });
+      return response.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/events/${eventId}/waitlist`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Reorder Failed",
+        description: error.message || "Could not reorder the waitlist",
+        variant: "destructive"
+      });
+    }
+  });
+  
+  const removeWaitlistEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await apiRequest('DELETE', `/api/tickets/events/${eventId}/waitlist/${entryId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Removed from Waitlist",
+        description: "Any tickets held for this person have been released"
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/tickets/events/${eventId}/waitlist`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Remove Failed",
+        description: error.message || "Could not remove the waitlist entry",
+        variant: "destructive"
+      });
+    }
+  });
+  
+  const waitlistByTier = useMemo(() => {
+    const groups = new Map<string, { tierName: string; entries: WaitlistEntry[] }>();
+    for (const entry of waitlistData?.entries || []) {
+      if (!groups.has(entry.tierId)) {
+        groups.set(entry.tierId, { tierName: entry.tierName, entries: [] });
+      }
+      groups.get(entry.tierId)!.entries.push(entry);
+    }
+    return Array.from(groups.entries());
+  }, [waitlistData]);
+  
+  const moveWaitlistEntry = (tierEntries: WaitlistEntry[], entryId: string, direction: -1 | 1) => {
+    const waiting = tierEntries.filter(e => e.status === 'waiting');
+    const index = waiting.findIndex(e => e.id === entryId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= waiting.length) return;
+    
+    const ids = waiting.map(e => e.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderWaitlistMutation.mutate({ tierId: waiting[index].tierId, entryIds: ids });
+  };
+  
   // Send message mutation
   const sendMessageMutation = useMutation({
     mutationFn: async ({ ticketIds, subject, message }: { ticketIds: string[]; subject: string; message: string }) => {
@@ -497,6 +586,10 @@ export function TicketsAttendeesPageEnhanced() {
       return;
     }
     
+    // One column per checkout question anyone answered
+    const questionColumns = new Map<string, string>();
+    attendeesToExport.forEach(a => (a.answers || []).forEach(answer => questionColumns.set(answer.questionId, answer.label)));
+    
     const data = attendeesToExport.map(a => ({
       'Name': a.buyerName || 'N/A',
       'Email': a.buyerEmail,
@@ -511,7 +604,11 @@ export function TicketsAttendeesPageEnhanced() {
       'Refunded': a.refundedAt ? format(new Date(a.refundedAt), 'yyyy-MM-dd HH:mm:ss') : '',
       'Refund Reason': a.refundReason || '',
       'Notes': a.notes || '',
-      'Tags': (a.tags || []).join(', ')
+      'Tags': (a.tags || []).join(', '),
+      ...Object.fromEntries(Array.from(questionColumns, ([questionId, label]) => [
+        label,
+        (a.answers || []).filter(answer => answer.questionId === questionId).map(answer => answer.value).join('; ')
+      ]))
     }));
     
     const csv = Papa.unparse(data);
@@ -649,6 +746,12 @@ export function TicketsAttendeesPageEnhanced() {
               <TabsTrigger value="bulk" className="data-[state=active]:bg-copper-500 data-[state=active]:text-white">
                 Bulk Actions
               </TabsTrigger>
+              <TabsTrigger value="waitlist" className="data-[state=active]:bg-copper-500 data-[state=active]:text-white" data-testid="tab-waitlist">
+                Waitlist
+              </TabsTrigger>
+              <TabsTrigger value="refunds" className="data-[state=active]:bg-copper-500 data-[state=active]:text-white" data-testid="tab-refunds">
+                Refunds
+              </TabsTrigger>
             </TabsList>
           </div>
           
@@ -934,6 +1037,18 @@ export function TicketsAttendeesPageEnhanced() {
                     </div>
                   </div>
                   
+                  {/* Checkout Answers */}
+                  {attendee.answers && attendee.answers.length > 0 && (
+                    <div className="space-y-1 text-xs" data-testid={`answers-${attendee.ticketId}`}>
+                      {attendee.answers.map((answer, idx) => (
+                        <div key={`${answer.questionId}-${idx}`}>
+                          <span className="text-copper-300">{answer.label}: </span>
+                          <span className="text-white break-words">{answer.value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  
                   {/* Refund Notice - Always Visible for Refunded Tickets */}
                   {attendee.status === 'refunded' && attendee.refundReason && (
                     <div className="p-3 rounded bg-red-500/10 border border-red-500/30">
@@ -1255,6 +1370,117 @@ export function TicketsAttendeesPageEnhanced() {
               </CardContent>
             </Card>
           </TabsContent>
+          
+          <TabsContent value="waitlist" className="space-y-4 mt-4">
+            <Card className="glass-elevated border-copper-500/30">
+              <CardContent className="p-4 md:p-6 space-y-4">
+                <div>
+                  <h3 className="font-fraunces text-xl font-bold text-white">Waitlist</h3>
+                  <p className="text-sm text-copper-300">
+                    When tickets free up, the next person in line is emailed a time-limited offer automatically.
+                  </p>
+                </div>
+                
+                {waitlistLoading ? (
+                  <p className="text-copper-300 text-sm">Loading waitlist...</p>
+                ) : waitlistByTier.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Clock className="h-10 w-10 text-copper-400 mx-auto mb-3" />
+                    <p className="text-copper-300">Nobody is on the waitlist yet</p>
+                  </div>
+                ) : (
+                  waitlistByTier.map(([tierId, { tierName, entries }]) => {
+                    const waitingIds = entries.filter(e => e.status === 'waiting').map(e => e.id);
+                    return (
+                      <div key={tierId} className="space-y-2" data-testid={`waitlist-tier-${tierId}`}>
+                        <div className="flex items-center justify-between">
+                          <h4 className="font-semibold text-white">{tierName}</h4>
+                          <Badge variant="outline" className="border-copper-500/30 text-copper-200">
+                            {waitingIds.length} waiting
+                          </Badge>
+                        </div>
+                        {entries.map(entry => {
+                          const waitingIndex = waitingIds.indexOf(entry.id);
+                          const isOpen = entry.status === 'waiting' || entry.status === 'offered';
+                          return (
+                            <div
+                              key={entry.id}
+                              className="flex items-center gap-3 p-3 rounded-lg bg-black/40 border border-copper-500/20"
+                              data-testid={`waitlist-entry-${entry.id}`}
+                            >
+                              <div className="flex-1 min-w-0">
+                                <div className="font-medium text-white truncate">{entry.name || entry.email}</div>
+                                <div className="text-xs text-copper-300 truncate">
+                                  {entry.name ? `${entry.email} · ` : ''}{entry.quantity} ticket{entry.quantity !== 1 ? 's' : ''} · joined {format(new Date(entry.createdAt), 'MMM d, h:mm a')}
+                                </div>
+                                {entry.status === 'offered' && entry.offerExpiresAt && (
+                                  <div className="text-xs text-yellow-400">
+                                    Offer expires {format(new Date(entry.offerExpiresAt), 'MMM d, h:mm a')}
+                                  </div>
+                                )}
+                              </div>
+                              <Badge className={
+                                entry.status === 'waiting' ? 'bg-copper-500/20 text-copper-200' :
+                                entry.status === 'offered' ? 'bg-yellow-500/20 text-yellow-300' :
+                                entry.status === 'claimed' ? 'bg-green-500/20 text-green-300' :
+                                'bg-gray-500/20 text-gray-300'
+                              }>
+                                {entry.status}
+                              </Badge>
+                              {entry.status === 'waiting' && (
+                                <div className="flex flex-col">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0 text-copper-300 hover:text-white"
+                                    disabled={waitingIndex === 0 || reorderWaitlistMutation.isPending}
+                                    onClick={() => moveWaitlistEntry(entries, entry.id, -1)}
+                                    data-testid={`button-waitlist-up-${entry.id}`}
+                                  >
+                                    <ArrowUp className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 w-6 p-0 text-copper-300 hover:text-white"
+                                    disabled={waitingIndex === waitingIds.length - 1 || reorderWaitlistMutation.isPending}
+                                    onClick={() => moveWaitlistEntry(entries, entry.id, 1)}
+                                    data-testid={`button-waitlist-down-${entry.id}`}
+                                  >
+                                    <ArrowDown className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              )}
+                              {isOpen && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-8 w-8 p-0 text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                  disabled={removeWaitlistEntryMutation.isPending}
+                                  onClick={() => {
+                                    if (confirm(`Remove ${entry.email} from the waitlist?`)) {
+                                      removeWaitlistEntryMutation.mutate(entry.id);
+                                    }
+                                  }}
+                                  data-testid={`button-waitlist-remove-${entry.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
+          <TabsContent value="refunds" className="space-y-4 mt-4">
+            {eventId && <RefundRequestsQueue eventId={eventId} />}
+          </TabsContent>
         </Tabs>
       </div>
       
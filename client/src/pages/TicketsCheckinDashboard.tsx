@@ -11,7 +11,7 @@ import {
   QrCode, Users, CheckCircle2, XCircle, Clock, Search, 
   Download, RefreshCw, Camera, Volume2, VolumeX,
   UserCheck, AlertCircle, TrendingUp, X, Flashlight, CameraOff,
-  List, ArrowLeft, Filter
+  List, ArrowLeft, Filter, WifiOff, CloudDownload, CloudUpload, DoorOpen, LogOut
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -23,6 +23,20 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
+import {
+  loadManifest,
+  saveManifest,
+  loadQueue,
+  saveQueue,
+  getDeviceId,
+  validateOffline,
+  recordOfflineCheckin,
+  type CheckinManifest,
+  type QueuedScan,
+  type ScanSyncResult
+} from "@/lib/offline-checkin";
+import { CheckinStaffManager } from "@/components/CheckinStaffManager";
+import { VoucherRedeemPanel } from "@/components/VoucherRedeemPanel";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import {
@@ -62,6 +76,29 @@ interface CheckInStats {
     buyerName: string;
     buyerEmail: string;
   }>;
+  throughputWindowMinutes?: number;
+  gates?: Array<{
+    gateId: string | null;
+    name: string;
+    checkedIn: number;
+    recentCheckIns: number;
+    perMinute: number;
+    lastCheckInAt: string | null;
+  }>;
+}
+
+interface CheckinOccurrence {
+  id: string;
+  startAt: string;
+  endAt: string | null;
+}
+
+interface ScannerSession {
+  id: string;
+  name: string;
+  eventId: string;
+  gateId: string | null;
+  gateName: string | null;
 }
 
 interface Attendee {
@@ -72,6 +109,7 @@ interface Attendee {
   checkedInAt?: string;
   scannedBy?: string;
   tierName: string;
+  seatLabel?: string | null;
   buyerEmail: string;
   buyerName: string;
   buyerPhone?: string;
@@ -99,6 +137,13 @@ export function TicketsCheckinDashboard() {
   const [scannerStatus, setScannerStatus] = useState<{type: 'error' | 'success' | null, message: string | null}>({type: null, message: null});
   const [lastScannedToken, setLastScannedToken] = useState<{token: string, timestamp: number} | null>(null);
   const [manualValidationStatus, setManualValidationStatus] = useState<{type: 'error' | 'success' | null, message: string | null}>({type: null, message: null});
+  // For a series, the date being checked in - null lets the server pick whichever is on now
+  const [pickedOccurrenceId, setPickedOccurrenceId] = useState<string | null>(null);
+  
+  // Offline check-in: downloaded manifest plus scans waiting to sync
+  const [isOnline, setIsOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+  const [manifest, setManifest] = useState<CheckinManifest | null>(() => eventId ? loadManifest(eventId) : null);
+  const [scanQueue, setScanQueue] = useState<QueuedScan[]>(() => eventId ? loadQueue(eventId) : []);
   
   // ZXing scanner refs
   const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
@@ -133,6 +178,13 @@ export function TicketsCheckinDashboard() {
     staleTime: 300000 // Cache for 5 minutes
   });
   
+  // Door staff sign in with a scanner access code instead of an organizer login
+  const { data: scannerData } = useQuery<{ ok: boolean; scanner: ScannerSession | null }>({
+    queryKey: ['/api/tickets/scanner/me'],
+    staleTime: 60000
+  });
+  const scannerSession = scannerData?.scanner || null;
+  
   // Fetch event details
   const { data: event } = useQuery({
     queryKey: ['/api/tickets/events', eventId],
@@ -140,22 +192,26 @@ export function TicketsCheckinDashboard() {
   });
   
   // Fetch check-in statistics
-  const { data: stats, refetch: refetchStats } = useQuery<{ stats: CheckInStats }>({
-    queryKey: ['/api/tickets/events', eventId, 'checkin-stats'],
+  const { data: stats, refetch: refetchStats } = useQuery<{ stats: CheckInStats; occurrenceId: string | null; occurrences: CheckinOccurrence[] }>({
+    queryKey: ['/api/tickets/events', eventId, 'checkin-stats', pickedOccurrenceId],
     queryFn: async () => {
-      const response = await fetch(`/api/tickets/events/${eventId}/checkin-stats`);
+      const query = pickedOccurrenceId ? `?occurrenceId=${pickedOccurrenceId}` : '';
+      const response = await fetch(`/api/tickets/events/${eventId}/checkin-stats${query}`);
       if (!response.ok) throw new Error('Failed to fetch stats');
       return response.json();
     },
     enabled: !!eventId,
     refetchInterval: 5000 // Auto-refresh every 5 seconds
   });
+  const occurrences = stats?.occurrences || [];
+  const occurrenceId = pickedOccurrenceId || stats?.occurrenceId || undefined;
   
   // Fetch attendees list - fetch when needed
   const { data: attendeesData, refetch: refetchAttendees, isLoading: attendeesLoading } = useQuery<{ attendees: Attendee[] }>({
-    queryKey: ['/api/tickets/events', eventId, 'attendees', filterStatus, manualSearch],
+    queryKey: ['/api/tickets/events', eventId, 'attendees', filterStatus, manualSearch, occurrenceId],
     queryFn: async () => {
       const params = new URLSearchParams();
+      if (occurrenceId) params.append('occurrenceId', occurrenceId);
       if (filterStatus !== 'all') params.append('status', filterStatus);
       if (manualSearch) params.append('search', manualSearch);
       
@@ -170,18 +226,35 @@ export function TicketsCheckinDashboard() {
   // Validate ticket mutation
   const validateMutation = useMutation({
     mutationFn: async (qrToken: string) => {
-      // Use fetch directly to handle 400 responses properly
-      const response = await fetch('/api/tickets/validate-qr', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ qrToken, eventId })
-      });
+      // No connection - check the code against the downloaded manifest instead
+      if (!navigator.onLine && manifest) {
+        return { ...await validateOffline(manifest, qrToken), qrToken };
+      }
+      
+      let response: Response;
+      try {
+        // Use fetch directly to handle 400 responses properly
+        response = await fetch('/api/tickets/validate-qr', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ qrToken, eventId, occurrenceId })
+        });
+      } catch (networkError) {
+        if (manifest) {
+          return { ...await validateOffline(manifest, qrToken), qrToken };
+        }
+        throw networkError;
+      }
       const data = await response.json();
       // Add qrToken to the response for later use in check-in
       return { ...data, qrToken };
     },
     onSuccess: (data: any) => {
+      if (data.revoked) {
+        handleScannerRevoked();
+        return;
+      }
       if (data.ok) {
         // Include qrToken in the stored ticket data
         setLastScannedTicket({ ...data.meta, qrToken: data.qrToken });
@@ -221,6 +294,14 @@ export function TicketsCheckinDashboard() {
             description: `Check-in will be available at ${availableTime} (${data.meta.checkinWindowHours} hours before event)`,
             variant: "default"
           });
+        } else if (data.status === 'wrong_occurrence' && data.meta) {
+          toast({
+            title: "Wrong Date",
+            description: data.meta.actualOccurrenceStartAt
+              ? `This ticket is for ${format(new Date(data.meta.actualOccurrenceStartAt), 'EEE, MMM d · h:mm a')}`
+              : "This ticket is for another date",
+            variant: "destructive"
+          });
         } else if (data.status === 'wrong_event' && data.meta) {
           toast({
             title: "Wrong Event",
@@ -278,15 +359,46 @@ export function TicketsCheckinDashboard() {
     }
   });
   
+  // Check in on this device only and queue the scan for syncing
+  const checkInOffline = async (qrToken: string) => {
+    const userName = (currentUser as any)?.user?.name || (currentUser as any)?.user?.email || 'Staff';
+    const recorded = await recordOfflineCheckin(manifest!, qrToken, userName);
+    const queue = [...scanQueue, recorded.scan];
+    saveManifest(recorded.manifest);
+    saveQueue(eventId!, queue);
+    setManifest(recorded.manifest);
+    setScanQueue(queue);
+    return { ok: true, offline: true };
+  };
+  
   // Check-in mutation
   const checkinMutation = useMutation({
     mutationFn: async (qrToken: string) => {
+      if (!navigator.onLine && manifest) {
+        return checkInOffline(qrToken);
+      }
+      
       const userName = (currentUser as any)?.user?.name || (currentUser as any)?.user?.email || 'Staff';
-      const response = await apiRequest('POST', '/api/tickets/check-in', { qrToken, eventId, checkInBy: userName });
-      return response;
+      try {
+        const response = await apiRequest('POST', '/api/tickets/check-in', { qrToken, eventId, occurrenceId, checkInBy: userName });
+        return response;
+      } catch (error) {
+        // fetch rejects with a TypeError when the network is down; server errors still surface
+        if (error instanceof TypeError && manifest) {
+          return checkInOffline(qrToken);
+        }
+        throw error;
+      }
     },
     onSuccess: (data: any) => {
-      if (data.ok) {
+      if (data.ok && data.offline) {
+        playSound('checkin');
+        toast({
+          title: "Checked In Offline",
+          description: "Saved on this device - it will sync when you're back online"
+        });
+        setLastScannedTicket(null);
+      } else if (data.ok) {
         playSound('checkin');
         toast({
           title: "Check-in Successful",
@@ -306,6 +418,113 @@ export function TicketsCheckinDashboard() {
     }
   });
   
+  // The organizer revoked this device's access code mid-event
+  const handleScannerRevoked = () => {
+    playSound('error');
+    toast({
+      title: "Scanner Revoked",
+      description: "This access code no longer works. Ask the organizer for a new one.",
+      variant: "destructive"
+    });
+    navigate('/tickets/scanner');
+  };
+  
+  const scannerLogoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/tickets/scanner/logout');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tickets/scanner/me'] });
+      navigate('/tickets/scanner');
+    }
+  });
+  
+  // Download the attendee manifest so this device can keep scanning without a connection
+  const downloadManifestMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ deviceId: getDeviceId() });
+      if (occurrenceId) params.set('occurrenceId', occurrenceId);
+      const response = await apiRequest('GET', `/api/tickets/events/${eventId}/checkin-manifest?${params}`);
+      const data = await response.json();
+      return data.manifest as CheckinManifest;
+    },
+    onSuccess: (downloaded) => {
+      saveManifest(downloaded);
+      setManifest(downloaded);
+      toast({
+        title: "Ready for Offline",
+        description: `${downloaded.tickets.length} tickets saved to this device`
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Download Failed",
+        description: "Couldn't download the attendee list for offline use",
+        variant: "destructive"
+      });
+    }
+  });
+  
+  // Push queued offline scans to the server; the earliest scan of a ticket wins
+  const syncMutation = useMutation({
+    mutationFn: async (scans: QueuedScan[]) => {
+      const response = await apiRequest('POST', `/api/tickets/events/${eventId}/checkin-sync`, {
+        deviceId: getDeviceId(),
+        occurrenceId: manifest?.occurrenceId || undefined,
+        scans
+      });
+      const data = await response.json();
+      return data.results as ScanSyncResult[];
+    },
+    onSuccess: (results) => {
+      const synced = new Set(results.map(r => r.scanId));
+      const remaining = loadQueue(eventId!).filter(scan => !synced.has(scan.scanId));
+      saveQueue(eventId!, remaining);
+      setScanQueue(remaining);
+      
+      const duplicates = results.filter(r => r.result === 'duplicate').length;
+      const rejected = results.filter(r => r.result === 'rejected').length;
+      if (duplicates > 0 || rejected > 0) {
+        toast({
+          title: "Offline Scans Synced With Conflicts",
+          description: [
+            duplicates > 0 && `${duplicates} already checked in on another device`,
+            rejected > 0 && `${rejected} rejected (refunded or invalid tickets)`
+          ].filter(Boolean).join(', '),
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Offline Scans Synced",
+          description: `${results.length} check-ins uploaded`
+        });
+      }
+      
+      refetchStats();
+      refetchAttendees();
+      // Pick up check-ins made on other devices
+      if (manifest) downloadManifestMutation.mutate();
+    }
+  });
+  
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+  
+  // Sync automatically once the connection is back
+  useEffect(() => {
+    if (isOnline && scanQueue.length > 0 && !syncMutation.isPending) {
+      syncMutation.mutate(scanQueue);
+    }
+  }, [isOnline, scanQueue.length]);
+  
   // Body scroll lock effect for mobile full-screen
   useEffect(() => {
     if (isMobileFullScreen) {
@@ -538,10 +757,84 @@ export function TicketsCheckinDashboard() {
               </Button>
               <div>
                 <h1 className="text-3xl font-fraunces mb-2">Check-in Dashboard</h1>
-                <p className="text-muted-foreground">{eventTitle}</p>
+                <p className="text-muted-foreground">
+                  {eventTitle}
+                  {scannerSession && ` · ${scannerSession.name}${scannerSession.gateName ? ` at ${scannerSession.gateName}` : ''}`}
+                </p>
               </div>
             </div>
           <div className="flex gap-2">
+            {occurrences.length > 0 && (
+              <Select
+                value={occurrenceId}
+                onValueChange={(value) => {
+                  setPickedOccurrenceId(value);
+                  setLastScannedTicket(null);
+                }}
+              >
+                <SelectTrigger className="w-[220px]" data-testid="select-checkin-occurrence">
+                  <SelectValue placeholder="Pick a date" />
+                </SelectTrigger>
+                <SelectContent>
+                  {occurrences.map(occurrence => (
+                    <SelectItem key={occurrence.id} value={occurrence.id}>
+                      {format(new Date(occurrence.startAt), 'EEE, MMM d · h:mm a')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {scannerSession ? (
+              <Button
+                variant="outline"
+                onClick={() => scannerLogoutMutation.mutate()}
+                data-testid="button-scanner-sign-out"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out
+              </Button>
+            ) : (
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button variant="outline" data-testid="button-door-staff">
+                    <DoorOpen className="h-4 w-4 mr-2" />
+                    Door Staff
+                  </Button>
+                </SheetTrigger>
+                <SheetContent className="overflow-y-auto">
+                  <SheetHeader>
+                    <SheetTitle>Door Staff</SheetTitle>
+                    <SheetDescription>
+                      Set up gates and give each scanner their own access code. Revoke a code to lock that device out immediately.
+                    </SheetDescription>
+                  </SheetHeader>
+                  <div className="mt-6">
+                    <CheckinStaffManager eventId={eventId} />
+                  </div>
+                </SheetContent>
+              </Sheet>
+            )}
+            {scanQueue.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => syncMutation.mutate(scanQueue)}
+                disabled={!isOnline || syncMutation.isPending}
+                data-testid="button-sync-offline-scans"
+              >
+                <CloudUpload className="h-4 w-4 mr-2" />
+                {syncMutation.isPending ? 'Syncing...' : `Sync ${scanQueue.length}`}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => downloadManifestMutation.mutate()}
+              disabled={!isOnline || downloadManifestMutation.isPending}
+              title={manifest ? `Offline list updated ${format(new Date(manifest.generatedAt), 'h:mm a')}` : 'Download attendees for offline check-in'}
+              data-testid="button-download-manifest"
+            >
+              <CloudDownload className="h-4 w-4 mr-2" />
+              {downloadManifestMutation.isPending ? 'Downloading...' : manifest ? 'Update Offline List' : 'Enable Offline'}
+            </Button>
             <Button
               variant="outline"
               onClick={() => setSoundEnabled(!soundEnabled)}
@@ -564,6 +857,17 @@ export function TicketsCheckinDashboard() {
           </div>
         </div>
         
+        {!isOnline && (
+          <Alert className="mb-6" variant={manifest ? 'default' : 'destructive'} data-testid="alert-offline">
+            <WifiOff className="h-4 w-4" />
+            <AlertDescription>
+              {manifest
+                ? `You're offline. Tickets are checked against the list saved on this device (${manifest.tickets.length} tickets, updated ${format(new Date(manifest.generatedAt), 'h:mm a')}). ${scanQueue.length} check-ins will sync when you reconnect.`
+                : "You're offline and this device has no saved attendee list, so tickets can't be checked. Use Enable Offline before doors open next time."}
+            </AlertDescription>
+          </Alert>
+        )}
+        
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
           <Card>
@@ -620,9 +924,41 @@ export function TicketsCheckinDashboard() {
           </Card>
         </div>
         
+        {/* Per-gate throughput */}
+        {stats?.stats?.gates && stats.stats.gates.length > 0 && (
+          <Card className="mb-8" data-testid="card-gate-stats">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <DoorOpen className="h-4 w-4" />
+                Gates
+              </CardTitle>
+              <CardDescription>
+                Throughput over the last {stats.stats.throughputWindowMinutes || 15} minutes
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {stats.stats.gates.map(gate => (
+                  <div key={gate.gateId || 'none'} className="rounded-lg border p-3" data-testid={`gate-stats-${gate.gateId || 'none'}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{gate.name}</span>
+                      <span className="text-sm text-muted-foreground">{gate.perMinute}/min</span>
+                    </div>
+                    <div className="text-2xl font-bold text-green-600">{gate.checkedIn}</div>
+                    <p className="text-xs text-muted-foreground">
+                      {gate.recentCheckIns} recently
+                      {gate.lastCheckInAt && ` · last ${format(new Date(gate.lastCheckInAt), 'h:mm a')}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+        
         {/* Main Content Tabs */}
         <Tabs defaultValue="scanner" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-3 h-auto p-1.5 bg-[#0B0B0F]/80 backdrop-blur-sm border border-white/10 rounded-xl gap-1.5">
+          <TabsList className="grid w-full grid-cols-4 h-auto p-1.5 bg-[#0B0B0F]/80 backdrop-blur-sm border border-white/10 rounded-xl gap-1.5">
             <TabsTrigger 
               value="scanner"
               className="h-12 md:h-14 rounded-lg transition-all duration-300 data-[state=active]:bg-gradient-to-r data-[state=active]:from-[#c0580f] data-[state=active]:to-[#d3541e] data-[state=active]:text-white data-[state=active]:shadow-lg data-[state=active]:shadow-[#c0580f]/30 data-[state=inactive]:text-white/60 data-[state=inactive]:hover:text-white/90 data-[state=inactive]:hover:bg-white/5 font-medium text-sm md:text-base"
@@ -641,6 +977,12 @@ export function TicketsCheckinDashboard() {
             >
               Recent Activity
             </TabsTrigger>
+            <TabsTrigger 
+              value="vouchers"
+              className="h-12 md:h-14 rounded-lg transition-all duration-300 data-[state=active]:bg-gradient-to-r data-[state=active]:from-[#c0580f] data-[state=active]:to-[#d3541e] data-[state=active]:text-white data-[state=active]:shadow-lg data-[state=active]:shadow-[#c0580f]/30 data-[state=inactive]:text-white/60 data-[state=inactive]:hover:text-white/90 data-[state=inactive]:hover:bg-white/5 font-medium text-sm md:text-base"
+            >
+              Vouchers
+            </TabsTrigger>
           </TabsList>
           
           {/* QR Scanner Tab */}
@@ -832,7 +1174,10 @@ export function TicketsCheckinDashboard() {
                                             <p className="text-xs text-white/50">{attendee.buyerEmail}</p>
                                           </div>
                                         </TableCell>
-                                        <TableCell className="text-white/80">{attendee.tierName}</TableCell>
+                                        <TableCell className="text-white/80">
+                                          {attendee.tierName}
+                                          {attendee.seatLabel && <p className="text-xs text-white/50">{attendee.seatLabel}</p>}
+                                        </TableCell>
                                         <TableCell>
                                           {attendee.status === 'used' ? (
                                             <Badge variant="outline" className="bg-[#17C0A9]/20 text-[#17C0A9] border-[#17C0A9]/30">
@@ -1002,6 +1347,9 @@ export function TicketsCheckinDashboard() {
                             <div className="flex-1">
                               <p className="font-bold text-base text-white mb-0.5">{lastScannedTicket.buyerName}</p>
                               <p className="text-xs text-white/80">{lastScannedTicket.tierName} • {lastScannedTicket.serial}</p>
+                              {lastScannedTicket.seatLabel && (
+                                <p className="text-sm font-semibold text-[#17C0A9] mt-1">{lastScannedTicket.seatLabel}</p>
+                              )}
                             </div>
                           </div>
                           <Button
@@ -1223,6 +1571,12 @@ export function TicketsCheckinDashboard() {
                                 <p className="text-xs text-white/50 mb-1">Serial</p>
                                 <p className="font-medium text-white font-mono text-sm">{lastScannedTicket.serial}</p>
                               </div>
+                              {lastScannedTicket.seatLabel && (
+                                <div className="md:col-span-3">
+                                  <p className="text-xs text-white/50 mb-1">Seat</p>
+                                  <p className="font-semibold text-[#17C0A9]">{lastScannedTicket.seatLabel}</p>
+                                </div>
+                              )}
                             </div>
                             
                             {/* Confirm button */}
@@ -1354,14 +1708,16 @@ export function TicketsCheckinDashboard() {
                     </Select>
                     
                     {/* Export Button */}
-                    <Button 
-                      onClick={handleExport} 
-                      className="h-10 md:h-12 w-10 md:w-auto md:px-4 bg-gradient-to-r from-white/5 to-white/[0.02] hover:from-[#c0580f]/20 hover:to-[#d3541e]/20 border border-white/20 hover:border-[#c0580f]/30 text-white rounded-lg md:rounded-xl backdrop-blur-sm transition-all duration-200" 
-                      data-testid="button-export"
-                    >
-                      <Download className="h-3.5 w-3.5 md:h-4 md:w-4 md:mr-2" />
-                      <span className="hidden md:inline">Export</span>
-                    </Button>
+                    {!scannerSession && (
+                      <Button 
+                        onClick={handleExport} 
+                        className="h-10 md:h-12 w-10 md:w-auto md:px-4 bg-gradient-to-r from-white/5 to-white/[0.02] hover:from-[#c0580f]/20 hover:to-[#d3541e]/20 border border-white/20 hover:border-[#c0580f]/30 text-white rounded-lg md:rounded-xl backdrop-blur-sm transition-all duration-200" 
+                        data-testid="button-export"
+                      >
+                        <Download className="h-3.5 w-3.5 md:h-4 md:w-4 md:mr-2" />
+                        <span className="hidden md:inline">Export</span>
+                      </Button>
+                    )}
                   </div>
                 </div>
                 
@@ -1522,7 +1878,10 @@ export function TicketsCheckinDashboard() {
                           <TableRow key={attendee.ticketId} className="border-white/10">
                             <TableCell className="text-white">{attendee.buyerName || 'N/A'}</TableCell>
                             <TableCell className="text-white/80">{attendee.buyerEmail}</TableCell>
-                            <TableCell className="text-white/80">{attendee.tierName}</TableCell>
+                            <TableCell className="text-white/80">
+                              {attendee.tierName}
+                              {attendee.seatLabel && <p className="text-xs text-white/50">{attendee.seatLabel}</p>}
+                            </TableCell>
                             <TableCell>
                               <Badge 
                                 variant={attendee.status === 'used' ? 'default' : 'outline'}
@@ -1644,6 +2003,11 @@ export function TicketsCheckinDashboard() {
               </div>
             </GlassCard>
           </TabsContent>
+          
+          {/* Add-on Vouchers Tab */}
+          <TabsContent value="vouchers" className="space-y-4">
+            <VoucherRedeemPanel eventId={eventId} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -15,6 +15,7 @@ interface CheckinResult {
     id: string;
     serial: string;
     tierName: string;
+    seatLabel?: string | null;
     eventTitle: string;
     buyerName: string;
     buyerEmail: string;
@@ -107,6 +108,8 @@ export function TicketsCheckinPage() {
         return <Badge variant="secondary">Already Used</Badge>;
       case 'refunded':
         return <Badge variant="outline">Refunded</Badge>;
+      case 'blocked':
+        return <Badge variant="destructive">Blocked</Badge>;
       case 'invalid':
         return <Badge variant="destructive">Invalid</Badge>;
       default:
@@ -207,6 +210,12 @@ export function TicketsCheckinPage() {
                         <span className="font-medium">Tier:</span>
                         <span className="ml-2">{lastResult.ticket.tierName}</span>
                       </div>
+                      {lastResult.ticket.seatLabel && (
+                        <div>
+                          <span className="font-medium">Seat:</span>
+                          <span className="ml-2">{lastResult.ticket.seatLabel}</span>
+                        </div>
+                      )}
                       <div>
                         <span className="font-medium">Buyer:</span>
                         <span className="ml-2">{lastResult.ticket.buyerName}</span>
@@ -13,6 +13,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { useToast } from "@/hooks/use-toast";
+import { getTaxRule, describeTax } from "@shared/tax-rules";
 import { 
   ArrowLeft, 
   Plus, 
@@ -52,8 +53,7 @@ interface EventCreateForm {
   };
   taxSettings: {
     collectTax: boolean;
-    gstPercent: number;
-    pstPercent: number;
+    taxInclusive: boolean;
   };
 }
 
@@ -97,8 +97,7 @@ export function TicketsEventCreatePage() {
     },
     taxSettings: {
       collectTax: true,
-      gstPercent: 5,
-      pstPercent: 7
+      taxInclusive: false
     }
   });
 
@@ -1054,7 +1053,7 @@ export function TicketsEventCreatePage() {
                   <div className="flex items-center justify-between p-4 glass-card rounded-lg">
                     <div>
                       <Label className="text-neutral-200 font-medium">Collect Tax</Label>
-                      <p className="text-sm text-neutral-500">Automatically add taxes to ticket prices</p>
+                      <p className="text-sm text-neutral-500">Charge GST/HST and provincial sales tax on tickets</p>
                     </div>
                     <Switch
                       checked={form.taxSettings.collectTax}
@@ -1067,51 +1066,28 @@ export function TicketsEventCreatePage() {
                   </div>
 
                   {form.taxSettings.collectTax && (
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 animate-slideUp">
-                      <div className="space-y-2">
-                        <Label className="text-neutral-200 font-medium">
-                          GST/HST %
-                        </Label>
-                        <div className="relative">
-                          <Input
-                            type="number"
-                            min="0"
-                            max="15"
-                            step="0.1"
-                            value={form.taxSettings.gstPercent}
-                            onChange={(e) => setForm(prev => ({ 
-                              ...prev, 
-                              taxSettings: { ...prev.taxSettings, gstPercent: parseFloat(e.target.value) || 0 } 
-                            }))}
-                            className="h-12 pr-10 bg-charcoal-900/60 border-charcoal-700 
-                                     focus:border-copper-500 text-white"
-                            data-testid="input-gst"
-                          />
-                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-neutral-500">%</span>
-                        </div>
+                    <div className="space-y-4 animate-slideUp">
+                      <div className="p-4 glass-card rounded-lg" data-testid="text-tax-rates">
+                        <Label className="text-neutral-200 font-medium">Rates for {form.province}</Label>
+                        <p className="text-sm text-neutral-400 mt-1">
+                          {getTaxRule(form.province, form.taxSettings).components.map(describeTax).join(' + ') || 'No sales tax'}
+                        </p>
+                        <p className="text-xs text-neutral-500 mt-1">Set by the event's province and applied at checkout</p>
                       </div>
 
-                      <div className="space-y-2">
-                        <Label className="text-neutral-200 font-medium">
-                          PST/QST %
-                        </Label>
-                        <div className="relative">
-                          <Input
-                            type="number"
-                            min="0"
-                            max="15"
-                            step="0.1"
-                            value={form.taxSettings.pstPercent}
-                            onChange={(e) => setForm(prev => ({ 
-                              ...prev, 
-                              taxSettings: { ...prev.taxSettings, pstPercent: parseFloat(e.target.value) || 0 } 
-                            }))}
-                            className="h-12 pr-10 bg-charcoal-900/60 border-charcoal-700 
-                                     focus:border-copper-500 text-white"
-                            data-testid="input-pst"
-                          />
-                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-neutral-500">%</span>
+                      <div className="flex items-center justify-between p-4 glass-card rounded-lg">
+                        <div>
+                          <Label className="text-neutral-200 font-medium">Prices Include Tax</Label>
+                          <p className="text-sm text-neutral-500">Ticket prices are what buyers pay, with tax taken out of them</p>
                         </div>
+                        <Switch
+                          checked={form.taxSettings.taxInclusive}
+                          onCheckedChange={(checked) => setForm(prev => ({ 
+                            ...prev, 
+                            taxSettings: { ...prev.taxSettings, taxInclusive: checked } 
+                          }))}
+                          data-testid="switch-tax-inclusive"
+                        />
                       </div>
                     </div>
                   )}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useParams } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Calendar, MapPin, Clock, Users, Tag, ShoppingCart, Info, ChevronRight } from "lucide-react";
@@ -6,14 +6,26 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorText } from "@/lib/queryClient";
 import EmbeddedCheckout from "@/components/EmbeddedCheckout";
+import SeatPicker, { type SeatMapData, type SeatMapSeat } from "@/components/SeatPicker";
+import { ResaleMarketplace } from "@/components/ResaleMarketplace";
+import { getTaxRule, calculateTax, describeTax, type TaxSettings } from "@shared/tax-rules";
 
 interface Tier {
   id: string;
@@ -27,6 +39,57 @@ interface Tier {
   maxPerOrder: number;
   minPerOrder: number;
   showRemaining: boolean;
+  seriesPass?: boolean;
+  kind?: 'admission' | 'addon';
+  ticketsPerUnit?: number;
+  addonFulfillment?: 'none' | 'voucher' | null;
+  taxable?: boolean;
+  pricePhase?: PricePhase;
+}
+
+// Entry tickets one unit of a tier issues: bundles issue several, add-ons none
+const ticketsPerUnit = (tier: Tier | undefined) =>
+  !tier || tier.kind === 'addon' ? 0 : Math.max(1, tier.ticketsPerUnit ?? 1);
+
+// Where a tier is on its pricing schedule (early bird -> regular -> door)
+interface PricePhase {
+  priceCents: number;
+  label: string | null;
+  step: number;
+  next: {
+    priceCents: number;
+    label: string | null;
+    startsAt: string | null;
+    remainingAtPrice: number | null;
+  } | null;
+}
+
+// The price in effect right now
+const currentPrice = (tier: Tier) => tier.pricePhase?.priceCents ?? tier.priceCents;
+
+function formatCountdown(ms: number): string {
+  const minutes = Math.max(1, Math.floor(ms / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+// "Price goes up to $45.00 in 2d 4h" - or null when this is the tier's last price
+function describeNextPrice(tier: Tier, now: number): string | null {
+  const next = tier.pricePhase?.next;
+  if (!next) return null;
+
+  const price = `$${(next.priceCents / 100).toFixed(2)}`;
+  const msLeft = next.startsAt ? new Date(next.startsAt).getTime() - now : null;
+  const timePart = msLeft !== null && msLeft > 0 ? `in ${formatCountdown(msLeft)}` : null;
+  const soldPart = next.remainingAtPrice !== null && next.remainingAtPrice > 0
+    ? `after ${next.remainingAtPrice} more ticket${next.remainingAtPrice !== 1 ? 's' : ''}`
+    : null;
+
+  if (!timePart && !soldPart) return `Price goes up to ${price} soon`;
+  return `Price goes up to ${price} ${[timePart, soldPart].filter(Boolean).join(' or ')}`;
 }
 
 interface FeeStructure {
@@ -37,12 +100,6 @@ interface FeeStructure {
   serviceFeePercent?: number; // Legacy field for backwards compatibility
 }
 
-interface TaxSettings {
-  collectTax: boolean;
-  gstPercent: number;
-  pstPercent: number;
-}
-
 interface Event {
   id: string;
   slug: string;
@@ -60,9 +117,33 @@ interface Event {
   organizerId: string;
   refundPolicy: string | null;
   taxSettings?: TaxSettings | null;
-  hasGST?: boolean; // Legacy fallback
-  hasPST?: boolean; // Legacy fallback
   feeStructure: FeeStructure | null;
+  isSeries?: boolean;
+  occurrences?: EventOccurrence[];
+  questions?: CheckoutQuestion[];
+  resaleEnabled?: boolean;
+}
+
+// An organizer's extra question, asked once per order or for each ticket
+interface CheckoutQuestion {
+  id: string;
+  label: string;
+  helpText: string | null;
+  type: 'text' | 'textarea' | 'select' | 'checkbox' | 'number';
+  options: string[] | null;
+  required: boolean;
+  appliesTo: 'order' | 'ticket';
+  tierIds: string[] | null;
+}
+
+type AnswerValues = Record<string, string | boolean>;
+
+// One upcoming date of a series, with dated tickets already sold per tier
+interface EventOccurrence {
+  id: string;
+  startAt: string;
+  endAt: string | null;
+  soldByTier: Record<string, number>;
 }
 
 interface Organizer {
@@ -73,6 +154,91 @@ interface Organizer {
 interface CartItem {
   tierId: string;
   quantity: number;
+  seatIds?: string[];
+}
+
+function isAnswered(question: CheckoutQuestion, value: string | boolean | undefined) {
+  return question.type === 'checkbox' ? value === true : typeof value === 'string' && value.trim() !== '';
+}
+
+function QuestionField({ question, value, onChange, testId }: {
+  question: CheckoutQuestion;
+  value: string | boolean | undefined;
+  onChange: (value: string | boolean) => void;
+  testId: string;
+}) {
+  const label = (
+    <>
+      {question.label}
+      {question.required ? ' *' : <span className="text-gray-500"> (optional)</span>}
+    </>
+  );
+  const help = question.helpText && <p className="text-xs text-gray-400 mt-1">{question.helpText}</p>;
+
+  if (question.type === 'checkbox') {
+    return (
+      <div>
+        <label className="flex items-start gap-2 text-gray-300 text-sm md:text-base">
+          <Checkbox
+            checked={value === true}
+            onCheckedChange={(checked) => onChange(checked === true)}
+            className="mt-1"
+            data-testid={testId}
+          />
+          <span>{label}</span>
+        </label>
+        {help}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Label className="text-gray-300 mb-2 block font-medium text-sm md:text-base">{label}</Label>
+      {question.type === 'select' ? (
+        <Select value={typeof value === 'string' ? value : ''} onValueChange={onChange}>
+          <SelectTrigger className="premium-input mobile-form-input" data-testid={testId}>
+            <SelectValue placeholder="Choose one" />
+          </SelectTrigger>
+          <SelectContent>
+            {(question.options || []).map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : question.type === 'textarea' ? (
+        <Textarea
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          maxLength={2000}
+          className="premium-input mobile-form-input"
+          data-testid={testId}
+        />
+      ) : (
+        <Input
+          type={question.type === 'number' ? 'number' : 'text'}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={question.type === 'text' ? 2000 : undefined}
+          className="premium-input mobile-form-input"
+          data-testid={testId}
+        />
+      )}
+      {help}
+    </div>
+  );
+}
+
+interface WaitlistOffer {
+  eventId: string;
+  tierId: string;
+  occurrenceId: string | null;
+  quantity: number;
+  email: string;
+  name: string | null;
+  phone: string | null;
+  offerExpiresAt: string;
 }
 
 export function TicketsEventDetailPage() {
@@ -80,15 +246,41 @@ export function TicketsEventDetailPage() {
   const { toast } = useToast();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [discountCode, setDiscountCode] = useState("");
+  const [appliedDiscount, setAppliedDiscount] = useState<{ code: string; amountCents: number } | null>(null);
+  const [discountError, setDiscountError] = useState<string | null>(null);
   const [buyerName, setBuyerName] = useState("");
   const [buyerEmail, setBuyerEmail] = useState("");
   const [buyerPhone, setBuyerPhone] = useState("");
+  const [orderAnswers, setOrderAnswers] = useState<AnswerValues>({});
+  const [ticketAnswers, setTicketAnswers] = useState<Record<string, AnswerValues>>({}); // keyed by `${tierId}:${ticketIndex}`
   const [isCheckingOut, setIsCheckingOut] = useState(false);
   const [showEmbeddedCheckout, setShowEmbeddedCheckout] = useState(false);
   const [paymentClientSecret, setPaymentClientSecret] = useState<string | null>(null);
   const [currentOrderId, setCurrentOrderId] = useState<string | null>(null);
   const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
   const [tierErrors, setTierErrors] = useState<Record<string, string>>({});
+  const [waitlistTierId, setWaitlistTierId] = useState<string | null>(null);
+  const [waitlistEmail, setWaitlistEmail] = useState("");
+  const [waitlistName, setWaitlistName] = useState("");
+  const [waitlistQuantity, setWaitlistQuantity] = useState(1);
+  const [waitlistPositions, setWaitlistPositions] = useState<Record<string, number>>({});
+  const [selectedSeats, setSelectedSeats] = useState<SeatMapSeat[]>([]);
+  const [pickedOccurrenceId, setPickedOccurrenceId] = useState<string | null>(null);
+  
+  // Claim link from a waitlist offer email (?waitlist=<token>)
+  const [waitlistToken] = useState(() => new URLSearchParams(window.location.search).get('waitlist'));
+
+  // Promoter link (?ref=<code>) - remembered per event so the sale is still
+  // credited if the buyer comes back later without the link
+  const [referralCode] = useState(() => {
+    const storageKey = `tickets_ref_${slug}`;
+    const ref = new URLSearchParams(window.location.search).get('ref');
+    if (ref) {
+      localStorage.setItem(storageKey, ref);
+      return ref;
+    }
+    return localStorage.getItem(storageKey);
+  });
 
   // Email validation helper
   const isValidEmail = (email: string) => {
@@ -108,6 +300,131 @@ export function TicketsEventDetailPage() {
     enabled: isEnabled && !!slug
   });
 
+  // Reserved-seating events have a seat map; GA events return seatMap: null
+  const { data: seatMapData, refetch: refetchSeatMap } = useQuery<{
+    ok: boolean;
+    seatMap: SeatMapData | null;
+    seats: SeatMapSeat[];
+  }>({
+    queryKey: [`/api/tickets/events/${data?.event.id}/seat-map`],
+    enabled: isEnabled && !!data?.event.id
+  });
+  const seatMap = seatMapData?.seatMap || null;
+  const seatedTierIds = new Set(seatMap ? seatMap.zones.map(z => z.tierId) : []);
+  
+  // Attach picked seats to reserved-seating items before sending the cart
+  const getCheckoutItems = () => cart.map(item =>
+    seatedTierIds.has(item.tierId)
+      ? { ...item, seatIds: selectedSeats.filter(s => s.tierId === item.tierId).map(s => s.id) }
+      : item
+  );
+
+  // Custom questions: order ones once, ticket ones for every ticket of the tiers they apply to
+  const questions = data?.event.questions || [];
+  const orderQuestions = questions.filter(q => q.appliesTo === 'order');
+  const ticketQuestionsFor = (tierId: string) => questions.filter(q =>
+    q.appliesTo === 'ticket' && (!q.tierIds || q.tierIds.length === 0 || q.tierIds.includes(tierId))
+  );
+  const questionTickets = cart.flatMap(item =>
+    ticketQuestionsFor(item.tierId).length > 0
+      ? Array.from({ length: item.quantity * ticketsPerUnit(data?.event.tiers.find(t => t.id === item.tierId)) }, (_, index) => ({ tierId: item.tierId, index, key: `${item.tierId}:${index}` }))
+      : []
+  );
+  
+  const getCheckoutAnswers = () => questions.length === 0 ? undefined : {
+    order: orderAnswers,
+    tickets: questionTickets.map(ticket => ({ tierId: ticket.tierId, answers: ticketAnswers[ticket.key] || {} }))
+  };
+  
+  const hasMissingAnswers = () =>
+    orderQuestions.some(q => q.required && !isAnswered(q, orderAnswers[q.id])) ||
+    questionTickets.some(ticket => ticketQuestionsFor(ticket.tierId).some(q => q.required && !isAnswered(q, ticketAnswers[ticket.key]?.[q.id])));
+
+  // Series events sell tickets for one date at a time - the next date unless the buyer picks another
+  const occurrences = data?.event.occurrences || [];
+  const selectedOccurrence = occurrences.find(o => o.id === pickedOccurrenceId) || occurrences[0] || null;
+
+  const { data: waitlistOfferData, error: waitlistOfferError } = useQuery<{
+    ok: boolean;
+    offer: WaitlistOffer;
+  }>({
+    queryKey: [`/api/tickets/waitlist/claim/${waitlistToken}`],
+    enabled: isEnabled && !!waitlistToken
+  });
+  const waitlistOffer = waitlistOfferData?.offer && waitlistOfferData.offer.eventId === data?.event.id
+    ? waitlistOfferData.offer
+    : null;
+
+  // Prefill the buyer details and held tickets when claiming a waitlist offer
+  useEffect(() => {
+    if (!waitlistOffer) return;
+    setCart([{ tierId: waitlistOffer.tierId, quantity: waitlistOffer.quantity }]);
+    // The held seats are for the date they joined the waitlist for
+    if (waitlistOffer.occurrenceId) setPickedOccurrenceId(waitlistOffer.occurrenceId);
+    setBuyerEmail(waitlistOffer.email);
+    if (waitlistOffer.name) setBuyerName(waitlistOffer.name);
+    if (waitlistOffer.phone) setBuyerPhone(waitlistOffer.phone);
+  }, [waitlistOffer?.tierId, waitlistOffer?.quantity, waitlistOffer?.email]);
+
+  // Ticks the "price goes up in..." countdowns
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // A checked discount no longer holds once the code or the cart changes
+  useEffect(() => {
+    setAppliedDiscount(null);
+    setDiscountError(null);
+  }, [discountCode, cart]);
+
+  const applyDiscountMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/tickets/discounts/validate', {
+        eventId: data?.event.id,
+        code: discountCode,
+        items: cart.length > 0 ? cart.map(item => ({ tierId: item.tierId, quantity: item.quantity })) : undefined
+      });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      setAppliedDiscount({ code: result.discount.code, amountCents: result.discountAmountCents });
+    },
+    onError: (error: Error) => {
+      setDiscountError(errorText(error) || "Couldn't check this discount code");
+    }
+  });
+
+  const joinWaitlistMutation = useMutation({
+    mutationFn: async (tierId: string) => {
+      if (!isValidEmail(waitlistEmail)) throw new Error("Please enter a valid email address");
+      
+      const response = await apiRequest('POST', `/api/tickets/events/${data?.event.id}/tiers/${tierId}/waitlist`, {
+        email: waitlistEmail,
+        name: waitlistName || undefined,
+        quantity: waitlistQuantity,
+        occurrenceId: selectedOccurrence?.id
+      });
+      return { tierId, result: await response.json() };
+    },
+    onSuccess: ({ tierId, result }) => {
+      setWaitlistPositions(prev => ({ ...prev, [tierId]: result.position }));
+      setWaitlistTierId(null);
+      toast({
+        title: result.alreadyJoined ? "You're already on the waitlist" : "You're on the waitlist",
+        description: `You're #${result.position} in line. We'll email you if tickets become available.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't join the waitlist",
+        description: errorText(error),
+        variant: "destructive"
+      });
+    }
+  });
+
   // Embedded Payment Intent mutation
   const paymentIntentMutation = useMutation({
     mutationFn: async () => {
@@ -117,11 +434,15 @@ export function TicketsEventDetailPage() {
       
       const response = await apiRequest('POST', '/api/tickets/checkout/payment-intent', {
         eventId: data?.event.id,
-        items: cart,
+        items: getCheckoutItems(),
         buyerEmail,
         buyerName,
         buyerPhone,
-        discountCode: discountCode || undefined
+        discountCode: discountCode || undefined,
+        waitlistToken: waitlistOffer ? waitlistToken : undefined,
+        ref: referralCode || undefined,
+        occurrenceId: selectedOccurrence?.id,
+        answers: getCheckoutAnswers()
       });
       
       const result = await response.json();
@@ -170,6 +491,8 @@ export function TicketsEventDetailPage() {
       
       // Extract user-friendly error message
       let errorMessage = "We couldn't complete your checkout. Please try again.";
+      let soldOutTierId: string | null = null;
+      let seatConflict = false;
       const tierErrorsFromBackend: Record<string, string> = {};
       
       try {
@@ -182,6 +505,10 @@ export function TicketsEventDetailPage() {
         if (cleanedMessage.startsWith('{')) {
           try {
             const errorData = JSON.parse(cleanedMessage);
+            if (errorData.waitlistAvailable && errorData.soldOutTierId) {
+              soldOutTierId = errorData.soldOutTierId;
+            }
+            seatConflict = !!errorData.seatConflict;
             // Extract error message from various structures
             if (typeof errorData.error === 'string') {
               errorMessage = errorData.error;
@@ -204,8 +531,31 @@ export function TicketsEventDetailPage() {
         console.warn('Error parsing error message:', e);
       }
       
+      // Someone else got a picked seat first - refresh the map so they can choose again
+      if (seatConflict) {
+        setSelectedSeats([]);
+        setCart(cart.filter(i => !seatedTierIds.has(i.tierId)));
+        refetchSeatMap();
+        toast({
+          title: "Seats no longer available",
+          description: errorMessage,
+          variant: "destructive"
+        });
+      }
+      // Tier sold out while the buyer was checking out - point them at the waitlist
+      else if (soldOutTierId) {
+        setTierErrors({ [soldOutTierId]: "These tickets just sold out. Join the waitlist to be offered any that free up." });
+        setWaitlistTierId(soldOutTierId);
+        if (buyerEmail) setWaitlistEmail(buyerEmail);
+        if (buyerName) setWaitlistName(buyerName);
+        toast({
+          title: "Tickets sold out",
+          description: errorMessage,
+          variant: "destructive"
+        });
+      }
       // Handle "Not enough tickets" errors with inline display
-      if (errorMessage.includes("Not enough tickets available for")) {
+      else if (errorMessage.includes("Not enough tickets available for")) {
         const tierNameMatch = errorMessage.match(/for '([^']+)'/);
         if (tierNameMatch && tierNameMatch[1]) {
           const tierName = tierNameMatch[1];
@@ -241,11 +591,15 @@ export function TicketsEventDetailPage() {
       
       const response = await apiRequest('POST', '/api/tickets/checkout/session', {
         eventId: data?.event.id,
-        items: cart,
+        items: getCheckoutItems(),
         buyerEmail,
         buyerName,
         buyerPhone,
         discountCode: discountCode || undefined,
+        waitlistToken: waitlistOffer ? waitlistToken : undefined,
+        ref: referralCode || undefined,
+        occurrenceId: selectedOccurrence?.id,
+        answers: getCheckoutAnswers(),
         returnUrl: window.location.origin + `/tickets/order/success`
       });
       
@@ -368,45 +722,57 @@ export function TicketsEventDetailPage() {
     }
   };
 
+  const toggleSeat = (seat: SeatMapSeat) => {
+    const isSelected = selectedSeats.some(s => s.id === seat.id);
+    const tier = event.tiers.find(t => t.id === seat.tierId);
+    const tierSeatCount = selectedSeats.filter(s => s.tierId === seat.tierId).length;
+    
+    if (!isSelected && tier?.maxPerOrder && tierSeatCount >= tier.maxPerOrder) {
+      toast({
+        title: "Seat limit reached",
+        description: `Maximum ${tier.maxPerOrder} ${tier.name} seat${tier.maxPerOrder !== 1 ? 's' : ''} per order.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    const next = isSelected ? selectedSeats.filter(s => s.id !== seat.id) : [...selectedSeats, seat];
+    setSelectedSeats(next);
+    updateTierQuantity(seat.tierId, next.filter(s => s.tierId === seat.tierId).length);
+  };
+
   const getTierAvailability = (tier: Tier) => {
     if (!tier.capacity) return { available: true, remaining: null };
-    const remaining = tier.capacity - tier.soldCount;
+    // Tickets held for this buyer's waitlist offer are theirs to buy
+    if (waitlistOffer?.tierId === tier.id) {
+      return { available: true, remaining: waitlistOffer.quantity };
+    }
+    // Dated tiers have their full capacity on every date of a series; add-ons are shared by all dates
+    const sold = selectedOccurrence && !tier.seriesPass && tier.kind !== 'addon'
+      ? selectedOccurrence.soldByTier[tier.id] || 0
+      : tier.soldCount;
+    const remaining = tier.capacity - sold;
     return { available: remaining > 0, remaining };
   };
 
   const calculateSubtotal = () => {
     return cart.reduce((sum, item) => {
       const tier = event.tiers.find(t => t.id === item.tierId);
-      return sum + (tier ? tier.priceCents * item.quantity : 0);
+      return sum + (tier ? currentPrice(tier) * item.quantity : 0);
     }, 0);
   };
 
-  const getTaxInfo = () => {
-    // Prefer taxSettings from database, fallback to legacy hasGST/hasPST
-    if (event.taxSettings && event.taxSettings.collectTax) {
-      return {
-        hasGST: event.taxSettings.gstPercent > 0,
-        hasPST: event.taxSettings.pstPercent > 0,
-        gstRate: event.taxSettings.gstPercent / 100,
-        pstRate: event.taxSettings.pstPercent / 100
-      };
-    }
-    // Legacy fallback
-    return {
-      hasGST: event.hasGST ?? false,
-      hasPST: event.hasPST ?? false,
-      gstRate: 0.05,
-      pstRate: 0.07
-    };
-  };
-
-  const taxInfo = getTaxInfo();
+  // Same rules the server charges by - see shared/tax-rules
+  const taxRule = getTaxRule(event.province, event.taxSettings);
 
-  const calculateTax = (subtotal: number) => {
-    let tax = 0;
-    if (taxInfo.hasGST) tax += subtotal * taxInfo.gstRate;
-    if (taxInfo.hasPST) tax += subtotal * taxInfo.pstRate;
-    return Math.round(tax);
+  // Mirrors the server: the discount is spread over the cart by value and tax-exempt tiers keep their share
+  const calculateTaxableBase = (subtotal: number, discountCents: number) => {
+    const taxableGross = cart.reduce((sum, item) => {
+      const tier = event.tiers.find(t => t.id === item.tierId);
+      return sum + (tier && tier.taxable !== false ? currentPrice(tier) * item.quantity : 0);
+    }, 0);
+    if (subtotal === 0) return 0;
+    return taxableGross - Math.floor(discountCents * taxableGross / subtotal);
   };
 
   const calculateFees = (subtotal: number) => {
@@ -433,9 +799,13 @@ export function TicketsEventDetailPage() {
   };
 
   const subtotal = calculateSubtotal();
-  const tax = calculateTax(subtotal);
-  const fees = calculateFees(subtotal);
-  const total = subtotal + tax + fees;
+  const discountCents = Math.min(appliedDiscount?.amountCents || 0, subtotal);
+  const fees = calculateFees(subtotal - discountCents);
+  const taxResult = calculateTax(taxRule, calculateTaxableBase(subtotal, discountCents), fees);
+  const tax = taxResult.taxCents;
+  const taxLabel = taxResult.breakdown.components.map(describeTax).join(' + ');
+  // Tax-inclusive prices already hold the tax, so it's shown but not added
+  const total = subtotal - discountCents + fees + (taxRule.inclusive ? 0 : tax);
 
   const handleCheckout = () => {
     console.log('[EmbeddedCheckout] handleCheckout called, cart:', cart);
@@ -450,8 +820,11 @@ export function TicketsEventDetailPage() {
       if (!tier) continue;
       
       const { available, remaining } = getTierAvailability(tier);
+      const seatCount = selectedSeats.filter(s => s.tierId === item.tierId).length;
       
-      if (!available) {
+      if (seatedTierIds.has(item.tierId) && seatCount !== item.quantity) {
+        errors[item.tierId] = `Please pick ${item.quantity} seat${item.quantity !== 1 ? 's' : ''} for ${tier.name} on the seat map.`;
+      } else if (!available) {
         errors[item.tierId] = `Sorry, ${tier.name} is sold out.`;
       } else if (remaining !== null && item.quantity > remaining) {
         errors[item.tierId] = `Only ${remaining} ticket${remaining !== 1 ? 's' : ''} available for ${tier.name}. Please lower your quantity.`;
@@ -471,6 +844,15 @@ export function TicketsEventDetailPage() {
       return;
     }
     
+    if (hasMissingAnswers()) {
+      toast({
+        title: "A few more details needed",
+        description: "Please answer the required questions before checking out.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
     setIsCheckingOut(true);
     
     // Use embedded checkout by default, fallback to hosted checkout if needed
@@ -486,6 +868,8 @@ export function TicketsEventDetailPage() {
     setBuyerName("");
     setBuyerEmail("");
     setBuyerPhone("");
+    setOrderAnswers({});
+    setTicketAnswers({});
     setDiscountCode("");
     setShowEmbeddedCheckout(false);
     
@@ -515,9 +899,16 @@ export function TicketsEventDetailPage() {
     });
   };
 
+  // Admission tiers first, add-ons listed after them
+  const displayTiers = [
+    ...event.tiers.filter(tier => tier.kind !== 'addon'),
+    ...event.tiers.filter(tier => tier.kind === 'addon')
+  ];
+  const firstAddonIndex = displayTiers.findIndex(tier => tier.kind === 'addon');
+
   // Get the lowest tier price for hero display
   const getStartingPrice = () => {
-    const prices = event.tiers.map(tier => tier.priceCents);
+    const prices = displayTiers.filter(tier => tier.kind !== 'addon').map(tier => currentPrice(tier));
     return Math.min(...prices);
   };
 
@@ -743,7 +1134,7 @@ export function TicketsEventDetailPage() {
                         <h4 className="font-semibold text-white text-sm">Tickets</h4>
                       </div>
                       <div className="text-sm text-gray-300 space-y-1">
-                        <p>From ${Math.min(...event.tiers.map(t => t.priceCents)) / 100}</p>
+                        <p>From ${startingPrice / 100}</p>
                         <p>{event.tiers.length} tier{event.tiers.length > 1 ? 's' : ''} available</p>
                       </div>
                     </div>
@@ -762,15 +1153,70 @@ export function TicketsEventDetailPage() {
                 <h2 className="text-2xl md:text-3xl font-fraunces font-bold text-white mb-2">Select Your Tickets</h2>
                 <p className="text-gray-400 text-base md:text-lg">Choose from our premium ticket tiers</p>
               </div>
-              
+
+              {/* Waitlist offer banner */}
+              {waitlistOffer && (
+                <Alert className="bg-green-900/20 border-green-500/30" data-testid="alert-waitlist-offer">
+                  <AlertDescription className="text-green-300">
+                    Good news! {waitlistOffer.quantity} ticket{waitlistOffer.quantity !== 1 ? 's are' : ' is'} being held for you
+                    until {format(new Date(waitlistOffer.offerExpiresAt), "EEE, MMM d 'at' h:mm a")}. Complete checkout below to claim {waitlistOffer.quantity !== 1 ? 'them' : 'it'}.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {waitlistToken && waitlistOfferError && (
+                <Alert variant="destructive" data-testid="alert-waitlist-expired">
+                  <AlertDescription>
+                    This waitlist offer has expired or was already claimed.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Date picker for series events */}
+              {event.isSeries && (
+                occurrences.length === 0 ? (
+                  <Alert data-testid="alert-no-upcoming-dates">
+                    <AlertDescription>There are no upcoming dates for this event right now.</AlertDescription>
+                  </Alert>
+                ) : (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Pick a date</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {occurrences.map(occurrence => (
+                        <Button
+                          key={occurrence.id}
+                          variant={selectedOccurrence?.id === occurrence.id ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => {
+                            setPickedOccurrenceId(occurrence.id);
+                            setTierErrors({});
+                          }}
+                          data-testid={`button-occurrence-${occurrence.id}`}
+                        >
+                          {format(new Date(occurrence.startAt), 'EEE, MMM d · h:mm a')}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )
+              )}
+
               <div className="space-y-4">
-                {event.tiers.map((tier, index) => {
+                {displayTiers.map((tier, index) => {
                   const { available, remaining } = getTierAvailability(tier);
                   const quantity = getTierQuantity(tier.id);
+                  const isAddon = tier.kind === 'addon';
+                  const bundleSize = ticketsPerUnit(tier);
                   
                   return (
+                    <div key={tier.id}>
+                    {isAddon && index === firstAddonIndex && (
+                      <div className="pt-2 pb-2" data-testid="heading-addons">
+                        <h3 className="text-lg font-semibold text-white">Add-ons</h3>
+                        <p className="text-sm text-gray-400">Extras bought together with your tickets</p>
+                      </div>
+                    )}
                     <div 
-                      key={tier.id}
+
                       className={`premium-tier-card ${!available ? "premium-tier-sold-out" : ""} premium-slide-up`}
                       style={{ animationDelay: `${index * 100}ms` }}
                       data-testid={`card-tier-${tier.id}`}
@@ -780,6 +1226,15 @@ export function TicketsEventDetailPage() {
                         <div className="flex-1">
                           <div className="flex items-center gap-3 mb-2">
                             <h3 className="text-lg md:text-xl font-fraunces font-bold text-white">{tier.name}</h3>
+                            {event.isSeries && tier.seriesPass && (
+                              <Badge variant="secondary" data-testid={`badge-series-pass-${tier.id}`}>All dates</Badge>
+                            )}
+                            {bundleSize > 1 && (
+                              <Badge variant="secondary" data-testid={`badge-bundle-${tier.id}`}>Admits {bundleSize}</Badge>
+                            )}
+                            {isAddon && tier.addonFulfillment === 'voucher' && (
+                              <Badge variant="secondary" data-testid={`badge-voucher-${tier.id}`}>Voucher at the venue</Badge>
+                            )}
                             {tier.showRemaining !== false && remaining !== null && remaining < 10 && remaining > 0 && (
                               <div className="premium-badge-low">
                                 Only {remaining} left!
@@ -800,16 +1255,32 @@ export function TicketsEventDetailPage() {
                         
                         <div className="text-center md:text-right md:ml-6 mobile-price-display">
                           <div className="text-xl md:text-2xl font-bold text-white mb-1">
-                            ${(tier.priceCents / 100).toFixed(0)}
-                            <span className="text-sm md:text-base text-gray-400">.{String(tier.priceCents % 100).padStart(2, '0')}</span>
+                            ${Math.floor(currentPrice(tier) / 100)}
+                            <span className="text-sm md:text-base text-gray-400">.{String(currentPrice(tier) % 100).padStart(2, '0')}</span>
+                          </div>
+                          <div className="text-xs text-gray-500 font-medium uppercase tracking-wider">
+                            {tier.pricePhase?.label ? `${tier.pricePhase.label} price` : isAddon ? 'each' : bundleSize > 1 ? 'per bundle' : 'per ticket'}
                           </div>
-                          <div className="text-xs text-gray-500 font-medium uppercase tracking-wider">per ticket</div>
+                          {describeNextPrice(tier, now) && (
+                            <div className="text-xs text-orange-400 mt-1" data-testid={`text-price-increase-${tier.id}`}>
+                              {describeNextPrice(tier, now)}
+                            </div>
+                          )}
                         </div>
                       </div>
                       
                       {/* Tier Controls */}
                       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mobile-tier-card">
-                        {available ? (
+                        {available && seatedTierIds.has(tier.id) ? (
+                          <div className="flex items-center gap-3 text-sm text-gray-300" data-testid={`text-seated-${tier.id}`}>
+                            <span>Reserved seating - pick your seats on the map below</span>
+                            {quantity > 0 && (
+                              <div className="premium-total-badge">
+                                {quantity} seat{quantity !== 1 ? 's' : ''} • ${((currentPrice(tier) * quantity) / 100).toFixed(2)}
+                              </div>
+                            )}
+                          </div>
+                        ) : available ? (
                           <>
                             {/* Premium Quantity Controls */}
                             <div className="flex items-center gap-3 mobile-quantity-controls">
@@ -841,15 +1312,74 @@ export function TicketsEventDetailPage() {
                               
                               {quantity > 0 && (
                                 <div className="premium-total-badge">
-                                  Total: ${((tier.priceCents * quantity) / 100).toFixed(2)}
+                                  Total: ${((currentPrice(tier) * quantity) / 100).toFixed(2)}
                                 </div>
                               )}
                             </div>
                             
                           </>
                         ) : (
-                          <div className="premium-badge-sold-out flex-1 text-center py-3">
-                            SOLD OUT
+                          <div className="flex-1 space-y-3">
+                            <div className="premium-badge-sold-out text-center py-3">
+                              SOLD OUT
+                            </div>
+                            {waitlistPositions[tier.id] ? (
+                              <p className="text-sm text-gray-400 text-center" data-testid={`text-waitlist-position-${tier.id}`}>
+                                You're #{waitlistPositions[tier.id]} on the waitlist. We'll email you if tickets free up.
+                              </p>
+                            ) : waitlistTierId === tier.id ? (
+                              <div className="space-y-3 p-4 bg-gray-800/50 rounded-lg border border-gray-600">
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                  <Input
+                                    type="email"
+                                    placeholder="Email address"
+                                    value={waitlistEmail}
+                                    onChange={(e) => setWaitlistEmail(e.target.value)}
+                                    className="premium-input"
+                                    data-testid={`input-waitlist-email-${tier.id}`}
+                                  />
+                                  <Input
+                                    placeholder="Name (optional)"
+                                    value={waitlistName}
+                                    onChange={(e) => setWaitlistName(e.target.value)}
+                                    className="premium-input"
+                                    data-testid={`input-waitlist-name-${tier.id}`}
+                                  />
+                                </div>
+                                <div className="flex items-center gap-3">
+                                  <Label className="text-gray-300 text-sm">Tickets wanted</Label>
+                                  <Input
+                                    type="number"
+                                    min={1}
+                                    max={Math.min(tier.maxPerOrder || 10, 10)}
+                                    value={waitlistQuantity}
+                                    onChange={(e) => setWaitlistQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+                                    className="premium-input w-20"
+                                    data-testid={`input-waitlist-quantity-${tier.id}`}
+                                  />
+                                  <Button
+                                    onClick={() => joinWaitlistMutation.mutate(tier.id)}
+                                    disabled={joinWaitlistMutation.isPending || !waitlistEmail}
+                                    className="ml-auto"
+                                    data-testid={`button-waitlist-submit-${tier.id}`}
+                                  >
+                                    {joinWaitlistMutation.isPending ? "Joining..." : "Join Waitlist"}
+                                  </Button>
+                                </div>
+                              </div>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                onClick={() => {
+                                  setWaitlistTierId(tier.id);
+                                  if (!waitlistEmail && buyerEmail) setWaitlistEmail(buyerEmail);
+                                }}
+                                className="w-full"
+                                data-testid={`button-join-waitlist-${tier.id}`}
+                              >
+                                Join Waitlist
+                              </Button>
+                            )}
                           </div>
                         )}
                       </div>
@@ -863,10 +1393,47 @@ export function TicketsEventDetailPage() {
                         </div>
                       )}
                     </div>
+                    </div>
                   );
                 })}
               </div>
               
+              {/* Fan resale - hidden until someone lists a ticket */}
+              {event.resaleEnabled && (
+                <ResaleMarketplace
+                  eventId={event.id}
+                  occurrences={occurrences}
+                  defaultBuyerName={buyerName}
+                  defaultBuyerEmail={buyerEmail}
+                />
+              )}
+              
+              {/* Seat Map */}
+              {seatMap && seatMapData && (
+                <div className="premium-surface-elevated p-6 premium-slide-up" data-testid="section-seat-map">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-semibold text-white">{seatMap.name}</h3>
+                    {selectedSeats.length > 0 && (
+                      <span className="text-sm text-gray-400">
+                        {selectedSeats.length} seat{selectedSeats.length !== 1 ? 's' : ''} selected
+                      </span>
+                    )}
+                  </div>
+                  <SeatPicker
+                    seatMap={seatMap}
+                    seats={seatMapData.seats}
+                    tiers={event.tiers}
+                    selectedSeatIds={selectedSeats.map(s => s.id)}
+                    onToggleSeat={toggleSeat}
+                  />
+                  {selectedSeats.length > 0 && (
+                    <p className="mt-4 text-sm text-gray-300" data-testid="text-selected-seats">
+                      {selectedSeats.map(s => `${s.section} ${s.row}${s.number}`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+              
               {/* Premium Discount Code Section */}
               <div className="premium-surface-elevated p-6 premium-slide-up" style={{ animationDelay: `${event.tiers.length * 100 + 200}ms` }}>
                 <div className="flex items-center gap-3 mb-4">
@@ -884,12 +1451,22 @@ export function TicketsEventDetailPage() {
                   <Button 
                     variant="outline" 
                     className="premium-button-secondary"
+                    onClick={() => applyDiscountMutation.mutate()}
+                    disabled={!discountCode.trim() || applyDiscountMutation.isPending}
                     data-testid="button-apply-discount"
                   >
-                    Apply
+                    {applyDiscountMutation.isPending ? 'Checking...' : 'Apply'}
                   </Button>
                 </div>
-                {discountCode && (
+                {discountError ? (
+                  <p className="text-sm text-red-400 mt-2" data-testid="text-discount-error">
+                    {discountError}
+                  </p>
+                ) : appliedDiscount ? (
+                  <p className="text-sm text-green-400 mt-2" data-testid="text-discount-applied">
+                    {appliedDiscount.code} applied{appliedDiscount.amountCents > 0 && ` - $${(appliedDiscount.amountCents / 100).toFixed(2)} off`}
+                  </p>
+                ) : discountCode && (
                   <p className="text-sm text-gray-400 mt-2">
                     Discount will be applied at checkout
                   </p>
@@ -932,14 +1509,20 @@ export function TicketsEventDetailPage() {
                               <div className="flex-1">
                                 <h4 className="text-white font-semibold text-base">{tier.name}</h4>
                                 <div className="flex items-center gap-2 mt-1">
-                                  <span className="text-gray-400 text-sm">{item.quantity} ticket{item.quantity !== 1 ? 's' : ''}</span>
+                                  <span className="text-gray-400 text-sm">
+                                    {tier.kind === 'addon'
+                                      ? `${item.quantity} × add-on`
+                                      : ticketsPerUnit(tier) > 1
+                                        ? `${item.quantity} bundle${item.quantity !== 1 ? 's' : ''} (${item.quantity * ticketsPerUnit(tier)} tickets)`
+                                        : `${item.quantity} ticket${item.quantity !== 1 ? 's' : ''}`}
+                                  </span>
                                   <span className="text-gray-500">•</span>
-                                  <span className="text-gray-400 text-sm">${(tier.priceCents / 100).toFixed(2)} each</span>
+                                  <span className="text-gray-400 text-sm">${(currentPrice(tier) / 100).toFixed(2)} each</span>
                                 </div>
                               </div>
                               <div className="text-right ml-4">
                                 <div className="text-lg font-bold text-white">
-                                  ${((tier.priceCents * item.quantity) / 100).toFixed(2)}
+                                  ${((currentPrice(tier) * item.quantity) / 100).toFixed(2)}
                                 </div>
                               </div>
                             </div>
@@ -955,9 +1538,15 @@ export function TicketsEventDetailPage() {
                           <span>Subtotal</span>
                           <span className="font-semibold">${(subtotal / 100).toFixed(2)}</span>
                         </div>
-                        {(taxInfo.hasGST || taxInfo.hasPST) && (
+                        {discountCents > 0 && (
+                          <div className="flex justify-between text-green-400">
+                            <span>Discount ({appliedDiscount?.code})</span>
+                            <span className="font-semibold">-${(discountCents / 100).toFixed(2)}</span>
+                          </div>
+                        )}
+                        {taxRule.components.length > 0 && (
                           <div className="flex justify-between text-gray-300">
-                            <span>Tax {taxInfo.hasGST && taxInfo.hasPST ? '(GST + PST)' : taxInfo.hasGST ? '(GST)' : '(PST)'}</span>
+                            <span>{taxRule.inclusive ? 'Includes' : 'Tax'} ({taxLabel})</span>
                             <span className="font-semibold">${(tax / 100).toFixed(2)}</span>
                           </div>
                         )}
@@ -1034,9 +1623,55 @@ export function TicketsEventDetailPage() {
                             data-testid="input-buyer-phone"
                           />
                         </div>
+                        
+                        {orderQuestions.map(question => (
+                          <QuestionField
+                            key={question.id}
+                            question={question}
+                            value={orderAnswers[question.id]}
+                            onChange={(value) => setOrderAnswers({ ...orderAnswers, [question.id]: value })}
+                            testId={`input-question-${question.id}`}
+                          />
+                        ))}
                       </div>
                     </div>
                     
+                    {/* Per-ticket questions, e.g. each attendee's name */}
+                    {questionTickets.length > 0 && (
+                      <div className="premium-buyer-section">
+                        <h4 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                          <div className="w-1.5 h-1.5 bg-orange-400 rounded-full" />
+                          Ticket Details
+                        </h4>
+                        
+                        <div className="space-y-5">
+                          {questionTickets.map(ticket => {
+                            const tier = event.tiers.find(t => t.id === ticket.tierId);
+                            const quantity = cart.find(i => i.tierId === ticket.tierId)?.quantity || 1;
+                            return (
+                              <div key={ticket.key} className="space-y-3" data-testid={`ticket-questions-${ticket.key}`}>
+                                <p className="text-sm font-semibold text-orange-300">
+                                  {tier?.name || 'Ticket'}{quantity > 1 ? ` · Ticket ${ticket.index + 1}` : ''}
+                                </p>
+                                {ticketQuestionsFor(ticket.tierId).map(question => (
+                                  <QuestionField
+                                    key={question.id}
+                                    question={question}
+                                    value={ticketAnswers[ticket.key]?.[question.id]}
+                                    onChange={(value) => setTicketAnswers({
+                                      ...ticketAnswers,
+                                      [ticket.key]: { ...ticketAnswers[ticket.key], [question.id]: value }
+                                    })}
+                                    testId={`input-question-${question.id}-${ticket.key}`}
+                                  />
+                                ))}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                    
                     {/* Premium Checkout Button */}
                     <Button 
                       className="premium-checkout-button w-full mobile-checkout-btn premium-touch-target"
@@ -51,6 +51,12 @@ import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { useState, useEffect } from "react";
 import { ObjectUploader } from "@/components/ObjectUploader";
+import { SeatMapEditor } from "@/components/SeatMapEditor";
+import { DiscountCodesManager } from "@/components/DiscountCodesManager";
+import { EventOccurrencesManager } from "@/components/EventOccurrencesManager";
+import { EventQuestionsManager } from "@/components/EventQuestionsManager";
+import { TierPriceScheduleEditor, type PriceStep } from "@/components/TierPriceScheduleEditor";
+import { getTaxRule, describeTax } from "@shared/tax-rules";
 
 const eventFormSchema = z.object({
   title: z.string().min(1, "Title is required").max(200),
@@ -67,14 +73,17 @@ const eventFormSchema = z.object({
   coverUrl: z.string().optional(),
   capacity: z.number().min(1).max(100000).optional(),
   status: z.enum(['draft', 'published', 'archived']).default('draft'),
-  isGstApplied: z.boolean().default(true),
-  isPstApplied: z.boolean().default(true),
-  gstRate: z.number().min(0).max(100).default(5),
-  pstRate: z.number().min(0).max(100).default(7),
+  collectTax: z.boolean().default(true),
+  taxInclusive: z.boolean().default(false),
   buyerPaysServiceFee: z.boolean().default(true),
   serviceFeeMode: z.enum(['percent', 'flat']).default('percent'),
   serviceFeePercent: z.number().min(0).max(100).default(5),
-  serviceFeeAmountCents: z.number().int().min(0).default(0)
+  serviceFeeAmountCents: z.number().int().min(0).default(0),
+  resaleEnabled: z.boolean().default(false),
+  allowRefundsUntil: z.string().optional(),
+  autoApproveRefunds: z.boolean().default(false),
+  autoApproveMaxCents: z.number().int().min(0).optional(),
+  autoApproveMinHours: z.number().int().min(0).optional()
 }).refine((data) => {
   // If endAt is provided, it must be after startAt
   if (data.endAt && data.startAt) {
@@ -98,6 +107,12 @@ interface TicketTier {
   salesEndAt?: string;
   soldCount?: number;
   showRemaining?: boolean;
+  priceSchedule?: PriceStep[] | null;
+  seriesPass?: boolean;
+  kind?: 'admission' | 'addon';
+  ticketsPerUnit?: number;
+  addonFulfillment?: 'none' | 'voucher' | null;
+  taxable?: boolean;
   tempId?: string;
 }
 
@@ -124,6 +139,9 @@ interface Event {
   gstRate: number;
   pstRate: number;
   buyerPaysServiceFee: boolean;
+  resaleEnabled?: boolean;
+  allowRefundsUntil?: string | null;
+  refundAutoApprove?: { maxCents?: number | null; minHoursBeforeEvent?: number | null } | null;
   tiers?: TicketTier[];
   stats?: {
     ticketsSold: number;
@@ -180,14 +198,15 @@ export function TicketsEventEditPage() {
       coverUrl: "",
       capacity: 500,
       status: 'draft',
-      isGstApplied: true,
-      isPstApplied: true,
-      gstRate: 5,
-      pstRate: 7,
+      collectTax: true,
+      taxInclusive: false,
       buyerPaysServiceFee: true,
       serviceFeeMode: 'percent',
       serviceFeePercent: 5,
-      serviceFeeAmountCents: 0
+      serviceFeeAmountCents: 0,
+      resaleEnabled: false,
+      allowRefundsUntil: "",
+      autoApproveRefunds: false
     }
   });
 
@@ -207,14 +226,11 @@ export function TicketsEventEditPage() {
       const event = data.event;
       
       // Extract tax settings from JSONB field
-      const taxSettings = (event as any).taxSettings || { collectTax: true, gstPercent: 5, pstPercent: 7 };
+      const taxSettings = (event as any).taxSettings || { collectTax: true, taxInclusive: false };
       const feeStructure = (event as any).feeStructure || { type: 'buyer_pays', mode: 'percent', percent: 5 };
       
       // For backwards compatibility, check if flat fields exist (old data)
-      const isGstApplied = event.isGstApplied ?? (taxSettings.collectTax ? true : false);
-      const isPstApplied = event.isPstApplied ?? (taxSettings.collectTax ? true : false);
-      const gstRate = event.gstRate ?? taxSettings.gstPercent ?? 5;
-      const pstRate = event.pstRate ?? taxSettings.pstPercent ?? 7;
+      const collectTax = taxSettings.collectTax ?? (event.isGstApplied || event.isPstApplied);
       const buyerPaysServiceFee = event.buyerPaysServiceFee ?? (feeStructure.type === 'buyer_pays');
       // Handle both new and legacy fee structure formats
       const serviceFeeMode = feeStructure.mode || 'percent';
@@ -236,14 +252,17 @@ export function TicketsEventEditPage() {
         coverUrl: event.coverUrl || "",
         capacity: event.capacity || 500,
         status: event.status,
-        isGstApplied,
-        isPstApplied,
-        gstRate,
-        pstRate,
+        collectTax,
+        taxInclusive: !!taxSettings.taxInclusive,
         buyerPaysServiceFee,
         serviceFeeMode: serviceFeeMode as 'percent' | 'flat',
         serviceFeePercent,
-        serviceFeeAmountCents
+        serviceFeeAmountCents,
+        resaleEnabled: event.resaleEnabled ?? false,
+        allowRefundsUntil: event.allowRefundsUntil ? format(new Date(event.allowRefundsUntil), "yyyy-MM-dd'T'HH:mm:ss") : "",
+        autoApproveRefunds: !!event.refundAutoApprove,
+        autoApproveMaxCents: event.refundAutoApprove?.maxCents ?? undefined,
+        autoApproveMinHours: event.refundAutoApprove?.minHoursBeforeEvent ?? undefined
       });
       
       if (event.coverUrl) {
@@ -307,9 +326,8 @@ export function TicketsEventEditPage() {
       
       // Convert flat tax/fee fields to JSONB objects for database
       const taxSettings = {
-        collectTax: values.isGstApplied || values.isPstApplied,
-        gstPercent: values.gstRate || 5,
-        pstPercent: values.pstRate || 7
+        collectTax: values.collectTax,
+        taxInclusive: values.taxInclusive
       };
       
       const feeStructure = {
@@ -333,6 +351,11 @@ export function TicketsEventEditPage() {
         status: values.status,
         taxSettings,
         feeStructure,
+        resaleEnabled: values.resaleEnabled,
+        allowRefundsUntil: values.allowRefundsUntil ? new Date(values.allowRefundsUntil).toISOString() : null,
+        refundAutoApprove: values.autoApproveRefunds
+          ? { maxCents: values.autoApproveMaxCents ?? null, minHoursBeforeEvent: values.autoApproveMinHours ?? null }
+          : null,
         tiers: values.tiers
       };
       
@@ -384,7 +407,10 @@ export function TicketsEventEditPage() {
       maxPerOrder: 10,
       salesStartAt: form.getValues('startAt'),
       salesEndAt: form.getValues('endAt'),
-      showRemaining: true
+      showRemaining: true,
+      kind: 'admission',
+      ticketsPerUnit: 1,
+      taxable: true
     };
     setTicketTiers([...ticketTiers, newTier]);
   };
@@ -922,6 +948,83 @@ export function TicketsEventEditPage() {
                               />
                             </div>
                             
+                            <div className="grid grid-cols-2 gap-4 mt-4">
+                              <div>
+                                <label className="text-sm font-medium">Product Type</label>
+                                <Select
+                                  value={tier.kind || 'admission'}
+                                  onValueChange={(kind) => updateTicketTier(index, kind === 'addon'
+                                    ? { kind: 'addon', ticketsPerUnit: 1, addonFulfillment: tier.addonFulfillment || 'none', seriesPass: false }
+                                    : { kind: 'admission', addonFulfillment: null })}
+                                  disabled={!!tier.soldCount}
+                                >
+                                  <SelectTrigger data-testid={`select-tier-kind-${index}`} className="bg-charcoal-900/60 border-charcoal-700 text-white">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="admission">Admission ticket</SelectItem>
+                                    <SelectItem value="addon">Add-on (no entry)</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                              
+                              {tier.kind === 'addon' ? (
+                                <div>
+                                  <label className="text-sm font-medium">Fulfillment</label>
+                                  <Select
+                                    value={tier.addonFulfillment || 'none'}
+                                    onValueChange={(value) => updateTicketTier(index, { addonFulfillment: value as 'none' | 'voucher' })}
+                                    disabled={!!tier.soldCount}
+                                  >
+                                    <SelectTrigger data-testid={`select-tier-fulfillment-${index}`} className="bg-charcoal-900/60 border-charcoal-700 text-white">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="none">Nothing to redeem</SelectItem>
+                                      <SelectItem value="voucher">Voucher redeemed at the venue</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                              ) : (
+                                <div>
+                                  <label className="text-sm font-medium">Tickets per Purchase</label>
+                                  <Input
+                                    type="number"
+                                    min="1"
+                                    max="50"
+                                    value={tier.ticketsPerUnit ?? 1}
+                                    onChange={(e) => updateTicketTier(index, {
+                                      ticketsPerUnit: Math.max(1, parseInt(e.target.value) || 1)
+                                    })}
+                                    disabled={!!tier.soldCount}
+                                    data-testid={`input-tier-tickets-per-unit-${index}`}
+                                    className="bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500"
+                                  />
+                                </div>
+                              )}
+                            </div>
+                            <p className="text-xs text-neutral-500 mt-1">
+                              {tier.soldCount
+                                ? "Can't be changed once this tier has sales"
+                                : tier.kind === 'addon'
+                                  ? 'Sold with a ticket, e.g. parking or merch. Counts against this tier\'s capacity only.'
+                                  : 'Set above 1 for group bundles: one purchase issues this many tickets and uses one unit of capacity.'}
+                            </p>
+                            
+                            <div className="mt-4">
+                              <label className="text-sm font-medium">Taxable</label>
+                              <div className="flex items-center gap-3 mt-2 h-10 px-4 bg-charcoal-900/60 border border-charcoal-700 rounded-md">
+                                <Switch
+                                  checked={tier.taxable !== false}
+                                  onCheckedChange={(checked) => updateTicketTier(index, { taxable: checked })}
+                                  data-testid={`switch-tier-taxable-${index}`}
+                                />
+                                <span className="text-sm text-neutral-400">
+                                  {tier.taxable !== false ? 'Sales tax applies' : 'Tax exempt'}
+                                </span>
+                              </div>
+                            </div>
+                            
                             <div className="grid grid-cols-2 gap-4 mt-4">
                               <div>
                                 <label className="text-sm font-medium">Capacity (Optional)</label>
@@ -973,6 +1076,32 @@ export function TicketsEventEditPage() {
                                   : 'Remaining count hidden on public pages'}
                               </p>
                             </div>
+                            
+                            {tier.kind !== 'addon' && (
+                            <div className="mt-4">
+                              <label className="text-sm font-medium">Series Pass</label>
+                              <div className="flex items-center gap-3 mt-2 h-10 px-4 bg-charcoal-900/60 border border-charcoal-700 rounded-md">
+                                <Switch
+                                  checked={!!tier.seriesPass}
+                                  onCheckedChange={(checked) => updateTicketTier(index, { seriesPass: checked })}
+                                  data-testid={`switch-tier-series-pass-${index}`}
+                                />
+                                <span className="text-sm text-neutral-400">
+                                  {tier.seriesPass ? 'Admits to every date' : 'Admits to one date'}
+                                </span>
+                              </div>
+                              <p className="text-xs text-neutral-500 mt-1">
+                                Only matters when the event runs on several dates
+                              </p>
+                            </div>
+                            )}
+                            
+                            <TierPriceScheduleEditor
+                              basePriceCents={tier.priceCents ?? 0}
+                              schedule={tier.priceSchedule}
+                              onChange={(priceSchedule) => updateTicketTier(index, { priceSchedule })}
+                              testIdSuffix={index}
+                            />
                           </CardContent>
                         </Card>
                       ))}
@@ -990,6 +1119,18 @@ export function TicketsEventEditPage() {
                     </div>
                   </CardContent>
                 </Card>
+
+                {/* Multiple Dates */}
+                <EventOccurrencesManager eventId={eventId} />
+
+                {/* Reserved Seating */}
+                <SeatMapEditor eventId={eventId} tiers={ticketTiers} />
+
+                {/* Discount Codes */}
+                <DiscountCodesManager eventId={eventId} tiers={ticketTiers} />
+
+                {/* Checkout Questions */}
+                <EventQuestionsManager eventId={eventId} tiers={ticketTiers} />
               </div>
 
               {/* Sidebar */}
@@ -1055,6 +1196,133 @@ export function TicketsEventEditPage() {
                         </FormItem>
                       )}
                     />
+                    
+                    <FormField
+                      control={form.control}
+                      name="resaleEnabled"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between">
+                          <div>
+                            <FormLabel>Fan Resale</FormLabel>
+                            <FormDescription>
+                              Let ticket holders resell to other fans, capped at face value
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch 
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-resale"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Refund Requests */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Refund Requests</CardTitle>
+                    <CardDescription>Buyers can ask for a refund from their order page</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="allowRefundsUntil"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Accept Requests Until</FormLabel>
+                          <FormControl>
+                            <Input 
+                              {...field}
+                              type="datetime-local"
+                              data-testid="input-refunds-until"
+                              className="bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Leave empty to accept requests until the event starts
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="autoApproveRefunds"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between">
+                          <div>
+                            <FormLabel>Auto-approve</FormLabel>
+                            <FormDescription>
+                              Refund requests within your limits right away
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch 
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-auto-approve-refunds"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    
+                    {form.watch('autoApproveRefunds') && (
+                      <>
+                        <FormField
+                          control={form.control}
+                          name="autoApproveMaxCents"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Up To ($)</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={field.value !== undefined ? (field.value / 100).toString() : ''}
+                                  onChange={(e) => field.onChange(e.target.value === '' ? undefined : Math.round(parseFloat(e.target.value) * 100))}
+                                  placeholder="Any amount"
+                                  data-testid="input-auto-approve-max"
+                                  className="bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        
+                        <FormField
+                          control={form.control}
+                          name="autoApproveMinHours"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>At Least (hours before event)</FormLabel>
+                              <FormControl>
+                                <Input 
+                                  type="number"
+                                  min="0"
+                                  value={field.value ?? ''}
+                                  onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value) || 0)}
+                                  placeholder="Any time"
+                                  data-testid="input-auto-approve-hours"
+                                  className="bg-charcoal-900/60 border-charcoal-700 focus:border-copper-500 text-white placeholder:text-neutral-500"
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                Anything outside these limits waits for you in Attendees → Refunds
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -1106,20 +1374,20 @@ export function TicketsEventEditPage() {
                   <CardContent className="space-y-4">
                     <FormField
                       control={form.control}
-                      name="isGstApplied"
+                      name="collectTax"
                       render={({ field }) => (
                         <FormItem className="flex items-center justify-between">
                           <div>
-                            <FormLabel>Apply GST</FormLabel>
-                            <FormDescription>
-                              {form.watch('gstRate')}% federal tax
+                            <FormLabel>Collect Tax</FormLabel>
+                            <FormDescription data-testid="text-tax-rates">
+                              {getTaxRule(form.watch('province'), { collectTax: true }).components.map(describeTax).join(' + ') || 'No sales tax'} for {form.watch('province')}
                             </FormDescription>
                           </div>
                           <FormControl>
                             <Switch 
                               checked={field.value}
                               onCheckedChange={field.onChange}
-                              data-testid="switch-gst"
+                              data-testid="switch-collect-tax"
                             />
                           </FormControl>
                         </FormItem>
@@ -1128,20 +1396,21 @@ export function TicketsEventEditPage() {
                     
                     <FormField
                       control={form.control}
-                      name="isPstApplied"
+                      name="taxInclusive"
                       render={({ field }) => (
                         <FormItem className="flex items-center justify-between">
                           <div>
-                            <FormLabel>Apply PST</FormLabel>
+                            <FormLabel>Prices Include Tax</FormLabel>
                             <FormDescription>
-                              {form.watch('pstRate')}% provincial tax
+                              Ticket prices are what buyers pay, with tax taken out of them
                             </FormDescription>
                           </div>
                           <FormControl>
                             <Switch 
                               checked={field.value}
                               onCheckedChange={field.onChange}
-                              data-testid="switch-pst"
+                              disabled={!form.watch('collectTax')}
+                              data-testid="switch-tax-inclusive"
                             />
                           </FormControl>
                         </FormItem>
@@ -15,6 +15,7 @@ interface Tier {
   soldCount: number;
   salesOpenAt: Date | null;
   salesCloseAt: Date | null;
+  pricePhase?: { priceCents: number };
 }
 
 interface Event {
@@ -29,6 +30,8 @@ interface Event {
   venue: string;
   city: string;
   tiers: Tier[];
+  nextOccurrenceAt?: string | null; // series events: the next date on sale
+  upcomingOccurrenceCount?: number;
 }
 
 export function TicketsEventListPage() {
@@ -106,7 +109,7 @@ export function TicketsEventListPage() {
 
   // Helper to get lowest price for event
   const getLowestPrice = (event: Event) => {
-    const prices = event.tiers.map(t => t.priceCents);
+    const prices = event.tiers.map(t => t.pricePhase?.priceCents ?? t.priceCents);
     return prices.length > 0 ? Math.min(...prices) : 0;
   };
 
@@ -138,7 +141,7 @@ export function TicketsEventListPage() {
 
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 md:gap-8">
           {events.map((event: Event, index: number) => {
-            const eventDate = new Date(event.startAt);
+            const eventDate = new Date(event.nextOccurrenceAt || event.startAt);
             const lowestPrice = getLowestPrice(event);
             const soldOut = isSoldOut(event);
             
@@ -177,6 +180,7 @@ export function TicketsEventListPage() {
                           
                           <div className="glass-card px-3 py-1.5 rounded-full text-xs font-semibold backdrop-blur-md" style={{ color: 'var(--neutral-50)' }}>
                             {format(eventDate, 'MMM d')}
+                            {(event.upcomingOccurrenceCount || 0) > 1 && ` + ${event.upcomingOccurrenceCount! - 1} more`}
                           </div>
                         </div>
                       </>
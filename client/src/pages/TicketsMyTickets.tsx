@@ -16,11 +16,15 @@ import {
   Clock,
   ChevronRight,
   Building2,
-  ExternalLink
+  ExternalLink,
+  Send,
+  Tag
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { Link } from 'wouter';
 import { Helmet } from 'react-helmet-async';
+import { TicketTransferDialog } from '@/components/TicketTransferDialog';
+import { TicketResaleDialog } from '@/components/TicketResaleDialog';
 
 interface TicketData {
   ticket: {
@@ -44,6 +48,7 @@ interface TicketData {
     city?: string;
     province?: string;
     coverUrl?: string;
+    resaleEnabled?: boolean;
   };
   organizer: {
     id: string;
@@ -58,6 +63,15 @@ interface TicketData {
     currency: string;
     placedAt?: string;
   };
+  // Series events: the date a dated ticket is for; passes cover every date
+  occurrence?: {
+    id: string;
+    startAt: string;
+    endAt?: string | null;
+    status: string;
+  } | null;
+  seriesPass?: boolean;
+  startsAt?: string;
   isUpcoming: boolean;
 }
 
@@ -126,13 +140,13 @@ export default function TicketsMyTickets() {
     // Sort tickets within each organizer by date
     Object.values(upcoming).forEach(group => {
       group.tickets.sort((a, b) => 
-        new Date(a.event.startAt).getTime() - new Date(b.event.startAt).getTime()
+        new Date(a.startsAt || a.event.startAt).getTime() - new Date(b.startsAt || b.event.startAt).getTime()
       );
     });
 
     Object.values(past).forEach(group => {
       group.tickets.sort((a, b) => 
-        new Date(b.event.startAt).getTime() - new Date(a.event.startAt).getTime()
+        new Date(b.startsAt || b.event.startAt).getTime() - new Date(a.startsAt || a.event.startAt).getTime()
       );
     });
 
@@ -176,7 +190,8 @@ export default function TicketsMyTickets() {
       valid: { color: 'bg-green-500/10 text-green-500 border-green-500/20', label: 'Valid' },
       used: { color: 'bg-blue-500/10 text-blue-500 border-blue-500/20', label: 'Used' },
       refunded: { color: 'bg-red-500/10 text-red-500 border-red-500/20', label: 'Refunded' },
-      canceled: { color: 'bg-gray-500/10 text-gray-500 border-gray-500/20', label: 'Canceled' }
+      canceled: { color: 'bg-gray-500/10 text-gray-500 border-gray-500/20', label: 'Canceled' },
+      transferred: { color: 'bg-gray-500/10 text-gray-500 border-gray-500/20', label: 'Transferred' }
     }[status] || { color: 'bg-gray-500/10 text-gray-500 border-gray-500/20', label: status };
 
     return (
@@ -422,6 +437,11 @@ function TicketCard({
   ticket: TicketData;
   getStatusBadge: (status: string) => JSX.Element;
 }) {
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [resaleOpen, setResaleOpen] = useState(false);
+  // Only tickets that still get you in can change hands
+  const canHandOff = ticket.ticket.status === 'valid' && ticket.isUpcoming;
+
   const handleDownload = async () => {
     try {
       const response = await fetch(`/api/tickets/${ticket.ticket.id}/download`);
@@ -465,7 +485,9 @@ function TicketCard({
               <div className="space-y-1.5">
                 <div className="flex items-center gap-2 text-sm" style={{ color: 'var(--neutral-300)' }}>
                   <CalendarDays className="w-4 h-4" style={{ color: 'var(--copper)' }} />
-                  {format(new Date(ticket.event.startAt), 'EEEE, MMMM d, yyyy • h:mm a')}
+                  {format(new Date(ticket.occurrence?.startAt || ticket.event.startAt), 'EEEE, MMMM d, yyyy • h:mm a')}
+                  {ticket.seriesPass && <span>· Series pass, all dates</span>}
+                  {ticket.occurrence?.status === 'canceled' && <Badge variant="destructive">Date canceled</Badge>}
                 </div>
                 {ticket.event.venue && (
                   <div className="flex items-center gap-2 text-sm" style={{ color: 'var(--neutral-300)' }}>
@@ -529,9 +551,50 @@ function TicketCard({
                 <ChevronRight className="w-4 h-4 ml-1" />
               </Button>
             </Link>
+            {canHandOff && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setTransferOpen(true)}
+                className="text-white hover:bg-white/10 touch-target"
+                data-testid={`button-transfer-ticket-${ticket.ticket.id}`}
+              >
+                <Send className="w-4 h-4 mr-2" />
+                Transfer
+              </Button>
+            )}
+            {canHandOff && ticket.event.resaleEnabled && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setResaleOpen(true)}
+                className="text-white hover:bg-white/10 touch-target"
+                data-testid={`button-resell-ticket-${ticket.ticket.id}`}
+              >
+                <Tag className="w-4 h-4 mr-2" />
+                Resell
+              </Button>
+            )}
           </div>
         </CardContent>
       </div>
+
+      {canHandOff && (
+        <>
+          <TicketTransferDialog
+            ticketId={ticket.ticket.id}
+            eventTitle={ticket.event.title}
+            open={transferOpen}
+            onOpenChange={setTransferOpen}
+          />
+          <TicketResaleDialog
+            ticketId={ticket.ticket.id}
+            eventTitle={ticket.event.title}
+            open={resaleOpen}
+            onOpenChange={setResaleOpen}
+          />
+        </>
+      )}
     </Card>
   );
 }
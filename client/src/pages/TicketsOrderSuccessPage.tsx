@@ -24,6 +24,7 @@ import { format } from "date-fns";
 import QRCode from "qrcode";
 import { queryClient } from "@/lib/queryClient";
 import confetti from 'canvas-confetti';
+import { RefundRequestCard } from "@/components/RefundRequestCard";
 
 interface TicketDetails {
   id: string;
@@ -31,7 +32,16 @@ interface TicketDetails {
   tierName: string;
   serial: string;
   qrToken: string;
+  qrCode?: string; // signed code, verifiable by offline scanners
   status: string;
+  seatLabel?: string | null;
+}
+
+interface AddonDetails {
+  tierId: string;
+  name: string;
+  quantity: number;
+  vouchers: Array<{ code: string; status: string; redeemedAt: string | null }>;
 }
 
 interface OrderDetails {
@@ -46,6 +56,7 @@ interface OrderDetails {
   totalCents: number;
   createdAt?: string;
   tickets: TicketDetails[];
+  addons?: AddonDetails[];
   event: {
     id: string;
     title: string;
@@ -109,7 +120,7 @@ export function TicketsOrderSuccessPage() {
     
     for (const ticket of tickets) {
       try {
-        const qrDataUrl = await QRCode.toDataURL(ticket.qrToken, {
+        const qrDataUrl = await QRCode.toDataURL(ticket.qrCode || ticket.qrToken, {
           width: 200,
           margin: 1,
           color: {
@@ -160,6 +171,7 @@ export function TicketsOrderSuccessPage() {
             <div class="ticket">
               <div class="header">
                 <h2>Ticket ${index + 1} - ${ticket.tierName}</h2>
+                ${ticket.seatLabel ? `<p><strong>Seat:</strong> ${ticket.seatLabel}</p>` : ''}
               </div>
               <div class="qr-code">
                 <img src="${qrCodes[ticket.id]}" alt="QR Code" />
@@ -416,6 +428,11 @@ export function TicketsOrderSuccessPage() {
                         </h4>
                         <Badge>{ticket.tierName}</Badge>
                       </div>
+                      {ticket.seatLabel && (
+                        <p className="text-sm font-medium" data-testid={`text-seat-${ticket.id}`}>
+                          {ticket.seatLabel}
+                        </p>
+                      )}
                       <p className="text-xs text-muted-foreground">
                         ID: {ticket.serial}
                       </p>
@@ -452,6 +469,40 @@ export function TicketsOrderSuccessPage() {
             </CardContent>
           </Card>
 
+          {order.addons && order.addons.length > 0 && (
+            <Card className="mt-8" data-testid="card-addons">
+              <CardHeader>
+                <CardTitle>Add-ons</CardTitle>
+                <CardDescription>Show voucher codes at the venue to collect your items</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {order.addons.map(addon => (
+                  <div key={addon.tierId} className="border rounded-lg p-4" data-testid={`addon-${addon.tierId}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{addon.name}</span>
+                      <Badge variant="secondary">× {addon.quantity}</Badge>
+                    </div>
+                    {addon.vouchers.length > 0 && (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {addon.vouchers.map(voucher => (
+                          <code
+                            key={voucher.code}
+                            className={`px-3 py-1 rounded bg-muted font-mono text-sm ${voucher.status !== 'issued' ? 'line-through text-muted-foreground' : ''}`}
+                            data-testid={`text-voucher-${voucher.code}`}
+                          >
+                            {voucher.code}
+                          </code>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <RefundRequestCard orderId={order.id} buyerEmail={order.buyerEmail} tickets={order.tickets} />
+
           {/* Actions */}
           <div className="flex flex-col sm:flex-row gap-4 mt-8">
             <Button 
@@ -1,20 +1,27 @@
+import { useState, type ReactNode } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { DollarSign, Calendar, Download, TrendingUp } from "lucide-react";
+import { DollarSign, Calendar, Download, TrendingUp, ChevronDown, ChevronUp } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { format } from "date-fns";
+import { PayoutStatementBreakdown } from "@/components/PayoutStatementBreakdown";
+import { OrganizerDisputesCard } from "@/components/OrganizerDisputesCard";
+import { OrganizerTaxSummaryCard } from "@/components/OrganizerTaxSummaryCard";
 
 interface Payout {
   id: string;
-  amount: number;
-  status: 'pending' | 'processing' | 'paid' | 'failed';
-  createdAt: Date;
-  paidAt?: Date;
+  totalCents: number;
+  currency: string;
+  periodStart: string;
+  periodEnd: string;
   method: string;
-  description: string;
+  reference: string | null;
+  status: 'draft' | 'ready' | 'paid' | 'failed';
+  createdAt: string;
+  paidAt: string | null;
 }
 
 interface RevenueSummary {
@@ -26,6 +33,7 @@ interface RevenueSummary {
 
 export function TicketsOrganizerPayouts() {
   const organizerId = localStorage.getItem('ticketsOrganizerId');
+  const [expandedPayoutId, setExpandedPayoutId] = useState<string | null>(null);
 
   const { data: revenueData, isLoading: revenueLoading } = useQuery<{ ok: boolean; summary: RevenueSummary }>({
     queryKey: ['/api/tickets/organizers/revenue-summary'],
@@ -60,9 +68,9 @@ export function TicketsOrganizerPayouts() {
     switch (status) {
       case 'paid':
         return <Badge className="bg-green-100 text-green-800">Paid</Badge>;
-      case 'processing':
+      case 'ready':
         return <Badge className="bg-blue-100 text-blue-800">Processing</Badge>;
-      case 'pending':
+      case 'draft':
         return <Badge variant="secondary">Pending</Badge>;
       case 'failed':
         return <Badge variant="destructive">Failed</Badge>;
@@ -75,6 +83,49 @@ export function TicketsOrganizerPayouts() {
     return `$${(cents / 100).toFixed(2)}`;
   };
 
+  const formatPeriod = (payout: Payout) =>
+    `${format(new Date(`${payout.periodStart}T00:00:00`), 'MMM d')} – ${format(new Date(`${payout.periodEnd}T00:00:00`), 'MMM d, yyyy')}`;
+
+  const renderPayout = (payout: Payout, dateLine: ReactNode) => {
+    const expanded = expandedPayoutId === payout.id;
+    return (
+      <div
+        key={payout.id}
+        className="p-4 border rounded-lg"
+        data-testid={`payout-${payout.id}`}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-semibold">{formatCurrency(payout.totalCents)}</span>
+              {getStatusBadge(payout.status)}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {formatPeriod(payout)} • {payout.method}
+              {payout.reference && ` • Ref ${payout.reference}`}
+            </p>
+            <p className="text-xs text-muted-foreground">{dateLine}</p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setExpandedPayoutId(expanded ? null : payout.id)}
+            data-testid={`button-statement-${payout.id}`}
+          >
+            Statement
+            {expanded ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+          </Button>
+        </div>
+        {expanded && (
+          <div className="mt-4 pt-4 border-t">
+            <PayoutStatementBreakdown payoutId={payout.id} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-8">
@@ -164,6 +215,10 @@ export function TicketsOrganizerPayouts() {
           </Card>
         </div>
 
+        <OrganizerDisputesCard />
+
+        <OrganizerTaxSummaryCard />
+
         {/* Payout History */}
         <Card>
           <CardHeader>
@@ -213,71 +268,27 @@ export function TicketsOrganizerPayouts() {
                     </div>
                   </div>
                 ) : (
-                  payoutsData.payouts.map(payout => (
-                    <div 
-                      key={payout.id}
-                      className="flex items-center justify-between p-4 border rounded-lg"
-                      data-testid={`payout-${payout.id}`}
-                    >
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1">
-                          <span className="font-semibold">{formatCurrency(payout.amount)}</span>
-                          {getStatusBadge(payout.status)}
-                        </div>
-                        <p className="text-sm text-muted-foreground">
-                          {payout.description} • {payout.method}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          Created: {format(new Date(payout.createdAt), 'PPP')}
-                          {payout.paidAt && ` • Paid: ${format(new Date(payout.paidAt), 'PPP')}`}
-                        </p>
-                      </div>
-                    </div>
+                  payoutsData.payouts.map(payout => renderPayout(
+                    payout,
+                    <>
+                      Created: {format(new Date(payout.createdAt), 'PPP')}
+                      {payout.paidAt && ` • Paid: ${format(new Date(payout.paidAt), 'PPP')}`}
+                    </>
                   ))
                 )}
               </TabsContent>
 
               <TabsContent value="paid" className="space-y-4">
-                {payoutsData?.payouts?.filter(p => p.status === 'paid').map(payout => (
-                  <div 
-                    key={payout.id}
-                    className="flex items-center justify-between p-4 border rounded-lg"
-                  >
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="font-semibold">{formatCurrency(payout.amount)}</span>
-                        {getStatusBadge(payout.status)}
-                      </div>
-                      <p className="text-sm text-muted-foreground">
-                        {payout.description} • {payout.method}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        Paid: {payout.paidAt && format(new Date(payout.paidAt), 'PPP')}
-                      </p>
-                    </div>
-                  </div>
+                {payoutsData?.payouts?.filter(p => p.status === 'paid').map(payout => renderPayout(
+                  payout,
+                  <>Paid: {payout.paidAt && format(new Date(payout.paidAt), 'PPP')}</>
                 ))}
               </TabsContent>
 
               <TabsContent value="pending" className="space-y-4">
-                {payoutsData?.payouts?.filter(p => p.status === 'pending' || p.status === 'processing').map(payout => (
-                  <div 
-                    key={payout.id}
-                    className="flex items-center justify-between p-4 border rounded-lg"
-                  >
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="font-semibold">{formatCurrency(payout.amount)}</span>
-                        {getStatusBadge(payout.status)}
-                      </div>
-                      <p className="text-sm text-muted-foreground">
-                        {payout.description} • {payout.method}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        Created: {format(new Date(payout.createdAt), 'PPP')}
-                      </p>
-                    </div>
-                  </div>
+                {payoutsData?.payouts?.filter(p => p.status === 'draft' || p.status === 'ready').map(payout => renderPayout(
+                  payout,
+                  <>Created: {format(new Date(payout.createdAt), 'PPP')}</>
                 ))}
               </TabsContent>
             </Tabs>
@@ -6,6 +6,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { OrganizerWebhooksCard } from "@/components/OrganizerWebhooksCard";
+import { OrganizerApiKeysCard } from "@/components/OrganizerApiKeysCard";
 
 interface Organizer {
   id: string;
@@ -198,6 +200,10 @@ export function TicketsOrganizerSettings() {
               )}
             </CardContent>
           </Card>
+
+          {/* Integrations */}
+          <OrganizerWebhooksCard />
+          <OrganizerApiKeysCard />
         </div>
       </div>
     </div>
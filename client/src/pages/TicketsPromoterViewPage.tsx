@@ -0,0 +1,176 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Helmet } from "react-helmet-async";
+import { format } from "date-fns";
+import { Megaphone, Ticket, DollarSign, Percent, Copy, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+
+interface PromoterView {
+  ok: boolean;
+  promoter: {
+    name: string;
+    refCode: string;
+    status: string;
+    commissionType: 'percent' | 'fixed' | null;
+    commissionValue: number | null;
+  };
+  event: {
+    title: string;
+    slug: string;
+    startAt: string;
+    venue: string | null;
+    city: string;
+    coverUrl: string | null;
+  };
+  stats: {
+    orders: number;
+    ticketsSold: number;
+    grossCents: number;
+    commissionCents: number | null;
+    lastSaleAt: string | null;
+  };
+  recentSales: Array<{ placedAt: string; tickets: number }>;
+}
+
+const formatMoney = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Read-only sales stats a promoter opens from the private link the organizer shared
+export function TicketsPromoterViewPage() {
+  const { token } = useParams();
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useQuery<PromoterView>({
+    queryKey: [`/api/tickets/promoters/view/${token}`],
+    enabled: !!token
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data?.ok) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertDescription>This promoter link is not valid. Ask the event organizer for a new one.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { promoter, event, stats, recentSales } = data;
+  const trackingLink = `${window.location.origin}/tickets/e/${event.slug}?ref=${promoter.refCode}`;
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(trackingLink);
+    toast({ title: "Link copied", description: "Share it anywhere - sales through it are credited to you." });
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>{`${promoter.name} · ${event.title} | Jugnu`}</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <div className="min-h-screen bg-background px-4 py-10">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Megaphone className="w-4 h-4" />
+              Promoter stats for {promoter.name}
+              {promoter.status !== 'active' && <Badge variant="secondary">Link disabled</Badge>}
+            </div>
+            <h1 className="font-fraunces text-3xl mt-2" data-testid="text-promoter-event-title">{event.title}</h1>
+            <p className="text-muted-foreground">
+              {format(new Date(event.startAt), 'EEEE, MMMM d, yyyy · h:mm a')}
+              {event.venue && ` · ${event.venue}`}
+              {event.city && `, ${event.city}`}
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Your link</CardTitle>
+              <CardDescription>Ticket sales through this link count towards your totals</CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center gap-2">
+              <code className="flex-1 truncate rounded bg-muted px-3 py-2 text-sm" data-testid="text-promoter-link">{trackingLink}</code>
+              <Button variant="outline" size="sm" onClick={copyLink} data-testid="button-copy-promoter-link">
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Tickets Sold</CardTitle>
+                <Ticket className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="text-promoter-tickets">{stats.ticketsSold}</div>
+                <div className="text-xs text-muted-foreground">{stats.orders} orders</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Gross Sales</CardTitle>
+                <DollarSign className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="text-promoter-gross">{formatMoney(stats.grossCents)}</div>
+                <div className="text-xs text-muted-foreground">Before tax and fees</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Commission</CardTitle>
+                <Percent className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="text-promoter-commission">
+                  {stats.commissionCents != null ? formatMoney(stats.commissionCents) : '—'}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {promoter.commissionType === 'percent' && `${promoter.commissionValue}% of gross sales`}
+                  {promoter.commissionType === 'fixed' && `${formatMoney(promoter.commissionValue || 0)} per ticket`}
+                  {!promoter.commissionType && 'No commission set'}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Recent Sales</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {recentSales.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No sales through your link yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {recentSales.map((sale, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm">
+                      <span>{format(new Date(sale.placedAt), 'MMM d, yyyy · h:mm a')}</span>
+                      <Badge variant="secondary">{sale.tickets} {sale.tickets === 1 ? 'ticket' : 'tickets'}</Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
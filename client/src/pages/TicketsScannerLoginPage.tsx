@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Helmet } from "react-helmet-async";
+import { ScanLine } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, errorText } from "@/lib/queryClient";
+
+// Door staff sign in here with the access code an organizer issued them
+export function TicketsScannerLoginPage() {
+  const [, navigate] = useLocation();
+  const [accessCode, setAccessCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const loginMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest('POST', '/api/tickets/scanner/login', { accessCode: code });
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      navigate(`/tickets/organizer/events/${data.scanner.eventId}/checkin`);
+    },
+    onError: (err: Error) => {
+      setError(errorText(err) || 'Could not sign in');
+    }
+  });
+
+  // Organizers can share a link with the code filled in
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('code');
+    if (code) {
+      setAccessCode(code);
+      loginMutation.mutate(code);
+    }
+  }, []);
+
+  return (
+    <>
+      <Helmet>
+        <title>Scanner Sign In | Jugnu</title>
+      </Helmet>
+
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="flex items-center justify-center gap-2 font-fraunces text-2xl">
+              <ScanLine className="w-6 h-6" />
+              Door Staff Sign In
+            </CardTitle>
+            <CardDescription>
+              Enter the scanner access code from the event organizer
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setError(null);
+                loginMutation.mutate(accessCode);
+              }}
+            >
+              <div>
+                <Label htmlFor="accessCode">Access Code</Label>
+                <Input
+                  id="accessCode"
+                  value={accessCode}
+                  onChange={(e) => setAccessCode(e.target.value.toUpperCase())}
+                  placeholder="XXXX-XXXX-XXXX-XXXX"
+                  autoComplete="off"
+                  autoCapitalize="characters"
+                  className="font-mono tracking-wider text-center"
+                  data-testid="input-scanner-access-code"
+                />
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!accessCode.trim() || loginMutation.isPending}
+                data-testid="button-scanner-sign-in"
+              >
+                {loginMutation.isPending ? 'Signing in...' : 'Start Scanning'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
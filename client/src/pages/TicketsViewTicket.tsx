@@ -28,10 +28,15 @@ import {
   RefreshCw,
   ExternalLink,
   Navigation,
-  CheckCircle
+  CheckCircle,
+  Send,
+  Tag,
+  Wallet
 } from 'lucide-react';
 import { format } from 'date-fns';
 import QRCode from 'qrcode';
+import { TicketTransferDialog } from '@/components/TicketTransferDialog';
+import { TicketResaleDialog } from '@/components/TicketResaleDialog';
 import type { TicketsTicket, TicketsOrder, TicketsEvent, TicketsTier } from '@shared/schema';
 
 interface TicketDetails extends TicketsTicket {
@@ -48,6 +53,8 @@ export default function TicketsViewTicket() {
   const [qrCodeUrl, setQrCodeUrl] = useState('');
   const [showFullQr, setShowFullQr] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [resaleOpen, setResaleOpen] = useState(false);
 
   // Fetch ticket details
   const { data: ticket, isLoading, error } = useQuery<TicketDetails>({
@@ -55,6 +62,12 @@ export default function TicketsViewTicket() {
     enabled: !!ticketId,
   });
 
+  // Add-to-wallet links, for whichever wallets the server has set up
+  const { data: walletLinks } = useQuery<{ ok: boolean; appleUrl: string | null; googleUrl: string | null }>({
+    queryKey: [`/api/tickets/my-tickets/${ticketId}/wallet`],
+    enabled: !!ticketId && ticket?.status === 'valid',
+  });
+
   // Generate QR code
   useEffect(() => {
     if (ticket?.ticketCode) {
@@ -173,7 +186,8 @@ export default function TicketsViewTicket() {
       valid: { variant: "default", label: "Valid" },
       used: { variant: "secondary", label: "Used" },
       refunded: { variant: "destructive", label: "Refunded" },
-      cancelled: { variant: "outline", label: "Cancelled" }
+      cancelled: { variant: "outline", label: "Cancelled" },
+      transferred: { variant: "outline", label: "Transferred" }
     };
     
     const config = variants[status] || { variant: "outline", label: status };
@@ -334,6 +348,24 @@ export default function TicketsViewTicket() {
               Download Ticket
             </Button>
             
+            {walletLinks?.appleUrl && (
+              <Button asChild variant="outline" data-testid="button-apple-wallet">
+                <a href={walletLinks.appleUrl}>
+                  <Wallet className="h-4 w-4 mr-2" />
+                  Add to Apple Wallet
+                </a>
+              </Button>
+            )}
+
+            {walletLinks?.googleUrl && (
+              <Button asChild variant="outline" data-testid="button-google-wallet">
+                <a href={walletLinks.googleUrl} target="_blank" rel="noopener noreferrer">
+                  <Wallet className="h-4 w-4 mr-2" />
+                  Save to Google Wallet
+                </a>
+              </Button>
+            )}
+            
             <Button
               onClick={() => resendEmailMutation.mutate()}
               variant="outline"
@@ -387,6 +419,28 @@ export default function TicketsViewTicket() {
               </Button>
             )}
 
+            {ticket.status === 'valid' && (
+              <Button
+                onClick={() => setTransferOpen(true)}
+                variant="outline"
+                data-testid="button-transfer"
+              >
+                <Send className="h-4 w-4 mr-2" />
+                Transfer
+              </Button>
+            )}
+
+            {ticket.status === 'valid' && ticket.event.resaleEnabled && (
+              <Button
+                onClick={() => setResaleOpen(true)}
+                variant="outline"
+                data-testid="button-resell"
+              >
+                <Tag className="h-4 w-4 mr-2" />
+                Resell
+              </Button>
+            )}
+
             <Button
               onClick={() => setLocation(`/events/${ticket.event.slug}`)}
               variant="ghost"
@@ -420,6 +474,25 @@ export default function TicketsViewTicket() {
         </CardContent>
       </Card>
 
+      {/* The old QR code stops working once the ticket changes hands */}
+      {ticketId && (
+        <>
+          <TicketTransferDialog
+            ticketId={ticketId}
+            eventTitle={ticket.event.title}
+            open={transferOpen}
+            onOpenChange={setTransferOpen}
+            onTransferred={() => setLocation('/my-tickets')}
+          />
+          <TicketResaleDialog
+            ticketId={ticketId}
+            eventTitle={ticket.event.title}
+            open={resaleOpen}
+            onOpenChange={setResaleOpen}
+          />
+        </>
+      )}
+
       {/* Full Screen QR Code Dialog */}
       <Dialog open={showFullQr} onOpenChange={setShowFullQr}>
         <DialogContent className="max-w-md">
@@ -0,0 +1,44 @@
+-- Admin users: named accounts with roles, and an audit trail of who did what
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  name text,
+  role text NOT NULL CHECK (role IN ('super_admin', 'sales', 'content', 'support')),
+  password_hash text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  last_login_at timestamptz,
+  created_by uuid REFERENCES admin_users(id) ON DELETE SET NULL,
+  bootstrap boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS admin_users_email_unique ON admin_users (lower(email));
+
+-- The account created from ADMIN_PASSWORD on a fresh install. Only one can ever exist, so two
+-- first sign-ins racing each other can't both become super admins.
+CREATE UNIQUE INDEX IF NOT EXISTS admin_users_bootstrap_unique ON admin_users (bootstrap) WHERE bootstrap;
+
+-- routes-admin.ts used to create this on startup; make sure it exists either way
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  action text NOT NULL,
+  details jsonb,
+  user_id text,
+  ip_address text,
+  user_agent text
+);
+
+-- Who made the change (an admin user, or the shared key used by scripts) and the request it came from
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS actor_email text;
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS actor_role text;
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS method text;
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS path text;
+ALTER TABLE admin_audit_log ADD COLUMN IF NOT EXISTS status_code integer;
+
+CREATE INDEX IF NOT EXISTS admin_audit_log_created_at_idx ON admin_audit_log (created_at DESC);
+CREATE INDEX IF NOT EXISTS admin_audit_log_action_idx ON admin_audit_log (action);
+CREATE INDEX IF NOT EXISTS admin_audit_log_user_id_idx ON admin_audit_log (user_id);
@@ -0,0 +1,67 @@
+-- Sponsor ad events: append-only log of impressions, viewable impressions and clicks, rolled up into sponsor_metrics_daily
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS sponsor_ad_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES sponsor_campaigns(id) ON DELETE CASCADE,
+  creative_id uuid, -- absent from older clients
+  placement text NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN ('impression', 'viewable', 'click')),
+  day date NOT NULL, -- Vancouver-local, same as sponsor_metrics_daily
+  visitor_id text,
+  device_type text,
+  view_duration_ms integer,
+  billable boolean NOT NULL DEFAULT false, -- impressions only, decided against sponsor_exposures at ingest
+  is_bot boolean NOT NULL DEFAULT false, -- kept for auditing, never rolled up
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sponsor_ad_events_day ON sponsor_ad_events(day);
+CREATE INDEX IF NOT EXISTS idx_sponsor_ad_events_campaign_day ON sponsor_ad_events(campaign_id, day);
+
+ALTER TABLE sponsor_metrics_daily ADD COLUMN IF NOT EXISTS viewable_impressions integer NOT NULL DEFAULT 0;
+
+-- Rebuild the daily metrics for a range of days from the event log. Every counter is
+-- recomputed from scratch and overwritten, so running it twice gives the same numbers.
+-- Days with no logged events (from before the log existed) are left as they were.
+CREATE OR REPLACE FUNCTION rollup_sponsor_metrics(
+  p_from date,
+  p_to date,
+  p_viewable_min_ms integer DEFAULT 1000
+)
+RETURNS integer AS $$
+DECLARE
+  v_rows integer;
+BEGIN
+  -- Overlapping rollups would just redo the same work; let them queue instead
+  PERFORM pg_advisory_xact_lock(hashtext('sponsor_metrics_rollup'));
+
+  INSERT INTO sponsor_metrics_daily (
+    campaign_id, creative_id, placement, day,
+    raw_views, billable_impressions, viewable_impressions, unique_users, clicks, updated_at
+  )
+  SELECT
+    e.campaign_id, e.creative_id, e.placement, e.day,
+    count(*) FILTER (WHERE e.event_type = 'impression'),
+    count(*) FILTER (WHERE e.event_type = 'impression' AND e.billable),
+    count(*) FILTER (WHERE e.event_type = 'viewable' AND COALESCE(e.view_duration_ms, 0) >= p_viewable_min_ms),
+    count(DISTINCT e.visitor_id) FILTER (WHERE e.event_type = 'impression'),
+    count(*) FILTER (WHERE e.event_type = 'click'),
+    now()
+  FROM sponsor_ad_events e
+  WHERE e.day BETWEEN p_from AND p_to
+    AND NOT e.is_bot
+  GROUP BY e.campaign_id, e.creative_id, e.placement, e.day
+  ON CONFLICT (campaign_id, creative_id, placement, day) DO UPDATE SET
+    raw_views = EXCLUDED.raw_views,
+    billable_impressions = EXCLUDED.billable_impressions,
+    viewable_impressions = EXCLUDED.viewable_impressions,
+    unique_users = EXCLUDED.unique_users,
+    clicks = EXCLUDED.clicks,
+    updated_at = now();
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,6 @@
+-- Sponsor creative A/B tests are called once, when every variant first reaches ab_min_impressions
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- Per placement: { decidedAt, winnerCreativeId, creativeIds, minImpressions }. Checking the test
+-- again on later data would make a false winner more likely, so auto-promotion only acts on this
+ALTER TABLE sponsor_campaigns ADD COLUMN IF NOT EXISTS ab_decisions jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,31 @@
+-- Sponsor creative A/B tests: variants with traffic splits, and automatic winner promotion
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- A variant can change the copy as well as the images; blank fields fall back to the campaign's
+ALTER TABLE sponsor_creatives ADD COLUMN IF NOT EXISTS variant_label text;
+ALTER TABLE sponsor_creatives ADD COLUMN IF NOT EXISTS headline text;
+ALTER TABLE sponsor_creatives ADD COLUMN IF NOT EXISTS subline text;
+ALTER TABLE sponsor_creatives ADD COLUMN IF NOT EXISTS cta_text text;
+
+-- Percent of a placement's serves this variant gets under split rotation; null splits what's left
+ALTER TABLE sponsor_creatives ADD COLUMN IF NOT EXISTS traffic_weight integer
+  CHECK (traffic_weight IS NULL OR (traffic_weight BETWEEN 0 AND 100));
+
+-- Set on the variant a test picked as the winner for its placement
+ALTER TABLE sponsor_creatives ADD COLUMN IF NOT EXISTS promoted_at timestamptz;
+
+-- 'split' serves variants by traffic_weight so their click-through rates can be compared
+ALTER TABLE sponsor_campaigns DROP CONSTRAINT IF EXISTS sponsor_campaigns_creative_rotation_check;
+ALTER TABLE sponsor_campaigns ADD CONSTRAINT sponsor_campaigns_creative_rotation_check
+  CHECK (creative_rotation IN ('even', 'performance', 'split'));
+
+-- When a split test is significant at ab_confidence with every variant past ab_min_impressions,
+-- the winner takes all of the placement's traffic and the other variants are paused
+ALTER TABLE sponsor_campaigns ADD COLUMN IF NOT EXISTS ab_auto_promote boolean NOT NULL DEFAULT false;
+ALTER TABLE sponsor_campaigns ADD COLUMN IF NOT EXISTS ab_confidence numeric NOT NULL DEFAULT 0.95
+  CHECK (ab_confidence > 0 AND ab_confidence < 1);
+ALTER TABLE sponsor_campaigns ADD COLUMN IF NOT EXISTS ab_min_impressions integer NOT NULL DEFAULT 1000
+  CHECK (ab_min_impressions >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_sponsor_metrics_daily_campaign_creative
+  ON sponsor_metrics_daily (campaign_id, placement, creative_id);
@@ -0,0 +1,59 @@
+-- Sponsor exposures: how often each visitor has seen each campaign per day, for frequency caps and impression dedup
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS sponsor_exposures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES sponsor_campaigns(id) ON DELETE CASCADE,
+  visitor_id text NOT NULL,
+  day date NOT NULL, -- Vancouver-local, same as sponsor_metrics_daily
+  impressions integer NOT NULL DEFAULT 0,
+  billable_impressions integer NOT NULL DEFAULT 0,
+  last_billable_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT sponsor_exposures_campaign_visitor_day_unique UNIQUE (campaign_id, visitor_id, day)
+);
+
+-- /api/spotlight/active looks up everything a visitor has seen today
+CREATE INDEX IF NOT EXISTS idx_sponsor_exposures_visitor_day ON sponsor_exposures(visitor_id, day);
+
+-- Count one impression and decide whether it's billable, atomically. Not billable when the
+-- last billable impression was within the dedup window or the daily cap (0 = none) is reached.
+CREATE OR REPLACE FUNCTION record_sponsor_exposure(
+  p_campaign_id uuid,
+  p_visitor_id text,
+  p_day date,
+  p_freq_cap integer,
+  p_dedup_seconds integer
+)
+RETURNS TABLE (first_today boolean, billable boolean) AS $$
+DECLARE
+  v_exposure sponsor_exposures%ROWTYPE;
+  v_billable boolean;
+BEGIN
+  INSERT INTO sponsor_exposures (campaign_id, visitor_id, day)
+  VALUES (p_campaign_id, p_visitor_id, p_day)
+  ON CONFLICT (campaign_id, visitor_id, day) DO NOTHING;
+
+  SELECT * INTO v_exposure
+  FROM sponsor_exposures
+  WHERE campaign_id = p_campaign_id AND visitor_id = p_visitor_id AND day = p_day
+  FOR UPDATE;
+
+  v_billable := (v_exposure.last_billable_at IS NULL
+      OR v_exposure.last_billable_at < now() - make_interval(secs => p_dedup_seconds))
+    AND (p_freq_cap <= 0 OR v_exposure.billable_impressions < p_freq_cap);
+
+  UPDATE sponsor_exposures
+  SET impressions = impressions + 1,
+      billable_impressions = billable_impressions + CASE WHEN v_billable THEN 1 ELSE 0 END,
+      last_billable_at = CASE WHEN v_billable THEN now() ELSE last_billable_at END,
+      updated_at = now()
+  WHERE campaign_id = p_campaign_id AND visitor_id = p_visitor_id AND day = p_day;
+
+  RETURN QUERY SELECT v_exposure.impressions = 0, v_billable;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Exposures are only read for today; old rows can be cleared with:
+-- DELETE FROM sponsor_exposures WHERE day < current_date - 30;
@@ -0,0 +1,109 @@
+-- Sponsor placement inventory: booking days with rotation slots and short-lived holds
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- Each active row takes one rotation slot on a placement for a day. A row with
+-- hold_expires_at is a hold (from a quote or a pending application); without it the day is sold.
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS slot integer NOT NULL DEFAULT 1;
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS quote_id uuid REFERENCES sponsor_quotes(id) ON DELETE SET NULL;
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS lead_id uuid REFERENCES sponsor_leads(id) ON DELETE CASCADE;
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS hold_expires_at timestamptz;
+
+-- One booking per slot instead of one per day, so placements can sell more than one rotation slot
+DROP INDEX IF EXISTS sponsor_booking_days_placement_day_active_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS sponsor_booking_days_placement_day_slot_unique
+  ON sponsor_booking_days (placement, day, slot) WHERE is_active = true;
+
+CREATE INDEX IF NOT EXISTS idx_sponsor_booking_days_quote ON sponsor_booking_days (quote_id);
+CREATE INDEX IF NOT EXISTS idx_sponsor_booking_days_lead ON sponsor_booking_days (lead_id);
+CREATE INDEX IF NOT EXISTS idx_sponsor_booking_days_placement_day ON sponsor_booking_days (placement, day);
+
+-- Hold (or, with a null expiry, sell) every placement on every day for one quote, lead or
+-- campaign. Nothing is written unless all of them fit; the days that don't are returned
+-- instead. The booking's own earlier holds are replaced, so re-holding extends or converts them.
+CREATE OR REPLACE FUNCTION hold_sponsor_days(
+  p_placements text[],
+  p_days date[],
+  p_capacity jsonb,
+  p_expires_at timestamptz,
+  p_quote_id uuid DEFAULT NULL,
+  p_lead_id uuid DEFAULT NULL,
+  p_campaign_id uuid DEFAULT NULL
+)
+RETURNS TABLE (full_placement text, full_day date) AS $$
+DECLARE
+  v_placement text;
+  v_day date;
+  v_slot integer;
+BEGIN
+  -- Serialize bookings per placement so two holds can't both take the last slot
+  FOR v_placement IN SELECT DISTINCT unnest(p_placements) ORDER BY 1 LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('sponsor_inventory:' || v_placement));
+  END LOOP;
+
+  DELETE FROM sponsor_booking_days b
+  WHERE b.hold_expires_at IS NOT NULL
+    AND b.hold_expires_at <= now()
+    AND b.placement = ANY(p_placements);
+
+  RETURN QUERY
+    SELECT p.placement, d.day
+    FROM unnest(p_placements) AS p(placement)
+    CROSS JOIN unnest(p_days) AS d(day)
+    WHERE (
+      SELECT count(*) FROM sponsor_booking_days b
+      WHERE b.placement = p.placement
+        AND b.day = d.day
+        AND b.is_active
+        AND NOT (
+          NOT b.is_makegood AND (
+            (p_quote_id IS NOT NULL AND b.quote_id = p_quote_id)
+            OR (p_lead_id IS NOT NULL AND b.lead_id = p_lead_id)
+            OR (p_campaign_id IS NOT NULL AND b.campaign_id = p_campaign_id)
+          )
+        )
+    ) >= COALESCE((p_capacity ->> p.placement)::integer, 1)
+    ORDER BY d.day, p.placement;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM sponsor_booking_days b
+  WHERE NOT b.is_makegood
+    AND (
+      (p_quote_id IS NOT NULL AND b.quote_id = p_quote_id)
+      OR (p_lead_id IS NOT NULL AND b.lead_id = p_lead_id)
+      OR (p_campaign_id IS NOT NULL AND b.campaign_id = p_campaign_id)
+    );
+
+  FOREACH v_placement IN ARRAY p_placements LOOP
+    FOREACH v_day IN ARRAY p_days LOOP
+      SELECT min(s) INTO v_slot
+      FROM generate_series(1, COALESCE((p_capacity ->> v_placement)::integer, 1)) AS s
+      WHERE NOT EXISTS (
+        SELECT 1 FROM sponsor_booking_days b
+        WHERE b.placement = v_placement AND b.day = v_day AND b.is_active AND b.slot = s
+      );
+
+      INSERT INTO sponsor_booking_days (campaign_id, quote_id, lead_id, placement, day, slot, is_active, hold_expires_at)
+      VALUES (p_campaign_id, p_quote_id, p_lead_id, v_placement, v_day, v_slot, true, p_expires_at);
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Leads approved before inventory was tracked keep their days
+INSERT INTO sponsor_booking_days (lead_id, placement, day, slot, is_active)
+SELECT l.id, p.placement, d::date, 1, true
+FROM sponsor_leads l
+CROSS JOIN LATERAL unnest(CASE l.package_code
+  WHEN 'events_spotlight' THEN ARRAY['events_banner']
+  WHEN 'homepage_feature' THEN ARRAY['home_mid']
+  WHEN 'full_feature' THEN ARRAY['events_banner', 'home_mid']
+  ELSE ARRAY[]::text[]
+END) AS p(placement)
+CROSS JOIN LATERAL generate_series(l.start_date, l.end_date, interval '1 day') AS d
+WHERE l.status IN ('approved', 'onboarding_sent', 'onboarded')
+  AND l.start_date IS NOT NULL
+  AND l.end_date >= current_date
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,44 @@
+-- Sponsor invoices issued when a lead is approved
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE SEQUENCE IF NOT EXISTS sponsor_invoice_number_seq;
+
+CREATE TABLE IF NOT EXISTS sponsor_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- e.g. SP-2026-00042; numbers are never reused, even for void invoices
+  number text NOT NULL UNIQUE
+    DEFAULT 'SP-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('sponsor_invoice_number_seq')::text, 5, '0'),
+  lead_id uuid NOT NULL REFERENCES sponsor_leads(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'void')),
+  currency text NOT NULL DEFAULT 'CAD',
+  province text NOT NULL DEFAULT 'BC',
+  -- [{ kind: package | addon | promo | credits, description, amountCents }]
+  line_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subtotal_cents integer NOT NULL,
+  tax_breakdown jsonb, -- GST/HST/QST components, same shape as ticket orders
+  tax_cents integer NOT NULL DEFAULT 0,
+  total_cents integer NOT NULL,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  due_at timestamptz,
+  paid_at timestamptz,
+  stripe_payment_link_id text,
+  stripe_payment_link_url text,
+  stripe_checkout_session_id text,
+  stripe_payment_intent_id text,
+  -- An admin can let the campaign run before payment lands; the invoice stays open
+  override_at timestamptz,
+  override_by text,
+  override_reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sponsor_invoices_lead ON sponsor_invoices (lead_id);
+-- A lead has at most one live invoice; voiding it lets a new one be issued
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sponsor_invoices_lead_live ON sponsor_invoices (lead_id) WHERE status <> 'void';
+CREATE INDEX IF NOT EXISTS idx_sponsor_invoices_payment_link ON sponsor_invoices (stripe_payment_link_id);
+
+-- Mirrors the lead's latest invoice; null for leads approved before invoicing
+ALTER TABLE sponsor_leads ADD COLUMN IF NOT EXISTS payment_status text
+  CHECK (payment_status IS NULL OR payment_status IN ('unpaid', 'paid', 'overridden'));
+ALTER TABLE sponsor_leads ADD COLUMN IF NOT EXISTS paid_at timestamptz;
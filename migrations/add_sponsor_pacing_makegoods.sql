@@ -0,0 +1,18 @@
+-- Sponsor delivery pacing and makegoods
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- Rotation weight multiplier per placement for campaigns behind on delivery, e.g. { "home_mid": 1.8 }
+ALTER TABLE sponsor_campaigns ADD COLUMN IF NOT EXISTS pacing_boosts jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Makegood days are booking days offered to an under-delivered campaign. They stay inactive
+-- (and don't hold the day) until an admin approves them.
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS is_makegood boolean NOT NULL DEFAULT false;
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS makegood_status text
+  CHECK (makegood_status IS NULL OR makegood_status IN ('proposed', 'approved', 'declined'));
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS makegood_impressions integer;
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS created_at timestamptz NOT NULL DEFAULT now();
+ALTER TABLE sponsor_booking_days ADD COLUMN IF NOT EXISTS decided_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_sponsor_booking_days_makegood
+  ON sponsor_booking_days (day, makegood_status) WHERE is_makegood = true;
+CREATE INDEX IF NOT EXISTS idx_sponsor_booking_days_campaign ON sponsor_booking_days (campaign_id);
@@ -0,0 +1,18 @@
+-- Sponsor rotation: share of voice between concurrent campaigns, and several creatives per campaign
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- Percent of serves a campaign gets on each of its placements; null splits whatever isn't booked
+ALTER TABLE sponsor_campaigns ADD COLUMN IF NOT EXISTS share_of_voice integer
+  CHECK (share_of_voice IS NULL OR (share_of_voice BETWEEN 0 AND 100));
+
+-- How a campaign's creatives take turns: 'even' or 'performance' (favours the better click-through)
+ALTER TABLE sponsor_campaigns ADD COLUMN IF NOT EXISTS creative_rotation text NOT NULL DEFAULT 'even'
+  CHECK (creative_rotation IN ('even', 'performance'));
+
+-- Creatives can be paused without deleting their metrics
+ALTER TABLE sponsor_creatives ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+-- Impressions are now counted per creative, so a day has one row per creative on a placement
+DROP INDEX IF EXISTS sponsor_metrics_daily_unique_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS sponsor_metrics_daily_creative_unique_idx
+  ON sponsor_metrics_daily (campaign_id, creative_id, placement, day) NULLS NOT DISTINCT;
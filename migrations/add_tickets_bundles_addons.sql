@@ -0,0 +1,29 @@
+-- Bundle tiers ("table for 6") and add-on products (parking, merch) sold alongside admission
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+ALTER TABLE tickets_tiers ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'admission'; -- admission | addon
+ALTER TABLE tickets_tiers ADD COLUMN IF NOT EXISTS tickets_per_unit integer NOT NULL DEFAULT 1;
+ALTER TABLE tickets_tiers ADD COLUMN IF NOT EXISTS addon_fulfillment text; -- none | voucher
+ALTER TABLE tickets_tiers ADD COLUMN IF NOT EXISTS taxable boolean NOT NULL DEFAULT true;
+
+ALTER TABLE tickets_tiers DROP CONSTRAINT IF EXISTS tiers_kind_check;
+ALTER TABLE tickets_tiers ADD CONSTRAINT tiers_kind_check CHECK (
+  (kind = 'admission' AND tickets_per_unit BETWEEN 1 AND 50 AND addon_fulfillment IS NULL) OR
+  (kind = 'addon' AND tickets_per_unit = 1 AND addon_fulfillment IN ('none', 'voucher'))
+);
+
+-- One code per voucher add-on unit bought
+CREATE TABLE IF NOT EXISTS tickets_vouchers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES tickets_orders(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES tickets_order_items(id) ON DELETE CASCADE,
+  tier_id uuid NOT NULL REFERENCES tickets_tiers(id),
+  code text NOT NULL UNIQUE,
+  status text NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'redeemed', 'void')),
+  redeemed_at timestamp with time zone,
+  redeemed_by text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vouchers_order ON tickets_vouchers(order_id);
+CREATE INDEX IF NOT EXISTS idx_vouchers_tier ON tickets_vouchers(tier_id);
@@ -0,0 +1,12 @@
+-- When each offline scanning device last talked to the server, used to bound the scan times it reports
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_checkin_devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  device_id text NOT NULL, -- random id the device generates for itself
+  manifest_downloaded_at timestamp with time zone, -- latest download
+  last_synced_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(), -- first contact, the bound until the first sync
+  CONSTRAINT checkin_devices_event_device_unique UNIQUE (event_id, device_id)
+);
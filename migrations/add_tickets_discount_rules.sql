@@ -0,0 +1,106 @@
+-- Discount code rules, bulk-generated batches and atomic redemption
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+ALTER TABLE tickets_discounts ADD COLUMN IF NOT EXISTS tier_ids jsonb; -- null = every tier
+ALTER TABLE tickets_discounts ADD COLUMN IF NOT EXISTS min_quantity integer CHECK (min_quantity IS NULL OR min_quantity > 0);
+ALTER TABLE tickets_discounts ADD COLUMN IF NOT EXISTS batch_id uuid;
+
+-- Codes are stored upper-case and must be unique within an event
+UPDATE tickets_discounts SET code = upper(code) WHERE code <> upper(code);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discounts_event_code ON tickets_discounts(event_id, code);
+CREATE INDEX IF NOT EXISTS idx_discounts_batch ON tickets_discounts(batch_id) WHERE batch_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS tickets_discount_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  discount_id uuid NOT NULL REFERENCES tickets_discounts(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL UNIQUE REFERENCES tickets_orders(id) ON DELETE CASCADE,
+  held_until timestamp with time zone, -- set while the order is in checkout; null once it's paid
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_redemptions_discount ON tickets_discount_redemptions(discount_id);
+
+-- Give back the uses held by checkouts that were never paid and have run out of time
+CREATE OR REPLACE FUNCTION release_expired_ticket_discount_holds(p_discount_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_released integer;
+BEGIN
+  DELETE FROM tickets_discount_redemptions
+  WHERE discount_id = p_discount_id
+    AND held_until IS NOT NULL
+    AND held_until < now();
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+
+  IF v_released > 0 THEN
+    UPDATE tickets_discounts
+    SET used_count = GREATEST(used_count - v_released, 0),
+        status = CASE WHEN status = 'exhausted' THEN 'active' ELSE status END
+    WHERE id = p_discount_id;
+  END IF;
+
+  RETURN v_released;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count one use of a discount for an order. Checkout holds the use until
+-- p_held_until; paying calls it again without one, which keeps the use for
+-- good. The usage check and increment happen in a single statement, so
+-- concurrent orders can't push a code past max_uses. Returns false when the
+-- code has no uses left.
+DROP FUNCTION IF EXISTS redeem_ticket_discount(uuid, uuid);
+CREATE OR REPLACE FUNCTION redeem_ticket_discount(p_discount_id uuid, p_order_id uuid, p_held_until timestamp with time zone DEFAULT NULL)
+RETURNS boolean AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM tickets_discount_redemptions WHERE order_id = p_order_id) THEN
+    IF p_held_until IS NULL THEN
+      UPDATE tickets_discount_redemptions SET held_until = NULL WHERE order_id = p_order_id;
+    END IF;
+    RETURN true;
+  END IF;
+
+  PERFORM release_expired_ticket_discount_holds(p_discount_id);
+
+  UPDATE tickets_discounts
+  SET used_count = used_count + 1,
+      status = CASE
+        WHEN max_uses IS NOT NULL AND used_count + 1 >= max_uses THEN 'exhausted'
+        ELSE status
+      END
+  WHERE id = p_discount_id
+    AND (max_uses IS NULL OR used_count < max_uses);
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO tickets_discount_redemptions (discount_id, order_id, held_until)
+  VALUES (p_discount_id, p_order_id, p_held_until);
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give back the use an unpaid order was holding, e.g. when its checkout expires
+CREATE OR REPLACE FUNCTION release_ticket_discount(p_order_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  v_discount_id uuid;
+BEGIN
+  DELETE FROM tickets_discount_redemptions
+  WHERE order_id = p_order_id
+    AND held_until IS NOT NULL
+  RETURNING discount_id INTO v_discount_id;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE tickets_discounts
+  SET used_count = GREATEST(used_count - 1, 0),
+      status = CASE WHEN status = 'exhausted' THEN 'active' ELSE status END
+  WHERE id = v_discount_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;
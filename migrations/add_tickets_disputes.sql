@@ -0,0 +1,25 @@
+-- Card disputes against ticket orders; tickets are blocked while a dispute is open
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES tickets_orders(id),
+  organizer_id uuid NOT NULL REFERENCES organizers(id),
+  stripe_dispute_id text NOT NULL UNIQUE,
+  stripe_charge_id text NOT NULL,
+  stripe_account_id text,
+  amount_cents integer NOT NULL,
+  currency text NOT NULL DEFAULT 'CAD',
+  reason text NOT NULL,
+  status text NOT NULL,
+  evidence_due_by timestamp with time zone,
+  blocked_ticket_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+  funds_withdrawn_at timestamp with time zone,
+  funds_reinstated_at timestamp with time zone,
+  closed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS disputes_order_idx ON tickets_disputes(order_id);
+CREATE INDEX IF NOT EXISTS disputes_organizer_status_idx ON tickets_disputes(organizer_id, status);
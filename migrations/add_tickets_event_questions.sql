@@ -0,0 +1,34 @@
+-- Custom attendee questions asked at checkout, and the buyers' answers
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_event_questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  label text NOT NULL,
+  help_text text,
+  type text NOT NULL CHECK (type IN ('text', 'textarea', 'select', 'checkbox', 'number')),
+  options jsonb, -- ["S", "M", "L"] for select questions
+  required boolean NOT NULL DEFAULT false,
+  applies_to text NOT NULL DEFAULT 'order' CHECK (applies_to IN ('order', 'ticket')),
+  tier_ids jsonb, -- ticket questions only: tiers that get asked; null = every tier
+  sort_order integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'active', -- active | hidden
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_questions_event ON tickets_event_questions(event_id);
+
+-- Ticket answers carry the tier and position within the order until the tickets are issued
+CREATE TABLE IF NOT EXISTS tickets_order_answers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES tickets_orders(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES tickets_event_questions(id) ON DELETE CASCADE,
+  tier_id uuid,
+  ticket_index integer,
+  ticket_id uuid REFERENCES tickets_tickets(id) ON DELETE SET NULL,
+  value text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_answers_order ON tickets_order_answers(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_answers_question ON tickets_order_answers(question_id);
@@ -0,0 +1,37 @@
+-- Recurring and multi-date events: occurrences, per-date inventory and series passes
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+ALTER TABLE tickets_events ADD COLUMN IF NOT EXISTS recurrence_rule jsonb; -- { frequency, interval, count, until, weekdays }
+ALTER TABLE tickets_tiers ADD COLUMN IF NOT EXISTS series_pass boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS tickets_event_occurrences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  start_at timestamp with time zone NOT NULL,
+  end_at timestamp with time zone,
+  status text NOT NULL DEFAULT 'scheduled', -- scheduled | canceled
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT occurrences_event_start_unique UNIQUE (event_id, start_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_occurrences_event_start ON tickets_event_occurrences(event_id, start_at);
+
+-- The date a series order (and its dated tickets) is for
+ALTER TABLE tickets_orders ADD COLUMN IF NOT EXISTS occurrence_id uuid REFERENCES tickets_event_occurrences(id) ON DELETE SET NULL;
+ALTER TABLE tickets_tickets ADD COLUMN IF NOT EXISTS occurrence_id uuid REFERENCES tickets_event_occurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_tier_occurrence ON tickets_tickets(tier_id, occurrence_id);
+
+-- A series pass is scanned once per occurrence
+CREATE TABLE IF NOT EXISTS tickets_occurrence_checkins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid NOT NULL REFERENCES tickets_tickets(id) ON DELETE CASCADE,
+  occurrence_id uuid NOT NULL REFERENCES tickets_event_occurrences(id) ON DELETE CASCADE,
+  checked_in_at timestamp with time zone NOT NULL DEFAULT now(),
+  checked_in_by text,
+  gate_id uuid REFERENCES tickets_event_gates(id) ON DELETE SET NULL,
+  scanner_id uuid REFERENCES tickets_scanners(id) ON DELETE SET NULL,
+  CONSTRAINT occurrence_checkins_ticket_occurrence_unique UNIQUE (ticket_id, occurrence_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_occurrence_checkins_occurrence ON tickets_occurrence_checkins(occurrence_id);
@@ -0,0 +1,8 @@
+-- Capacity holds and waitlist entries for one date of a series event
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- NULL means the hold isn't tied to a date and counts against every date
+ALTER TABLE tickets_capacity_reservations ADD COLUMN IF NOT EXISTS occurrence_id uuid REFERENCES tickets_event_occurrences(id) ON DELETE CASCADE;
+ALTER TABLE tickets_waitlist ADD COLUMN IF NOT EXISTS occurrence_id uuid REFERENCES tickets_event_occurrences(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_capacity_reservations_tier_occurrence ON tickets_capacity_reservations(tier_id, occurrence_id);
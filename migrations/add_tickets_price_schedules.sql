@@ -0,0 +1,8 @@
+-- Tier pricing schedules (early bird -> regular -> door)
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- Later prices for a tier, in order. Each step is
+-- { "label": "Regular", "price_cents": 3500, "starts_at": "2025-06-01T00:00:00Z", "after_sold": 100 }
+-- and takes over once its start time passes or the tier has sold after_sold tickets.
+-- price_cents on the tier stays the opening price.
+ALTER TABLE tickets_tiers ADD COLUMN IF NOT EXISTS price_schedule jsonb;
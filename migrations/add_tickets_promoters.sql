@@ -0,0 +1,24 @@
+-- Promoter / affiliate referral links and order attribution
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_promoters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  email text,
+  ref_code text NOT NULL, -- the ?ref= value on the event link
+  commission_type text CHECK (commission_type IS NULL OR commission_type IN ('percent', 'fixed')),
+  commission_value numeric CHECK (commission_value IS NULL OR commission_value >= 0), -- percent of gross, or cents per ticket
+  view_token text NOT NULL UNIQUE, -- read-only stats link for the promoter
+  status text NOT NULL DEFAULT 'active', -- active | disabled
+  created_by uuid REFERENCES organizers(id),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT promoters_event_ref_unique UNIQUE (event_id, ref_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promoters_event ON tickets_promoters(event_id);
+
+-- Which promoter link an order came through
+ALTER TABLE tickets_orders ADD COLUMN IF NOT EXISTS promoter_id uuid REFERENCES tickets_promoters(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_promoter ON tickets_orders(promoter_id) WHERE promoter_id IS NOT NULL;
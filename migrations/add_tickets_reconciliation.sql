@@ -0,0 +1,64 @@
+-- Stripe balance transaction reconciliation and the double-entry journal posted from it
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_reconciliation_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  range_start timestamp with time zone NOT NULL,
+  range_end timestamp with time zone NOT NULL,
+  status text NOT NULL DEFAULT 'running',
+  imported_count integer NOT NULL DEFAULT 0,
+  matched_count integer NOT NULL DEFAULT 0,
+  mismatch_count integer NOT NULL DEFAULT 0,
+  error text,
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  finished_at timestamp with time zone
+);
+
+CREATE TABLE IF NOT EXISTS tickets_stripe_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stripe_id text NOT NULL UNIQUE,
+  type text NOT NULL,
+  reporting_category text,
+  source_id text,
+  amount_cents integer NOT NULL,
+  fee_cents integer NOT NULL DEFAULT 0,
+  net_cents integer NOT NULL,
+  currency text NOT NULL DEFAULT 'CAD',
+  stripe_created_at timestamp with time zone NOT NULL,
+  available_on timestamp with time zone,
+  organizer_id uuid REFERENCES organizers(id),
+  order_id uuid REFERENCES tickets_orders(id),
+  ledger_entry_id uuid REFERENCES tickets_ledger(id),
+  status text NOT NULL DEFAULT 'unmatched',
+  mismatch_reason text,
+  expected_cents integer,
+  run_id uuid REFERENCES tickets_reconciliation_runs(id),
+  resolved_at timestamp with time zone,
+  resolved_by text,
+  resolution_note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS stripe_transactions_status_idx ON tickets_stripe_transactions(status);
+CREATE INDEX IF NOT EXISTS stripe_transactions_order_idx ON tickets_stripe_transactions(order_id);
+CREATE INDEX IF NOT EXISTS stripe_transactions_organizer_idx ON tickets_stripe_transactions(organizer_id, stripe_created_at);
+
+CREATE TABLE IF NOT EXISTS tickets_journal_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_id uuid NOT NULL,
+  account text NOT NULL,
+  debit_cents integer NOT NULL DEFAULT 0,
+  credit_cents integer NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'CAD',
+  organizer_id uuid REFERENCES organizers(id),
+  order_id uuid REFERENCES tickets_orders(id),
+  stripe_transaction_id uuid REFERENCES tickets_stripe_transactions(id) ON DELETE CASCADE,
+  memo text,
+  posted_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS journal_lines_journal_idx ON tickets_journal_lines(journal_id);
+CREATE INDEX IF NOT EXISTS journal_lines_account_idx ON tickets_journal_lines(account, organizer_id);
+CREATE INDEX IF NOT EXISTS journal_lines_stripe_transaction_idx ON tickets_journal_lines(stripe_transaction_id);
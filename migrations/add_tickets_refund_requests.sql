@@ -0,0 +1,26 @@
+-- Buyer refund requests with an organizer review queue
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- { "maxCents": 5000, "minHoursBeforeEvent": 48 } - either limit may be null; null rule means every request is reviewed
+ALTER TABLE tickets_events ADD COLUMN IF NOT EXISTS refund_auto_approve jsonb;
+
+CREATE TABLE IF NOT EXISTS tickets_refund_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES tickets_orders(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  ticket_ids jsonb NOT NULL,
+  buyer_email text NOT NULL,
+  reason text NOT NULL,
+  requested_cents integer NOT NULL CHECK (requested_cents >= 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'declined')),
+  approved_cents integer CHECK (approved_cents >= 0),
+  auto_approved boolean NOT NULL DEFAULT false,
+  decision_note text,
+  decided_by text,
+  decided_at timestamp with time zone,
+  stripe_refund_id text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS refund_requests_event_status_idx ON tickets_refund_requests(event_id, status);
+CREATE INDEX IF NOT EXISTS refund_requests_order_idx ON tickets_refund_requests(order_id);
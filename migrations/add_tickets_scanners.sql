@@ -0,0 +1,32 @@
+-- Check-in gates and event-scoped scanner accounts for door staff
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_event_gates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT event_gates_event_name_unique UNIQUE (event_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS tickets_scanners (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  gate_id uuid REFERENCES tickets_event_gates(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  access_code_hash text NOT NULL UNIQUE, -- sha256 of the access code; the code itself is only shown once
+  status text NOT NULL DEFAULT 'active', -- active | revoked
+  created_by uuid REFERENCES organizers(id),
+  last_seen_at timestamp with time zone,
+  revoked_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scanners_event ON tickets_scanners(event_id);
+
+-- Which gate and scanner account checked each ticket in
+ALTER TABLE tickets_tickets ADD COLUMN IF NOT EXISTS gate_id uuid REFERENCES tickets_event_gates(id) ON DELETE SET NULL;
+ALTER TABLE tickets_tickets ADD COLUMN IF NOT EXISTS scanner_id uuid REFERENCES tickets_scanners(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_gate_used ON tickets_tickets(gate_id, used_at) WHERE gate_id IS NOT NULL;
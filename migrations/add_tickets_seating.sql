@@ -0,0 +1,35 @@
+-- Reserved seating: venue seat maps, individual seats and seat assignment on tickets
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_seat_maps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL UNIQUE REFERENCES tickets_events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  layout jsonb NOT NULL, -- { zones: [...], sections: [...] } as submitted by the organizer
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS tickets_seats (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  seat_map_id uuid NOT NULL REFERENCES tickets_seat_maps(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  tier_id uuid NOT NULL REFERENCES tickets_tiers(id),
+  section text NOT NULL,
+  row text NOT NULL,
+  number text NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'available', -- available | held | sold | blocked
+  hold_reservation_id text, -- tickets_capacity_reservations.reservation_id while held at checkout
+  held_until timestamp with time zone,
+  ticket_id uuid REFERENCES tickets_tickets(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT seats_event_section_row_number_unique UNIQUE (event_id, section, row, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seats_event_status ON tickets_seats(event_id, status);
+CREATE INDEX IF NOT EXISTS idx_seats_hold_reservation ON tickets_seats(hold_reservation_id) WHERE hold_reservation_id IS NOT NULL;
+
+-- Seat assignment carried on each ticket
+ALTER TABLE tickets_tickets ADD COLUMN IF NOT EXISTS seat_id uuid REFERENCES tickets_seats(id) ON DELETE SET NULL;
+ALTER TABLE tickets_tickets ADD COLUMN IF NOT EXISTS seat_label text;
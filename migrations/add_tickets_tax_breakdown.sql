@@ -0,0 +1,11 @@
+-- Per-province sales tax: what each order charged under GST/HST/PST/QST/RST
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+-- { province, inclusive, components: [{ code, label, rate_percent, cents }] }; null on older orders
+ALTER TABLE tickets_orders ADD COLUMN IF NOT EXISTS tax_breakdown jsonb;
+
+-- Quarterly tax summaries read an organizer's paid orders by date
+CREATE INDEX IF NOT EXISTS idx_tickets_orders_event_placed ON tickets_orders(event_id, placed_at);
+
+-- Rates now come from the event's province; flat gst/pst percents on older events are ignored
+ALTER TABLE tickets_events ALTER COLUMN tax_settings SET DEFAULT '{"collectTax": true, "taxInclusive": false}'::jsonb;
@@ -0,0 +1,36 @@
+-- Buyer self-service ticket transfers and face-value fan resale
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+ALTER TABLE tickets_events ADD COLUMN IF NOT EXISTS resale_enabled boolean NOT NULL DEFAULT false;
+
+-- A transferred or resold ticket belongs to its holder rather than the order's buyer
+ALTER TABLE tickets_tickets ADD COLUMN IF NOT EXISTS holder_email text;
+ALTER TABLE tickets_tickets ADD COLUMN IF NOT EXISTS holder_name text;
+CREATE INDEX IF NOT EXISTS idx_tickets_holder_email ON tickets_tickets(holder_email);
+
+CREATE TABLE IF NOT EXISTS tickets_resale_listings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  ticket_id uuid NOT NULL REFERENCES tickets_tickets(id) ON DELETE CASCADE,
+  seller_order_id uuid NOT NULL REFERENCES tickets_orders(id) ON DELETE CASCADE,
+  seller_email text NOT NULL,
+  seller_payment_intent_id text NOT NULL,
+  price_cents integer NOT NULL CHECK (price_cents > 0),
+  face_value_cents integer NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'pending', 'sold', 'canceled')),
+  pending_until timestamp with time zone,
+  buyer_email text,
+  buyer_name text,
+  stripe_payment_intent_id text,
+  seller_refund_id text,
+  new_ticket_id uuid,
+  sold_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (price_cents <= face_value_cents)
+);
+
+CREATE INDEX IF NOT EXISTS resale_listings_event_status_idx ON tickets_resale_listings(event_id, status);
+CREATE INDEX IF NOT EXISTS resale_listings_ticket_idx ON tickets_resale_listings(ticket_id);
+-- A ticket can only be on sale once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS resale_listings_open_ticket_idx
+  ON tickets_resale_listings(ticket_id) WHERE status IN ('active', 'pending');
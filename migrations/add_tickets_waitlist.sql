@@ -0,0 +1,30 @@
+-- Per-tier waitlist for sold-out ticket tiers
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  tier_id uuid NOT NULL REFERENCES tickets_tiers(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  name text,
+  phone text,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  position integer NOT NULL,
+  status text NOT NULL DEFAULT 'waiting', -- waiting | offered | claimed | expired | removed
+  claim_token text UNIQUE,
+  reservation_id text, -- tickets_capacity_reservations.reservation_id holding the offered seats
+  order_id uuid REFERENCES tickets_orders(id),
+  offered_at timestamp with time zone,
+  offer_expires_at timestamp with time zone,
+  claimed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- One open entry per email per tier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_waitlist_open_email
+  ON tickets_waitlist(tier_id, lower(email))
+  WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_tier_position ON tickets_waitlist(tier_id, position);
+CREATE INDEX IF NOT EXISTS idx_waitlist_status ON tickets_waitlist(status);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offer_expires ON tickets_waitlist(offer_expires_at) WHERE status = 'offered';
@@ -0,0 +1,16 @@
+-- Apple Wallet device registrations for ticket pass updates
+-- This SQL can be pasted directly into Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS tickets_wallet_registrations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_library_id text NOT NULL,
+  push_token text NOT NULL,
+  pass_type_id text NOT NULL,
+  ticket_id uuid NOT NULL REFERENCES tickets_tickets(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES tickets_events(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT wallet_registrations_device_ticket_unique UNIQUE (device_library_id, ticket_id)
+);
+
+CREATE INDEX IF NOT EXISTS wallet_registrations_event_idx ON tickets_wallet_registrations(event_id);
+CREATE INDEX IF NOT EXISTS wallet_registrations_ticket_idx ON tickets_wallet_registrations(ticket_id);
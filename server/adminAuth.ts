@@ -0,0 +1,170 @@
+import type { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { canAccess, getAdminUser, recordAudit, type AdminPermission, type AdminRole } from './services/adminUserService';
+
+// Extend session data interface
+declare module 'express-session' {
+  interface SessionData {
+    isAdmin?: boolean;
+    adminUserId?: string;
+    loginTime?: number;
+    userId?: string;
+  }
+}
+
+export const ADMIN_SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Audit identity for requests made with a shared admin key instead of a signed-in admin
+export const KEY_ACTOR_ID = 'admin-key';
+
+// Shared keys predate admin accounts and only cover what scripts use them for - campaigns,
+// onboarding and promo codes. Anything else needs a signed-in admin.
+const KEY_ROLE: AdminRole = 'sales';
+
+// Proves a request comes from this server calling its own admin endpoints; never leaves the process
+const INTERNAL_TOKEN = crypto.randomBytes(32).toString('hex');
+
+export interface AdminActor {
+  id: string;
+  email: string | null;
+  name: string | null;
+  role: AdminRole;
+}
+
+// Keys scripts still authenticate with. There's no built-in default: with none configured,
+// only signed-in admins get in. ADMIN_PASSWORD isn't one - it only sets up the first account.
+function configuredAdminKeys(): string[] {
+  return [process.env.ADMIN_KEY, process.env.EXPORT_ADMIN_KEY]
+    .filter((key): key is string => !!key);
+}
+
+function safeEqual(expected: string, key: unknown): boolean {
+  if (typeof key !== 'string' || !key) return false;
+  const given = Buffer.from(key);
+  const buffer = Buffer.from(expected);
+  return buffer.length === given.length && crypto.timingSafeEqual(buffer, given);
+}
+
+function isAdminKey(key: unknown): boolean {
+  return configuredAdminKeys().some(expected => safeEqual(expected, key));
+}
+
+// Who the server acts as when it calls its own admin endpoints with no admin behind the request,
+// like the events refresh a stale listing kicks off
+export const SERVER_ACTOR: AdminActor = { id: 'server', email: null, name: null, role: 'content' };
+
+/**
+ * Headers for the server calling one of its own admin endpoints on an admin's behalf. The
+ * endpoint checks the same admin's permissions but doesn't audit the call again - the
+ * request that made it already is.
+ */
+export function internalAdminHeaders(actor: AdminActor): Record<string, string> {
+  return {
+    'x-internal-admin': INTERNAL_TOKEN,
+    'x-internal-admin-actor': Buffer.from(JSON.stringify(actor)).toString('base64url')
+  };
+}
+
+function internalAdminActor(req: Request): AdminActor | null {
+  if (!safeEqual(INTERNAL_TOKEN, req.headers['x-internal-admin'])) return null;
+  try {
+    return JSON.parse(Buffer.from(String(req.headers['x-internal-admin-actor']), 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Who is making an admin request: the admin signed in on this session, or, for scripts, the
+ * holder of a shared key (treated as a sales admin). Deactivated admins lose access at once.
+ */
+export async function resolveAdminActor(req: Request, allowKey = true): Promise<AdminActor | null> {
+  const session = req.session;
+  if (session?.adminUserId && session.loginTime && Date.now() - session.loginTime < ADMIN_SESSION_MAX_AGE_MS) {
+    const user = await getAdminUser(session.adminUserId);
+    if (user?.is_active) {
+      return { id: user.id, email: user.email, name: user.name, role: user.role };
+    }
+  }
+
+  if (allowKey && isAdminKey(req.headers['x-admin-key'])) {
+    return { id: KEY_ACTOR_ID, email: null, name: null, role: KEY_ROLE };
+  }
+  return null;
+}
+
+export function getAdminActor(req: Request): AdminActor | null {
+  return (req as any).adminActor || null;
+}
+
+// How an admin is named in columns that record who did something, like approved_by
+export function actorLabel(actor: AdminActor | null, fallback = 'console'): string {
+  return actor?.email || fallback;
+}
+
+const SENSITIVE_FIELD = /password|secret|token|api_?key|card/i;
+
+// Request bodies go into the audit log minus credentials, and trimmed so uploads don't bloat it
+function auditBody(body: unknown, depth = 0): unknown {
+  if (body === null || typeof body !== 'object') {
+    return typeof body === 'string' && body.length > 500 ? `${body.slice(0, 500)}…` : body;
+  }
+  if (depth > 3) return '[nested]';
+  if (Array.isArray(body)) {
+    return body.slice(0, 20).map(item => auditBody(item, depth + 1));
+  }
+  return Object.fromEntries(Object.entries(body as Record<string, unknown>).map(([key, value]) =>
+    [key, SENSITIVE_FIELD.test(key) ? '[redacted]' : auditBody(value, depth + 1)]
+  ));
+}
+
+/**
+ * Admin-only route guard for one permission group. GET requests need read access to the group,
+ * anything else needs write access and is written to the audit log with the actor and the
+ * response status once it finishes.
+ */
+export function requireAdmin(permission: AdminPermission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const internal = internalAdminActor(req);
+      const actor = internal || await resolveAdminActor(req);
+      if (!actor) {
+        return res.status(401).json({ ok: false, error: 'Admin authentication required' });
+      }
+
+      const write = !['GET', 'HEAD', 'OPTIONS'].includes(req.method);
+      if (!canAccess(actor.role, permission, write)) {
+        return res.status(403).json({
+          ok: false,
+          error: `The ${actor.role.replace('_', ' ')} role can't ${write ? 'change' : 'view'} ${permission.replace('_', ' ')}`
+        });
+      }
+
+      (req as any).adminActor = actor;
+
+      if (write && !internal) {
+        const action = `${req.method} ${req.baseUrl}${req.route?.path || req.path}`;
+        const details = { params: { ...req.params }, body: auditBody(req.body) };
+        res.on('finish', () => {
+          recordAudit({
+            action,
+            actorId: actor.id,
+            actorEmail: actor.email,
+            actorRole: actor.role,
+            method: req.method,
+            path: req.originalUrl.split('?')[0],
+            statusCode: res.statusCode,
+            details,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent')
+          });
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Admin auth error:', error);
+      res.status(500).json({ ok: false, error: 'Admin authentication failed' });
+    }
+  };
+}
@@ -6,6 +6,7 @@ import { CommunitiesSupabaseDB } from './communities-supabase';
 import { CreditsService } from './credits-service';
 import { TicketsSupabaseDB } from '../tickets/tickets-supabase';
 import { getSupabaseAdmin } from '../supabaseAdmin';
+import { daysBetween, getInventory, holdDays, lastInventoryDay } from '../services/sponsorInventoryService';
 
 // Initialize SendGrid
 if (process.env.SENDGRID_API_KEY) {
@@ -1540,6 +1541,12 @@ router.get('/credits/blocked-dates', requireAuth, async (req: Request, res: Resp
       }
     });
 
+    // Sponsor bookings and holds that don't have a campaign yet
+    const inventory = await getInventory([placement], todayPacific, lastInventoryDay(todayPacific));
+    inventory.forEach(({ day, status }) => {
+      if (status !== 'available') blockedDates.add(day);
+    });
+
     res.json({
       ok: true,
       blockedDates: Array.from(blockedDates).sort(),
@@ -1743,6 +1750,14 @@ router.post('/credits/spend', requireAuth, async (req: Request, res: Response) =
       return res.status(500).json({ ok: false, error: 'Failed to create campaign' });
     }
 
+    // Book the placement's days; another booking may have taken them since the conflict check
+    try {
+      await holdDays({ campaignId: campaign.id }, [placement], daysBetween(startDate, endDate), null);
+    } catch (holdError: any) {
+      await getSupabaseAdmin().from('sponsor_campaigns').delete().eq('id', campaign.id);
+      return res.status(409).json({ ok: false, error: holdError.message });
+    }
+
     // Deduct credits directly from subscription (same source as /credits/balance)
     const newUsedCredits = usedCredits + creditsToDeduct;
     console.log(`[Billing] Deducting credits: subscription=${subscription.id}, used=${usedCredits} -> ${newUsedCredits}, deducting=${creditsToDeduct}`);
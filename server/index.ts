@@ -7,6 +7,8 @@ import { startChatServer } from "./communities/chat-server";
 import { emailWorker } from "./communities/email-worker";
 
 const app = express();
+// Stripe signs the raw request body, so its webhook has to be read before the JSON parser gets to it
+app.use('/api/spotlight/webhooks/stripe', express.raw({ type: 'application/json' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
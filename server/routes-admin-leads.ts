@@ -1,19 +1,14 @@
 import type { Express } from 'express';
 import { getLeads, getLead, updateLeadStatus, deleteLead } from './services/sponsorService';
 import { getQuote } from './services/sponsorService';
+import { getInvoiceForLead, syncInvoicePayment, markInvoicePaid, overrideInvoice, invoicePdfUrl } from './services/sponsorInvoiceService';
 import { z } from 'zod';
+import { requireAdmin, getAdminActor, actorLabel } from './adminAuth';
 
-// Admin key middleware
-const requireAdminKey = (req: any, res: any, next: any) => {
-  const adminKey = req.headers['x-admin-key'];
-  const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY || 'jugnu-admin-dev-2025';
-  
-  if (!adminKey || adminKey !== expectedKey) {
-    return res.status(401).json({ ok: false, error: 'Admin key required' });
-  }
-  
-  next();
-};
+const overrideInvoiceSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required'),
+  overrideBy: z.string().optional()
+});
 
 // Update status schema
 const updateStatusSchema = z.object({
@@ -29,7 +24,7 @@ function generateCSV(leads: any[], singleLead: boolean = false): string {
     'add_ons', 'promo_applied', 'promo_code', 'subtotal_cents', 'addons_cents', 'total_cents',
     'budget_range', 'objective', 'ack_exclusive', 'ack_guarantee',
     'desktop_asset_url', 'mobile_asset_url', 'creative_links',
-    'comments', 'status', 'admin_notes'
+    'comments', 'status', 'payment_status', 'admin_notes'
   ];
 
   const rows = leads.map(lead => 
@@ -60,7 +55,7 @@ function generateCSV(leads: any[], singleLead: boolean = false): string {
 
 export function addAdminLeadsRoutes(app: Express) {
   // GET /api/admin/leads - List leads with filtering
-  app.get('/api/admin/leads', requireAdminKey, async (req, res) => {
+  app.get('/api/admin/leads', requireAdmin('sponsors'), async (req, res) => {
     try {
       const { status, package_code, search, date_from, date_to, limit = 50, offset = 0, export: exportMode } = req.query;
       
@@ -91,7 +86,7 @@ export function addAdminLeadsRoutes(app: Express) {
   });
 
   // GET /api/admin/leads/:id - Get single lead with quote details
-  app.get('/api/admin/leads/:id', requireAdminKey, async (req, res) => {
+  app.get('/api/admin/leads/:id', requireAdmin('sponsors'), async (req, res) => {
     try {
       const { id } = req.params;
       const { export: exportMode } = req.query;
@@ -127,7 +122,7 @@ export function addAdminLeadsRoutes(app: Express) {
   });
 
   // DELETE /api/admin/leads/:id - Delete lead
-  app.delete('/api/admin/leads/:id', requireAdminKey, async (req, res) => {
+  app.delete('/api/admin/leads/:id', requireAdmin('sponsors'), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -148,7 +143,7 @@ export function addAdminLeadsRoutes(app: Express) {
   });
 
   // POST /api/admin/leads/:id/status - Update lead status
-  app.post('/api/admin/leads/:id/status', requireAdminKey, async (req, res) => {
+  app.post('/api/admin/leads/:id/status', requireAdmin('sponsors'), async (req, res) => {
     try {
       const { id } = req.params;
       const body = updateStatusSchema.parse(req.body);
@@ -175,6 +170,42 @@ export function addAdminLeadsRoutes(app: Express) {
     }
   });
 
+  // Invoice lookups resolve the lead's current invoice so the UI only needs the lead id
+  const withInvoice = (handler: (invoice: any, req: any) => Promise<any>) => async (req: any, res: any) => {
+    try {
+      const invoice = await getInvoiceForLead(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ ok: false, error: 'No invoice has been issued for this lead' });
+      }
+      const updated = await handler(invoice, req);
+      res.json({ ok: true, invoice: updated, pdf_url: invoicePdfUrl(updated.id) });
+    } catch (error) {
+      console.error('Lead invoice error:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ ok: false, error: error.errors[0]?.message || 'Invalid request data' });
+      }
+      res.status(400).json({ ok: false, error: error instanceof Error ? error.message : 'Invoice update failed' });
+    }
+  };
+
+  // GET /api/admin/leads/:id/invoice - Invoice issued on approval
+  app.get('/api/admin/leads/:id/invoice', requireAdmin('sponsors'), withInvoice(async (invoice) => invoice));
+
+  // POST /api/admin/leads/:id/invoice/sync - Check Stripe for a payment the webhook missed
+  app.post('/api/admin/leads/:id/invoice/sync', requireAdmin('sponsors'), withInvoice(invoice => syncInvoicePayment(invoice.id)));
+
+  // POST /api/admin/leads/:id/invoice/mark-paid - Record a payment taken outside Stripe (e-transfer, cheque)
+  app.post('/api/admin/leads/:id/invoice/mark-paid', requireAdmin('sponsors'), withInvoice(async (invoice) => {
+    if (invoice.status !== 'open') throw new Error(`Invoice is already ${invoice.status}`);
+    return markInvoicePaid(invoice.id, {});
+  }));
+
+  // POST /api/admin/leads/:id/invoice/override - Let the campaign run before payment
+  app.post('/api/admin/leads/:id/invoice/override', requireAdmin('sponsors'), withInvoice((invoice, req) => {
+    const body = overrideInvoiceSchema.parse(req.body);
+    return overrideInvoice(invoice.id, actorLabel(getAdminActor(req), body.overrideBy || 'admin'), body.reason);
+  }));
+
   // Quote prefill endpoint - allows forms to get quote data for prefilling
   app.get('/api/quotes/:quoteId/prefill', async (req, res) => {
     try {
@@ -1,34 +1,25 @@
 import { Express, Request, Response } from 'express';
 import { createClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
+import { getActivationBlock } from './services/sponsorInvoiceService';
+import { requireAdmin, resolveAdminActor, getAdminActor, internalAdminHeaders, KEY_ACTOR_ID, type AdminActor } from './adminAuth';
+import {
+  authenticateAdmin,
+  permissionsFor,
+  listAdminUsers,
+  createAdminUser,
+  updateAdminUser,
+  createAdminUserSchema,
+  updateAdminUserSchema,
+  recordAudit,
+  getAuditLog
+} from './services/adminUserService';
 
 const supabase = createClient(
   process.env.SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-// Extend session data interface
-declare module 'express-session' {
-  interface SessionData {
-    isAdmin?: boolean;
-    loginTime?: number;
-    userId?: string;
-  }
-}
-
-// Admin session middleware
-const requireAdminSession = (req: Request, res: Response, next: Function) => {
-  const adminSession = req.session?.isAdmin;
-  const loginTime = req.session?.loginTime;
-  
-  // Check if session exists and is not expired (24 hours)
-  if (!adminSession || !loginTime || (Date.now() - loginTime) > 24 * 60 * 60 * 1000) {
-    return res.status(401).json({ ok: false, error: 'Admin authentication required' });
-  }
-  
-  next();
-};
-
 // Rate limiting store (in production, use Redis)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 
@@ -64,67 +55,22 @@ const rateLimit = (maxRequests: number, windowMs: number) => {
   };
 };
 
-// Initialize admin audit table if needed
-const initAuditTable = async () => {
-  try {
-    const { error } = await supabase.rpc('exec_sql', {
-      query: `
-        CREATE TABLE IF NOT EXISTS public.admin_audit_log (
-          id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
-          created_at timestamptz NOT NULL DEFAULT now(),
-          action text NOT NULL,
-          details jsonb,
-          user_id text,
-          ip_address text,
-          user_agent text
-        );
-        
-        CREATE INDEX IF NOT EXISTS admin_audit_log_created_at_idx ON public.admin_audit_log (created_at DESC);
-        CREATE INDEX IF NOT EXISTS admin_audit_log_action_idx ON public.admin_audit_log (action);
-        CREATE INDEX IF NOT EXISTS admin_audit_log_user_id_idx ON public.admin_audit_log (user_id);
-      `
-    });
-    
-    if (error) console.error('Audit table init error:', error);
-  } catch (error) {
-    console.error('Audit table init failed:', error);
-  }
-};
-
-// Initialize audit table on startup
-initAuditTable();
-
-// Audit logging
-const auditLog = async (action: string, details: any, userId?: string) => {
-  try {
-    await supabase.from('admin_audit_log').insert({
-      action,
-      details: JSON.stringify(details),
-      user_id: userId || 'system',
-      ip_address: details.ip,
-      user_agent: details.userAgent,
-      created_at: new Date().toISOString()
-    });
-  } catch (error) {
-    console.error('Audit log error:', error);
-  }
-};
-
-// Admin key middleware for API endpoints
-const requireAdminKey = (req: Request, res: Response, next: Function) => {
-  const adminKey = req.headers['x-admin-key'];
-  // Check the same keys that login endpoint returns
-  const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-  
-  if (!expectedKey) {
-    return res.status(500).json({ ok: false, error: 'Admin system not configured' });
-  }
-  
-  if (!adminKey || adminKey !== expectedKey) {
-    return res.status(401).json({ ok: false, error: 'Admin key required' });
-  }
-  
-  next();
+// Aliases that call a spotlight admin endpoint act as the same admin there. Only the alias
+// request is audited, not the forwarded one.
+const forwardedAuth = (req: Request) => internalAdminHeaders(getAdminActor(req)!);
+
+// Named events, alongside the per-request entries requireAdmin writes for every mutation
+const auditLog = (req: Request, action: string, details: Record<string, any>, actor: AdminActor | null = getAdminActor(req)) => {
+  const { ip, userAgent, ...rest } = details;
+  return recordAudit({
+    action,
+    actorId: actor?.id || 'anonymous',
+    actorEmail: actor?.email,
+    actorRole: actor?.role,
+    details: rest,
+    ipAddress: ip || req.ip,
+    userAgent: userAgent || req.get('User-Agent')
+  });
 };
 
 export function addAdminRoutes(app: Express) {
@@ -148,16 +94,11 @@ export function addAdminRoutes(app: Express) {
   // All admin routes now use session authentication
 
   // Selftest endpoint - includes ticketing disabled verification
-  app.get('/api/admin/selftest', requireAdminKey, async (req: Request, res: Response) => {
+  app.get('/api/admin/selftest', requireAdmin('system'), async (req: Request, res: Response) => {
     try {
-      // Make internal request to the admin selftest with proper admin key
-      const adminKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY || 'jugnu-admin-dev-2025';
-      
       // Run spotlight tests first
       const spotlightResponse = await fetch(`http://localhost:5000/api/spotlight/admin/selftest`, {
-        headers: {
-          'x-admin-key': adminKey
-        }
+        headers: forwardedAuth(req)
       });
       
       const spotlightData = await spotlightResponse.json();
@@ -393,36 +334,27 @@ export function addAdminRoutes(app: Express) {
   // POST /api/admin/login
   app.post('/api/admin/login', rateLimit(5, 15 * 60 * 1000), async (req: Request, res: Response) => {
     try {
-      const { password } = req.body;
-      const adminPassword = process.env.ADMIN_PASSWORD;
-      
-      if (!adminPassword) {
-        return res.status(500).json({ ok: false, error: 'Admin system not configured' });
+      const { email, password } = req.body || {};
+      if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+        return res.status(400).json({ ok: false, error: 'Email and password are required' });
       }
-      
-      if (!password || password !== adminPassword) {
-        await auditLog('admin_login_failed', {
-          ip: req.ip,
-          userAgent: req.get('User-Agent')
-        });
-        return res.status(401).json({ ok: false, error: 'Invalid password' });
+
+      const user = await authenticateAdmin(email, password);
+      if (!user) {
+        await auditLog(req, 'admin_login_failed', { email: email.trim().toLowerCase() });
+        return res.status(401).json({ ok: false, error: 'Invalid email or password' });
       }
-      
-      // Set admin session
-      req.session = req.session || {};
+
+      // A fresh session id on sign-in, so one planted before login can't ride along after it
+      await new Promise<void>((resolve, reject) => req.session.regenerate(err => err ? reject(err) : resolve()));
       req.session.isAdmin = true;
+      req.session.adminUserId = user.id;
       req.session.loginTime = Date.now();
-      req.session.userId = 'admin';
-      
-      await auditLog('admin_login_success', {
-        ip: req.ip,
-        userAgent: req.get('User-Agent')
-      }, 'admin');
-      
-      // Return the correct admin key for this environment
-      const adminKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY || 'jugnu-admin-dev-2025';
-      
-      res.json({ ok: true, adminKey });
+
+      const actor: AdminActor = { id: user.id, email: user.email, name: user.name, role: user.role };
+      await auditLog(req, 'admin_login_success', {}, actor);
+
+      res.json({ ok: true, user: actor, permissions: permissionsFor(user.role) });
     } catch (error) {
       console.error('Admin login error:', error);
       res.status(500).json({ ok: false, error: 'Login failed' });
@@ -430,7 +362,10 @@ export function addAdminRoutes(app: Express) {
   });
 
   // POST /api/admin/logout
-  app.post('/api/admin/logout', (req: Request, res: Response) => {
+  app.post('/api/admin/logout', async (req: Request, res: Response) => {
+    const actor = await resolveAdminActor(req, false).catch(() => null);
+    if (actor) await auditLog(req, 'admin_logout', {}, actor);
+
     if (req.session) {
       req.session.destroy((err) => {
         if (err) console.error('Session destroy error:', err);
@@ -441,20 +376,69 @@ export function addAdminRoutes(app: Express) {
   });
 
   // GET /api/admin/session
-  app.get('/api/admin/session', (req: Request, res: Response) => {
-    const isValid = req.session?.isAdmin && 
-                   req.session?.loginTime && 
-                   (Date.now() - req.session.loginTime) < 24 * 60 * 60 * 1000;
-    
-    res.json({ 
-      ok: true, 
-      isAdmin: isValid,
-      loginTime: req.session?.loginTime 
-    });
+  app.get('/api/admin/session', async (req: Request, res: Response) => {
+    try {
+      const actor = await resolveAdminActor(req, false);
+      res.json({
+        ok: true,
+        isAdmin: !!actor,
+        loginTime: actor ? req.session?.loginTime : undefined,
+        user: actor,
+        permissions: actor ? permissionsFor(actor.role) : {}
+      });
+    } catch (error) {
+      console.error('Admin session error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to check session' });
+    }
+  });
+
+  // GET /api/admin/users
+  app.get('/api/admin/users', requireAdmin('users'), async (req: Request, res: Response) => {
+    try {
+      const users = await listAdminUsers();
+      res.json({ ok: true, users });
+    } catch (error) {
+      console.error('Admin users list error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load admin users' });
+    }
+  });
+
+  // POST /api/admin/users
+  app.post('/api/admin/users', requireAdmin('users'), async (req: Request, res: Response) => {
+    try {
+      const parsed = createAdminUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: parsed.error.errors[0]?.message || 'Invalid admin user' });
+      }
+
+      // Scripts using the shared key aren't an admin_users row
+      const actor = getAdminActor(req);
+      const user = await createAdminUser(parsed.data, actor && actor.id !== KEY_ACTOR_ID ? actor.id : null);
+      res.json({ ok: true, user });
+    } catch (error) {
+      console.error('Admin user create error:', error);
+      res.status(400).json({ ok: false, error: error instanceof Error ? error.message : 'Failed to create admin user' });
+    }
+  });
+
+  // PATCH /api/admin/users/:id
+  app.patch('/api/admin/users/:id', requireAdmin('users'), async (req: Request, res: Response) => {
+    try {
+      const parsed = updateAdminUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ ok: false, error: parsed.error.errors[0]?.message || 'Invalid update' });
+      }
+
+      const user = await updateAdminUser(req.params.id, parsed.data, getAdminActor(req)?.id || null);
+      res.json({ ok: true, user });
+    } catch (error) {
+      console.error('Admin user update error:', error);
+      res.status(400).json({ ok: false, error: error instanceof Error ? error.message : 'Failed to update admin user' });
+    }
   });
 
   // GET /api/admin/campaigns
-  app.get('/api/admin/campaigns', requireAdminKey, async (req: Request, res: Response) => {
+  app.get('/api/admin/campaigns', requireAdmin('sponsors'), async (req: Request, res: Response) => {
     try {
       // Use service role to bypass RLS
       const { data: campaigns, error } = await supabase
@@ -471,6 +455,11 @@ export function addAdminRoutes(app: Express) {
           start_at,
           end_at,
           priority,
+          share_of_voice,
+          creative_rotation,
+          ab_auto_promote,
+          ab_confidence,
+          ab_min_impressions,
           is_active,
           is_sponsored,
           tags,
@@ -478,11 +467,19 @@ export function addAdminRoutes(app: Express) {
           created_at,
           updated_at,
           sponsor_creatives (
+            id,
             placement,
             image_desktop_url,
             image_mobile_url,
             logo_url,
-            alt
+            alt,
+            is_active,
+            variant_label,
+            headline,
+            subline,
+            cta_text,
+            traffic_weight,
+            promoted_at
           )
         `)
         .order('created_at', { ascending: false });
@@ -530,8 +527,8 @@ export function addAdminRoutes(app: Express) {
 
   // Admin API alias routes that forward to spotlight handlers with admin key authentication
   
-  // POST /api/admin/campaigns → POST /api/spotlight/admin/campaign/upsert (alias with admin key)
-  app.post('/api/admin/campaigns', requireAdminKey, async (req, res) => {
+  // POST /api/admin/campaigns → POST /api/spotlight/admin/campaign/upsert (alias)
+  app.post('/api/admin/campaigns', requireAdmin('sponsors'), async (req, res) => {
     try {
       const normalizedBody = normalizeBody(req.body);
       
@@ -539,7 +536,7 @@ export function addAdminRoutes(app: Express) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-admin-key': process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY || 'jugnu-admin-dev-2025'
+          ...forwardedAuth(req)
         },
         body: JSON.stringify(normalizedBody)
       });
@@ -568,7 +565,7 @@ export function addAdminRoutes(app: Express) {
   });
 
   // POST /api/admin/portal-tokens → Create portal token directly (no existing spotlight route)
-  app.post('/api/admin/portal-tokens', requireAdminKey, async (req, res) => {
+  app.post('/api/admin/portal-tokens', requireAdmin('sponsors'), async (req, res) => {
     try {
       const normalizedBody = normalizeBody(req.body);
       const { campaign_id, campaignId, expires_in_hours = 720, expiresInHours } = normalizedBody; // default 30 days
@@ -629,13 +626,13 @@ export function addAdminRoutes(app: Express) {
         });
       }
       
-      await auditLog('portal_token_created', {
+      await auditLog(req, 'portal_token_created', {
         tokenId: tokenId,
         campaignId: finalCampaignId,
         expiresAt: expiresAt.toISOString(),
         ip: req.ip,
         userAgent: req.get('User-Agent')
-      }, 'admin-api');
+      });
 
       // Return success with UUID and portal URL
       res.json({
@@ -656,7 +653,7 @@ export function addAdminRoutes(app: Express) {
   });
 
   // POST /api/admin/portal-tokens/onboarding → POST /api/spotlight/admin/send-onboarding
-  app.post('/api/admin/portal-tokens/onboarding', requireAdminKey, async (req, res) => {
+  app.post('/api/admin/portal-tokens/onboarding', requireAdmin('sponsors'), async (req, res) => {
     try {
       const normalizedBody = normalizeBody(req.body);
       
@@ -664,7 +661,7 @@ export function addAdminRoutes(app: Express) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-admin-key': process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY || 'jugnu-admin-dev-2025'
+          ...forwardedAuth(req)
         },
         body: JSON.stringify(normalizedBody)
       });
@@ -693,7 +690,7 @@ export function addAdminRoutes(app: Express) {
   });
 
   // POST /api/admin/send-onboarding → POST /api/spotlight/admin/send-onboarding (legacy route)
-  app.post('/api/admin/send-onboarding', requireAdminKey, async (req, res) => {
+  app.post('/api/admin/send-onboarding', requireAdmin('sponsors'), async (req, res) => {
     try {
       const normalizedBody = normalizeBody(req.body);
       
@@ -701,7 +698,7 @@ export function addAdminRoutes(app: Express) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-admin-key': process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY || 'jugnu-admin-dev-2025'
+          ...forwardedAuth(req)
         },
         body: JSON.stringify(normalizedBody)
       });
@@ -730,11 +727,18 @@ export function addAdminRoutes(app: Express) {
   });
 
   // PATCH /api/admin/campaigns/:id/toggle
-  app.patch('/api/admin/campaigns/:id/toggle', requireAdminKey, async (req: Request, res: Response) => {
+  app.patch('/api/admin/campaigns/:id/toggle', requireAdmin('sponsors'), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
       const { is_active } = req.body;
 
+      if (is_active) {
+        const blocked = await getActivationBlock(id);
+        if (blocked) {
+          return res.status(409).json({ ok: false, error: blocked });
+        }
+      }
+
       const { data, error } = await supabase
         .from('sponsor_campaigns')
         .update({ is_active, updated_at: new Date().toISOString() })
@@ -744,13 +748,13 @@ export function addAdminRoutes(app: Express) {
 
       if (error) throw error;
 
-      await auditLog('campaign_toggled', {
+      await auditLog(req, 'campaign_toggled', {
         campaignId: id,
         name: data.name,
         is_active,
         ip: req.ip,
         userAgent: req.get('User-Agent')
-      }, req.session?.userId);
+      });
 
       res.json({ ok: true, campaign: data });
     } catch (error) {
@@ -760,7 +764,7 @@ export function addAdminRoutes(app: Express) {
   });
 
   // POST /api/admin/campaigns/:id/duplicate
-  app.post('/api/admin/campaigns/:id/duplicate', requireAdminKey, async (req: Request, res: Response) => {
+  app.post('/api/admin/campaigns/:id/duplicate', requireAdmin('sponsors'), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
@@ -811,13 +815,13 @@ export function addAdminRoutes(app: Express) {
           .insert(duplicatedCreatives);
       }
 
-      await auditLog('campaign_duplicated', {
+      await auditLog(req, 'campaign_duplicated', {
         originalId: id,
         newId: newCampaign.id,
         name: newCampaign.name,
         ip: req.ip,
         userAgent: req.get('User-Agent')
-      }, req.session?.userId);
+      });
 
       res.json({ ok: true, campaign: newCampaign });
     } catch (error) {
@@ -827,7 +831,7 @@ export function addAdminRoutes(app: Express) {
   });
 
   // DELETE /api/admin/campaigns/:id
-  app.delete('/api/admin/campaigns/:id', requireAdminKey, async (req: Request, res: Response) => {
+  app.delete('/api/admin/campaigns/:id', requireAdmin('sponsors'), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
@@ -852,12 +856,12 @@ export function addAdminRoutes(app: Express) {
 
       if (error) throw error;
 
-      await auditLog('campaign_deleted', {
+      await auditLog(req, 'campaign_deleted', {
         campaignId: id,
         name: campaign?.name,
         ip: req.ip,
         userAgent: req.get('User-Agent')
-      }, req.session?.userId);
+      });
 
       res.json({ ok: true });
     } catch (error) {
@@ -867,7 +871,7 @@ export function addAdminRoutes(app: Express) {
   });
 
   // GET /api/admin/portal-tokens
-  app.get('/api/admin/portal-tokens', requireAdminKey, async (req: Request, res: Response) => {
+  app.get('/api/admin/portal-tokens', requireAdmin('sponsors'), async (req: Request, res: Response) => {
     try {
       // Use service role to bypass RLS - include UUID id for migration
       const { data: tokens, error } = await supabase
@@ -903,10 +907,8 @@ export function addAdminRoutes(app: Express) {
     }
   });
 
-  // Duplicate handler removed - using requireAdminKey handler at line 345
-
   // POST /api/admin/portal-tokens/email (send portal link via email)
-  app.post('/api/admin/portal-tokens/email', requireAdminKey, async (req: Request, res: Response) => {
+  app.post('/api/admin/portal-tokens/email', requireAdmin('sponsors'), async (req: Request, res: Response) => {
     try {
       const { token, recipients, message } = req.body;
 
@@ -970,13 +972,13 @@ The Jugnu Team
       `.trim();
 
       // Log the email action
-      await auditLog('portal_email_sent', {
+      await auditLog(req, 'portal_email_sent', {
         campaignId: tokenData.campaign_id,
         token: token.substring(0, 8) + '...',
         recipients: recipients.length,
         ip: req.ip,
         userAgent: req.get('User-Agent')
-      }, req.session?.userId);
+      });
 
       // Return email content for manual sending or integration with email service
       res.json({ 
@@ -995,7 +997,7 @@ The Jugnu Team
   });
 
   // DELETE /api/admin/portal-tokens/:id
-  app.delete('/api/admin/portal-tokens/:id', requireAdminKey, async (req: Request, res: Response) => {
+  app.delete('/api/admin/portal-tokens/:id', requireAdmin('sponsors'), async (req: Request, res: Response) => {
     try {
       const { id } = req.params;
 
@@ -1006,11 +1008,11 @@ The Jugnu Team
 
       if (error) throw error;
 
-      await auditLog('portal_token_revoked', {
+      await auditLog(req, 'portal_token_revoked', {
         tokenId: id,
         ip: req.ip,
         userAgent: req.get('User-Agent')
-      }, req.session?.userId);
+      });
 
       res.json({ ok: true });
     } catch (error) {
@@ -1020,7 +1022,7 @@ The Jugnu Team
   });
 
   // POST /api/admin/test-emails - Send test emails of all types
-  app.post('/api/admin/test-emails', requireAdminKey, async (req: Request, res: Response) => {
+  app.post('/api/admin/test-emails', requireAdmin('system'), async (req: Request, res: Response) => {
     try {
       const { recipientEmail } = req.body;
       
@@ -1178,18 +1180,17 @@ The Jugnu Team
     }
   });
 
-  // GET /api/admin/audit-log
-  app.get('/api/admin/audit-log', requireAdminSession, async (req: Request, res: Response) => {
+  // GET /api/admin/audit-log?actor=&action=&from=&to=&limit=
+  app.get('/api/admin/audit-log', requireAdmin('audit'), async (req: Request, res: Response) => {
     try {
-      const { limit = 100 } = req.query;
-
-      const { data: logs, error } = await supabase
-        .from('admin_audit_log')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(Number(limit));
-
-      if (error) throw error;
+      const { actor, action, from, to, limit } = req.query;
+      const logs = await getAuditLog({
+        actor: typeof actor === 'string' && actor ? actor : undefined,
+        action: typeof action === 'string' && action ? action : undefined,
+        from: typeof from === 'string' && from ? from : undefined,
+        to: typeof to === 'string' && to ? to : undefined,
+        limit: limit ? Number(limit) || undefined : undefined
+      });
 
       res.json({ ok: true, logs });
     } catch (error) {
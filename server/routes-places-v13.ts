@@ -1,6 +1,7 @@
 // Places Sync v1.3 - Admin routes for reclassification and photo enrichment
 import { Express } from 'express';
 import { getSupabaseAdmin } from './supabaseAdmin.js';
+import { requireAdmin } from './adminAuth.js';
 import { isWorshipPlaceMisclassified, getCorrectWorshipCategory } from './lib/place-classifier.js';
 
 const supabase = getSupabaseAdmin();
@@ -8,17 +9,8 @@ const supabase = getSupabaseAdmin();
 export function addPlacesV13Routes(app: Express) {
 
   // Admin: Reclassify worship places that were incorrectly categorized as Restaurant
-  app.post('/api/places/admin/reclassify-worship', async (req, res) => {
+  app.post('/api/places/admin/reclassify-worship', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       console.log('Starting worship place reclassification...');
 
       // Get all places with 'restaurant' type
@@ -88,17 +80,8 @@ export function addPlacesV13Routes(app: Express) {
   });
 
   // Admin: Enrich places with photos from Yelp or Google
-  app.post('/api/places/admin/enrich-photos', async (req, res) => {
+  app.post('/api/places/admin/enrich-photos', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       const limit = parseInt(req.query.limit as string) || 200;
       const source = req.query.source as string || 'all'; // 'yelp', 'google', or 'all'
 
@@ -1,6 +1,7 @@
 import { Express, Request, Response } from 'express';
 import { z } from 'zod';
 import { getSupabaseAdmin } from './supabaseAdmin.js';
+import { requireAdmin } from './adminAuth.js';
 
 // Schema for creating/updating promo codes
 const promoCodeSchema = z.object({
@@ -23,18 +24,6 @@ const validatePromoSchema = z.object({
   total_amount: z.number().optional()
 });
 
-// Admin middleware (reuse from existing admin routes)
-const requireAdminKey = (req: Request, res: Response, next: Function) => {
-  const adminKey = req.headers['x-admin-key'];
-  // Use the same order as login endpoint returns
-  const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY || 'jugnu-admin-dev-2025';
-  
-  if (!adminKey || adminKey !== expectedKey) {
-    return res.status(401).json({ ok: false, error: 'Unauthorized' });
-  }
-  next();
-};
-
 export function addPromoCodeRoutes(app: Express) {
   const supabase = getSupabaseAdmin();
 
@@ -108,7 +97,7 @@ export function addPromoCodeRoutes(app: Express) {
   });
 
   // GET /api/admin/promo-codes - List all promo codes (admin)
-  app.get('/api/admin/promo-codes', requireAdminKey, async (req, res) => {
+  app.get('/api/admin/promo-codes', requireAdmin('promo_codes'), async (req, res) => {
     try {
       const { data, error } = await supabase
         .from('promo_codes')
@@ -128,7 +117,7 @@ export function addPromoCodeRoutes(app: Express) {
   });
 
   // POST /api/admin/promo-codes - Create new promo code (admin)
-  app.post('/api/admin/promo-codes', requireAdminKey, async (req, res) => {
+  app.post('/api/admin/promo-codes', requireAdmin('promo_codes'), async (req, res) => {
     try {
       const validatedData = promoCodeSchema.parse(req.body);
 
@@ -175,7 +164,7 @@ export function addPromoCodeRoutes(app: Express) {
   });
 
   // PUT /api/admin/promo-codes/:id - Update promo code (admin)
-  app.put('/api/admin/promo-codes/:id', requireAdminKey, async (req, res) => {
+  app.put('/api/admin/promo-codes/:id', requireAdmin('promo_codes'), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = req.body;
@@ -212,7 +201,7 @@ export function addPromoCodeRoutes(app: Express) {
   });
 
   // DELETE /api/admin/promo-codes/:id - Deactivate promo code (admin)
-  app.delete('/api/admin/promo-codes/:id', requireAdminKey, async (req, res) => {
+  app.delete('/api/admin/promo-codes/:id', requireAdmin('promo_codes'), async (req, res) => {
     try {
       const { id } = req.params;
 
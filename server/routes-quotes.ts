@@ -15,8 +15,17 @@ import sgMail from '@sendgrid/mail';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
 import { getSupabaseAdmin } from './supabaseAdmin';
+import { requireAdmin, getAdminActor, actorLabel } from './adminAuth';
 import { CreditsService } from './communities/credits-service';
 import { communitiesStorage } from './communities/communities-supabase';
+import {
+  PLACEMENT_SLOTS,
+  QUOTE_HOLD_MINUTES,
+  firstBookableDay,
+  getInventory,
+  lastInventoryDay,
+  placementsForPackage
+} from './services/sponsorInventoryService';
 
 
 // Rate limiting for quote and application endpoints
@@ -171,107 +180,78 @@ const upload = multer({
   storage: multer.memoryStorage()
 });
 
-// Define package placement mappings
-const packagePlacements: Record<string, string[]> = {
-  'events_spotlight': ['events'],
-  'homepage_banner': ['homepage'],
-  'full_feature': ['events', 'homepage']
-};
+const inventoryQuerySchema = z.object({
+  package_code: z.enum(['events_spotlight', 'homepage_feature', 'full_feature']).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  quote_id: z.string().uuid().optional()
+});
 
-// Check if two packages have placement conflicts
-function hasPlacementConflict(package1: string, package2: string): boolean {
-  const placements1 = packagePlacements[package1] || [];
-  const placements2 = packagePlacements[package2] || [];
-  
-  // Check if there's any overlap in placements
-  return placements1.some(p => placements2.includes(p));
+// Inventory for a package (or every placement) over a window starting at the first bookable day
+async function inventoryForQuery(query: z.infer<typeof inventoryQuerySchema>) {
+  const placements = query.package_code
+    ? placementsForPackage(query.package_code)
+    : Object.keys(PLACEMENT_SLOTS);
+  const from = query.from && query.from > firstBookableDay() ? query.from : firstBookableDay();
+  const to = query.to || lastInventoryDay(from);
+  return getInventory(placements, from, to, { quoteId: query.quote_id });
 }
 
 export function addQuotesRoutes(app: Express) {
-  // GET /api/spotlight/blocked-dates - Get dates that are already booked
-  app.get('/api/spotlight/blocked-dates', async (req, res) => {
+  // GET /api/spotlight/inventory - Per-day availability for the booking calendar
+  app.get('/api/spotlight/inventory', async (req, res) => {
     try {
-      const supabase = getSupabaseAdmin();
-      const { package_code } = req.query;
-      
-      // Only check sponsor_leads table for blocked dates
-      // This excludes placeholder campaigns that advertise sponsor opportunities
-      const { data: leadsData, error: leadsError } = await supabase
-        .from('sponsor_leads')
-        .select('start_date, end_date, package_code, status, business_name')
-        .in('status', ['approved', 'onboarded', 'active'])
-        .gte('end_date', new Date().toISOString());
-      
-      if (leadsError) {
-        console.error('Error fetching leads:', leadsError);
-        return res.status(500).json({ 
-          ok: false, 
-          error: 'Failed to fetch blocked dates' 
-        });
+      const query = inventoryQuerySchema.parse(req.query);
+      const days = await inventoryForQuery(query);
+
+      res.json({
+        ok: true,
+        days: days.map(({ day, status }) => ({ day, status })),
+        hold_minutes: QUOTE_HOLD_MINUTES
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ ok: false, error: 'Invalid request data', details: error.errors });
       }
-      
-      // Collect all blocked date ranges from approved/onboarded leads only
+      console.error('Error fetching inventory:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch inventory' });
+    }
+  });
+
+  // GET /api/spotlight/blocked-dates - Get dates that are sold or on hold
+  app.get('/api/spotlight/blocked-dates', async (req, res) => {
+    try {
+      const query = inventoryQuerySchema.parse(req.query);
+      const days = await inventoryForQuery(query);
+
       const blockedRanges: Array<{ start: string; end: string; reason: string; package: string }> = [];
-      
-      // Add dates from approved/onboarded leads
-      if (leadsData) {
-        leadsData.forEach(lead => {
-          if (lead.start_date && lead.end_date) {
-            // If a package_code is specified, only include conflicting packages
-            if (package_code && typeof package_code === 'string') {
-              // Skip if there's no placement conflict
-              if (!hasPlacementConflict(package_code, lead.package_code)) {
-                return;
-              }
-            }
-            
-            const reasonText = lead.status === 'approved' 
-              ? 'Approved booking' 
-              : lead.status === 'active' 
-                ? 'Active sponsor'
-                : 'Reserved booking';
-            
-            blockedRanges.push({
-              start: lead.start_date.split('T')[0],
-              end: lead.end_date.split('T')[0],
-              reason: reasonText,
-              package: lead.package_code
-            });
-          }
-        });
-      }
-      
-      // Generate array of all blocked dates
-      const blockedDates = new Set<string>();
-      const dateReasons = new Map<string, string>();
-      
-      blockedRanges.forEach(range => {
-        // Parse dates with explicit UTC to avoid timezone issues
-        const start = new Date(range.start + 'T00:00:00Z');
-        const end = new Date(range.end + 'T00:00:00Z');
-        
-        // Use a safer date iteration that doesn't modify the original date
-        const currentDate = new Date(start);
-        while (currentDate <= end) {
-          const dateStr = currentDate.toISOString().split('T')[0];
-          blockedDates.add(dateStr);
-          // Keep the first reason for each date
-          if (!dateReasons.has(dateStr)) {
-            dateReasons.set(dateStr, range.reason);
-          }
-          // Create a new date for the next iteration to avoid mutation issues
-          currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+      const dateReasons: Record<string, string> = {};
+
+      days.forEach(({ day, status }, i) => {
+        if (status === 'available') return;
+        const reason = status === 'sold' ? 'Booked' : 'On hold';
+        dateReasons[day] = reason;
+
+        // Extend the previous range when it ends the day before with the same reason
+        const last = blockedRanges[blockedRanges.length - 1];
+        if (last && i > 0 && last.end === days[i - 1].day && last.reason === reason) {
+          last.end = day;
+        } else {
+          blockedRanges.push({ start: day, end: day, reason, package: query.package_code || 'all' });
         }
       });
-      
+
       res.json({
         ok: true,
-        blockedDates: Array.from(blockedDates).sort(),
+        blockedDates: Object.keys(dateReasons).sort(),
         blockedRanges,
-        dateReasons: Object.fromEntries(dateReasons)
+        dateReasons
       });
       
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ ok: false, error: 'Invalid request data', details: error.errors });
+      }
       console.error('Error fetching blocked dates:', error);
       res.status(500).json({ 
         ok: false, 
@@ -292,9 +272,9 @@ export function addQuotesRoutes(app: Express) {
       }
 
       const body = createQuoteSchema.parse(req.body);
-      const quoteId = await createQuote(body);
+      const quote = await createQuote(body);
       
-      res.json({ ok: true, quote_id: quoteId });
+      res.json({ ok: true, quote_id: quote.id, hold_expires_at: quote.holdExpiresAt });
     } catch (err) {
       console.error('Error creating quote:', err);
       if (err instanceof z.ZodError) {
@@ -412,6 +392,7 @@ export function addQuotesRoutes(app: Express) {
         ackExclusive: true,
         ackGuarantee: true,
         quoteId: req.body.quoteId,
+        holdQuoteId: req.body.holdQuoteId || undefined,
         promoCode: req.body.promoCode,
         creditsToUse: req.body.creditsToUse ? parseInt(req.body.creditsToUse) : undefined
       };
@@ -590,19 +571,12 @@ export function addQuotesRoutes(app: Express) {
   });
 
   // Admin approval endpoints
-  app.post('/api/admin/leads/:id/approve', async (req, res) => {
+  app.post('/api/admin/leads/:id/approve', requireAdmin('sponsors'), async (req, res) => {
     try {
-      // Check admin auth
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const { id } = req.params;
-      const approvedBy = req.body.approvedBy || 'console';
+      const approvedBy = actorLabel(getAdminActor(req), req.body.approvedBy || 'console');
       
-      const result = await approveLead(id, approvedBy);
+      const result = await approveLead(id, approvedBy, req.body.province);
       res.json(result);
     } catch (error) {
       console.error('Error approving lead:', error);
@@ -613,15 +587,8 @@ export function addQuotesRoutes(app: Express) {
     }
   });
 
-  app.post('/api/admin/leads/:id/resend-onboarding', async (req, res) => {
+  app.post('/api/admin/leads/:id/resend-onboarding', requireAdmin('sponsors'), async (req, res) => {
     try {
-      // Check admin auth
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const { id } = req.params;
       const result = await resendOnboardingEmail(id);
       res.json(result);
@@ -634,15 +601,8 @@ export function addQuotesRoutes(app: Express) {
     }
   });
 
-  app.post('/api/admin/leads/:id/revoke-onboarding', async (req, res) => {
+  app.post('/api/admin/leads/:id/revoke-onboarding', requireAdmin('sponsors'), async (req, res) => {
     try {
-      // Check admin auth
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const { id } = req.params;
       const result = await revokeOnboardingToken(id);
       res.json(result);
@@ -1,6 +1,13 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { getSupabaseAdmin } from './supabaseAdmin.js';
+import { requireAdmin, getAdminActor, internalAdminHeaders } from './adminAuth.js';
 import crypto from 'crypto';
+import { selectSpotlights, findShareOfVoiceConflict, CREATIVE_ROTATIONS } from './services/sponsorRotationService.js';
+import { getCappedCampaignIds, sponsorDay } from './services/sponsorExposureService.js';
+import { recordAdEvents, rollupMetrics, MAX_EVENTS_PER_BATCH, MAX_ROLLUP_DAYS, type AdEventInput } from './services/sponsorEventService.js';
+import { getPacing, getMakegoods, runPacing, decideMakegood, getMakegoodCampaignsForToday } from './services/sponsorPacingService.js';
+import { getInvoice, invoiceToPdf, getActivationBlock, constructSponsorWebhookEvent, handleSponsorCheckoutCompleted } from './services/sponsorInvoiceService.js';
+import { getCreativeTestResults, promoteCreative, runCreativeTests } from './services/sponsorCreativeTestService.js';
 
 export function addSpotlightRoutes(app: Express) {
   const supabase = getSupabaseAdmin();
@@ -119,6 +126,8 @@ export function addSpotlightRoutes(app: Express) {
           
           -- Add image_url column if it doesn't exist (for existing tables)
           ALTER TABLE public.sponsor_campaigns ADD COLUMN IF NOT EXISTS image_url text;
+          ALTER TABLE public.sponsor_campaigns ADD COLUMN IF NOT EXISTS share_of_voice int;
+          ALTER TABLE public.sponsor_campaigns ADD COLUMN IF NOT EXISTS creative_rotation text NOT NULL DEFAULT 'even';
         `
       });
 
@@ -133,8 +142,11 @@ export function addSpotlightRoutes(app: Express) {
             image_desktop_url text,
             image_mobile_url text,
             logo_url text,
-            alt text
+            alt text,
+            is_active boolean NOT NULL DEFAULT true
           );
+          
+          ALTER TABLE public.sponsor_creatives ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
         `
       });
 
@@ -217,21 +229,8 @@ export function addSpotlightRoutes(app: Express) {
   // Initialize tables on startup
   initTables();
 
-  // Admin authentication middleware
-  const requireAdminKey = (req: any, res: any, next: any) => {
-    const adminKey = req.headers['x-admin-key'];
-    const expectedKey = process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY || 'jugnu-admin-dev-2025';
-    
-    // Debug logging for admin key mismatch
-    if (!adminKey || adminKey !== expectedKey) {
-      console.warn(`Admin key mismatch: received "${adminKey?.substring(0, 8)}...", expected "${expectedKey?.substring(0, 8)}..."`);
-      return res.status(401).json({ ok: false, error: 'Unauthorized - invalid admin key' });
-    }
-    next();
-  };
-
   // Schema migration endpoint
-  app.post('/api/spotlight/admin/migrate-schema', requireAdminKey, async (req, res) => {
+  app.post('/api/spotlight/admin/migrate-schema', requireAdmin('system'), async (req, res) => {
     try {
       // Add enhanced metrics columns
       await supabase.rpc('exec_sql', {
@@ -371,7 +370,7 @@ export function addSpotlightRoutes(app: Express) {
   // Public active spotlights endpoint
   app.get('/api/spotlight/active', async (req, res) => {
     try {
-      const { placement } = req.query;
+      const { placement, visitorId } = req.query;
       const now = new Date().toISOString();
       
       let query = supabase
@@ -392,28 +391,22 @@ export function addSpotlightRoutes(app: Express) {
       
       if (error) throw error;
 
-      // Group by placement and transform sponsor_creatives to creative
-      const spotlights: Record<string, any> = {};
-      
-      campaigns?.forEach((campaign: any) => {
-        campaign.placements?.forEach((p: string) => {
-          if (!placement || p === placement) {
-            if (!spotlights[p] || spotlights[p].priority < campaign.priority) {
-              // Transform sponsor_creatives array to creative object for frontend compatibility
-              const creative = campaign.sponsor_creatives?.find((c: any) => c.placement === p) 
-                || campaign.sponsor_creatives?.[0] 
-                || null;
-              
-              spotlights[p] = {
-                ...campaign,
-                creative, // Add as singular 'creative' for frontend
-                // Also keep campaignId for SpotlightHero component compatibility
-                campaignId: campaign.id
-              };
-            }
-          }
-        });
-      });
+      // Campaigns owed a makegood today run on those placements even though their dates are over
+      const running = campaigns || [];
+      const makegoods = (await getMakegoodCampaignsForToday())
+        .filter((c: any) => !running.some((r: any) => r.id === c.id))
+        .filter((c: any) => !placement || c.placements.includes(placement));
+
+      // Leave out campaigns this visitor has already seen as often as the daily cap allows
+      const candidates = [...running, ...makegoods];
+      const cappedIds = visitorId
+        ? await getCappedCampaignIds(String(visitorId), candidates)
+        : [];
+      const eligible = candidates.filter((c: any) => !cappedIds.includes(c.id));
+
+      // Rotate concurrent campaigns on each placement by share of voice, and pick the creative here
+      // so the impression the client reports back is counted against it
+      const spotlights = await selectSpotlights(eligible, placement as string | undefined);
 
       res.json({ ok: true, spotlights });
     } catch (error) {
@@ -462,7 +455,7 @@ export function addSpotlightRoutes(app: Express) {
   };
 
   // Admin campaign upsert endpoint
-  app.post('/api/spotlight/admin/campaign/upsert', async (req, res) => {
+  app.post('/api/spotlight/admin/campaign/upsert', requireAdmin('sponsors'), async (req, res) => {
     try {
       const {
         id,
@@ -479,6 +472,11 @@ export function addSpotlightRoutes(app: Express) {
         is_active,
         is_sponsored,
         tags,
+        share_of_voice,
+        creative_rotation,
+        ab_auto_promote,
+        ab_confidence,
+        ab_min_impressions,
         // freq_cap_per_user_per_day, // Schema cache issue - disable until PostgREST refreshes
         creatives
       } = req.body;
@@ -523,6 +521,27 @@ export function addSpotlightRoutes(app: Express) {
           : Math.max(0, Number(capStr));  // 0 is valid (no cap)
       const coercedTags = Array.isArray(tags) ? tags : [];
 
+      // Blank share of voice means "split whatever isn't booked"
+      const coercedShareOfVoice =
+        share_of_voice === '' || share_of_voice === null || share_of_voice === undefined
+          ? null
+          : Number(share_of_voice);
+      if (coercedShareOfVoice !== null && (!Number.isInteger(coercedShareOfVoice) || coercedShareOfVoice < 0 || coercedShareOfVoice > 100)) {
+        return res.status(400).json({ ok: false, error: 'Share of voice must be a whole percentage between 0 and 100' });
+      }
+      const coercedRotation = creative_rotation || 'even';
+      if (!CREATIVE_ROTATIONS.includes(coercedRotation)) {
+        return res.status(400).json({ ok: false, error: `Creative rotation must be one of: ${CREATIVE_ROTATIONS.join(', ')}` });
+      }
+      const coercedConfidence = ab_confidence === undefined || ab_confidence === null || ab_confidence === '' ? 0.95 : Number(ab_confidence);
+      if (!(coercedConfidence > 0 && coercedConfidence < 1)) {
+        return res.status(400).json({ ok: false, error: 'A/B confidence must be between 0 and 1' });
+      }
+      const coercedMinImpressions = ab_min_impressions === undefined || ab_min_impressions === null || ab_min_impressions === '' ? 1000 : Number(ab_min_impressions);
+      if (!Number.isInteger(coercedMinImpressions) || coercedMinImpressions < 0) {
+        return res.status(400).json({ ok: false, error: 'A/B minimum impressions must be a whole number' });
+      }
+
       // Date handling
       let finalStartAt: string;
       let finalEndAt: string;
@@ -550,6 +569,46 @@ export function addSpotlightRoutes(app: Express) {
         finalClickUrl += `${separator}utm_source=jugnu&utm_medium=sponsorship&utm_campaign=${encodeURIComponent(name)}`;
       }
 
+      // Active variants on a placement can't be promised more than all of its traffic
+      if (Array.isArray(creatives)) {
+        const weightByPlacement: Record<string, number> = {};
+        for (const creative of creatives) {
+          const weight = creative.traffic_weight;
+          if (weight === undefined || weight === null || weight === '') continue;
+          if (!Number.isInteger(Number(weight)) || Number(weight) < 0 || Number(weight) > 100) {
+            return res.status(400).json({ ok: false, error: 'Traffic weight must be a whole percentage between 0 and 100' });
+          }
+          if (creative.is_active === false) continue;
+          weightByPlacement[creative.placement] = (weightByPlacement[creative.placement] || 0) + Number(weight);
+        }
+        const over = Object.keys(weightByPlacement).find(p => weightByPlacement[p] > 100);
+        if (over) {
+          return res.status(400).json({ ok: false, error: `Traffic weights on ${over} add up to ${weightByPlacement[over]}%; they can't go past 100%` });
+        }
+      }
+
+      // Campaigns from an approved lead wait for their invoice
+      if (coercedIsActive && id) {
+        const blocked = await getActivationBlock(id);
+        if (blocked) {
+          return res.status(409).json({ ok: false, error: blocked });
+        }
+      }
+
+      // Booked shares can't add up past 100% on a placement at any point in the run
+      if (coercedIsActive) {
+        const conflict = await findShareOfVoiceConflict({
+          id,
+          placements,
+          start_at: finalStartAt,
+          end_at: finalEndAt,
+          share_of_voice: coercedShareOfVoice
+        });
+        if (conflict) {
+          return res.status(409).json({ ok: false, error: conflict });
+        }
+      }
+
       const campaignData: any = {
         name: name.trim(),
         sponsor_name: sponsor_name.trim(),
@@ -564,6 +623,11 @@ export function addSpotlightRoutes(app: Express) {
         is_active: coercedIsActive,
         is_sponsored: coercedIsSponsored,
         tags: coercedTags,
+        share_of_voice: coercedShareOfVoice,
+        creative_rotation: coercedRotation,
+        ab_auto_promote: ab_auto_promote === true,
+        ab_confidence: coercedConfidence,
+        ab_min_impressions: coercedMinImpressions,
         updated_at: new Date().toISOString()
       };
       
@@ -604,31 +668,71 @@ export function addSpotlightRoutes(app: Express) {
         campaign = data;
       }
 
-      // Handle creatives if provided
+      // Handle creatives if provided. Existing creatives keep their ids so their metrics stay attached.
       if (creatives && Array.isArray(creatives) && creatives.length > 0) {
-        // Delete existing creatives
-        await supabase
-          .from('sponsor_creatives')
-          .delete()
-          .eq('campaign_id', campaign.id);
+        for (const creative of creatives) {
+          const placementError = validatePlacement(creative.placement);
+          if (placementError) {
+            return res.status(400).json({ ok: false, error: placementError });
+          }
+        }
 
-        // Insert new creatives
-        const creativesData = creatives.map((creative: any) => ({
+        const toCreativeRow = (creative: any) => ({
           campaign_id: campaign.id,
           placement: creative.placement,
           image_desktop_url: creative.image_desktop_url,
           image_mobile_url: creative.image_mobile_url,
           logo_url: creative.logo_url,
-          alt: creative.alt || `${sponsor_name} ${headline}`
-        }));
+          alt: creative.alt || `${sponsor_name} ${headline}`,
+          is_active: creative.is_active !== false,
+          variant_label: creative.variant_label?.trim() || null,
+          headline: creative.headline?.trim() || null,
+          subline: creative.subline?.trim() || null,
+          cta_text: creative.cta_text?.trim() || null,
+          traffic_weight: creative.traffic_weight === undefined || creative.traffic_weight === null || creative.traffic_weight === ''
+            ? null
+            : Number(creative.traffic_weight)
+        });
 
-        const { error: creativesError } = await supabase
+        const keptIds = creatives.filter((c: any) => c.id).map((c: any) => c.id);
+
+        // Remove creatives that were dropped from the campaign
+        let deleteQuery = supabase
           .from('sponsor_creatives')
-          .insert(creativesData);
+          .delete()
+          .eq('campaign_id', campaign.id);
+        if (keptIds.length > 0) {
+          deleteQuery = deleteQuery.not('id', 'in', `(${keptIds.join(',')})`);
+        }
+        const { error: deleteError } = await deleteQuery;
+        if (deleteError) {
+          console.error('Creatives delete error:', deleteError);
+          return res.status(400).json({ ok: false, error: mapSupabaseError(deleteError) });
+        }
+
+        for (const creative of creatives.filter((c: any) => c.id)) {
+          const { error: updateError } = await supabase
+            .from('sponsor_creatives')
+            .update(toCreativeRow(creative))
+            .eq('id', creative.id)
+            .eq('campaign_id', campaign.id);
 
-        if (creativesError) {
-          console.error('Creatives error:', creativesError);
-          return res.status(400).json({ ok: false, error: mapSupabaseError(creativesError) });
+          if (updateError) {
+            console.error('Creative update error:', updateError);
+            return res.status(400).json({ ok: false, error: mapSupabaseError(updateError) });
+          }
+        }
+
+        const newCreatives = creatives.filter((c: any) => !c.id).map(toCreativeRow);
+        if (newCreatives.length > 0) {
+          const { error: creativesError } = await supabase
+            .from('sponsor_creatives')
+            .insert(newCreatives);
+
+          if (creativesError) {
+            console.error('Creatives error:', creativesError);
+            return res.status(400).json({ ok: false, error: mapSupabaseError(creativesError) });
+          }
         }
       }
 
@@ -643,217 +747,193 @@ export function addSpotlightRoutes(app: Express) {
     }
   });
 
-  // Simple in-memory cache to track unique users per day
-  // This resets when server restarts, but prevents rapid duplicate counting
-  const uniqueUserCache = new Map<string, Set<string>>();
-  
   // Metrics tracking endpoint with enhanced device and duration tracking
+  // Ad events from the spotlight components: one event, or a batch as { events: [...] }.
+  // Events only go into the append-only log here; the rollup turns them into daily metrics.
   app.post('/api/spotlight/admin/metrics/track', async (req, res) => {
     try {
-      const { 
-        campaignId, 
-        placement = 'events_banner', 
-        eventType, 
-        userId,
-        deviceType,  // 'mobile' or 'desktop'
-        viewDuration // milliseconds the ad was visible
-      } = req.body;
-      
-      // Use Pacific timezone for consistency
-      const vancouverTime = new Date().toLocaleString('en-CA', { 
-        timeZone: 'America/Vancouver',
-        year: 'numeric',
-        month: '2-digit', 
-        day: '2-digit'
+      const events: AdEventInput[] = Array.isArray(req.body?.events) ? req.body.events : [req.body];
+      if (events.length > MAX_EVENTS_PER_BATCH) {
+        return res.status(413).json({ ok: false, error: `At most ${MAX_EVENTS_PER_BATCH} events per request` });
+      }
+
+      const result = await recordAdEvents(events, req.get('user-agent'));
+      res.json({ ok: true, ...result });
+    } catch (error) {
+      console.error('Metrics tracking error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to track metric' });
+    }
+  });
+
+  // Rebuild daily metrics from the event log, e.g. after fixing bad events or a failed rollup
+  app.post('/api/spotlight/admin/metrics/rollup', requireAdmin('sponsors'), async (req, res) => {
+    try {
+      const { from, to } = req.body || {};
+      const isDay = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+      if (!isDay(from) || !isDay(to) || from > to) {
+        return res.status(400).json({ ok: false, error: 'from and to must be YYYY-MM-DD days, from on or before to' });
+      }
+      const span = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) + 1;
+      if (Number.isNaN(span)) {
+        return res.status(400).json({ ok: false, error: 'from and to must be real dates' });
+      }
+      if (span > MAX_ROLLUP_DAYS) {
+        return res.status(400).json({ ok: false, error: `Roll up at most ${MAX_ROLLUP_DAYS} days at a time` });
+      }
+
+      const result = await rollupMetrics(from, to);
+      res.json({ ok: true, from, to, ...result });
+    } catch (error) {
+      console.error('Metrics rollup error:', error);
+      res.status(500).json({ ok: false, error: error instanceof Error ? error.message : 'Failed to roll up metrics' });
+    }
+  });
+
+  // Delivery pacing for running and recently finished campaigns, with makegoods awaiting a decision
+  app.get('/api/spotlight/admin/pacing', requireAdmin('sponsors'), async (req, res) => {
+    try {
+      const [pacing, makegoods] = await Promise.all([getPacing(), getMakegoods()]);
+      const today = sponsorDay();
+      res.json({
+        ok: true,
+        pacing,
+        makegoods: makegoods.filter(m => m.status === 'proposed' || m.day >= today)
       });
-      const today = vancouverTime.split(',')[0]; // Format: YYYY-MM-DD
-      console.log('📅 Metrics tracking - Date:', today, 'Campaign:', campaignId, 'Type:', eventType, 'Device:', deviceType);
-      
-      // Use service-role client for direct database access
-      const serviceRoleClient = getSupabaseAdmin();
-      
-      if (eventType === 'impression') {
-        // Track unique users properly using in-memory cache
-        let shouldIncrementUniqueUser = false;
-        
-        if (userId) {
-          // Create a key for this campaign/placement/day combination
-          const cacheKey = `${campaignId}:${placement}:${today}`;
-          
-          // Get or create the set of users for this key
-          if (!uniqueUserCache.has(cacheKey)) {
-            uniqueUserCache.set(cacheKey, new Set<string>());
-          }
-          
-          const userSet = uniqueUserCache.get(cacheKey)!;
-          
-          // Check if this user has already been counted today
-          if (!userSet.has(userId)) {
-            userSet.add(userId);
-            shouldIncrementUniqueUser = true;
-            
-            // Clean up old cache entries (keep only last 7 days)
-            if (uniqueUserCache.size > 100) {
-              const oldestKey = uniqueUserCache.keys().next().value;
-              if (oldestKey) {
-                uniqueUserCache.delete(oldestKey);
-              }
-            }
-          }
-        }
-        
-        // Insert or update metrics with proper error handling
-        const { data: existing, error: selectError } = await serviceRoleClient
-          .from('sponsor_metrics_daily')
-          .select('*')
-          .eq('campaign_id', campaignId)
-          .eq('placement', placement)
-          .eq('day', today)
-          .single();
-        
-        // single() returns error when no rows found, that's ok
-        if (!selectError || selectError.code === 'PGRST116') {
-          if (existing) {
-            // Update existing record - use existing columns until schema cache refreshes
-            const updateData: any = {
-              raw_views: (existing.raw_views || 0) + 1,
-              billable_impressions: (existing.billable_impressions || 0) + 1,
-              unique_users: (existing.unique_users || 0) + (shouldIncrementUniqueUser ? 1 : 0)
-            };
-            
-            // Try to update enhanced metrics if columns exist
-            if (existing.impressions !== undefined) {
-              updateData.impressions = (existing.impressions || 0) + 1;
-            }
-            
-            // Track device-specific impressions if columns exist
-            if (deviceType === 'mobile' && existing.mobile_impressions !== undefined) {
-              updateData.mobile_impressions = (existing.mobile_impressions || 0) + 1;
-            } else if (deviceType === 'desktop' && existing.desktop_impressions !== undefined) {
-              updateData.desktop_impressions = (existing.desktop_impressions || 0) + 1;
-            }
-            
-            // Track view duration if column exists
-            if (viewDuration && viewDuration > 0 && existing.total_view_duration_ms !== undefined) {
-              updateData.total_view_duration_ms = (existing.total_view_duration_ms || 0) + viewDuration;
-            }
-            
-            const { error: updateError } = await serviceRoleClient
-              .from('sponsor_metrics_daily')
-              .update(updateData)
-              .eq('campaign_id', campaignId)
-              .eq('placement', placement)
-              .eq('day', today);
-              
-            if (updateError) {
-              console.error('Failed to update metrics:', updateError);
-              throw updateError;
-            } else {
-              console.log('✅ Successfully updated metrics record for campaign:', campaignId, 'on day:', today);
-            }
-          } else {
-            // Insert new record - use existing columns until schema cache refreshes
-            const insertData: any = {
-              campaign_id: campaignId,
-              placement,
-              day: today,
-              raw_views: 1,
-              billable_impressions: 1,
-              unique_users: shouldIncrementUniqueUser ? 1 : 0,
-              clicks: 0
-            };
-            
-            // Only add new columns if they're supported (we'll try and let DB reject if not)
-            // These will work once schema cache refreshes
-            /*
-            if (deviceType === 'mobile') {
-              insertData.mobile_impressions = 1;
-            } else if (deviceType === 'desktop') {
-              insertData.desktop_impressions = 1;
-            }
-            if (viewDuration) {
-              insertData.total_view_duration_ms = viewDuration;
-            }
-            */
-            
-            const { error: insertError } = await serviceRoleClient
-              .from('sponsor_metrics_daily')
-              .insert(insertData);
-              
-            if (insertError) {
-              console.error('Failed to insert metrics:', insertError);
-              console.error('Insert payload was:', insertData);
-              throw insertError;
-            } else {
-              console.log('✅ Successfully inserted metrics record for campaign:', campaignId, 'on day:', today);
-            }
-          }
-        } else {
-          console.error('Failed to select metrics:', selectError);
-          throw selectError;
-        }
+    } catch (error) {
+      console.error('Pacing load error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load pacing' });
+    }
+  });
 
-      } else if (eventType === 'click') {
-        // Check if record exists for clicks with proper error handling
-        const { data: existing, error: selectError } = await serviceRoleClient
-          .from('sponsor_metrics_daily')
-          .select('*')
-          .eq('campaign_id', campaignId)
-          .eq('placement', placement)
-          .eq('day', today)
-          .single();
-        
-        // single() returns error when no rows found, that's ok  
-        if (!selectError || selectError.code === 'PGRST116') {
-          if (existing) {
-            // Update clicks
-            const { error: updateError } = await serviceRoleClient
-              .from('sponsor_metrics_daily')
-              .update({
-                clicks: (existing.clicks || 0) + 1
-              })
-              .eq('campaign_id', campaignId)
-              .eq('placement', placement)
-              .eq('day', today);
-              
-            if (updateError) {
-              console.error('Failed to update click metrics:', updateError);
-              throw updateError;
-            }
-          } else {
-            // Insert new record with click
-            const { error: insertError } = await serviceRoleClient
-              .from('sponsor_metrics_daily')
-              .insert({
-                campaign_id: campaignId,
-                placement,
-                day: today, // Use the same date format
-                clicks: 1,
-                raw_views: 0,
-                billable_impressions: 0,
-                unique_users: 0
-              });
-              
-            if (insertError) {
-              console.error('Failed to insert click metrics:', insertError);
-              throw insertError;
-            }
-          }
-        } else {
-          console.error('Failed to select click metrics:', selectError);
-          throw selectError;
-        }
+  // Run a pacing pass now instead of waiting for the hourly one
+  app.post('/api/spotlight/admin/pacing/run', requireAdmin('sponsors'), async (req, res) => {
+    try {
+      const result = await runPacing();
+      res.json({ ok: true, ...result });
+    } catch (error) {
+      console.error('Pacing run error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to run pacing' });
+    }
+  });
+
+  app.post('/api/spotlight/admin/makegoods/:id/:decision', requireAdmin('sponsors'), async (req, res) => {
+    try {
+      const { id, decision } = req.params;
+      if (decision !== 'approve' && decision !== 'decline') {
+        return res.status(400).json({ ok: false, error: 'Decision must be approve or decline' });
+      }
+
+      const makegood = await decideMakegood(id, decision === 'approve');
+      res.json({ ok: true, makegood });
+    } catch (error) {
+      console.error('Makegood decision error:', error);
+      res.status(400).json({ ok: false, error: error instanceof Error ? error.message : 'Failed to update makegood' });
+    }
+  });
+
+  // A/B results for each placement where the campaign runs more than one creative
+  app.get('/api/spotlight/admin/campaigns/:id/creative-tests', requireAdmin('sponsors'), async (req, res) => {
+    try {
+      const { data: campaign, error } = await supabase
+        .from('sponsor_campaigns')
+        .select('*, sponsor_creatives (*)')
+        .eq('id', req.params.id)
+        .single();
+
+      if (error || !campaign) {
+        return res.status(404).json({ ok: false, error: 'Campaign not found' });
+      }
+
+      res.json({ ok: true, tests: await getCreativeTestResults(campaign) });
+    } catch (error) {
+      console.error('Creative test load error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load creative tests' });
+    }
+  });
+
+  // Promote a variant by hand, whether or not its test has reached significance
+  app.post('/api/spotlight/admin/campaigns/:id/creative-tests/promote', requireAdmin('sponsors'), async (req, res) => {
+    try {
+      const { placement, creativeId } = req.body;
+      if (!placement || !creativeId) {
+        return res.status(400).json({ ok: false, error: 'placement and creativeId are required' });
       }
 
+      await promoteCreative(req.params.id, placement, creativeId);
       res.json({ ok: true });
     } catch (error) {
-      console.error('Metrics tracking error:', error);
-      res.status(500).json({ ok: false, error: 'Failed to track metric' });
+      console.error('Creative promote error:', error);
+      res.status(400).json({ ok: false, error: error instanceof Error ? error.message : 'Failed to promote creative' });
+    }
+  });
+
+  // Run an auto-promotion pass now instead of waiting for the hourly one
+  app.post('/api/spotlight/admin/creative-tests/run', requireAdmin('sponsors'), async (req, res) => {
+    try {
+      const result = await runCreativeTests();
+      res.json({ ok: true, ...result });
+    } catch (error) {
+      console.error('Creative test run error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to run creative tests' });
+    }
+  });
+
+  // GET /api/spotlight/invoices/:id/pdf - Sponsor invoice, linked from the approval email
+  app.get('/api/spotlight/invoices/:id/pdf', async (req, res) => {
+    try {
+      const invoice = await getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ ok: false, error: 'Invoice not found' });
+      }
+
+      const { data: lead, error } = await supabase
+        .from('sponsor_leads')
+        .select('business_name, contact_name, email')
+        .eq('id', invoice.lead_id)
+        .single();
+      if (error) throw error;
+
+      const pdf = await invoiceToPdf(invoice, lead);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="jugnu-invoice-${invoice.number}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Invoice PDF error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to render invoice' });
+    }
+  });
+
+  // POST /api/spotlight/webhooks/stripe - Payment link checkouts for sponsor invoices
+  app.post('/api/spotlight/webhooks/stripe', express.raw({ type: 'application/json' }), async (req, res) => {
+    const sig = req.headers['stripe-signature'] as string;
+    if (!sig) {
+      return res.status(400).json({ ok: false, error: 'Missing stripe-signature header' });
+    }
+
+    const event = constructSponsorWebhookEvent(req.body, sig);
+    if (!event) {
+      return res.status(400).json({ ok: false, error: 'Invalid signature' });
+    }
+
+    try {
+      switch (event.type) {
+        case 'checkout.session.completed':
+        case 'checkout.session.async_payment_succeeded':
+          await handleSponsorCheckoutCompleted(event.data.object);
+          break;
+        default:
+          break;
+      }
+      res.json({ received: true });
+    } catch (error) {
+      // A 500 makes Stripe retry the delivery
+      console.error('Sponsor webhook error:', error);
+      res.status(500).json({ ok: false, error: 'Webhook processing failed' });
     }
   });
 
   // A) Test Metrics Endpoint with enhanced logging
-  app.get('/api/spotlight/admin/metrics/test', requireAdminKey, async (req, res) => {
+  app.get('/api/spotlight/admin/metrics/test', requireAdmin('system'), async (req, res) => {
     try {
       const { campaignId } = req.query;
       
@@ -888,7 +968,7 @@ export function addSpotlightRoutes(app: Express) {
           clicks: (before?.clicks || 0) + 1,
           unique_users: (before?.unique_users || 0) + 1
         }, {
-          onConflict: 'campaign_id, placement, day', // C) Using day column index
+          onConflict: 'campaign_id, creative_id, placement, day', // C) Using day column index
           ignoreDuplicates: false
         });
       
@@ -924,7 +1004,7 @@ export function addSpotlightRoutes(app: Express) {
   });
   
   // NEW: Metrics Dump Endpoint - read-only admin endpoint to see raw data
-  app.get('/api/spotlight/admin/metrics/dump', requireAdminKey, async (req, res) => {
+  app.get('/api/spotlight/admin/metrics/dump', requireAdmin('system'), async (req, res) => {
     try {
       const { campaignId, placement = 'events_banner' } = req.query;
       
@@ -975,7 +1055,7 @@ export function addSpotlightRoutes(app: Express) {
   });
 
   // Reload Schema Endpoint - triggers PostgREST schema cache refresh
-  app.get('/api/admin/reload-schema', requireAdminKey, async (req, res) => {
+  app.get('/api/admin/reload-schema', requireAdmin('system'), async (req, res) => {
     try {
       const serviceRoleClient = getSupabaseAdmin();
       
@@ -1009,7 +1089,7 @@ export function addSpotlightRoutes(app: Express) {
   });
 
   // Send Onboarding Email Endpoint
-  app.post('/api/spotlight/admin/send-onboarding', requireAdminKey, async (req, res) => {
+  app.post('/api/spotlight/admin/send-onboarding', requireAdmin('sponsors'), async (req, res) => {
     try {
       const { tokenId, token, recipient } = req.body;
       
@@ -1174,7 +1254,12 @@ thehouseofjugnu.com`;
             name,
             sponsor_name,
             start_at,
-            end_at
+            end_at,
+            placements,
+            ab_confidence,
+            ab_min_impressions,
+            ab_decisions,
+            sponsor_creatives (*)
           )
         `)
         .eq('is_active', true);
@@ -1244,12 +1329,14 @@ thehouseofjugnu.com`;
           groupedByDay[day] = {
             day: day,
             billable_impressions: 0,
+            viewable_impressions: 0,
             raw_views: 0,
             unique_users: 0,
             clicks: 0,
           };
         }
         groupedByDay[day].billable_impressions += row.billable_impressions || 0;
+        groupedByDay[day].viewable_impressions += row.viewable_impressions || 0;
         groupedByDay[day].raw_views += row.raw_views || 0;
         groupedByDay[day].clicks += row.clicks || 0;
         groupedByDay[day].unique_users += row.unique_users || 0;
@@ -1264,11 +1351,12 @@ thehouseofjugnu.com`;
       const totals = aggregatedMetrics.reduce(
         (acc: any, row: any) => ({
           billable_impressions: acc.billable_impressions + row.billable_impressions,
+          viewable_impressions: acc.viewable_impressions + row.viewable_impressions,
           raw_views: acc.raw_views + row.raw_views,
           unique_users: acc.unique_users + row.unique_users,
           clicks: acc.clicks + row.clicks,
         }),
-        { billable_impressions: 0, raw_views: 0, unique_users: 0, clicks: 0 }
+        { billable_impressions: 0, viewable_impressions: 0, raw_views: 0, unique_users: 0, clicks: 0 }
       );
 
       // Calculate CTR
@@ -1334,6 +1422,7 @@ thehouseofjugnu.com`;
       const chartData = aggregatedMetrics.map((row: any) => ({
         date: row.day,
         billable_impressions: row.billable_impressions,
+        viewable_impressions: row.viewable_impressions,
         raw_views: row.raw_views,
         unique_users: row.unique_users,
         clicks: row.clicks,
@@ -1347,6 +1436,27 @@ thehouseofjugnu.com`;
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
       const last7Days = chartData.filter(row => row.date && new Date(row.date) >= sevenDaysAgo);
 
+      // Delivery against the guarantee, and any makegood days we've scheduled. Sponsors only
+      // see makegoods once approved.
+      let delivery = null;
+      try {
+        const [pacing] = await getPacing([campaign.id]);
+        const makegoods = await getMakegoods({ campaignId: campaign.id, status: 'approved' });
+        delivery = {
+          placements: pacing?.placements || [],
+          makegoods: makegoods.map(m => ({ placement: m.placement, day: m.day, impressions: m.makegoodImpressions }))
+        };
+      } catch (deliveryError) {
+        console.error('Portal delivery error:', deliveryError);
+      }
+
+      let creativeTests: Awaited<ReturnType<typeof getCreativeTestResults>> = [];
+      try {
+        creativeTests = await getCreativeTestResults(campaign);
+      } catch (testError) {
+        console.error('Portal creative test error:', testError);
+      }
+
       res.json({
         ok: true,
         campaign: {
@@ -1360,6 +1470,8 @@ thehouseofjugnu.com`;
           ctr: parseFloat(ctr)
         },
         ctrBenchmark,
+        delivery,
+        creativeTests,
         chartData,
         last7Days,
         last30Days: chartData // Return all data as 30-day view for now
@@ -1386,7 +1498,12 @@ thehouseofjugnu.com`;
             name,
             sponsor_name,
             start_at,
-            end_at
+            end_at,
+            placements,
+            ab_confidence,
+            ab_min_impressions,
+            ab_decisions,
+            sponsor_creatives (*)
           )
         `)
         .eq('is_active', true);
@@ -1445,7 +1562,11 @@ thehouseofjugnu.com`;
       });
 
       // Build CSV content - Updated to show simplified "impressions" instead of separate raw_views/billable_impressions
-      const csvRows = ['date,placement,impressions,clicks,unique_users,ctr'];
+      const csvRows = ['date,placement,creative_id,variant,impressions,clicks,unique_users,ctr'];
+      const creativeTests = await getCreativeTestResults({ ...campaign, id: campaignId });
+      const variantLabels: Record<string, string> = {};
+      creativeTests.forEach(test => test.variants.forEach(v => { variantLabels[v.creativeId] = v.label; }));
+      const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
       
       if (metrics && metrics.length > 0) {
         metrics.forEach(row => {
@@ -1455,13 +1576,26 @@ thehouseofjugnu.com`;
             : '0.00';
           
           csvRows.push(
-            `${row.day},${row.placement || ''},${impressions},${row.clicks || 0},${row.unique_users || 0},${ctr}`
+            `${row.day},${row.placement || ''},${row.creative_id || ''},${csvField(variantLabels[row.creative_id] || '')},${impressions},${row.clicks || 0},${row.unique_users || 0},${ctr}`
           );
         });
       } else {
         // Add at least one row with today's date and zeros
         const today = new Date().toISOString().split('T')[0];
-        csvRows.push(`${today},events_banner,0,0,0,0.00`);
+        csvRows.push(`${today},events_banner,,,0,0,0,0.00`);
+      }
+
+      // A/B results over the whole campaign, after the daily rows
+      if (creativeTests.length > 0) {
+        csvRows.push('', 'placement,variant,creative_id,impressions,clicks,ctr,confidence_leader_is_better,test_status,result');
+        creativeTests.forEach(test => {
+          test.variants.forEach(v => {
+            const result = v.isWinner ? 'winner' : test.winnerCreativeId ? 'lost' : v.isLeader ? 'leading' : 'trailing';
+            csvRows.push(
+              `${test.placement},${csvField(v.label)},${v.creativeId},${v.impressions},${v.clicks},${v.ctr.toFixed(2)},${v.confidence === null ? '' : (v.confidence * 100).toFixed(1)},${test.status},${result}`
+            );
+          });
+        });
       }
 
       // Set CSV headers and send
@@ -1599,7 +1733,7 @@ thehouseofjugnu.com`;
   });
 
   // Self-test endpoint for system validation (admin key required)
-  app.get('/api/spotlight/admin/selftest', requireAdminKey, async (req, res) => {
+  app.get('/api/spotlight/admin/selftest', requireAdmin('system'), async (req, res) => {
     const results: {
       timestamp: string;
       overall: string;
@@ -1628,7 +1762,7 @@ thehouseofjugnu.com`;
       results.tests.spotlights = await testSpotlights();
       
       // Test 3: Impression + click tracking and metrics aggregation
-      results.tests.tracking = await testTracking();
+      results.tests.tracking = await testTracking(req);
       
       // Test 4: Portal token creation and validation
       results.tests.portalTokens = await testPortalTokens(req);
@@ -1760,7 +1894,7 @@ thehouseofjugnu.com`;
     }
   }
 
-  async function testTracking() {
+  async function testTracking(req: any) {
     try {
       const serviceRoleClient = getSupabaseAdmin();
       const today = new Date().toISOString().split('T')[0];
@@ -1796,12 +1930,12 @@ thehouseofjugnu.com`;
       
       // Call the admin metrics test endpoint twice
       const testUrl = `http://localhost:5000/api/spotlight/admin/metrics/test?campaignId=${campaign.id}`;
-      const testKey = process.env.ADMIN_KEY || 'jugnu-admin-dev-2025';
+      const testHeaders = internalAdminHeaders(getAdminActor(req)!);
       
       let wrote = 0;
       for (let i = 0; i < 2; i++) {
         const response = await fetch(testUrl, {
-          headers: { 'x-admin-key': testKey }
+          headers: testHeaders
         });
         const data = await response.json();
         if (data.ok && data.wrote) {
@@ -1912,11 +2046,11 @@ thehouseofjugnu.com`;
 
       // Call admin metrics test twice to populate data
       const testUrl = `http://localhost:5000/api/spotlight/admin/metrics/test?campaignId=${campaign.id}`;
-      const testKey = process.env.ADMIN_KEY || 'jugnu-admin-dev-2025';
+      const testHeaders = internalAdminHeaders(getAdminActor(req)!);
       
       for (let i = 0; i < 2; i++) {
         await fetch(testUrl, {
-          headers: { 'x-admin-key': testKey }
+          headers: testHeaders
         });
       }
 
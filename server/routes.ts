@@ -10,6 +10,7 @@ import { addAdminLeadsRoutes } from './routes-admin-leads.js';
 import { registerOnboardingRoutes } from './routes-onboarding.js';
 import { addDealsRoutes } from './routes-deals.js';
 import { addPromoCodeRoutes } from './routes-promo-codes.js';
+import { requireAdmin, getAdminActor, internalAdminHeaders, SERVER_ACTOR } from './adminAuth.js';
 import { createHash } from "crypto";
 import ical from "node-ical";
 import he from "he";
@@ -41,6 +42,9 @@ function createCanonicalKey(title: string, startAt: Date, venue: string | null,
 
 import { insertCommunityEventSchema, updateCommunityEventSchema, visitorAnalytics, insertVisitorAnalyticsSchema } from "@shared/schema";
 import { addTicketsRoutes } from "./tickets/tickets-routes";
+import { startWaitlistScheduler } from "./tickets/waitlist-service";
+import { startOrganizerWebhookScheduler } from "./tickets/organizer-webhook-service";
+import { startReconciliationScheduler } from "./tickets/reconciliation-service";
 import { addCommunitiesRoutes } from "./communities/communities-routes";
 import billingRoutes from "./communities/billing-routes";
 import webhookRoutes from "./communities/webhook-routes";
@@ -49,6 +53,9 @@ import { startSubscriptionScheduler } from "./communities/subscription-scheduler
 import { importFromGoogle, importFromYelp, reverifyAllPlaces } from "./lib/places-sync.js";
 import { matchAndEnrichPlaces, inactivateUnmatchedPlaces, getPlaceMatchingStats } from "./lib/place-matcher.js";
 import { sendDailyAnalyticsEmail } from "./services/emailService";
+import { startSponsorPacingScheduler } from "./services/sponsorPacingService";
+import { startCreativeTestScheduler } from "./services/sponsorCreativeTestService";
+import { startMetricsRollupScheduler } from "./services/sponsorEventService";
 
 // Helper function for group filtering (duplicated from client taxonomy)
 function getTypesForGroup(group: string): string[] {
@@ -339,14 +346,8 @@ Disallow: /account/*`;
   });
 
   // CSV export endpoint (admin only)
-  app.get("/api/waitlist/export", async (req, res) => {
+  app.get("/api/waitlist/export", requireAdmin('system'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).send("Unauthorized");
-      }
-
       const supabase = getSupabaseAdmin();
       const { data, error } = await supabase
         .from("waitlist_signups")
@@ -406,21 +407,8 @@ Disallow: /account/*`;
   };
 
   // Community Events - ICS Import Cron Endpoint
-  app.get("/api/community/cron/import-ics", async (req, res) => {
+  app.get("/api/community/cron/import-ics", requireAdmin('places'), async (req, res) => {
     try {
-      // Require admin key - accept any valid key
-      const adminKey = req.headers['x-admin-key'];
-      const validKeys = [
-        process.env.ADMIN_PASSWORD,
-        process.env.ADMIN_KEY,
-        process.env.EXPORT_ADMIN_KEY,
-        'jugnu-admin-dev-2025'
-      ].filter(Boolean);
-      
-      if (!adminKey || !validKeys.includes(adminKey)) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const icsUrls = process.env.COMMUNITY_ICS_URLS;
       if (!icsUrls) {
         return res.json({ ok: true, imported: 0, updated: 0, markedPast: 0, message: "No ICS URLs configured" });
@@ -1026,13 +1014,7 @@ Disallow: /account/*`;
   });
 
   // Schema Migration - Add columns and backfill categories
-  app.post("/api/community/admin/migrate", async (req, res) => {
-    const adminKey = req.headers['x-admin-key'];
-    const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-    if (!adminKey || adminKey !== expectedKey) {
-      return res.status(401).json({ ok: false, error: "unauthorized" });
-    }
-
+  app.post("/api/community/admin/migrate", requireAdmin('system'), async (req, res) => {
     try {
       const supabase = getSupabaseAdmin();
 
@@ -1112,15 +1094,8 @@ Disallow: /account/*`;
   });
 
   // Admin endpoint to clean up duplicate events
-  app.post("/api/community/admin/cleanup-duplicates", async (req, res) => {
+  app.post("/api/community/admin/cleanup-duplicates", requireAdmin('places'), async (req, res) => {
     try {
-      // Require admin key
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       console.log('Starting duplicate cleanup...');
       const supabase = getSupabaseAdmin();
       
@@ -1186,15 +1161,8 @@ Disallow: /account/*`;
   });
 
   // v2.7 Admin endpoint for backfill + cleanup + final unique index
-  app.post("/api/community/admin/dedupe", async (req, res) => {
+  app.post("/api/community/admin/dedupe", requireAdmin('places'), async (req, res) => {
     try {
-      // Require admin key
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       console.log('Starting v2.7 deduplication process...');
       const supabase = getSupabaseAdmin();
       
@@ -1367,15 +1335,8 @@ Disallow: /account/*`;
   });
 
   // Community Events - Admin Upsert Endpoint
-  app.post("/api/community/admin/upsert", async (req, res) => {
+  app.post("/api/community/admin/upsert", requireAdmin('places'), async (req, res) => {
     try {
-      // Require admin key
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const supabase = getSupabaseAdmin();
       const { id, ...eventData } = req.body;
 
@@ -1423,15 +1384,8 @@ Disallow: /account/*`;
   });
 
   // Community Events - Delete Endpoint
-  app.delete("/api/community/events/:id", async (req, res) => {
+  app.delete("/api/community/events/:id", requireAdmin('places'), async (req, res) => {
     try {
-      // Require admin key
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const supabase = getSupabaseAdmin();
       const { id } = req.params;
 
@@ -1557,13 +1511,10 @@ Disallow: /account/*`;
       
       if (isStale) {
         // Trigger background import (don't await - fire and forget)
-        const adminKey = process.env.EXPORT_ADMIN_KEY;
-        if (adminKey) {
-          fetch(`${req.protocol}://${req.get('host')}/api/community/cron/import-ics`, {
-            method: 'GET',
-            headers: { 'x-admin-key': adminKey }
-          }).catch(() => {}); // Ignore errors
-        }
+        fetch(`${req.protocol}://${req.get('host')}/api/community/cron/import-ics`, {
+          method: 'GET',
+          headers: internalAdminHeaders(SERVER_ACTOR)
+        }).catch(() => {}); // Ignore errors
       }
       
       // Get current time for filtering past events
@@ -1696,15 +1647,8 @@ Disallow: /account/*`;
   });
 
   // v2.8 Admin endpoint to toggle featured status
-  app.post("/api/community/admin/feature", async (req, res) => {
+  app.post("/api/community/admin/feature", requireAdmin('places'), async (req, res) => {
     try {
-      // Require admin key
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const { id, featured } = req.body;
       
       if (!id || typeof featured !== 'boolean') {
@@ -1750,13 +1694,7 @@ Disallow: /account/*`;
   });
 
   // Debug endpoint to see all events in database
-  app.get("/api/community/debug/all-events", async (req, res) => {
-    const adminKey = req.headers['x-admin-key'];
-    const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-    if (!adminKey || adminKey !== expectedKey) {
-      return res.status(401).json({ ok: false, error: "unauthorized" });
-    }
-
+  app.get("/api/community/debug/all-events", requireAdmin('system'), async (req, res) => {
     try {
       const supabase = getSupabaseAdmin();
       console.log("Testing Supabase connection...");
@@ -1780,13 +1718,7 @@ Disallow: /account/*`;
   });
 
   // Clear existing events and force fresh import with updated source_hash logic
-  app.post("/api/community/admin/clear-and-reimport", async (req, res) => {
-    const adminKey = req.headers['x-admin-key'];
-    const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-    if (!adminKey || adminKey !== expectedKey) {
-      return res.status(401).json({ ok: false, error: "unauthorized" });
-    }
-
+  app.post("/api/community/admin/clear-and-reimport", requireAdmin('system'), async (req, res) => {
     try {
       const supabase = getSupabaseAdmin();
 
@@ -1970,14 +1902,8 @@ Disallow: /account/*`;
   });
 
   // v2.9 Admin: List pending feature requests
-  app.get("/api/community/admin/feature-requests", async (req, res) => {
+  app.get("/api/community/admin/feature-requests", requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const supabase = getSupabaseAdmin();
 
       const { data, error } = await supabase
@@ -2000,14 +1926,8 @@ Disallow: /account/*`;
   });
 
   // v2.9 Admin: Approve feature request
-  app.post("/api/community/admin/feature-requests/approve", async (req, res) => {
+  app.post("/api/community/admin/feature-requests/approve", requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const { request_id } = req.body;
       if (!request_id) {
         return res.status(400).json({ ok: false, error: "request_id required" });
@@ -2118,14 +2038,8 @@ Disallow: /account/*`;
   });
 
   // v2.9 Admin: Reject feature request
-  app.post("/api/community/admin/feature-requests/reject", async (req, res) => {
+  app.post("/api/community/admin/feature-requests/reject", requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const { request_id, reason } = req.body;
       if (!request_id) {
         return res.status(400).json({ ok: false, error: "request_id required" });
@@ -2153,19 +2067,8 @@ Disallow: /account/*`;
   // Places directory API endpoints
   
   // Admin bulk upsert endpoint for places
-  app.post("/api/places/admin/bulk-upsert", async (req, res) => {
+  app.post("/api/places/admin/bulk-upsert", requireAdmin('places'), async (req, res) => {
     try {
-      // Check authentication
-      const adminKey = req.headers['x-admin-key'] as string;
-      const expectedKey = process.env.EXPORT_ADMIN_KEY;
-      
-      if (!adminKey || !expectedKey || adminKey !== expectedKey) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       // Handle both formats: {places: [...]} or directly [...]
       let places;
       if (Array.isArray(req.body)) {
@@ -2390,16 +2293,8 @@ Disallow: /account/*`;
   // Places Sync v1 Admin Endpoints
   
   // Import places from Google Places and Yelp
-  app.post('/api/places/admin/import/sync', async (req, res) => {
+  app.post('/api/places/admin/import/sync', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       const { city = 'all' } = req.query;
       
       // Define Metro Vancouver cities
@@ -2449,16 +2344,8 @@ Disallow: /account/*`;
   });
 
   // Re-verify all places against Google Places API
-  app.post('/api/places/admin/reverify', async (req, res) => {
+  app.post('/api/places/admin/reverify', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       console.log('Starting place reverification...');
       const results = await reverifyAllPlaces();
 
@@ -2478,16 +2365,8 @@ Disallow: /account/*`;
   });
 
   // Get places for admin review
-  app.get('/api/places/admin/review', async (req, res) => {
+  app.get('/api/places/admin/review', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       const { status = 'pending' } = req.query;
       
       const supabase = getSupabaseAdmin();
@@ -2518,16 +2397,8 @@ Disallow: /account/*`;
   });
 
   // Approve a place
-  app.post('/api/places/admin/approve', async (req, res) => {
+  app.post('/api/places/admin/approve', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       const { id, featured = false } = req.body;
       
       if (!id) {
@@ -2569,16 +2440,8 @@ Disallow: /account/*`;
   });
 
   // Hide a place
-  app.post('/api/places/admin/hide', async (req, res) => {
+  app.post('/api/places/admin/hide', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       const { id } = req.body;
       
       if (!id) {
@@ -2620,16 +2483,8 @@ Disallow: /account/*`;
   });
 
   // Match IDs and resolve duplicates
-  app.post('/api/places/admin/match-ids', async (req, res) => {
+  app.post('/api/places/admin/match-ids', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       const { limit = '200' } = req.query;
       const limitNum = Math.min(parseInt(limit as string, 10) || 200, 500); // Cap at 500
 
@@ -2652,16 +2507,8 @@ Disallow: /account/*`;
   });
 
   // Inactivate unmatched places
-  app.post('/api/places/admin/inactivate-unmatched', async (req, res) => {
+  app.post('/api/places/admin/inactivate-unmatched', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       console.log('Starting inactivation of unmatched places older than 14 days...');
       const results = await inactivateUnmatchedPlaces();
 
@@ -2681,16 +2528,8 @@ Disallow: /account/*`;
   });
 
   // Get place matching statistics
-  app.get('/api/places/admin/stats', async (req, res) => {
+  app.get('/api/places/admin/stats', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       const stats = await getPlaceMatchingStats();
 
       res.json({
@@ -2792,14 +2631,8 @@ Disallow: /account/*`;
   });
 
   // Admin: Upsert place
-  app.post("/api/places/admin/upsert", async (req, res) => {
+  app.post("/api/places/admin/upsert", requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const supabase = getSupabaseAdmin();
       const placeData = req.body;
 
@@ -2870,16 +2703,8 @@ Disallow: /account/*`;
   });
 
   // Database migration for Places v1.2
-  app.post('/api/admin/migrate-places-v12', async (req, res) => {
+  app.post('/api/admin/migrate-places-v12', requireAdmin('system'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       console.log('Starting Places v1.2 database migration...');
 
       // Check if columns exist and add them if needed
@@ -2927,16 +2752,8 @@ Disallow: /account/*`;
   });
 
   // Validation statistics for Places v1.2  
-  app.get('/api/admin/places-validation', async (req, res) => {
+  app.get('/api/admin/places-validation', requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      if (!adminKey || adminKey !== process.env.EXPORT_ADMIN_KEY) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid or missing admin key' 
-        });
-      }
-
       const supabase = getSupabaseAdmin();
 
       // Get all places for validation  
@@ -3004,14 +2821,8 @@ Disallow: /account/*`;
   });
 
   // Admin: Feature place
-  app.post("/api/places/admin/feature", async (req, res) => {
+  app.post("/api/places/admin/feature", requireAdmin('places'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: "unauthorized" });
-      }
-
       const { id, featured } = req.body;
       const supabase = getSupabaseAdmin();
 
@@ -3203,6 +3014,9 @@ Disallow: /account/*`;
 
   // Add Sponsorship & Spotlight v4.0 routes
   addSpotlightRoutes(app);
+  startSponsorPacingScheduler();
+  startCreativeTestScheduler();
+  startMetricsRollupScheduler();
   
   // Add deals routes
   addDealsRoutes(app);
@@ -3223,26 +3037,9 @@ Disallow: /account/*`;
   registerOnboardingRoutes(app);
 
   // Admin endpoint to refresh events from ICS feeds
-  app.post('/api/admin/refresh-events', async (req, res) => {
+  app.post('/api/admin/refresh-events', requireAdmin('places'), async (req, res) => {
     try {
-      // Validate admin key from frontend
-      const frontendAdminKey = req.headers['x-admin-key'] as string;
-      const validKeys = [
-        process.env.ADMIN_PASSWORD,
-        process.env.ADMIN_KEY,
-        process.env.EXPORT_ADMIN_KEY,
-        'jugnu-admin-dev-2025'
-      ].filter(Boolean);
-      
-      if (!frontendAdminKey || !validKeys.includes(frontendAdminKey)) {
-        return res.status(401).json({ 
-          ok: false, 
-          error: 'Unauthorized - invalid admin key' 
-        });
-      }
-
-      // Call the import-ics endpoint internally with the proper admin key
-      const adminKey = process.env.EXPORT_ADMIN_KEY || process.env.ADMIN_KEY || process.env.ADMIN_PASSWORD || 'jugnu-admin-dev-2025';
+      // Call the import-ics endpoint internally on the same admin's behalf
       const protocol = req.protocol;
       const host = req.get('host');
       const importUrl = `${protocol}://${host}/api/community/cron/import-ics`;
@@ -3252,7 +3049,7 @@ Disallow: /account/*`;
       const response = await fetch(importUrl, {
         method: 'GET',
         headers: {
-          'x-admin-key': adminKey,
+          ...internalAdminHeaders(getAdminActor(req)!),
           'Content-Type': 'application/json'
         }
       });
@@ -3289,16 +3086,14 @@ Disallow: /account/*`;
 
   // Dev-only routes that call admin endpoints server-side (no client secrets)
   if (process.env.NODE_ENV !== 'production') {
-    const adminKey = process.env.EXPORT_ADMIN_KEY || 'dev-key-placeholder';
-
     // Dev route for worship reclassification
-    app.post('/api/dev/places/reclassify-worship', async (req, res) => {
+    app.post('/api/dev/places/reclassify-worship', requireAdmin('places'), async (req, res) => {
       try {
         // Call the admin endpoint internally
         const response = await fetch(`http://localhost:5000/api/places/admin/reclassify-worship`, {
           method: 'POST',
           headers: {
-            'x-admin-key': adminKey,
+            ...internalAdminHeaders(getAdminActor(req)!),
             'Content-Type': 'application/json'
           }
         });
@@ -3312,7 +3107,7 @@ Disallow: /account/*`;
     });
 
     // Dev route for photo enrichment
-    app.post('/api/dev/places/enrich-photos', async (req, res) => {
+    app.post('/api/dev/places/enrich-photos', requireAdmin('places'), async (req, res) => {
       try {
         const { limit = 200, source = 'all' } = req.query;
         
@@ -3320,7 +3115,7 @@ Disallow: /account/*`;
         const response = await fetch(`http://localhost:5000/api/places/admin/enrich-photos?limit=${limit}&source=${source}`, {
           method: 'POST',
           headers: {
-            'x-admin-key': adminKey,
+            ...internalAdminHeaders(getAdminActor(req)!),
             'Content-Type': 'application/json'
           }
         });
@@ -3334,13 +3129,13 @@ Disallow: /account/*`;
     });
 
     // Dev route for reverify
-    app.post('/api/dev/places/reverify', async (req, res) => {
+    app.post('/api/dev/places/reverify', requireAdmin('places'), async (req, res) => {
       try {
         // Call the admin endpoint internally
         const response = await fetch(`http://localhost:5000/api/places/admin/reverify`, {
           method: 'POST',
           headers: {
-            'x-admin-key': adminKey,
+            ...internalAdminHeaders(getAdminActor(req)!),
             'Content-Type': 'application/json'
           }
         });
@@ -3354,7 +3149,7 @@ Disallow: /account/*`;
     });
 
     // Dev route for sync operations
-    app.post('/api/dev/places/sync', async (req, res) => {
+    app.post('/api/dev/places/sync', requireAdmin('places'), async (req, res) => {
       try {
         const { city = 'all' } = req.query;
         
@@ -3362,7 +3157,7 @@ Disallow: /account/*`;
         const response = await fetch(`http://localhost:5000/api/places/admin/import/sync?city=${city}`, {
           method: 'POST',
           headers: {
-            'x-admin-key': adminKey,
+            ...internalAdminHeaders(getAdminActor(req)!),
             'Content-Type': 'application/json'
           }
         });
@@ -3376,7 +3171,7 @@ Disallow: /account/*`;
     });
 
     // Dev route for match IDs
-    app.post('/api/dev/places/match-ids', async (req, res) => {
+    app.post('/api/dev/places/match-ids', requireAdmin('places'), async (req, res) => {
       try {
         const { limit = 200 } = req.query;
         
@@ -3384,7 +3179,7 @@ Disallow: /account/*`;
         const response = await fetch(`http://localhost:5000/api/places/admin/match-ids?limit=${limit}`, {
           method: 'POST',
           headers: {
-            'x-admin-key': adminKey,
+            ...internalAdminHeaders(getAdminActor(req)!),
             'Content-Type': 'application/json'
           }
         });
@@ -3398,13 +3193,13 @@ Disallow: /account/*`;
     });
 
     // Dev route for inactivate unmatched
-    app.post('/api/dev/places/inactivate-unmatched', async (req, res) => {
+    app.post('/api/dev/places/inactivate-unmatched', requireAdmin('places'), async (req, res) => {
       try {
         // Call the admin endpoint internally
         const response = await fetch(`http://localhost:5000/api/places/admin/inactivate-unmatched`, {
           method: 'POST',
           headers: {
-            'x-admin-key': adminKey,
+            ...internalAdminHeaders(getAdminActor(req)!),
             'Content-Type': 'application/json'
           }
         });
@@ -3418,12 +3213,12 @@ Disallow: /account/*`;
     });
 
     // Dev route for stats
-    app.get('/api/dev/places/stats', async (req, res) => {
+    app.get('/api/dev/places/stats', requireAdmin('places'), async (req, res) => {
       try {
         // Call the admin endpoint internally
         const response = await fetch(`http://localhost:5000/api/places/admin/stats`, {
           headers: {
-            'x-admin-key': adminKey
+            ...internalAdminHeaders(getAdminActor(req)!)
           }
         });
 
@@ -4040,13 +3835,7 @@ Disallow: /account/*`;
   }
   
   // Store daily analytics (called manually from admin dashboard)
-  app.post('/api/admin/analytics/store-daily', async (req, res) => {
-    const adminKey = req.headers['x-admin-key'];
-    const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-    if (!adminKey || adminKey !== expectedKey) {
-      return res.status(401).json({ ok: false, error: 'Unauthorized' });
-    }
-    
+  app.post('/api/admin/analytics/store-daily', requireAdmin('system'), async (req, res) => {
     const targetDate = req.body?.date || getPSTDateString();
     console.log(`📊 Manual save requested for ${targetDate}`);
     
@@ -4070,13 +3859,7 @@ Disallow: /account/*`;
   });
   
   // Get analytics data for dashboard
-  app.get('/api/admin/analytics', async (req, res) => {
-    const adminKey = req.headers['x-admin-key'];
-    const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-    if (!adminKey || adminKey !== expectedKey) {
-      return res.status(401).json({ ok: false, error: 'Unauthorized' });
-    }
-    
+  app.get('/api/admin/analytics', requireAdmin('system'), async (req, res) => {
     try {
       const supabase = await getSupabaseAdmin();
       const { days = '30' } = req.query;
@@ -4214,13 +3997,7 @@ Disallow: /account/*`;
   });
   
   // Get current session analytics (real-time)
-  app.get('/api/admin/analytics/realtime', async (req, res) => {
-    const adminKey = req.headers['x-admin-key'];
-    const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-    if (!adminKey || adminKey !== expectedKey) {
-      return res.status(401).json({ ok: false, error: 'Unauthorized' });
-    }
-    
+  app.get('/api/admin/analytics/realtime', requireAdmin('system'), async (req, res) => {
     const sessions = Array.from(visitorSessions.values()).map(s => ({
       ...s,
       pages: Array.from(s.pages),
@@ -4239,13 +4016,7 @@ Disallow: /account/*`;
   });
 
   // Export analytics data as CSV
-  app.get('/api/admin/analytics/export', async (req, res) => {
-    const adminKey = req.headers['x-admin-key'];
-    const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-    if (!adminKey || adminKey !== expectedKey) {
-      return res.status(401).json({ ok: false, error: 'Unauthorized' });
-    }
-    
+  app.get('/api/admin/analytics/export', requireAdmin('system'), async (req, res) => {
     try {
       const supabase = await getSupabaseAdmin();
       const { days = 30 } = req.query;
@@ -4384,6 +4155,9 @@ Disallow: /account/*`;
   // Add ticketing routes if enabled
   if (process.env.ENABLE_TICKETING === 'true') {
     addTicketsRoutes(app);
+    startWaitlistScheduler();
+    startOrganizerWebhookScheduler();
+    startReconciliationScheduler();
   } else {
     // When ticketing is disabled, intercept all ticketing endpoints first
     
@@ -4510,14 +4284,8 @@ Disallow: /account/*`;
   // ===== Admin Routes for Job Postings =====
 
   // Get all job postings (admin)
-  app.get('/api/admin/careers/postings', async (req, res) => {
+  app.get('/api/admin/careers/postings', requireAdmin('system'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const supabase = getSupabaseAdmin();
       const { data: postings, error } = await supabase
         .from('job_postings')
@@ -4533,14 +4301,8 @@ Disallow: /account/*`;
   });
 
   // Create job posting (admin)
-  app.post('/api/admin/careers/postings', async (req, res) => {
+  app.post('/api/admin/careers/postings', requireAdmin('system'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const { insertJobPostingSchema } = await import('@shared/schema');
       const { z } = await import('zod');
       
@@ -4565,14 +4327,8 @@ Disallow: /account/*`;
   });
 
   // Update job posting (admin)
-  app.patch('/api/admin/careers/postings/:id', async (req, res) => {
+  app.patch('/api/admin/careers/postings/:id', requireAdmin('system'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const { id } = req.params;
       const updates = { ...req.body, updated_at: new Date().toISOString() };
 
@@ -4597,14 +4353,8 @@ Disallow: /account/*`;
   });
 
   // Delete job posting (admin)
-  app.delete('/api/admin/careers/postings/:id', async (req, res) => {
+  app.delete('/api/admin/careers/postings/:id', requireAdmin('system'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const { id } = req.params;
       const supabase = getSupabaseAdmin();
       const { error } = await supabase
@@ -4621,14 +4371,8 @@ Disallow: /account/*`;
   });
 
   // Get all applications (admin)
-  app.get('/api/admin/careers/applications', async (req, res) => {
+  app.get('/api/admin/careers/applications', requireAdmin('system'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const { jobPostingId, status } = req.query;
       const supabase = getSupabaseAdmin();
       
@@ -4653,14 +4397,8 @@ Disallow: /account/*`;
   });
 
   // Update application status (admin)
-  app.patch('/api/admin/careers/applications/:id', async (req, res) => {
+  app.patch('/api/admin/careers/applications/:id', requireAdmin('system'), async (req, res) => {
     try {
-      const adminKey = req.headers['x-admin-key'];
-      const expectedKey = process.env.ADMIN_PASSWORD || process.env.ADMIN_KEY || process.env.EXPORT_ADMIN_KEY;
-      if (!adminKey || adminKey !== expectedKey) {
-        return res.status(401).json({ ok: false, error: 'Unauthorized' });
-      }
-
       const { id } = req.params;
       const { status, notes } = req.body;
 
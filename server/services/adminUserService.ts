@@ -0,0 +1,262 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '../supabaseAdmin';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const ADMIN_ROLES = ['super_admin', 'sales', 'content', 'support'] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+// Route groups an admin endpoint belongs to
+export type AdminPermission = 'sponsors' | 'promo_codes' | 'places' | 'system' | 'audit' | 'users';
+type Access = 'read' | 'write';
+
+// Read access covers GET requests; write covers everything else
+const ROLE_ACCESS: Record<AdminRole, Partial<Record<AdminPermission, Access>>> = {
+  super_admin: { sponsors: 'write', promo_codes: 'write', places: 'write', system: 'write', audit: 'read', users: 'write' },
+  sales: { sponsors: 'write', promo_codes: 'write' },
+  content: { places: 'write', sponsors: 'read' },
+  support: { sponsors: 'read', promo_codes: 'read', places: 'read', audit: 'read' }
+};
+
+export function canAccess(role: AdminRole, permission: AdminPermission, write: boolean): boolean {
+  const access = ROLE_ACCESS[role]?.[permission];
+  return access === 'write' || (access === 'read' && !write);
+}
+
+export function permissionsFor(role: AdminRole): Partial<Record<AdminPermission, Access>> {
+  return ROLE_ACCESS[role] || {};
+}
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  is_active: boolean;
+  last_login_at: string | null;
+  created_at: string;
+}
+
+const USER_COLUMNS = 'id, email, name, role, is_active, last_login_at, created_at';
+
+export const createAdminUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1).max(100).optional(),
+  role: z.enum(ADMIN_ROLES),
+  password: z.string().min(12, 'Passwords need at least 12 characters')
+});
+
+export const updateAdminUserSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  role: z.enum(ADMIN_ROLES).optional(),
+  isActive: z.boolean().optional(),
+  password: z.string().min(12, 'Passwords need at least 12 characters').optional()
+});
+
+// Stored as scrypt$<salt>$<hash>, both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, expected] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+  const hash = await scrypt(password, salt, 64);
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  return expectedBuffer.length === hash.length && crypto.timingSafeEqual(hash, expectedBuffer);
+}
+
+export async function getAdminUser(id: string): Promise<AdminUser | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('admin_users')
+    .select(USER_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load admin user: ${error.message}`);
+  return data as AdminUser | null;
+}
+
+/**
+ * Check an email and password. Until the first account exists, signing in with any email and
+ * ADMIN_PASSWORD creates it as a super admin, so a fresh install can be set up from the login form.
+ */
+export async function authenticateAdmin(email: string, password: string): Promise<AdminUser | null> {
+  const supabase = getSupabaseAdmin();
+  const normalized = email.trim().toLowerCase();
+
+  const { data: user, error } = await supabase
+    .from('admin_users')
+    .select(`${USER_COLUMNS}, password_hash`)
+    .eq('email', normalized)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load admin user: ${error.message}`);
+
+  if (!user) {
+    const bootstrapPassword = process.env.ADMIN_PASSWORD;
+    if (!bootstrapPassword || password !== bootstrapPassword) return null;
+
+    const { count, error: countError } = await supabase
+      .from('admin_users')
+      .select('id', { count: 'exact', head: true });
+    if (countError) throw new Error(`Failed to count admin users: ${countError.message}`);
+    if ((count ?? 0) > 0) return null;
+
+    // The bootstrap flag is unique, so if another sign-in got here first this insert conflicts
+    const { data: created, error: createError } = await supabase
+      .from('admin_users')
+      .insert({
+        email: normalized,
+        role: 'super_admin',
+        password_hash: await hashPassword(password),
+        bootstrap: true
+      })
+      .select(USER_COLUMNS)
+      .single();
+
+    if (createError) {
+      if (createError.code === '23505') return null;
+      throw new Error(`Failed to create admin user: ${createError.message}`);
+    }
+    console.log(`[Admin Users] No admin users yet, created super admin ${normalized}`);
+    return created as AdminUser;
+  }
+
+  const { password_hash, ...adminUser } = user as any;
+  if (!adminUser.is_active || !(await verifyPassword(password, password_hash))) return null;
+
+  await supabase
+    .from('admin_users')
+    .update({ last_login_at: new Date().toISOString() })
+    .eq('id', adminUser.id);
+
+  return adminUser as AdminUser;
+}
+
+export async function listAdminUsers(): Promise<AdminUser[]> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('admin_users')
+    .select(USER_COLUMNS)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(`Failed to list admin users: ${error.message}`);
+  return (data || []) as AdminUser[];
+}
+
+export async function createAdminUser(data: z.infer<typeof createAdminUserSchema>, createdBy: string | null): Promise<AdminUser> {
+  const supabase = getSupabaseAdmin();
+  const { data: user, error } = await supabase
+    .from('admin_users')
+    .insert({
+      email: data.email.toLowerCase(),
+      name: data.name || null,
+      role: data.role,
+      password_hash: await hashPassword(data.password),
+      created_by: createdBy
+    })
+    .select(USER_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(error.code === '23505' ? 'An admin with that email already exists' : `Failed to create admin user: ${error.message}`);
+  }
+  return user as AdminUser;
+}
+
+/**
+ * Change an admin's name, role, password or whether they can sign in. Admins can't demote or
+ * deactivate themselves, so there's always a super admin left to undo mistakes.
+ */
+export async function updateAdminUser(id: string, data: z.infer<typeof updateAdminUserSchema>, actorId: string | null): Promise<AdminUser> {
+  if (id === actorId && ((data.role && data.role !== 'super_admin') || data.isActive === false)) {
+    throw new Error('You cannot remove your own super admin access');
+  }
+
+  const update: Record<string, any> = { updated_at: new Date().toISOString() };
+  if (data.name !== undefined) update.name = data.name;
+  if (data.role !== undefined) update.role = data.role;
+  if (data.isActive !== undefined) update.is_active = data.isActive;
+  if (data.password !== undefined) update.password_hash = await hashPassword(data.password);
+
+  const supabase = getSupabaseAdmin();
+  const { data: user, error } = await supabase
+    .from('admin_users')
+    .update(update)
+    .eq('id', id)
+    .select(USER_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to update admin user: ${error.message}`);
+  if (!user) throw new Error('Admin user not found');
+  return user as AdminUser;
+}
+
+export interface AuditEntry {
+  action: string;
+  actorId: string; // admin_users.id, or 'admin-key'
+  actorEmail?: string | null;
+  actorRole?: string | null;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  details?: Record<string, any>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Audit writes never fail the request they describe
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  try {
+    const supabase = getSupabaseAdmin();
+    const { error } = await supabase.from('admin_audit_log').insert({
+      action: entry.action,
+      details: entry.details || {},
+      user_id: entry.actorId,
+      actor_email: entry.actorEmail || null,
+      actor_role: entry.actorRole || null,
+      method: entry.method || null,
+      path: entry.path || null,
+      status_code: entry.statusCode ?? null,
+      ip_address: entry.ipAddress || null,
+      user_agent: entry.userAgent || null
+    });
+    if (error) console.error('Audit log error:', error);
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+export async function getAuditLog(filters: {
+  actor?: string; // user id or email
+  action?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}) {
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from('admin_audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(filters.limit || 100, 1), 500));
+
+  if (filters.actor) {
+    query = filters.actor.includes('@')
+      ? query.eq('actor_email', filters.actor.toLowerCase())
+      : query.eq('user_id', filters.actor);
+  }
+  if (filters.action) query = query.ilike('action', `%${filters.action}%`);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load audit log: ${error.message}`);
+  return data || [];
+}
@@ -9,12 +9,22 @@ if (SENDGRID_API_KEY) {
   sgMail.setApiKey(SENDGRID_API_KEY);
 }
 
+export interface InvoiceEmailDetails {
+  number: string;
+  totalCents: number;
+  currency: string;
+  isPaid: boolean;
+  paymentUrl: string | null;
+  pdfUrl: string;
+}
+
 export interface OnboardingEmailData {
   recipientEmail: string;
   contactName: string;
   businessName: string;
   onboardingLink: string;
   expiresInDays: number;
+  invoice?: InvoiceEmailDetails;
 }
 
 export interface AnalyticsEmailData {
@@ -705,6 +715,23 @@ export async function sendOnboardingEmail(data: OnboardingEmailData): Promise<vo
     throw new Error('Email service not configured');
   }
 
+  // Invoice from approval - the campaign can't go live until it's paid
+  const invoice = data.invoice;
+  const invoiceTotal = invoice ? `$${(invoice.totalCents / 100).toFixed(2)} ${invoice.currency}` : '';
+  const invoiceHtml = !invoice ? '' : invoice.isPaid ? `
+            <p>Your invoice <strong>${invoice.number}</strong> (${invoiceTotal}) is settled - <a href="${invoice.pdfUrl}" class="footer-link">download a copy</a>.</p>` : `
+            <p>Your invoice <strong>${invoice.number}</strong> for <strong>${invoiceTotal}</strong> (including GST/HST) is ready. Your campaign goes live once it's paid.</p>
+            <div style="text-align: center;">
+              ${invoice.paymentUrl ? `<a href="${invoice.paymentUrl}" class="button" style="background: #111827; color: #ffffff !important; text-decoration: none; display: inline-block; padding: 12px 32px; border-radius: 12px; font-weight: 700; font-size: 15px;">Pay Invoice</a>` : ''}
+              <p style="font-size: 14px;"><a href="${invoice.pdfUrl}" class="footer-link">Download invoice (PDF)</a></p>
+            </div>`;
+  const invoiceText = !invoice ? '' : invoice.isPaid ? `
+Your invoice ${invoice.number} (${invoiceTotal}) is settled: ${invoice.pdfUrl}
+` : `
+Your invoice ${invoice.number} for ${invoiceTotal} (including GST/HST) is ready. Your campaign goes live once it's paid.
+${invoice.paymentUrl ? `Pay online: ${invoice.paymentUrl}\n` : ''}Invoice PDF: ${invoice.pdfUrl}
+`;
+
   const msg = {
     to: data.recipientEmail,
     from: {
@@ -849,6 +876,7 @@ export async function sendOnboardingEmail(data: OnboardingEmailData): Promise<vo
             </ul>
             
             <p>Once you complete the setup, we'll provide you with a private analytics portal to track your campaign performance in real-time.</p>
+            ${invoiceHtml}
           </div>
           
           <div class="footer">
@@ -881,7 +909,7 @@ During setup, you'll be able to:
 - Review your campaign dates and placements
 
 Once you complete the setup, we'll provide you with a private analytics portal to track your campaign performance in real-time.
-
+${invoiceText}
 Need help? Reply to this email or contact us at ${EMAIL_FROM_ADDRESS}
 
 ---
@@ -2,6 +2,7 @@ import { getSupabaseAdmin } from '../supabaseAdmin';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import slugify from 'slugify';
+import { attachCampaignToLeadDays } from './sponsorInventoryService';
 
 // Package to placements mapping
 const PACKAGE_PLACEMENTS_MAP = {
@@ -131,6 +132,8 @@ export async function processOnboarding(token: string, formData: z.infer<typeof
     throw new Error(`Failed to create campaign: ${campaignError.message}`);
   }
   
+  await attachCampaignToLeadDays(onboardingData.leadId, campaign.id);
+  
   // Create creative entries based on placements
   const creatives: Array<{
     campaign_id: string;
@@ -0,0 +1,276 @@
+import { getSupabaseAdmin } from '../supabaseAdmin';
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+export type CreativeTestStatus = 'collecting' | 'inconclusive' | 'significant' | 'promoted';
+
+export interface VariantResult {
+  creativeId: string;
+  label: string;
+  impressions: number;
+  clicks: number;
+  ctr: number; // percent
+  confidence: number | null; // that the leader's CTR really is higher than this one's; null for the leader
+  isLeader: boolean;
+  isWinner: boolean;
+  isActive: boolean;
+}
+
+export interface CreativeTestResult {
+  placement: string;
+  status: CreativeTestStatus;
+  requiredConfidence: number;
+  minImpressions: number;
+  winnerCreativeId: string | null;
+  decidedAt: string | null; // when the call was recorded; null if it hasn't been yet
+  variants: VariantResult[];
+}
+
+// How a placement's test was called, stored in sponsor_campaigns.ab_decisions by placement
+interface CreativeTestDecision {
+  decidedAt: string;
+  winnerCreativeId: string | null;
+  // The test it was made for - new variants or a new horizon start a new test
+  creativeIds: string[];
+  minImpressions: number;
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, accurate to about 1e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * One-sided two-proportion z-test: how confident we can be that the leader's click-through
+ * rate is higher than the other variant's, rather than the gap being noise.
+ */
+export function leaderConfidence(
+  leader: { impressions: number; clicks: number },
+  other: { impressions: number; clicks: number }
+): number {
+  if (leader.impressions === 0 || other.impressions === 0) return 0;
+  const pooled = (leader.clicks + other.clicks) / (leader.impressions + other.impressions);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / leader.impressions + 1 / other.impressions));
+  if (se === 0) return 0;
+  const z = (leader.clicks / leader.impressions - other.clicks / other.impressions) / se;
+  return normalCdf(z);
+}
+
+/**
+ * A campaign's variants on a placement. Onboarding stores one creative as a desktop row and
+ * a mobile row; rotation serves that pair under the desktop row's id, so it counts once.
+ */
+function variantsFor(creatives: any[], placement: string): any[] {
+  const rows = creatives.filter((c: any) => c.placement === placement);
+  const devicePair = rows.find((c: any) => c.device_type === 'desktop') || rows.find((c: any) => c.device_type === 'mobile');
+  return rows
+    .filter((c: any) => !c.device_type || c === devicePair)
+    .sort((a: any, b: any) => (a.created_at || '').localeCompare(b.created_at || ''));
+}
+
+/**
+ * A/B results for every placement where the campaign has more than one creative. The leader
+ * is the variant with the best click-through rate. The test is called once, when every variant
+ * has reached the minimum impressions: the leader wins if it beats each of the others at the
+ * campaign's confidence level. With more than two variants that level is split across the
+ * comparisons (Bonferroni), so running more variants doesn't make a false winner more likely.
+ * The call is kept after that - re-testing as data keeps arriving would find false winners.
+ */
+export async function getCreativeTestResults(campaign: any): Promise<CreativeTestResult[]> {
+  const creatives: any[] = campaign.sponsor_creatives || [];
+  const placements: string[] = (campaign.placements || []).filter((p: string) => variantsFor(creatives, p).length > 1);
+  if (placements.length === 0) return [];
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_metrics_daily')
+    .select('placement, creative_id, billable_impressions, clicks')
+    .eq('campaign_id', campaign.id)
+    .in('placement', placements)
+    .not('creative_id', 'is', null);
+
+  if (error) throw error;
+
+  const totals: Record<string, { impressions: number; clicks: number }> = {};
+  (data || []).forEach((row: any) => {
+    const key = `${row.placement}:${row.creative_id}`;
+    const entry = totals[key] || (totals[key] = { impressions: 0, clicks: 0 });
+    entry.impressions += row.billable_impressions || 0;
+    entry.clicks += row.clicks || 0;
+  });
+
+  const confidence = Number(campaign.ab_confidence ?? 0.95);
+  const minImpressions = campaign.ab_min_impressions ?? 1000;
+
+  return placements.map(placement => {
+    const variants = variantsFor(creatives, placement).map((c: any, i: number) => {
+      const stats = totals[`${placement}:${c.id}`] || { impressions: 0, clicks: 0 };
+      return {
+        creativeId: c.id as string,
+        label: c.variant_label || `Variant ${String.fromCharCode(65 + i)}`,
+        impressions: stats.impressions,
+        clicks: stats.clicks,
+        ctr: stats.impressions > 0 ? Math.round(stats.clicks / stats.impressions * 10000) / 100 : 0,
+        confidence: null as number | null,
+        isLeader: false,
+        isWinner: !!c.promoted_at,
+        isActive: c.is_active !== false,
+        promotedAt: c.promoted_at as string | null
+      };
+    });
+
+    const result: CreativeTestResult = {
+      placement,
+      status: 'collecting',
+      requiredConfidence: confidence,
+      minImpressions,
+      winnerCreativeId: null,
+      decidedAt: null,
+      variants: []
+    };
+
+    const promoted = variants.find(v => v.promotedAt);
+    // Paused variants that never ran aren't part of the test
+    const contenders = variants.filter(v => v.isActive || v.impressions > 0);
+    const leader = contenders.reduce<typeof contenders[number] | null>((best, v) =>
+      !best || v.clicks / Math.max(1, v.impressions) > best.clicks / Math.max(1, best.impressions) ? v : best, null);
+
+    if (leader && leader.impressions > 0) {
+      leader.isLeader = true;
+      contenders.forEach(v => {
+        if (v !== leader) v.confidence = Math.round(leaderConfidence(leader, v) * 10000) / 10000;
+      });
+    }
+
+    const decision: CreativeTestDecision | undefined = campaign.ab_decisions?.[placement];
+    const creativeIds = contenders.map(v => v.creativeId).sort();
+    const decided = decision && decision.minImpressions === minImpressions
+      && decision.creativeIds.length === creativeIds.length && decision.creativeIds.every((id, i) => id === creativeIds[i]);
+
+    if (promoted) {
+      result.status = 'promoted';
+      result.winnerCreativeId = promoted.creativeId;
+    } else if (decided) {
+      result.status = decision.winnerCreativeId ? 'significant' : 'inconclusive';
+      result.winnerCreativeId = decision.winnerCreativeId;
+      result.decidedAt = decision.decidedAt;
+      const winner = contenders.find(v => v.creativeId === decision.winnerCreativeId);
+      if (winner) winner.isWinner = true;
+    } else if (leader && contenders.every(v => v.impressions >= minImpressions)) {
+      // First look at the horizon - runCreativeTests records this as the call
+      const perComparison = 1 - (1 - confidence) / Math.max(1, contenders.length - 1);
+      const significant = contenders.every(v => v === leader || (v.confidence ?? 0) >= perComparison);
+      result.status = significant ? 'significant' : 'inconclusive';
+      if (significant) {
+        result.winnerCreativeId = leader.creativeId;
+        leader.isWinner = true;
+      }
+    }
+
+    result.variants = contenders.map(({ promotedAt, ...v }) => v);
+    return result;
+  });
+}
+
+/**
+ * Give a placement's traffic to one variant: it's marked as the winner and the campaign's
+ * other creatives on that placement are paused, keeping their metrics.
+ */
+export async function promoteCreative(campaignId: string, placement: string, creativeId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data: winner, error: winnerError } = await supabase
+    .from('sponsor_creatives')
+    .update({ promoted_at: new Date().toISOString(), is_active: true })
+    .eq('id', creativeId)
+    .eq('campaign_id', campaignId)
+    .eq('placement', placement)
+    .select('id, device_type')
+    .single();
+
+  if (winnerError || !winner) throw new Error('Creative not found for this campaign and placement');
+
+  // The other half of a desktop/mobile pair goes with it
+  let pauseQuery = supabase
+    .from('sponsor_creatives')
+    .update({ is_active: false })
+    .eq('campaign_id', campaignId)
+    .eq('placement', placement)
+    .neq('id', creativeId);
+  if (winner.device_type) {
+    pauseQuery = pauseQuery.is('device_type', null);
+  }
+
+  const { error } = await pauseQuery;
+  if (error) throw new Error(`Failed to pause losing creatives: ${error.message}`);
+}
+
+/**
+ * Record the call for running campaigns' A/B tests that have reached their horizon, and
+ * promote the winners where the campaign has opted in. Each test is called only once, so
+ * this is safe to run as often as needed.
+ */
+export async function runCreativeTests() {
+  const supabase = getSupabaseAdmin();
+  const { data: campaigns, error } = await supabase
+    .from('sponsor_campaigns')
+    .select('*, sponsor_creatives (*)')
+    .eq('is_active', true)
+    .gte('end_at', new Date().toISOString());
+
+  if (error) throw error;
+
+  let decided = 0;
+  let promoted = 0;
+  for (const campaign of campaigns || []) {
+    const results = await getCreativeTestResults(campaign);
+    const decisions: Record<string, CreativeTestDecision> = { ...(campaign.ab_decisions || {}) };
+    const newlyDecided = results.filter(r => !r.decidedAt && (r.status === 'significant' || r.status === 'inconclusive'));
+
+    for (const result of newlyDecided) {
+      decisions[result.placement] = {
+        decidedAt: new Date().toISOString(),
+        winnerCreativeId: result.winnerCreativeId,
+        creativeIds: result.variants.map(v => v.creativeId).sort(),
+        minImpressions: result.minImpressions
+      };
+    }
+    if (newlyDecided.length > 0) {
+      const { error: saveError } = await supabase
+        .from('sponsor_campaigns')
+        .update({ ab_decisions: decisions })
+        .eq('id', campaign.id);
+      if (saveError) throw saveError;
+      decided += newlyDecided.length;
+    }
+
+    if (!campaign.ab_auto_promote) continue;
+    for (const result of results) {
+      if (result.status !== 'significant' || !result.winnerCreativeId) continue;
+      await promoteCreative(campaign.id, result.placement, result.winnerCreativeId);
+      promoted++;
+    }
+  }
+  return { decided, promoted };
+}
+
+export function startCreativeTestScheduler(): void {
+  console.log('[Creative Tests] Starting creative test scheduler...');
+
+  const runScheduled = () => runCreativeTests()
+    .then(result => {
+      if (result.decided > 0) {
+        console.log(`[Creative Tests] ${result.decided} tests called`);
+      }
+      if (result.promoted > 0) {
+        console.log(`[Creative Tests] ${result.promoted} winning creatives promoted`);
+      }
+    })
+    .catch(error => console.error('[Creative Tests] Scheduled run failed:', error));
+  runScheduled();
+  setInterval(runScheduled, RUN_INTERVAL_MS);
+
+  console.log('[Creative Tests] Scheduler started - running every hour');
+}
@@ -0,0 +1,125 @@
+import { getSupabaseAdmin } from '../supabaseAdmin';
+import { recordExposure, sponsorDay } from './sponsorExposureService';
+
+const RUN_INTERVAL_MS = 5 * 60 * 1000;
+
+export const AD_EVENT_TYPES = ['impression', 'viewable', 'click'] as const;
+export type AdEventType = typeof AD_EVENT_TYPES[number];
+
+// A viewable event only counts once the ad was at least half on screen for this long (IAB display
+// standard). The client waits the same second before reporting, so raising this needs a client change too.
+export const VIEWABLE_MIN_MS = Number(process.env.SPONSOR_VIEWABLE_MIN_MS) || 1000;
+
+// Largest batch one tracking request may carry
+export const MAX_EVENTS_PER_BATCH = 50;
+
+// Longest range an admin can rebuild in one go
+export const MAX_ROLLUP_DAYS = 92;
+
+// Crawlers, link unfurlers, headless browsers and HTTP libraries
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|lighthouse|headless|phantomjs|puppeteer|playwright|selenium|curl|wget|python-requests|axios|node-fetch|go-http-client|java\//i;
+
+export interface AdEventInput {
+  campaignId: string;
+  creativeId?: string | null;
+  placement?: string;
+  eventType: AdEventType;
+  userId?: string | null; // the visitor id from sponsor-visitor.ts
+  deviceType?: string | null;
+  viewDuration?: number | null; // milliseconds the ad was visible
+}
+
+export function isBotUserAgent(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+const isAdEventType = (value: unknown): value is AdEventType =>
+  typeof value === 'string' && (AD_EVENT_TYPES as readonly string[]).includes(value);
+
+/**
+ * Append a batch of events to the log. Impressions are checked against the visitor's exposure
+ * record here, so billability respects frequency caps at the moment the ad was seen; bot
+ * traffic is logged but skips that check and never reaches the rollup. Malformed events are
+ * dropped rather than failing the batch.
+ */
+export async function recordAdEvents(events: AdEventInput[], userAgent?: string): Promise<{ recorded: number; dropped: number }> {
+  const valid = events.filter(e => e && typeof e.campaignId === 'string' && e.campaignId && isAdEventType(e.eventType));
+  if (valid.length === 0) return { recorded: 0, dropped: events.length };
+
+  const supabase = getSupabaseAdmin();
+  const isBot = isBotUserAgent(userAgent);
+  const day = sponsorDay();
+
+  const impressionCampaignIds = Array.from(new Set(
+    valid.filter(e => e.eventType === 'impression' && e.userId).map(e => e.campaignId)
+  ));
+  const caps: Record<string, number> = {};
+  if (!isBot && impressionCampaignIds.length > 0) {
+    const { data, error } = await supabase
+      .from('sponsor_campaigns')
+      .select('id, freq_cap_per_user_per_day')
+      .in('id', impressionCampaignIds);
+    if (error) throw error;
+    (data || []).forEach((c: any) => { caps[c.id] = c.freq_cap_per_user_per_day ?? 0; });
+  }
+
+  const rows = [];
+  for (const event of valid) {
+    // Impressions without a visitor id can't be deduped, so they're billed as they come
+    let billable = event.eventType === 'impression' && !isBot;
+    if (billable && event.userId) {
+      billable = (await recordExposure(event.campaignId, event.userId, caps[event.campaignId] ?? 0)).billable;
+    }
+
+    rows.push({
+      campaign_id: event.campaignId,
+      creative_id: event.creativeId || null,
+      placement: event.placement || 'events_banner',
+      event_type: event.eventType,
+      day,
+      visitor_id: event.userId || null,
+      device_type: event.deviceType || null,
+      view_duration_ms: Number.isFinite(event.viewDuration) ? Math.max(0, Math.round(event.viewDuration as number)) : null,
+      billable,
+      is_bot: isBot,
+      user_agent: userAgent ? userAgent.slice(0, 500) : null
+    });
+  }
+
+  const { error } = await supabase.from('sponsor_ad_events').insert(rows);
+  if (error) throw new Error(`Failed to record ad events: ${error.message}`);
+
+  return { recorded: rows.length, dropped: events.length - rows.length };
+}
+
+/**
+ * Recompute sponsor_metrics_daily from the event log for a range of Vancouver days.
+ * Idempotent, so it's safe to re-run for days that have already been rolled up.
+ */
+export async function rollupMetrics(from: string, to: string): Promise<{ rows: number }> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase.rpc('rollup_sponsor_metrics', {
+    p_from: from,
+    p_to: to,
+    p_viewable_min_ms: VIEWABLE_MIN_MS
+  });
+
+  if (error) throw new Error(`Failed to roll up sponsor metrics: ${error.message}`);
+  return { rows: Number(data) || 0 };
+}
+
+export function startMetricsRollupScheduler(): void {
+  console.log('[Metrics Rollup] Starting sponsor metrics rollup scheduler...');
+
+  // Yesterday too, so its last few minutes are counted after midnight
+  const runScheduled = () => {
+    const today = sponsorDay();
+    const yesterday = sponsorDay(new Date(Date.now() - 24 * 60 * 60 * 1000));
+    return rollupMetrics(yesterday, today)
+      .catch(error => console.error('[Metrics Rollup] Scheduled run failed:', error));
+  };
+  runScheduled();
+  setInterval(runScheduled, RUN_INTERVAL_MS);
+
+  console.log('[Metrics Rollup] Scheduler started - running every 5 minutes');
+}
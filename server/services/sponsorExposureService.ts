@@ -0,0 +1,68 @@
+import { getSupabaseAdmin } from '../supabaseAdmin';
+
+// Repeat views of a campaign by the same visitor within this window count as one billable impression
+export const IMPRESSION_DEDUP_SECONDS = 10 * 60;
+
+export interface ExposureResult {
+  firstToday: boolean; // first time this visitor has seen the campaign today
+  billable: boolean;
+}
+
+// Sponsor metrics roll over at midnight Vancouver time
+export function sponsorDay(date: Date = new Date()): string {
+  return date.toLocaleDateString('en-CA', { timeZone: 'America/Vancouver' });
+}
+
+/**
+ * Which of these campaigns the visitor has already hit their daily cap on. A cap of 0 means
+ * unlimited. Exposures live in Postgres, so every server process sees the same counts.
+ */
+export async function getCappedCampaignIds(
+  visitorId: string,
+  campaigns: Array<{ id: string; freq_cap_per_user_per_day?: number | null }>
+): Promise<string[]> {
+  const capped = campaigns.filter(c => (c.freq_cap_per_user_per_day ?? 0) > 0);
+  if (!visitorId || capped.length === 0) return [];
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_exposures')
+    .select('campaign_id, billable_impressions')
+    .eq('visitor_id', visitorId)
+    .eq('day', sponsorDay())
+    .in('campaign_id', capped.map(c => c.id));
+
+  if (error) {
+    // Serving an extra impression beats serving nothing
+    console.error('Sponsor exposure lookup error:', error);
+    return [];
+  }
+
+  return (data || [])
+    .filter((row: any) => {
+      const campaign = capped.find(c => c.id === row.campaign_id);
+      return campaign && row.billable_impressions >= (campaign.freq_cap_per_user_per_day as number);
+    })
+    .map((row: any) => row.campaign_id);
+}
+
+/**
+ * Record that a visitor saw a campaign. The impression is billable unless it falls inside the
+ * dedup window of the last billable one or the visitor is already over the daily cap. The
+ * check and the increment happen in one statement so concurrent requests can't both bill.
+ */
+export async function recordExposure(campaignId: string, visitorId: string, freqCap: number): Promise<ExposureResult> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase.rpc('record_sponsor_exposure', {
+    p_campaign_id: campaignId,
+    p_visitor_id: visitorId,
+    p_day: sponsorDay(),
+    p_freq_cap: freqCap,
+    p_dedup_seconds: IMPRESSION_DEDUP_SECONDS
+  });
+
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return { firstToday: !!row?.first_today, billable: !!row?.billable };
+}
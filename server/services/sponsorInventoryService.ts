@@ -0,0 +1,228 @@
+import { getSupabaseAdmin } from '../supabaseAdmin';
+import { sponsorDay } from './sponsorExposureService';
+
+// Rotation slots each placement sells per day. One slot means the day is exclusive.
+export const PLACEMENT_SLOTS: Record<string, number> = {
+  events_banner: 1,
+  home_mid: 1,
+  home_hero: 1
+};
+
+export const PACKAGE_PLACEMENTS: Record<string, string[]> = {
+  events_spotlight: ['events_banner'],
+  homepage_feature: ['home_mid'],
+  full_feature: ['events_banner', 'home_mid']
+};
+
+// A quote holds its days while the sponsor fills in the application; a submitted
+// application holds them until it's reviewed
+export const QUOTE_HOLD_MINUTES = 30;
+export const APPLICATION_HOLD_DAYS = 7;
+
+// How far ahead the booking calendar can look
+const MAX_INVENTORY_DAYS = 180;
+
+export type DayStatus = 'available' | 'held' | 'sold';
+
+export interface DayInventory {
+  day: string;
+  status: DayStatus;
+  placements: Record<string, { slots: number; sold: number; held: number }>;
+}
+
+// Who a set of booking days belongs to; at least one id is set
+export interface BookingOwner {
+  quoteId?: string | null;
+  leadId?: string | null;
+  campaignId?: string | null;
+}
+
+const addDays = (day: string, days: number) => {
+  const date = new Date(`${day}T12:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+// Every day from start to end inclusive, as YYYY-MM-DD
+export function daysBetween(start: string, end: string): string[] {
+  const days: string[] = [];
+  for (let day = start.split('T')[0]; day <= end.split('T')[0] && days.length < MAX_INVENTORY_DAYS; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// The furthest day the booking calendar shows from a given start
+export function lastInventoryDay(from: string): string {
+  return addDays(from.split('T')[0], MAX_INVENTORY_DAYS - 1);
+}
+
+// The days a quote or lead books: its picked dates if it has any, otherwise its range
+export function bookingDays(booking: { selected_dates?: string[] | null; start_date?: string | null; end_date?: string | null }): string[] {
+  if (booking.selected_dates && booking.selected_dates.length > 0) {
+    return Array.from(new Set(booking.selected_dates.map(day => day.split('T')[0]))).sort();
+  }
+  if (!booking.start_date || !booking.end_date) return [];
+  return daysBetween(booking.start_date, booking.end_date);
+}
+
+export function placementsForPackage(packageCode: string): string[] {
+  const placements = PACKAGE_PLACEMENTS[packageCode];
+  if (!placements) throw new Error(`Unknown package: ${packageCode}`);
+  return placements;
+}
+
+const ownsRow = (owner: BookingOwner, row: any) =>
+  !row.is_makegood && (
+    (!!owner.quoteId && row.quote_id === owner.quoteId) ||
+    (!!owner.leadId && row.lead_id === owner.leadId) ||
+    (!!owner.campaignId && row.campaign_id === owner.campaignId)
+  );
+
+/**
+ * Sold and held slots on each day for a set of placements. A day is sold or held for the
+ * set once any of its placements has no slot left, so a package is only offered days it
+ * can run on everywhere. The viewer's own holds don't count against them.
+ */
+export async function getInventory(placements: string[], from: string, to: string, viewer: BookingOwner = {}): Promise<DayInventory[]> {
+  const days = daysBetween(from, to);
+  if (days.length === 0) return [];
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_booking_days')
+    .select('placement, day, quote_id, lead_id, campaign_id, is_makegood, hold_expires_at')
+    .in('placement', placements)
+    .eq('is_active', true)
+    .gte('day', days[0])
+    .lte('day', days[days.length - 1]);
+
+  if (error) throw error;
+
+  const now = Date.now();
+  const rows = (data || []).filter((row: any) =>
+    (!row.hold_expires_at || new Date(row.hold_expires_at).getTime() > now) && !ownsRow(viewer, row)
+  );
+
+  return days.map(day => {
+    const byPlacement: DayInventory['placements'] = {};
+    let status: DayStatus = 'available';
+    placements.forEach(placement => {
+      const taken = rows.filter((row: any) => row.day === day && row.placement === placement);
+      const entry = {
+        slots: PLACEMENT_SLOTS[placement] ?? 1,
+        sold: taken.filter((row: any) => !row.hold_expires_at).length,
+        held: taken.filter((row: any) => !!row.hold_expires_at).length
+      };
+      byPlacement[placement] = entry;
+      if (entry.sold >= entry.slots) {
+        status = 'sold';
+      } else if (status === 'available' && entry.sold + entry.held >= entry.slots) {
+        status = 'held';
+      }
+    });
+    return { day, status, placements: byPlacement };
+  });
+}
+
+/**
+ * Hold every placement on every day for a booking, or sell them if there's no expiry.
+ * All or nothing: if any day is full the booking's existing holds are left as they were
+ * and the error names the days. Re-holding the same owner replaces its earlier holds.
+ */
+export async function holdDays(owner: BookingOwner, placements: string[], days: string[], expiresAt: Date | null): Promise<void> {
+  if (days.length === 0 || placements.length === 0) return;
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase.rpc('hold_sponsor_days', {
+    p_placements: placements,
+    p_days: days,
+    p_capacity: PLACEMENT_SLOTS,
+    p_expires_at: expiresAt ? expiresAt.toISOString() : null,
+    p_quote_id: owner.quoteId || null,
+    p_lead_id: owner.leadId || null,
+    p_campaign_id: owner.campaignId || null
+  });
+
+  if (error) throw new Error(`Failed to hold dates: ${error.message}`);
+
+  const full: string[] = Array.from(new Set((data || []).map((row: any) => row.full_day as string)));
+  if (full.length > 0) {
+    const shown = full.slice(0, 5).join(', ');
+    throw new Error(`These dates are no longer available: ${shown}${full.length > 5 ? ` and ${full.length - 5} more` : ''}`);
+  }
+}
+
+export function quoteHoldExpiry(): Date {
+  return new Date(Date.now() + QUOTE_HOLD_MINUTES * 60 * 1000);
+}
+
+export function applicationHoldExpiry(): Date {
+  return new Date(Date.now() + APPLICATION_HOLD_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Give back a booking's held days; sold days stay sold
+export async function releaseHolds(owner: BookingOwner): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from('sponsor_booking_days')
+    .delete()
+    .eq('is_makegood', false)
+    .not('hold_expires_at', 'is', null);
+
+  // A quote's holds become the lead's once it's applied for, and go with the lead
+  if (owner.quoteId) query = query.eq('quote_id', owner.quoteId).is('lead_id', null);
+  else if (owner.leadId) query = query.eq('lead_id', owner.leadId);
+  else if (owner.campaignId) query = query.eq('campaign_id', owner.campaignId);
+  else return;
+
+  const { error } = await query;
+  if (error) throw new Error(`Failed to release held dates: ${error.message}`);
+}
+
+// A lead's sold days belong to the campaign onboarding created from it
+export async function attachCampaignToLeadDays(leadId: string, campaignId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from('sponsor_booking_days')
+    .update({ campaign_id: campaignId })
+    .eq('lead_id', leadId)
+    .eq('is_makegood', false);
+
+  if (error) throw new Error(`Failed to attach campaign to booked dates: ${error.message}`);
+}
+
+// The lowest free rotation slot on a placement for a day, or null if it's full
+export async function findFreeSlot(placement: string, day: string): Promise<number | null> {
+  const supabase = getSupabaseAdmin();
+
+  // Expired holds still occupy their slot in the unique index until something clears them
+  const { error: cleanupError } = await supabase
+    .from('sponsor_booking_days')
+    .delete()
+    .eq('placement', placement)
+    .eq('day', day)
+    .lte('hold_expires_at', new Date().toISOString());
+  if (cleanupError) throw cleanupError;
+
+  const { data, error } = await supabase
+    .from('sponsor_booking_days')
+    .select('slot')
+    .eq('placement', placement)
+    .eq('day', day)
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  const taken = (data || []).map((row: any) => row.slot);
+  const slots = PLACEMENT_SLOTS[placement] ?? 1;
+  for (let slot = 1; slot <= slots; slot++) {
+    if (!taken.includes(slot)) return slot;
+  }
+  return null;
+}
+
+// First bookable day: sponsors can't buy today once it has started
+export function firstBookableDay(): string {
+  return addDays(sponsorDay(), 1);
+}
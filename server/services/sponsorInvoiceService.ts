@@ -0,0 +1,445 @@
+import PDFDocument from 'pdfkit';
+import Stripe from 'stripe';
+import { getSupabaseAdmin } from '../supabaseAdmin';
+import { getTaxRule, calculateTax, describeTax, TAX_PROVINCES, type TaxBreakdown } from '@shared/tax-rules';
+import type { InvoiceEmailDetails } from './emailService';
+
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: '2025-08-27.basil' })
+  : null;
+
+// Advertising is billed from Vancouver unless the sponsor is elsewhere
+export const DEFAULT_INVOICE_PROVINCE = 'BC';
+export const INVOICE_DUE_DAYS = 14;
+
+const PACKAGE_NAMES: Record<string, string> = {
+  events_spotlight: 'Events Spotlight',
+  homepage_feature: 'Homepage Feature',
+  full_feature: 'Full Feature'
+};
+
+const ADD_ON_NAMES: Record<string, string> = {
+  ig_story: 'Instagram Story',
+  email_feature: 'Email Feature'
+};
+
+export interface InvoiceLineItem {
+  kind: 'package' | 'addon' | 'promo' | 'credits';
+  description: string;
+  amountCents: number; // negative for discounts
+}
+
+const money = (cents: number) => `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+const day = (value: string | Date) => new Date(value).toISOString().split('T')[0];
+
+const baseUrl = () => process.env.APP_BASE_URL || 'https://thehouseofjugnu.com';
+
+// Public link to the invoice PDF; invoice ids are random so the link is the credential
+export function invoicePdfUrl(invoiceId: string): string {
+  return `${baseUrl()}/api/spotlight/invoices/${invoiceId}/pdf`;
+}
+
+// The invoice summary that goes out with the onboarding email
+export function invoiceEmailDetails(invoice: any): InvoiceEmailDetails {
+  return {
+    number: invoice.number,
+    totalCents: invoice.total_cents,
+    currency: invoice.currency,
+    isPaid: invoice.status === 'paid',
+    paymentUrl: invoice.stripe_payment_link_url,
+    pdfUrl: invoicePdfUrl(invoice.id)
+  };
+}
+
+/**
+ * What the sponsor is paying for, from the lead's quoted pricing. The discounts come out
+ * as their own lines so the items add up to the lead's total.
+ */
+export function buildLineItems(lead: any): InvoiceLineItem[] {
+  const packageName = PACKAGE_NAMES[lead.package_code] || lead.package_code;
+  const length = lead.duration === 'weekly'
+    ? `${lead.num_weeks} week${lead.num_weeks === 1 ? '' : 's'}`
+    : `${(lead.selected_dates || []).length || 1} day${(lead.selected_dates || []).length === 1 ? '' : 's'}`;
+  const dates = lead.start_date && lead.end_date ? `, ${lead.start_date} to ${lead.end_date}` : '';
+
+  const items: InvoiceLineItem[] = [
+    { kind: 'package', description: `${packageName} (${length}${dates})`, amountCents: lead.base_price_cents }
+  ];
+
+  (lead.add_ons || []).forEach((addOn: any) => {
+    const code = typeof addOn === 'string' ? addOn : addOn.code;
+    items.push({
+      kind: 'addon',
+      description: ADD_ON_NAMES[code] || code,
+      amountCents: Math.round((addOn.price || 0) * 100)
+    });
+  });
+
+  const creditsCents = lead.credits_savings_cents || 0;
+  const promoCents = Math.max(0, lead.subtotal_cents - lead.total_cents - creditsCents);
+  if (promoCents > 0) {
+    items.push({
+      kind: 'promo',
+      description: lead.promo_code ? `Promo code ${lead.promo_code}` : 'Promotional discount',
+      amountCents: -promoCents
+    });
+  }
+  if (creditsCents > 0) {
+    items.push({
+      kind: 'credits',
+      description: `Placement credits (${lead.credits_applied})`,
+      amountCents: -creditsCents
+    });
+  }
+
+  return items;
+}
+
+// Advertising is a service, so it's taxed like a ticket service fee: GST or HST, and QST in
+// Quebec. BC and Saskatchewan PST and Manitoba RST don't reach it.
+export function calculateInvoiceTax(subtotalCents: number, province: string): { taxCents: number; breakdown: TaxBreakdown } {
+  const rule = getTaxRule(province, { collectTax: true });
+  rule.components = rule.components.filter(c => c.appliesToFees);
+  const { taxCents, breakdown } = calculateTax(rule, subtotalCents, 0);
+  return { taxCents, breakdown };
+}
+
+export async function getInvoice(id: string) {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_invoices')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load invoice: ${error.message}`);
+  return data;
+}
+
+// The lead's current invoice; void ones only count if nothing else was issued
+export async function getInvoiceForLead(leadId: string) {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_invoices')
+    .select('*')
+    .eq('lead_id', leadId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(`Failed to load invoice: ${error.message}`);
+  return (data || []).find((invoice: any) => invoice.status !== 'void') || data?.[0] || null;
+}
+
+// A one-off Stripe price and payment link for the invoice total
+async function createPaymentLink(invoice: any) {
+  if (!stripe) return null;
+
+  const price = await stripe.prices.create({
+    currency: invoice.currency.toLowerCase(),
+    unit_amount: invoice.total_cents,
+    product_data: { name: `Jugnu sponsorship - invoice ${invoice.number}` }
+  });
+
+  const metadata = { sponsor_invoice_id: invoice.id, sponsor_invoice_number: invoice.number };
+  return stripe.paymentLinks.create({
+    line_items: [{ price: price.id, quantity: 1 }],
+    metadata,
+    payment_intent_data: { metadata },
+    restrictions: { completed_sessions: { limit: 1 } },
+    after_completion: { type: 'hosted_confirmation', hosted_confirmation: { custom_message: `Thanks! Invoice ${invoice.number} is paid.` } }
+  });
+}
+
+/**
+ * Issue the invoice for an approved lead, with a Stripe payment link for the total. Approving
+ * twice doesn't issue twice: the lead's open or paid invoice is returned instead, and a unique
+ * index catches two approvals racing each other. Free
+ * sponsorships (fully covered by promo or credits) are marked paid straight away.
+ */
+export async function createInvoiceForLead(lead: any, province: string = DEFAULT_INVOICE_PROVINCE) {
+  const existing = await getInvoiceForLead(lead.id);
+  if (existing && existing.status !== 'void') return existing;
+
+  const code = province.toUpperCase();
+  if (!TAX_PROVINCES.includes(code)) {
+    throw new Error(`Unknown province: ${province}`);
+  }
+
+  const lineItems = buildLineItems(lead);
+  const subtotalCents = lineItems.reduce((sum, item) => sum + item.amountCents, 0);
+  const { taxCents, breakdown } = calculateInvoiceTax(subtotalCents, code);
+  const dueAt = new Date();
+  dueAt.setDate(dueAt.getDate() + INVOICE_DUE_DAYS);
+
+  const supabase = getSupabaseAdmin();
+  const { data: invoice, error } = await supabase
+    .from('sponsor_invoices')
+    .insert({
+      lead_id: lead.id,
+      currency: lead.currency || 'CAD',
+      province: code,
+      line_items: lineItems,
+      subtotal_cents: subtotalCents,
+      tax_breakdown: breakdown,
+      tax_cents: taxCents,
+      total_cents: subtotalCents + taxCents,
+      due_at: dueAt.toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (error?.code === '23505') {
+    // Another approval issued one between our check and the insert
+    return getInvoiceForLead(lead.id);
+  }
+  if (error) throw new Error(`Failed to create invoice: ${error.message}`);
+
+  await supabase
+    .from('sponsor_leads')
+    .update({ payment_status: 'unpaid', paid_at: null })
+    .eq('id', lead.id);
+
+  if (invoice.total_cents <= 0) {
+    return markInvoicePaid(invoice.id, {});
+  }
+
+  try {
+    const link = await createPaymentLink(invoice);
+    if (!link) return invoice;
+
+    const { data: updated, error: linkError } = await supabase
+      .from('sponsor_invoices')
+      .update({
+        stripe_payment_link_id: link.id,
+        stripe_payment_link_url: link.url,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', invoice.id)
+      .select('*')
+      .single();
+
+    if (linkError) throw linkError;
+    return updated;
+  } catch (linkError) {
+    // The invoice stands without a link; admin can collect payment another way or override
+    console.error('Failed to create sponsor invoice payment link:', linkError);
+    return invoice;
+  }
+}
+
+/**
+ * Record payment against an invoice and mark the lead paid. Safe to call more than once,
+ * e.g. from both the webhook and a manual sync. The campaign stays inactive until an admin
+ * turns it on, but nothing holds it back any more.
+ */
+export async function markInvoicePaid(
+  invoiceId: string,
+  payment: { checkoutSessionId?: string | null; paymentIntentId?: string | null }
+) {
+  const supabase = getSupabaseAdmin();
+  const paidAt = new Date().toISOString();
+
+  const { data: invoice, error } = await supabase
+    .from('sponsor_invoices')
+    .update({
+      status: 'paid',
+      paid_at: paidAt,
+      stripe_checkout_session_id: payment.checkoutSessionId || null,
+      stripe_payment_intent_id: payment.paymentIntentId || null,
+      updated_at: paidAt
+    })
+    .eq('id', invoiceId)
+    .eq('status', 'open')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to mark invoice paid: ${error.message}`);
+  if (!invoice) return getInvoice(invoiceId); // already paid or void
+
+  await supabase
+    .from('sponsor_leads')
+    .update({ payment_status: 'paid', paid_at: paidAt })
+    .eq('id', invoice.lead_id);
+
+  if (stripe && invoice.stripe_payment_link_id) {
+    try {
+      await stripe.paymentLinks.update(invoice.stripe_payment_link_id, { active: false });
+    } catch (linkError) {
+      console.error('Failed to deactivate sponsor payment link:', linkError);
+    }
+  }
+
+  console.log(`[Sponsor Invoices] ${invoice.number} paid`);
+  return invoice;
+}
+
+// Ask Stripe whether an open invoice's payment link has been paid, for when a webhook was missed
+export async function syncInvoicePayment(invoiceId: string) {
+  const invoice = await getInvoice(invoiceId);
+  if (!invoice) throw new Error('Invoice not found');
+  if (invoice.status !== 'open' || !invoice.stripe_payment_link_id || !stripe) return invoice;
+
+  const sessions = await stripe.checkout.sessions.list({ payment_link: invoice.stripe_payment_link_id, limit: 10 });
+  const paid = sessions.data.find(session => session.payment_status === 'paid');
+  if (!paid) return invoice;
+
+  return markInvoicePaid(invoice.id, {
+    checkoutSessionId: paid.id,
+    paymentIntentId: typeof paid.payment_intent === 'string' ? paid.payment_intent : paid.payment_intent?.id
+  });
+}
+
+// Sponsor payment links report to their own webhook endpoint, which has its own signing secret
+export function constructSponsorWebhookEvent(payload: string | Buffer, signature: string): Stripe.Event | null {
+  const secret = process.env.STRIPE_SPONSOR_WEBHOOK_SECRET || process.env.STRIPE_WEBHOOK_SECRET;
+  if (!stripe || !secret) return null;
+
+  try {
+    return stripe.webhooks.constructEvent(payload, signature, secret);
+  } catch (error) {
+    console.error('Sponsor webhook signature verification failed:', error);
+    return null;
+  }
+}
+
+// Stripe checkout for a sponsor payment link. Returns false for sessions that aren't ours.
+export async function handleSponsorCheckoutCompleted(session: Stripe.Checkout.Session): Promise<boolean> {
+  const invoiceId = session.metadata?.sponsor_invoice_id;
+  const linkId = typeof session.payment_link === 'string' ? session.payment_link : session.payment_link?.id;
+  if (!invoiceId && !linkId) return false;
+
+  let invoice = invoiceId ? await getInvoice(invoiceId) : null;
+  if (!invoice && linkId) {
+    const supabase = getSupabaseAdmin();
+    const { data } = await supabase
+      .from('sponsor_invoices')
+      .select('*')
+      .eq('stripe_payment_link_id', linkId)
+      .maybeSingle();
+    invoice = data;
+  }
+  if (!invoice) return false;
+
+  // Bank debits complete the session before the money arrives; async_payment_succeeded follows
+  if (session.payment_status !== 'paid') return true;
+
+  await markInvoicePaid(invoice.id, {
+    checkoutSessionId: session.id,
+    paymentIntentId: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id
+  });
+  return true;
+}
+
+// Let the lead's campaign run before payment. The invoice stays open and collectable.
+export async function overrideInvoice(invoiceId: string, overrideBy: string, reason: string) {
+  const supabase = getSupabaseAdmin();
+  const now = new Date().toISOString();
+
+  const { data: invoice, error } = await supabase
+    .from('sponsor_invoices')
+    .update({ override_at: now, override_by: overrideBy, override_reason: reason, updated_at: now })
+    .eq('id', invoiceId)
+    .eq('status', 'open')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to override invoice: ${error.message}`);
+  if (!invoice) throw new Error('Only open invoices can be overridden');
+
+  await supabase
+    .from('sponsor_leads')
+    .update({ payment_status: 'overridden' })
+    .eq('id', invoice.lead_id);
+
+  return invoice;
+}
+
+/**
+ * Why a campaign can't be switched on yet, or null if it can. Campaigns from an approved lead
+ * wait for their invoice to be paid or overridden; campaigns set up by hand aren't invoiced.
+ */
+export async function getActivationBlock(campaignId: string): Promise<string | null> {
+  const supabase = getSupabaseAdmin();
+  const { data: campaign, error } = await supabase
+    .from('sponsor_campaigns')
+    .select('source_lead_id')
+    .eq('id', campaignId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!campaign?.source_lead_id) return null;
+
+  const invoice = await getInvoiceForLead(campaign.source_lead_id);
+  if (!invoice || invoice.status !== 'open' || invoice.override_at) return null;
+  return `Invoice ${invoice.number} hasn't been paid yet. Record the payment or override it before activating this campaign.`;
+}
+
+export function invoiceToPdf(invoice: any, lead: any): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margins: { top: 50, bottom: 50, left: 50, right: 50 } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const amountWidth = 100;
+    const amountX = right - amountWidth;
+
+    doc.font('Helvetica-Bold').fontSize(18).text(`Invoice ${invoice.number}`);
+    doc.moveDown(0.5);
+    doc.font('Helvetica').fontSize(10)
+      .text('Jugnu')
+      .text(`Issued: ${day(invoice.issued_at)}`);
+    if (invoice.due_at) doc.text(`Due: ${day(invoice.due_at)}`);
+    doc.text(`Status: ${invoice.status}${invoice.paid_at ? ` on ${day(invoice.paid_at)}` : ''}`);
+    doc.moveDown();
+
+    doc.font('Helvetica-Bold').text('Bill to');
+    doc.font('Helvetica')
+      .text(lead.business_name)
+      .text(lead.contact_name)
+      .text(lead.email);
+    doc.moveDown(1.5);
+
+    const row = (label: string, cents: number, bold = false) => {
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica')
+        .text(label, left, y, { width: amountX - left - 10 })
+        .text(money(cents), amountX, y, { width: amountWidth, align: 'right' });
+      doc.moveDown(0.3);
+    };
+
+    doc.font('Helvetica-Bold').fontSize(9);
+    const headerY = doc.y;
+    doc.text('Description', left, headerY).text(`Amount (${invoice.currency})`, amountX, headerY, { width: amountWidth, align: 'right' });
+    doc.moveDown(0.4);
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke('#999999');
+    doc.moveDown(0.4);
+    doc.fontSize(10);
+
+    (invoice.line_items as InvoiceLineItem[]).forEach(item => row(item.description, item.amountCents));
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke('#999999');
+    doc.moveDown(0.4);
+
+    row('Subtotal', invoice.subtotal_cents);
+    ((invoice.tax_breakdown as TaxBreakdown | null)?.components || []).forEach(c =>
+      row(`${describeTax(c)} (${invoice.province})`, c.cents)
+    );
+    row(`Total (${invoice.currency})`, invoice.total_cents, true);
+    doc.moveDown();
+
+    doc.font('Helvetica').fontSize(9);
+    if (invoice.status === 'open' && invoice.stripe_payment_link_url) {
+      doc.text(`Pay online: ${invoice.stripe_payment_link_url}`, left, doc.y, { link: invoice.stripe_payment_link_url });
+    }
+    if (process.env.GST_NUMBER) {
+      doc.text(`GST/HST registration: ${process.env.GST_NUMBER}`, left);
+    }
+    if (process.env.QST_NUMBER && invoice.province === 'QC') {
+      doc.text(`QST registration: ${process.env.QST_NUMBER}`, left);
+    }
+
+    doc.end();
+  });
+}
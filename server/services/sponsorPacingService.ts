@@ -0,0 +1,435 @@
+import { getSupabaseAdmin } from '../supabaseAdmin';
+import { sponsorDay } from './sponsorExposureService';
+import { PLACEMENT_SLOTS, findFreeSlot } from './sponsorInventoryService';
+
+// Guarantee targets are set per package; each package's target covers its placement
+const PLACEMENT_TARGET_PACKAGE: Record<string, string> = {
+  events_banner: 'events_spotlight',
+  home_mid: 'homepage_feature'
+};
+
+// Below 90% of where it should be by now, a campaign is behind and gets boosted
+const BEHIND_RATIO = 0.9;
+const AHEAD_RATIO = 1.1;
+const MAX_BOOST = 3;
+
+// A finished campaign that delivered less than 95% of its target is owed makegood days
+const DELIVERED_RATIO = 0.95;
+const MAX_MAKEGOOD_DAYS = 7;
+const MAKEGOOD_SEARCH_DAYS = 30;
+
+// Finished campaigns are only checked for shortfalls for this long after they end
+const MAKEGOOD_LOOKBACK_DAYS = 14;
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PacingStatus = 'no_target' | 'on_track' | 'behind' | 'ahead' | 'delivered' | 'under_delivered';
+
+export interface PlacementPacing {
+  placement: string;
+  targetImpressions: number | null; // over the whole run
+  expectedToDate: number;
+  delivered: number;
+  pacePercent: number | null;
+  status: PacingStatus;
+  boost: number; // multiplier on the campaign's rotation weight for this placement
+}
+
+export interface CampaignPacing {
+  campaignId: string;
+  name: string;
+  sponsorName: string;
+  startAt: string;
+  endAt: string;
+  needsMakegood: boolean;
+  placements: PlacementPacing[];
+}
+
+export interface Makegood {
+  id: string;
+  campaignId: string;
+  placement: string;
+  day: string;
+  status: 'proposed' | 'approved' | 'declined';
+  makegoodImpressions: number | null;
+}
+
+// 'YYYY-MM-DD' plus some days
+function addDays(day: string, days: number): string {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split('T')[0];
+}
+
+async function loadTargets() {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_guarantee_targets')
+    .select('placement, week_viewable_impressions_target, effective_from')
+    .order('effective_from', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Weekly target for a placement in effect when a campaign started, or null if it has none
+function weeklyTargetFor(targets: any[], placement: string, startDay: string): number | null {
+  const packageCode = PLACEMENT_TARGET_PACKAGE[placement];
+  if (!packageCode) return null;
+  const target = targets.find(t => t.placement === packageCode && t.effective_from <= startDay)
+    || targets.filter(t => t.placement === packageCode).pop();
+  return target && target.week_viewable_impressions_target > 0 ? target.week_viewable_impressions_target : null;
+}
+
+async function loadDelivered(campaignIds: string[]) {
+  const delivered: Record<string, number> = {};
+  if (campaignIds.length === 0) return delivered;
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_metrics_daily')
+    .select('campaign_id, placement, billable_impressions')
+    .in('campaign_id', campaignIds);
+
+  if (error) throw error;
+
+  (data || []).forEach((row: any) => {
+    const key = `${row.campaign_id}:${row.placement}`;
+    delivered[key] = (delivered[key] || 0) + (row.billable_impressions || 0);
+  });
+  return delivered;
+}
+
+// Where each of a campaign's placements stands against its guarantee
+function pace(campaign: any, targets: any[], delivered: Record<string, number>, now: Date): CampaignPacing {
+  const start = new Date(campaign.start_at).getTime();
+  const end = new Date(campaign.end_at).getTime();
+  const runDays = Math.max(1, Math.ceil((end - start) / DAY_MS));
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - start) / Math.max(1, end - start)));
+  const ended = now.getTime() >= end;
+
+  const placements = (campaign.placements || []).map((placement: string): PlacementPacing => {
+    const done = delivered[`${campaign.id}:${placement}`] || 0;
+    const weekly = weeklyTargetFor(targets, placement, sponsorDay(new Date(start)));
+    if (weekly === null) {
+      return { placement, targetImpressions: null, expectedToDate: 0, delivered: done, pacePercent: null, status: 'no_target', boost: 1 };
+    }
+
+    const target = Math.round(weekly * runDays / 7);
+    const expected = Math.round(target * elapsed);
+    const ratio = expected > 0 ? done / expected : 1;
+
+    let status: PacingStatus;
+    if (ended) {
+      status = done >= target * DELIVERED_RATIO ? 'delivered' : 'under_delivered';
+    } else if (ratio < BEHIND_RATIO) {
+      status = 'behind';
+    } else if (ratio > AHEAD_RATIO) {
+      status = 'ahead';
+    } else {
+      status = 'on_track';
+    }
+
+    // Catch up by serving it as much more often as it's behind, within reason
+    const boost = status === 'behind'
+      ? Math.round(Math.min(MAX_BOOST, expected / Math.max(1, done)) * 100) / 100
+      : 1;
+
+    return {
+      placement,
+      targetImpressions: target,
+      expectedToDate: expected,
+      delivered: done,
+      pacePercent: expected > 0 ? Math.round(ratio * 100) : null,
+      status,
+      boost
+    };
+  });
+
+  return {
+    campaignId: campaign.id,
+    name: campaign.name,
+    sponsorName: campaign.sponsor_name,
+    startAt: campaign.start_at,
+    endAt: campaign.end_at,
+    needsMakegood: !!campaign.needs_makegood,
+    placements
+  };
+}
+
+/**
+ * Pacing for running campaigns and ones that finished recently, so admins can see what
+ * is behind and what is owed.
+ */
+export async function getPacing(campaignIds?: string[]): Promise<CampaignPacing[]> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+
+  let query = supabase
+    .from('sponsor_campaigns')
+    .select('id, name, sponsor_name, placements, start_at, end_at, is_active, needs_makegood')
+    .lte('start_at', now.toISOString());
+
+  if (campaignIds) {
+    query = query.in('id', campaignIds);
+  } else {
+    query = query
+      .eq('is_active', true)
+      .gte('end_at', new Date(now.getTime() - MAKEGOOD_LOOKBACK_DAYS * DAY_MS).toISOString());
+  }
+
+  const { data: campaigns, error } = await query.order('end_at', { ascending: true });
+  if (error) throw error;
+
+  const [targets, delivered] = await Promise.all([
+    loadTargets(),
+    loadDelivered((campaigns || []).map((c: any) => c.id))
+  ]);
+  return (campaigns || []).map((c: any) => pace(c, targets, delivered, now));
+}
+
+export async function getMakegoods(filters: { campaignId?: string; status?: Makegood['status'] } = {}): Promise<Makegood[]> {
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from('sponsor_booking_days')
+    .select('id, campaign_id, placement, day, makegood_status, makegood_impressions')
+    .eq('is_makegood', true);
+
+  if (filters.campaignId) query = query.eq('campaign_id', filters.campaignId);
+  if (filters.status) query = query.eq('makegood_status', filters.status);
+
+  const { data, error } = await query.order('day', { ascending: true });
+  if (error) throw error;
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    campaignId: row.campaign_id,
+    placement: row.placement,
+    day: row.day,
+    status: row.makegood_status,
+    makegoodImpressions: row.makegood_impressions
+  }));
+}
+
+/**
+ * Propose enough free days on a placement to deliver a shortfall at the placement's daily
+ * target. Proposals stay inactive, and don't hold the days, until an admin approves them.
+ */
+async function proposeMakegoods(campaignId: string, placement: string, shortfall: number, dailyTarget: number) {
+  const supabase = getSupabaseAdmin();
+  const dayCount = Math.min(MAX_MAKEGOOD_DAYS, Math.max(1, Math.ceil(shortfall / Math.max(1, dailyTarget))));
+  const firstDay = addDays(sponsorDay(), 1);
+  const lastDay = addDays(firstDay, MAKEGOOD_SEARCH_DAYS);
+
+  // Slots already booked or held, or already offered as someone else's makegood
+  const { data: taken, error } = await supabase
+    .from('sponsor_booking_days')
+    .select('day, is_active, makegood_status, hold_expires_at')
+    .eq('placement', placement)
+    .gte('day', firstDay)
+    .lte('day', lastDay);
+
+  if (error) throw error;
+
+  const now = Date.now();
+  const takenRows = (taken || []).filter((row: any) =>
+    (row.is_active && (!row.hold_expires_at || new Date(row.hold_expires_at).getTime() > now)) ||
+    row.makegood_status === 'proposed'
+  );
+  const slots = PLACEMENT_SLOTS[placement] ?? 1;
+
+  const days: string[] = [];
+  for (let day = firstDay; day <= lastDay && days.length < dayCount; day = addDays(day, 1)) {
+    if (takenRows.filter((row: any) => row.day === day).length < slots) days.push(day);
+  }
+  if (days.length === 0) return 0;
+
+  const perDay = Math.ceil(shortfall / days.length);
+  const { error: insertError } = await supabase
+    .from('sponsor_booking_days')
+    .insert(days.map(day => ({
+      campaign_id: campaignId,
+      placement,
+      day,
+      is_active: false,
+      is_makegood: true,
+      makegood_status: 'proposed',
+      makegood_impressions: perDay
+    })));
+
+  if (insertError) throw insertError;
+  return days.length;
+}
+
+/**
+ * Pacing pass: boost running campaigns that are behind, and propose makegoods for finished
+ * ones that came in under target. Safe to run as often as needed.
+ */
+export async function runPacing() {
+  const supabase = getSupabaseAdmin();
+  const targets = await loadTargets();
+  const pacing = await getPacing();
+  const now = Date.now();
+
+  let boosted = 0;
+  let proposed = 0;
+
+  for (const campaign of pacing) {
+    const ended = new Date(campaign.endAt).getTime() <= now;
+
+    if (!ended) {
+      const boosts: Record<string, number> = {};
+      campaign.placements.forEach(p => {
+        if (p.boost > 1) boosts[p.placement] = p.boost;
+      });
+      if (Object.keys(boosts).length > 0) boosted++;
+
+      const { error } = await supabase
+        .from('sponsor_campaigns')
+        .update({ pacing_boosts: boosts })
+        .eq('id', campaign.campaignId);
+      if (error) throw error;
+      continue;
+    }
+
+    if (campaign.needsMakegood) continue;
+
+    const short = campaign.placements.filter(p => p.status === 'under_delivered');
+    if (short.length === 0) continue;
+
+    // Each shortfall is only offered once; declined proposals aren't re-offered automatically
+    const existing = await getMakegoods({ campaignId: campaign.campaignId });
+    if (existing.length > 0) continue;
+
+    for (const p of short) {
+      const weekly = weeklyTargetFor(targets, p.placement, sponsorDay(new Date(campaign.startAt))) || 0;
+      proposed += await proposeMakegoods(campaign.campaignId, p.placement, (p.targetImpressions || 0) - p.delivered, weekly / 7);
+    }
+
+    const { error } = await supabase
+      .from('sponsor_campaigns')
+      .update({ needs_makegood: true, pacing_boosts: {} })
+      .eq('id', campaign.campaignId);
+    if (error) throw error;
+  }
+
+  // Once every approved makegood day has run, the campaign is made good
+  const approved = await getMakegoods({ status: 'approved' });
+  const today = sponsorDay();
+  const owing = approved.filter(m => m.day >= today).map(m => m.campaignId);
+  const madeGood = approved.map(m => m.campaignId).filter((id, i, ids) => ids.indexOf(id) === i && !owing.includes(id));
+  if (madeGood.length > 0) {
+    const { error } = await supabase
+      .from('sponsor_campaigns')
+      .update({ needs_makegood: false })
+      .in('id', madeGood)
+      .eq('needs_makegood', true);
+    if (error) throw error;
+  }
+
+  return { campaigns: pacing.length, boosted, proposed };
+}
+
+export async function decideMakegood(id: string, approve: boolean): Promise<Makegood> {
+  const supabase = getSupabaseAdmin();
+
+  // An approved makegood takes a rotation slot like any other booking
+  let slot: number | null = null;
+  if (approve) {
+    const { data: proposal, error: proposalError } = await supabase
+      .from('sponsor_booking_days')
+      .select('placement, day')
+      .eq('id', id)
+      .maybeSingle();
+    if (proposalError) throw proposalError;
+    if (!proposal) throw new Error('Makegood not found or already decided');
+
+    slot = await findFreeSlot(proposal.placement, proposal.day);
+    if (slot === null) throw new Error('That day has since been booked for this placement');
+  }
+
+  const { data, error } = await supabase
+    .from('sponsor_booking_days')
+    .update({
+      is_active: approve,
+      makegood_status: approve ? 'approved' : 'declined',
+      decided_at: new Date().toISOString(),
+      ...(slot !== null && { slot })
+    })
+    .eq('id', id)
+    .eq('is_makegood', true)
+    .eq('makegood_status', 'proposed')
+    .select('id, campaign_id, placement, day, makegood_status, makegood_impressions')
+    .single();
+
+  if (error) {
+    // The partial unique index allows one active booking per slot per placement per day
+    if (error.code === '23505') {
+      throw new Error('That day has since been booked for this placement');
+    }
+    if (error.code === 'PGRST116') {
+      throw new Error('Makegood not found or already decided');
+    }
+    throw error;
+  }
+
+  return {
+    id: data.id,
+    campaignId: data.campaign_id,
+    placement: data.placement,
+    day: data.day,
+    status: data.makegood_status,
+    makegoodImpressions: data.makegood_impressions
+  };
+}
+
+/**
+ * Campaigns with an approved makegood today, limited to the placements they're owed. They
+ * run even though their own dates have passed.
+ */
+export async function getMakegoodCampaignsForToday(): Promise<any[]> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_booking_days')
+    .select(`
+      placement,
+      sponsor_campaigns (
+        *,
+        sponsor_creatives (*)
+      )
+    `)
+    .eq('is_makegood', true)
+    .eq('is_active', true)
+    .eq('day', sponsorDay());
+
+  if (error) throw error;
+
+  const campaigns: any[] = [];
+  (data || []).forEach((row: any) => {
+    const campaign = row.sponsor_campaigns;
+    if (!campaign || !campaign.is_active) return;
+    const existing = campaigns.find(c => c.id === campaign.id);
+    if (existing) {
+      existing.placements.push(row.placement);
+    } else {
+      campaigns.push({ ...campaign, placements: [row.placement] });
+    }
+  });
+  return campaigns;
+}
+
+export function startSponsorPacingScheduler(): void {
+  console.log('[Sponsor Pacing] Starting pacing scheduler...');
+
+  const runScheduled = () => runPacing()
+    .then(result => {
+      if (result.boosted > 0 || result.proposed > 0) {
+        console.log(`[Sponsor Pacing] ${result.boosted} campaigns boosted, ${result.proposed} makegood days proposed`);
+      }
+    })
+    .catch(error => console.error('[Sponsor Pacing] Scheduled run failed:', error));
+  runScheduled();
+  setInterval(runScheduled, RUN_INTERVAL_MS);
+
+  console.log('[Sponsor Pacing] Scheduler started - running every hour');
+}
@@ -0,0 +1,218 @@
+import { getSupabaseAdmin } from '../supabaseAdmin';
+
+export const CREATIVE_ROTATIONS = ['even', 'performance', 'split'] as const;
+export type CreativeRotation = typeof CREATIVE_ROTATIONS[number];
+
+// How far back creative performance is measured, and how often it's re-read
+const PERFORMANCE_WINDOW_DAYS = 14;
+const PERFORMANCE_CACHE_MS = 10 * 60 * 1000;
+
+// Share of performance-rotated serves that still go out evenly, so a weak early creative gets another chance
+const EXPLORE_RATE = 0.1;
+
+// Prior of 1 click per 100 impressions, so a creative isn't judged on its first few serves
+const PRIOR_CLICKS = 1;
+const PRIOR_IMPRESSIONS = 100;
+
+const performanceCache = new Map<string, { loadedAt: number; stats: Record<string, { impressions: number; clicks: number }> }>();
+
+// Pick an index with probability proportional to its weight
+function pickWeighted(weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return -1;
+  let roll = Math.random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/**
+ * Each campaign's share of voice on a placement. Booked campaigns get the percentage they
+ * bought; the rest split whatever is left over evenly.
+ */
+export function shareOfVoiceWeights(campaigns: Array<{ share_of_voice?: number | null }>): number[] {
+  const booked = campaigns.reduce((sum, c) => sum + (c.share_of_voice ?? 0), 0);
+  const unbookedCount = campaigns.filter(c => c.share_of_voice == null).length;
+  const leftover = Math.max(0, 100 - booked);
+  return campaigns.map(c => c.share_of_voice != null ? c.share_of_voice : leftover / Math.max(1, unbookedCount));
+}
+
+/**
+ * Rotate between the campaigns running on a placement; falls back to the top priority if nobody
+ * has any share. Campaigns behind on delivery carry a pacing boost that scales up their share.
+ */
+export function pickCampaign<T extends { priority: number; share_of_voice?: number | null; pacing_boosts?: Record<string, number> | null }>(
+  campaigns: T[],
+  placement: string
+): T | null {
+  if (campaigns.length === 0) return null;
+  const weights = shareOfVoiceWeights(campaigns).map((w, i) => w * (campaigns[i].pacing_boosts?.[placement] ?? 1));
+  const index = pickWeighted(weights);
+  if (index >= 0) return campaigns[index];
+  return campaigns.reduce((best, c) => c.priority > best.priority ? c : best);
+}
+
+/**
+ * The creatives a campaign can show on a placement. Onboarding stores a creative as one row
+ * per device (device_type + asset_url), so those are folded into the desktop/mobile shape the
+ * banners read.
+ */
+export function creativesFor(campaign: any, placement: string): any[] {
+  const all = (campaign.sponsor_creatives || []).filter((c: any) => c.is_active !== false);
+  const forPlacement = all.filter((c: any) => c.placement === placement);
+  const rows = forPlacement.length > 0 ? forPlacement : all;
+
+  const creatives = rows.filter((c: any) => !c.device_type);
+  const desktop = rows.find((c: any) => c.device_type === 'desktop');
+  const mobile = rows.find((c: any) => c.device_type === 'mobile');
+  if (desktop || mobile) {
+    const base = desktop || mobile;
+    creatives.push({
+      ...base,
+      image_desktop_url: base.image_desktop_url || desktop?.asset_url || mobile?.asset_url,
+      image_mobile_url: base.image_mobile_url || mobile?.asset_url || desktop?.asset_url
+    });
+  }
+  return creatives;
+}
+
+// Impressions and clicks per creative on a placement over the performance window
+async function loadCreativePerformance(campaignId: string, placement: string) {
+  const cacheKey = `${campaignId}:${placement}`;
+  const cached = performanceCache.get(cacheKey);
+  if (cached && Date.now() - cached.loadedAt < PERFORMANCE_CACHE_MS) {
+    return cached.stats;
+  }
+
+  const since = new Date(Date.now() - PERFORMANCE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from('sponsor_metrics_daily')
+    .select('creative_id, billable_impressions, clicks')
+    .eq('campaign_id', campaignId)
+    .eq('placement', placement)
+    .not('creative_id', 'is', null)
+    .gte('day', since);
+
+  if (error) {
+    console.error('Creative performance lookup error:', error);
+    return {};
+  }
+
+  const stats: Record<string, { impressions: number; clicks: number }> = {};
+  (data || []).forEach((row: any) => {
+    const entry = stats[row.creative_id] || (stats[row.creative_id] = { impressions: 0, clicks: 0 });
+    entry.impressions += row.billable_impressions || 0;
+    entry.clicks += row.clicks || 0;
+  });
+
+  performanceCache.set(cacheKey, { loadedAt: Date.now(), stats });
+  return stats;
+}
+
+/**
+ * Pick which of a campaign's creatives to serve. Even rotation gives each the same chance;
+ * performance rotation favours the ones with the better click-through rate; split rotation
+ * holds each variant to its traffic weight so an A/B test compares like with like.
+ */
+export async function pickCreative(campaign: any, placement: string): Promise<any | null> {
+  const creatives = creativesFor(campaign, placement);
+  if (creatives.length <= 1) return creatives[0] || null;
+
+  const evenPick = () => creatives[Math.floor(Math.random() * creatives.length)];
+  if (campaign.creative_rotation === 'split') {
+    // Traffic weights split a placement the same way shares of voice split it between campaigns
+    const weights = shareOfVoiceWeights(creatives.map(c => ({ share_of_voice: c.traffic_weight })));
+    return creatives[pickWeighted(weights)] || evenPick();
+  }
+  if (campaign.creative_rotation !== 'performance' || Math.random() < EXPLORE_RATE) {
+    return evenPick();
+  }
+
+  const stats = await loadCreativePerformance(campaign.id, placement);
+  const weights = creatives.map(c => {
+    const s = stats[c.id] || { impressions: 0, clicks: 0 };
+    return (s.clicks + PRIOR_CLICKS) / (s.impressions + PRIOR_IMPRESSIONS);
+  });
+  return creatives[pickWeighted(weights)] || evenPick();
+}
+
+/**
+ * The spotlight to show on each placement right now: one campaign per placement by share
+ * of voice, with the creative to serve already chosen so impressions are counted against it.
+ */
+export async function selectSpotlights(campaigns: any[], placement?: string): Promise<Record<string, any>> {
+  const byPlacement: Record<string, any[]> = {};
+  campaigns.forEach(campaign => {
+    (campaign.placements || []).forEach((p: string) => {
+      if (!placement || p === placement) {
+        (byPlacement[p] = byPlacement[p] || []).push(campaign);
+      }
+    });
+  });
+
+  const spotlights: Record<string, any> = {};
+  for (const p of Object.keys(byPlacement)) {
+    const campaign = pickCampaign(byPlacement[p], p);
+    if (!campaign) continue;
+
+    const creative = await pickCreative(campaign, p);
+    spotlights[p] = {
+      ...campaign,
+      // A variant's own copy replaces the campaign's
+      headline: creative?.headline || campaign.headline,
+      subline: creative?.subline || campaign.subline,
+      cta_text: creative?.cta_text || campaign.cta_text,
+      creative, // singular 'creative' for the frontend
+      // Also keep campaignId for SpotlightHero component compatibility
+      campaignId: campaign.id
+    };
+  }
+  return spotlights;
+}
+
+/**
+ * Whether giving a campaign this share of voice would book any of its placements past 100%
+ * at some point while it runs. Returns a message to show the admin, or null if it fits.
+ */
+export async function findShareOfVoiceConflict(campaign: {
+  id?: string;
+  placements: string[];
+  start_at: string;
+  end_at: string;
+  share_of_voice: number | null;
+}): Promise<string | null> {
+  if (campaign.share_of_voice == null) return null;
+
+  const supabase = getSupabaseAdmin();
+  const { data: others, error } = await supabase
+    .from('sponsor_campaigns')
+    .select('id, name, placements, start_at, end_at, share_of_voice')
+    .eq('is_active', true)
+    .not('share_of_voice', 'is', null)
+    .overlaps('placements', campaign.placements)
+    .lt('start_at', campaign.end_at)
+    .gt('end_at', campaign.start_at);
+
+  if (error) throw error;
+
+  const start = new Date(campaign.start_at).getTime();
+  const overlapping = (others || []).filter((o: any) => o.id !== campaign.id);
+
+  for (const p of campaign.placements) {
+    const onPlacement = overlapping.filter((o: any) => o.placements?.includes(p));
+    // Bookings only go up when another campaign starts, so those are the moments to check
+    const checkpoints = [start, ...onPlacement.map((o: any) => new Date(o.start_at).getTime()).filter((t: number) => t > start)];
+    for (const at of checkpoints) {
+      const booked = onPlacement
+        .filter((o: any) => new Date(o.start_at).getTime() <= at && new Date(o.end_at).getTime() > at)
+        .reduce((sum: number, o: any) => sum + o.share_of_voice, 0);
+      if (booked + campaign.share_of_voice > 100) {
+        return `${p} is already booked at ${booked}% share of voice on ${new Date(at).toISOString().split('T')[0]}; at most ${Math.max(0, 100 - booked)}% is left`;
+      }
+    }
+  }
+  return null;
+}
@@ -2,6 +2,8 @@ import { getSupabaseAdmin } from '../supabaseAdmin';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import { sendOnboardingEmail } from './emailService';
+import { createInvoiceForLead, getInvoiceForLead, invoiceEmailDetails } from './sponsorInvoiceService';
+import { applicationHoldExpiry, bookingDays, holdDays, placementsForPackage, quoteHoldExpiry, releaseHolds } from './sponsorInventoryService';
 
 // Pricing configuration
 const PRICING = {
@@ -30,11 +32,15 @@ export const createQuoteSchema = z.object({
   endDate: z.string().nullish(),
   addOns: z.array(z.string()).default([]),
   promoCode: z.string().optional().nullable(),
+  // An earlier quote from the same visit whose held dates this one takes over
+  replacesQuoteId: z.string().uuid().optional(),
 });
 
 export const createApplicationSchema = z.object({
   // Quote reference (preferred)
   quoteId: z.string().uuid().optional(),
+  // Quote made when the dates were picked, whose hold the application takes over
+  holdQuoteId: z.string().uuid().optional(),
   
   // Contact info
   businessName: z.string().min(1),
@@ -206,8 +212,8 @@ export async function calculatePricing(
   };
 }
 
-// Create a new quote
-export async function createQuote(data: z.infer<typeof createQuoteSchema>): Promise<string> {
+// Create a new quote, holding its dates for a short while if it has any
+export async function createQuote(data: z.infer<typeof createQuoteSchema>): Promise<{ id: string; holdExpiresAt: string | null }> {
   // Validate Full Feature is weekly only
   if (data.packageCode === 'full_feature' && data.duration === 'daily') {
     throw new Error('Full Feature package is only available as weekly booking');
@@ -251,7 +257,24 @@ export async function createQuote(data: z.infer<typeof createQuoteSchema>): Prom
     throw new Error(`Failed to create quote: ${error.message}`);
   }
   
-  return result.id;
+  const days = bookingDays(quote);
+  let holdExpiresAt: string | null = null;
+  if (days.length > 0) {
+    const expiresAt = quoteHoldExpiry();
+    try {
+      await holdDays({ quoteId: result.id }, placementsForPackage(data.packageCode), days, expiresAt);
+    } catch (holdError) {
+      await supabase.from('sponsor_quotes').delete().eq('id', result.id);
+      throw holdError;
+    }
+    holdExpiresAt = expiresAt.toISOString();
+  }
+  
+  if (data.replacesQuoteId) {
+    await releaseHolds({ quoteId: data.replacesQuoteId });
+  }
+  
+  return { id: result.id, holdExpiresAt };
 }
 
 // Get quote by ID
@@ -611,6 +634,22 @@ export async function createApplication(data: z.infer<typeof createApplicationSc
     throw new Error(`Failed to create lead: ${error.message}`);
   }
   
+  // Move the quote's hold onto the lead and keep it while the application is reviewed
+  const days = bookingDays(lead);
+  if (days.length > 0) {
+    try {
+      await holdDays(
+        { quoteId: data.holdQuoteId || lead.quote_id, leadId: result.id },
+        placementsForPackage(finalPackageCode),
+        days,
+        applicationHoldExpiry()
+      );
+    } catch (holdError) {
+      await supabase.from('sponsor_leads').delete().eq('id', result.id);
+      throw holdError;
+    }
+  }
+  
   return result.id;
 }
 
@@ -737,11 +776,15 @@ export async function updateLeadStatus(id: string, status: string, adminNotes?:
     throw new Error(`Failed to update lead status: ${error.message}`);
   }
   
+  if (status === 'rejected') {
+    await releaseHolds({ leadId: id });
+  }
+  
   return result;
 }
 
-// Approve lead and send onboarding email
-export async function approveLead(id: string, approvedBy: string = 'console') {
+// Approve lead, issue its invoice and send onboarding email
+export async function approveLead(id: string, approvedBy: string = 'console', province?: string) {
   const supabase = getSupabaseAdmin();
   
   // First, fetch the lead to validate status
@@ -760,6 +803,12 @@ export async function approveLead(id: string, approvedBy: string = 'console') {
     throw new Error(`Cannot approve lead with status: ${lead.status}`);
   }
   
+  // Sell the lead's days; fails if its hold lapsed and someone else booked them
+  const days = bookingDays(lead);
+  if (days.length > 0) {
+    await holdDays({ leadId: id, quoteId: lead.quote_id }, placementsForPackage(lead.package_code), days, null);
+  }
+  
   // Generate onboarding token and expiry
   const onboardingToken = uuidv4();
   const onboardingExpiresAt = new Date();
@@ -783,6 +832,9 @@ export async function approveLead(id: string, approvedBy: string = 'console') {
     throw new Error(`Failed to approve lead: ${updateError.message}`);
   }
   
+  // Campaign stays inactive until this is paid or an admin overrides it
+  const invoice = await createInvoiceForLead(updatedLead, province);
+  
   // Send onboarding email
   const onboardingLink = `${process.env.APP_BASE_URL || 'https://thehouseofjugnu.com'}/onboard/${onboardingToken}`;
   
@@ -792,7 +844,8 @@ export async function approveLead(id: string, approvedBy: string = 'console') {
       contactName: updatedLead.contact_name,
       businessName: updatedLead.business_name,
       onboardingLink,
-      expiresInDays: 14
+      expiresInDays: 14,
+      invoice: invoiceEmailDetails(invoice)
     });
     
     // Update status to onboarding_sent after successful email
@@ -810,7 +863,8 @@ export async function approveLead(id: string, approvedBy: string = 'console') {
   return {
     ok: true,
     onboarding_link: onboardingLink,
-    expires_at: onboardingExpiresAt.toISOString()
+    expires_at: onboardingExpiresAt.toISOString(),
+    invoice
   };
 }
 
@@ -856,12 +910,14 @@ export async function resendOnboardingEmail(id: string) {
   // Send new email
   const onboardingLink = `${process.env.APP_BASE_URL || 'https://thehouseofjugnu.com'}/onboard/${newToken}`;
   
+  const invoice = await getInvoiceForLead(id);
   await sendOnboardingEmail({
     recipientEmail: lead.email,
     contactName: lead.contact_name,
     businessName: lead.business_name,
     onboardingLink,
-    expiresInDays: 14
+    expiresInDays: 14,
+    invoice: invoice ? invoiceEmailDetails(invoice) : undefined
   });
   
   // Update status to onboarding_sent
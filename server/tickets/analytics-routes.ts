@@ -1,6 +1,7 @@
 import type { Express, Request, Response } from "express";
 import { ticketsStorage } from "./tickets-storage";
 import { storageExtensions } from "./storage-extensions";
+import { OccurrenceService } from "./occurrence-service";
 import { format, startOfDay, endOfDay, subDays, eachDayOfInterval } from 'date-fns';
 
 // Middleware to check if ticketing is enabled
@@ -197,6 +198,10 @@ export function addAnalyticsRoutes(app: Express) {
       const totalTierRevenue = Array.from(revenueByTier.values()).reduce((sum, tier) => sum + tier.revenue, 0);
       
       // Format response to match frontend AnalyticsData interface
+      // Per-date sales and check-ins for series events
+      const occurrences = await ticketsStorage.getOccurrencesByEvent(eventId);
+      const occurrenceBreakdown = await OccurrenceService.getOccurrenceStats(eventId, occurrences, tiers);
+      
       const analytics = {
         summary: {
           totalTicketsSold,
@@ -220,6 +225,16 @@ export function addAnalyticsRoutes(app: Express) {
           percentage: totalTierRevenue > 0 ? (tier.revenue / totalTierRevenue) * 100 : 0
         })),
         
+        occurrences: occurrenceBreakdown.map(o => ({
+          occurrenceId: o.occurrenceId,
+          startAt: o.startAt,
+          status: o.status,
+          ticketsSold: o.ticketsSold,
+          passHolders: o.passHolders,
+          checkedIn: o.checkedIn,
+          checkInRate: o.ticketsSold + o.passHolders > 0 ? (o.checkedIn / (o.ticketsSold + o.passHolders)) * 100 : 0
+        })),
+        
         checkInPatterns: Array.from(checkinsByHour.entries()).map(([hour, count]) => ({
           hour: `${hour}:00`,
           count
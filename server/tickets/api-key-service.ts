@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import { ticketsStorage } from './tickets-storage';
+import type { ApiKeyScope, TicketsApiKey } from '@shared/schema';
+
+const KEY_PREFIX = 'jt_live_';
+
+export class ApiKeyService {
+  static hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * A new key and what gets stored for it. Only the hash is kept, so the key
+   * has to be shown to the organizer now or never.
+   */
+  static generate(): { key: string; keyPrefix: string; keyHash: string } {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+    return { key, keyPrefix: key.slice(0, KEY_PREFIX.length + 6), keyHash: ApiKeyService.hash(key) };
+  }
+
+  /**
+   * The live key a request presented, or null for unknown and revoked keys
+   */
+  static async authenticate(key: string): Promise<TicketsApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    const apiKey = await ticketsStorage.getApiKeyByHash(ApiKeyService.hash(key));
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    // Best-effort - a failed timestamp shouldn't fail the request
+    ticketsStorage.updateApiKey(apiKey.id, { lastUsedAt: new Date() }).catch(error => {
+      console.error('[API Keys] Failed to record key use:', error);
+    });
+    return apiKey;
+  }
+
+  static hasScope(apiKey: TicketsApiKey, scope: ApiKeyScope): boolean {
+    return (apiKey.scopes as string[]).includes(scope);
+  }
+}
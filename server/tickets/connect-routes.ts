@@ -1,6 +1,7 @@
 import { Express, Request, Response } from 'express';
 import { StripeConnectService } from './stripe-connect-service.js';
 import { ticketsStorage } from './tickets-storage.js';
+import { DisputeService } from './dispute-service.js';
 import { communitiesStorage } from '../communities/communities-supabase.js';
 import { z } from 'zod';
 
@@ -439,6 +440,11 @@ export function addConnectRoutes(app: Express) {
         }
       }
 
+      // Disputes on charges made directly on a connected account
+      if (event.type.startsWith('charge.dispute.')) {
+        await DisputeService.sync(event.data.object as any, event.account || null);
+      }
+
       res.json({ ok: true, received: true });
 
     } catch (error: any) {
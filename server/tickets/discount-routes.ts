@@ -0,0 +1,288 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { DiscountService, type DiscountRules } from "./discount-service";
+import { createDiscountSchema, updateDiscountSchema, bulkDiscountSchema } from "./validation";
+import type { TicketsDiscount, InsertTicketsDiscount } from "@shared/schema";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+// Dates arrive as ISO strings; null clears them
+const toRules = (input: any): Partial<DiscountRules> => ({
+  ...input,
+  startsAt: input.startsAt === undefined ? undefined : input.startsAt && new Date(input.startsAt),
+  endsAt: input.endsAt === undefined ? undefined : input.endsAt && new Date(input.endsAt)
+});
+
+const withState = (discount: TicketsDiscount) => ({
+  ...discount,
+  value: Number(discount.value),
+  state: DiscountService.stateOf(discount)
+});
+
+export function addDiscountRoutes(app: Express) {
+
+  // Make sure the event belongs to the organizer and any tier restriction only names its tiers
+  const loadOwnedEvent = async (req: Request & { organizer?: any }, res: Response, tierIds?: string[] | null) => {
+    const event = await ticketsStorage.getEventById(req.params.eventId);
+    if (!event || event.organizerId !== req.organizer.id) {
+      res.status(403).json({ ok: false, error: 'Access denied' });
+      return null;
+    }
+
+    if (tierIds && tierIds.length > 0) {
+      const tiers = await ticketsStorage.getTiersByEvent(event.id);
+      const eventTierIds = new Set(tiers.map(t => t.id));
+      if (tierIds.some(id => !eventTierIds.has(id))) {
+        res.status(400).json({ ok: false, error: 'Discounts can only be limited to ticket tiers of this event' });
+        return null;
+      }
+    }
+
+    return event;
+  };
+
+  // List an event's discount codes
+  app.get('/api/tickets/events/:eventId/discounts', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      if (!await loadOwnedEvent(req, res)) return;
+
+      const discounts = await ticketsStorage.getDiscountsByEvent(req.params.eventId);
+
+      res.json({ ok: true, discounts: discounts.map(withState) });
+    } catch (error) {
+      console.error('Error fetching discounts:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch discounts' });
+    }
+  });
+
+  // Download discount codes as CSV, optionally just one generated batch
+  app.get('/api/tickets/events/:eventId/discounts/export', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+
+      const batchId = typeof req.query.batchId === 'string' ? req.query.batchId : undefined;
+
+      const [discounts, tiers] = await Promise.all([
+        ticketsStorage.getDiscountsByEvent(event.id),
+        ticketsStorage.getTiersByEvent(event.id)
+      ]);
+      const rows = batchId ? discounts.filter(d => d.batchId === batchId) : discounts;
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="discount-codes-${event.slug || event.id}${batchId ? `-${batchId.slice(0, 8)}` : ''}.csv"`);
+      res.send(DiscountService.toCsv(rows, tiers));
+    } catch (error) {
+      console.error('Error exporting discounts:', error);
+      res.status(500).json({ ok: false, error: 'Failed to export discounts' });
+    }
+  });
+
+  // Create a discount code
+  app.post('/api/tickets/events/:eventId/discounts', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { code, ...rules } = createDiscountSchema.parse(req.body);
+      const { eventId } = req.params;
+
+      if (!await loadOwnedEvent(req, res, rules.tierIds)) return;
+
+      const normalizedCode = DiscountService.normalizeCode(code);
+      if (await ticketsStorage.getDiscountByCode(eventId, normalizedCode)) {
+        return res.status(409).json({ ok: false, error: `The code ${normalizedCode} already exists for this event` });
+      }
+
+      const discount = await ticketsStorage.createDiscount({
+        ...DiscountService.toRecord(toRules(rules)),
+        eventId,
+        code: normalizedCode,
+        status: 'active'
+      } as InsertTicketsDiscount);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'discount_created',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { discountId: discount.id, code: discount.code },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, discount: withState(discount) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid discount' });
+      }
+      console.error('Error creating discount:', error);
+      res.status(500).json({ ok: false, error: 'Failed to create discount' });
+    }
+  });
+
+  // Generate a batch of unique single-use codes
+  app.post('/api/tickets/events/:eventId/discounts/bulk', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { count, prefix, ...rules } = bulkDiscountSchema.parse(req.body);
+      const { eventId } = req.params;
+
+      if (!await loadOwnedEvent(req, res, rules.tierIds)) return;
+
+      const { batchId, discounts } = await DiscountService.generateBatch(eventId, count, prefix, toRules(rules) as DiscountRules);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'discount_batch_generated',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { batchId, count: discounts.length, prefix: prefix || null },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, batchId, count: discounts.length, codes: discounts.map(d => d.code) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid discount batch' });
+      }
+      console.error('Error generating discount codes:', error);
+      res.status(500).json({ ok: false, error: 'Failed to generate discount codes' });
+    }
+  });
+
+  // Edit, pause or resume a discount code
+  app.patch('/api/tickets/events/:eventId/discounts/:discountId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { code, status, ...rules } = updateDiscountSchema.parse(req.body);
+      const { eventId, discountId } = req.params;
+
+      if (!await loadOwnedEvent(req, res, rules.tierIds)) return;
+
+      const discount = await ticketsStorage.getDiscountById(discountId);
+      if (!discount || discount.eventId !== eventId) {
+        return res.status(404).json({ ok: false, error: 'Discount not found' });
+      }
+
+      const type = rules.type ?? discount.type;
+      const value = rules.value ?? Number(discount.value);
+      if (type === 'percent' && value > 100) {
+        return res.status(400).json({ ok: false, error: "A percentage discount can't be more than 100%" });
+      }
+
+      if (rules.maxUses != null && rules.maxUses < discount.usedCount) {
+        return res.status(400).json({ ok: false, error: `This code has already been used ${discount.usedCount} times` });
+      }
+
+      const updates: any = DiscountService.toRecord(toRules(rules));
+
+      if (code !== undefined) {
+        const normalizedCode = DiscountService.normalizeCode(code);
+        if (normalizedCode !== discount.code) {
+          if (discount.usedCount > 0) {
+            return res.status(409).json({ ok: false, error: "A code that has already been used can't be renamed" });
+          }
+          if (await ticketsStorage.getDiscountByCode(eventId, normalizedCode)) {
+            return res.status(409).json({ ok: false, error: `The code ${normalizedCode} already exists for this event` });
+          }
+          updates.code = normalizedCode;
+        }
+      }
+
+      if (status !== undefined) {
+        updates.status = status;
+      } else if (discount.status === 'exhausted' && rules.maxUses !== undefined) {
+        // Raising (or removing) the limit brings a used-up code back
+        if (rules.maxUses === null || rules.maxUses > discount.usedCount) updates.status = 'active';
+      }
+
+      const updated = await ticketsStorage.updateDiscount(discountId, updates);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: status === 'paused' ? 'discount_paused' : status === 'active' && discount.status === 'paused' ? 'discount_resumed' : 'discount_updated',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { discountId, code: updated.code, changes: Object.keys(updates) },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, discount: withState(updated) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid discount' });
+      }
+      console.error('Error updating discount:', error);
+      res.status(500).json({ ok: false, error: 'Failed to update discount' });
+    }
+  });
+
+  // Delete a discount code that hasn't been used yet
+  app.delete('/api/tickets/events/:eventId/discounts/:discountId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId, discountId } = req.params;
+
+      if (!await loadOwnedEvent(req, res)) return;
+
+      const discount = await ticketsStorage.getDiscountById(discountId);
+      if (!discount || discount.eventId !== eventId) {
+        return res.status(404).json({ ok: false, error: 'Discount not found' });
+      }
+
+      if (discount.usedCount > 0) {
+        return res.status(409).json({ ok: false, error: 'This code has already been used - pause it instead' });
+      }
+
+      await ticketsStorage.deleteDiscount(discountId);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'discount_deleted',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { discountId, code: discount.code },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error deleting discount:', error);
+      res.status(500).json({ ok: false, error: 'Failed to delete discount' });
+    }
+  });
+}
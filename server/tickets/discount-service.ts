@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import { ticketsStorage } from './tickets-storage';
+import { StripeService } from './stripe-service';
+import { HOLD_WINDOW_MS } from './seating-service';
+import type { TicketsDiscount, TicketsOrder, TicketsTier, InsertTicketsDiscount } from '@shared/schema';
+
+// Same unambiguous alphabet as scanner access codes - buyers type these in
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const GENERATED_CODE_LENGTH = 8;
+
+export type DiscountState = 'active' | 'paused' | 'scheduled' | 'expired' | 'exhausted';
+
+export interface DiscountRules {
+  type: 'percent' | 'fixed';
+  value: number;
+  maxUses?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  tierIds?: string[] | null;
+  minQuantity?: number | null;
+}
+
+function discountError(message: string): Error {
+  const error: any = new Error(message);
+  error.discountInvalid = true;
+  return error;
+}
+
+export class DiscountService {
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Where a code stands right now, folding its schedule and usage into the stored status
+   */
+  static stateOf(discount: TicketsDiscount, now: Date = new Date()): DiscountState {
+    if (discount.status === 'paused') return 'paused';
+    if (discount.status === 'exhausted' || (discount.maxUses != null && discount.usedCount >= discount.maxUses)) return 'exhausted';
+    if (discount.status === 'expired' || (discount.endsAt && new Date(discount.endsAt) <= now)) return 'expired';
+    if (discount.startsAt && new Date(discount.startsAt) > now) return 'scheduled';
+    return 'active';
+  }
+
+  /**
+   * Check a code against the tickets being bought and work out how much it takes
+   * off. Without items only the code itself is checked. Throws an error flagged
+   * `discountInvalid` when the code can't be used.
+   */
+  static async apply(
+    eventId: string,
+    code: string,
+    items?: Array<{ tier: TicketsTier; quantity: number }>
+  ): Promise<{ discount: TicketsDiscount; discountAmountCents: number }> {
+    let discount = await ticketsStorage.getDiscountByCode(eventId, DiscountService.normalizeCode(code));
+    if (!discount) {
+      throw discountError('Invalid discount code');
+    }
+
+    // Its last uses may only be held by checkouts that were abandoned
+    if (DiscountService.stateOf(discount) === 'exhausted' && await ticketsStorage.releaseExpiredDiscountHolds(discount.id) > 0) {
+      discount = (await ticketsStorage.getDiscountByCode(eventId, discount.code))!;
+    }
+
+    switch (DiscountService.stateOf(discount)) {
+      case 'paused':
+        throw discountError('This discount code is not active');
+      case 'scheduled':
+        throw discountError("This discount code isn't valid yet");
+      case 'expired':
+        throw discountError('This discount code has expired');
+      case 'exhausted':
+        throw discountError('This discount code has already been used the maximum number of times');
+    }
+
+    if (!items) {
+      return { discount, discountAmountCents: 0 };
+    }
+
+    const tierIds = discount.tierIds as string[] | null;
+    const eligible = tierIds && tierIds.length > 0
+      ? items.filter(item => tierIds.includes(item.tier.id))
+      : items;
+
+    if (eligible.length === 0) {
+      throw discountError("This discount code doesn't apply to the selected tickets");
+    }
+
+    const eligibleQuantity = eligible.reduce((sum, item) => sum + item.quantity, 0);
+    if (discount.minQuantity && eligibleQuantity < discount.minQuantity) {
+      throw discountError(`This discount code needs at least ${discount.minQuantity} eligible tickets in the order`);
+    }
+
+    const eligibleSubtotal = eligible.reduce((sum, item) =>
+      sum + (StripeService.getUnitPriceCents(item.tier) * item.quantity), 0
+    );
+
+    const discountAmountCents = discount.type === 'percent'
+      ? Math.round(eligibleSubtotal * (Number(discount.value) / 100))
+      : Math.min(Number(discount.value), eligibleSubtotal);
+
+    return { discount, discountAmountCents };
+  }
+
+  /**
+   * Hold a use of the order's discount code while the buyer pays, for as long as seats are
+   * held. The usage limit is checked and incremented atomically in the database so two
+   * checkouts can't both take the last use. Returns false when the code has none left.
+   */
+  static async holdForOrder(order: TicketsOrder): Promise<boolean> {
+    if (!order.discountCode) return true;
+
+    const discount = await ticketsStorage.getDiscountByCode(order.eventId, DiscountService.normalizeCode(order.discountCode));
+    if (!discount) return true;
+
+    return ticketsStorage.redeemDiscount(discount.id, order.id, new Date(Date.now() + HOLD_WINDOW_MS));
+  }
+
+  /**
+   * Give back the use an unpaid order was holding (failed, expired or abandoned checkout)
+   */
+  static async releaseForOrder(orderId: string): Promise<void> {
+    await ticketsStorage.releaseDiscountHold(orderId);
+  }
+
+  /**
+   * Count the order's discount code as used for good now that it's paid, keeping the use its
+   * checkout held. The hold can only come up short if it ran out and someone else took the
+   * last use in the meantime - the order is paid by then, so it goes in the audit log.
+   */
+  static async redeemForOrder(order: TicketsOrder): Promise<boolean> {
+    if (!order.discountCode) return true;
+
+    const discount = await ticketsStorage.getDiscountByCode(order.eventId, DiscountService.normalizeCode(order.discountCode));
+    if (!discount) {
+      console.warn(`[Discounts] Code ${order.discountCode} on order ${order.id} no longer exists`);
+      return true;
+    }
+
+    const redeemed = await ticketsStorage.redeemDiscount(discount.id, order.id);
+    if (!redeemed) {
+      console.warn(`[Discounts] Code ${discount.code} had no uses left when order ${order.id} was paid`);
+      await ticketsStorage.createAuditLog({
+        actorType: 'system',
+        actorId: 'discounts',
+        action: 'discount_limit_exceeded',
+        targetType: 'order',
+        targetId: order.id,
+        metaJson: { discountId: discount.id, code: discount.code, maxUses: discount.maxUses }
+      });
+    }
+    return redeemed;
+  }
+
+  /**
+   * A batch of unique random codes, skipping any already used by the event
+   */
+  static async generateUniqueCodes(eventId: string, count: number, prefix: string = ''): Promise<string[]> {
+    const codes = new Set<string>();
+
+    while (codes.size < count) {
+      const candidates: string[] = [];
+      while (candidates.length < count - codes.size) {
+        const bytes = crypto.randomBytes(GENERATED_CODE_LENGTH);
+        const code = prefix + Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+        if (!codes.has(code) && !candidates.includes(code)) candidates.push(code);
+      }
+
+      const taken = new Set(await ticketsStorage.getExistingDiscountCodes(eventId, candidates));
+      candidates.filter(code => !taken.has(code)).forEach(code => codes.add(code));
+    }
+
+    return Array.from(codes);
+  }
+
+  /**
+   * Create `count` single-use codes sharing the same rules
+   */
+  static async generateBatch(eventId: string, count: number, prefix: string | undefined, rules: DiscountRules) {
+    const batchId = crypto.randomUUID();
+    const normalizedPrefix = prefix ? DiscountService.normalizeCode(prefix) : '';
+    const codes = await DiscountService.generateUniqueCodes(eventId, count, normalizedPrefix);
+
+    const discounts = await ticketsStorage.createDiscounts(codes.map(code => ({
+      ...DiscountService.toRecord(rules),
+      eventId,
+      code,
+      maxUses: 1,
+      batchId,
+      status: 'active'
+    } as InsertTicketsDiscount)));
+
+    console.log(`[Discounts] Generated ${discounts.length} codes in batch ${batchId} for event ${eventId}`);
+    return { batchId, discounts };
+  }
+
+  /**
+   * Map validated rule input to discount columns
+   */
+  static toRecord(rules: Partial<DiscountRules>): Partial<InsertTicketsDiscount> {
+    const record: Partial<InsertTicketsDiscount> = {};
+    if (rules.type !== undefined) record.type = rules.type;
+    if (rules.value !== undefined) record.value = String(rules.value);
+    if (rules.maxUses !== undefined) record.maxUses = rules.maxUses;
+    if (rules.startsAt !== undefined) record.startsAt = rules.startsAt;
+    if (rules.endsAt !== undefined) record.endsAt = rules.endsAt;
+    if (rules.tierIds !== undefined) record.tierIds = rules.tierIds && rules.tierIds.length > 0 ? rules.tierIds : null;
+    if (rules.minQuantity !== undefined) record.minQuantity = rules.minQuantity;
+    return record;
+  }
+
+  /**
+   * Discounts as a CSV, one code per line
+   */
+  static toCsv(discounts: TicketsDiscount[], tiers: TicketsTier[]): string {
+    const tierNames = new Map(tiers.map(t => [t.id, t.name]));
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+    const header = 'Code,Type,Value,Max Uses,Used,Status,Starts,Ends,Tiers,Min Quantity\n';
+    const rows = discounts.map(d => [
+      d.code,
+      d.type,
+      d.type === 'percent' ? `${Number(d.value)}%` : (Number(d.value) / 100).toFixed(2),
+      d.maxUses ?? '',
+      d.usedCount,
+      DiscountService.stateOf(d),
+      d.startsAt ? new Date(d.startsAt).toISOString() : '',
+      d.endsAt ? new Date(d.endsAt).toISOString() : '',
+      ((d.tierIds as string[] | null) || []).map(id => tierNames.get(id) || id).join('; '),
+      d.minQuantity ?? ''
+    ].map(value => escape(String(value))).join(',')).join('\n');
+
+    return header + rows;
+  }
+}
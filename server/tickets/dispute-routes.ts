@@ -0,0 +1,91 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { DisputeService } from "./dispute-service";
+import type { TicketsDispute } from '@shared/schema';
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+const loadOwnedDispute = async (req: Request & { organizer?: any }, res: Response): Promise<TicketsDispute | null> => {
+  const dispute = await ticketsStorage.getDisputeById(req.params.disputeId);
+  if (!dispute || dispute.organizerId !== req.organizer.id) {
+    res.status(404).json({ ok: false, error: 'Dispute not found' });
+    return null;
+  }
+  return dispute;
+};
+
+export function addDisputeRoutes(app: Express) {
+  // Disputes on this organizer's orders, open ones first
+  app.get('/api/tickets/organizers/disputes', requireTicketing, requireOrganizer, async (req: Request, res: Response) => {
+    try {
+      const organizer = (req as any).organizer;
+      const disputes = await ticketsStorage.getDisputesByOrganizer(organizer.id);
+
+      const results = [];
+      for (const dispute of disputes) {
+        const order = await ticketsStorage.getOrderById(dispute.orderId);
+        const event = order ? await ticketsStorage.getEventById(order.eventId) : null;
+        results.push({
+          ...DisputeService.serialize(dispute),
+          open: DisputeService.isOpen(dispute),
+          blockedTicketCount: (dispute.blockedTicketIds as string[]).length,
+          buyerName: order?.buyerName || null,
+          buyerEmail: order?.buyerEmail || null,
+          eventTitle: event?.title || null
+        });
+      }
+      results.sort((a, b) => Number(b.open) - Number(a.open));
+
+      res.json({ ok: true, disputes: results });
+    } catch (error) {
+      console.error('Get organizer disputes error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch disputes' });
+    }
+  });
+
+  // Everything the organizer needs to answer the dispute in one place
+  app.get('/api/tickets/organizers/disputes/:disputeId/evidence', requireTicketing, requireOrganizer, async (req: Request, res: Response) => {
+    try {
+      const dispute = await loadOwnedDispute(req, res);
+      if (!dispute) return;
+
+      const evidence = await DisputeService.buildEvidencePack(dispute);
+      res.json({ ok: true, evidence });
+    } catch (error) {
+      console.error('Get dispute evidence error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to build evidence pack' });
+    }
+  });
+}
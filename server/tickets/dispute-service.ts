@@ -0,0 +1,275 @@
+import type Stripe from 'stripe';
+import { ticketsStorage } from './tickets-storage';
+import { OrganizerWebhookService } from './organizer-webhook-service';
+import { sendDisputeEmail } from './email-service';
+import type { TicketsDispute, TicketsOrder } from '@shared/schema';
+
+// Stripe statuses after which nothing more happens to a dispute
+const CLOSED_STATUSES = ['won', 'lost', 'warning_closed'];
+
+// Inquiries (warning_*) are questions from the card issuer - no money moves unless they escalate
+const isInquiry = (status: string) => status.startsWith('warning_');
+
+export class DisputeService {
+  /**
+   * Bring our record of a dispute in line with Stripe's. Safe to call for every
+   * charge.dispute.* event in any order: the order's tickets are blocked while the
+   * dispute is open, the organizer ledger is charged back once funds are withdrawn
+   * and credited again if they're reinstated, and the organizer hears about it when
+   * it opens and when it closes.
+   */
+  static async sync(stripeDispute: Stripe.Dispute, stripeAccountId: string | null = null): Promise<TicketsDispute | null> {
+    const chargeId = typeof stripeDispute.charge === 'string' ? stripeDispute.charge : stripeDispute.charge.id;
+    const paymentIntentId = typeof stripeDispute.payment_intent === 'string' ? stripeDispute.payment_intent : stripeDispute.payment_intent?.id;
+
+    const order = (paymentIntentId ? await ticketsStorage.getOrderByPaymentIntent(paymentIntentId) : null)
+      || await ticketsStorage.getOrderByChargeId(chargeId);
+    if (!order) {
+      console.warn(`[Disputes] No order found for dispute ${stripeDispute.id} (charge ${chargeId})`);
+      return null;
+    }
+    const event = await ticketsStorage.getEventById(order.eventId);
+    if (!event) return null;
+
+    const fields = {
+      amountCents: stripeDispute.amount,
+      currency: stripeDispute.currency.toUpperCase(),
+      reason: stripeDispute.reason,
+      status: stripeDispute.status,
+      evidenceDueBy: stripeDispute.evidence_details?.due_by ? new Date(stripeDispute.evidence_details.due_by * 1000) : null
+    };
+
+    const existing = await ticketsStorage.getDisputeByStripeId(stripeDispute.id);
+    const opened = !existing;
+    let dispute = existing
+      ? await ticketsStorage.updateDispute(existing.id, fields)
+      : await ticketsStorage.createDispute({
+          orderId: order.id,
+          organizerId: event.organizerId,
+          stripeDisputeId: stripeDispute.id,
+          stripeChargeId: chargeId,
+          stripeAccountId,
+          ...fields
+        });
+
+    if (opened) {
+      dispute = await DisputeService.blockTickets(dispute);
+      await ticketsStorage.createAudit({
+        actorType: 'system',
+        actorId: 'stripe',
+        action: 'dispute_opened',
+        targetType: 'order',
+        targetId: order.id,
+        metaJson: { disputeId: dispute.id, stripeDisputeId: stripeDispute.id, amountCents: dispute.amountCents, reason: dispute.reason, status: dispute.status }
+      });
+    }
+
+    // Stripe sends several events per dispute, often together - each step is claimed
+    // before acting on it so concurrent syncs can't write it twice
+
+    // Everything but an inquiry takes the money back as soon as it's opened
+    if (!isInquiry(dispute.status) && !dispute.fundsWithdrawnAt) {
+      const claimed = await ticketsStorage.claimDisputeStep(dispute.id, 'fundsWithdrawnAt');
+      if (claimed) {
+        dispute = claimed;
+        await DisputeService.writeChargeback(dispute, order);
+      }
+    }
+    if (dispute.status === 'won' && !dispute.fundsReinstatedAt) {
+      const claimed = await ticketsStorage.claimDisputeStep(dispute.id, 'fundsReinstatedAt');
+      if (claimed) {
+        dispute = claimed;
+        await DisputeService.writeReinstatement(dispute, order);
+      }
+    }
+
+    let closed = false;
+    if (CLOSED_STATUSES.includes(dispute.status) && !dispute.closedAt) {
+      const claimed = await ticketsStorage.claimDisputeStep(dispute.id, 'closedAt');
+      if (claimed) {
+        dispute = await DisputeService.close(claimed);
+        closed = true;
+      }
+    }
+
+    if (opened || closed) {
+      await sendDisputeEmail(dispute.id);
+      await OrganizerWebhookService.emit(dispute.organizerId, 'order.disputed', {
+        dispute: DisputeService.serialize(dispute),
+        order: OrganizerWebhookService.serializeOrder(order),
+        event: { id: event.id, title: event.title, startAt: event.startAt }
+      });
+    }
+
+    return dispute;
+  }
+
+  // Block every ticket on the order that could still get someone in, remembering which so they can be released
+  private static async blockTickets(dispute: TicketsDispute): Promise<TicketsDispute> {
+    const tickets = await ticketsStorage.getTicketsByOrderId(dispute.orderId);
+    const toBlock = tickets.filter(ticket => (ticket.status === 'valid' || ticket.status === 'used') && !ticket.isBlocked);
+
+    for (const ticket of toBlock) {
+      await ticketsStorage.updateTicket(ticket.id, { isBlocked: true });
+    }
+    console.log(`[Disputes] Blocked ${toBlock.length} tickets on order ${dispute.orderId} for dispute ${dispute.stripeDisputeId}`);
+
+    return ticketsStorage.updateDispute(dispute.id, { blockedTicketIds: toBlock.map(t => t.id) });
+  }
+
+  // Won disputes and closed inquiries give the buyer their tickets back; lost ones stay blocked
+  private static async close(dispute: TicketsDispute): Promise<TicketsDispute> {
+    if (dispute.status !== 'lost') {
+      for (const ticketId of dispute.blockedTicketIds as string[]) {
+        await ticketsStorage.updateTicket(ticketId, { isBlocked: false });
+      }
+    }
+
+    await ticketsStorage.createAudit({
+      actorType: 'system',
+      actorId: 'stripe',
+      action: 'dispute_closed',
+      targetType: 'order',
+      targetId: dispute.orderId,
+      metaJson: { disputeId: dispute.id, stripeDisputeId: dispute.stripeDisputeId, status: dispute.status }
+    });
+
+    return dispute;
+  }
+
+  /**
+   * The organizer's share of the disputed amount. Tax and fees on the order are the
+   * platform's to absorb, as with refunds.
+   */
+  static organizerShareCents(dispute: TicketsDispute, order: TicketsOrder): number {
+    if (order.totalCents <= 0) return 0;
+    return Math.round(order.subtotalCents * Math.min(dispute.amountCents, order.totalCents) / order.totalCents);
+  }
+
+  private static async writeChargeback(dispute: TicketsDispute, order: TicketsOrder): Promise<void> {
+    await ticketsStorage.createLedgerEntry({
+      organizerId: dispute.organizerId,
+      orderId: order.id,
+      type: 'chargeback',
+      description: `Chargeback (${dispute.reason.replace(/_/g, ' ')}) - Order ${order.id}`,
+      amountCents: -DisputeService.organizerShareCents(dispute, order)
+    });
+  }
+
+  private static async writeReinstatement(dispute: TicketsDispute, order: TicketsOrder): Promise<void> {
+    await ticketsStorage.createLedgerEntry({
+      organizerId: dispute.organizerId,
+      orderId: order.id,
+      type: 'adjustment',
+      description: `Dispute won - chargeback reversed for Order ${order.id}`,
+      amountCents: DisputeService.organizerShareCents(dispute, order)
+    });
+  }
+
+  static isOpen(dispute: TicketsDispute): boolean {
+    return !CLOSED_STATUSES.includes(dispute.status);
+  }
+
+  static serialize(dispute: TicketsDispute) {
+    return {
+      id: dispute.id,
+      orderId: dispute.orderId,
+      amountCents: dispute.amountCents,
+      currency: dispute.currency,
+      reason: dispute.reason,
+      status: dispute.status,
+      evidenceDueBy: dispute.evidenceDueBy,
+      closedAt: dispute.closedAt,
+      createdAt: dispute.createdAt
+    };
+  }
+
+  // ============ EVIDENCE ============
+
+  /**
+   * What the organizer needs to answer a dispute: the order, who bought it and from
+   * where, and proof the tickets were delivered and used. Fields are named after
+   * Stripe's dispute evidence so they can be pasted straight into the Dashboard.
+   */
+  static async buildEvidencePack(dispute: TicketsDispute) {
+    const order = await ticketsStorage.getOrderById(dispute.orderId);
+    if (!order) throw new Error('Order not found');
+    const event = await ticketsStorage.getEventById(order.eventId);
+    const tickets = await ticketsStorage.getTicketsByOrderId(order.id);
+    const tiers = event ? await ticketsStorage.getTiersByEvent(event.id) : [];
+
+    const orderAudit = await ticketsStorage.getAuditEntries('order', [order.id]);
+    const ticketAudit = await ticketsStorage.getAuditEntries('ticket', tickets.map(t => t.id));
+    // The first request we saw for the order is the purchase itself
+    const purchase = orderAudit.find(entry => entry.ipAddress) || null;
+
+    const checkIns = tickets
+      .filter(ticket => ticket.usedAt)
+      .map(ticket => ({
+        ticketId: ticket.id,
+        serial: ticket.serial,
+        tierName: tiers.find(t => t.id === ticket.tierId)?.name || null,
+        checkedInAt: ticket.usedAt,
+        checkedInBy: ticket.scannedBy,
+        gateId: ticket.gateId
+      }));
+
+    const accessLog = [...orderAudit, ...ticketAudit]
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(entry => ({
+        at: entry.createdAt,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent
+      }));
+
+    const ticketLines = tickets.map(ticket => `${tiers.find(t => t.id === ticket.tierId)?.name || 'Ticket'} #${ticket.serial}`);
+    const money = (cents: number) => `$${(cents / 100).toFixed(2)} ${order.currency}`;
+
+    return {
+      dispute: DisputeService.serialize(dispute),
+      order: {
+        id: order.id,
+        createdAt: order.createdAt,
+        status: order.status,
+        buyerName: order.buyerName,
+        buyerEmail: order.buyerEmail,
+        buyerPhone: order.buyerPhone,
+        subtotalCents: order.subtotalCents,
+        taxCents: order.taxCents,
+        totalCents: order.totalCents,
+        refundedAmountCents: order.refundedAmountCents,
+        stripeChargeId: dispute.stripeChargeId
+      },
+      event: event ? { id: event.id, title: event.title, venue: event.venue, startAt: event.startAt } : null,
+      tickets: tickets.map(ticket => ({
+        id: ticket.id,
+        serial: ticket.serial,
+        tierName: tiers.find(t => t.id === ticket.tierId)?.name || null,
+        status: ticket.status,
+        holderEmail: ticket.holderEmail,
+        usedAt: ticket.usedAt
+      })),
+      checkIns,
+      purchase: purchase ? { at: purchase.createdAt, ipAddress: purchase.ipAddress, userAgent: purchase.userAgent } : null,
+      accessLog,
+      stripeEvidence: {
+        customer_name: order.buyerName,
+        customer_email_address: order.buyerEmail,
+        customer_purchase_ip: purchase?.ipAddress || null,
+        product_description: event
+          ? `${ticketLines.length} ticket${ticketLines.length === 1 ? '' : 's'} to ${event.title}${event.venue ? ` at ${event.venue}` : ''} on ${new Date(event.startAt).toISOString().split('T')[0]}: ${ticketLines.join(', ')}. Total ${money(order.totalCents)}.`
+          : null,
+        service_date: event ? new Date(event.startAt).toISOString().split('T')[0] : null,
+        access_activity_log: checkIns.length > 0
+          ? checkIns.map(c => `${c.serial} scanned in at ${new Date(c.checkedInAt!).toISOString()}${c.checkedInBy ? ` by ${c.checkedInBy}` : ''}`).join('\n')
+          : 'No tickets on this order have been scanned in yet.',
+        refund_policy_disclosure: event?.allowRefundsUntil
+          ? `Refunds were available on request until ${new Date(event.allowRefundsUntil).toISOString().split('T')[0]}.`
+          : null
+      }
+    };
+  }
+}
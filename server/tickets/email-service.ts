@@ -7,9 +7,12 @@ import type {
   TicketsTicket, 
   TicketsEvent,
   TicketsTier,
-  TicketsOrderItem
+  TicketsOrderItem,
+  TicketsVoucher
 } from '@shared/schema';
 import { ticketsStorage } from './tickets-storage';
+import { QrSigningService } from './qr-signing';
+import { WalletService } from './wallet-service';
 
 // Initialize SendGrid
 const initSendGrid = () => {
@@ -22,14 +25,10 @@ const initSendGrid = () => {
   return true;
 };
 
-// Generate QR code as base64 data URL
-const generateQRCodeDataURL = async (ticketId: string, qrToken: string, forPDF: boolean = false): Promise<string> => {
+// Generate QR code as base64 data URL - encodes the signed ticket code so scanners can verify offline
+const generateQRCodeDataURL = async (ticket: TicketsTicket, eventId: string, forPDF: boolean = false): Promise<string> => {
   try {
-    const qrData = JSON.stringify({
-      ticketId,
-      token: qrToken,
-      verifyUrl: `${process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com'}/api/tickets/validate?token=${qrToken}`
-    });
+    const qrData = QrSigningService.signTicket(ticket, eventId);
     
     const dataURL = await QRCode.toDataURL(qrData, {
       errorCorrectionLevel: 'M',
@@ -124,7 +123,7 @@ const generateTicketPDF = async (
       
       // Ticket tier card with copper border
       const cardY = y;
-      const cardHeight = 100;
+      const cardHeight = ticket.seatLabel ? 120 : 100;
       
       // Card background
       doc.rect(50, cardY, doc.page.width - 100, cardHeight)
@@ -147,6 +146,14 @@ const generateTicketPDF = async (
          .fillColor('#E8C4A0')
          .text(`Serial: ${ticket.serial}`, 70, cardY + 70);
       
+      // Reserved seat
+      if (ticket.seatLabel) {
+        doc.fontSize(12)
+           .fillColor('#FFFFFF')
+           .font('Helvetica-Bold')
+           .text(`SEAT: ${ticket.seatLabel}`, 70, cardY + 92);
+      }
+      
       // Status badge
       const statusX = doc.page.width - 150;
       doc.rect(statusX, cardY + 25, 80, 30)
@@ -160,7 +167,7 @@ const generateTicketPDF = async (
       y = cardY + cardHeight + 50;
       
       // QR Code section
-      const qrDataURL = await generateQRCodeDataURL(ticket.id, ticket.qrToken, true);
+      const qrDataURL = await generateQRCodeDataURL(ticket, event.id, true);
       const qrBuffer = Buffer.from(qrDataURL.split(',')[1], 'base64');
       
       // QR Code background card
@@ -277,7 +284,8 @@ const generateTicketEmailHTML = async (
     tier: TicketsTier;
     orderItem: TicketsOrderItem;
   }>,
-  organizer?: any
+  organizer?: any,
+  addons: Array<{ tier: TicketsTier; quantity: number; vouchers: TicketsVoucher[] }> = []
 ): Promise<string> => {
   const baseUrl = process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com';
   const eventDate = format(new Date(event.startAt), 'EEEE, MMMM d, yyyy');
@@ -285,8 +293,8 @@ const generateTicketEmailHTML = async (
   
   // Generate QR codes for all tickets
   const ticketsWithQR = await Promise.all(tickets.map(async ({ ticket, tier }) => {
-    const qrDataURL = await generateQRCodeDataURL(ticket.id, ticket.qrToken);
-    return { ticket, tier, qrDataURL };
+    const qrDataURL = await generateQRCodeDataURL(ticket, event.id);
+    return { ticket, tier, qrDataURL, wallet: WalletService.passLinks(ticket) };
   }));
   
   const googleCalendarUrl = generateGoogleCalendarUrl(event);
@@ -504,6 +512,11 @@ const generateTicketEmailHTML = async (
       font-weight: 500;
     }
     
+    .qr-container .wallet-links a {
+      color: #E8C4A0;
+      text-decoration: underline;
+    }
+    
     .action-buttons {
       display: flex;
       gap: 16px;
@@ -693,12 +706,13 @@ const generateTicketEmailHTML = async (
       <!-- Tickets -->
       <div class="tickets-section">
         <h3>Your Tickets</h3>
-        ${ticketsWithQR.map(({ ticket, tier, qrDataURL }, index) => `
+        ${ticketsWithQR.map(({ ticket, tier, qrDataURL, wallet }, index) => `
           <div class="ticket-card">
             <div class="ticket-header">
               <div class="ticket-info">
                 <h4>${tier.name}</h4>
                 <p>Ticket ${index + 1} of ${tickets.length} • Serial: ${ticket.serial}</p>
+                ${ticket.seatLabel ? `<p><strong>Seat: ${ticket.seatLabel}</strong></p>` : ''}
               </div>
               <span class="ticket-status">${ticket.status}</span>
             </div>
@@ -706,11 +720,35 @@ const generateTicketEmailHTML = async (
             <div class="qr-container">
               <img src="${qrDataURL}" alt="Ticket QR Code" />
               <p>Show this QR code at the venue for entry</p>
+              ${wallet.appleUrl || wallet.googleUrl ? `
+              <p class="wallet-links">
+                ${wallet.appleUrl ? `<a href="${wallet.appleUrl}">Add to Apple Wallet</a>` : ''}
+                ${wallet.appleUrl && wallet.googleUrl ? ' • ' : ''}
+                ${wallet.googleUrl ? `<a href="${wallet.googleUrl}">Save to Google Wallet</a>` : ''}
+              </p>` : ''}
             </div>
           </div>
         `).join('')}
       </div>
       
+      ${addons.length > 0 ? `
+      <!-- Add-ons -->
+      <div class="order-summary">
+        <h3>Add-ons</h3>
+        ${addons.map(({ tier, quantity, vouchers }) => `
+          <div class="order-details">
+            <span>${tier.name}</span>
+            <span>&times; ${quantity}</span>
+          </div>
+          ${vouchers.length > 0 ? `
+          <p style="margin: 0 0 14px; font-size: 14px; color: #A89584;">
+            Voucher${vouchers.length === 1 ? '' : 's'}: ${vouchers.map(v => `<strong style="font-family: monospace; color: #E8C4A0;">${v.code}</strong>`).join(', ')}
+          </p>` : ''}
+        `).join('')}
+        <p style="margin: 0; font-size: 13px; color: #A89584;">Show voucher codes at the venue to collect your items.</p>
+      </div>
+      ` : ''}
+      
       <!-- Action Buttons -->
       <div class="action-buttons">
         <a href="${baseUrl}/my-tickets" class="button button-primary">View All Tickets</a>
@@ -798,10 +836,16 @@ export async function sendTicketEmail(
     
     // Get order items and tickets
     const orderItems = await ticketsStorage.getOrderItems(orderId);
+    const vouchers = await ticketsStorage.getVouchersByOrder(orderId);
     const tickets = [];
+    const addons = [];
     
     for (const item of orderItems) {
       const tier = await ticketsStorage.getTierById(item.tierId);
+      if (tier?.kind === 'addon') {
+        addons.push({ tier, quantity: item.quantity, vouchers: vouchers.filter(v => v.orderItemId === item.id) });
+        continue;
+      }
       const itemTickets = await ticketsStorage.getTicketsByOrderItem(item.id);
       
       for (const ticket of itemTickets) {
@@ -817,7 +861,7 @@ export async function sendTicketEmail(
     }
     
     // Generate email HTML
-    const html = await generateTicketEmailHTML(order, event, tickets, organizer);
+    const html = await generateTicketEmailHTML(order, event, tickets, organizer, addons);
     
     // Generate PDF tickets
     const attachments = [];
@@ -1459,7 +1503,7 @@ export async function sendTransferEmails(
     const eventTime = format(new Date(event.startAt), 'h:mm a');
     
     // Generate QR code for new ticket as base64 (without data:image/png;base64, prefix)
-    const qrCodeDataURL = await generateQRCodeDataURL(newTicket.id, newTicket.qrToken);
+    const qrCodeDataURL = await generateQRCodeDataURL(newTicket, event.id);
     const qrCodeBase64 = qrCodeDataURL.split(',')[1]; // Extract base64 data without the data URL prefix
     
     // Send email to old holder
@@ -1868,6 +1912,12 @@ export async function sendTransferEmails(
           <span class="info-label">Your Ticket #</span>
           <span class="info-value">${newTicket.serial}</span>
         </div>
+        ${newTicket.seatLabel ? `
+        <div class="info-row">
+          <span class="info-label">Seat</span>
+          <span class="info-value">${newTicket.seatLabel}</span>
+        </div>
+        ` : ''}
       </div>
       
       <div class="qr-section">
@@ -2089,3 +2139,343 @@ export async function sendBulkAttendeeEmail(params: {
     return false;
   }
 }
+
+// Render a short transactional notice (waitlist offers, request updates, etc.)
+// in the same dark Jugnu look as the ticket emails
+const generateNoticeEmailHTML = (params: {
+  heading: string;
+  subheading?: string;
+  greetingName?: string | null;
+  paragraphs: string[];
+  ctaUrl?: string;
+  ctaText?: string;
+  footnote?: string;
+}): string => {
+  const { heading, subheading, greetingName, paragraphs, ctaUrl, ctaText, footnote } = params;
+  
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    @import url('https://fonts.googleapis.com/css2?family=Fraunces:wght@600;700&family=Inter:wght@400;500;600&display=swap');
+    
+    * { box-sizing: border-box; }
+    
+    body {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      line-height: 1.6;
+      color: #E8C4A0;
+      margin: 0;
+      padding: 0;
+      background-color: #0B0B0F;
+    }
+    
+    .container { max-width: 600px; margin: 0 auto; background: #0B0B0F; }
+    
+    .header {
+      background: linear-gradient(135deg, #c0580f 0%, #d3541e 100%);
+      color: white;
+      padding: 50px 30px;
+      text-align: center;
+      border-bottom: 2px solid rgba(192, 88, 15, 0.3);
+    }
+    
+    .header h1 {
+      margin: 0;
+      font-family: 'Fraunces', Georgia, serif;
+      font-size: 24px;
+      font-weight: 700;
+      letter-spacing: -0.5px;
+    }
+    
+    .header p { margin: 12px 0 0; font-size: 14px; opacity: 0.9; }
+    
+    .content { padding: 40px 30px; }
+    
+    .greeting { font-size: 18px; color: #FFFFFF; margin-bottom: 16px; }
+    
+    .content p { color: #E8C4A0; font-size: 15px; }
+    
+    .button-container { text-align: center; margin: 32px 0; }
+    
+    .button {
+      display: inline-block;
+      background: linear-gradient(135deg, #c0580f 0%, #d3541e 100%);
+      color: #FFFFFF !important;
+      padding: 16px 36px;
+      border-radius: 12px;
+      text-decoration: none;
+      font-weight: 600;
+      font-size: 15px;
+    }
+    
+    .footnote {
+      color: #6B7280;
+      font-size: 13px;
+      margin-top: 28px;
+      padding-top: 20px;
+      border-top: 1px solid rgba(168, 149, 132, 0.15);
+    }
+    
+    .footer {
+      background: rgba(28, 28, 36, 0.4);
+      border-top: 2px solid rgba(192, 88, 15, 0.2);
+      padding: 32px 30px;
+      text-align: center;
+    }
+    
+    .footer p { margin: 0 0 12px; font-size: 13px; color: #6B7280; }
+    
+    .footer a { color: #c0580f; text-decoration: none; font-weight: 500; }
+    
+    .copyright { margin-top: 20px; font-size: 12px; color: #4B5563; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${heading}</h1>
+      ${subheading ? `<p>${subheading}</p>` : ''}
+    </div>
+    
+    <div class="content">
+      <p class="greeting">Hi ${greetingName || 'there'},</p>
+      ${paragraphs.map(p => `<p>${p}</p>`).join('\n      ')}
+      ${ctaUrl && ctaText ? `<div class="button-container"><a href="${ctaUrl}" class="button">${ctaText}</a></div>` : ''}
+      ${footnote ? `<p class="footnote">${footnote}</p>` : ''}
+    </div>
+    
+    <div class="footer">
+      <p>Questions? Contact us at <a href="mailto:support@thehouseofjugnu.com">support@thehouseofjugnu.com</a></p>
+      <p class="copyright">© ${new Date().getFullYear()} Jugnu. All rights reserved.<br>Vancouver, BC, Canada</p>
+    </div>
+  </div>
+</body>
+</html>`;
+};
+
+// Send waitlist offer email with a time-limited claim link
+export async function sendWaitlistOfferEmail(entryId: string): Promise<boolean> {
+  try {
+    if (!initSendGrid()) {
+      console.warn('[Tickets Email] SendGrid not configured, skipping waitlist offer email');
+      return false;
+    }
+    
+    const entry = await ticketsStorage.getWaitlistEntryById(entryId);
+    if (!entry || !entry.claimToken || !entry.offerExpiresAt) {
+      console.error('[Tickets Email] Waitlist offer not found:', entryId);
+      return false;
+    }
+    
+    const event = await ticketsStorage.getEventById(entry.eventId);
+    const tier = await ticketsStorage.getTierById(entry.tierId);
+    if (!event || !tier) {
+      console.error('[Tickets Email] Event or tier not found for waitlist entry:', entryId);
+      return false;
+    }
+    
+    const baseUrl = process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com';
+    const claimUrl = `${baseUrl}/tickets/event/${event.slug}?waitlist=${entry.claimToken}`;
+    const expiresDisplay = format(new Date(entry.offerExpiresAt), "EEEE, MMMM d 'at' h:mm a");
+    const ticketWord = entry.quantity === 1 ? 'ticket' : 'tickets';
+    
+    const html = generateNoticeEmailHTML({
+      heading: 'Tickets Are Available!',
+      subheading: event.title,
+      greetingName: entry.name,
+      paragraphs: [
+        `Good news - a spot opened up for <strong>${event.title}</strong>. We're holding <strong>${entry.quantity} ${tier.name} ${ticketWord}</strong> for you.`,
+        `Your hold expires on <strong>${expiresDisplay}</strong>. After that, the ${ticketWord} will be offered to the next person on the waitlist.`
+      ],
+      ctaUrl: claimUrl,
+      ctaText: `Claim My ${ticketWord.charAt(0).toUpperCase() + ticketWord.slice(1)}`,
+      footnote: "You're receiving this because you joined the waitlist for this event. If you no longer want these tickets, simply ignore this email."
+    });
+    
+    await sgMail.send({
+      to: entry.email,
+      from: {
+        email: process.env.SENDGRID_FROM_EMAIL || 'tickets@thehouseofjugnu.com',
+        name: 'Jugnu Tickets'
+      },
+      subject: `Your tickets are waiting - ${event.title}`,
+      html
+    });
+    
+    console.log(`[Tickets Email] Sent waitlist offer to ${entry.email} for entry ${entryId}`);
+    return true;
+  } catch (error) {
+    console.error('[Tickets Email] Error sending waitlist offer email:', error);
+    return false;
+  }
+}
+
+/**
+ * Tell a buyer where their refund request stands: received, refunded or declined
+ */
+export async function sendRefundRequestEmail(requestId: string): Promise<boolean> {
+  try {
+    if (!initSendGrid()) {
+      console.warn('[Tickets Email] SendGrid not configured, skipping refund request email');
+      return false;
+    }
+    
+    const request = await ticketsStorage.getRefundRequestById(requestId);
+    if (!request) {
+      console.error('[Tickets Email] Refund request not found:', requestId);
+      return false;
+    }
+    
+    const event = await ticketsStorage.getEventById(request.eventId);
+    const order = await ticketsStorage.getOrderById(request.orderId);
+    if (!event || !order) {
+      console.error('[Tickets Email] Event or order not found for refund request:', requestId);
+      return false;
+    }
+    
+    const baseUrl = process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com';
+    const ticketCount = (request.ticketIds as string[]).length;
+    const ticketWord = ticketCount === 1 ? 'ticket' : 'tickets';
+    const amountDisplay = `$${((request.approvedCents ?? request.requestedCents) / 100).toFixed(2)}`;
+    const note = request.decisionNote ? [`Note from the organizer: <em>${request.decisionNote}</em>`] : [];
+    
+    const content = request.status === 'approved'
+      ? {
+          heading: 'Refund Approved',
+          subject: `Your refund is on its way - ${event.title}`,
+          paragraphs: [
+            `Your refund request for <strong>${ticketCount} ${ticketWord}</strong> to <strong>${event.title}</strong> has been approved.`,
+            `We've refunded <strong>${amountDisplay}</strong> to your original payment method. It usually shows up within 5-10 business days. The refunded ${ticketWord} can no longer be used for entry.`,
+            ...note
+          ]
+        }
+      : request.status === 'declined'
+      ? {
+          heading: 'Refund Request Declined',
+          subject: `About your refund request - ${event.title}`,
+          paragraphs: [
+            `The organizer of <strong>${event.title}</strong> has declined your refund request for ${ticketCount} ${ticketWord}. Your ${ticketWord} ${ticketCount === 1 ? 'is' : 'are'} still valid for entry.`,
+            ...note
+          ]
+        }
+      : {
+          heading: 'Refund Request Received',
+          subject: `We got your refund request - ${event.title}`,
+          paragraphs: [
+            `We've passed your request to refund <strong>${ticketCount} ${ticketWord}</strong> (${amountDisplay}) for <strong>${event.title}</strong> to the organizer.`,
+            `You'll get another email once they've made a decision. Your ${ticketWord} stay${ticketCount === 1 ? 's' : ''} valid until then.`
+          ]
+        };
+    
+    const html = generateNoticeEmailHTML({
+      heading: content.heading,
+      subheading: event.title,
+      greetingName: order.buyerName,
+      paragraphs: content.paragraphs,
+      ctaUrl: `${baseUrl}/tickets/order/success?order_id=${order.id}`,
+      ctaText: 'View My Order',
+      footnote: `Order ${order.id.slice(0, 8).toUpperCase()}`
+    });
+    
+    await sgMail.send({
+      to: request.buyerEmail,
+      from: {
+        email: process.env.SENDGRID_FROM_EMAIL || 'tickets@thehouseofjugnu.com',
+        name: 'Jugnu Tickets'
+      },
+      subject: content.subject,
+      html
+    });
+    
+    console.log(`[Tickets Email] Sent refund request ${request.status} email to ${request.buyerEmail} for request ${requestId}`);
+    return true;
+  } catch (error) {
+    console.error('[Tickets Email] Error sending refund request email:', error);
+    return false;
+  }
+}
+
+/**
+ * Tell an organizer a buyer has disputed a charge, and again once the dispute is decided
+ */
+export async function sendDisputeEmail(disputeId: string): Promise<boolean> {
+  try {
+    if (!initSendGrid()) {
+      console.warn('[Tickets Email] SendGrid not configured, skipping dispute email');
+      return false;
+    }
+    
+    const dispute = await ticketsStorage.getDisputeById(disputeId);
+    if (!dispute) {
+      console.error('[Tickets Email] Dispute not found:', disputeId);
+      return false;
+    }
+    
+    const order = await ticketsStorage.getOrderById(dispute.orderId);
+    const event = order ? await ticketsStorage.getEventById(order.eventId) : null;
+    const organizer = await ticketsStorage.getOrganizerById(dispute.organizerId);
+    if (!order || !event || !organizer?.email) {
+      console.error('[Tickets Email] Order, event or organizer email not found for dispute:', disputeId);
+      return false;
+    }
+    
+    const baseUrl = process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com';
+    const amountDisplay = `$${(dispute.amountCents / 100).toFixed(2)}`;
+    const reason = dispute.reason.replace(/_/g, ' ');
+    const orderRef = order.id.slice(0, 8).toUpperCase();
+    
+    const content = !dispute.closedAt
+      ? {
+          heading: 'A Buyer Disputed a Charge',
+          subject: `Dispute opened on order ${orderRef} - ${event.title}`,
+          paragraphs: [
+            `<strong>${order.buyerName || order.buyerEmail}</strong> has disputed their <strong>${amountDisplay}</strong> payment for <strong>${event.title}</strong> with their card issuer (reason: ${reason}).`,
+            `We've blocked the tickets on this order so they can't be used at the door while the dispute is open.`,
+            dispute.evidenceDueBy
+              ? `Evidence is due by <strong>${format(new Date(dispute.evidenceDueBy), "EEEE, MMMM d 'at' h:mm a")}</strong>. We've put together the order details, check-in record and purchase IP for you - review it from your payouts page.`
+              : `We've put together the order details, check-in record and purchase IP in case the issuer asks for evidence - review it from your payouts page.`
+          ]
+        }
+      : {
+          heading: dispute.status === 'lost' ? 'Dispute Lost' : 'Dispute Closed',
+          subject: `Dispute ${dispute.status === 'lost' ? 'lost' : 'closed'} on order ${orderRef} - ${event.title}`,
+          paragraphs: dispute.status === 'lost'
+            ? [
+                `The card issuer sided with the buyer on the ${amountDisplay} dispute for <strong>${event.title}</strong>. The chargeback stays on your payouts and the order's tickets remain blocked.`
+              ]
+            : [
+                `The ${amountDisplay} dispute for <strong>${event.title}</strong> has closed in your favour.`,
+                `${dispute.fundsReinstatedAt ? 'The chargeback has been reversed on your payouts and the' : 'The'} order's tickets are valid for entry again.`
+              ]
+        };
+    
+    const html = generateNoticeEmailHTML({
+      heading: content.heading,
+      subheading: event.title,
+      greetingName: organizer.businessName,
+      paragraphs: content.paragraphs,
+      ctaUrl: `${baseUrl}/tickets/organizer/payouts`,
+      ctaText: 'View Dispute',
+      footnote: `Order ${orderRef}`
+    });
+    
+    await sgMail.send({
+      to: organizer.email,
+      from: {
+        email: process.env.SENDGRID_FROM_EMAIL || 'tickets@thehouseofjugnu.com',
+        name: 'Jugnu Tickets'
+      },
+      subject: content.subject,
+      html
+    });
+    
+    console.log(`[Tickets Email] Sent dispute ${dispute.status} email to organizer ${dispute.organizerId} for dispute ${disputeId}`);
+    return true;
+  } catch (error) {
+    console.error('[Tickets Email] Error sending dispute email:', error);
+    return false;
+  }
+}
@@ -0,0 +1,443 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { OrganizerWebhookService } from "./organizer-webhook-service";
+import { ApiKeyService } from "./api-key-service";
+import { organizerWebhookSchema, updateOrganizerWebhookSchema, apiKeySchema } from "./validation";
+import { WEBHOOK_EVENT_TYPES, API_KEY_SCOPES, type ApiKeyScope, type TicketsApiKey, type TicketsOrganizerWebhook } from '@shared/schema';
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+// Public API calls authenticate with `Authorization: Bearer <key>` and need the key to carry the scope
+const requireApiKey = (scope: ApiKeyScope) => async (req: Request & { apiKey?: TicketsApiKey }, res: Response, next: any) => {
+  try {
+    const key = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+    const apiKey = key ? await ApiKeyService.authenticate(key) : null;
+    if (!apiKey) {
+      return res.status(401).json({ ok: false, error: 'Invalid or revoked API key' });
+    }
+    if (!ApiKeyService.hasScope(apiKey, scope)) {
+      return res.status(403).json({ ok: false, error: `This API key doesn't have the ${scope} permission` });
+    }
+
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    console.error('Error checking API key:', error);
+    res.status(500).json({ ok: false, error: 'Failed to check API key' });
+  }
+};
+
+// Secrets and key hashes never leave the server after creation
+const publicWebhook = ({ secret, ...webhook }: TicketsOrganizerWebhook) => webhook;
+const publicApiKey = ({ keyHash, ...apiKey }: TicketsApiKey) => apiKey;
+
+const loadOwnedWebhook = async (req: Request & { organizer?: any }, res: Response): Promise<TicketsOrganizerWebhook | null> => {
+  const webhook = await ticketsStorage.getOrganizerWebhookById(req.params.webhookId);
+  if (!webhook || webhook.organizerId !== req.organizer.id) {
+    res.status(404).json({ ok: false, error: 'Webhook not found' });
+    return null;
+  }
+  return webhook;
+};
+
+// An event the API key's organizer owns, or a 404
+const loadApiEvent = async (req: Request & { apiKey?: TicketsApiKey }, res: Response) => {
+  const event = await ticketsStorage.getEventById(req.params.eventId);
+  if (!event || event.organizerId !== req.apiKey!.organizerId) {
+    res.status(404).json({ ok: false, error: 'Event not found' });
+    return null;
+  }
+  return event;
+};
+
+export function addIntegrationRoutes(app: Express) {
+
+  // ============ WEBHOOK ENDPOINTS ============
+
+  app.get('/api/tickets/organizers/webhooks', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const webhooks = await ticketsStorage.getOrganizerWebhooks(req.organizer.id);
+      res.json({ ok: true, webhooks: webhooks.map(publicWebhook), eventTypes: WEBHOOK_EVENT_TYPES });
+    } catch (error) {
+      console.error('Error listing webhooks:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load webhooks' });
+    }
+  });
+
+  // The signing secret is only returned here and when it's rotated
+  app.post('/api/tickets/organizers/webhooks', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const data = organizerWebhookSchema.parse(req.body);
+      const refused = await OrganizerWebhookService.checkEndpoint(data.url);
+      if (refused) {
+        return res.status(400).json({ ok: false, error: refused });
+      }
+
+      const webhook = await ticketsStorage.createOrganizerWebhook({
+        organizerId: req.organizer.id,
+        url: data.url,
+        eventTypes: data.eventTypes,
+        description: data.description || null,
+        secret: OrganizerWebhookService.generateSecret(),
+        isActive: true
+      });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'webhook_created',
+        targetType: 'organizer_webhook',
+        targetId: webhook.id,
+        metaJson: { url: webhook.url, eventTypes: webhook.eventTypes },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, webhook: publicWebhook(webhook), secret: webhook.secret });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid webhook' });
+      }
+      console.error('Error creating webhook:', error);
+      res.status(500).json({ ok: false, error: 'Failed to create webhook' });
+    }
+  });
+
+  app.patch('/api/tickets/organizers/webhooks/:webhookId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const data = updateOrganizerWebhookSchema.parse(req.body);
+      const webhook = await loadOwnedWebhook(req, res);
+      if (!webhook) return;
+
+      if (data.url) {
+        const refused = await OrganizerWebhookService.checkEndpoint(data.url);
+        if (refused) {
+          return res.status(400).json({ ok: false, error: refused });
+        }
+      }
+
+      const updated = await ticketsStorage.updateOrganizerWebhook(webhook.id, data);
+      res.json({ ok: true, webhook: publicWebhook(updated) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid webhook' });
+      }
+      console.error('Error updating webhook:', error);
+      res.status(500).json({ ok: false, error: 'Failed to update webhook' });
+    }
+  });
+
+  app.delete('/api/tickets/organizers/webhooks/:webhookId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const webhook = await loadOwnedWebhook(req, res);
+      if (!webhook) return;
+
+      await ticketsStorage.deleteOrganizerWebhook(webhook.id);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'webhook_deleted',
+        targetType: 'organizer_webhook',
+        targetId: webhook.id,
+        metaJson: { url: webhook.url },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      res.status(500).json({ ok: false, error: 'Failed to delete webhook' });
+    }
+  });
+
+  // Deliveries already queued are signed with the new secret when they're retried
+  app.post('/api/tickets/organizers/webhooks/:webhookId/rotate-secret', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const webhook = await loadOwnedWebhook(req, res);
+      if (!webhook) return;
+
+      const updated = await ticketsStorage.updateOrganizerWebhook(webhook.id, { secret: OrganizerWebhookService.generateSecret() });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'webhook_secret_rotated',
+        targetType: 'organizer_webhook',
+        targetId: webhook.id,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, secret: updated.secret });
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+      res.status(500).json({ ok: false, error: 'Failed to rotate secret' });
+    }
+  });
+
+  app.post('/api/tickets/organizers/webhooks/:webhookId/test', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const webhook = await loadOwnedWebhook(req, res);
+      if (!webhook) return;
+
+      const delivery = await OrganizerWebhookService.sendTest(webhook);
+      res.json({ ok: true, delivery });
+    } catch (error) {
+      console.error('Error sending test webhook:', error);
+      res.status(500).json({ ok: false, error: 'Failed to send test delivery' });
+    }
+  });
+
+  // Delivery log - the last 50 events sent to the endpoint
+  app.get('/api/tickets/organizers/webhooks/:webhookId/deliveries', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const webhook = await loadOwnedWebhook(req, res);
+      if (!webhook) return;
+
+      const deliveries = await ticketsStorage.getWebhookDeliveries(webhook.id);
+      res.json({ ok: true, deliveries });
+    } catch (error) {
+      console.error('Error listing webhook deliveries:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load deliveries' });
+    }
+  });
+
+  app.post('/api/tickets/organizers/webhook-deliveries/:deliveryId/redeliver', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const delivery = await ticketsStorage.getWebhookDeliveryById(req.params.deliveryId);
+      const webhook = delivery ? await ticketsStorage.getOrganizerWebhookById(delivery.webhookId) : null;
+      if (!delivery || !webhook || webhook.organizerId !== req.organizer.id) {
+        return res.status(404).json({ ok: false, error: 'Delivery not found' });
+      }
+
+      const redelivered = await OrganizerWebhookService.redeliver(delivery);
+      res.json({ ok: true, delivery: redelivered });
+    } catch (error) {
+      console.error('Error redelivering webhook:', error);
+      res.status(500).json({ ok: false, error: 'Failed to redeliver' });
+    }
+  });
+
+  // ============ API KEYS ============
+
+  app.get('/api/tickets/organizers/api-keys', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const apiKeys = await ticketsStorage.getApiKeysByOrganizer(req.organizer.id);
+      res.json({ ok: true, apiKeys: apiKeys.map(publicApiKey), scopes: API_KEY_SCOPES });
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load API keys' });
+    }
+  });
+
+  // The key itself is returned once, here
+  app.post('/api/tickets/organizers/api-keys', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const data = apiKeySchema.parse(req.body);
+      const { key, keyPrefix, keyHash } = ApiKeyService.generate();
+      const apiKey = await ticketsStorage.createApiKey({
+        organizerId: req.organizer.id,
+        name: data.name,
+        scopes: data.scopes,
+        keyPrefix,
+        keyHash
+      });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'api_key_created',
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        metaJson: { name: apiKey.name, scopes: apiKey.scopes },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, apiKey: publicApiKey(apiKey), key });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid API key' });
+      }
+      console.error('Error creating API key:', error);
+      res.status(500).json({ ok: false, error: 'Failed to create API key' });
+    }
+  });
+
+  app.delete('/api/tickets/organizers/api-keys/:keyId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const apiKeys = await ticketsStorage.getApiKeysByOrganizer(req.organizer.id);
+      const apiKey = apiKeys.find(k => k.id === req.params.keyId);
+      if (!apiKey) {
+        return res.status(404).json({ ok: false, error: 'API key not found' });
+      }
+
+      if (!apiKey.revokedAt) {
+        await ticketsStorage.updateApiKey(apiKey.id, { revokedAt: new Date() });
+        await ticketsStorage.createAuditLog({
+          actorType: 'organizer',
+          actorId: req.organizer.id,
+          action: 'api_key_revoked',
+          targetType: 'api_key',
+          targetId: apiKey.id,
+          metaJson: { name: apiKey.name },
+          ipAddress: req.ip,
+          userAgent: req.headers['user-agent']
+        });
+      }
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      res.status(500).json({ ok: false, error: 'Failed to revoke API key' });
+    }
+  });
+
+  // ============ PUBLIC API (v1) ============
+  // Read-only access to the key owner's events, orders and attendees
+
+  app.get('/api/tickets/v1/events', requireTicketing, requireApiKey('events:read'), async (req: Request & { apiKey?: TicketsApiKey }, res: Response) => {
+    try {
+      const events = await ticketsStorage.getEventsByOrganizer(req.apiKey!.organizerId);
+      res.json({ ok: true, events: events.map(OrganizerWebhookService.serializeEvent) });
+    } catch (error) {
+      console.error('[API v1] Error listing events:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load events' });
+    }
+  });
+
+  app.get('/api/tickets/v1/events/:eventId', requireTicketing, requireApiKey('events:read'), async (req: Request & { apiKey?: TicketsApiKey }, res: Response) => {
+    try {
+      const event = await loadApiEvent(req, res);
+      if (!event) return;
+
+      const tiers = await ticketsStorage.getTiersByEvent(event.id);
+      res.json({
+        ok: true,
+        event: {
+          ...OrganizerWebhookService.serializeEvent(event),
+          tiers: tiers.map(tier => ({
+            id: tier.id,
+            name: tier.name,
+            kind: tier.kind,
+            priceCents: tier.priceCents,
+            currency: tier.currency,
+            capacity: tier.capacity
+          }))
+        }
+      });
+    } catch (error) {
+      console.error('[API v1] Error getting event:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load event' });
+    }
+  });
+
+  // ?status=paid and ?since=<ISO date> narrow the list, e.g. to sync only new orders
+  app.get('/api/tickets/v1/events/:eventId/orders', requireTicketing, requireApiKey('orders:read'), async (req: Request & { apiKey?: TicketsApiKey }, res: Response) => {
+    try {
+      const event = await loadApiEvent(req, res);
+      if (!event) return;
+
+      const since = req.query.since ? new Date(req.query.since as string) : null;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ ok: false, error: 'since must be an ISO date' });
+      }
+
+      const orders = (await ticketsStorage.getOrdersByEvent(event.id)).filter(order =>
+        (!req.query.status || order.status === req.query.status) &&
+        (!since || new Date(order.createdAt) >= since)
+      );
+      res.json({ ok: true, orders: orders.map(OrganizerWebhookService.serializeOrder) });
+    } catch (error) {
+      console.error('[API v1] Error listing orders:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load orders' });
+    }
+  });
+
+  app.get('/api/tickets/v1/orders/:orderId', requireTicketing, requireApiKey('orders:read'), async (req: Request & { apiKey?: TicketsApiKey }, res: Response) => {
+    try {
+      const order = await ticketsStorage.getOrderById(req.params.orderId);
+      const event = order ? await ticketsStorage.getEventById(order.eventId) : null;
+      if (!order || !event || event.organizerId !== req.apiKey!.organizerId) {
+        return res.status(404).json({ ok: false, error: 'Order not found' });
+      }
+
+      const tickets = await ticketsStorage.getTicketsByOrderId(order.id);
+      const tiers = await ticketsStorage.getTiersByEvent(event.id);
+      res.json({
+        ok: true,
+        order: {
+          ...OrganizerWebhookService.serializeOrder(order),
+          tickets: tickets.map(ticket => OrganizerWebhookService.serializeTicket(ticket, tiers.find(t => t.id === ticket.tierId) || null, order))
+        }
+      });
+    } catch (error) {
+      console.error('[API v1] Error getting order:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load order' });
+    }
+  });
+
+  // The door list - who holds each ticket now and whether they're in
+  app.get('/api/tickets/v1/events/:eventId/attendees', requireTicketing, requireApiKey('attendees:read'), async (req: Request & { apiKey?: TicketsApiKey }, res: Response) => {
+    try {
+      const event = await loadApiEvent(req, res);
+      if (!event) return;
+
+      const attendees = await ticketsStorage.getEventAttendees(event.id, { status: req.query.status as string });
+      res.json({
+        ok: true,
+        attendees: attendees.map(a => ({
+          ticketId: a.ticketId,
+          orderId: a.orderId,
+          serial: a.serial,
+          status: a.status,
+          tierName: a.tierName,
+          seatLabel: a.seatLabel,
+          occurrenceId: a.occurrenceId,
+          name: a.buyerName,
+          email: a.buyerEmail,
+          phone: a.buyerPhone,
+          checkedInAt: a.checkedInAt,
+          placedAt: a.placedAt
+        }))
+      });
+    } catch (error) {
+      console.error('[API v1] Error listing attendees:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load attendees' });
+    }
+  });
+}
@@ -0,0 +1,236 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { OccurrenceService, MAX_OCCURRENCES, type RecurrenceRule } from "./occurrence-service";
+import { WalletService } from "./wallet-service";
+import { addOccurrencesSchema, updateOccurrenceSchema } from "./validation";
+import type { InsertTicketsEventOccurrence } from "@shared/schema";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+export function addOccurrenceRoutes(app: Express) {
+
+  const loadOwnedEvent = async (req: Request & { organizer?: any }, res: Response) => {
+    const event = await ticketsStorage.getEventById(req.params.eventId);
+    if (!event || event.organizerId !== req.organizer.id) {
+      res.status(403).json({ ok: false, error: 'Access denied' });
+      return null;
+    }
+    return event;
+  };
+
+  const loadOccurrence = async (req: Request, res: Response) => {
+    const occurrence = await ticketsStorage.getOccurrenceById(req.params.occurrenceId);
+    if (!occurrence || occurrence.eventId !== req.params.eventId) {
+      res.status(404).json({ ok: false, error: 'Date not found' });
+      return null;
+    }
+    return occurrence;
+  };
+
+  // An event's dates with sales and check-ins for each
+  app.get('/api/tickets/events/:eventId/occurrences', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+
+      const [occurrences, tiers] = await Promise.all([
+        ticketsStorage.getOccurrencesByEvent(event.id),
+        ticketsStorage.getTiersByEvent(event.id)
+      ]);
+
+      res.json({
+        ok: true,
+        recurrenceRule: event.recurrenceRule,
+        occurrences: await OccurrenceService.getOccurrenceStats(event.id, occurrences, tiers)
+      });
+    } catch (error) {
+      console.error('Error fetching occurrences:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch event dates' });
+    }
+  });
+
+  // Add dates, either listed out or generated from a repeat rule
+  app.post('/api/tickets/events/:eventId/occurrences', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { dates, rule, firstStartAt, durationMinutes } = addOccurrencesSchema.parse(req.body);
+
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+
+      if (await ticketsStorage.getSeatMapByEvent(event.id)) {
+        return res.status(400).json({ ok: false, error: "Events with reserved seating can't have multiple dates" });
+      }
+
+      let toCreate: InsertTicketsEventOccurrence[];
+      if (rule) {
+        const durationMs = durationMinutes ? durationMinutes * 60 * 1000 : null;
+        toCreate = OccurrenceService.expandRule(rule as RecurrenceRule, new Date(firstStartAt!)).map(startAt => ({
+          eventId: event.id,
+          startAt,
+          endAt: durationMs ? new Date(startAt.getTime() + durationMs) : null,
+          status: 'scheduled'
+        }));
+      } else {
+        toCreate = dates!.map(date => ({
+          eventId: event.id,
+          startAt: new Date(date.startAt),
+          endAt: date.endAt ? new Date(date.endAt) : null,
+          status: 'scheduled'
+        }));
+      }
+
+      if (toCreate.length === 0) {
+        return res.status(400).json({ ok: false, error: 'That repeat rule doesn\'t produce any dates' });
+      }
+
+      const existing = await ticketsStorage.getOccurrencesByEvent(event.id);
+      if (existing.length + toCreate.length > MAX_OCCURRENCES) {
+        return res.status(400).json({ ok: false, error: `An event can have at most ${MAX_OCCURRENCES} dates` });
+      }
+
+      const created = await ticketsStorage.createOccurrences(toCreate);
+      if (rule) {
+        await ticketsStorage.updateEvent(event.id, { recurrenceRule: rule });
+      }
+      await OccurrenceService.syncEventDates(event);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'occurrences_added',
+        targetType: 'event',
+        targetId: event.id,
+        metaJson: { count: created.length, skipped: toCreate.length - created.length, rule: rule || null },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, created: created.length, skipped: toCreate.length - created.length, occurrences: created });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid dates' });
+      }
+      console.error('Error adding occurrences:', error);
+      res.status(500).json({ ok: false, error: 'Failed to add event dates' });
+    }
+  });
+
+  // Move, cancel or reinstate a date
+  app.patch('/api/tickets/events/:eventId/occurrences/:occurrenceId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { startAt, endAt, status } = updateOccurrenceSchema.parse(req.body);
+
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+      const occurrence = await loadOccurrence(req, res);
+      if (!occurrence) return;
+
+      const updates: Partial<InsertTicketsEventOccurrence> = {};
+      if (startAt !== undefined) updates.startAt = new Date(startAt);
+      if (endAt !== undefined) updates.endAt = endAt ? new Date(endAt) : null;
+      if (status !== undefined) updates.status = status;
+
+      const start = updates.startAt ?? new Date(occurrence.startAt);
+      const end = updates.endAt !== undefined ? updates.endAt : occurrence.endAt && new Date(occurrence.endAt);
+      if (end && end <= start) {
+        return res.status(400).json({ ok: false, error: 'End time must be after the start time' });
+      }
+
+      let updated;
+      try {
+        updated = await ticketsStorage.updateOccurrence(occurrence.id, updates);
+      } catch (error: any) {
+        if (error.code === '23505') {
+          return res.status(409).json({ ok: false, error: 'The event already has a date at that time' });
+        }
+        throw error;
+      }
+      await OccurrenceService.syncEventDates(event);
+      await WalletService.eventChanged(event.id);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: status === 'canceled' ? 'occurrence_canceled' : status === 'scheduled' && occurrence.status === 'canceled' ? 'occurrence_reinstated' : 'occurrence_updated',
+        targetType: 'event',
+        targetId: event.id,
+        metaJson: { occurrenceId: occurrence.id, startAt: updated.startAt, previousStartAt: occurrence.startAt, changes: Object.keys(updates) },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, occurrence: updated });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid date' });
+      }
+      console.error('Error updating occurrence:', error);
+      res.status(500).json({ ok: false, error: 'Failed to update event date' });
+    }
+  });
+
+  // Remove a date nobody has bought tickets for
+  app.delete('/api/tickets/events/:eventId/occurrences/:occurrenceId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+      const occurrence = await loadOccurrence(req, res);
+      if (!occurrence) return;
+
+      if (await ticketsStorage.countOccurrenceOrders(occurrence.id) > 0) {
+        return res.status(409).json({ ok: false, error: 'Tickets have already been sold for this date - cancel it instead' });
+      }
+
+      await ticketsStorage.deleteOccurrence(occurrence.id);
+      await OccurrenceService.syncEventDates(event);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'occurrence_deleted',
+        targetType: 'event',
+        targetId: event.id,
+        metaJson: { occurrenceId: occurrence.id, startAt: occurrence.startAt },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error deleting occurrence:', error);
+      res.status(500).json({ ok: false, error: 'Failed to delete event date' });
+    }
+  });
+}
@@ -0,0 +1,320 @@
+import { ticketsStorage } from './tickets-storage';
+import type { TicketsEvent, TicketsEventOccurrence, TicketsTier, TicketsOccurrenceCheckin } from '@shared/schema';
+
+// Recurring dates are stepped on the local calendar so a weekly 9pm show stays at 9pm across DST
+const SERIES_TIME_ZONE = process.env.CITY_TZ || 'America/Vancouver';
+
+// A series can't expand to more dates than this in one go
+export const MAX_OCCURRENCES = 200;
+
+// Same default window the check-in endpoints use for one-off events
+const CHECKIN_WINDOW_HOURS = 2;
+
+// Occurrences without an end time stay open for check-in this long after they start
+const DEFAULT_OCCURRENCE_HOURS = 12;
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval?: number; // every n days, weeks or months
+  count?: number | null; // stop after this many dates
+  until?: string | null; // no dates starting after this
+  weekdays?: number[] | null; // weekly only - 0 = Sunday; defaults to the first date's weekday
+}
+
+interface WallTime {
+  year: number;
+  month: number; // 0-11
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export type OccurrenceCheckinState =
+  | { state: 'valid' }
+  | { state: 'used'; checkedInAt: string | null; checkedInBy: string | null }
+  | { state: 'wrong_occurrence'; occurrence: TicketsEventOccurrence | null };
+
+function wallTimeOf(date: Date, timeZone: string): WallTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month') - 1, day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+// The instant a local wall-clock time happens in the time zone
+function fromWallTime(wall: WallTime, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute);
+  const offsetAt = (instant: number) => {
+    const local = wallTimeOf(new Date(instant), timeZone);
+    return Date.UTC(local.year, local.month, local.day, local.hour, local.minute) - instant;
+  };
+  const guess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(guess));
+}
+
+// Calendar arithmetic on a wall time; Date.UTC rolls over months and years for us
+function shiftWallTime(wall: WallTime, days: number, months: number = 0): WallTime {
+  const shifted = new Date(Date.UTC(wall.year, wall.month + months, wall.day + days));
+  return { ...wall, year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+}
+
+export class OccurrenceService {
+  /**
+   * Start times for a recurrence rule, beginning with `firstStartAt`
+   */
+  static expandRule(rule: RecurrenceRule, firstStartAt: Date, timeZone: string = SERIES_TIME_ZONE): Date[] {
+    const interval = Math.max(1, rule.interval || 1);
+    const until = rule.until ? new Date(rule.until) : null;
+    const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+    const first = wallTimeOf(firstStartAt, timeZone);
+    const dates: Date[] = [];
+
+    const push = (wall: WallTime) => {
+      const date = fromWallTime(wall, timeZone);
+      if (until && date > until) return false;
+      dates.push(date);
+      return dates.length < limit;
+    };
+
+    if (rule.frequency === 'weekly' && rule.weekdays && rule.weekdays.length > 0) {
+      // Walk day by day from the start of the first date's week, keeping the picked weekdays of every nth week
+      const weekdays = new Set(rule.weekdays);
+      const firstWeekday = new Date(Date.UTC(first.year, first.month, first.day)).getUTCDay();
+      for (let offset = 0; offset < MAX_OCCURRENCES * 7 * interval; offset++) {
+        const wall = shiftWallTime(first, offset);
+        const weekday = (firstWeekday + offset) % 7;
+        const week = Math.floor((firstWeekday + offset) / 7);
+        if (week % interval !== 0 || !weekdays.has(weekday)) continue;
+        if (!push(wall)) break;
+      }
+      return dates;
+    }
+
+    for (let n = 0; n < MAX_OCCURRENCES; n++) {
+      let wall: WallTime;
+      if (rule.frequency === 'monthly') {
+        wall = shiftWallTime(first, 0, n * interval);
+        // Months without the day (e.g. the 31st) are skipped rather than moved
+        if (wall.day !== first.day) continue;
+      } else {
+        wall = shiftWallTime(first, n * interval * (rule.frequency === 'weekly' ? 7 : 1));
+      }
+      if (!push(wall)) break;
+    }
+    return dates;
+  }
+
+  static isSeries(occurrences: TicketsEventOccurrence[]): boolean {
+    return occurrences.length > 0;
+  }
+
+  static endOf(occurrence: TicketsEventOccurrence): Date {
+    return occurrence.endAt
+      ? new Date(occurrence.endAt)
+      : new Date(new Date(occurrence.startAt).getTime() + DEFAULT_OCCURRENCE_HOURS * 60 * 60 * 1000);
+  }
+
+  /**
+   * The date door staff are most likely checking in for: one that's open now
+   * (from the check-in window until it ends), else the next one, else the last.
+   */
+  static currentOccurrence(occurrences: TicketsEventOccurrence[], now: Date = new Date()): TicketsEventOccurrence | null {
+    const scheduled = occurrences
+      .filter(o => o.status === 'scheduled')
+      .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
+    if (scheduled.length === 0) return null;
+
+    const windowMs = CHECKIN_WINDOW_HOURS * 60 * 60 * 1000;
+    const open = scheduled.filter(o =>
+      new Date(o.startAt).getTime() - windowMs <= now.getTime() && now <= OccurrenceService.endOf(o)
+    );
+    if (open.length > 0) return open[open.length - 1];
+
+    return scheduled.find(o => new Date(o.startAt) > now) || scheduled[scheduled.length - 1];
+  }
+
+  /**
+   * The occurrence a check-in request is for: the one asked for, or the current
+   * one. Null for events that aren't a series.
+   */
+  static async resolveForCheckin(eventId: string, occurrenceId?: string | null, now: Date = new Date()): Promise<TicketsEventOccurrence | null> {
+    const occurrences = await ticketsStorage.getOccurrencesByEvent(eventId);
+    if (!OccurrenceService.isSeries(occurrences)) return null;
+
+    if (occurrenceId) {
+      const occurrence = occurrences.find(o => o.id === occurrenceId);
+      if (!occurrence) {
+        const error: any = new Error('That date is not part of this event');
+        error.occurrenceInvalid = true;
+        throw error;
+      }
+      return occurrence;
+    }
+    return OccurrenceService.currentOccurrence(occurrences, now);
+  }
+
+  /**
+   * The date picked for a checkout. Series events need an upcoming date unless
+   * every ticket in the cart is a series pass; one-off events take none.
+   */
+  static async resolveForCheckout(eventId: string, occurrenceId: string | null | undefined, tierIds: string[]): Promise<TicketsEventOccurrence | null> {
+    const occurrences = await ticketsStorage.getOccurrencesByEvent(eventId);
+    const invalid = (message: string) => {
+      const error: any = new Error(message);
+      error.occurrenceInvalid = true;
+      return error;
+    };
+
+    if (!OccurrenceService.isSeries(occurrences)) {
+      if (occurrenceId) throw invalid('This event has a single date');
+      return null;
+    }
+
+    if (!occurrenceId) {
+      const tiers = await Promise.all(tierIds.map(id => ticketsStorage.getTierById(id)));
+      if (tiers.every(t => t?.seriesPass)) return null;
+      throw invalid('Please pick a date');
+    }
+
+    const occurrence = occurrences.find(o => o.id === occurrenceId);
+    if (!occurrence) throw invalid('That date is not part of this event');
+    if (occurrence.status !== 'scheduled') throw invalid('That date has been canceled');
+    if (new Date(occurrence.startAt) <= new Date()) throw invalid('That date has already started');
+    return occurrence;
+  }
+
+  /**
+   * Whether a ticket gets in at an occurrence. Dated tickets only admit to their
+   * own date; series passes admit once per occurrence.
+   */
+  static async checkinState(
+    ticket: { id: string; occurrenceId?: string | null; status: string; usedAt?: Date | string | null; scannedBy?: string | null },
+    tier: TicketsTier,
+    occurrence: TicketsEventOccurrence
+  ): Promise<OccurrenceCheckinState> {
+    if (tier.seriesPass) {
+      const checkin = await ticketsStorage.getOccurrenceCheckin(ticket.id, occurrence.id);
+      return checkin
+        ? { state: 'used', checkedInAt: new Date(checkin.checkedInAt).toISOString(), checkedInBy: checkin.checkedInBy }
+        : { state: 'valid' };
+    }
+
+    if (ticket.occurrenceId !== occurrence.id) {
+      const ticketOccurrence = ticket.occurrenceId ? await ticketsStorage.getOccurrenceById(ticket.occurrenceId) : null;
+      return { state: 'wrong_occurrence', occurrence: ticketOccurrence };
+    }
+
+    return ticket.status === 'used'
+      ? { state: 'used', checkedInAt: ticket.usedAt ? new Date(ticket.usedAt).toISOString() : null, checkedInBy: ticket.scannedBy || null }
+      : { state: 'valid' };
+  }
+
+  /**
+   * Attendees of one occurrence: its dated tickets plus every series pass, with
+   * pass statuses taken from that occurrence's check-ins
+   */
+  static async attendeesFor(attendees: any[], occurrence: TicketsEventOccurrence): Promise<any[]> {
+    const checkins = await ticketsStorage.getOccurrenceCheckins([occurrence.id]);
+    const byTicket = new Map(checkins.map(c => [c.ticketId, c]));
+
+    return attendees
+      .filter(a => a.seriesPass || a.occurrenceId === occurrence.id)
+      .map(a => {
+        if (!a.seriesPass || a.status !== 'valid') return a;
+        const checkin = byTicket.get(a.ticketId);
+        return checkin
+          ? { ...a, status: 'used', checkedInAt: checkin.checkedInAt, scannedBy: checkin.checkedInBy }
+          : a;
+      });
+  }
+
+  /**
+   * Check-in numbers for one occurrence, in the same shape as the event-wide stats
+   */
+  static async getCheckInStats(eventId: string, occurrence: TicketsEventOccurrence) {
+    const attendees = await OccurrenceService.attendeesFor(await ticketsStorage.getEventAttendees(eventId, {}), occurrence);
+    const admitted = attendees.filter(a => a.status === 'valid' || a.status === 'used');
+    const checkedIn = admitted.filter(a => a.status === 'used');
+
+    const recentCheckIns = checkedIn
+      .filter(a => a.checkedInAt)
+      .sort((a, b) => new Date(b.checkedInAt).getTime() - new Date(a.checkedInAt).getTime())
+      .slice(0, 10)
+      .map(a => ({
+        id: a.ticketId,
+        serial: a.serial,
+        usedAt: a.checkedInAt,
+        scannedBy: a.scannedBy,
+        tierName: a.tierName,
+        buyerName: a.buyerName,
+        buyerEmail: a.buyerEmail
+      }));
+
+    return {
+      totalTickets: admitted.length,
+      checkedIn: checkedIn.length,
+      remaining: admitted.length - checkedIn.length,
+      recentCheckIns
+    };
+  }
+
+  /**
+   * Tickets sold and checked in per occurrence. Passes count towards every date
+   * they're valid for, and their check-ins are counted per date.
+   */
+  static async getOccurrenceStats(eventId: string, occurrences: TicketsEventOccurrence[], tiers: TicketsTier[]) {
+    const [tickets, checkins] = await Promise.all([
+      ticketsStorage.getOccurrenceTicketCounts(eventId),
+      ticketsStorage.getOccurrenceCheckins(occurrences.map(o => o.id))
+    ]);
+    const passTierIds = new Set(tiers.filter(t => t.seriesPass).map(t => t.id));
+    const passesSold = tickets.filter(t => passTierIds.has(t.tierId)).length;
+
+    return occurrences.map(occurrence => {
+      const dated = tickets.filter(t => t.occurrenceId === occurrence.id && !passTierIds.has(t.tierId));
+      const passCheckins = checkins.filter((c: TicketsOccurrenceCheckin) => c.occurrenceId === occurrence.id).length;
+      const soldByTier: Record<string, number> = {};
+      dated.forEach(t => { soldByTier[t.tierId] = (soldByTier[t.tierId] || 0) + 1; });
+      // Capacity is in units, so bundle tickets count back as bundles
+      for (const tier of tiers) {
+        if (soldByTier[tier.id] && (tier.ticketsPerUnit ?? 1) > 1) {
+          soldByTier[tier.id] = Math.ceil(soldByTier[tier.id] / tier.ticketsPerUnit);
+        }
+      }
+
+      return {
+        occurrenceId: occurrence.id,
+        startAt: occurrence.startAt,
+        endAt: occurrence.endAt,
+        status: occurrence.status,
+        ticketsSold: dated.length,
+        passHolders: passesSold,
+        checkedIn: dated.filter(t => t.status === 'used').length + passCheckins,
+        soldByTier
+      };
+    });
+  }
+
+  /**
+   * Keep the event's own dates spanning its occurrences, so listings and
+   * anything reading startAt/endAt still make sense
+   */
+  static async syncEventDates(event: TicketsEvent): Promise<void> {
+    const scheduled = (await ticketsStorage.getOccurrencesByEvent(event.id)).filter(o => o.status === 'scheduled');
+    if (scheduled.length === 0) return;
+
+    const first = scheduled[0];
+    const last = scheduled[scheduled.length - 1];
+    await ticketsStorage.updateEvent(event.id, {
+      startAt: new Date(first.startAt),
+      endAt: OccurrenceService.endOf(last)
+    });
+  }
+}
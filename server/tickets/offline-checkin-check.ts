@@ -0,0 +1,67 @@
+/**
+ * Checks how offline scan times are bounded by what the server knows about the device,
+ * against an in-memory device record.
+ *
+ *   npm run check:offline-checkin
+ *
+ * Nothing here talks to Supabase.
+ */
+import assert from 'node:assert/strict';
+import type { TicketsCheckinDevice } from '@shared/schema';
+import type { OfflineScan } from './offline-checkin-service';
+
+// tickets-supabase connects on import - the client is never used
+process.env.SUPABASE_URL ||= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'offline-checkin-check';
+
+const at = (hour: number, minute = 0) => new Date(Date.UTC(2025, 5, 1, hour, minute));
+
+let device: TicketsCheckinDevice | null = null;
+
+const store = {
+  async getCheckinDevice() {
+    return device;
+  }
+};
+
+async function main() {
+  const { ticketsStorage } = await import('./tickets-storage');
+  const { OfflineCheckinService } = await import('./offline-checkin-service');
+  Object.assign(ticketsStorage, store);
+
+  const scan = (scanId: string, scannedAt: Date): OfflineScan => ({ scanId, code: scanId, scannedAt: scannedAt.toISOString() });
+  const bound = async (scans: OfflineScan[], receivedAt: Date) => {
+    const bounded = await OfflineCheckinService.boundScans('evt_1', 'device_1', scans, receivedAt);
+    return Object.fromEntries(bounded.map(s => [s.scanId, s.scannedAt]));
+  };
+
+  // A device the server has never seen: everything counts as arriving now
+  let times = await bound([scan('early', at(9))], at(12));
+  assert.equal(times.early, at(12).toISOString());
+
+  // First download at 10:00, re-downloaded at 12:00 with scans still queued, synced at 12:30
+  device = { id: 'dev_1', eventId: 'evt_1', deviceId: 'device_1', createdAt: at(10), manifestDownloadedAt: at(12), lastSyncedAt: null };
+  times = await bound([
+    scan('before_first_download', at(9)),
+    scan('before_redownload', at(11)),
+    scan('after_redownload', at(12, 15)),
+    scan('future', at(13))
+  ], at(12, 30));
+  assert.equal(times.before_first_download, at(10).toISOString());
+  assert.equal(times.before_redownload, at(11).toISOString(), 'a scan made before a re-download keeps its time');
+  assert.equal(times.after_redownload, at(12, 15).toISOString());
+  assert.equal(times.future, at(12, 30).toISOString());
+
+  // Once synced, later uploads can't claim to predate that sync
+  device = { ...device, lastSyncedAt: at(12, 30) };
+  times = await bound([scan('backdated', at(11)), scan('next', at(12, 45))], at(13));
+  assert.equal(times.backdated, at(12, 30).toISOString());
+  assert.equal(times.next, at(12, 45).toISOString());
+
+  console.log('[Offline check-in check] All checks passed');
+}
+
+main().catch(error => {
+  console.error('[Offline check-in check] Failed:', error);
+  process.exit(1);
+});
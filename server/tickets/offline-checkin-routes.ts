@@ -0,0 +1,80 @@
+import type { Express, Request, Response } from "express";
+import { OfflineCheckinService } from "./offline-checkin-service";
+import { OccurrenceService } from "./occurrence-service";
+import { ScannerService, type CheckinActor } from "./scanner-service";
+import { requireCheckinAccess } from "./scanner-routes";
+import { offlineScanSyncSchema } from "./validation";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+export function addOfflineCheckinRoutes(app: Express) {
+
+  // Download an event's attendee manifest so a scanning device can work offline
+  app.get('/api/tickets/events/:eventId/checkin-manifest', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+
+      if (!await ScannerService.canAccessEvent(req.checkinActor!, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      // Series events are scanned one date at a time
+      const occurrence = await OccurrenceService.resolveForCheckin(eventId, req.query.occurrenceId as string);
+      const deviceId = typeof req.query.deviceId === 'string' ? req.query.deviceId.slice(0, 100) : undefined;
+      const manifest = await OfflineCheckinService.buildManifest(eventId, occurrence, deviceId);
+
+      res.json({ ok: true, manifest });
+    } catch (error: any) {
+      if (error.occurrenceInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
+      console.error('Error building check-in manifest:', error);
+      res.status(500).json({ ok: false, error: 'Failed to build check-in manifest' });
+    }
+  });
+
+  // Upload scans a device recorded while offline
+  app.post('/api/tickets/events/:eventId/checkin-sync', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
+    try {
+      const receivedAt = new Date();
+      const { eventId } = req.params;
+      const { deviceId, occurrenceId, scans } = offlineScanSyncSchema.parse(req.body);
+
+      if (!await ScannerService.canAccessEvent(req.checkinActor!, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const bounded = await OfflineCheckinService.boundScans(eventId, deviceId, scans, receivedAt);
+
+      // Scans belong to the date the device downloaded its manifest for, or the one that was on when they were made
+      const firstScanAt = new Date(Math.min(...bounded.map(scan => new Date(scan.scannedAt).getTime())));
+      const occurrence = await OccurrenceService.resolveForCheckin(eventId, occurrenceId, firstScanAt);
+      const results = await OfflineCheckinService.syncScans(eventId, deviceId, bounded, {
+        actor: req.checkinActor!,
+        receivedAt,
+        occurrence,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, results });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid scan data' });
+      }
+      if (error.occurrenceInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
+      console.error('Error syncing offline scans:', error);
+      res.status(500).json({ ok: false, error: 'Failed to sync scans' });
+    }
+  });
+}
@@ -0,0 +1,274 @@
+import { ticketsStorage } from './tickets-storage';
+import { QrSigningService } from './qr-signing';
+import { ScannerService, type CheckinActor } from './scanner-service';
+import { OccurrenceService } from './occurrence-service';
+import { OrganizerWebhookService } from './organizer-webhook-service';
+import type { TicketsEventOccurrence } from '@shared/schema';
+
+export interface OfflineScan {
+  scanId: string;
+  code: string; // whatever the device read - a signed code or a bare token
+  scannedAt: string;
+  scannedBy?: string;
+}
+
+// A scan with its time bounded by what the server knows about the device; the device's own clock reading is kept for the audit trail
+export interface BoundedScan extends OfflineScan {
+  deviceScannedAt: string;
+}
+
+export interface OfflineScanResult {
+  scanId: string;
+  ticketId: string | null;
+  result: 'accepted' | 'duplicate' | 'rejected';
+  reason?: string;
+  checkedInAt?: string;
+  checkedInBy?: string;
+}
+
+interface SyncContext {
+  actor: CheckinActor;
+  receivedAt: Date;
+  occurrence?: TicketsEventOccurrence | null; // the date a series device was scanning for
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Who holds a ticket's check-in right now - the ticket itself, or a pass's check-in for one date
+interface ExistingCheckin {
+  usedAt: Date | null;
+  usedBy: string | null;
+  takeOver: (usedAt: Date) => Promise<unknown>;
+}
+
+export class OfflineCheckinService {
+  /**
+   * Everything a scanning device needs to check people in without a connection:
+   * the attendee list with current statuses and the key that verifies signed codes.
+   * For a series it covers one date: that date's tickets plus every series pass.
+   */
+  static async buildManifest(eventId: string, occurrence: TicketsEventOccurrence | null = null, deviceId?: string) {
+    if (deviceId) {
+      await ticketsStorage.upsertCheckinDevice({ eventId, deviceId, manifestDownloadedAt: new Date() });
+    }
+
+    let attendees = await ticketsStorage.getEventAttendees(eventId, {});
+    if (occurrence) {
+      attendees = await OccurrenceService.attendeesFor(attendees, occurrence);
+    }
+
+    return {
+      eventId,
+      occurrenceId: occurrence?.id || null,
+      occurrenceStartAt: occurrence ? new Date(occurrence.startAt).toISOString() : null,
+      generatedAt: new Date().toISOString(),
+      keyId: QrSigningService.getKeyId(),
+      publicKey: QrSigningService.getPublicKeyJwk(),
+      tickets: attendees.map((a: any) => ({
+        ticketId: a.ticketId,
+        serial: a.serial,
+        qrToken: a.qrToken,
+        status: a.status,
+        isBlocked: !!a.isBlocked,
+        tierName: a.tierName,
+        seatLabel: a.seatLabel || null,
+        seriesPass: !!a.seriesPass,
+        buyerName: a.buyerName || '',
+        checkedInAt: a.checkedInAt || null,
+        checkedInBy: a.scannedBy || null
+      }))
+    };
+  }
+
+  /**
+   * Device clocks can be wrong or set on purpose, so a reported scan time is clamped between the
+   * last contact that must have come before it and the moment the upload arrived. A sync takes
+   * the device's whole queue, so anything uploaded now was scanned after the previous sync; with
+   * no sync yet, after the device first downloaded a manifest. Re-downloading the manifest
+   * doesn't clear the queue, so it doesn't move the bound. A device the server has never seen
+   * gets no benefit of the doubt: its scans count as happening on arrival.
+   */
+  static async boundScans(eventId: string, deviceId: string, scans: OfflineScan[], receivedAt: Date): Promise<BoundedScan[]> {
+    const device = await ticketsStorage.getCheckinDevice(eventId, deviceId);
+    // The device row is created on its first contact and never rewritten
+    const previousContact = device?.lastSyncedAt || device?.createdAt;
+    const earliest = previousContact
+      ? Math.min(new Date(previousContact).getTime(), receivedAt.getTime())
+      : receivedAt.getTime();
+
+    return scans.map(scan => {
+      const clamped = Math.min(Math.max(new Date(scan.scannedAt).getTime(), earliest), receivedAt.getTime());
+      return { ...scan, scannedAt: new Date(clamped).toISOString(), deviceScannedAt: scan.scannedAt };
+    });
+  }
+
+  /**
+   * Apply scans a device recorded while offline. Scans are replayed oldest first
+   * and the earliest scan of a ticket wins, whichever device made it - later ones
+   * come back as duplicates. Every outcome lands in the audit log.
+   */
+  static async syncScans(eventId: string, deviceId: string, scans: BoundedScan[], context: SyncContext): Promise<OfflineScanResult[]> {
+    const ordered = [...scans].sort((a, b) => new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime());
+    const results: OfflineScanResult[] = [];
+
+    for (const scan of ordered) {
+      const result = await OfflineCheckinService.applyScan(eventId, deviceId, scan, context);
+      results.push(result);
+    }
+
+    await ticketsStorage.upsertCheckinDevice({ eventId, deviceId, lastSyncedAt: context.receivedAt });
+
+    const counts = results.reduce((acc, r) => ({ ...acc, [r.result]: (acc[r.result] || 0) + 1 }), {} as Record<string, number>);
+    console.log(`[Offline Check-in] Synced ${scans.length} scans from device ${deviceId} for event ${eventId}:`, counts);
+
+    return results;
+  }
+
+  private static async applyScan(eventId: string, deviceId: string, scan: BoundedScan, context: SyncContext): Promise<OfflineScanResult> {
+    const { actor } = context;
+    const scannedAt = new Date(scan.scannedAt);
+    const { checkInBy: scannedBy, gateId, scannerId } = ScannerService.attributionFor(actor, scan.scannedBy);
+    const ticket = await ticketsStorage.getTicketByQR(QrSigningService.extractQrToken(scan.code));
+
+    const audit = (action: string, meta: Record<string, any>) => ticketsStorage.createAudit({
+      actorType: actor.type,
+      actorId: actor.type === 'scanner' ? actor.scanner.id : actor.organizer.id,
+      action,
+      targetType: 'ticket',
+      targetId: ticket?.id || null,
+      metaJson: {
+        eventId,
+        deviceId,
+        scanId: scan.scanId,
+        scannedAt: scan.scannedAt,
+        deviceScannedAt: scan.deviceScannedAt,
+        receivedAt: context.receivedAt.toISOString(),
+        scannedBy,
+        gateId,
+        offline: true,
+        ...meta
+      },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    });
+
+    if (!ticket) {
+      await audit('offline_scan_rejected', { reason: 'unknown_ticket' });
+      return { scanId: scan.scanId, ticketId: null, result: 'rejected', reason: 'unknown_ticket' };
+    }
+
+    const tier = await ticketsStorage.getTierById(ticket.tierId);
+    if (!tier || tier.eventId !== eventId) {
+      await audit('offline_scan_rejected', { reason: 'wrong_event' });
+      return { scanId: scan.scanId, ticketId: ticket.id, result: 'rejected', reason: 'wrong_event' };
+    }
+
+    // Blocked by the organizer or by an open dispute - same as a refunded ticket, the door may have let them in
+    if (ticket.isBlocked && ticket.status !== 'refunded' && ticket.status !== 'canceled') {
+      await audit('offline_scan_rejected', { reason: 'blocked' });
+      return { scanId: scan.scanId, ticketId: ticket.id, result: 'rejected', reason: 'blocked' };
+    }
+
+    const { occurrence } = context;
+    if (occurrence && !tier.seriesPass && ticket.occurrenceId !== occurrence.id) {
+      await audit('offline_scan_rejected', { reason: 'wrong_occurrence', occurrenceId: occurrence.id });
+      return { scanId: scan.scanId, ticketId: ticket.id, result: 'rejected', reason: 'wrong_occurrence' };
+    }
+
+    // Series passes stay valid; each date's check-in is its own record
+    if (occurrence && tier.seriesPass && ticket.status === 'valid') {
+      let checkin = await ticketsStorage.getOccurrenceCheckin(ticket.id, occurrence.id);
+      if (!checkin) {
+        const created = await ticketsStorage.createOccurrenceCheckin({
+          ticketId: ticket.id,
+          occurrenceId: occurrence.id,
+          checkedInAt: scannedAt,
+          checkedInBy: scannedBy,
+          gateId,
+          scannerId
+        });
+        if (created) {
+          await audit('ticket_checked_in', { occurrenceId: occurrence.id });
+          await OrganizerWebhookService.ticketEvent('ticket.checked_in', ticket.id, { occurrenceId: occurrence.id, gateId: gateId || null, checkedInBy: scannedBy });
+          return { scanId: scan.scanId, ticketId: ticket.id, result: 'accepted', checkedInAt: scannedAt.toISOString(), checkedInBy: scannedBy };
+        }
+        // Another device got there between the lookup and the insert
+        checkin = await ticketsStorage.getOccurrenceCheckin(ticket.id, occurrence.id);
+      }
+
+      const existing = checkin!;
+      return OfflineCheckinService.resolveRepeatScan(scan, ticket.id, scannedBy, {
+        usedAt: new Date(existing.checkedInAt),
+        usedBy: existing.checkedInBy,
+        takeOver: usedAt => ticketsStorage.updateOccurrenceCheckin(existing.id, { checkedInAt: usedAt, checkedInBy: scannedBy, gateId, scannerId })
+      }, meta => audit('offline_scan_conflict', { occurrenceId: occurrence.id, ...meta }));
+    }
+
+    if (ticket.status === 'valid') {
+      await ticketsStorage.checkInTicket(ticket.id, scannedBy, { usedAt: scannedAt, gateId, scannerId });
+      await audit('ticket_checked_in', {});
+      await OrganizerWebhookService.ticketEvent('ticket.checked_in', ticket.id, { occurrenceId: null, gateId: gateId || null, checkedInBy: scannedBy });
+      return { scanId: scan.scanId, ticketId: ticket.id, result: 'accepted', checkedInAt: scannedAt.toISOString(), checkedInBy: scannedBy };
+    }
+
+    if (ticket.status === 'used') {
+      return OfflineCheckinService.resolveRepeatScan(scan, ticket.id, scannedBy, {
+        usedAt: ticket.usedAt ? new Date(ticket.usedAt) : null,
+        usedBy: ticket.scannedBy,
+        takeOver: usedAt => ticketsStorage.checkInTicket(ticket.id, scannedBy, { usedAt, gateId, scannerId })
+      }, meta => audit('offline_scan_conflict', meta));
+    }
+
+    // Refunded or otherwise void - the door may already have let them in, so flag it
+    await audit('offline_scan_rejected', { reason: ticket.status });
+    return { scanId: scan.scanId, ticketId: ticket.id, result: 'rejected', reason: ticket.status };
+  }
+
+  /**
+   * A scan of a ticket that's already checked in: a resync of the same scan, an
+   * earlier scan that takes over the check-in, or a duplicate.
+   */
+  private static async resolveRepeatScan(
+    scan: BoundedScan,
+    ticketId: string,
+    scannedBy: string,
+    existing: ExistingCheckin,
+    auditConflict: (meta: Record<string, any>) => Promise<unknown>
+  ): Promise<OfflineScanResult> {
+    const scannedAt = new Date(scan.scannedAt);
+    const { usedAt, usedBy } = existing;
+
+    // The same scan synced again (e.g. the device lost the response) - nothing to do. The bound
+    // may have moved since the first upload, so the device's own reading counts as a match too.
+    const sameScan = usedAt && usedBy === scannedBy &&
+      (usedAt.getTime() === scannedAt.getTime() || usedAt.getTime() === new Date(scan.deviceScannedAt).getTime());
+    if (sameScan) {
+      return { scanId: scan.scanId, ticketId, result: 'accepted', checkedInAt: usedAt.toISOString(), checkedInBy: scannedBy };
+    }
+
+    // This device saw the ticket first - it takes over the check-in and the other scan becomes the duplicate
+    if (usedAt && scannedAt < usedAt) {
+      await existing.takeOver(scannedAt);
+      await auditConflict({
+        resolution: 'earlier_scan_wins',
+        supersededCheckedInAt: usedAt.toISOString(),
+        supersededCheckedInBy: usedBy
+      });
+      return { scanId: scan.scanId, ticketId, result: 'accepted', checkedInAt: scannedAt.toISOString(), checkedInBy: scannedBy };
+    }
+
+    await auditConflict({
+      resolution: 'duplicate',
+      firstCheckedInAt: usedAt?.toISOString() || null,
+      firstCheckedInBy: usedBy
+    });
+    return {
+      scanId: scan.scanId,
+      ticketId,
+      result: 'duplicate',
+      reason: 'already_checked_in',
+      checkedInAt: usedAt?.toISOString(),
+      checkedInBy: usedBy || undefined
+    };
+  }
+}
@@ -0,0 +1,390 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import { ticketsStorage } from './tickets-storage';
+import type { TicketsEvent, TicketsOrder, TicketsOrganizerWebhook, TicketsTicket, TicketsTier, TicketsWebhookDelivery, WebhookEventType } from '@shared/schema';
+
+// Sent by "Send test" so organizers can check their endpoint; never subscribed to
+const TEST_EVENT_TYPE = 'webhook.test';
+
+// Retries wait 1m, 2m, 4m ... so eight attempts span about two hours
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is retried after this if the attempt never finishes (e.g. a restart)
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const PUBLIC_HOST_ERROR = 'Webhook URLs must point to a public host';
+
+/**
+ * Resolves an endpoint's host for the connection itself and refuses internal addresses, so
+ * the address that's checked is the one we connect to - a host can't pass a separate check
+ * and then resolve somewhere else when the request is made.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 4);
+    if (addresses.length === 0 || addresses.some(entry => OrganizerWebhookService.isPrivateAddress(entry.address))) {
+      return callback(new Error(PUBLIC_HOST_ERROR), '', 4);
+    }
+    if ((options as dns.LookupOptions).all) return (callback as any)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const deliveryAgent = new https.Agent({ lookup: publicLookup });
+
+// POST a delivery and return the status code. Redirects aren't followed - they could point anywhere.
+function postDelivery(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(url, {
+      method: 'POST',
+      agent: deliveryAgent,
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) }
+    }, response => {
+      clearTimeout(timer);
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    const timer = setTimeout(() => {
+      const timeout = new Error('Timed out');
+      timeout.name = 'TimeoutError';
+      request.destroy(timeout);
+    }, REQUEST_TIMEOUT_MS);
+    request.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.end(body);
+  });
+}
+
+export class OrganizerWebhookService {
+  static generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Header value receivers check: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+   * Including the timestamp lets them reject replays.
+   */
+  static signature(secret: string, body: string, timestamp: number): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  static newEventId(): string {
+    return `evt_${crypto.randomBytes(12).toString('hex')}`;
+  }
+
+  static backoffMs(attempts: number): number {
+    return BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1);
+  }
+
+  // ============ ENDPOINT CHECKS ============
+
+  // Loopback, private, shared, link-local (cloud metadata), benchmarking, multicast and reserved addresses
+  static isPrivateAddress(address: string): boolean {
+    if (net.isIPv4(address)) {
+      const [a, b] = address.split('.').map(Number);
+      return a === 0 || a === 10 || a === 127 ||
+        (a === 100 && b >= 64 && b <= 127) ||
+        (a === 169 && b === 254) ||
+        (a === 172 && b >= 16 && b <= 31) ||
+        (a === 192 && b === 168) ||
+        (a === 198 && (b === 18 || b === 19)) ||
+        a >= 224; // 224/4 multicast, 240/4 reserved and the broadcast address
+    }
+
+    const ip = address.toLowerCase();
+    const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return OrganizerWebhookService.isPrivateAddress(mapped[1]);
+    // URL parsing writes mapped IPv4 in hex, e.g. ::ffff:c0a8:101
+    const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [hi, lo] = mappedHex.slice(1).map(part => parseInt(part, 16));
+      return OrganizerWebhookService.isPrivateAddress([hi >> 8, hi & 255, lo >> 8, lo & 255].join('.'));
+    }
+    // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10), multicast and NAT64 (64:ff9b::/96)
+    return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || /^ff/.test(ip) || /^0*64:ff9b::/.test(ip);
+  }
+
+  /**
+   * Reason the URL can't receive webhooks, or null if it can. Hosts that are
+   * or resolve to internal addresses are refused so endpoints can't be used to
+   * reach our own network.
+   */
+  static async checkEndpoint(url: string): Promise<string | null> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'Enter a valid URL';
+    }
+    if (parsed.protocol !== 'https:') return 'Webhook URLs must use https';
+
+    const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+      return PUBLIC_HOST_ERROR;
+    }
+
+    let addresses: string[];
+    if (net.isIP(host)) {
+      addresses = [host];
+    } else {
+      try {
+        addresses = (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+      } catch {
+        return `Couldn't resolve ${host}`;
+      }
+    }
+
+    return addresses.some(OrganizerWebhookService.isPrivateAddress) ? PUBLIC_HOST_ERROR : null;
+  }
+
+  // ============ PAYLOADS (shared with the public API) ============
+
+  static serializeOrder(order: TicketsOrder) {
+    return {
+      id: order.id,
+      eventId: order.eventId,
+      occurrenceId: order.occurrenceId,
+      status: order.status,
+      buyerName: order.buyerName,
+      buyerEmail: order.buyerEmail,
+      buyerPhone: order.buyerPhone,
+      subtotalCents: order.subtotalCents,
+      taxCents: order.taxCents,
+      taxBreakdown: order.taxBreakdown ?? null,
+      discountAmountCents: order.discountAmountCents || 0,
+      totalCents: order.totalCents,
+      refundedAmountCents: order.refundedAmountCents || 0,
+      currency: order.currency,
+      placedAt: order.placedAt,
+      createdAt: order.createdAt
+    };
+  }
+
+  static serializeTicket(ticket: TicketsTicket, tier: TicketsTier | null, order: TicketsOrder) {
+    return {
+      id: ticket.id,
+      orderId: order.id,
+      serial: ticket.serial,
+      status: ticket.status,
+      tierId: ticket.tierId,
+      tierName: tier?.name ?? null,
+      seatLabel: ticket.seatLabel,
+      occurrenceId: ticket.occurrenceId,
+      // Whoever holds the ticket now - the buyer unless it was transferred or resold
+      holderName: ticket.holderEmail ? ticket.holderName : order.buyerName,
+      holderEmail: ticket.holderEmail || order.buyerEmail,
+      checkedInAt: ticket.usedAt,
+      refundedAt: ticket.refundedAt,
+      createdAt: ticket.createdAt
+    };
+  }
+
+  static serializeEvent(event: TicketsEvent) {
+    return {
+      id: event.id,
+      slug: event.slug,
+      title: event.title,
+      status: event.status,
+      venue: event.venue,
+      city: event.city,
+      province: event.province,
+      startAt: event.startAt,
+      endAt: event.endAt,
+      createdAt: event.createdAt,
+      updatedAt: event.updatedAt
+    };
+  }
+
+  // ============ EMITTING ============
+
+  /**
+   * Queue an event for every endpoint the organizer subscribed to it and try them straight
+   * away. Deliveries that fail are retried by the scheduler. Never throws.
+   */
+  static async emit(organizerId: string, type: WebhookEventType, data: Record<string, any>): Promise<void> {
+    try {
+      const webhooks = await ticketsStorage.getOrganizerWebhooksForEvent(organizerId, type);
+      // Every endpoint gets the same event id, so receivers can dedupe across retries
+      const eventId = OrganizerWebhookService.newEventId();
+      for (const webhook of webhooks) {
+        await OrganizerWebhookService.enqueue(webhook, eventId, type, data);
+      }
+    } catch (error) {
+      console.error(`[Organizer Webhooks] Failed to queue ${type} for organizer ${organizerId}:`, error);
+    }
+  }
+
+  static async sendTest(webhook: TicketsOrganizerWebhook): Promise<TicketsWebhookDelivery> {
+    return OrganizerWebhookService.enqueue(webhook, OrganizerWebhookService.newEventId(), TEST_EVENT_TYPE, { message: 'Test delivery from Jugnu Tickets' }, true);
+  }
+
+  private static async enqueue(
+    webhook: TicketsOrganizerWebhook,
+    eventId: string,
+    type: string,
+    data: Record<string, any>,
+    waitForAttempt = false
+  ): Promise<TicketsWebhookDelivery> {
+    const delivery = await ticketsStorage.createWebhookDelivery({
+      webhookId: webhook.id,
+      eventType: type,
+      payloadJson: { id: eventId, type, createdAt: new Date().toISOString(), data },
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date()
+    });
+
+    // Check-in and checkout shouldn't wait on an organizer's server
+    const attempt = OrganizerWebhookService.attempt(delivery.id);
+    return waitForAttempt ? (await attempt) || delivery : delivery;
+  }
+
+  /**
+   * Claim and send one due delivery, recording the outcome. Returns null if
+   * it wasn't due or someone else already has it.
+   */
+  static async attempt(deliveryId: string): Promise<TicketsWebhookDelivery | null> {
+    try {
+      const delivery = await ticketsStorage.claimWebhookDelivery(deliveryId, new Date(Date.now() + CLAIM_LEASE_MS));
+      if (!delivery) return null;
+
+      const webhook = await ticketsStorage.getOrganizerWebhookById(delivery.webhookId);
+      if (!webhook || !webhook.isActive) {
+        return ticketsStorage.updateWebhookDelivery(delivery.id, {
+          status: 'failed',
+          lastError: webhook ? 'Endpoint disabled' : 'Endpoint deleted'
+        });
+      }
+
+      const body = JSON.stringify(delivery.payloadJson);
+      const attempts = delivery.attempts + 1;
+      let responseStatus: number | null = null;
+      let error: string | null = null;
+
+      try {
+        // Checked again on every send; names are also re-checked as they're resolved for the connection
+        const refused = await OrganizerWebhookService.checkEndpoint(webhook.url);
+        if (refused) throw new Error(refused);
+
+        responseStatus = await postDelivery(webhook.url, {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Jugnu-Webhooks/1.0',
+          'X-Jugnu-Event': delivery.eventType,
+          'X-Jugnu-Delivery': delivery.id,
+          'X-Jugnu-Signature': OrganizerWebhookService.signature(webhook.secret, body, Math.floor(Date.now() / 1000))
+        }, body);
+        if (responseStatus >= 300 && responseStatus < 400) error = `Endpoint redirected (${responseStatus})`;
+        else if (responseStatus < 200 || responseStatus >= 300) error = `Endpoint responded ${responseStatus}`;
+      } catch (requestError: any) {
+        error = requestError?.name === 'TimeoutError' ? 'Timed out' : requestError?.message || 'Request failed';
+      }
+
+      if (!error) {
+        return ticketsStorage.updateWebhookDelivery(delivery.id, {
+          status: 'succeeded',
+          attempts,
+          lastResponseStatus: responseStatus,
+          lastError: null,
+          deliveredAt: new Date()
+        });
+      }
+
+      const givingUp = attempts >= MAX_ATTEMPTS;
+      return ticketsStorage.updateWebhookDelivery(delivery.id, {
+        status: givingUp ? 'failed' : 'pending',
+        attempts,
+        lastResponseStatus: responseStatus,
+        lastError: error,
+        nextAttemptAt: new Date(Date.now() + OrganizerWebhookService.backoffMs(attempts))
+      });
+    } catch (error) {
+      console.error(`[Organizer Webhooks] Delivery ${deliveryId} attempt failed:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Send a delivery again from the log - a failed one gets a fresh set of attempts
+   */
+  static async redeliver(delivery: TicketsWebhookDelivery): Promise<TicketsWebhookDelivery> {
+    await ticketsStorage.updateWebhookDelivery(delivery.id, {
+      status: 'pending',
+      attempts: delivery.status === 'failed' ? 0 : delivery.attempts,
+      nextAttemptAt: new Date()
+    });
+    return (await OrganizerWebhookService.attempt(delivery.id)) || delivery;
+  }
+
+  /**
+   * Retry deliveries whose backoff has passed
+   */
+  static async sweep(): Promise<void> {
+    try {
+      const due = await ticketsStorage.getDueWebhookDeliveries();
+      for (const delivery of due) {
+        await OrganizerWebhookService.attempt(delivery.id);
+      }
+    } catch (error) {
+      console.error('[Organizer Webhooks] Error during sweep:', error);
+    }
+  }
+
+  // ============ EVENT HOOKS ============
+
+  static async orderPaid(orderId: string): Promise<void> {
+    try {
+      const order = await ticketsStorage.getOrderById(orderId);
+      const event = order ? await ticketsStorage.getEventById(order.eventId) : null;
+      if (!order || !event) return;
+
+      const tickets = await ticketsStorage.getTicketsByOrderId(order.id);
+      const tiers = await ticketsStorage.getTiersByEvent(event.id);
+      await OrganizerWebhookService.emit(event.organizerId, 'order.paid', {
+        order: OrganizerWebhookService.serializeOrder(order),
+        event: OrganizerWebhookService.serializeEvent(event),
+        tickets: tickets.map(ticket => OrganizerWebhookService.serializeTicket(ticket, tiers.find(t => t.id === ticket.tierId) || null, order))
+      });
+    } catch (error) {
+      console.error(`[Organizer Webhooks] Failed to build order.paid for ${orderId}:`, error);
+    }
+  }
+
+  /**
+   * ticket.checked_in, ticket.refunded or ticket.transferred, with the ticket as it is now
+   * plus whatever the event adds (gate, refund amount, the replacement ticket...)
+   */
+  static async ticketEvent(type: Exclude<WebhookEventType, 'order.paid' | 'order.disputed'>, ticketId: string, extra: Record<string, any> = {}): Promise<void> {
+    try {
+      const ticket = await ticketsStorage.getTicketById(ticketId);
+      const orderItem = ticket ? await ticketsStorage.getOrderItemById(ticket.orderItemId) : null;
+      const order = orderItem ? await ticketsStorage.getOrderById(orderItem.orderId) : null;
+      const event = order ? await ticketsStorage.getEventById(order.eventId) : null;
+      if (!ticket || !order || !event) return;
+
+      const tier = await ticketsStorage.getTierById(ticket.tierId);
+      await OrganizerWebhookService.emit(event.organizerId, type, {
+        ticket: OrganizerWebhookService.serializeTicket(ticket, tier, order),
+        event: { id: event.id, title: event.title, startAt: event.startAt },
+        ...extra
+      });
+    } catch (error) {
+      console.error(`[Organizer Webhooks] Failed to build ${type} for ticket ${ticketId}:`, error);
+    }
+  }
+}
+
+export function startOrganizerWebhookScheduler(): void {
+  console.log('[Organizer Webhooks] Starting delivery retry scheduler...');
+
+  OrganizerWebhookService.sweep();
+  setInterval(() => OrganizerWebhookService.sweep(), SWEEP_INTERVAL_MS);
+
+  console.log('[Organizer Webhooks] Scheduler started - retrying every minute');
+}
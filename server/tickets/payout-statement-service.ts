@@ -0,0 +1,227 @@
+import PDFDocument from 'pdfkit';
+import { ticketsStorage } from './tickets-storage';
+import type { Organizer, TicketsEvent, TicketsLedger, TicketsOrder, TicketsPayout, TicketsStripeTransaction } from '@shared/schema';
+
+export interface StatementLine {
+  ledgerEntryId: string;
+  date: Date;
+  type: string; // sale | refund | chargeback | adjustment
+  description: string | null;
+  orderId: string | null;
+  eventTitle: string | null;
+  buyerName: string | null;
+  buyerEmail: string | null;
+  orderTotalCents: number | null;
+  taxCents: number | null;
+  amountCents: number;
+  // Whether Stripe's records agree: not_applicable for free orders and manual adjustments
+  reconciliation: 'matched' | 'needs_review' | 'pending' | 'not_applicable';
+}
+
+export interface PayoutStatement {
+  payout: TicketsPayout;
+  organizer: { id: string; businessName: string };
+  lines: StatementLine[];
+  totals: {
+    salesCents: number;
+    refundsCents: number;
+    chargebacksCents: number;
+    adjustmentsCents: number;
+    netCents: number;
+  };
+  needsReviewCount: number;
+}
+
+// Stripe transaction types behind each kind of ledger entry
+const TRANSACTION_TYPES: Record<string, string[]> = {
+  sale: ['charge', 'payment'],
+  refund: ['refund', 'payment_refund'],
+  chargeback: ['adjustment']
+};
+
+const money = (cents: number | null) => cents === null ? '' : (cents / 100).toFixed(2);
+const day = (date: Date) => new Date(date).toISOString().split('T')[0];
+const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+const RECONCILIATION_LABELS: Record<StatementLine['reconciliation'], string> = {
+  matched: 'Matched',
+  needs_review: 'Under review',
+  pending: 'Pending',
+  not_applicable: '-'
+};
+
+export class PayoutStatementService {
+  /**
+   * The ledger entries a payout settled, with the order behind each and whether
+   * the Stripe reconciliation agrees with it
+   */
+  static async build(payout: TicketsPayout, organizer: Organizer): Promise<PayoutStatement> {
+    const entries = await ticketsStorage.getLedgerEntriesByPayout(payout.id);
+    const orderIds = Array.from(new Set(entries.map(e => e.orderId).filter((id): id is string => !!id)));
+
+    const orders = new Map<string, TicketsOrder>();
+    const events = new Map<string, TicketsEvent>();
+    for (const orderId of orderIds) {
+      const order = await ticketsStorage.getOrderById(orderId);
+      if (!order) continue;
+      orders.set(orderId, order);
+      if (!events.has(order.eventId)) {
+        const event = await ticketsStorage.getEventById(order.eventId);
+        if (event) events.set(event.id, event);
+      }
+    }
+    const transactions = await ticketsStorage.getStripeTransactionsByOrders(orderIds);
+
+    const lines = entries.map(entry => {
+      const order = entry.orderId ? orders.get(entry.orderId) || null : null;
+      const event = order ? events.get(order.eventId) || null : null;
+      return {
+        ledgerEntryId: entry.id,
+        date: entry.createdAt,
+        type: entry.type,
+        description: entry.description,
+        orderId: entry.orderId,
+        eventTitle: event?.title || null,
+        buyerName: order?.buyerName || null,
+        buyerEmail: order?.buyerEmail || null,
+        orderTotalCents: order?.totalCents ?? null,
+        taxCents: order?.taxCents ?? null,
+        amountCents: entry.amountCents,
+        reconciliation: PayoutStatementService.reconciliationFor(entry, order, transactions)
+      };
+    });
+
+    const sumOf = (type: string) => lines.filter(l => l.type === type).reduce((sum, l) => sum + l.amountCents, 0);
+    return {
+      payout,
+      organizer: { id: organizer.id, businessName: organizer.businessName },
+      lines,
+      totals: {
+        salesCents: sumOf('sale'),
+        refundsCents: sumOf('refund'),
+        chargebacksCents: sumOf('chargeback'),
+        adjustmentsCents: sumOf('adjustment'),
+        netCents: lines.reduce((sum, l) => sum + l.amountCents, 0)
+      },
+      needsReviewCount: lines.filter(l => l.reconciliation === 'needs_review').length
+    };
+  }
+
+  private static reconciliationFor(entry: TicketsLedger, order: TicketsOrder | null, transactions: TicketsStripeTransaction[]): StatementLine['reconciliation'] {
+    const types = TRANSACTION_TYPES[entry.type];
+    if (!order || !types || order.totalCents === 0) return 'not_applicable';
+
+    const related = transactions.filter(t => t.orderId === order.id && types.includes(t.type));
+    if (related.length === 0) return 'pending';
+    return related.some(t => (t.status === 'mismatch' || t.status === 'unmatched') && !t.resolvedAt) ? 'needs_review' : 'matched';
+  }
+
+  static toCsv(statement: PayoutStatement): string {
+    const header = ['Date', 'Type', 'Description', 'Order ID', 'Event', 'Buyer', 'Buyer Email', 'Order Total', 'Order Tax', 'Amount', 'Reconciliation'];
+    const rows = statement.lines.map(line => [
+      day(line.date),
+      line.type,
+      line.description,
+      line.orderId,
+      line.eventTitle,
+      line.buyerName,
+      line.buyerEmail,
+      money(line.orderTotalCents),
+      money(line.taxCents),
+      money(line.amountCents),
+      RECONCILIATION_LABELS[line.reconciliation]
+    ]);
+    const { totals } = statement;
+    const summary = [
+      [],
+      ['Sales', money(totals.salesCents)],
+      ['Refunds', money(totals.refundsCents)],
+      ['Chargebacks', money(totals.chargebacksCents)],
+      ['Adjustments', money(totals.adjustmentsCents)],
+      ['Payout total', money(statement.payout.totalCents)]
+    ];
+
+    return [header, ...rows, ...summary].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  static toPdf(statement: PayoutStatement): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'LETTER', margins: { top: 50, bottom: 50, left: 50, right: 50 } });
+      const chunks: Buffer[] = [];
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const { payout, totals } = statement;
+      const left = doc.page.margins.left;
+      const right = doc.page.width - doc.page.margins.right;
+
+      doc.font('Helvetica-Bold').fontSize(18).text('Payout Statement');
+      doc.moveDown(0.5);
+      doc.font('Helvetica').fontSize(10)
+        .text(statement.organizer.businessName)
+        .text(`Period: ${day(new Date(payout.periodStart))} to ${day(new Date(payout.periodEnd))}`)
+        .text(`Method: ${payout.method}${payout.reference ? ` (ref ${payout.reference})` : ''}`)
+        .text(`Status: ${payout.status}${payout.paidAt ? ` on ${day(payout.paidAt)}` : ''}`)
+        .text(`Payout ID: ${payout.id}`);
+      doc.moveDown();
+
+      const summary: Array<[string, number]> = [
+        ['Sales', totals.salesCents],
+        ['Refunds', totals.refundsCents],
+        ['Chargebacks', totals.chargebacksCents],
+        ['Adjustments', totals.adjustmentsCents]
+      ];
+      summary.forEach(([label, cents]) => {
+        const y = doc.y;
+        doc.text(label, left, y).text(`$${money(cents)}`, left, y, { width: 200, align: 'right' });
+      });
+      const totalY = doc.y;
+      doc.font('Helvetica-Bold')
+        .text(`Payout total (${payout.currency})`, left, totalY)
+        .text(`$${money(payout.totalCents)}`, left, totalY, { width: 200, align: 'right' });
+      doc.font('Helvetica');
+      doc.moveDown(1.5);
+
+      // Date | Type | Order / buyer | Amount | Reconciled
+      const columns = [left, left + 70, left + 140, right - 150, right - 70];
+      const drawHeader = () => {
+        const y = doc.y;
+        doc.font('Helvetica-Bold').fontSize(9);
+        ['Date', 'Type', 'Order', 'Amount', 'Reconciled'].forEach((label, i) => doc.text(label, columns[i], y, { lineBreak: false }));
+        doc.font('Helvetica').moveDown(0.8);
+        doc.moveTo(left, doc.y).lineTo(right, doc.y).stroke('#999999');
+        doc.moveDown(0.4);
+      };
+      drawHeader();
+
+      statement.lines.forEach(line => {
+        if (doc.y > doc.page.height - doc.page.margins.bottom - 30) {
+          doc.addPage();
+          drawHeader();
+        }
+        const y = doc.y;
+        const order = [line.eventTitle, line.buyerName || line.buyerEmail].filter(Boolean).join(' - ') || line.description || '';
+        doc.fontSize(9)
+          .text(day(line.date), columns[0], y, { lineBreak: false })
+          .text(line.type, columns[1], y, { lineBreak: false })
+          .text(order, columns[2], y, { width: columns[3] - columns[2] - 10, height: 12, ellipsis: true, lineBreak: false })
+          .text(`$${money(line.amountCents)}`, columns[3], y, { width: 60, align: 'right', lineBreak: false })
+          .text(RECONCILIATION_LABELS[line.reconciliation], columns[4], y, { lineBreak: false });
+        doc.moveDown(0.9);
+      });
+
+      if (statement.needsReviewCount > 0) {
+        doc.moveDown();
+        doc.fontSize(9).text(
+          `${statement.needsReviewCount} ${statement.needsReviewCount === 1 ? 'line is' : 'lines are'} under review because Stripe's records don't match ours yet. We'll adjust a later payout if anything changes.`,
+          left,
+          doc.y,
+          { width: right - left }
+        );
+      }
+
+      doc.end();
+    });
+  }
+}
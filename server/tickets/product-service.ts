@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { ticketsStorage } from './tickets-storage';
+import { tierProductSchema } from './validation';
+import type { TicketsTier, TicketsOrderItem, TicketsVoucher, InsertTicketsTier } from '@shared/schema';
+
+// Same unambiguous alphabet as scanner access codes - door staff type these in
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const VOUCHER_CODE_LENGTH = 10;
+
+type TierProduct = Pick<TicketsTier, 'kind' | 'ticketsPerUnit' | 'addonFulfillment'>;
+
+export type VoucherRedemption =
+  | { state: 'redeemed'; voucher: TicketsVoucher; tier: TicketsTier }
+  | { state: 'already_redeemed'; voucher: TicketsVoucher; tier: TicketsTier }
+  | { state: 'void'; voucher: TicketsVoucher; tier: TicketsTier }
+  | { state: 'not_found' };
+
+function productInvalid(message: string): Error {
+  const error = new Error(message) as Error & { productInvalid?: boolean };
+  error.productInvalid = true;
+  return error;
+}
+
+export class ProductService {
+  static isAddon(tier: Partial<TierProduct>): boolean {
+    return tier.kind === 'addon';
+  }
+
+  // Entry tickets issued for one unit: bundles issue several, add-ons none
+  static ticketsPerUnit(tier: Partial<TierProduct>): number {
+    if (ProductService.isAddon(tier)) return 0;
+    return Math.max(1, tier.ticketsPerUnit ?? 1);
+  }
+
+  static ticketsFor(tier: Partial<TierProduct>, quantity: number): number {
+    return ProductService.ticketsPerUnit(tier) * quantity;
+  }
+
+  /**
+   * Clean up a tier's product fields from the editor. Add-ons can't be bundles
+   * or series passes; admission tiers have no fulfillment.
+   */
+  static productFields(tier: Record<string, any>): Pick<InsertTicketsTier, 'kind' | 'ticketsPerUnit' | 'addonFulfillment' | 'taxable' | 'seriesPass'> {
+    const product = tierProductSchema.parse({
+      kind: tier.kind ?? undefined,
+      ticketsPerUnit: tier.ticketsPerUnit ?? undefined,
+      addonFulfillment: tier.addonFulfillment ?? undefined,
+      taxable: tier.taxable ?? undefined
+    });
+
+    if (product.kind === 'addon') {
+      return {
+        kind: 'addon',
+        ticketsPerUnit: 1,
+        addonFulfillment: product.addonFulfillment || 'none',
+        taxable: product.taxable,
+        seriesPass: false
+      };
+    }
+    return {
+      kind: 'admission',
+      ticketsPerUnit: product.ticketsPerUnit,
+      addonFulfillment: null,
+      taxable: product.taxable,
+      seriesPass: !!tier.seriesPass
+    };
+  }
+
+  /**
+   * Add-ons are sold alongside admission, never on their own. Throws with productInvalid set.
+   */
+  static validateCart(items: Array<{ tier: TicketsTier; quantity: number }>, eventId: string): void {
+    if (items.some(item => item.tier.eventId !== eventId)) {
+      throw productInvalid('One of the selected tickets is not for this event');
+    }
+    if (items.length > 0 && items.every(item => ProductService.isAddon(item.tier))) {
+      throw productInvalid('Add-ons have to be bought together with a ticket');
+    }
+  }
+
+  static async issueVouchers(orderId: string, orderItem: TicketsOrderItem, tier: TicketsTier): Promise<TicketsVoucher[]> {
+    if (!ProductService.isAddon(tier) || tier.addonFulfillment !== 'voucher') return [];
+
+    return ticketsStorage.createVouchers(Array.from({ length: orderItem.quantity }, () => ({
+      orderId,
+      orderItemId: orderItem.id,
+      tierId: tier.id,
+      code: ProductService.generateVoucherCode(),
+      status: 'issued'
+    })));
+  }
+
+  static generateVoucherCode(): string {
+    const bytes = crypto.randomBytes(VOUCHER_CODE_LENGTH);
+    const code = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  /**
+   * Redeem a voucher for an event at the venue. Codes are matched without dashes or case.
+   */
+  static async redeemVoucher(eventId: string, rawCode: string, redeemedBy: string): Promise<VoucherRedemption> {
+    const compact = rawCode.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+    const code = compact.length === VOUCHER_CODE_LENGTH ? `${compact.slice(0, 5)}-${compact.slice(5)}` : rawCode.trim().toUpperCase();
+
+    const voucher = await ticketsStorage.getVoucherByCode(code);
+    const tier = voucher ? await ticketsStorage.getTierById(voucher.tierId) : null;
+    if (!voucher || !tier || tier.eventId !== eventId) {
+      return { state: 'not_found' };
+    }
+
+    if (voucher.status === 'void') return { state: 'void', voucher, tier };
+    if (voucher.status === 'redeemed') return { state: 'already_redeemed', voucher, tier };
+
+    const redeemed = await ticketsStorage.redeemVoucher(voucher.id, redeemedBy);
+    if (!redeemed) {
+      // Someone else redeemed it between the lookup and the update
+      const current = await ticketsStorage.getVoucherByCode(code);
+      return { state: current?.status === 'void' ? 'void' : 'already_redeemed', voucher: current || voucher, tier };
+    }
+    return { state: 'redeemed', voucher: redeemed, tier };
+  }
+}
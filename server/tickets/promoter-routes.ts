@@ -0,0 +1,305 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { PromoterService, type PromoterStats } from "./promoter-service";
+import { createPromoterSchema, updatePromoterSchema } from "./validation";
+import type { TicketsPromoter, InsertTicketsPromoter } from "@shared/schema";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+const withStats = (promoter: TicketsPromoter, stats?: PromoterStats) => ({
+  ...promoter,
+  commissionValue: promoter.commissionValue != null ? Number(promoter.commissionValue) : null,
+  stats: stats ?? PromoterService.statsFor(promoter, [])
+});
+
+export function addPromoterRoutes(app: Express) {
+
+  const loadOwnedEvent = async (req: Request & { organizer?: any }, res: Response) => {
+    const event = await ticketsStorage.getEventById(req.params.eventId);
+    if (!event || event.organizerId !== req.organizer.id) {
+      res.status(403).json({ ok: false, error: 'Access denied' });
+      return null;
+    }
+    return event;
+  };
+
+  const loadPromoter = async (req: Request, res: Response) => {
+    const promoter = await ticketsStorage.getPromoterById(req.params.promoterId);
+    if (!promoter || promoter.eventId !== req.params.eventId) {
+      res.status(404).json({ ok: false, error: 'Promoter not found' });
+      return null;
+    }
+    return promoter;
+  };
+
+  // List an event's promoter links with their sales, best sellers first
+  app.get('/api/tickets/events/:eventId/promoters', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      if (!await loadOwnedEvent(req, res)) return;
+
+      const [promoters, leaderboard] = await Promise.all([
+        ticketsStorage.getPromotersByEvent(req.params.eventId),
+        PromoterService.getLeaderboard(req.params.eventId)
+      ]);
+      const byId = new Map(promoters.map(p => [p.id, p]));
+
+      res.json({
+        ok: true,
+        promoters: leaderboard.map(stats => withStats(byId.get(stats.promoterId)!, stats))
+      });
+    } catch (error) {
+      console.error('Error fetching promoters:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch promoters' });
+    }
+  });
+
+  // Create a promoter link
+  app.post('/api/tickets/events/:eventId/promoters', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { refCode, ...fields } = createPromoterSchema.parse(req.body);
+      const { eventId } = req.params;
+
+      if (!await loadOwnedEvent(req, res)) return;
+
+      let normalizedRef: string;
+      if (refCode) {
+        normalizedRef = PromoterService.normalizeRefCode(refCode);
+        if (await ticketsStorage.getPromoterByRefCode(eventId, normalizedRef)) {
+          return res.status(409).json({ ok: false, error: `The ref code ${normalizedRef} is already used for this event` });
+        }
+      } else {
+        normalizedRef = await PromoterService.generateRefCode(eventId, fields.name);
+      }
+
+      const promoter = await ticketsStorage.createPromoter({
+        eventId,
+        name: fields.name,
+        email: fields.email || null,
+        refCode: normalizedRef,
+        commissionType: fields.commissionType ?? null,
+        commissionValue: fields.commissionValue != null ? String(fields.commissionValue) : null,
+        viewToken: PromoterService.generateViewToken(),
+        status: 'active',
+        createdBy: req.organizer.id
+      });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'promoter_created',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { promoterId: promoter.id, name: promoter.name, refCode: promoter.refCode },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, promoter: withStats(promoter) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid promoter' });
+      }
+      console.error('Error creating promoter:', error);
+      res.status(500).json({ ok: false, error: 'Failed to create promoter' });
+    }
+  });
+
+  // Edit, disable or re-enable a promoter link
+  app.patch('/api/tickets/events/:eventId/promoters/:promoterId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { refCode, commissionValue, ...fields } = updatePromoterSchema.parse(req.body);
+      const { eventId, promoterId } = req.params;
+
+      if (!await loadOwnedEvent(req, res)) return;
+      const promoter = await loadPromoter(req, res);
+      if (!promoter) return;
+
+      const updates: Partial<InsertTicketsPromoter> = { ...fields };
+      if (commissionValue !== undefined) {
+        updates.commissionValue = commissionValue != null ? String(commissionValue) : null;
+      }
+      if (fields.commissionType === null) {
+        updates.commissionValue = null;
+      }
+
+      if (refCode !== undefined) {
+        const normalizedRef = PromoterService.normalizeRefCode(refCode);
+        if (normalizedRef !== promoter.refCode) {
+          // Links already shared with the old code would stop being tracked
+          const orders = await ticketsStorage.getPromoterOrders(eventId, promoterId);
+          if (orders.length > 0) {
+            return res.status(409).json({ ok: false, error: "A link that has already sold tickets can't change its ref code" });
+          }
+          if (await ticketsStorage.getPromoterByRefCode(eventId, normalizedRef)) {
+            return res.status(409).json({ ok: false, error: `The ref code ${normalizedRef} is already used for this event` });
+          }
+          updates.refCode = normalizedRef;
+        }
+      }
+
+      const updated = await ticketsStorage.updatePromoter(promoterId, updates);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: fields.status === 'disabled' ? 'promoter_disabled' : fields.status === 'active' && promoter.status === 'disabled' ? 'promoter_enabled' : 'promoter_updated',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { promoterId, refCode: updated.refCode, changes: Object.keys(updates) },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      const orders = await ticketsStorage.getPromoterOrders(eventId, promoterId);
+      res.json({ ok: true, promoter: withStats(updated, PromoterService.statsFor(updated, orders)) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid promoter' });
+      }
+      console.error('Error updating promoter:', error);
+      res.status(500).json({ ok: false, error: 'Failed to update promoter' });
+    }
+  });
+
+  // Issue a new read-only stats link, cutting off the old one
+  app.post('/api/tickets/events/:eventId/promoters/:promoterId/rotate-token', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId, promoterId } = req.params;
+
+      if (!await loadOwnedEvent(req, res)) return;
+      if (!await loadPromoter(req, res)) return;
+
+      const updated = await ticketsStorage.updatePromoter(promoterId, { viewToken: PromoterService.generateViewToken() });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'promoter_view_link_rotated',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { promoterId },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, viewToken: updated.viewToken });
+    } catch (error) {
+      console.error('Error rotating promoter view link:', error);
+      res.status(500).json({ ok: false, error: 'Failed to create a new view link' });
+    }
+  });
+
+  // Delete a promoter link that hasn't sold anything yet
+  app.delete('/api/tickets/events/:eventId/promoters/:promoterId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId, promoterId } = req.params;
+
+      if (!await loadOwnedEvent(req, res)) return;
+      const promoter = await loadPromoter(req, res);
+      if (!promoter) return;
+
+      const orders = await ticketsStorage.getPromoterOrders(eventId, promoterId);
+      if (orders.length > 0) {
+        return res.status(409).json({ ok: false, error: 'This link has already sold tickets - disable it instead' });
+      }
+
+      await ticketsStorage.deletePromoter(promoterId);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'promoter_deleted',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { promoterId, name: promoter.name, refCode: promoter.refCode },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error deleting promoter:', error);
+      res.status(500).json({ ok: false, error: 'Failed to delete promoter' });
+    }
+  });
+
+  // Read-only stats for a promoter, opened from their private link. No buyer details.
+  app.get('/api/tickets/promoters/view/:token', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      const promoter = await ticketsStorage.getPromoterByViewToken(req.params.token);
+      if (!promoter) {
+        return res.status(404).json({ ok: false, error: 'This promoter link is not valid' });
+      }
+
+      const [event, orders] = await Promise.all([
+        ticketsStorage.getEventById(promoter.eventId),
+        ticketsStorage.getPromoterOrders(promoter.eventId, promoter.id)
+      ]);
+      if (!event) {
+        return res.status(404).json({ ok: false, error: 'Event not found' });
+      }
+
+      const recentSales = orders
+        .filter(o => o.placedAt)
+        .sort((a, b) => b.placedAt!.localeCompare(a.placedAt!))
+        .slice(0, 20)
+        .map(o => ({ placedAt: o.placedAt, tickets: PromoterService.ticketsIn(o) }));
+
+      res.json({
+        ok: true,
+        promoter: {
+          name: promoter.name,
+          refCode: promoter.refCode,
+          status: promoter.status,
+          commissionType: promoter.commissionType,
+          commissionValue: promoter.commissionValue != null ? Number(promoter.commissionValue) : null
+        },
+        event: {
+          title: event.title,
+          slug: event.slug,
+          startAt: event.startAt,
+          venue: event.venue,
+          city: event.city,
+          coverUrl: event.coverUrl
+        },
+        stats: PromoterService.statsFor(promoter, orders),
+        recentSales
+      });
+    } catch (error) {
+      console.error('Error fetching promoter view:', error);
+      res.status(500).json({ ok: false, error: 'Failed to load promoter stats' });
+    }
+  });
+}
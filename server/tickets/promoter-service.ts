@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { ticketsStorage } from './tickets-storage';
+import { ProductService } from './product-service';
+import type { TicketsPromoter } from '@shared/schema';
+
+const REF_CODE_MAX_LENGTH = 32;
+
+export interface PromoterStats {
+  promoterId: string;
+  name: string;
+  refCode: string;
+  status: string;
+  orders: number;
+  ticketsSold: number;
+  grossCents: number; // ticket sales after discounts and refunds, before tax and fees
+  commissionCents: number | null; // null when the promoter has no commission set
+  lastSaleAt: string | null;
+}
+
+type PromoterOrder = Awaited<ReturnType<typeof ticketsStorage.getPromoterOrders>>[number];
+
+export class PromoterService {
+  /**
+   * Ref codes go in URLs, so keep them to lower-case letters, digits and dashes
+   */
+  static normalizeRefCode(refCode: string): string {
+    return refCode
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, REF_CODE_MAX_LENGTH);
+  }
+
+  static generateViewToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+  }
+
+  /**
+   * A ref code based on the promoter's name, with a random suffix if the event
+   * already has one like it
+   */
+  static async generateRefCode(eventId: string, name: string): Promise<string> {
+    const base = PromoterService.normalizeRefCode(name).slice(0, REF_CODE_MAX_LENGTH - 5) || 'promo';
+
+    let candidate = base;
+    while (await ticketsStorage.getPromoterByRefCode(eventId, candidate)) {
+      candidate = `${base}-${crypto.randomBytes(2).toString('hex')}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * The promoter a checkout's ?ref= value points to. Unknown or disabled links
+   * are ignored rather than failing the purchase.
+   */
+  static async resolveRef(eventId: string, ref?: string | null): Promise<TicketsPromoter | null> {
+    if (!ref) return null;
+
+    const refCode = PromoterService.normalizeRefCode(ref);
+    if (!refCode) return null;
+
+    const promoter = await ticketsStorage.getPromoterByRefCode(eventId, refCode);
+    return promoter && promoter.status === 'active' ? promoter : null;
+  }
+
+  /**
+   * What a promoter is owed on their sales: a percentage of gross or a flat
+   * amount per ticket
+   */
+  static commissionFor(promoter: TicketsPromoter, grossCents: number, ticketsSold: number): number | null {
+    if (!promoter.commissionType || promoter.commissionValue == null) return null;
+
+    const value = Number(promoter.commissionValue);
+    return promoter.commissionType === 'percent'
+      ? Math.round(grossCents * (value / 100))
+      : Math.round(value * ticketsSold);
+  }
+
+  // Entry tickets in an order - bundles count each ticket they issue, add-ons count for nothing
+  static ticketsIn(order: PromoterOrder): number {
+    return order.items.reduce((sum, item) => sum + ProductService.ticketsFor(item, item.quantity), 0);
+  }
+
+  static statsFor(promoter: TicketsPromoter, orders: PromoterOrder[]): PromoterStats {
+    const ticketsSold = orders.reduce((sum, o) => sum + PromoterService.ticketsIn(o), 0);
+    // subtotalCents is already net of the order's discount. Refunds come off the total, tax and
+    // fees included, so only the subtotal's share of a refund comes off the gross.
+    const grossCents = orders.reduce((sum, o) => {
+      const refundedSubtotalCents = o.totalCents > 0 ? Math.round(o.refundedAmountCents * o.subtotalCents / o.totalCents) : 0;
+      return sum + Math.max(0, o.subtotalCents - refundedSubtotalCents);
+    }, 0);
+    const lastSaleAt = orders.reduce<string | null>((latest, o) =>
+      o.placedAt && (!latest || o.placedAt > latest) ? o.placedAt : latest, null
+    );
+
+    return {
+      promoterId: promoter.id,
+      name: promoter.name,
+      refCode: promoter.refCode,
+      status: promoter.status,
+      orders: orders.length,
+      ticketsSold,
+      grossCents,
+      commissionCents: PromoterService.commissionFor(promoter, grossCents, ticketsSold),
+      lastSaleAt
+    };
+  }
+
+  /**
+   * Every promoter on the event ranked by tickets sold, then gross
+   */
+  static async getLeaderboard(eventId: string): Promise<PromoterStats[]> {
+    const [promoters, orders] = await Promise.all([
+      ticketsStorage.getPromotersByEvent(eventId),
+      ticketsStorage.getPromoterOrders(eventId)
+    ]);
+
+    return promoters
+      .map(promoter => PromoterService.statsFor(promoter, orders.filter(o => o.promoterId === promoter.id)))
+      .sort((a, b) => b.ticketsSold - a.ticketsSold || b.grossCents - a.grossCents);
+  }
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import type { TicketsTicket } from '@shared/schema';
+
+// Signed QR codes look like JT1.<payload>.<signature>, both base64url
+const CODE_PREFIX = 'JT1';
+
+export interface SignedTicketPayload {
+  t: string; // ticket id
+  e: string; // event id
+  q: string; // qr token
+  s: string; // serial
+}
+
+let privateKey: crypto.KeyObject | null = null;
+let publicKey: crypto.KeyObject | null = null;
+
+/**
+ * P-256 so scanning devices can verify codes with WebCrypto while offline.
+ * Without TICKETS_QR_SIGNING_KEY a throwaway key is generated, which means
+ * codes issued before a restart can still be checked in online but won't
+ * verify on offline devices.
+ */
+const loadKeys = () => {
+  if (privateKey && publicKey) return;
+
+  const pem = process.env.TICKETS_QR_SIGNING_KEY;
+  if (pem) {
+    privateKey = crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+  } else {
+    console.warn('[QR Signing] TICKETS_QR_SIGNING_KEY not configured - using an ephemeral key');
+    privateKey = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+  }
+  publicKey = crypto.createPublicKey(privateKey);
+};
+
+export class QrSigningService {
+  /**
+   * QR code contents for a ticket: its token plus enough context to verify offline
+   */
+  static signTicket(ticket: Pick<TicketsTicket, 'id' | 'qrToken' | 'serial'>, eventId: string): string {
+    loadKeys();
+    const payload: SignedTicketPayload = { t: ticket.id, e: eventId, q: ticket.qrToken, s: ticket.serial };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = crypto.sign('sha256', Buffer.from(`${CODE_PREFIX}.${encoded}`), {
+      key: privateKey!,
+      dsaEncoding: 'ieee-p1363'
+    });
+    return `${CODE_PREFIX}.${encoded}.${signature.toString('base64url')}`;
+  }
+
+  static isSignedCode(code: string): boolean {
+    return code.startsWith(`${CODE_PREFIX}.`) && code.split('.').length === 3;
+  }
+
+  /**
+   * Decode a signed code without checking the signature. Online lookups don't
+   * need it - the embedded token is what gets matched against the database.
+   */
+  static decode(code: string): SignedTicketPayload | null {
+    if (!QrSigningService.isSignedCode(code)) return null;
+    try {
+      const payload = JSON.parse(Buffer.from(code.split('.')[1], 'base64url').toString('utf8'));
+      if (typeof payload?.t !== 'string' || typeof payload?.q !== 'string') return null;
+      return payload;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Decode a signed code, returning null unless it was signed with our key
+   */
+  static verify(code: string): SignedTicketPayload | null {
+    const payload = QrSigningService.decode(code);
+    if (!payload) return null;
+
+    loadKeys();
+    const [prefix, encoded, signature] = code.split('.');
+    const valid = crypto.verify('sha256', Buffer.from(`${prefix}.${encoded}`), {
+      key: publicKey!,
+      dsaEncoding: 'ieee-p1363'
+    }, Buffer.from(signature, 'base64url'));
+
+    return valid ? payload : null;
+  }
+
+  /**
+   * Whatever a scanner read - a signed code or a bare token - as the ticket's QR token
+   */
+  static extractQrToken(code: string): string {
+    return QrSigningService.decode(code)?.q ?? code;
+  }
+
+  static getPublicKeyJwk(): crypto.JsonWebKey {
+    loadKeys();
+    return publicKey!.export({ format: 'jwk' });
+  }
+
+  /**
+   * Short fingerprint of the public key so devices can spot a rotated key
+   */
+  static getKeyId(): string {
+    loadKeys();
+    const der = publicKey!.export({ format: 'der', type: 'spki' });
+    return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+  }
+}
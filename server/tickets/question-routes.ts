@@ -0,0 +1,236 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { createQuestionSchema, updateQuestionSchema } from "./validation";
+import type { InsertTicketsEventQuestion } from "@shared/schema";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+export function addQuestionRoutes(app: Express) {
+
+  const loadOwnedEvent = async (req: Request & { organizer?: any }, res: Response) => {
+    const event = await ticketsStorage.getEventById(req.params.eventId);
+    if (!event || event.organizerId !== req.organizer.id) {
+      res.status(403).json({ ok: false, error: 'Access denied' });
+      return null;
+    }
+    return event;
+  };
+
+  const loadQuestion = async (req: Request, res: Response) => {
+    const question = await ticketsStorage.getQuestionById(req.params.questionId);
+    if (!question || question.eventId !== req.params.eventId) {
+      res.status(404).json({ ok: false, error: 'Question not found' });
+      return null;
+    }
+    return question;
+  };
+
+  // Tier limits only make sense for per-ticket questions, and only for this event's tiers
+  const checkTierIds = async (eventId: string, appliesTo: string, tierIds: string[] | null | undefined) => {
+    if (!tierIds || tierIds.length === 0) return null;
+    if (appliesTo !== 'ticket') return 'Only per-ticket questions can be limited to certain tiers';
+    const tiers = await ticketsStorage.getTiersByEvent(eventId);
+    const known = new Set(tiers.map(t => t.id));
+    return tierIds.every(id => known.has(id)) ? null : 'One of the selected tiers does not belong to this event';
+  };
+
+  // An event's questions, hidden ones included, with how many answers each has
+  app.get('/api/tickets/events/:eventId/questions', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+
+      const questions = await ticketsStorage.getQuestionsByEvent(event.id);
+      const answerCounts = await Promise.all(questions.map(q => ticketsStorage.countQuestionAnswers(q.id)));
+
+      res.json({
+        ok: true,
+        questions: questions.map((q, index) => ({ ...q, answerCount: answerCounts[index] }))
+      });
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch questions' });
+    }
+  });
+
+  app.post('/api/tickets/events/:eventId/questions', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const data = createQuestionSchema.parse(req.body);
+
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+
+      const appliesTo = data.appliesTo || 'order';
+      const tierError = await checkTierIds(event.id, appliesTo, data.tierIds);
+      if (tierError) {
+        return res.status(400).json({ ok: false, error: tierError });
+      }
+
+      let sortOrder = data.sortOrder;
+      if (sortOrder === undefined) {
+        const existing = await ticketsStorage.getQuestionsByEvent(event.id);
+        sortOrder = existing.reduce((max, q) => Math.max(max, q.sortOrder + 1), 0);
+      }
+
+      const question = await ticketsStorage.createQuestion({
+        eventId: event.id,
+        label: data.label,
+        helpText: data.helpText || null,
+        type: data.type,
+        options: data.type === 'select' ? data.options : null,
+        required: data.required ?? false,
+        appliesTo,
+        tierIds: data.tierIds?.length ? data.tierIds : null,
+        sortOrder,
+        status: 'active'
+      });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'question_created',
+        targetType: 'event',
+        targetId: event.id,
+        metaJson: { questionId: question.id, label: question.label, type: question.type, appliesTo },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, question: { ...question, answerCount: 0 } });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid question' });
+      }
+      console.error('Error creating question:', error);
+      res.status(500).json({ ok: false, error: 'Failed to create question' });
+    }
+  });
+
+  // Edit, reorder, hide or show a question
+  app.patch('/api/tickets/events/:eventId/questions/:questionId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const data = updateQuestionSchema.parse(req.body);
+
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+      const question = await loadQuestion(req, res);
+      if (!question) return;
+
+      const answerCount = await ticketsStorage.countQuestionAnswers(question.id);
+      const typeChanged = data.type !== undefined && data.type !== question.type;
+      const scopeChanged = data.appliesTo !== undefined && data.appliesTo !== question.appliesTo;
+      if (answerCount > 0 && (typeChanged || scopeChanged)) {
+        return res.status(409).json({ ok: false, error: 'This question already has answers - add a new question instead of changing its type' });
+      }
+
+      const type = data.type ?? question.type;
+      const appliesTo = data.appliesTo ?? question.appliesTo;
+      const options = data.options !== undefined ? data.options : question.options as string[] | null;
+      if (type === 'select' && (options?.length ?? 0) < 2) {
+        return res.status(400).json({ ok: false, error: 'Dropdown questions need at least two options' });
+      }
+
+      const tierIds = data.tierIds !== undefined ? data.tierIds : question.tierIds as string[] | null;
+      const tierError = await checkTierIds(event.id, appliesTo, appliesTo === 'ticket' ? tierIds : null);
+      if (tierError) {
+        return res.status(400).json({ ok: false, error: tierError });
+      }
+
+      const updates: Partial<InsertTicketsEventQuestion> = {};
+      if (data.label !== undefined) updates.label = data.label;
+      if (data.helpText !== undefined) updates.helpText = data.helpText || null;
+      if (data.type !== undefined) updates.type = data.type;
+      if (data.options !== undefined || data.type !== undefined) updates.options = type === 'select' ? options : null;
+      if (data.required !== undefined) updates.required = data.required;
+      if (data.appliesTo !== undefined) updates.appliesTo = data.appliesTo;
+      if (data.tierIds !== undefined || scopeChanged) updates.tierIds = appliesTo === 'ticket' && tierIds?.length ? tierIds : null;
+      if (data.sortOrder !== undefined) updates.sortOrder = data.sortOrder;
+      if (data.status !== undefined) updates.status = data.status;
+
+      const updated = await ticketsStorage.updateQuestion(question.id, updates);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: data.status === 'hidden' && question.status !== 'hidden' ? 'question_hidden' : 'question_updated',
+        targetType: 'event',
+        targetId: event.id,
+        metaJson: { questionId: question.id, label: updated.label, changes: Object.keys(updates) },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, question: { ...updated, answerCount } });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid question' });
+      }
+      console.error('Error updating question:', error);
+      res.status(500).json({ ok: false, error: 'Failed to update question' });
+    }
+  });
+
+  // Remove a question nobody has answered yet
+  app.delete('/api/tickets/events/:eventId/questions/:questionId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const event = await loadOwnedEvent(req, res);
+      if (!event) return;
+      const question = await loadQuestion(req, res);
+      if (!question) return;
+
+      if (await ticketsStorage.countQuestionAnswers(question.id) > 0) {
+        return res.status(409).json({ ok: false, error: 'Buyers have already answered this question - hide it instead' });
+      }
+
+      await ticketsStorage.deleteQuestion(question.id);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'question_deleted',
+        targetType: 'event',
+        targetId: event.id,
+        metaJson: { questionId: question.id, label: question.label },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error deleting question:', error);
+      res.status(500).json({ ok: false, error: 'Failed to delete question' });
+    }
+  });
+}
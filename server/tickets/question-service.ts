@@ -0,0 +1,186 @@
+import { ticketsStorage } from './tickets-storage';
+import type { TicketsEventQuestion, TicketsOrderAnswer, InsertTicketsOrderAnswer } from '@shared/schema';
+
+type AnswerValue = string | boolean | number;
+
+export interface CheckoutAnswers {
+  order?: Record<string, AnswerValue>;
+  tickets?: Array<{ tierId: string; answers: Record<string, AnswerValue> }>;
+}
+
+export interface AttendeeAnswer {
+  questionId: string;
+  label: string;
+  value: string;
+}
+
+function answersInvalid(message: string): Error {
+  const error = new Error(message) as Error & { answersInvalid?: boolean };
+  error.answersInvalid = true;
+  return error;
+}
+
+export class QuestionService {
+  // Ticket questions can be limited to some tiers
+  static appliesToTier(question: TicketsEventQuestion, tierId: string): boolean {
+    const tierIds = question.tierIds as string[] | null;
+    return !tierIds || tierIds.length === 0 || tierIds.includes(tierId);
+  }
+
+  // What gets stored for one answer, or null when it was left blank
+  static normalizeAnswer(question: TicketsEventQuestion, raw: AnswerValue | undefined, ticketLabel?: string): string | null {
+    const where = ticketLabel ? ` for ${ticketLabel}` : '';
+    let value: string | null = null;
+
+    if (question.type === 'checkbox') {
+      value = raw === true || raw === 'true' ? 'Yes' : null;
+    } else if (raw !== undefined && raw !== null && String(raw).trim() !== '') {
+      value = String(raw).trim();
+      if (question.type === 'number' && !Number.isFinite(Number(value))) {
+        throw answersInvalid(`"${question.label}"${where} must be a number`);
+      }
+      if (question.type === 'select' && !((question.options as string[] | null) || []).includes(value)) {
+        throw answersInvalid(`Pick one of the listed options for "${question.label}"${where}`);
+      }
+    }
+
+    if (value === null && question.required) {
+      throw answersInvalid(question.type === 'checkbox'
+        ? `Please confirm "${question.label}"${where}`
+        : `Please answer "${question.label}"${where}`);
+    }
+    return value;
+  }
+
+  /**
+   * Check the buyer's answers against the event's active questions before the order is created.
+   * Answers to questions the event doesn't ask are dropped. Throws with answersInvalid set.
+   */
+  static async validateAnswers(
+    eventId: string,
+    items: Array<{ tierId: string; quantity: number }>,
+    answers: CheckoutAnswers | undefined
+  ): Promise<Omit<InsertTicketsOrderAnswer, 'orderId'>[]> {
+    const questions = (await ticketsStorage.getQuestionsByEvent(eventId)).filter(q => q.status === 'active');
+    if (questions.length === 0) return [];
+
+    const rows: Omit<InsertTicketsOrderAnswer, 'orderId'>[] = [];
+
+    for (const question of questions.filter(q => q.appliesTo === 'order')) {
+      const value = this.normalizeAnswer(question, answers?.order?.[question.id]);
+      if (value !== null) {
+        rows.push({ questionId: question.id, value });
+      }
+    }
+
+    const ticketQuestions = questions.filter(q => q.appliesTo === 'ticket');
+    if (ticketQuestions.length === 0) return rows;
+
+    // The nth ticket entry for a tier answers for the nth ticket of that tier
+    const entriesByTier = new Map<string, Array<Record<string, AnswerValue>>>();
+    for (const entry of answers?.tickets || []) {
+      const list = entriesByTier.get(entry.tierId) || [];
+      list.push(entry.answers);
+      entriesByTier.set(entry.tierId, list);
+    }
+
+    const seenPerTier = new Map<string, number>();
+    for (const item of items) {
+      const asked = ticketQuestions.filter(q => this.appliesToTier(q, item.tierId));
+      for (let i = 0; i < item.quantity; i++) {
+        const ticketIndex = seenPerTier.get(item.tierId) || 0;
+        seenPerTier.set(item.tierId, ticketIndex + 1);
+        if (asked.length === 0) continue;
+
+        const entry = entriesByTier.get(item.tierId)?.[ticketIndex];
+        const totalForTier = items.filter(it => it.tierId === item.tierId).reduce((sum, it) => sum + it.quantity, 0);
+        const ticketLabel = totalForTier > 1 ? `ticket ${ticketIndex + 1}` : undefined;
+
+        for (const question of asked) {
+          const value = this.normalizeAnswer(question, entry?.[question.id], ticketLabel);
+          if (value !== null) {
+            rows.push({ questionId: question.id, tierId: item.tierId, ticketIndex, value });
+          }
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  static async saveAnswers(orderId: string, rows: Omit<InsertTicketsOrderAnswer, 'orderId'>[]): Promise<void> {
+    await ticketsStorage.createOrderAnswers(rows.map(row => ({ ...row, orderId })));
+  }
+
+  /**
+   * Point per-ticket answers at the tickets once they're issued.
+   * Tickets must be passed in the order they were created.
+   */
+  static async linkTicketAnswers(orderId: string, tickets: Array<{ id: string; tierId: string }>): Promise<void> {
+    const answers = (await ticketsStorage.getOrderAnswers(orderId)).filter(a => a.tierId && a.ticketIndex !== null && !a.ticketId);
+    if (answers.length === 0) return;
+
+    const ticketsByTier = new Map<string, string[]>();
+    for (const ticket of tickets) {
+      const list = ticketsByTier.get(ticket.tierId) || [];
+      list.push(ticket.id);
+      ticketsByTier.set(ticket.tierId, list);
+    }
+
+    for (const answer of answers) {
+      const ticketId = ticketsByTier.get(answer.tierId!)?.[answer.ticketIndex!];
+      if (ticketId) {
+        await ticketsStorage.setAnswerTicket(answer.id, ticketId);
+      }
+    }
+  }
+
+  /**
+   * An event's questions (hidden ones too, since they may have answers) and each attendee's answers
+   */
+  static async attendeeAnswers(eventId: string, attendees: Array<{ ticketId: string; orderId?: string }>) {
+    const [questions, answers] = await Promise.all([
+      ticketsStorage.getQuestionsByEvent(eventId),
+      ticketsStorage.getAnswersByEvent(eventId)
+    ]);
+    return { questions, byTicket: this.groupAnswersByTicket(questions, answers, attendees) };
+  }
+
+  /**
+   * Answers for each ticket of an event: the order's answers plus the ticket's own.
+   * Keyed by ticket id; questions come back in the event's question order.
+   */
+  static groupAnswersByTicket(
+    questions: TicketsEventQuestion[],
+    answers: TicketsOrderAnswer[],
+    attendees: Array<{ ticketId: string; orderId?: string }>
+  ): Map<string, AttendeeAnswer[]> {
+    const position = new Map(questions.map((q, index) => [q.id, index]));
+    const labels = new Map(questions.map(q => [q.id, q.label]));
+
+    const orderAnswers = new Map<string, TicketsOrderAnswer[]>();
+    const ticketAnswers = new Map<string, TicketsOrderAnswer[]>();
+    for (const answer of answers) {
+      if (!labels.has(answer.questionId)) continue;
+      const [map, key] = answer.ticketIndex === null || answer.ticketIndex === undefined
+        ? [orderAnswers, answer.orderId]
+        : [ticketAnswers, answer.ticketId];
+      if (!key) continue;
+      const list = map.get(key) || [];
+      list.push(answer);
+      map.set(key, list);
+    }
+
+    const result = new Map<string, AttendeeAnswer[]>();
+    for (const attendee of attendees) {
+      const combined = [
+        ...(attendee.orderId ? orderAnswers.get(attendee.orderId) || [] : []),
+        ...(ticketAnswers.get(attendee.ticketId) || [])
+      ];
+      result.set(attendee.ticketId, combined
+        .sort((a, b) => position.get(a.questionId)! - position.get(b.questionId)!)
+        .map(a => ({ questionId: a.questionId, label: labels.get(a.questionId)!, value: a.value })));
+    }
+    return result;
+  }
+}
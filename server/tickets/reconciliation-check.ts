@@ -0,0 +1,258 @@
+/**
+ * Runs the reconciliation against a stubbed balance transaction source and an
+ * in-memory store, and checks the matching, the journal and a payout statement.
+ *
+ *   npm run check:reconciliation
+ *
+ * Nothing here talks to Stripe or Supabase.
+ */
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type {
+  InsertTicketsJournalLine,
+  InsertTicketsStripeTransaction,
+  Organizer,
+  TicketsEvent,
+  TicketsJournalLine,
+  TicketsLedger,
+  TicketsOrder,
+  TicketsPayout,
+  TicketsReconciliationRun,
+  TicketsStripeTransaction
+} from '@shared/schema';
+import type { BalanceTransactionRecord, BalanceTransactionSource } from './reconciliation-service';
+
+// tickets-supabase connects on import - the client is never used
+process.env.SUPABASE_URL ||= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'reconciliation-check';
+
+const SINCE = new Date('2025-06-01T00:00:00Z');
+const UNTIL = new Date('2025-06-08T00:00:00Z');
+const at = (day: number) => new Date(Date.UTC(2025, 5, day, 12));
+
+// ============ FIXTURES ============
+
+// A merchant-of-record organizer, so tax and platform revenue are split out of each charge
+const organizer = { id: 'org_1', businessName: 'Monsoon Nights', stripeAccountId: null } as unknown as Organizer;
+const event = { id: 'evt_1', organizerId: organizer.id, title: 'Monsoon Nights' } as unknown as TicketsEvent;
+const payout = {
+  id: 'payout_1',
+  organizerId: organizer.id,
+  periodStart: '2025-06-01',
+  periodEnd: '2025-06-07',
+  totalCents: 1800,
+  currency: 'CAD',
+  method: 'etransfer',
+  reference: null,
+  status: 'paid',
+  paidAt: at(8)
+} as unknown as TicketsPayout;
+
+const order = (id: string, paymentIntentId: string, subtotalCents: number, taxCents: number, status: string) => ({
+  id,
+  eventId: event.id,
+  status,
+  buyerName: 'Test Buyer',
+  buyerEmail: 'buyer@example.com',
+  subtotalCents,
+  taxCents,
+  totalCents: subtotalCents + taxCents,
+  stripePaymentIntentId: paymentIntentId
+}) as unknown as TicketsOrder;
+
+const orders = [
+  order('order_refunded', 'pi_refunded', 5000, 650, 'refunded'),
+  // The ledger recorded less than the order subtotal - the charge should be flagged
+  order('order_short', 'pi_short', 2000, 0, 'paid')
+];
+
+const ledger = [
+  { id: 'led_1', organizerId: organizer.id, orderId: 'order_refunded', payoutId: payout.id, type: 'sale', amountCents: 5000, description: 'Ticket sale', createdAt: at(2) },
+  { id: 'led_2', organizerId: organizer.id, orderId: 'order_refunded', payoutId: payout.id, type: 'refund', amountCents: -5000, description: 'Refund', createdAt: at(3) },
+  { id: 'led_3', organizerId: organizer.id, orderId: 'order_short', payoutId: payout.id, type: 'sale', amountCents: 1800, description: 'Ticket sale', createdAt: at(4) }
+] as unknown as TicketsLedger[];
+
+const txn = (id: string, type: string, amount: number, fee: number, day: number, paymentIntentId: string | null): BalanceTransactionRecord => ({
+  id,
+  type,
+  reportingCategory: null,
+  sourceId: null,
+  amount,
+  fee,
+  net: amount - fee,
+  currency: 'CAD',
+  created: at(day),
+  availableOn: at(day + 2),
+  paymentIntentId,
+  metadata: {}
+});
+
+const transactions = [
+  txn('txn_charge_refunded', 'charge', 5650, 194, 2, 'pi_refunded'),
+  txn('txn_refund', 'refund', -5650, 0, 3, 'pi_refunded'),
+  txn('txn_charge_short', 'charge', 2000, 88, 4, 'pi_short'),
+  txn('txn_orphan', 'charge', 1000, 59, 5, 'pi_unknown'),
+  txn('txn_payout', 'payout', -3000, 0, 6, null)
+];
+
+const source: BalanceTransactionSource = {
+  async list(since: Date, until: Date) {
+    return transactions.filter(t => t.created >= since && t.created < until);
+  }
+};
+
+// ============ IN-MEMORY STORE ============
+
+const runs = new Map<string, TicketsReconciliationRun>();
+const stripeTransactions = new Map<string, TicketsStripeTransaction>();
+let journal: TicketsJournalLine[] = [];
+
+const store = {
+  async createReconciliationRun(data: Partial<TicketsReconciliationRun>) {
+    const run = { id: crypto.randomUUID(), importedCount: 0, matchedCount: 0, mismatchCount: 0, startedAt: new Date(), ...data } as TicketsReconciliationRun;
+    runs.set(run.id, run);
+    return run;
+  },
+  async updateReconciliationRun(id: string, data: Partial<TicketsReconciliationRun>) {
+    const run = { ...runs.get(id)!, ...data };
+    runs.set(id, run);
+    return run;
+  },
+  async getStripeTransactionByStripeId(stripeId: string) {
+    return Array.from(stripeTransactions.values()).find(t => t.stripeId === stripeId) || null;
+  },
+  async upsertStripeTransaction(data: InsertTicketsStripeTransaction) {
+    const existing = await store.getStripeTransactionByStripeId(data.stripeId);
+    const transaction = { id: existing?.id || crypto.randomUUID(), resolvedAt: null, ...data } as TicketsStripeTransaction;
+    stripeTransactions.set(transaction.id, transaction);
+    return transaction;
+  },
+  async getStripeTransactions(filters: { organizerId?: string }) {
+    return Array.from(stripeTransactions.values()).filter(t => !filters.organizerId || t.organizerId === filters.organizerId);
+  },
+  async getStripeTransactionsByOrders(orderIds: string[]) {
+    return Array.from(stripeTransactions.values()).filter(t => t.orderId && orderIds.includes(t.orderId));
+  },
+  async replaceJournalLines(stripeTransactionId: string, lines: InsertTicketsJournalLine[]) {
+    journal = journal
+      .filter(line => line.stripeTransactionId !== stripeTransactionId)
+      .concat(lines.map(line => ({ id: crypto.randomUUID(), ...line }) as TicketsJournalLine));
+  },
+  async getJournalLines(filters: { organizerId?: string }) {
+    return journal.filter(line => !filters.organizerId || line.organizerId === filters.organizerId);
+  },
+  async getResaleListingById() {
+    return null;
+  },
+  async getOrderByPaymentIntent(paymentIntentId: string) {
+    return orders.find(o => o.stripePaymentIntentId === paymentIntentId) || null;
+  },
+  async getOrderById(id: string) {
+    return orders.find(o => o.id === id) || null;
+  },
+  async getEventById(id: string) {
+    return id === event.id ? event : null;
+  },
+  async getOrganizerById(id: string) {
+    return id === organizer.id ? organizer : null;
+  },
+  async getLedgerEntriesByOrder(orderId: string) {
+    return ledger.filter(entry => entry.orderId === orderId);
+  },
+  async getLedgerEntriesByOrganizer(organizerId: string) {
+    return ledger.filter(entry => entry.organizerId === organizerId);
+  },
+  async getLedgerEntriesByPayout(payoutId: string) {
+    return ledger.filter(entry => entry.payoutId === payoutId);
+  }
+};
+
+// ============ CHECKS ============
+
+async function main() {
+  const { ticketsStorage } = await import('./tickets-storage');
+  const { ReconciliationService } = await import('./reconciliation-service');
+  const { PayoutStatementService } = await import('./payout-statement-service');
+  Object.assign(ticketsStorage, store);
+
+  const statusOf = (stripeId: string) => Array.from(stripeTransactions.values()).find(t => t.stripeId === stripeId)?.status;
+  const journalOf = (stripeId: string) => {
+    const transaction = Array.from(stripeTransactions.values()).find(t => t.stripeId === stripeId)!;
+    return journal.filter(line => line.stripeTransactionId === transaction.id);
+  };
+
+  // Import and match
+  const run = await ReconciliationService.run({ since: SINCE, until: UNTIL, source });
+  assert.equal(run.status, 'completed', run.error || undefined);
+  assert.equal(run.importedCount, 5);
+  assert.equal(run.matchedCount, 2);
+  assert.equal(run.mismatchCount, 2);
+
+  assert.equal(statusOf('txn_charge_refunded'), 'matched');
+  assert.equal(statusOf('txn_refund'), 'matched');
+  assert.equal(statusOf('txn_charge_short'), 'mismatch');
+  assert.equal(statusOf('txn_orphan'), 'unmatched');
+  assert.equal(statusOf('txn_payout'), 'ignored');
+
+  const short = await store.getStripeTransactionByStripeId('txn_charge_short');
+  assert.equal(short?.expectedCents, 2000);
+  assert.match(short?.mismatchReason || '', /Ledger sale is \$18\.00/);
+
+  // Journal entries: net to the balance, fee as an expense, gross split across the accounts
+  const charge = journalOf('txn_charge_refunded');
+  const accountCents = (lines: TicketsJournalLine[], account: string) =>
+    lines.filter(line => line.account === account).reduce((sum, line) => sum + line.debitCents - line.creditCents, 0);
+  assert.equal(accountCents(charge, 'stripe_balance'), 5456);
+  assert.equal(accountCents(charge, 'processing_fees'), 194);
+  assert.equal(accountCents(charge, 'organizer_payable'), -5000);
+  assert.equal(accountCents(charge, 'sales_tax_payable'), -650);
+  assert.equal(new Set(charge.map(line => line.journalId)).size, 1);
+
+  // Money we can't place goes to suspense
+  assert.equal(accountCents(journalOf('txn_orphan'), 'suspense'), -1000);
+
+  // A split that doesn't add up is balanced through suspense
+  const orphan = (await store.getStripeTransactionByStripeId('txn_orphan'))!;
+  const lopsided = ReconciliationService.journalLines(orphan, { platform_revenue: 990 });
+  const suspense = lopsided.find(line => line.account === 'suspense');
+  assert.equal(suspense?.creditCents, 10);
+  assert.equal(suspense?.debitCents, 0);
+  for (const lines of [lopsided, ...Array.from(stripeTransactions.keys()).map(id => journal.filter(line => line.stripeTransactionId === id))]) {
+    const debits = lines.reduce((sum, line) => sum + (line.debitCents || 0), 0);
+    const credits = lines.reduce((sum, line) => sum + (line.creditCents || 0), 0);
+    assert.equal(debits, credits, `journal ${lines[0]?.memo} is unbalanced`);
+  }
+
+  let trialBalance = await ReconciliationService.trialBalance();
+  assert.ok(trialBalance.balanced, 'trial balance should balance');
+  assert.equal(trialBalance.accounts.stripe_balance.balanceCents, 5456 - 5650 + 1912 + 941 - 3000);
+
+  // The short sale is the organizer's only open mismatch - the orphan charge belongs to no one
+  const difference = await ReconciliationService.organizerDifference(organizer.id);
+  assert.equal(difference.ledgerCents, 1800);
+  assert.equal(difference.journalCents, 1800);
+  assert.equal(difference.openMismatches, 1);
+
+  // Payout statement totals and per-line reconciliation
+  const statement = await PayoutStatementService.build(payout, organizer);
+  assert.deepEqual(statement.totals, { salesCents: 6800, refundsCents: -5000, chargebacksCents: 0, adjustmentsCents: 0, netCents: 1800 });
+  assert.equal(statement.totals.netCents, payout.totalCents);
+  assert.deepEqual(statement.lines.map(line => line.reconciliation), ['matched', 'matched', 'needs_review']);
+  assert.equal(statement.needsReviewCount, 1);
+
+  // Running the window again re-posts rather than duplicates
+  const linesBefore = journal.length;
+  const rerun = await ReconciliationService.run({ since: SINCE, until: UNTIL, source });
+  assert.equal(rerun.status, 'completed');
+  assert.equal(stripeTransactions.size, 5);
+  assert.equal(journal.length, linesBefore);
+  trialBalance = await ReconciliationService.trialBalance();
+  assert.ok(trialBalance.balanced, 'trial balance should still balance after a rerun');
+
+  console.log('[Reconciliation check] All checks passed');
+}
+
+main().catch(error => {
+  console.error('[Reconciliation check] Failed:', error);
+  process.exit(1);
+});
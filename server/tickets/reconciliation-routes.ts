@@ -0,0 +1,229 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { ReconciliationService } from "./reconciliation-service";
+import { PayoutStatementService } from "./payout-statement-service";
+import { reconciliationRunSchema, resolveMismatchSchema } from "./validation";
+import type { TicketsPayout } from '@shared/schema';
+import { requireAdmin, getAdminActor, actorLabel } from "../adminAuth";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+const loadOwnedPayout = async (req: Request & { organizer?: any }, res: Response): Promise<TicketsPayout | null> => {
+  const payout = await ticketsStorage.getPayoutById(req.params.payoutId);
+  if (!payout || payout.organizerId !== req.organizer.id) {
+    res.status(404).json({ ok: false, error: 'Payout not found' });
+    return null;
+  }
+  return payout;
+};
+
+const statementFilename = (payout: TicketsPayout, extension: string) =>
+  `payout-statement-${payout.periodStart}-to-${payout.periodEnd}.${extension}`;
+
+export function addReconciliationRoutes(app: Express) {
+  // ============ ORGANIZER PAYOUT STATEMENTS ============
+
+  app.get('/api/tickets/organizers/payouts/:payoutId/statement', requireTicketing, requireOrganizer, async (req: Request, res: Response) => {
+    try {
+      const organizer = (req as any).organizer;
+      const payout = await loadOwnedPayout(req, res);
+      if (!payout) return;
+
+      const statement = await PayoutStatementService.build(payout, organizer);
+      res.json({ ok: true, statement });
+    } catch (error) {
+      console.error('Get payout statement error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to build payout statement' });
+    }
+  });
+
+  app.get('/api/tickets/organizers/payouts/:payoutId/statement/csv', requireTicketing, requireOrganizer, async (req: Request, res: Response) => {
+    try {
+      const organizer = (req as any).organizer;
+      const payout = await loadOwnedPayout(req, res);
+      if (!payout) return;
+
+      const statement = await PayoutStatementService.build(payout, organizer);
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${statementFilename(payout, 'csv')}"`);
+      res.send(PayoutStatementService.toCsv(statement));
+    } catch (error) {
+      console.error('Export payout statement CSV error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to export payout statement' });
+    }
+  });
+
+  app.get('/api/tickets/organizers/payouts/:payoutId/statement/pdf', requireTicketing, requireOrganizer, async (req: Request, res: Response) => {
+    try {
+      const organizer = (req as any).organizer;
+      const payout = await loadOwnedPayout(req, res);
+      if (!payout) return;
+
+      const statement = await PayoutStatementService.build(payout, organizer);
+      const pdf = await PayoutStatementService.toPdf(statement);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${statementFilename(payout, 'pdf')}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error('Export payout statement PDF error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to export payout statement' });
+    }
+  });
+
+  // ============ ADMIN RECONCILIATION ============
+
+  // Run reconciliation now - without a range it continues from the last completed run
+  app.post('/api/admin/tickets/reconciliation/run', requireTicketing, requireAdmin('system'), async (req: Request, res: Response) => {
+    try {
+      const validated = reconciliationRunSchema.parse(req.body || {});
+      const run = await ReconciliationService.run({
+        since: validated.since ? new Date(validated.since) : undefined,
+        until: validated.until ? new Date(validated.until) : undefined
+      });
+
+      res.json({ ok: true, run });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid request' });
+      }
+      if (error.reconciliationBusy) {
+        return res.status(409).json({ ok: false, error: error.message });
+      }
+      console.error('Run reconciliation error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to run reconciliation' });
+    }
+  });
+
+  app.get('/api/admin/tickets/reconciliation/runs', requireTicketing, requireAdmin('system'), async (req: Request, res: Response) => {
+    try {
+      const runs = await ticketsStorage.getReconciliationRuns();
+      res.json({ ok: true, runs });
+    } catch (error) {
+      console.error('Get reconciliation runs error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch reconciliation runs' });
+    }
+  });
+
+  // Imported balance transactions - ?status=mismatch&unresolved=true is the review queue
+  app.get('/api/admin/tickets/reconciliation/transactions', requireTicketing, requireAdmin('system'), async (req: Request, res: Response) => {
+    try {
+      const transactions = await ticketsStorage.getStripeTransactions({
+        status: typeof req.query.status === 'string' ? req.query.status : undefined,
+        organizerId: typeof req.query.organizerId === 'string' ? req.query.organizerId : undefined,
+        unresolved: req.query.unresolved === 'true'
+      });
+      res.json({ ok: true, transactions });
+    } catch (error) {
+      console.error('Get reconciliation transactions error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch transactions' });
+    }
+  });
+
+  // Mark a mismatch as dealt with, e.g. after a manual ledger adjustment
+  app.post('/api/admin/tickets/reconciliation/transactions/:id/resolve', requireTicketing, requireAdmin('system'), async (req: Request, res: Response) => {
+    try {
+      const validated = resolveMismatchSchema.parse(req.body);
+      const transaction = await ticketsStorage.getStripeTransactionById(req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ ok: false, error: 'Transaction not found' });
+      }
+      if (transaction.status !== 'mismatch' && transaction.status !== 'unmatched') {
+        return res.status(400).json({ ok: false, error: 'Only mismatched or unmatched transactions can be resolved' });
+      }
+      if (transaction.resolvedAt) {
+        return res.status(400).json({ ok: false, error: 'Transaction is already resolved' });
+      }
+
+      const actor = getAdminActor(req);
+      const updated = await ticketsStorage.updateStripeTransaction(transaction.id, {
+        resolvedAt: new Date(),
+        resolvedBy: actorLabel(actor, 'admin'),
+        resolutionNote: validated.note
+      });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'admin',
+        actorId: actor?.id || 'admin',
+        action: 'reconciliation_mismatch_resolved',
+        targetType: 'stripe_transaction',
+        targetId: transaction.id,
+        metaJson: {
+          stripeId: transaction.stripeId,
+          orderId: transaction.orderId,
+          mismatchReason: transaction.mismatchReason,
+          note: validated.note
+        }
+      });
+
+      res.json({ ok: true, transaction: updated });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid request' });
+      }
+      console.error('Resolve reconciliation mismatch error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to resolve transaction' });
+    }
+  });
+
+  app.get('/api/admin/tickets/reconciliation/trial-balance', requireTicketing, requireAdmin('system'), async (req: Request, res: Response) => {
+    try {
+      const trialBalance = await ReconciliationService.trialBalance({
+        organizerId: typeof req.query.organizerId === 'string' ? req.query.organizerId : undefined
+      });
+      res.json({ ok: true, trialBalance });
+    } catch (error) {
+      console.error('Get trial balance error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to build trial balance' });
+    }
+  });
+
+  // Ledger vs journal for one organizer, with their open mismatches
+  app.get('/api/admin/tickets/reconciliation/organizers/:organizerId', requireTicketing, requireAdmin('system'), async (req: Request, res: Response) => {
+    try {
+      const organizer = await ticketsStorage.getOrganizerById(req.params.organizerId);
+      if (!organizer) {
+        return res.status(404).json({ ok: false, error: 'Organizer not found' });
+      }
+
+      const difference = await ReconciliationService.organizerDifference(organizer.id);
+      const transactions = (await ticketsStorage.getStripeTransactions({ organizerId: organizer.id, unresolved: true }))
+        .filter(t => t.status === 'mismatch' || t.status === 'unmatched');
+      res.json({ ok: true, ...difference, transactions });
+    } catch (error) {
+      console.error('Get organizer reconciliation error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch organizer reconciliation' });
+    }
+  });
+}
@@ -0,0 +1,450 @@
+import crypto from 'crypto';
+import type Stripe from 'stripe';
+import { stripe } from './stripe-service';
+import { ticketsStorage } from './tickets-storage';
+import type {
+  InsertTicketsJournalLine,
+  TicketsLedger,
+  TicketsOrder,
+  TicketsReconciliationRun,
+  TicketsStripeTransaction
+} from '@shared/schema';
+
+export const JOURNAL_ACCOUNTS = [
+  'stripe_balance',     // money sitting in the platform's Stripe balance
+  'processing_fees',    // what Stripe kept
+  'organizer_payable',  // ticket revenue owed to organizers
+  'sales_tax_payable',  // tax collected on the organizer's behalf (merchant-of-record sales)
+  'platform_revenue',   // anything charged beyond ticket revenue and tax
+  'disputes',           // money pulled back by chargebacks
+  'resale_clearing',    // fan resale - the buyer's payment and the seller's refund cancel out
+  'platform_payouts',   // Stripe payouts of the platform balance to the bank
+  'suspense'            // money we couldn't place yet
+] as const;
+export type JournalAccount = typeof JOURNAL_ACCOUNTS[number];
+
+// A Stripe balance transaction, reduced to what matching needs
+export interface BalanceTransactionRecord {
+  id: string;
+  type: string;
+  reportingCategory: string | null;
+  sourceId: string | null;
+  amount: number;
+  fee: number;
+  net: number;
+  currency: string;
+  created: Date;
+  availableOn: Date | null;
+  // The payment behind a charge, refund, dispute or transfer, when there is one
+  paymentIntentId: string | null;
+  metadata: Record<string, string>;
+}
+
+// Where balance transactions come from - Stripe in production, a stub in tests
+export interface BalanceTransactionSource {
+  list(since: Date, until: Date): Promise<BalanceTransactionRecord[]>;
+}
+
+interface TransactionMatch {
+  status: 'matched' | 'mismatch' | 'unmatched' | 'ignored';
+  order: TicketsOrder | null;
+  organizerId: string | null;
+  ledgerEntry: TicketsLedger | null;
+  reason: string | null;
+  expectedCents: number | null;
+  // How the gross amount splits across accounts - always adds up to the transaction amount
+  allocation: Partial<Record<JournalAccount, number>>;
+}
+
+const CHARGE_TYPES = ['charge', 'payment'];
+const REFUND_TYPES = ['refund', 'payment_refund'];
+const FEE_TYPES = ['stripe_fee', 'stripe_fx_fee', 'tax_fee'];
+
+// Each run re-reads the end of the previous window in case Stripe was slow to post
+const RUN_OVERLAP_MS = 60 * 60 * 1000;
+const FIRST_RUN_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+const RUN_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+const dollars = (cents: number) => `$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+const idOf = (value: string | { id: string } | null | undefined): string | null =>
+  typeof value === 'string' ? value : value?.id || null;
+
+async function chargePaymentIntent(chargeId: string | null): Promise<string | null> {
+  if (!chargeId || !stripe) return null;
+  return idOf((await stripe.charges.retrieve(chargeId)).payment_intent);
+}
+
+async function paymentIntentOf(source: Stripe.BalanceTransaction['source']): Promise<string | null> {
+  if (!source || typeof source === 'string' || !stripe) return null;
+
+  switch (source.object) {
+    case 'charge':
+    case 'refund':
+    case 'dispute':
+      return idOf(source.payment_intent);
+    case 'transfer':
+      return chargePaymentIntent(idOf(source.source_transaction));
+    case 'transfer_reversal': {
+      const transferId = idOf(source.transfer);
+      const transfer = transferId ? await stripe.transfers.retrieve(transferId) : null;
+      return chargePaymentIntent(idOf(transfer?.source_transaction));
+    }
+    default:
+      return null;
+  }
+}
+
+const stripeSource: BalanceTransactionSource = {
+  async list(since: Date, until: Date) {
+    if (!stripe) throw new Error('Stripe is not configured');
+
+    const records: BalanceTransactionRecord[] = [];
+    let startingAfter: string | undefined;
+    do {
+      const page = await stripe.balanceTransactions.list({
+        created: { gte: Math.floor(since.getTime() / 1000), lt: Math.floor(until.getTime() / 1000) },
+        limit: 100,
+        expand: ['data.source'],
+        ...(startingAfter ? { starting_after: startingAfter } : {})
+      });
+
+      for (const txn of page.data) {
+        const source = txn.source && typeof txn.source !== 'string' ? txn.source : null;
+        records.push({
+          id: txn.id,
+          type: txn.type,
+          reportingCategory: txn.reporting_category || null,
+          sourceId: idOf(txn.source),
+          amount: txn.amount,
+          fee: txn.fee,
+          net: txn.net,
+          currency: txn.currency.toUpperCase(),
+          created: new Date(txn.created * 1000),
+          availableOn: txn.available_on ? new Date(txn.available_on * 1000) : null,
+          paymentIntentId: await paymentIntentOf(txn.source),
+          metadata: (source && 'metadata' in source && source.metadata) || {}
+        });
+      }
+      startingAfter = page.has_more ? page.data[page.data.length - 1].id : undefined;
+    } while (startingAfter);
+
+    return records;
+  }
+};
+
+function reconciliationBusy(): Error {
+  const error = new Error('A reconciliation run is already in progress');
+  (error as any).reconciliationBusy = true;
+  return error;
+}
+
+let activeRun: Promise<TicketsReconciliationRun> | null = null;
+
+export class ReconciliationService {
+  /**
+   * Import balance transactions for a window, match each to its order and ledger entry,
+   * and post the double-entry journal for it. Without a range it continues from the
+   * last completed run.
+   */
+  static async run(options: { since?: Date; until?: Date; source?: BalanceTransactionSource } = {}): Promise<TicketsReconciliationRun> {
+    if (activeRun) throw reconciliationBusy();
+
+    activeRun = ReconciliationService.runWindow(options);
+    try {
+      return await activeRun;
+    } finally {
+      activeRun = null;
+    }
+  }
+
+  private static async runWindow(options: { since?: Date; until?: Date; source?: BalanceTransactionSource }): Promise<TicketsReconciliationRun> {
+    const until = options.until || new Date();
+    const lastRun = options.since ? null : await ticketsStorage.getLastCompletedReconciliationRun();
+    const since = options.since
+      || (lastRun ? new Date(new Date(lastRun.rangeEnd).getTime() - RUN_OVERLAP_MS) : new Date(until.getTime() - FIRST_RUN_LOOKBACK_MS));
+
+    const run = await ticketsStorage.createReconciliationRun({ rangeStart: since, rangeEnd: until, status: 'running' });
+    try {
+      // Oldest first, so a refund is checked after the charge and earlier refunds it follows
+      const records = (await (options.source || stripeSource).list(since, until))
+        .sort((a, b) => a.created.getTime() - b.created.getTime());
+
+      let matchedCount = 0;
+      let mismatchCount = 0;
+      for (const record of records) {
+        const transaction = await ReconciliationService.importTransaction(record, run.id);
+        if (transaction.status === 'matched') matchedCount++;
+        if (transaction.status === 'mismatch' || transaction.status === 'unmatched') mismatchCount++;
+      }
+
+      console.log(`[Reconciliation] Imported ${records.length} balance transactions - ${matchedCount} matched, ${mismatchCount} need review`);
+      return ticketsStorage.updateReconciliationRun(run.id, {
+        status: 'completed',
+        importedCount: records.length,
+        matchedCount,
+        mismatchCount,
+        finishedAt: new Date()
+      });
+    } catch (error: any) {
+      console.error('[Reconciliation] Run failed:', error);
+      return ticketsStorage.updateReconciliationRun(run.id, {
+        status: 'failed',
+        error: error?.message || 'Reconciliation failed',
+        finishedAt: new Date()
+      });
+    }
+  }
+
+  /**
+   * Record one balance transaction and (re)post its journal entry. Settled matches are
+   * left alone; ones that needed attention are matched again in case the ledger caught up.
+   */
+  static async importTransaction(record: BalanceTransactionRecord, runId: string): Promise<TicketsStripeTransaction> {
+    const existing = await ticketsStorage.getStripeTransactionByStripeId(record.id);
+    if (existing && (existing.status === 'matched' || existing.status === 'ignored')) {
+      return existing;
+    }
+
+    const match = await ReconciliationService.match(record);
+    const transaction = await ticketsStorage.upsertStripeTransaction({
+      stripeId: record.id,
+      type: record.type,
+      reportingCategory: record.reportingCategory,
+      sourceId: record.sourceId,
+      amountCents: record.amount,
+      feeCents: record.fee,
+      netCents: record.net,
+      currency: record.currency,
+      stripeCreatedAt: record.created,
+      availableOn: record.availableOn,
+      organizerId: match.organizerId,
+      orderId: match.order?.id || null,
+      ledgerEntryId: match.ledgerEntry?.id || null,
+      status: match.status,
+      mismatchReason: match.reason,
+      expectedCents: match.expectedCents,
+      runId
+    });
+
+    await ticketsStorage.replaceJournalLines(transaction.id, ReconciliationService.journalLines(transaction, match.allocation));
+    return transaction;
+  }
+
+  // ============ MATCHING ============
+
+  static async match(record: BalanceTransactionRecord): Promise<TransactionMatch> {
+    const result = (status: TransactionMatch['status'], allocation: TransactionMatch['allocation'], extra: Partial<TransactionMatch> = {}): TransactionMatch => ({
+      status,
+      order: null,
+      organizerId: null,
+      ledgerEntry: null,
+      reason: null,
+      expectedCents: null,
+      allocation,
+      ...extra
+    });
+
+    if (record.type === 'payout') {
+      return result('ignored', { platform_payouts: record.amount });
+    }
+    if (FEE_TYPES.includes(record.type)) {
+      return result('ignored', { processing_fees: record.amount });
+    }
+    if (record.type === 'application_fee' || record.type === 'application_fee_refund') {
+      return result('mismatch', { platform_revenue: record.amount }, {
+        reason: 'Application fee on a ticket payment - ticket sales should carry no platform fee',
+        expectedCents: 0
+      });
+    }
+
+    // Fan resale: the buyer's payment and the refund to the seller net out
+    if (record.metadata.resaleListingId) {
+      const listing = await ticketsStorage.getResaleListingById(record.metadata.resaleListingId);
+      return listing
+        ? result('matched', { resale_clearing: record.amount })
+        : result('unmatched', { resale_clearing: record.amount }, { reason: 'Resale listing not found' });
+    }
+
+    const isDispute = record.type === 'adjustment' && (record.reportingCategory?.startsWith('dispute') || record.sourceId?.startsWith('dp_'));
+    const isTicketMoney = CHARGE_TYPES.includes(record.type) || REFUND_TYPES.includes(record.type) || isDispute
+      || record.type === 'transfer' || record.type === 'transfer_reversal';
+    if (!isTicketMoney) {
+      return result('ignored', { suspense: record.amount });
+    }
+
+    const order = record.paymentIntentId ? await ticketsStorage.getOrderByPaymentIntent(record.paymentIntentId) : null;
+    if (!order) {
+      return result('unmatched', { suspense: record.amount }, { reason: 'No order for this payment' });
+    }
+    const event = await ticketsStorage.getEventById(order.eventId);
+    const organizer = event ? await ticketsStorage.getOrganizerById(event.organizerId) : null;
+    const ledger = await ticketsStorage.getLedgerEntriesByOrder(order.id);
+    const found = { order, organizerId: organizer?.id || null };
+
+    // Connect organizers are the merchant and take the whole payment, tax included
+    const isConnect = !!organizer?.stripeAccountId;
+    const share = (cents: number, part: number) => order.totalCents ? Math.round(part * cents / order.totalCents) : 0;
+    const split = (cents: number): TransactionMatch['allocation'] => {
+      if (isConnect) return { organizer_payable: cents };
+      const organizerCents = share(cents, order.subtotalCents);
+      const taxCents = share(cents, order.taxCents);
+      return { organizer_payable: organizerCents, sales_tax_payable: taxCents, platform_revenue: cents - organizerCents - taxCents };
+    };
+
+    if (CHARGE_TYPES.includes(record.type)) {
+      const sale = ledger.find(entry => entry.type === 'sale') || null;
+      const allocation = isConnect ? split(record.amount) : {
+        organizer_payable: sale?.amountCents ?? order.subtotalCents,
+        sales_tax_payable: order.taxCents,
+        platform_revenue: record.amount - (sale?.amountCents ?? order.subtotalCents) - order.taxCents
+      };
+
+      if (record.amount !== order.totalCents) {
+        return result('mismatch', allocation, { ...found, ledgerEntry: sale, reason: `Stripe captured ${dollars(record.amount)} but the order total is ${dollars(order.totalCents)}`, expectedCents: order.totalCents });
+      }
+      if (!['paid', 'refunded', 'partially_refunded'].includes(order.status)) {
+        return result('mismatch', allocation, { ...found, ledgerEntry: sale, reason: `Payment captured but the order is ${order.status}` });
+      }
+      if (!sale) {
+        return result('mismatch', allocation, { ...found, reason: 'No sale in the organizer ledger', expectedCents: order.subtotalCents });
+      }
+      if (sale.amountCents !== order.subtotalCents) {
+        return result('mismatch', allocation, { ...found, ledgerEntry: sale, reason: `Ledger sale is ${dollars(sale.amountCents)} but the order subtotal is ${dollars(order.subtotalCents)}`, expectedCents: order.subtotalCents });
+      }
+      return result('matched', allocation, { ...found, ledgerEntry: sale });
+    }
+
+    if (REFUND_TYPES.includes(record.type)) {
+      const allocation = split(record.amount);
+      const ledgerRefunds = ledger.filter(entry => entry.type === 'refund');
+      // Compare everything refunded so far, since the ledger may record several refunds as one
+      const earlier = (await ticketsStorage.getStripeTransactionsByOrders([order.id]))
+        .filter(t => REFUND_TYPES.includes(t.type) && t.stripeId !== record.id);
+      const stripeRefunded = -[...earlier.map(t => t.amountCents), record.amount]
+        .reduce((sum, cents) => sum + (split(cents).organizer_payable || 0), 0);
+      const ledgerRefunded = -ledgerRefunds.reduce((sum, entry) => sum + entry.amountCents, 0);
+      const ledgerEntry = ledgerRefunds[ledgerRefunds.length - 1] || null;
+
+      if (ledgerRefunded < stripeRefunded) {
+        return result('mismatch', allocation, {
+          ...found,
+          ledgerEntry,
+          reason: ledgerRefunds.length === 0
+            ? 'Refund not recorded in the organizer ledger'
+            : `Stripe has refunded ${dollars(stripeRefunded)} of the organizer's revenue but the ledger shows ${dollars(ledgerRefunded)}`,
+          expectedCents: -stripeRefunded
+        });
+      }
+      return result('matched', allocation, { ...found, ledgerEntry });
+    }
+
+    if (isDispute) {
+      const chargeback = ledger.filter(entry => entry.type === 'chargeback').pop() || null;
+      if (record.amount < 0 && !chargeback) {
+        return result('mismatch', { disputes: record.amount }, { ...found, reason: 'Dispute not recorded in the organizer ledger', expectedCents: record.amount });
+      }
+      return result('matched', { disputes: record.amount }, { ...found, ledgerEntry: chargeback });
+    }
+
+    // Transfers move a Connect organizer's share to their account
+    const allocation = { organizer_payable: record.amount };
+    if (record.type === 'transfer' && -record.amount !== order.totalCents) {
+      return result('mismatch', allocation, { ...found, reason: `Transferred ${dollars(record.amount)} to the organizer but the order total is ${dollars(order.totalCents)}`, expectedCents: -order.totalCents });
+    }
+    return result('matched', allocation, found);
+  }
+
+  // ============ JOURNAL ============
+
+  /**
+   * The balanced entry for a transaction: the net lands in the Stripe balance, the fee is an
+   * expense, and the gross amount is credited to the accounts it belongs to.
+   */
+  static journalLines(transaction: TicketsStripeTransaction, allocation: TransactionMatch['allocation']): InsertTicketsJournalLine[] {
+    const journalId = crypto.randomUUID();
+    const allocated = Object.values(allocation).reduce((sum: number, cents) => sum + (cents || 0), 0);
+    const amounts: Array<[JournalAccount, number]> = [
+      ['stripe_balance', transaction.netCents],
+      ['processing_fees', transaction.feeCents]
+    ];
+    (Object.keys(allocation) as JournalAccount[]).forEach(account => {
+      amounts.push([account, -(allocation[account] || 0)]);
+    });
+    // Rounding or a bad split must never unbalance the books
+    if (allocated !== transaction.amountCents) {
+      amounts.push(['suspense', allocated - transaction.amountCents]);
+    }
+
+    return amounts
+      .filter(([, cents]) => cents !== 0)
+      .map(([account, cents]) => ({
+        journalId,
+        account,
+        debitCents: Math.max(cents, 0),
+        creditCents: Math.max(-cents, 0),
+        currency: transaction.currency,
+        organizerId: transaction.organizerId,
+        orderId: transaction.orderId,
+        stripeTransactionId: transaction.id,
+        memo: `${transaction.type} ${transaction.stripeId}`,
+        postedAt: transaction.stripeCreatedAt
+      }));
+  }
+
+  /**
+   * Debit and credit totals per account. Total debits equal total credits when the journal is sound.
+   */
+  static async trialBalance(filters: { organizerId?: string; until?: Date } = {}) {
+    const lines = await ticketsStorage.getJournalLines(filters);
+    const accounts: Record<string, { debitCents: number; creditCents: number; balanceCents: number }> = {};
+    let debitCents = 0;
+    let creditCents = 0;
+
+    for (const line of lines) {
+      const account = accounts[line.account] || (accounts[line.account] = { debitCents: 0, creditCents: 0, balanceCents: 0 });
+      account.debitCents += line.debitCents;
+      account.creditCents += line.creditCents;
+      account.balanceCents += line.debitCents - line.creditCents;
+      debitCents += line.debitCents;
+      creditCents += line.creditCents;
+    }
+
+    return { accounts, debitCents, creditCents, balanced: debitCents === creditCents };
+  }
+
+  /**
+   * What the organizer ledger says an organizer earned against what Stripe's money says
+   * they're owed. Transfers to Connect accounts are left out - they settle the debt, not change it.
+   */
+  static async organizerDifference(organizerId: string) {
+    const ledger = await ticketsStorage.getLedgerEntriesByOrganizer(organizerId);
+    const lines = await ticketsStorage.getJournalLines({ organizerId });
+    const transactions = await ticketsStorage.getStripeTransactions({ organizerId, limit: 10000 });
+    const transferIds = new Set(transactions.filter(t => t.type === 'transfer' || t.type === 'transfer_reversal').map(t => t.id));
+
+    const ledgerCents = ledger.reduce((sum, entry) => sum + entry.amountCents, 0);
+    const journalCents = lines
+      .filter(line => line.account === 'organizer_payable' && !(line.stripeTransactionId && transferIds.has(line.stripeTransactionId)))
+      .reduce((sum, line) => sum + line.creditCents - line.debitCents, 0);
+    const openMismatches = transactions.filter(t => (t.status === 'mismatch' || t.status === 'unmatched') && !t.resolvedAt).length;
+
+    return { ledgerCents, journalCents, differenceCents: ledgerCents - journalCents, openMismatches };
+  }
+}
+
+export function startReconciliationScheduler(): void {
+  if (!stripe) {
+    console.log('[Reconciliation] Stripe not configured - scheduler not started');
+    return;
+  }
+  console.log('[Reconciliation] Starting Stripe reconciliation scheduler...');
+
+  const runScheduled = () => ReconciliationService.run().catch(error => {
+    if (!error?.reconciliationBusy) console.error('[Reconciliation] Scheduled run failed:', error);
+  });
+  runScheduled();
+  setInterval(runScheduled, RUN_INTERVAL_MS);
+
+  console.log('[Reconciliation] Scheduler started - running every 6 hours');
+}
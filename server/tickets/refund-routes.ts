@@ -1,10 +1,16 @@
 import type { Express, Request, Response } from "express";
 import { ticketsStorage } from "./tickets-storage";
 import { StripeService, stripe } from "./stripe-service";
-import { sendRefundEmail, sendTransferEmails } from "./email-service";
-import { nanoid } from 'nanoid';
+import { sendRefundEmail } from "./email-service";
+import { WaitlistService } from "./waitlist-service";
+import { SeatingService } from "./seating-service";
+import { ProductService } from "./product-service";
+import { TransferService } from "./transfer-service";
+import { RefundService } from "./refund-service";
+import { OrganizerWebhookService } from "./organizer-webhook-service";
+import { TaxService } from "./tax-service";
+import { refundRequestSchema, refundApprovalSchema, refundDeclineSchema } from "./validation";
 import type { TicketsOrder } from '@shared/schema';
-import { communitiesStorage } from '../communities/communities-supabase';
 
 // Middleware to check if ticketing is enabled
 const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
@@ -115,7 +121,12 @@ export function addRefundRoutes(app: Express) {
       
       // Calculate refund amount
       let refundCents: number;
-      const ticketFullPriceCents = Math.round((orderItem.unitPriceCents + orderItem.taxCents) / orderItem.quantity);
+      // A ticket's share of its order line - bundles split the line over every ticket they issued
+      const tier = await ticketsStorage.getTierById(ticket.tierId);
+      const lineTickets = tier ? ProductService.ticketsFor(tier, orderItem.quantity) : orderItem.quantity;
+      // Tax-inclusive prices already hold the line's tax
+      const lineTaxCents = TaxService.isInclusive(order) ? 0 : orderItem.taxCents;
+      const ticketFullPriceCents = Math.round((orderItem.unitPriceCents * orderItem.quantity + lineTaxCents) / Math.max(1, lineTickets));
       
       if (refundType === 'full') {
         // Full refund - calculate proportional amount for this ticket
@@ -177,6 +188,9 @@ export function addRefundRoutes(app: Express) {
             refundReason: reason,
             stripeRefundId: refund.id
           });
+          if (orderStatus === 'refunded') {
+            await ticketsStorage.voidVouchersByOrder(order.id);
+          }
           
           // Create audit log
           await ticketsStorage.createAuditLog({
@@ -199,6 +213,12 @@ export function addRefundRoutes(app: Express) {
           await sendRefundEmail(ticketId, refundCents, reason);
           console.log(`[Refund] Refund processed for ticket ${ticket.serial}, order ${order.id}`);
           
+          // Refunded seat goes back on sale - offer it to the waitlist first
+          await SeatingService.releaseSeatsForTickets([ticketId]);
+          await WaitlistService.handleCapacityReleased([ticket.tierId]);
+          
+          await OrganizerWebhookService.ticketEvent('ticket.refunded', ticketId, { refundAmountCents: refundCents, reason: reason || null });
+          
           res.json({
             ok: true,
             refund: {
@@ -236,6 +256,9 @@ export function addRefundRoutes(app: Express) {
           refundProcessedAt: new Date(),
           refundReason: reason || 'Manual refund processed by organizer'
         });
+        if (orderStatus === 'refunded') {
+          await ticketsStorage.voidVouchersByOrder(order.id);
+        }
         
         // Create audit log
         await ticketsStorage.createAuditLog({
@@ -258,6 +281,11 @@ export function addRefundRoutes(app: Express) {
         await sendRefundEmail(ticketId, refundCents, reason);
         console.log(`[Refund] Manual refund processed for ticket ${ticket.serial}, order ${order.id}`);
         
+        await SeatingService.releaseSeatsForTickets([ticketId]);
+        await WaitlistService.handleCapacityReleased([ticket.tierId]);
+        
+        await OrganizerWebhookService.ticketEvent('ticket.refunded', ticketId, { refundAmountCents: refundCents, reason: reason || null });
+        
         res.json({
           ok: true,
           refund: {
@@ -305,25 +333,8 @@ export function addRefundRoutes(app: Express) {
         return res.status(403).json({ ok: false, error: 'Access denied' });
       }
       
-      // Create a new ticket for the new attendee
-      const newSerial = `TKT-${nanoid(10).toUpperCase()}`;
-      const newQrToken = nanoid(20);
-      
-      const newTicket = await ticketsStorage.createTicket({
-        orderItemId: ticket.orderItemId,
-        tierId: ticket.tierId,
-        serial: newSerial,
-        qrToken: newQrToken,
-        status: 'valid',
-        transferredFrom: ticketId
-      });
-      
-      // Mark old ticket as transferred
-      await ticketsStorage.updateTicket(ticketId, {
-        status: 'transferred',
-        transferredTo: newTicket.id,
-        transferredAt: new Date()
-      });
+      // Issue a new ticket to the new attendee; the old QR code stops working
+      const newTicket = await TransferService.reissueTicket(ticket, { email: newEmail, name: newName || null });
       
       // Update order with new attendee info
       await ticketsStorage.updateOrder(order!.id, {
@@ -349,68 +360,15 @@ export function addRefundRoutes(app: Express) {
         userAgent: req.headers['user-agent']
       });
       
-      // Send transfer notification emails
-      try {
-        await sendTransferEmails(
-          ticketId,
-          newTicket.id,
-          order!.buyerEmail,
-          order!.buyerName || 'Attendee',
-          newEmail,
-          newName || 'New Attendee'
-        );
-        console.log(`[Transfer] Ticket ${ticket.serial} transferred from ${order!.buyerEmail} to ${newEmail}, emails sent`);
-      } catch (emailError) {
-        console.error('[Transfer] Failed to send transfer emails:', emailError);
-        // Don't fail the transfer if email fails
-      }
-      
-      // Create in-app notifications for both users
-      try {
-        // Find user IDs for both the old and new ticket holders
-        const oldUser = await communitiesStorage.getUserByEmail(order!.buyerEmail);
-        const newUser = await communitiesStorage.getUserByEmail(newEmail);
-        
-        const baseUrl = process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com';
-        
-        // Notification for old ticket holder (ticket transferred away)
-        if (oldUser) {
-          await communitiesStorage.createNotification({
-            recipientId: oldUser.id,
-            type: 'ticket_transferred_away',
-            title: 'Ticket Transferred',
-            body: `Your ticket for "${event.title}" has been transferred to ${newEmail}`,
-            actionUrl: `${baseUrl}/my-orders`,
-            metadata: {
-              eventTitle: event.title,
-              ticketSerial: ticket.serial,
-              transferredTo: newEmail,
-              eventSlug: event.slug
-            }
-          });
-        }
-        
-        // Notification for new ticket holder (ticket received)
-        if (newUser) {
-          await communitiesStorage.createNotification({
-            recipientId: newUser.id,
-            type: 'ticket_received',
-            title: 'Ticket Received',
-            body: `You've received a ticket for "${event.title}"`,
-            actionUrl: `${baseUrl}/my-orders`,
-            metadata: {
-              eventTitle: event.title,
-              newTicketSerial: newTicket.serial,
-              eventSlug: event.slug
-            }
-          });
-        }
-        
-        console.log(`[Transfer] In-app notifications sent for ticket transfer`);
-      } catch (notificationError) {
-        console.error('[Transfer] Failed to create notifications:', notificationError);
-        // Don't fail the transfer if notifications fail
-      }
+      // Send transfer emails and in-app notifications - neither fails the transfer
+      await TransferService.notifyTransfer(
+        ticket,
+        newTicket.id,
+        event,
+        TransferService.holderOf(ticket, order!),
+        { email: newEmail, name: newName || null }
+      );
+      console.log(`[Transfer] Ticket ${ticket.serial} transferred from ${order!.buyerEmail} to ${newEmail}`);
       
       res.json({
         ok: true,
@@ -538,4 +496,207 @@ export function addRefundRoutes(app: Express) {
       res.status(500).json({ ok: false, error: error.message || 'Failed to resend ticket' });
     }
   });
+  
+  // ============ REFUND REQUESTS ============
+  
+  // Refund window and request history for the buyer's order page - reasons and the organizer's
+  // notes are the buyer's business, so this needs the order email like submitting does
+  app.get('/api/tickets/orders/:orderId/refund-requests', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      const email = typeof req.query.email === 'string' ? req.query.email : '';
+      const order = await ticketsStorage.getOrderById(req.params.orderId);
+      if (!order || !email || order.buyerEmail.toLowerCase() !== email.toLowerCase()) {
+        return res.status(404).json({ ok: false, error: 'Order not found or email does not match' });
+      }
+
+      const event = await ticketsStorage.getEventById(order.eventId);
+      if (!event) {
+        return res.status(404).json({ ok: false, error: 'Event not found' });
+      }
+      
+      const requests = await ticketsStorage.getRefundRequestsByOrder(order.id);
+      const requestable = await RefundService.requestableTickets(order);
+      
+      res.json({
+        ok: true,
+        window: {
+          open: RefundService.isRequestWindowOpen(event),
+          closesAt: RefundService.requestWindowClosesAt(event)
+        },
+        requestableTicketIds: requestable.map(t => t.id),
+        requests: requests.map(request => ({
+          id: request.id,
+          ticketIds: request.ticketIds,
+          reason: request.reason,
+          requestedCents: request.requestedCents,
+          approvedCents: request.approvedCents,
+          status: request.status,
+          decisionNote: request.decisionNote,
+          decidedAt: request.decidedAt,
+          createdAt: request.createdAt
+        }))
+      });
+    } catch (error: any) {
+      console.error('Error fetching refund requests:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch refund requests' });
+    }
+  });
+  
+  // Buyer asks for a refund - the email they ordered with proves it's their order
+  app.post('/api/tickets/orders/:orderId/refund-requests', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      const { buyerEmail, ticketIds, reason } = refundRequestSchema.parse(req.body);
+      const order = await ticketsStorage.getOrderById(req.params.orderId);
+      if (!order || order.buyerEmail.toLowerCase() !== buyerEmail.toLowerCase()) {
+        return res.status(404).json({ ok: false, error: 'Order not found or email does not match' });
+      }
+      
+      const event = await ticketsStorage.getEventById(order.eventId);
+      if (!event) {
+        return res.status(404).json({ ok: false, error: 'Event not found' });
+      }
+      
+      const request = await RefundService.submitRequest(order, event, ticketIds, reason);
+      
+      await ticketsStorage.createAuditLog({
+        actorType: 'user',
+        actorId: order.buyerEmail,
+        action: 'refund_requested',
+        targetType: 'refund_request',
+        targetId: request.id,
+        metaJson: { orderId: order.id, ticketIds: request.ticketIds, requestedCents: request.requestedCents },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+      
+      res.json({
+        ok: true,
+        request: {
+          id: request.id,
+          status: request.status,
+          requestedCents: request.requestedCents,
+          approvedCents: request.approvedCents,
+          autoApproved: request.autoApproved
+        }
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid request' });
+      }
+      if (error.refundInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
+      console.error('Error submitting refund request:', error);
+      res.status(500).json({ ok: false, error: 'Failed to submit refund request' });
+    }
+  });
+  
+  // Organizer's refund request queue for an event
+  app.get('/api/tickets/events/:eventId/refund-requests', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const event = await ticketsStorage.getEventById(req.params.eventId);
+      if (!event || event.organizerId !== req.organizer.id) {
+        return res.status(404).json({ ok: false, error: 'Event not found' });
+      }
+      
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const requests = await ticketsStorage.getRefundRequestsByEvent(event.id, status);
+      
+      res.json({
+        ok: true,
+        requests,
+        pendingCount: status === 'pending'
+          ? requests.length
+          : requests.filter(r => r.status === 'pending').length
+      });
+    } catch (error: any) {
+      console.error('Error fetching refund request queue:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch refund requests' });
+    }
+  });
+  
+  // Load a request and make sure it belongs to one of the organizer's events
+  const getOrganizerRequest = async (requestId: string, organizerId: string) => {
+    const request = await ticketsStorage.getRefundRequestById(requestId);
+    const event = request ? await ticketsStorage.getEventById(request.eventId) : null;
+    return request && event && event.organizerId === organizerId ? request : null;
+  };
+  
+  // Approve in full, or pass a smaller amountCents for a partial refund
+  app.post('/api/tickets/refund-requests/:requestId/approve', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { amountCents, note } = refundApprovalSchema.parse(req.body);
+      const request = await getOrganizerRequest(req.params.requestId, req.organizer.id);
+      if (!request) {
+        return res.status(404).json({ ok: false, error: 'Refund request not found' });
+      }
+      
+      const approved = await RefundService.approveRequest(request, {
+        amountCents: amountCents ?? request.requestedCents,
+        decidedBy: req.organizer.id,
+        note: note || null
+      });
+      
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'refund_request_approved',
+        targetType: 'refund_request',
+        targetId: request.id,
+        metaJson: {
+          orderId: request.orderId,
+          requestedCents: request.requestedCents,
+          approvedCents: approved.approvedCents,
+          stripeRefundId: approved.stripeRefundId
+        },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+      
+      res.json({ ok: true, request: approved });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid request' });
+      }
+      if (error.refundInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
+      console.error('Error approving refund request:', error);
+      res.status(500).json({ ok: false, error: error.message || 'Failed to approve refund request' });
+    }
+  });
+  
+  app.post('/api/tickets/refund-requests/:requestId/decline', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { note } = refundDeclineSchema.parse(req.body);
+      const request = await getOrganizerRequest(req.params.requestId, req.organizer.id);
+      if (!request) {
+        return res.status(404).json({ ok: false, error: 'Refund request not found' });
+      }
+      
+      const declined = await RefundService.declineRequest(request, req.organizer.id, note || null);
+      
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'refund_request_declined',
+        targetType: 'refund_request',
+        targetId: request.id,
+        metaJson: { orderId: request.orderId, note: note || null },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+      
+      res.json({ ok: true, request: declined });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid request' });
+      }
+      if (error.refundInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
+      console.error('Error declining refund request:', error);
+      res.status(500).json({ ok: false, error: 'Failed to decline refund request' });
+    }
+  });
 }
\ No newline at end of file
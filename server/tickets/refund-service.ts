@@ -0,0 +1,236 @@
+import { ticketsStorage } from './tickets-storage';
+import { StripeService } from './stripe-service';
+import { SeatingService } from './seating-service';
+import { WaitlistService } from './waitlist-service';
+import { ResaleService } from './resale-service';
+import { OrganizerWebhookService } from './organizer-webhook-service';
+import { sendRefundRequestEmail } from './email-service';
+import type { TicketsEvent, TicketsOrder, TicketsTicket, TicketsRefundRequest } from '@shared/schema';
+
+// Limits under which a request is refunded straight away; either may be left off
+export interface RefundAutoApproveRule {
+  maxCents?: number | null;
+  minHoursBeforeEvent?: number | null;
+}
+
+function refundInvalid(message: string): Error {
+  const error = new Error(message) as Error & { refundInvalid?: boolean };
+  error.refundInvalid = true;
+  return error;
+}
+
+export class RefundService {
+  /**
+   * When buyers can no longer ask for a refund: the event's refund deadline, or the event starting
+   */
+  static requestWindowClosesAt(event: TicketsEvent): Date {
+    return new Date(event.allowRefundsUntil || event.startAt);
+  }
+
+  static isRequestWindowOpen(event: TicketsEvent, now = new Date()): boolean {
+    return now < RefundService.requestWindowClosesAt(event);
+  }
+
+  /**
+   * Tickets on an order the buyer can still ask to refund - unused, still theirs,
+   * and not already part of a request waiting on the organizer
+   */
+  static async requestableTickets(order: TicketsOrder): Promise<TicketsTicket[]> {
+    const tickets = await ticketsStorage.getTicketsByOrderId(order.id);
+    const requests = await ticketsStorage.getRefundRequestsByOrder(order.id);
+    const pendingTicketIds = new Set(
+      requests.filter(r => r.status === 'pending').flatMap(r => r.ticketIds as string[])
+    );
+    return tickets.filter(ticket =>
+      ticket.status === 'valid' && !ticket.holderEmail && !pendingTicketIds.has(ticket.id)
+    );
+  }
+
+  /**
+   * What refunding these tickets is worth. Every ticket on an untouched order gets the
+   * whole order back, add-ons and fees included; otherwise each ticket's face value.
+   */
+  static async refundValueCents(order: TicketsOrder, tickets: TicketsTicket[]): Promise<number> {
+    const refundableCents = order.totalCents - (order.refundedAmountCents || 0);
+    const orderTickets = await ticketsStorage.getTicketsByOrderId(order.id);
+    const ticketIds = new Set(tickets.map(t => t.id));
+    if (!order.refundedAmountCents && orderTickets.every(t => ticketIds.has(t.id))) {
+      return refundableCents;
+    }
+
+    const orderItems = await ticketsStorage.getOrderItems(order.id);
+    let valueCents = 0;
+    for (const ticket of tickets) {
+      const orderItem = orderItems.find(item => item.id === ticket.orderItemId);
+      const tier = await ticketsStorage.getTierById(ticket.tierId);
+      if (orderItem && tier) {
+        valueCents += ResaleService.faceValueCents(order, orderItems, orderItem, tier);
+      }
+    }
+    return Math.min(valueCents, refundableCents);
+  }
+
+  static matchesAutoApproveRule(event: TicketsEvent, amountCents: number, now = new Date()): boolean {
+    const rule = event.refundAutoApprove as RefundAutoApproveRule | null;
+    if (!rule) return false;
+    if (rule.maxCents != null && amountCents > rule.maxCents) return false;
+    if (rule.minHoursBeforeEvent != null &&
+        new Date(event.startAt).getTime() - now.getTime() < rule.minHoursBeforeEvent * 60 * 60 * 1000) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * File a buyer's request. It's refunded right away when the event's auto-approve rule
+   * covers it, otherwise it waits in the organizer's queue.
+   */
+  static async submitRequest(
+    order: TicketsOrder,
+    event: TicketsEvent,
+    ticketIds: string[],
+    reason: string
+  ): Promise<TicketsRefundRequest> {
+    if (order.status !== 'paid' && order.status !== 'partially_refunded') {
+      throw refundInvalid('This order can\'t be refunded');
+    }
+    if (!RefundService.isRequestWindowOpen(event)) {
+      throw refundInvalid('The refund window for this event has closed');
+    }
+
+    const requestable = await RefundService.requestableTickets(order);
+    const tickets = requestable.filter(t => ticketIds.includes(t.id));
+    if (tickets.length === 0 || tickets.length !== new Set(ticketIds).size) {
+      throw refundInvalid('Some of these tickets can\'t be refunded - they may be used, transferred or already requested');
+    }
+
+    const requestedCents = await RefundService.refundValueCents(order, tickets);
+    const request = await ticketsStorage.createRefundRequest({
+      orderId: order.id,
+      eventId: event.id,
+      ticketIds: tickets.map(t => t.id),
+      buyerEmail: order.buyerEmail,
+      reason,
+      requestedCents,
+      status: 'pending'
+    });
+
+    if (RefundService.matchesAutoApproveRule(event, requestedCents)) {
+      const approved = await RefundService.approveRequest(request, { amountCents: requestedCents, decidedBy: 'system', autoApproved: true });
+      await ticketsStorage.createAuditLog({
+        actorType: 'system',
+        actorId: 'refund_rule',
+        action: 'refund_request_auto_approved',
+        targetType: 'refund_request',
+        targetId: request.id,
+        metaJson: { orderId: order.id, amountCents: requestedCents, rule: event.refundAutoApprove }
+      });
+      return approved;
+    }
+
+    await sendRefundRequestEmail(request.id);
+    return request;
+  }
+
+  /**
+   * Refund the request's tickets, in full or in part, and email the buyer.
+   * The tickets are canceled either way.
+   */
+  static async approveRequest(
+    request: TicketsRefundRequest,
+    decision: { amountCents: number; decidedBy: string; autoApproved?: boolean; note?: string | null }
+  ): Promise<TicketsRefundRequest> {
+    const order = await ticketsStorage.getOrderById(request.orderId);
+    if (!order) throw refundInvalid('Order not found');
+
+    const amountCents = decision.amountCents;
+    const refundableCents = order.totalCents - (order.refundedAmountCents || 0);
+    if (amountCents < 0 || amountCents > request.requestedCents || amountCents > refundableCents) {
+      throw refundInvalid(`Refund can be at most $${(Math.min(request.requestedCents, refundableCents) / 100).toFixed(2)}`);
+    }
+
+    const ticketIds = request.ticketIds as string[];
+    const tickets = (await ticketsStorage.getTicketsByOrderId(order.id)).filter(t => ticketIds.includes(t.id));
+    if (tickets.length !== ticketIds.length || tickets.some(t => t.status !== 'valid' || t.holderEmail)) {
+      throw refundInvalid('Some of these tickets have been used or transferred since the request - decline it instead');
+    }
+
+    // Claim the decision first so two organizers can't refund the same request
+    const claimed = await ticketsStorage.decideRefundRequest(request.id, {
+      status: 'approved',
+      approvedCents: amountCents,
+      autoApproved: !!decision.autoApproved,
+      decidedBy: decision.decidedBy,
+      decisionNote: decision.note || null
+    });
+    if (!claimed) throw refundInvalid('This request has already been decided');
+
+    const reason = `Refund request: ${request.reason}`;
+    let stripeRefundId: string | null = null;
+    if (amountCents > 0 && order.stripePaymentIntentId) {
+      try {
+        const refund = await StripeService.processRefund(order, amountCents, reason);
+        stripeRefundId = refund?.id || null;
+      } catch (stripeError) {
+        // Put the request back in the queue so it can be tried again
+        await ticketsStorage.updateRefundRequest(request.id, {
+          status: 'pending',
+          approvedCents: null,
+          autoApproved: false,
+          decidedBy: null,
+          decidedAt: null,
+          decisionNote: null
+        });
+        throw stripeError;
+      }
+    }
+
+    for (const ticket of tickets) {
+      await ticketsStorage.updateTicket(ticket.id, {
+        status: 'refunded',
+        refundedAt: new Date(),
+        refundReason: reason
+      });
+    }
+
+    const newRefundedAmount = (order.refundedAmountCents || 0) + amountCents;
+    const orderStatus = newRefundedAmount >= order.totalCents ? 'refunded' : 'partially_refunded';
+    await ticketsStorage.updateOrder(order.id, {
+      status: orderStatus,
+      refundedAmountCents: newRefundedAmount,
+      refundProcessedAt: new Date(),
+      refundReason: reason,
+      ...(stripeRefundId ? { stripeRefundId } : {})
+    });
+    if (orderStatus === 'refunded') {
+      await ticketsStorage.voidVouchersByOrder(order.id);
+    }
+
+    // Refunded seats go back on sale - offer them to the waitlist first
+    await SeatingService.releaseSeatsForTickets(tickets.map(t => t.id));
+    await WaitlistService.handleCapacityReleased(tickets.map(t => t.tierId));
+
+    // The amount is the whole request's, shared by its tickets
+    for (const ticket of tickets) {
+      await OrganizerWebhookService.ticketEvent('ticket.refunded', ticket.id, { refundAmountCents: amountCents, reason, refundRequestId: request.id });
+    }
+
+    const approved = stripeRefundId
+      ? await ticketsStorage.updateRefundRequest(request.id, { stripeRefundId })
+      : claimed;
+    await sendRefundRequestEmail(request.id);
+    return approved;
+  }
+
+  static async declineRequest(request: TicketsRefundRequest, decidedBy: string, note: string | null): Promise<TicketsRefundRequest> {
+    const declined = await ticketsStorage.decideRefundRequest(request.id, {
+      status: 'declined',
+      decidedBy,
+      decisionNote: note
+    });
+    if (!declined) throw refundInvalid('This request has already been decided');
+
+    await sendRefundRequestEmail(request.id);
+    return declined;
+  }
+}
@@ -0,0 +1,264 @@
+import { ticketsStorage } from './tickets-storage';
+import { StripeService } from './stripe-service';
+import { ProductService } from './product-service';
+import { TaxService } from './tax-service';
+import { TransferService, type OwnedTicket, type TicketHolder } from './transfer-service';
+import type { TicketsOrder, TicketsOrderItem, TicketsTier, TicketsResaleListing } from '@shared/schema';
+
+// How long a buyer has to finish paying before the listing goes back on sale
+const PURCHASE_HOLD_MS = 15 * 60 * 1000;
+
+// Stripe won't charge less than this
+const MIN_RESALE_CENTS = 50;
+
+function resaleInvalid(message: string): Error {
+  const error = new Error(message) as Error & { resaleInvalid?: boolean };
+  error.resaleInvalid = true;
+  return error;
+}
+
+export class ResaleService {
+  /**
+   * A ticket's face value: its share of what the order paid for its line, after discount and with tax.
+   * Bundles split the line over every ticket they issued.
+   */
+  static faceValueCents(order: TicketsOrder, orderItems: TicketsOrderItem[], orderItem: TicketsOrderItem, tier: TicketsTier): number {
+    const lineGross = orderItem.unitPriceCents * orderItem.quantity;
+    const orderGross = orderItems.reduce((sum, item) => sum + item.unitPriceCents * item.quantity, 0);
+    const discountShare = orderGross > 0 ? Math.round((order.discountAmountCents || 0) * lineGross / orderGross) : 0;
+    const lineTickets = Math.max(1, ProductService.ticketsFor(tier, orderItem.quantity));
+    const lineTaxCents = TaxService.isInclusive(order) ? 0 : orderItem.taxCents; // already in the price when tax-inclusive
+    return Math.max(0, Math.floor((lineGross - discountShare + lineTaxCents) / lineTickets));
+  }
+
+  /**
+   * What a holder can ask for their ticket and which payment pays them back when it sells.
+   * Original buyers get refunded on their order; resale buyers on their own resale purchase.
+   * Tickets that were given away have no payment to refund, so they can only be transferred.
+   */
+  static async sellerTerms(owned: OwnedTicket): Promise<{ maxPriceCents: number; faceValueCents: number; paymentIntentId: string }> {
+    const { ticket, order } = owned;
+    const orderItems = await ticketsStorage.getOrderItems(order.id);
+    const orderItem = orderItems.find(item => item.id === ticket.orderItemId);
+    const tier = await ticketsStorage.getTierById(ticket.tierId);
+    if (!orderItem || !tier) throw resaleInvalid('Ticket not found');
+
+    const faceValueCents = ResaleService.faceValueCents(order, orderItems, orderItem, tier);
+
+    if (ticket.holderEmail) {
+      const purchase = await ticketsStorage.getResaleListingByNewTicket(ticket.id);
+      if (!purchase?.stripePaymentIntentId) {
+        throw resaleInvalid('Tickets you were given can be transferred but not resold');
+      }
+      return {
+        maxPriceCents: Math.min(faceValueCents, purchase.priceCents),
+        faceValueCents,
+        paymentIntentId: purchase.stripePaymentIntentId
+      };
+    }
+
+    if (!order.stripePaymentIntentId || faceValueCents === 0) {
+      throw resaleInvalid('Free tickets can be transferred but not resold');
+    }
+    const refundableCents = order.totalCents - (order.refundedAmountCents || 0);
+    return {
+      maxPriceCents: Math.min(faceValueCents, refundableCents),
+      faceValueCents,
+      paymentIntentId: order.stripePaymentIntentId
+    };
+  }
+
+  static async listTicket(owned: OwnedTicket, priceCents: number): Promise<TicketsResaleListing> {
+    const { ticket, order, event, holder } = owned;
+
+    if (!event.resaleEnabled) throw resaleInvalid('Resale isn\'t open for this event');
+    if (ticket.status !== 'valid') throw resaleInvalid('Only valid tickets can be resold');
+
+    const occurrence = ticket.occurrenceId ? await ticketsStorage.getOccurrenceById(ticket.occurrenceId) : null;
+    if (new Date(occurrence?.startAt || event.startAt) <= new Date()) {
+      throw resaleInvalid('Resale closes when the event starts');
+    }
+    if (await ticketsStorage.getOpenResaleListingByTicket(ticket.id)) {
+      throw resaleInvalid('This ticket is already listed for resale');
+    }
+
+    const terms = await ResaleService.sellerTerms(owned);
+    if (priceCents < MIN_RESALE_CENTS) {
+      throw resaleInvalid(`The lowest resale price is $${(MIN_RESALE_CENTS / 100).toFixed(2)}`);
+    }
+    if (priceCents > terms.maxPriceCents) {
+      throw resaleInvalid(`Resale is capped at face value - at most $${(terms.maxPriceCents / 100).toFixed(2)} for this ticket`);
+    }
+
+    return ticketsStorage.createResaleListing({
+      eventId: event.id,
+      ticketId: ticket.id,
+      sellerOrderId: order.id,
+      sellerEmail: TransferService.normalizeEmail(holder.email),
+      sellerPaymentIntentId: terms.paymentIntentId,
+      priceCents,
+      faceValueCents: terms.faceValueCents,
+      status: 'active'
+    });
+  }
+
+  static async cancelListing(owned: OwnedTicket): Promise<TicketsResaleListing> {
+    const listing = await ticketsStorage.getOpenResaleListingByTicket(owned.ticket.id);
+    if (!listing) throw resaleInvalid('This ticket isn\'t listed for resale');
+    if (listing.status === 'pending' && listing.pendingUntil && new Date(listing.pendingUntil) > new Date()) {
+      throw resaleInvalid('Someone is buying this ticket right now');
+    }
+    return ticketsStorage.updateResaleListing(listing.id, { status: 'canceled' });
+  }
+
+  /**
+   * Hold a listing for a buyer and start their payment. Returns the Payment Intent's client secret.
+   */
+  static async startPurchase(listingId: string, buyer: TicketHolder): Promise<{ listing: TicketsResaleListing; clientSecret: string }> {
+    const listing = await ticketsStorage.getResaleListingById(listingId);
+    const event = listing ? await ticketsStorage.getEventById(listing.eventId) : null;
+    if (!listing || !event || !event.resaleEnabled) throw resaleInvalid('This ticket is no longer for sale');
+    if (TransferService.normalizeEmail(buyer.email) === listing.sellerEmail) {
+      throw resaleInvalid('You can\'t buy your own ticket');
+    }
+
+    const ticket = await ticketsStorage.getTicketById(listing.ticketId);
+    if (!ticket || ticket.status !== 'valid') {
+      await ticketsStorage.updateResaleListing(listing.id, { status: 'canceled' });
+      throw resaleInvalid('This ticket is no longer for sale');
+    }
+
+    const organizer = await ticketsStorage.getOrganizerById(event.organizerId);
+    if (!organizer) throw resaleInvalid('This ticket is no longer for sale');
+
+    const held = await ticketsStorage.claimResaleListing(listing.id, {
+      buyerEmail: TransferService.normalizeEmail(buyer.email),
+      buyerName: buyer.name,
+      pendingUntil: new Date(Date.now() + PURCHASE_HOLD_MS)
+    });
+    if (!held) throw resaleInvalid('Someone else is buying this ticket - try another one');
+
+    const paymentIntent = await StripeService.createResalePaymentIntent(held, event, organizer);
+    if (!paymentIntent?.client_secret) {
+      await ticketsStorage.updateResaleListing(held.id, { status: 'active', buyerEmail: null, buyerName: null, pendingUntil: null });
+      throw new Error('Payments are not available right now');
+    }
+
+    const updated = await ticketsStorage.updateResaleListing(held.id, { stripePaymentIntentId: paymentIntent.id });
+    return { listing: updated, clientSecret: paymentIntent.client_secret };
+  }
+
+  /**
+   * The buyer paid: pay the seller back, then reissue the ticket to the buyer.
+   * If the sale can't go through any more the buyer is refunded instead.
+   */
+  static async completePurchase(paymentIntent: { id: string; metadata?: Record<string, string> }): Promise<void> {
+    const listing = await ticketsStorage.getResaleListingById(paymentIntent.metadata?.resaleListingId || '');
+    if (!listing || listing.status === 'sold') return;
+
+    const event = await ticketsStorage.getEventById(listing.eventId);
+    const organizer = event ? await ticketsStorage.getOrganizerById(event.organizerId) : null;
+    if (!event || !organizer) throw new Error(`Event for resale listing ${listing.id} not found`);
+
+    const refundBuyer = async (why: string) => {
+      console.warn(`[Resale] Refunding buyer for listing ${listing.id}: ${why}`);
+      await StripeService.refundForResale(paymentIntent.id, listing.priceCents, organizer, listing.id);
+      await ticketsStorage.createAuditLog({
+        actorType: 'system',
+        actorId: 'stripe',
+        action: 'resale_buyer_refunded',
+        targetType: 'resale_listing',
+        targetId: listing.id,
+        metaJson: { paymentIntentId: paymentIntent.id, reason: why }
+      });
+    };
+
+    // The hold ran out and someone else claimed the listing while this payment went through
+    if (listing.stripePaymentIntentId !== paymentIntent.id) {
+      await refundBuyer('listing was claimed by another buyer');
+      return;
+    }
+    if (listing.status !== 'pending') {
+      await refundBuyer('listing was withdrawn');
+      return;
+    }
+
+    const ticket = await ticketsStorage.getTicketById(listing.ticketId);
+    if (!ticket || ticket.status !== 'valid') {
+      await refundBuyer('ticket is no longer valid');
+      await ticketsStorage.updateResaleListing(listing.id, { status: 'canceled' });
+      return;
+    }
+
+    let sellerRefundId: string | null = null;
+    try {
+      const refund = await StripeService.refundForResale(listing.sellerPaymentIntentId, listing.priceCents, organizer, listing.id);
+      sellerRefundId = refund?.id || null;
+    } catch (refundError) {
+      console.error(`[Resale] Could not refund seller for listing ${listing.id}:`, refundError);
+      await refundBuyer('seller refund failed');
+      await ticketsStorage.updateResaleListing(listing.id, { status: 'canceled' });
+      return;
+    }
+
+    const buyer = { email: listing.buyerEmail!, name: listing.buyerName };
+    const sellerOrder = await ticketsStorage.getOrderById(listing.sellerOrderId);
+    const seller = sellerOrder ? TransferService.holderOf(ticket, sellerOrder) : { email: listing.sellerEmail, name: null };
+    const newTicket = await TransferService.reissueTicket(ticket, buyer);
+
+    await ticketsStorage.updateResaleListing(listing.id, {
+      status: 'sold',
+      newTicketId: newTicket.id,
+      sellerRefundId,
+      soldAt: new Date()
+    });
+
+    // Only a refund on the seller's original order shows up on that order
+    if (sellerOrder && sellerOrder.stripePaymentIntentId === listing.sellerPaymentIntentId) {
+      await ticketsStorage.updateOrder(sellerOrder.id, {
+        refundedAmountCents: (sellerOrder.refundedAmountCents || 0) + listing.priceCents
+      });
+    }
+
+    await ticketsStorage.createAuditLog({
+      actorType: 'system',
+      actorId: 'stripe',
+      action: 'ticket_resold',
+      targetType: 'ticket',
+      targetId: ticket.id,
+      metaJson: {
+        listingId: listing.id,
+        newTicketId: newTicket.id,
+        priceCents: listing.priceCents,
+        sellerEmail: listing.sellerEmail,
+        buyerEmail: buyer.email,
+        sellerRefundId
+      }
+    });
+
+    await TransferService.notifyTransfer(ticket, newTicket.id, event, seller, buyer);
+  }
+
+  // The buyer's payment failed - let someone else buy the ticket
+  static async failPurchase(paymentIntent: { id: string; metadata?: Record<string, string> }): Promise<void> {
+    const listingId = paymentIntent.metadata?.resaleListingId;
+    if (listingId) {
+      await ticketsStorage.releaseResaleListing(listingId, paymentIntent.id);
+    }
+  }
+
+  /**
+   * Refunds on an order that paid resold tickets' sellers back. The Stripe refund webhook
+   * sees these like any other refund, so it takes them out before touching the order.
+   */
+  static async resaleRefunds(order: TicketsOrder): Promise<{ refundedCents: number; resoldTicketIds: Set<string> }> {
+    const sold = await ticketsStorage.getSoldResaleListingsByOrder(order.id);
+    return {
+      refundedCents: sold
+        .filter(listing => listing.sellerPaymentIntentId === order.stripePaymentIntentId)
+        .reduce((sum, listing) => sum + listing.priceCents, 0),
+      // Resale buyers paid separately, so a refund of this order never cancels their tickets
+      resoldTicketIds: new Set(sold.map(listing => listing.newTicketId).filter((id): id is string => !!id))
+    };
+  }
+}
@@ -0,0 +1,391 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { ScannerService, type CheckinActor } from "./scanner-service";
+import { gateSchema, scannerSchema, scannerLoginSchema } from "./validation";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+const findOrganizer = async (req: Request & { session?: any }) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  return organizer;
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  const organizer = await findOrganizer(req);
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+/**
+ * Middleware for check-in endpoints: lets in organizers and door staff signed in
+ * with a scanner access code. Scanners are re-checked on every request so a
+ * revoked scanner is locked out straight away. Handlers still need
+ * ScannerService.canAccessEvent to scope the actor to the event.
+ */
+export const requireCheckinAccess = async (req: Request & { session?: any; checkinActor?: CheckinActor; organizer?: any }, res: Response, next: any) => {
+  try {
+    if (req.session?.scannerId) {
+      const scanner = await ticketsStorage.getScannerById(req.session.scannerId);
+      if (!scanner || scanner.status !== 'active') {
+        delete req.session.scannerId;
+        return res.status(401).json({ ok: false, revoked: true, error: 'This scanner has been revoked - ask the organizer for a new access code' });
+      }
+
+      await ScannerService.touch(scanner);
+      req.checkinActor = { type: 'scanner', scanner };
+      return next();
+    }
+
+    const organizer = await findOrganizer(req);
+    if (!organizer || organizer.status === 'suspended') {
+      return res.status(401).json({ ok: false, error: 'Please log in as an organizer or with a scanner access code' });
+    }
+
+    req.organizer = organizer;
+    req.checkinActor = { type: 'organizer', organizer };
+    next();
+  } catch (error) {
+    console.error('Error checking check-in access:', error);
+    res.status(500).json({ ok: false, error: 'Failed to verify check-in access' });
+  }
+};
+
+const ownsEvent = async (organizerId: string, eventId: string) => {
+  const event = await ticketsStorage.getEventById(eventId);
+  return !!event && event.organizerId === organizerId;
+};
+
+// Never send the access code hash back to the client
+const publicScanner = ({ accessCodeHash, ...scanner }: any) => scanner;
+
+export function addScannerRoutes(app: Express) {
+
+  // ============ SCANNER SESSIONS ============
+
+  // Sign a door staff device in with a scanner access code
+  app.post('/api/tickets/scanner/login', requireTicketing, async (req: Request & { session?: any }, res: Response) => {
+    try {
+      const { accessCode } = scannerLoginSchema.parse(req.body);
+
+      const scanner = await ScannerService.authenticate(accessCode);
+      if (!scanner) {
+        return res.status(401).json({ ok: false, error: 'That access code is not valid or has been revoked' });
+      }
+
+      req.session.scannerId = scanner.id;
+
+      const [event, gate] = await Promise.all([
+        ticketsStorage.getEventById(scanner.eventId),
+        scanner.gateId ? ticketsStorage.getGateById(scanner.gateId) : Promise.resolve(null)
+      ]);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'scanner',
+        actorId: scanner.id,
+        action: 'scanner_signed_in',
+        targetType: 'event',
+        targetId: scanner.eventId,
+        metaJson: { scannerName: scanner.name, gateId: scanner.gateId },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({
+        ok: true,
+        scanner: { ...publicScanner(scanner), gateName: gate?.name || null, eventTitle: event?.title || '' }
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid access code' });
+      }
+      console.error('Error signing in scanner:', error);
+      res.status(500).json({ ok: false, error: 'Failed to sign in' });
+    }
+  });
+
+  app.post('/api/tickets/scanner/logout', requireTicketing, async (req: Request & { session?: any }, res: Response) => {
+    if (req.session) {
+      delete req.session.scannerId;
+    }
+    res.json({ ok: true });
+  });
+
+  // The scanner this device is signed in as, if any
+  app.get('/api/tickets/scanner/me', requireTicketing, async (req: Request & { session?: any }, res: Response) => {
+    try {
+      if (!req.session?.scannerId) {
+        return res.json({ ok: true, scanner: null });
+      }
+
+      const scanner = await ticketsStorage.getScannerById(req.session.scannerId);
+      if (!scanner || scanner.status !== 'active') {
+        delete req.session.scannerId;
+        return res.json({ ok: true, scanner: null, revoked: !!scanner });
+      }
+
+      const gate = scanner.gateId ? await ticketsStorage.getGateById(scanner.gateId) : null;
+      res.json({ ok: true, scanner: { ...publicScanner(scanner), gateName: gate?.name || null } });
+    } catch (error) {
+      console.error('Error fetching scanner session:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch scanner session' });
+    }
+  });
+
+  // ============ GATES ============
+
+  // List an event's gates (scanners need these too, to show where they're posted)
+  app.get('/api/tickets/events/:eventId/gates', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+
+      if (!await ScannerService.canAccessEvent(req.checkinActor!, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const gates = await ticketsStorage.getGatesByEvent(eventId);
+      res.json({ ok: true, gates });
+    } catch (error) {
+      console.error('Error fetching gates:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch gates' });
+    }
+  });
+
+  app.post('/api/tickets/events/:eventId/gates', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const { name } = gateSchema.parse(req.body);
+
+      if (!await ownsEvent(req.organizer.id, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const existing = await ticketsStorage.getGatesByEvent(eventId);
+      if (existing.some(g => g.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ ok: false, error: 'A gate with that name already exists' });
+      }
+
+      const gate = await ticketsStorage.createGate({ eventId, name, sortOrder: existing.length });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'gate_created',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { gateId: gate.id, name },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, gate });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid gate' });
+      }
+      console.error('Error creating gate:', error);
+      res.status(500).json({ ok: false, error: 'Failed to create gate' });
+    }
+  });
+
+  // Remove a gate; its scanners stay active without a gate and past check-ins keep their history
+  app.delete('/api/tickets/events/:eventId/gates/:gateId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId, gateId } = req.params;
+
+      if (!await ownsEvent(req.organizer.id, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const gate = await ticketsStorage.getGateById(gateId);
+      if (!gate || gate.eventId !== eventId) {
+        return res.status(404).json({ ok: false, error: 'Gate not found' });
+      }
+
+      await ticketsStorage.deleteGate(gateId);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'gate_deleted',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { gateId, name: gate.name },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error deleting gate:', error);
+      res.status(500).json({ ok: false, error: 'Failed to delete gate' });
+    }
+  });
+
+  // ============ SCANNER ACCOUNTS ============
+
+  app.get('/api/tickets/events/:eventId/scanners', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+
+      if (!await ownsEvent(req.organizer.id, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const [scanners, stats] = await Promise.all([
+        ticketsStorage.getScannersByEvent(eventId),
+        ScannerService.getGateStats(eventId)
+      ]);
+      const statsByScanner = new Map(stats.scanners.map(s => [s.scannerId, s]));
+
+      res.json({
+        ok: true,
+        scanners: scanners.map(scanner => ({
+          ...publicScanner(scanner),
+          checkedIn: statsByScanner.get(scanner.id)?.checkedIn || 0,
+          lastCheckInAt: statsByScanner.get(scanner.id)?.lastCheckInAt || null
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching scanners:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch scanners' });
+    }
+  });
+
+  // Issue a scanner account - the access code is only ever returned here
+  app.post('/api/tickets/events/:eventId/scanners', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const { name, gateId } = scannerSchema.parse(req.body);
+
+      if (!await ownsEvent(req.organizer.id, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      if (gateId) {
+        const gate = await ticketsStorage.getGateById(gateId);
+        if (!gate || gate.eventId !== eventId) {
+          return res.status(400).json({ ok: false, error: 'Gate not found for this event' });
+        }
+      }
+
+      const { scanner, accessCode } = await ScannerService.issueScanner(eventId, name, gateId || null, req.organizer.id);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'scanner_issued',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { scannerId: scanner.id, name, gateId: gateId || null },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, scanner: publicScanner(scanner), accessCode });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid scanner' });
+      }
+      console.error('Error issuing scanner:', error);
+      res.status(500).json({ ok: false, error: 'Failed to issue scanner' });
+    }
+  });
+
+  // Move a scanner to another gate
+  app.patch('/api/tickets/events/:eventId/scanners/:scannerId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId, scannerId } = req.params;
+      const { gateId } = scannerSchema.pick({ gateId: true }).parse(req.body);
+
+      if (!await ownsEvent(req.organizer.id, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const scanner = await ticketsStorage.getScannerById(scannerId);
+      if (!scanner || scanner.eventId !== eventId) {
+        return res.status(404).json({ ok: false, error: 'Scanner not found' });
+      }
+
+      if (gateId) {
+        const gate = await ticketsStorage.getGateById(gateId);
+        if (!gate || gate.eventId !== eventId) {
+          return res.status(400).json({ ok: false, error: 'Gate not found for this event' });
+        }
+      }
+
+      const updated = await ticketsStorage.updateScanner(scannerId, { gateId: gateId || null });
+      res.json({ ok: true, scanner: publicScanner(updated) });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid gate' });
+      }
+      console.error('Error updating scanner:', error);
+      res.status(500).json({ ok: false, error: 'Failed to update scanner' });
+    }
+  });
+
+  // Revoke a scanner - takes effect on its next request, even mid-event
+  app.post('/api/tickets/events/:eventId/scanners/:scannerId/revoke', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId, scannerId } = req.params;
+
+      if (!await ownsEvent(req.organizer.id, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const scanner = await ticketsStorage.getScannerById(scannerId);
+      if (!scanner || scanner.eventId !== eventId) {
+        return res.status(404).json({ ok: false, error: 'Scanner not found' });
+      }
+
+      if (scanner.status === 'revoked') {
+        return res.json({ ok: true, scanner: publicScanner(scanner) });
+      }
+
+      const revoked = await ScannerService.revokeScanner(scannerId);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'scanner_revoked',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { scannerId, name: scanner.name },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, scanner: publicScanner(revoked) });
+    } catch (error) {
+      console.error('Error revoking scanner:', error);
+      res.status(500).json({ ok: false, error: 'Failed to revoke scanner' });
+    }
+  });
+}
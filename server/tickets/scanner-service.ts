@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { ticketsStorage } from './tickets-storage';
+import type { TicketsScanner } from '@shared/schema';
+
+// Unambiguous characters only - door staff type these in on their phones
+const ACCESS_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// How long a gate's recent throughput window is
+const THROUGHPUT_WINDOW_MINUTES = 15;
+
+export interface GateStats {
+  gateId: string | null;
+  name: string;
+  checkedIn: number;
+  recentCheckIns: number; // within the throughput window
+  perMinute: number;
+  lastCheckInAt: string | null;
+}
+
+export interface ScannerStats {
+  scannerId: string;
+  checkedIn: number;
+  lastCheckInAt: string | null;
+}
+
+/**
+ * Who is checking tickets in on a request: an organizer, or a door staff scanner
+ * account that's limited to one event
+ */
+export type CheckinActor =
+  | { type: 'organizer'; organizer: any }
+  | { type: 'scanner'; scanner: TicketsScanner };
+
+export class ScannerService {
+  /**
+   * A fresh access code like "K7QM-2XPA-9HWD-ZR4C"
+   */
+  static generateAccessCode(): string {
+    const bytes = crypto.randomBytes(16);
+    const chars = Array.from(bytes, b => ACCESS_CODE_ALPHABET[b % ACCESS_CODE_ALPHABET.length]).join('');
+    return chars.match(/.{4}/g)!.join('-');
+  }
+
+  static hashAccessCode(accessCode: string): string {
+    const normalized = accessCode.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Create a scanner account for an event. The access code is returned once
+   * and only its hash is stored.
+   */
+  static async issueScanner(eventId: string, name: string, gateId: string | null, organizerId: string) {
+    const accessCode = ScannerService.generateAccessCode();
+    const scanner = await ticketsStorage.createScanner({
+      eventId,
+      gateId,
+      name,
+      accessCodeHash: ScannerService.hashAccessCode(accessCode),
+      status: 'active',
+      createdBy: organizerId
+    });
+
+    console.log(`[Scanners] Issued scanner ${scanner.id} (${name}) for event ${eventId}`);
+    return { scanner, accessCode };
+  }
+
+  /**
+   * Look up an active scanner by its access code
+   */
+  static async authenticate(accessCode: string): Promise<TicketsScanner | null> {
+    const scanner = await ticketsStorage.getScannerByAccessCodeHash(ScannerService.hashAccessCode(accessCode));
+    if (!scanner || scanner.status !== 'active') return null;
+
+    return ticketsStorage.updateScanner(scanner.id, { lastSeenAt: new Date() });
+  }
+
+  static async revokeScanner(scannerId: string): Promise<TicketsScanner> {
+    const scanner = await ticketsStorage.updateScanner(scannerId, { status: 'revoked', revokedAt: new Date() });
+    console.log(`[Scanners] Revoked scanner ${scannerId}`);
+    return scanner;
+  }
+
+  /**
+   * Record that a scanner is still in use, at most once a minute
+   */
+  static async touch(scanner: TicketsScanner): Promise<void> {
+    if (scanner.lastSeenAt && Date.now() - new Date(scanner.lastSeenAt).getTime() < 60 * 1000) return;
+    try {
+      await ticketsStorage.updateScanner(scanner.id, { lastSeenAt: new Date() });
+    } catch (error) {
+      console.error('[Scanners] Failed to update last seen:', error);
+    }
+  }
+
+  /**
+   * Whether the actor may check tickets in for an event. Scanners are locked to
+   * the event they were issued for; organizers to events they own.
+   */
+  static async canAccessEvent(actor: CheckinActor, eventId: string): Promise<boolean> {
+    if (actor.type === 'scanner') {
+      return actor.scanner.eventId === eventId;
+    }
+    const event = await ticketsStorage.getEventById(eventId);
+    return !!event && event.organizerId === actor.organizer.id;
+  }
+
+  /**
+   * Who a check-in is recorded against. Scanner accounts always use their own
+   * name and gate; organizers scanning from the dashboard aren't posted at a gate.
+   */
+  static attributionFor(actor: CheckinActor, checkInBy?: string) {
+    if (actor.type === 'scanner') {
+      return {
+        checkInBy: actor.scanner.name,
+        scannerId: actor.scanner.id,
+        gateId: actor.scanner.gateId
+      };
+    }
+    return {
+      checkInBy: checkInBy || 'staff',
+      scannerId: null,
+      gateId: null
+    };
+  }
+
+  /**
+   * Check-in totals and recent throughput per gate and per scanner
+   */
+  static async getGateStats(eventId: string): Promise<{ windowMinutes: number; gates: GateStats[]; scanners: ScannerStats[] }> {
+    const [gates, checkIns] = await Promise.all([
+      ticketsStorage.getGatesByEvent(eventId),
+      ticketsStorage.getEventCheckIns(eventId)
+    ]);
+
+    const windowStart = Date.now() - THROUGHPUT_WINDOW_MINUTES * 60 * 1000;
+
+    const summarize = (rows: typeof checkIns) => {
+      const recent = rows.filter(r => new Date(r.usedAt).getTime() >= windowStart).length;
+      const last = rows.reduce<string | null>((latest, r) => !latest || r.usedAt > latest ? r.usedAt : latest, null);
+      return {
+        checkedIn: rows.length,
+        recentCheckIns: recent,
+        perMinute: Math.round((recent / THROUGHPUT_WINDOW_MINUTES) * 10) / 10,
+        lastCheckInAt: last
+      };
+    };
+
+    const gateIds = new Set(gates.map(g => g.id));
+    const gateStats: GateStats[] = gates.map(gate => ({
+      gateId: gate.id,
+      name: gate.name,
+      ...summarize(checkIns.filter(c => c.gateId === gate.id))
+    }));
+
+    // Check-ins without a gate (or at a gate that has since been removed)
+    const unassigned = checkIns.filter(c => !c.gateId || !gateIds.has(c.gateId));
+    if (gates.length > 0 && unassigned.length > 0) {
+      gateStats.push({ gateId: null, name: 'No gate', ...summarize(unassigned) });
+    }
+
+    const byScanner = new Map<string, typeof checkIns>();
+    for (const checkIn of checkIns) {
+      if (!checkIn.scannerId) continue;
+      if (!byScanner.has(checkIn.scannerId)) byScanner.set(checkIn.scannerId, []);
+      byScanner.get(checkIn.scannerId)!.push(checkIn);
+    }
+    const scannerStats: ScannerStats[] = Array.from(byScanner.entries()).map(([scannerId, rows]) => {
+      const { checkedIn, lastCheckInAt } = summarize(rows);
+      return { scannerId, checkedIn, lastCheckInAt };
+    });
+
+    return { windowMinutes: THROUGHPUT_WINDOW_MINUTES, gates: gateStats, scanners: scannerStats };
+  }
+}
@@ -0,0 +1,173 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { SeatingService, type SeatMapLayout } from "./seating-service";
+import { seatMapSchema } from "./validation";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+export function addSeatingRoutes(app: Express) {
+
+  // Get an event's seat map with live seat availability (public - drives the seat picker)
+  app.get('/api/tickets/events/:eventId/seat-map', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      const { eventId } = req.params;
+
+      const seatMap = await ticketsStorage.getSeatMapByEvent(eventId);
+      if (!seatMap) {
+        return res.json({ ok: true, seatMap: null, seats: [] });
+      }
+
+      const seats = await ticketsStorage.getSeatsByEvent(eventId);
+      const layout = seatMap.layout as SeatMapLayout;
+
+      res.json({
+        ok: true,
+        seatMap: {
+          id: seatMap.id,
+          name: seatMap.name,
+          zones: layout.zones,
+          sections: layout.sections
+        },
+        seats: seats.map(seat => ({
+          id: seat.id,
+          tierId: seat.tierId,
+          section: seat.section,
+          row: seat.row,
+          number: seat.number,
+          available: SeatingService.isSeatAvailable(seat)
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching seat map:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch seat map' });
+    }
+  });
+
+  // Create or replace an event's seat map
+  app.put('/api/tickets/events/:eventId/seat-map', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const { name, zones, sections } = seatMapSchema.parse(req.body);
+
+      const event = await ticketsStorage.getEventById(eventId);
+      if (!event || event.organizerId !== req.organizer.id) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      // Seats are sold once per event, so they can't be resold for each date of a series
+      if ((await ticketsStorage.getOccurrencesByEvent(eventId)).length > 0) {
+        return res.status(400).json({ ok: false, error: "Reserved seating isn't available for events with multiple dates" });
+      }
+
+      const tiers = await ticketsStorage.getTiersByEvent(eventId);
+      const tierIds = new Set(tiers.map(t => t.id));
+      if (zones.some(zone => !tierIds.has(zone.tierId))) {
+        return res.status(400).json({ ok: false, error: 'Every price zone must map to a ticket tier of this event' });
+      }
+
+      // A seat is one ticket, so zones can't sell bundles or add-ons
+      const seatable = new Set(tiers.filter(t => t.kind !== 'addon' && (t.ticketsPerUnit ?? 1) === 1).map(t => t.id));
+      if (zones.some(zone => !seatable.has(zone.tierId))) {
+        return res.status(400).json({ ok: false, error: 'Price zones can only use single-ticket tiers, not bundles or add-ons' });
+      }
+
+      // Regenerating seats would orphan existing seat assignments
+      const existing = await ticketsStorage.getSeatMapByEvent(eventId);
+      if (existing && await ticketsStorage.countUnavailableSeats(existing.id) > 0) {
+        return res.status(409).json({ ok: false, error: 'Seats have already been sold or are held at checkout - the seat map can no longer be changed' });
+      }
+
+      const { seatMap, seatCount } = await SeatingService.saveSeatMap(eventId, name, { zones, sections });
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: existing ? 'seat_map_updated' : 'seat_map_created',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { seatMapId: seatMap.id, seatCount },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, seatMapId: seatMap.id, seatCount });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid seat map' });
+      }
+      console.error('Error saving seat map:', error);
+      res.status(500).json({ ok: false, error: 'Failed to save seat map' });
+    }
+  });
+
+  // Remove an event's seat map, returning its tiers to general admission
+  app.delete('/api/tickets/events/:eventId/seat-map', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+
+      const event = await ticketsStorage.getEventById(eventId);
+      if (!event || event.organizerId !== req.organizer.id) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const seatMap = await ticketsStorage.getSeatMapByEvent(eventId);
+      if (!seatMap) {
+        return res.status(404).json({ ok: false, error: 'This event has no seat map' });
+      }
+
+      if (await ticketsStorage.countUnavailableSeats(seatMap.id) > 0) {
+        return res.status(409).json({ ok: false, error: 'Seats have already been sold or are held at checkout - the seat map can no longer be removed' });
+      }
+
+      await ticketsStorage.deleteSeatMap(seatMap.id);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'seat_map_deleted',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { seatMapId: seatMap.id },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error deleting seat map:', error);
+      res.status(500).json({ ok: false, error: 'Failed to delete seat map' });
+    }
+  });
+}
@@ -0,0 +1,220 @@
+import { ticketsStorage } from './tickets-storage';
+import type { TicketsSeat, InsertTicketsSeat } from '@shared/schema';
+
+// How long seats picked at checkout stay held while the buyer pays - discount code uses are held as long
+export const HOLD_WINDOW_MS = parseInt(process.env.TICKETS_SEAT_HOLD_MINUTES || '15', 10) * 60 * 1000;
+
+export interface SeatMapLayout {
+  zones: Array<{ key: string; name: string; tierId: string; color?: string }>;
+  sections: Array<{
+    name: string;
+    zone?: string;
+    rows: Array<{ label: string; seats: number; zone?: string }>;
+  }>;
+}
+
+interface SeatSelection {
+  tierId: string;
+  quantity: number;
+  seatIds?: string[];
+}
+
+export class SeatingService {
+  /**
+   * Capacity reservation ID holding an order's seats on one tier
+   */
+  static holdReservationIdFor(orderId: string, tierId: string): string {
+    return `seats_${orderId}_${tierId}`;
+  }
+
+  static formatSeatLabel(seat: Pick<TicketsSeat, 'section' | 'row' | 'number'>): string {
+    return `${seat.section} · Row ${seat.row} · Seat ${seat.number}`;
+  }
+
+  /**
+   * A seat can be picked if it's free, or held by a checkout that has since lapsed
+   */
+  static isSeatAvailable(seat: TicketsSeat): boolean {
+    if (seat.status === 'available') return true;
+    return seat.status === 'held' && !!seat.heldUntil && new Date(seat.heldUntil) < new Date();
+  }
+
+  /**
+   * Expand a seat map layout into individual seats. Rows inherit their section's
+   * price zone unless they name their own.
+   */
+  static buildSeats(seatMapId: string, eventId: string, layout: SeatMapLayout): InsertTicketsSeat[] {
+    const zoneTiers = new Map(layout.zones.map(z => [z.key, z.tierId]));
+    const seats: InsertTicketsSeat[] = [];
+    let sortOrder = 0;
+
+    for (const section of layout.sections) {
+      for (const row of section.rows) {
+        const tierId = zoneTiers.get(row.zone || section.zone || '')!;
+        for (let n = 1; n <= row.seats; n++) {
+          seats.push({
+            seatMapId,
+            eventId,
+            tierId,
+            section: section.name,
+            row: row.label,
+            number: String(n),
+            sortOrder: sortOrder++,
+            status: 'available'
+          });
+        }
+      }
+    }
+
+    return seats;
+  }
+
+  /**
+   * Create or replace an event's seat map. Seated tiers get their capacity from
+   * the number of seats mapped to them so general-admission counts stay in step.
+   */
+  static async saveSeatMap(eventId: string, name: string, layout: SeatMapLayout) {
+    const existing = await ticketsStorage.getSeatMapByEvent(eventId);
+
+    let seatMap;
+    if (existing) {
+      await ticketsStorage.deleteSeatsByMap(existing.id);
+      seatMap = await ticketsStorage.updateSeatMap(existing.id, { name, layout });
+    } else {
+      seatMap = await ticketsStorage.createSeatMap({ eventId, name, layout });
+    }
+
+    const seats = SeatingService.buildSeats(seatMap.id, eventId, layout);
+    await ticketsStorage.createSeats(seats);
+
+    const seatsPerTier = new Map<string, number>();
+    for (const seat of seats) {
+      seatsPerTier.set(seat.tierId, (seatsPerTier.get(seat.tierId) || 0) + 1);
+    }
+    for (const [tierId, count] of Array.from(seatsPerTier.entries())) {
+      await ticketsStorage.updateTier(tierId, { capacity: count });
+    }
+
+    console.log(`[Seating] Saved seat map for event ${eventId} with ${seats.length} seats`);
+    return { seatMap, seatCount: seats.length };
+  }
+
+  /**
+   * Check the buyer's seat picks against the event's seat map. Every item on a
+   * seated tier needs exactly one free seat per ticket; GA tiers take none.
+   */
+  static async validateSelection(eventId: string, items: SeatSelection[]): Promise<void> {
+    const seatMap = await ticketsStorage.getSeatMapByEvent(eventId);
+    const seatedTierIds = new Set(
+      seatMap ? (seatMap.layout as SeatMapLayout).zones.map(z => z.tierId) : []
+    );
+
+    const requestedIds = items.flatMap(item => item.seatIds || []);
+    if (new Set(requestedIds).size !== requestedIds.length) {
+      throw SeatingService.selectionError('The same seat was selected twice', 'invalidSeats');
+    }
+
+    const seats = await ticketsStorage.getSeatsByIds(requestedIds);
+    const seatsById = new Map(seats.map(s => [s.id, s]));
+
+    for (const item of items) {
+      const seatIds = item.seatIds || [];
+
+      if (!seatedTierIds.has(item.tierId)) {
+        if (seatIds.length > 0) {
+          throw SeatingService.selectionError('Seats can only be picked for reserved-seating tickets', 'invalidSeats');
+        }
+        continue;
+      }
+
+      if (seatIds.length !== item.quantity) {
+        throw SeatingService.selectionError('Please pick a seat for each ticket', 'invalidSeats');
+      }
+
+      for (const seatId of seatIds) {
+        const seat = seatsById.get(seatId);
+        if (!seat || seat.eventId !== eventId || seat.tierId !== item.tierId) {
+          throw SeatingService.selectionError('One of the selected seats is not part of this ticket type', 'invalidSeats');
+        }
+        if (!SeatingService.isSeatAvailable(seat)) {
+          throw SeatingService.selectionError(`${SeatingService.formatSeatLabel(seat)} was just taken - please pick another seat`, 'seatConflict');
+        }
+      }
+    }
+  }
+
+  /**
+   * Hold the order's seats through the capacity-reservation mechanism. Either
+   * every seat is held or none are.
+   */
+  static async holdSeatsForOrder(orderId: string, items: SeatSelection[]): Promise<void> {
+    const seatedItems = items.filter(item => item.seatIds && item.seatIds.length > 0);
+    if (seatedItems.length === 0) return;
+
+    const heldUntil = new Date(Date.now() + HOLD_WINDOW_MS);
+    const heldTierIds: string[] = [];
+
+    for (const item of seatedItems) {
+      const reservationId = SeatingService.holdReservationIdFor(orderId, item.tierId);
+
+      const reserved = await ticketsStorage.reserveCapacity(item.tierId, item.seatIds!.length, reservationId, heldUntil);
+      if (!reserved) {
+        await SeatingService.releaseOrderHolds(orderId, heldTierIds);
+        throw SeatingService.selectionError('Those seats are no longer available - please pick again', 'seatConflict');
+      }
+      heldTierIds.push(item.tierId);
+
+      const held = await ticketsStorage.holdSeats(item.seatIds!, reservationId, heldUntil);
+      if (held.length !== item.seatIds!.length) {
+        await SeatingService.releaseOrderHolds(orderId, heldTierIds);
+        throw SeatingService.selectionError('Some of your seats were just taken - please pick again', 'seatConflict');
+      }
+    }
+
+    console.log(`[Seating] Held seats for order ${orderId} until ${heldUntil.toISOString()}`);
+  }
+
+  /**
+   * Seats held for an order on a tier, in seat-map order
+   */
+  static async getHeldSeats(orderId: string, tierId: string): Promise<TicketsSeat[]> {
+    return ticketsStorage.getSeatsByHold(SeatingService.holdReservationIdFor(orderId, tierId));
+  }
+
+  /**
+   * Drop an order's seat holds and their capacity reservations (failed or abandoned payment)
+   */
+  static async releaseOrderHolds(orderId: string, tierIds: string[]): Promise<void> {
+    for (const tierId of Array.from(new Set(tierIds))) {
+      const reservationId = SeatingService.holdReservationIdFor(orderId, tierId);
+      await ticketsStorage.releaseSeatHold(reservationId);
+      await ticketsStorage.releaseCapacity(tierId, 0, reservationId);
+    }
+  }
+
+  /**
+   * Once tickets exist their seats count as sold, so the capacity holds can go
+   */
+  static async completeOrderHolds(orderId: string, tierIds: string[]): Promise<void> {
+    for (const tierId of Array.from(new Set(tierIds))) {
+      await ticketsStorage.releaseCapacity(tierId, 0, SeatingService.holdReservationIdFor(orderId, tierId));
+    }
+  }
+
+  /**
+   * Put refunded or canceled tickets' seats back on sale
+   */
+  static async releaseSeatsForTickets(ticketIds: string[]): Promise<void> {
+    try {
+      await ticketsStorage.releaseSeatsForTickets(ticketIds);
+    } catch (error) {
+      console.error('[Seating] Failed to release seats for tickets:', error);
+    }
+  }
+
+  private static selectionError(message: string, kind: 'invalidSeats' | 'seatConflict') {
+    const error: any = new Error(message);
+    error[kind] = true;
+    return error;
+  }
+}
@@ -1,10 +1,14 @@
 import Stripe from 'stripe';
 import { nanoid } from 'nanoid';
+import { TierPricingService } from './tier-pricing-service';
+import { TaxService, type TaxBreakdown } from './tax-service';
+import { describeTax } from '@shared/tax-rules';
 import type { 
   TicketsEvent, 
   TicketsOrder, 
   TicketsTier,
-  TicketsOrganizer 
+  TicketsOrganizer,
+  TicketsResaleListing
 } from '@shared/schema';
 
 if (!process.env.STRIPE_SECRET_KEY) {
@@ -31,17 +35,40 @@ export interface CalculatedPricing {
   feesCents: number;
   taxCents: number;
   totalCents: number;
-  taxBreakdown: {
-    gstCents: number;
-    pstCents: number;
-  };
+  taxBreakdown: TaxBreakdown;
+  lines: PricedLine[]; // same order as the items passed in
+}
+
+// One order line after its share of the discount, with the tax charged on it
+export interface PricedLine {
+  tierId: string;
+  grossCents: number;
+  discountCents: number;
+  taxCents: number;
+}
+
+// Split an amount across weights so the parts add back up exactly
+function allocate(totalCents: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (totalCents === 0 || weightSum === 0) return weights.map(() => 0);
+  const shares = weights.map(w => Math.floor(totalCents * w / weightSum));
+  let remainder = totalCents - shares.reduce((sum, s) => sum + s, 0);
+  for (let i = shares.length - 1; remainder > 0 && i >= 0; i--) {
+    if (weights[i] > 0) {
+      shares[i] += 1;
+      remainder -= 1;
+    }
+  }
+  return shares;
 }
 
 export class StripeService {
   /**
-   * Get unit price in cents from a tier object, handling both camelCase and snake_case field names
+   * Get unit price in cents from a tier object, handling both camelCase and snake_case field names.
+   * Follows the tier's pricing schedule; sold-count steps need the tier's soldCount attached
+   * (see TierPricingService.withSales).
    */
-  static getUnitPriceCents(tier: TicketsTier): number {
+  static getUnitPriceCents(tier: TicketsTier, now: Date = new Date()): number {
     // Handle both camelCase and snake_case field names for database compatibility
     let priceInCents = tier.priceCents;
     if (priceInCents === undefined) {
@@ -49,6 +76,10 @@ export class StripeService {
       priceInCents = (tier as any).price_cents;
     }
     
+    if (TierPricingService.getSchedule(tier).length > 0) {
+      priceInCents = TierPricingService.resolve(tier, (tier as any).soldCount ?? 0, now).priceCents;
+    }
+    
     // Ensure we have a valid price
     if (priceInCents === undefined || priceInCents === null || isNaN(priceInCents)) {
       throw new Error(`Invalid tier price: ${priceInCents} for tier ${tier.id}`);
@@ -68,48 +99,47 @@ export class StripeService {
     discountAmountCents: number = 0,
     organizer?: TicketsOrganizer
   ): CalculatedPricing {
-    // Calculate subtotal
-    const rawSubtotalCents = items.reduce((sum, item) => {
-      const priceInCents = StripeService.getUnitPriceCents(item.tier);
-      const itemTotal = priceInCents * item.quantity;
-      return sum + itemTotal;
-    }, 0);
+    // Calculate subtotal - bundles are priced per unit, so quantity is still the multiplier
+    const grossCents = items.map(item => StripeService.getUnitPriceCents(item.tier) * item.quantity);
+    const rawSubtotalCents = grossCents.reduce((sum, cents) => sum + cents, 0);
     
     console.log('Raw subtotal cents:', rawSubtotalCents);
     
     // Clamp discount to prevent negative totals
     const effectiveDiscountCents = Math.min(discountAmountCents, rawSubtotalCents);
-    const subtotalCents = Math.max(0, rawSubtotalCents - effectiveDiscountCents);
+    const discountedCents = Math.max(0, rawSubtotalCents - effectiveDiscountCents);
+    
+    // The discount is spread over the lines by value, so tax-exempt lines take their share of it
+    const lineDiscounts = allocate(effectiveDiscountCents, grossCents);
+    const taxableNet = items.map((item, i) => item.tier.taxable === false ? 0 : grossCents[i] - lineDiscounts[i]);
+    const taxableCents = taxableNet.reduce((sum, cents) => sum + cents, 0);
 
     // NO PLATFORM FEE - Jugnu revenue comes from subscriptions only
     // feesCents represents optional service fees that the business can set (goes to them, not Jugnu)
     const feesCents = 0; // Not used in this model
 
-    // Calculate taxes on subtotal
-    const taxSettings = (event.taxSettings as any) || { collectTax: true, gstPercent: 5, pstPercent: 7 };
-    let gstCents = 0;
-    let pstCents = 0;
-    
-    if (taxSettings.collectTax) {
-      gstCents = Math.round(subtotalCents * (taxSettings.gstPercent / 100));
-      pstCents = event.province === 'BC' 
-        ? Math.round(subtotalCents * (taxSettings.pstPercent / 100))
-        : 0;
-    }
+    // Taxes follow the event's province (see TaxService)
+    const tax = TaxService.calculate(event, taxableCents, feesCents);
+    const lineTaxes = allocate(tax.ticketTaxCents, taxableNet);
 
-    const taxCents = gstCents + pstCents;
-    // Total charged to customer (subtotal + tax only, no platform fees)
-    const totalCents = subtotalCents + taxCents;
+    // Tax-inclusive prices already hold the tax, so it comes out of the subtotal instead of going on top
+    const subtotalCents = tax.breakdown.inclusive ? discountedCents - tax.ticketTaxCents : discountedCents;
+    const totalCents = tax.breakdown.inclusive
+      ? discountedCents + feesCents
+      : discountedCents + feesCents + tax.taxCents;
 
     return {
       subtotalCents,
       feesCents, // Always 0 - no platform fees collected
-      taxCents,
+      taxCents: tax.taxCents,
       totalCents,
-      taxBreakdown: {
-        gstCents,
-        pstCents
-      }
+      taxBreakdown: tax.breakdown,
+      lines: items.map((item, i) => ({
+        tierId: item.tier.id,
+        grossCents: grossCents[i],
+        discountCents: lineDiscounts[i],
+        taxCents: lineTaxes[i]
+      }))
     };
   }
 
@@ -148,6 +178,9 @@ export class StripeService {
 
     // Do not add service fee as a line item - use application_fee_amount instead
 
+    // Calculate pricing to get tax amounts (tax is charged on the discounted subtotal)
+    const pricing = StripeService.calculatePricing(items, event, order.discountAmountCents || 0, organizer);
+
     // Create metadata for webhook processing
     const metadata: CheckoutSessionMetadata = {
       orderId: order.id,
@@ -155,30 +188,31 @@ export class StripeService {
       organizerId: organizer.id,
       buyerEmail: order.buyerEmail,
       buyerName: order.buyerName || '',
-      tierInfo: JSON.stringify(items.map(item => ({
+      tierInfo: JSON.stringify(items.map((item, i) => ({
         tierId: item.tier.id,
         quantity: item.quantity,
-        unitPriceCents: StripeService.getUnitPriceCents(item.tier)
+        unitPriceCents: StripeService.getUnitPriceCents(item.tier),
+        taxCents: pricing.lines[i].taxCents
       })))
     };
-
-    // Calculate pricing to get tax amounts
-    const pricing = StripeService.calculatePricing(items, event, 0, organizer);
     
-    // Add tax as a separate line item since we're handling taxes manually
+    // Add each tax as its own line item since we're handling taxes manually - none when prices include tax
     const taxLineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
-    if (pricing.taxCents > 0) {
-      taxLineItems.push({
-        price_data: {
-          currency: 'cad',
-          product_data: {
-            name: 'Taxes',
-            description: `GST/PST for ${event.title}`,
+    if (!pricing.taxBreakdown.inclusive) {
+      for (const component of pricing.taxBreakdown.components) {
+        if (component.cents <= 0) continue;
+        taxLineItems.push({
+          price_data: {
+            currency: 'cad',
+            product_data: {
+              name: describeTax(component),
+              description: `${component.label} for ${event.title}`,
+            },
+            unit_amount: component.cents,
           },
-          unit_amount: pricing.taxCents,
-        },
-        quantity: 1,
-      });
+          quantity: 1,
+        });
+      }
     }
 
     try {
@@ -193,6 +227,18 @@ export class StripeService {
         metadata: metadata as any,
       };
 
+      // Line items are at full price, so the order's discount goes on as a one-off coupon
+      if (order.discountAmountCents && order.discountAmountCents > 0) {
+        const coupon = await stripe.coupons.create({
+          amount_off: order.discountAmountCents,
+          currency: 'cad',
+          duration: 'once',
+          max_redemptions: 1,
+          name: order.discountCode || 'Discount'
+        });
+        sessionParams.discounts = [{ coupon: coupon.id }];
+      }
+
       // If organizer has Stripe Connect account, charge directly to them (100% of revenue)
       if (organizer.stripeAccountId) {
         sessionParams.payment_intent_data = {
@@ -294,7 +340,7 @@ export class StripeService {
 
     try {
       // Calculate pricing
-      const pricing = StripeService.calculatePricing(items, event, 0, organizer);
+      const pricing = StripeService.calculatePricing(items, event, order.discountAmountCents || 0, organizer);
       
       // Create metadata for payment processing
       const metadata: CheckoutSessionMetadata = {
@@ -345,6 +391,64 @@ export class StripeService {
     }
   }
 
+  /**
+   * Create a Payment Intent for a fan resale purchase. Like a normal ticket sale it's a
+   * destination charge to the organizer, who then pays the seller back through a refund.
+   */
+  static async createResalePaymentIntent(
+    listing: TicketsResaleListing,
+    event: TicketsEvent,
+    organizer: TicketsOrganizer
+  ): Promise<Stripe.PaymentIntent | null> {
+    if (!stripe) return null;
+
+    const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
+      amount: listing.priceCents,
+      currency: 'cad',
+      payment_method_types: ['card'],
+      metadata: {
+        resaleListingId: listing.id,
+        eventId: event.id,
+        organizerId: organizer.id,
+        buyerEmail: listing.buyerEmail || ''
+      },
+      description: `Resale ticket for ${event.title}`,
+      receipt_email: listing.buyerEmail || undefined
+    };
+
+    if (organizer.stripeAccountId) {
+      paymentIntentParams.on_behalf_of = organizer.stripeAccountId;
+      paymentIntentParams.transfer_data = {
+        destination: organizer.stripeAccountId,
+      };
+    }
+
+    const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams);
+    console.log('[StripeService] Resale Payment Intent created:', paymentIntent.id);
+    return paymentIntent;
+  }
+
+  /**
+   * Refund part of a payment because its ticket was resold. Pulls the money back from the
+   * organizer's connected account, which just received the same amount from the new buyer.
+   */
+  static async refundForResale(
+    paymentIntentId: string,
+    amountCents: number,
+    organizer: TicketsOrganizer,
+    listingId: string
+  ): Promise<Stripe.Refund | null> {
+    if (!stripe) return null;
+
+    return stripe.refunds.create({
+      payment_intent: paymentIntentId,
+      amount: amountCents,
+      reverse_transfer: !!organizer.stripeAccountId,
+      reason: 'requested_by_customer',
+      metadata: { resaleListingId: listingId }
+    });
+  }
+
   /**
    * Verify webhook signature
    */
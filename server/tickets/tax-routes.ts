@@ -0,0 +1,75 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { TaxService } from "./tax-service";
+import { taxSummaryQuerySchema } from "./validation";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+export function addTaxRoutes(app: Express) {
+  // Sales tax collected in a quarter, by province and component
+  app.get('/api/tickets/organizers/tax-summary', requireTicketing, requireOrganizer, async (req: Request, res: Response) => {
+    try {
+      const organizer = (req as any).organizer;
+      const { year, quarter } = taxSummaryQuerySchema.parse(req.query);
+
+      const summary = await TaxService.summarize(organizer.id, year, quarter);
+      res.json({ ok: true, summary });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid quarter' });
+      }
+      console.error('Get tax summary error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to build tax summary' });
+    }
+  });
+
+  app.get('/api/tickets/organizers/tax-summary/csv', requireTicketing, requireOrganizer, async (req: Request, res: Response) => {
+    try {
+      const organizer = (req as any).organizer;
+      const { year, quarter } = taxSummaryQuerySchema.parse(req.query);
+
+      const summary = await TaxService.summarize(organizer.id, year, quarter);
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="sales-tax-${year}-q${quarter}.csv"`);
+      res.send(TaxService.toCsv(summary));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid quarter' });
+      }
+      console.error('Export tax summary CSV error:', error);
+      res.status(500).json({ ok: false, error: 'Failed to export tax summary' });
+    }
+  });
+}
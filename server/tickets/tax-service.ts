@@ -0,0 +1,145 @@
+import { ticketsStorage } from './tickets-storage';
+import { getTaxRule, calculateTax, type TaxBreakdown, type TaxComponent, type TaxRule, type TaxSettings } from '@shared/tax-rules';
+import type { TicketsEvent, TicketsOrder } from '@shared/schema';
+
+export type { TaxBreakdown, TaxRule, TaxSettings };
+
+// One line of a quarterly summary - tax is remitted per jurisdiction, so components are kept apart by province
+export interface TaxSummaryLine {
+  province: string;
+  code: TaxComponent['code'];
+  label: string;
+  ratePercent: number;
+  collectedCents: number;
+  refundedCents: number;
+  netCents: number;
+}
+
+export interface TaxSummary {
+  year: number;
+  quarter: number;
+  periodStart: string;
+  periodEnd: string; // inclusive
+  orderCount: number;
+  lines: TaxSummaryLine[];
+  events: Array<{
+    eventId: string;
+    title: string;
+    province: string;
+    orderCount: number;
+    salesCents: number; // before tax, net of refunds
+    netTaxCents: number;
+  }>;
+  totals: { collectedCents: number; refundedCents: number; netCents: number };
+}
+
+const money = (cents: number) => (cents / 100).toFixed(2);
+const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export class TaxService {
+  static ruleFor(event: TicketsEvent): TaxRule {
+    return getTaxRule(event.province, event.taxSettings as TaxSettings | null);
+  }
+
+  // Tax on an order's taxable tickets and its fees under the event's rule
+  static calculate(event: TicketsEvent, taxableCents: number, feesCents: number) {
+    return calculateTax(TaxService.ruleFor(event), taxableCents, feesCents);
+  }
+
+  /**
+   * The order's tax by component. Orders from before breakdowns were stored charged the old
+   * flat GST + PST, which only applied in BC, so their tax is split the same way.
+   */
+  static breakdownFor(order: TicketsOrder, event: TicketsEvent | null): TaxBreakdown {
+    if (order.taxBreakdown) return order.taxBreakdown as TaxBreakdown;
+
+    const province = (event?.province || 'BC').toUpperCase();
+    const components: TaxBreakdown['components'] = [];
+    if (province === 'BC') {
+      const gstCents = Math.round(order.taxCents * 5 / 12);
+      components.push({ code: 'GST', label: 'GST', ratePercent: 5, cents: gstCents });
+      components.push({ code: 'PST', label: 'PST', ratePercent: 7, cents: order.taxCents - gstCents });
+    } else {
+      components.push({ code: 'GST', label: 'GST', ratePercent: 5, cents: order.taxCents });
+    }
+    return { province, inclusive: false, components };
+  }
+
+  static isInclusive(order: TicketsOrder): boolean {
+    return !!(order.taxBreakdown as TaxBreakdown | null)?.inclusive;
+  }
+
+  // ============ QUARTERLY SUMMARY ============
+
+  /**
+   * Tax collected on an organizer's orders paid in a calendar quarter, by province and
+   * component, for filing. Refunds give back the same share of the tax as of the order.
+   */
+  static async summarize(organizerId: string, year: number, quarter: number): Promise<TaxSummary> {
+    const from = new Date(Date.UTC(year, (quarter - 1) * 3, 1));
+    const to = new Date(Date.UTC(year, quarter * 3, 1));
+
+    const events = await ticketsStorage.getEventsByOrganizer(organizerId);
+    const orders = await ticketsStorage.getPaidOrdersForEvents(events.map(e => e.id), from, to);
+
+    const lines: TaxSummaryLine[] = [];
+    const eventRows: TaxSummary['events'] = [];
+
+    for (const order of orders) {
+      const event = events.find(e => e.id === order.eventId) || null;
+      const breakdown = TaxService.breakdownFor(order, event);
+      const refundedShare = order.totalCents > 0 ? Math.min(1, (order.refundedAmountCents || 0) / order.totalCents) : 0;
+
+      let orderNetTaxCents = 0;
+      for (const component of breakdown.components) {
+        const refundedCents = Math.round(component.cents * refundedShare);
+        let line = lines.find(l => l.province === breakdown.province && l.code === component.code && l.ratePercent === component.ratePercent);
+        if (!line) {
+          line = { province: breakdown.province, code: component.code, label: component.label, ratePercent: component.ratePercent, collectedCents: 0, refundedCents: 0, netCents: 0 };
+          lines.push(line);
+        }
+        line.collectedCents += component.cents;
+        line.refundedCents += refundedCents;
+        line.netCents += component.cents - refundedCents;
+        orderNetTaxCents += component.cents - refundedCents;
+      }
+
+      let eventRow = eventRows.find(r => r.eventId === order.eventId);
+      if (!eventRow) {
+        eventRow = { eventId: order.eventId, title: event?.title || 'Unknown event', province: breakdown.province, orderCount: 0, salesCents: 0, netTaxCents: 0 };
+        eventRows.push(eventRow);
+      }
+      eventRow.orderCount += 1;
+      eventRow.salesCents += order.subtotalCents - Math.round(order.subtotalCents * refundedShare);
+      eventRow.netTaxCents += orderNetTaxCents;
+    }
+
+    lines.sort((a, b) => a.province.localeCompare(b.province) || a.code.localeCompare(b.code));
+    const sum = (key: 'collectedCents' | 'refundedCents' | 'netCents') => lines.reduce((total, l) => total + l[key], 0);
+
+    return {
+      year,
+      quarter,
+      periodStart: from.toISOString().split('T')[0],
+      periodEnd: new Date(to.getTime() - 86400000).toISOString().split('T')[0],
+      orderCount: orders.length,
+      lines,
+      events: eventRows,
+      totals: { collectedCents: sum('collectedCents'), refundedCents: sum('refundedCents'), netCents: sum('netCents') }
+    };
+  }
+
+  static toCsv(summary: TaxSummary): string {
+    const rows: unknown[][] = [
+      [`Sales tax summary Q${summary.quarter} ${summary.year}`, `${summary.periodStart} to ${summary.periodEnd}`],
+      [],
+      ['Province', 'Tax', 'Rate', 'Collected', 'Refunded', 'Net'],
+      ...summary.lines.map(l => [l.province, l.label, `${l.ratePercent}%`, money(l.collectedCents), money(l.refundedCents), money(l.netCents)]),
+      ['Total', '', '', money(summary.totals.collectedCents), money(summary.totals.refundedCents), money(summary.totals.netCents)],
+      [],
+      ['Event', 'Province', 'Orders', 'Sales before tax', 'Net tax'],
+      ...summary.events.map(e => [e.title, e.province, e.orderCount, money(e.salesCents), money(e.netTaxCents)])
+    ];
+    return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+  }
+}
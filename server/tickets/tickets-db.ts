@@ -122,7 +122,7 @@ export class TicketsDB {
       data.startAt, data.endAt || null, 
       data.status || 'draft', data.coverUrl || null,
       data.feeStructure || { type: 'buyer_pays', serviceFeePercent: 5 },
-      data.taxSettings || { collectTax: true, gstPercent: 5, pstPercent: 7 }
+      data.taxSettings || { collectTax: true, taxInclusive: false }
     ];
     const result = await pool.query(query, values);
     return result.rows[0];
@@ -8,6 +8,36 @@ import { addConnectRoutes } from './connect-routes';
 import { addRefundRoutes } from './refund-routes';
 import { addAnalyticsRoutes } from './analytics-routes';
 import { addCommunicationRoutes } from './communication-routes';
+import { addWaitlistRoutes } from './waitlist-routes';
+import { WaitlistService } from './waitlist-service';
+import { addSeatingRoutes } from './seating-routes';
+import { SeatingService } from './seating-service';
+import { addOfflineCheckinRoutes } from './offline-checkin-routes';
+import { addScannerRoutes, requireCheckinAccess } from './scanner-routes';
+import { ScannerService, type CheckinActor } from './scanner-service';
+import { addDiscountRoutes } from './discount-routes';
+import { DiscountService } from './discount-service';
+import { addPromoterRoutes } from './promoter-routes';
+import { PromoterService } from './promoter-service';
+import { addOccurrenceRoutes } from './occurrence-routes';
+import { OccurrenceService } from './occurrence-service';
+import { addQuestionRoutes } from './question-routes';
+import { QuestionService } from './question-service';
+import { addVoucherRoutes } from './voucher-routes';
+import { addTransferRoutes } from './transfer-routes';
+import { addWalletRoutes } from './wallet-routes';
+import { addIntegrationRoutes } from './integration-routes';
+import { addReconciliationRoutes } from './reconciliation-routes';
+import { addDisputeRoutes } from './dispute-routes';
+import { DisputeService } from './dispute-service';
+import { addTaxRoutes } from './tax-routes';
+import { WalletService } from './wallet-service';
+import { OrganizerWebhookService } from './organizer-webhook-service';
+import { TransferService } from './transfer-service';
+import { ResaleService } from './resale-service';
+import { ProductService } from './product-service';
+import { TierPricingService } from './tier-pricing-service';
+import { QrSigningService } from './qr-signing';
 import { uploadTicketEventImage } from '../services/storageService';
 import { nanoid } from 'nanoid';
 import QRCode from 'qrcode';
@@ -26,6 +56,7 @@ import {
   createTierSchema,
   organizerSignupSchema,
   validateDiscountSchema,
+  priceScheduleSchema,
   validateTicketSchema,
   refundSchema
 } from './validation';
@@ -42,6 +73,12 @@ const requireTicketing = (req: Request, res: Response, next: any) => {
   next();
 };
 
+// Tiers as buyers see them: the price in effect now and the next scheduled step
+const withPricePhase = (tier: any) => ({
+  ...tier,
+  pricePhase: TierPricingService.resolve(tier, tier.soldCount ?? 0)
+});
+
 // Middleware to check organizer auth - uses approved business account from session
 const requireOrganizer = async (req: Request & { session?: any }, res: Response, next: any) => {
   // Check if user is logged in with main platform session (userId)
@@ -124,6 +161,51 @@ export function addTicketsRoutes(app: Express) {
   addAnalyticsRoutes(app);
   addCommunicationRoutes(app);
   
+  // Add waitlist routes for sold-out tiers
+  addWaitlistRoutes(app);
+  
+  // Add seat map routes for reserved-seating events
+  addSeatingRoutes(app);
+  
+  // Add offline check-in manifest and scan sync routes
+  addOfflineCheckinRoutes(app);
+  
+  // Add gates and door staff scanner accounts
+  addScannerRoutes(app);
+  
+  // Add discount code management and bulk generation
+  addDiscountRoutes(app);
+  
+  // Add promoter tracking links and their read-only stats view
+  addPromoterRoutes(app);
+  
+  // Add dates for recurring and multi-date events
+  addOccurrenceRoutes(app);
+  
+  // Add custom questions asked at checkout
+  addQuestionRoutes(app);
+  
+  // Add voucher redemption for add-ons
+  addVoucherRoutes(app);
+  
+  // Add buyer self-service transfers and fan resale
+  addTransferRoutes(app);
+  
+  // Add Apple and Google Wallet passes
+  addWalletRoutes(app);
+  
+  // Add organizer webhooks, API keys and the public read API
+  addIntegrationRoutes(app);
+  
+  // Add payout statements and Stripe reconciliation
+  addReconciliationRoutes(app);
+  
+  // Add chargeback disputes and evidence packs
+  addDisputeRoutes(app);
+  
+  // Add quarterly sales tax summaries
+  addTaxRoutes(app);
+  
   // Add my tickets routes
   addMyTicketsRoutes(app);
   
@@ -154,9 +236,13 @@ export function addTicketsRoutes(app: Express) {
   // ============ CHECK-IN ENDPOINTS ============
   
   // Validate QR token
-  app.post('/api/tickets/validate-qr', requireTicketing, async (req: Request, res: Response) => {
+  app.post('/api/tickets/validate-qr', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
     try {
-      const { qrToken, eventId } = req.body;
+      const actor = req.checkinActor!;
+      // Scanner accounts only ever check in for the event they were issued for
+      const eventId = actor.type === 'scanner' ? actor.scanner.eventId : req.body.eventId;
+      // Scanners pass along whatever the QR holds - a signed ticket code or a bare token
+      const qrToken = req.body.qrToken ? QrSigningService.extractQrToken(req.body.qrToken) : req.body.qrToken;
       
       if (!qrToken) {
         return res.status(400).json({ 
@@ -255,10 +341,55 @@ export function addTicketsRoutes(app: Express) {
         });
       }
       
+      if (!await ScannerService.canAccessEvent(actor, tier.eventId)) {
+        return res.json({ 
+          ok: false, 
+          status: 'wrong_event', 
+          message: '❌ This ticket is for an event you can\'t check in',
+          error: 'Ticket is for a different event',
+          meta: {
+            actualEventId: tier.eventId,
+            actualEventTitle: event?.title || 'Unknown Event',
+            ticketSerial: ticket.serial
+          }
+        });
+      }
+      
+      // Series events check in one date at a time - the one the scanner picked, or whichever is on now
+      let occurrence;
+      try {
+        occurrence = await OccurrenceService.resolveForCheckin(tier.eventId, req.body.occurrenceId);
+      } catch (error: any) {
+        if (!error.occurrenceInvalid) throw error;
+        return res.json({ 
+          ok: false, 
+          status: 'error', 
+          message: `❌ ${error.message}`,
+          error: error.message 
+        });
+      }
+      
+      const occurrenceState = occurrence ? await OccurrenceService.checkinState(ticket, tier, occurrence) : null;
+      if (occurrenceState?.state === 'wrong_occurrence') {
+        const ticketDate = occurrenceState.occurrence ? new Date(occurrenceState.occurrence.startAt) : null;
+        return res.json({ 
+          ok: false, 
+          status: 'wrong_occurrence', 
+          message: `❌ This ticket is for ${ticketDate ? ticketDate.toLocaleString() : 'another date'}`,
+          error: 'Ticket is for a different date',
+          meta: {
+            expectedOccurrenceId: occurrence!.id,
+            actualOccurrenceId: ticket.occurrenceId || null,
+            actualOccurrenceStartAt: ticketDate ? ticketDate.toISOString() : null,
+            ticketSerial: ticket.serial
+          }
+        });
+      }
+      
       // Check time-based restrictions
       if (event) {
         const now = new Date();
-        const eventStart = new Date(event.startAt);
+        const eventStart = new Date(occurrence ? occurrence.startAt : event.startAt);
         const hoursBeforeEvent = (eventStart.getTime() - now.getTime()) / (1000 * 60 * 60);
         
         // Default check-in window is 2 hours before event
@@ -284,22 +415,25 @@ export function addTicketsRoutes(app: Express) {
         }
       }
       
-      // Check ticket status
-      if (ticket.status === 'used') {
+      // Check ticket status - series passes are used per date, not once for the whole event
+      const checkedInAt = occurrenceState?.state === 'used' ? occurrenceState.checkedInAt : ticket.usedAt;
+      const checkedInBy = occurrenceState?.state === 'used' ? occurrenceState.checkedInBy : ticket.scannedBy;
+      if (occurrenceState ? occurrenceState.state === 'used' : ticket.status === 'used') {
         return res.json({
           ok: false,
           status: 'used',
-          message: `⚠️ Already checked in${ticket.usedAt ? ' on ' + new Date(ticket.usedAt).toLocaleString() : ''}`,
+          message: `⚠️ Already checked in${checkedInAt ? ' on ' + new Date(checkedInAt).toLocaleString() : ''}`,
           error: 'Ticket has already been checked in',
           meta: {
             ticketId: ticket.id,
             serial: ticket.serial,
             tierName: tier.name,
+            seatLabel: ticket.seatLabel || null,
             eventTitle: event?.title || '',
             buyerName: order?.buyerName || '',
             buyerEmail: order?.buyerEmail || '',
-            checkedInAt: ticket.usedAt,
-            checkedInBy: ticket.scannedBy || 'unknown'
+            checkedInAt,
+            checkedInBy: checkedInBy || 'unknown'
           }
         });
       }
@@ -316,6 +450,19 @@ export function addTicketsRoutes(app: Express) {
         });
       }
       
+      // Blocked by the organizer, or automatically while the order's payment is disputed
+      if (ticket.isBlocked) {
+        return res.json({ 
+          ok: false, 
+          status: 'blocked', 
+          message: '⛔ This ticket is blocked - send the guest to the box office',
+          error: 'Ticket is blocked',
+          meta: {
+            ticketSerial: ticket.serial
+          }
+        });
+      }
+      
       if (ticket.status !== 'valid') {
         return res.json({ 
           ok: false, 
@@ -356,8 +503,11 @@ export function addTicketsRoutes(app: Express) {
           ticketId: ticket.id,
           serial: ticket.serial,
           tierName: tier.name,
+          seatLabel: ticket.seatLabel || null,
           eventTitle: event?.title || '',
-          eventStartAt: event?.startAt || null,
+          eventStartAt: occurrence?.startAt || event?.startAt || null,
+          occurrenceId: occurrence?.id || null,
+          seriesPass: !!tier.seriesPass,
           buyerName: order?.buyerName || '',
           buyerEmail: order?.buyerEmail || '',
           welcomeMessage: welcomeMessage
@@ -375,26 +525,43 @@ export function addTicketsRoutes(app: Express) {
   });
   
   // Check in a ticket
-  app.post('/api/tickets/check-in', requireTicketing, async (req: Request, res: Response) => {
+  app.post('/api/tickets/check-in', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
     try {
-      const { qrToken, eventId, checkInBy } = req.body;
+      const actor = req.checkinActor!;
+      const eventId = actor.type === 'scanner' ? actor.scanner.eventId : req.body.eventId;
+      const qrToken = req.body.qrToken ? QrSigningService.extractQrToken(req.body.qrToken) : req.body.qrToken;
       
       if (!qrToken) {
         return res.status(400).json({ ok: false, error: 'QR token is required' });
       }
       
-      const ticket = await ticketsStorage.getTicketByQrToken(qrToken);
+      const ticket = await ticketsStorage.getTicketByQR(qrToken);
       if (!ticket) {
         return res.status(404).json({ ok: false, error: 'Ticket not found' });
       }
       
       // Verify ticket is for the correct event
       const tier = await ticketsStorage.getTierById(ticket.tierId);
-      if (!tier || (eventId && tier.eventId !== eventId)) {
+      if (!tier || (eventId && tier.eventId !== eventId) || !await ScannerService.canAccessEvent(actor, tier.eventId)) {
         return res.status(400).json({ ok: false, error: 'Ticket is for a different event' });
       }
       
-      if (ticket.status === 'used') {
+      let occurrence;
+      try {
+        occurrence = await OccurrenceService.resolveForCheckin(tier.eventId, req.body.occurrenceId);
+      } catch (error: any) {
+        if (error.occurrenceInvalid) {
+          return res.status(400).json({ ok: false, error: error.message });
+        }
+        throw error;
+      }
+      
+      const occurrenceState = occurrence ? await OccurrenceService.checkinState(ticket, tier, occurrence) : null;
+      if (occurrenceState?.state === 'wrong_occurrence') {
+        return res.status(400).json({ ok: false, error: 'Ticket is for a different date' });
+      }
+      
+      if (occurrenceState ? occurrenceState.state === 'used' : ticket.status === 'used') {
         return res.status(400).json({ ok: false, error: 'Ticket has already been checked in' });
       }
       
@@ -402,23 +569,51 @@ export function addTicketsRoutes(app: Express) {
         return res.status(400).json({ ok: false, error: 'Ticket is not valid for check-in' });
       }
       
-      // Mark ticket as used
-      await ticketsStorage.checkInTicket(ticket.id, checkInBy || 'staff');
+      if (ticket.isBlocked) {
+        return res.status(400).json({ ok: false, error: 'Ticket is blocked' });
+      }
+      
+      // Mark ticket as used, recording the gate and scanner account that let them in
+      const attribution = ScannerService.attributionFor(actor, req.body.checkInBy);
+      if (occurrence && tier.seriesPass) {
+        // Passes stay valid for the rest of the series; the check-in is recorded against this date
+        const checkin = await ticketsStorage.createOccurrenceCheckin({
+          ticketId: ticket.id,
+          occurrenceId: occurrence.id,
+          checkedInBy: attribution.checkInBy,
+          gateId: attribution.gateId,
+          scannerId: attribution.scannerId
+        });
+        if (!checkin) {
+          return res.status(400).json({ ok: false, error: 'Ticket has already been checked in' });
+        }
+      } else {
+        await ticketsStorage.checkInTicket(ticket.id, attribution.checkInBy, {
+          gateId: attribution.gateId,
+          scannerId: attribution.scannerId
+        });
+      }
       
       // Log audit (best-effort, don't block check-in if audit fails)
       try {
         await ticketsStorage.createAuditLog({
-          actorType: 'staff',
-          actorId: checkInBy || 'unknown',
+          actorType: actor.type === 'scanner' ? 'scanner' : 'staff',
+          actorId: actor.type === 'scanner' ? actor.scanner.id : attribution.checkInBy,
           action: 'ticket_checked_in',
           targetType: 'ticket',
           targetId: ticket.id,
-          metaJson: { qrToken, eventId }
+          metaJson: { qrToken, eventId, occurrenceId: occurrence?.id || null, checkInBy: attribution.checkInBy, gateId: attribution.gateId }
         });
       } catch (auditError) {
         console.error('Failed to create audit log (non-fatal):', auditError);
       }
       
+      await OrganizerWebhookService.ticketEvent('ticket.checked_in', ticket.id, {
+        occurrenceId: occurrence?.id || null,
+        gateId: attribution.gateId,
+        checkedInBy: attribution.checkInBy
+      });
+      
       res.json({ ok: true, message: 'Ticket checked in successfully' });
     } catch (error) {
       console.error('Error checking in ticket:', error);
@@ -427,38 +622,77 @@ export function addTicketsRoutes(app: Express) {
   });
   
   // Get attendees list for an event
-  app.get('/api/tickets/events/:eventId/attendees', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+  app.get('/api/tickets/events/:eventId/attendees', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
     try {
       const { eventId } = req.params;
       const { status, search } = req.query;
       
-      // Verify organizer owns this event
-      const event = await ticketsStorage.getEventById(eventId);
-      if (!event || event.organizerId !== req.organizer.id) {
+      // Organizers see their own events; door staff only the event they scan for
+      if (!await ScannerService.canAccessEvent(req.checkinActor!, eventId)) {
         return res.status(403).json({ ok: false, error: 'Access denied' });
       }
       
-      const attendees = await ticketsStorage.getEventAttendees(eventId, {
-        status: status as string,
+      const occurrence = await OccurrenceService.resolveForCheckin(eventId, req.query.occurrenceId as string);
+      let attendees = await ticketsStorage.getEventAttendees(eventId, {
+        status: occurrence ? undefined : status as string,
         search: search as string
       });
       
-      res.json({ ok: true, attendees: toCamelCase(attendees) });
-    } catch (error) {
+      // For a series, list that date's ticket holders with pass check-ins for that date
+      if (occurrence) {
+        attendees = await OccurrenceService.attendeesFor(attendees, occurrence);
+        if (status) attendees = attendees.filter(a => a.status === status);
+      }
+      
+      // Checkout answers are for the organizer, not door staff
+      if (req.checkinActor!.type === 'organizer') {
+        const { byTicket } = await QuestionService.attendeeAnswers(eventId, attendees);
+        attendees = attendees.map(a => ({ ...a, answers: byTicket.get(a.ticketId) || [] }));
+      }
+      
+      res.json({ ok: true, occurrenceId: occurrence?.id || null, attendees: toCamelCase(attendees) });
+    } catch (error: any) {
+      if (error.occurrenceInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
       console.error('Error fetching attendees:', error);
       res.status(500).json({ ok: false, error: 'Failed to fetch attendees' });
     }
   });
   
   // Get check-in statistics
-  app.get('/api/tickets/events/:eventId/checkin-stats', requireTicketing, async (req: Request, res: Response) => {
+  app.get('/api/tickets/events/:eventId/checkin-stats', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
     try {
       const { eventId } = req.params;
       
-      const stats = await ticketsStorage.getCheckInStats(eventId);
+      if (!await ScannerService.canAccessEvent(req.checkinActor!, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
       
-      res.json({ ok: true, stats: toCamelCase(stats) });
-    } catch (error) {
+      const occurrence = await OccurrenceService.resolveForCheckin(eventId, req.query.occurrenceId as string);
+      const [stats, gateStats, occurrences] = await Promise.all([
+        occurrence ? OccurrenceService.getCheckInStats(eventId, occurrence) : ticketsStorage.getCheckInStats(eventId),
+        ScannerService.getGateStats(eventId),
+        occurrence ? ticketsStorage.getOccurrencesByEvent(eventId) : Promise.resolve([])
+      ]);
+      
+      res.json({
+        ok: true,
+        // Series events: the date these numbers are for, and the dates door staff can switch between
+        occurrenceId: occurrence?.id || null,
+        occurrences: occurrences
+          .filter(o => o.status === 'scheduled')
+          .map(o => ({ id: o.id, startAt: o.startAt, endAt: o.endAt })),
+        stats: {
+          ...toCamelCase(stats),
+          throughputWindowMinutes: gateStats.windowMinutes,
+          gates: gateStats.gates
+        }
+      });
+    } catch (error: any) {
+      if (error.occurrenceInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
       console.error('Error fetching check-in stats:', error);
       res.status(500).json({ ok: false, error: 'Failed to fetch check-in statistics' });
     }
@@ -476,12 +710,27 @@ export function addTicketsRoutes(app: Express) {
       }
       
       const attendees = await ticketsStorage.getEventAttendees(eventId, {});
+      const { questions, byTicket } = await QuestionService.attendeeAnswers(eventId, attendees);
       
-      // Generate CSV
-      const csvHeader = 'Name,Email,Ticket Tier,Check-in Status,Check-in Time,Ticket ID\n';
+      // Buyers' answers are free text, so quotes have to be escaped
+      const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+      
+      // Generate CSV - one column per checkout question after the standard ones
+      const csvHeader = ['Name', 'Email', 'Ticket Tier', 'Check-in Status', 'Check-in Time', 'Ticket ID', ...questions.map(q => q.label)]
+        .map((label, index) => index < 6 ? label : csvCell(label))
+        .join(',') + '\n';
       const csvRows = attendees.map(a => {
         const checkedInAt = a.checkedInAt ? new Date(a.checkedInAt).toISOString() : '';
-        return `"${a.buyerName || ''}","${a.buyerEmail}","${a.tierName}","${a.status}","${checkedInAt}","${a.ticketId}"`;
+        const answers = byTicket.get(a.ticketId) || [];
+        return [
+          a.buyerName || '',
+          a.buyerEmail,
+          a.tierName,
+          a.status,
+          checkedInAt,
+          a.ticketId,
+          ...questions.map(q => answers.filter(answer => answer.questionId === q.id).map(answer => answer.value).join('; '))
+        ].map(csvCell).join(',');
       }).join('\n');
       
       const csv = csvHeader + csvRows;
@@ -505,14 +754,26 @@ export function addTicketsRoutes(app: Express) {
       const events = await ticketsStorage.getPublicEvents();
       console.log('[Tickets] Found events:', events.length, events);
       
-      // Add tier information
+      // Add tier information, and for series the next date tickets can be bought for
       const eventsWithTiers = await Promise.all(
         events.map(async (event) => {
-          const tiers = await ticketsStorage.getTiersByEvent(event.id);
+          const [tiers, occurrences] = await Promise.all([
+            ticketsStorage.getTiersByEvent(event.id),
+            ticketsStorage.getOccurrencesByEvent(event.id)
+          ]);
           console.log('[Tickets] Tiers for event:', event.id, tiers.length, 'tiers found');
-          return { ...event, tiers };
+          const upcoming = occurrences.filter(o => o.status === 'scheduled' && new Date(o.startAt) > new Date());
+          return {
+            ...event,
+            tiers: tiers.map(withPricePhase),
+            nextOccurrenceAt: upcoming[0]?.startAt ?? null,
+            upcomingOccurrenceCount: upcoming.length
+          };
         })
       );
+      eventsWithTiers.sort((a, b) =>
+        new Date(a.nextOccurrenceAt ?? a.startAt).getTime() - new Date(b.nextOccurrenceAt ?? b.startAt).getTime()
+      );
       
       // Convert to camelCase for frontend
       const camelCaseEvents = toCamelCase(eventsWithTiers);
@@ -554,7 +815,17 @@ export function addTicketsRoutes(app: Express) {
       
       console.log('[Event Detail] Event found:', event.id, 'organizerId:', event.organizerId);
       
-      const tiers = await ticketsStorage.getTiersByEvent(event.id);
+      const [tiers, occurrences, questions] = await Promise.all([
+        ticketsStorage.getTiersByEvent(event.id),
+        ticketsStorage.getOccurrencesByEvent(event.id),
+        ticketsStorage.getQuestionsByEvent(event.id)
+      ]);
+      
+      // Dates still on sale, with how many of each dated tier are gone for that date
+      const upcoming = occurrences.filter(o => o.status === 'scheduled' && new Date(o.startAt) > new Date());
+      const occurrenceStats = upcoming.length > 0
+        ? await OccurrenceService.getOccurrenceStats(event.id, upcoming, tiers)
+        : [];
       
       // Safely handle organizer lookup with null check
       let organizer = null;
@@ -567,7 +838,20 @@ export function addTicketsRoutes(app: Express) {
       }
       
       // Convert to camelCase for frontend
-      const camelCaseEvent = toCamelCase({ ...event, tiers });
+      const camelCaseEvent = toCamelCase({
+        ...event,
+        tiers: tiers.map(withPricePhase),
+        isSeries: OccurrenceService.isSeries(occurrences),
+        occurrences: occurrenceStats.map(o => ({
+          id: o.occurrenceId,
+          startAt: o.startAt,
+          endAt: o.endAt,
+          soldByTier: o.soldByTier
+        })),
+        questions: questions
+          .filter(q => q.status === 'active')
+          .map(({ id, label, helpText, type, options, required, appliesTo, tierIds }) => ({ id, label, helpText, type, options, required, appliesTo, tierIds }))
+      });
       
       res.json({ 
         ok: true, 
@@ -587,15 +871,38 @@ export function addTicketsRoutes(app: Express) {
   app.post('/api/tickets/discounts/validate', requireTicketing, async (req: Request, res: Response) => {
     try {
       const validated = validateDiscountSchema.parse(req.body);
-      const { eventId, code } = validated;
+      const { eventId, code, items } = validated;
       
-      const discount = await ticketsStorage.getDiscountByCode(eventId, code);
-      if (!discount) {
-        return res.status(404).json({ ok: false, error: 'Invalid discount code' });
+      const tierData = [];
+      for (const item of items || []) {
+        const tier = await ticketsStorage.getTierById(item.tierId).then(t => t && TierPricingService.withSales(t));
+        if (!tier || tier.eventId !== eventId) {
+          return res.status(400).json({ ok: false, error: 'Ticket tier not found' });
+        }
+        tierData.push({ tier, quantity: item.quantity });
       }
       
-      res.json({ ok: true, discount });
-    } catch (error) {
+      // Without a cart there's nothing to check tier and quantity rules against yet
+      const { discount, discountAmountCents } = await DiscountService.apply(eventId, code, items ? tierData : undefined);
+      
+      res.json({
+        ok: true,
+        discount: {
+          code: discount.code,
+          type: discount.type,
+          value: Number(discount.value),
+          tierIds: discount.tierIds,
+          minQuantity: discount.minQuantity
+        },
+        discountAmountCents
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid discount code' });
+      }
+      if (error.discountInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
       console.error('Error validating discount:', error);
       res.status(500).json({ ok: false, error: 'Failed to validate discount' });
     }
@@ -615,6 +922,10 @@ export function addTicketsRoutes(app: Express) {
         buyerName, 
         buyerPhone,
         discountCode,
+        waitlistToken,
+        ref,
+        occurrenceId,
+        answers,
         returnUrl 
       } = validated;
       
@@ -648,10 +959,26 @@ export function addTicketsRoutes(app: Express) {
         };
       }
       
+      // Buyers claiming a waitlist offer may use the seats held for them
+      let waitlistOffer = null;
+      if (waitlistToken) {
+        waitlistOffer = await WaitlistService.getActiveOffer(waitlistToken);
+        if (!waitlistOffer || waitlistOffer.eventId !== eventId) {
+          return res.status(410).json({ ok: false, error: 'This waitlist offer has expired or was already claimed' });
+        }
+      }
+      
+      // Reserved-seating tiers need a free seat picked for every ticket
+      await SeatingService.validateSelection(eventId, items);
+      
+      // Series events sell each date separately - passes aside
+      const occurrence = await OccurrenceService.resolveForCheckout(eventId, occurrenceId, items.map((item: any) => item.tierId));
+      
       // Validate and fetch tiers
       const tierData = await Promise.all(
         items.map(async (item: any) => {
-          const tier = await ticketsStorage.getTierById(item.tierId);
+          // Sold-count price steps need the tier's sales so far
+          const tier = await ticketsStorage.getTierById(item.tierId).then(t => t && TierPricingService.withSales(t));
           if (!tier) throw new Error(`Tier ${item.tierId} not found`);
           
           console.log(`[Checkout] Tier ${tier.id} details:`, {
@@ -663,30 +990,40 @@ export function addTicketsRoutes(app: Express) {
           });
           
           // Check availability
-          const available = await ticketsStorage.checkTierAvailability(tier.id, item.quantity);
-          if (!available) throw new Error(`Not enough tickets available for ${tier.name}`);
+          const holdReservationId = waitlistOffer?.tierId === tier.id ? waitlistOffer.reservationId || undefined : undefined;
+          const available = await ticketsStorage.checkTierAvailability(tier.id, item.quantity, holdReservationId, occurrence?.id);
+          if (!available) {
+            const soldOutError: any = new Error(`Not enough tickets available for ${tier.name}`);
+            soldOutError.soldOutTierId = tier.id;
+            throw soldOutError;
+          }
           
           return { tier, quantity: item.quantity };
         })
       );
       
-      // Check discount if provided
+      // Add-ons only go out with admission
+      ProductService.validateCart(tierData, eventId);
+      
+      // Check discount if provided - a use is held once the order exists and kept when it's paid
       let discountAmountCents = 0;
+      let appliedDiscountCode: string | undefined;
       if (discountCode) {
-        const discount = await ticketsStorage.getDiscountByCode(eventId, discountCode);
-        if (discount) {
-          const subtotal = tierData.reduce((sum, item) => 
-            sum + (StripeService.getUnitPriceCents(item.tier) * item.quantity), 0
-          );
-          
-          if (discount.type === 'percent') {
-            discountAmountCents = Math.round(subtotal * (Number(discount.value) / 100));
-          } else {
-            discountAmountCents = Number(discount.value);
-          }
-        }
+        const applied = await DiscountService.apply(eventId, discountCode, tierData);
+        discountAmountCents = applied.discountAmountCents;
+        appliedDiscountCode = applied.discount.code;
       }
       
+      // Credit the promoter link the buyer came through, if it's still live
+      const promoter = await PromoterService.resolveRef(eventId, ref);
+      
+      // Required questions must be answered before an order exists
+      const answerRows = await QuestionService.validateAnswers(
+        eventId,
+        tierData.map(({ tier, quantity }) => ({ tierId: tier.id, quantity: ProductService.ticketsFor(tier, quantity) })),
+        answers
+      );
+      
       // Calculate pricing
       const pricing = StripeService.calculatePricing(tierData, event, discountAmountCents);
       
@@ -700,12 +1037,53 @@ export function addTicketsRoutes(app: Express) {
         subtotalCents: pricing.subtotalCents,
         feesCents: pricing.feesCents,
         taxCents: pricing.taxCents,
+        taxBreakdown: pricing.taxBreakdown,
         totalCents: pricing.totalCents,
         // currency defaults to 'CAD' in database
-        discountCode,
-        discountAmountCents
+        discountCode: appliedDiscountCode,
+        discountAmountCents,
+        promoterId: promoter?.id ?? null,
+        occurrenceId: occurrence?.id ?? null
       });
       
+      // Where the purchase came from - evidence if the payment is ever disputed (best-effort)
+      try {
+        await ticketsStorage.createAudit({
+          actorType: 'user',
+          actorId: buyerEmail,
+          action: 'order_created',
+          targetType: 'order',
+          targetId: order.id,
+          metaJson: { eventId, totalCents: pricing.totalCents },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent') || null
+        });
+      } catch (auditError) {
+        console.error('Failed to create audit log (non-fatal):', auditError);
+      }
+      
+      await QuestionService.saveAnswers(order.id, answerRows);
+      
+      // Link the waitlist offer so its hold is released once the order is paid
+      if (waitlistOffer) {
+        await ticketsStorage.updateWaitlistEntry(waitlistOffer.id, { orderId: order.id });
+      }
+      
+      // Hold the picked seats while the buyer pays
+      try {
+        await SeatingService.holdSeatsForOrder(order.id, items);
+      } catch (seatError) {
+        await ticketsStorage.updateOrder(order.id, { status: 'canceled' });
+        throw seatError;
+      }
+      
+      // And a use of the discount code, so two buyers can't pay for its last one
+      if (!await DiscountService.holdForOrder(order)) {
+        await ticketsStorage.updateOrder(order.id, { status: 'canceled' });
+        await SeatingService.releaseOrderHolds(order.id, tierData.map(({ tier }) => tier.id));
+        return res.status(409).json({ ok: false, error: 'This discount code has already been used the maximum number of times', discountInvalid: true });
+      }
+      
       // Create Stripe checkout session
       console.log('Creating checkout session for order:', order.id);
       console.log('Stripe available:', !!stripe);
@@ -750,6 +1128,24 @@ export function addTicketsRoutes(app: Express) {
       
     } catch (error: any) {
       console.error('Checkout error:', error);
+      if (error.soldOutTierId) {
+        return res.status(409).json({ ok: false, error: error.message, soldOutTierId: error.soldOutTierId, waitlistAvailable: true });
+      }
+      if (error.seatConflict || error.invalidSeats) {
+        return res.status(error.seatConflict ? 409 : 400).json({ ok: false, error: error.message, seatConflict: !!error.seatConflict });
+      }
+      if (error.discountInvalid) {
+        return res.status(400).json({ ok: false, error: error.message, discountInvalid: true });
+      }
+      if (error.occurrenceInvalid) {
+        return res.status(400).json({ ok: false, error: error.message, occurrenceInvalid: true });
+      }
+      if (error.answersInvalid) {
+        return res.status(400).json({ ok: false, error: error.message, answersInvalid: true });
+      }
+      if (error.productInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
       res.status(500).json({ ok: false, error: error.message || 'Checkout failed' });
     }
   });
@@ -765,7 +1161,11 @@ export function addTicketsRoutes(app: Express) {
         buyerEmail, 
         buyerName, 
         buyerPhone,
-        discountCode
+        discountCode,
+        waitlistToken,
+        ref,
+        occurrenceId,
+        answers
       } = validated;
       
       // Validate event
@@ -797,10 +1197,26 @@ export function addTicketsRoutes(app: Express) {
         };
       }
       
+      // Buyers claiming a waitlist offer may use the seats held for them
+      let waitlistOffer = null;
+      if (waitlistToken) {
+        waitlistOffer = await WaitlistService.getActiveOffer(waitlistToken);
+        if (!waitlistOffer || waitlistOffer.eventId !== eventId) {
+          return res.status(410).json({ ok: false, error: 'This waitlist offer has expired or was already claimed' });
+        }
+      }
+      
+      // Reserved-seating tiers need a free seat picked for every ticket
+      await SeatingService.validateSelection(eventId, items);
+      
+      // Series events sell each date separately - passes aside
+      const occurrence = await OccurrenceService.resolveForCheckout(eventId, occurrenceId, items.map((item: any) => item.tierId));
+      
       // Validate and fetch tiers
       const tierData = await Promise.all(
         items.map(async (item: any) => {
-          const tier = await ticketsStorage.getTierById(item.tierId);
+          // Sold-count price steps need the tier's sales so far
+          const tier = await ticketsStorage.getTierById(item.tierId).then(t => t && TierPricingService.withSales(t));
           if (!tier) throw new Error(`Tier ${item.tierId} not found`);
           
           console.log(`[Checkout] Tier ${tier.id} details:`, {
@@ -812,30 +1228,40 @@ export function addTicketsRoutes(app: Express) {
           });
           
           // Check availability
-          const available = await ticketsStorage.checkTierAvailability(tier.id, item.quantity);
-          if (!available) throw new Error(`Not enough tickets available for ${tier.name}`);
+          const holdReservationId = waitlistOffer?.tierId === tier.id ? waitlistOffer.reservationId || undefined : undefined;
+          const available = await ticketsStorage.checkTierAvailability(tier.id, item.quantity, holdReservationId, occurrence?.id);
+          if (!available) {
+            const soldOutError: any = new Error(`Not enough tickets available for ${tier.name}`);
+            soldOutError.soldOutTierId = tier.id;
+            throw soldOutError;
+          }
           
           return { tier, quantity: item.quantity };
         })
       );
       
-      // Check discount if provided
+      // Add-ons only go out with admission
+      ProductService.validateCart(tierData, eventId);
+      
+      // Check discount if provided - a use is held once the order exists and kept when it's paid
       let discountAmountCents = 0;
+      let appliedDiscountCode: string | undefined;
       if (discountCode) {
-        const discount = await ticketsStorage.getDiscountByCode(eventId, discountCode);
-        if (discount) {
-          const subtotal = tierData.reduce((sum, item) => 
-            sum + (StripeService.getUnitPriceCents(item.tier) * item.quantity), 0
-          );
-          
-          if (discount.type === 'percent') {
-            discountAmountCents = Math.round(subtotal * (Number(discount.value) / 100));
-          } else {
-            discountAmountCents = Number(discount.value);
-          }
-        }
+        const applied = await DiscountService.apply(eventId, discountCode, tierData);
+        discountAmountCents = applied.discountAmountCents;
+        appliedDiscountCode = applied.discount.code;
       }
       
+      // Credit the promoter link the buyer came through, if it's still live
+      const promoter = await PromoterService.resolveRef(eventId, ref);
+      
+      // Required questions must be answered before an order exists
+      const answerRows = await QuestionService.validateAnswers(
+        eventId,
+        tierData.map(({ tier, quantity }) => ({ tierId: tier.id, quantity: ProductService.ticketsFor(tier, quantity) })),
+        answers
+      );
+      
       // Calculate pricing
       const pricing = StripeService.calculatePricing(tierData, event, discountAmountCents);
       
@@ -849,21 +1275,63 @@ export function addTicketsRoutes(app: Express) {
         subtotalCents: pricing.subtotalCents,
         feesCents: pricing.feesCents,
         taxCents: pricing.taxCents,
+        taxBreakdown: pricing.taxBreakdown,
         totalCents: pricing.totalCents,
-        discountCode,
-        discountAmountCents
+        discountCode: appliedDiscountCode,
+        discountAmountCents,
+        promoterId: promoter?.id ?? null,
+        occurrenceId: occurrence?.id ?? null
       });
       
+      // Where the purchase came from - evidence if the payment is ever disputed (best-effort)
+      try {
+        await ticketsStorage.createAudit({
+          actorType: 'user',
+          actorId: buyerEmail,
+          action: 'order_created',
+          targetType: 'order',
+          targetId: order.id,
+          metaJson: { eventId, totalCents: pricing.totalCents },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent') || null
+        });
+      } catch (auditError) {
+        console.error('Failed to create audit log (non-fatal):', auditError);
+      }
+      
+      await QuestionService.saveAnswers(order.id, answerRows);
+      
+      // Link the waitlist offer so its hold is released once the order is paid
+      if (waitlistOffer) {
+        await ticketsStorage.updateWaitlistEntry(waitlistOffer.id, { orderId: order.id });
+      }
+      
+      // Hold the picked seats while the buyer pays
+      try {
+        await SeatingService.holdSeatsForOrder(order.id, items);
+      } catch (seatError) {
+        await ticketsStorage.updateOrder(order.id, { status: 'canceled' });
+        throw seatError;
+      }
+      
+      // And a use of the discount code, so two buyers can't pay for its last one
+      if (!await DiscountService.holdForOrder(order)) {
+        await ticketsStorage.updateOrder(order.id, { status: 'canceled' });
+        await SeatingService.releaseOrderHolds(order.id, tierData.map(({ tier }) => tier.id));
+        return res.status(409).json({ ok: false, error: 'This discount code has already been used the maximum number of times', discountInvalid: true });
+      }
+      
       // Create order items for each tier (critical for webhook ticket creation)
       console.log('[PaymentIntent] Creating order items for order:', order.id);
       const orderItems: any[] = [];
-      for (const item of tierData) {
+      for (let index = 0; index < tierData.length; index++) {
+        const item = tierData[index];
         const orderItem = await ticketsStorage.createOrderItem({
           orderId: order.id,
           tierId: item.tier.id,
           quantity: item.quantity,
           unitPriceCents: StripeService.getUnitPriceCents(item.tier),
-          taxCents: 0, // Tax is calculated at order level
+          taxCents: pricing.lines[index].taxCents, // This line's share of the order's tax
           feesCents: 0  // Fees are calculated at order level
         });
         orderItems.push({ orderItem, tierData: item });
@@ -874,6 +1342,13 @@ export function addTicketsRoutes(app: Express) {
         console.log('[PaymentIntent] FREE ticket order detected - bypassing Stripe');
         console.log('[PaymentIntent] Current order status:', order.status);
         
+        // Keep the use checkout held - nothing has been charged, so this can still be refused
+        if (!await DiscountService.redeemForOrder(order)) {
+          await ticketsStorage.updateOrder(order.id, { status: 'canceled' });
+          await SeatingService.releaseOrderHolds(order.id, orderItems.map(({ tierData: item }) => item.tier.id));
+          return res.status(409).json({ ok: false, error: 'This discount code has already been used the maximum number of times', discountInvalid: true });
+        }
+        
         // Mark order as paid immediately (status must be 'paid', not 'confirmed' per DB constraint)
         const updatedOrder = await ticketsStorage.updateOrder(order.id, {
           status: 'paid'
@@ -882,22 +1357,40 @@ export function addTicketsRoutes(app: Express) {
         
         // Generate tickets immediately for FREE orders
         console.log('[PaymentIntent] Generating tickets for FREE order:', order.id);
+        const issuedTickets: Array<{ id: string; tierId: string }> = [];
         for (const { orderItem, tierData: item } of orderItems) {
-          for (let i = 0; i < item.quantity; i++) {
+          const seats = await SeatingService.getHeldSeats(order.id, item.tier.id);
+          await ProductService.issueVouchers(order.id, orderItem, item.tier);
+          
+          // Bundles issue several tickets per unit; add-ons issue none
+          for (let i = 0; i < ProductService.ticketsFor(item.tier, item.quantity); i++) {
             const serial = `TKT-${nanoid(10).toUpperCase()}`;
             const qrToken = nanoid(20);
+            const seat = seats[i];
             
-            await ticketsStorage.createTicket({
+            const ticket = await ticketsStorage.createTicket({
               orderItemId: orderItem.id,
               tierId: item.tier.id,
+              occurrenceId: item.tier.seriesPass ? null : order.occurrenceId,
               serial,
               qrToken,
-              status: 'valid'
+              status: 'valid',
+              seatId: seat?.id,
+              seatLabel: seat ? SeatingService.formatSeatLabel(seat) : undefined
             });
+            
+            if (seat) {
+              await ticketsStorage.markSeatSold(seat.id, ticket.id);
+            }
+            issuedTickets.push({ id: ticket.id, tierId: item.tier.id });
           }
         }
+        await SeatingService.completeOrderHolds(order.id, orderItems.map(({ tierData: item }) => item.tier.id));
+        await QuestionService.linkTicketAnswers(order.id, issuedTickets);
         
         console.log('[PaymentIntent] FREE tickets generated successfully');
+        await WaitlistService.markClaimedForOrder(order.id);
+        await OrganizerWebhookService.orderPaid(order.id);
         
         // Send confirmation email for FREE tickets
         try {
@@ -960,6 +1453,24 @@ export function addTicketsRoutes(app: Express) {
       
     } catch (error: any) {
       console.error('[PaymentIntent] Error:', error);
+      if (error.soldOutTierId) {
+        return res.status(409).json({ ok: false, error: error.message, soldOutTierId: error.soldOutTierId, waitlistAvailable: true });
+      }
+      if (error.seatConflict || error.invalidSeats) {
+        return res.status(error.seatConflict ? 409 : 400).json({ ok: false, error: error.message, seatConflict: !!error.seatConflict });
+      }
+      if (error.discountInvalid) {
+        return res.status(400).json({ ok: false, error: error.message, discountInvalid: true });
+      }
+      if (error.occurrenceInvalid) {
+        return res.status(400).json({ ok: false, error: error.message, occurrenceInvalid: true });
+      }
+      if (error.answersInvalid) {
+        return res.status(400).json({ ok: false, error: error.message, answersInvalid: true });
+      }
+      if (error.productInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
       res.status(500).json({ ok: false, error: error.message || 'Payment Intent creation failed' });
     }
   });
@@ -995,8 +1506,8 @@ export function addTicketsRoutes(app: Express) {
       
       console.log('[Orders] Found order:', order.id, 'status:', order.status);
       
-      // Only return completed orders
-      if (order.status !== 'paid') {
+      // Only return completed orders - refunded ones stay visible so buyers can see what happened
+      if (order.status !== 'paid' && order.status !== 'partially_refunded' && order.status !== 'refunded') {
         console.log('[Orders] Order not yet paid, status:', order.status);
         return res.status(404).json({ ok: false, error: 'Order not completed' });
       }
@@ -1018,11 +1529,26 @@ export function addTicketsRoutes(app: Express) {
       const orderItems = await ticketsStorage.getOrderItems(order.id);
       console.log('[Orders] Found', orderItems.length, 'order items for order:', order.id);
       const tickets = [];
+      const addons = [];
+      const vouchers = await ticketsStorage.getVouchersByOrder(order.id);
       
       for (const item of orderItems) {
         console.log('[Orders] Processing item:', item.id, 'tierId:', item.tierId);
         const tier = await ticketsStorage.getTierById(item.tierId);
         console.log('[Orders] Found tier:', tier?.id, tier?.name);
+        
+        // Add-ons don't have tickets - list them with any voucher codes instead
+        if (tier && ProductService.isAddon(tier)) {
+          addons.push({
+            tierId: tier.id,
+            name: tier.name,
+            quantity: item.quantity,
+            vouchers: vouchers
+              .filter(v => v.orderItemId === item.id)
+              .map(v => ({ code: v.code, status: v.status, redeemedAt: v.redeemedAt }))
+          });
+          continue;
+        }
         const itemTickets = await ticketsStorage.getTicketsByOrderItem(item.id);
         console.log('[Orders] Found', itemTickets.length, 'tickets for item:', item.id);
         
@@ -1033,7 +1559,9 @@ export function addTicketsRoutes(app: Express) {
             tierName: tier?.name || 'Unknown Tier',
             serial: ticket.serial,
             qrToken: ticket.qrToken,
-            status: ticket.status
+            qrCode: QrSigningService.signTicket(ticket, event.id),
+            status: ticket.status,
+            seatLabel: ticket.seatLabel
           });
         }
       }
@@ -1044,6 +1572,7 @@ export function addTicketsRoutes(app: Express) {
       const camelCaseOrder = toCamelCase({
         ...order,
         tickets,
+        addons,
         event: {
           id: event.id,
           title: event.title,
@@ -1109,6 +1638,11 @@ export function addTicketsRoutes(app: Express) {
               await ticketsStorage.markWebhookProcessed(webhookId);
               break;
             
+            case 'checkout.session.expired':
+              await handleCheckoutExpired(event.data.object as any);
+              await ticketsStorage.markWebhookProcessed(webhookId);
+              break;
+            
             case 'payment_intent.succeeded':
               await handlePaymentIntentSucceeded(event.data.object as any);
               await ticketsStorage.markWebhookProcessed(webhookId);
@@ -1129,6 +1663,15 @@ export function addTicketsRoutes(app: Express) {
               await ticketsStorage.markWebhookProcessed(webhookId);
               break;
             
+            case 'charge.dispute.created':
+            case 'charge.dispute.updated':
+            case 'charge.dispute.funds_withdrawn':
+            case 'charge.dispute.funds_reinstated':
+            case 'charge.dispute.closed':
+              await DisputeService.sync(event.data.object as any);
+              await ticketsStorage.markWebhookProcessed(webhookId);
+              break;
+            
             default:
               // Unknown event type - mark as processed
               await ticketsStorage.markWebhookProcessed(webhookId);
@@ -1544,6 +2087,8 @@ export function addTicketsRoutes(app: Express) {
               eventId: event.id,
               name: tier.name,
               priceCents: tier.priceCents || 0,
+              priceSchedule: priceScheduleSchema.parse(tier.priceSchedule ?? null),
+              ...ProductService.productFields(tier),
               capacity: tier.capacity || null,
               maxPerOrder: tier.maxPerOrder || 10,
               salesStartAt: tier.salesStartAt ? new Date(tier.salesStartAt) : null,
@@ -1587,7 +2132,7 @@ export function addTicketsRoutes(app: Express) {
       // Convert datetime strings to Date objects if provided
       const updateData: any = {};
       for (const [key, value] of Object.entries(validated)) {
-        if ((key === 'startAt' || key === 'endAt') && value) {
+        if ((key === 'startAt' || key === 'endAt' || key === 'allowRefundsUntil') && value) {
           updateData[key] = new Date(value as string);
         } else if (value !== undefined) {
           updateData[key] = value;
@@ -1596,6 +2141,15 @@ export function addTicketsRoutes(app: Express) {
       
       const updated = await ticketsStorage.updateEvent(req.params.id, updateData);
       
+      // Passes already in people's wallets show the title, time and venue
+      const passFields = ['title', 'startAt', 'endAt', 'venue', 'city', 'province'] as const;
+      const passChanged = passFields.some(key => key in updateData && (updateData[key] instanceof Date
+        ? updateData[key].getTime() !== new Date(event[key] as any).getTime()
+        : updateData[key] !== event[key]));
+      if (passChanged) {
+        await WalletService.eventChanged(event.id);
+      }
+      
       // Handle tiers update if provided
       if (tiers && Array.isArray(tiers)) {
         // Get existing tiers
@@ -1606,16 +2160,28 @@ export function addTicketsRoutes(app: Express) {
         for (const tier of tiers) {
           if (tier.id && existingTierIds.includes(tier.id)) {
             // Update existing tier
-            const { id, tempId, soldCount, ...tierData } = tier;
+            const { id, tempId, soldCount, pricePhase, ...tierData } = tier;
             // Convert datetime fields
             if (tierData.salesStartAt) tierData.salesStartAt = new Date(tierData.salesStartAt);
             if (tierData.salesEndAt) tierData.salesEndAt = new Date(tierData.salesEndAt);
+            if (tierData.priceSchedule !== undefined) tierData.priceSchedule = priceScheduleSchema.parse(tierData.priceSchedule);
+            // Sold units were counted under the current kind and bundle size, so those stay put once sales start
+            const existingTier = existingTiers.find(t => t.id === id)!;
+            const product = ProductService.productFields({ ...existingTier, ...tierData });
+            if ((existingTier as any).soldCount) {
+              product.kind = existingTier.kind;
+              product.ticketsPerUnit = existingTier.ticketsPerUnit;
+              if (product.kind === 'addon') product.addonFulfillment = existingTier.addonFulfillment;
+            }
+            Object.assign(tierData, product);
             await ticketsStorage.updateTier(id, tierData);
           } else if (!tier.id || tier.tempId) {
             // Create new tier
-            const { id, tempId, soldCount, ...tierData } = tier;
+            const { id, tempId, soldCount, pricePhase, ...tierData } = tier;
             const newTierData: InsertTicketsTier = {
               ...tierData,
+              ...ProductService.productFields(tierData),
+              priceSchedule: priceScheduleSchema.parse(tierData.priceSchedule ?? null),
               salesStartAt: tierData.salesStartAt ? new Date(tierData.salesStartAt) : null,
               salesEndAt: tierData.salesEndAt ? new Date(tierData.salesEndAt) : null,
               eventId: req.params.id
@@ -1644,7 +2210,10 @@ export function addTicketsRoutes(app: Express) {
       console.log(`[Update Event] Updated event title: "${updated.title}", status: ${updated.status}`);
       
       res.json({ ok: true, event: toCamelCase(eventWithTiers) });
-    } catch (error) {
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid event' });
+      }
       console.error('[Update Event] Error:', error);
       res.status(500).json({ ok: false, error: 'Failed to update event' });
     }
@@ -1766,6 +2335,12 @@ export function addTicketsRoutes(app: Express) {
         const tierData: InsertTicketsTier = {
           name: tier.name,
           priceCents: tier.priceCents,
+          priceSchedule: tier.priceSchedule as InsertTicketsTier['priceSchedule'],
+          seriesPass: tier.seriesPass,
+          kind: tier.kind,
+          ticketsPerUnit: tier.ticketsPerUnit,
+          addonFulfillment: tier.addonFulfillment,
+          taxable: tier.taxable,
           currency: tier.currency,
           capacity: tier.capacity,
           maxPerOrder: tier.maxPerOrder,
@@ -1798,6 +2373,7 @@ export function addTicketsRoutes(app: Express) {
       const validated = createTierSchema.parse(req.body);
       const tierData: InsertTicketsTier = {
         ...validated,
+        ...ProductService.productFields(validated),
         salesStartAt: validated.salesStartAt ? new Date(validated.salesStartAt) : null,
         salesEndAt: validated.salesEndAt ? new Date(validated.salesEndAt) : null,
         eventId: event.id
@@ -1854,7 +2430,8 @@ export function addTicketsRoutes(app: Express) {
   app.post('/api/tickets/validate', requireTicketing, async (req: Request, res: Response) => {
     try {
       const validated = validateTicketSchema.parse(req.body);
-      const { qrToken, apiKey } = validated;
+      const { apiKey } = validated;
+      const qrToken = QrSigningService.extractQrToken(validated.qrToken);
       
       // TODO: Validate API key for event
       
@@ -1878,6 +2455,13 @@ export function addTicketsRoutes(app: Express) {
         });
       }
       
+      if (ticket.isBlocked) {
+        return res.json({ 
+          ok: false, 
+          error: 'Ticket blocked'
+        });
+      }
+      
       // Mark as used
       await ticketsStorage.updateTicketStatus(
         ticket.id, 
@@ -1909,7 +2493,8 @@ export function addTicketsRoutes(app: Express) {
         return res.status(404).json({ ok: false, error: 'Ticket not found' });
       }
       
-      const qrCodeDataURL = await QRCode.toDataURL(ticket.qrToken, {
+      const tier = await ticketsStorage.getTierById(ticket.tierId);
+      const qrCodeDataURL = await QRCode.toDataURL(tier ? QrSigningService.signTicket(ticket, tier.eventId) : ticket.qrToken, {
         width: 300,
         margin: 2,
         color: {
@@ -2034,7 +2619,7 @@ async function handleCheckoutCompleted(session: any) {
         tierId: item.tierId,
         quantity: item.quantity,
         unitPriceCents: item.unitPriceCents,
-        taxCents: 0, // TODO: Calculate per-item tax
+        taxCents: item.taxCents ?? 0,
         feesCents: 0  // TODO: Calculate per-item fees
       });
       
@@ -2191,7 +2776,14 @@ async function handleRefund(charge: any) {
       return;
     }
     
-    const refundAmountCents = charge.amount_refunded;
+    // Sellers paid back for resold tickets show up here too - the resale buyer's payment covers those
+    const resale = await ResaleService.resaleRefunds(order);
+    const refundAmountCents = charge.amount_refunded - resale.refundedCents;
+    if (refundAmountCents <= 0) {
+      console.log(`[MoR Webhook] Refund on order ${order.id} only paid back resold tickets, nothing to update`);
+      return;
+    }
+    const refundableCents = order.totalCents - resale.refundedCents;
     console.log(`[MoR Webhook] Refunding ${refundAmountCents}¢ for order: ${order.id}`);
     
     // Calculate net refund to organizer (full refund - no platform fees in subscription model)
@@ -2200,7 +2792,7 @@ async function handleRefund(charge: any) {
     
     // Update order with refund data
     await ticketsStorage.updateOrder(order.id, {
-      status: refundAmountCents >= order.totalCents ? 'refunded' : 'partially_refunded',
+      status: refundAmountCents >= refundableCents ? 'refunded' : 'partially_refunded',
       refundAmountCents: refundAmountCents,
       refundedAt: new Date()
     });
@@ -2219,11 +2811,22 @@ async function handleRefund(charge: any) {
     }
     
     // Update ticket statuses for full refund
-    if (refundAmountCents >= order.totalCents) {
-      const tickets = await ticketsStorage.getTicketsByOrderId(order.id);
+    if (refundAmountCents >= refundableCents) {
+      const tickets = (await ticketsStorage.getTicketsByOrderId(order.id)).filter(t => !resale.resoldTicketIds.has(t.id));
       for (const ticket of tickets) {
         await ticketsStorage.updateTicket(ticket.id, { status: 'refunded' });
+        // Tickets refunded one by one from the dashboard have already been announced
+        if (ticket.status !== 'refunded') {
+          await OrganizerWebhookService.ticketEvent('ticket.refunded', ticket.id, { refundAmountCents, reason: 'Refunded in Stripe' });
+        }
       }
+      
+      // Refunded seats go back on sale - offer them to the waitlist first
+      await SeatingService.releaseSeatsForTickets(tickets.map(t => t.id));
+      await WaitlistService.handleCapacityReleased(tickets.map(t => t.tierId));
+      
+      // Unused add-on vouchers stop working too
+      await ticketsStorage.voidVouchersByOrder(order.id);
     }
     
     // Log audit
@@ -2254,6 +2857,12 @@ async function handlePaymentIntentSucceeded(paymentIntent: any) {
   try {
     console.log(`[MoR Webhook] Processing Payment Intent succeeded: ${paymentIntent.id}`);
     
+    // Fan resale purchases aren't orders
+    if (paymentIntent.metadata?.resaleListingId) {
+      await ResaleService.completePurchase(paymentIntent);
+      return;
+    }
+    
     // Find order by Payment Intent ID
     const order = await ticketsStorage.getOrderByPaymentIntent(paymentIntent.id);
     if (!order) {
@@ -2295,11 +2904,21 @@ async function handlePaymentIntentFailed(paymentIntent: any) {
   try {
     console.log(`[Webhook] Processing Payment Intent failed: ${paymentIntent.id}`);
     
+    if (paymentIntent.metadata?.resaleListingId) {
+      await ResaleService.failPurchase(paymentIntent);
+      return;
+    }
+    
     // Find order and mark as failed
     const order = await ticketsStorage.getOrderByPaymentIntent(paymentIntent.id);
     if (order && order.status !== 'failed') {
       await ticketsStorage.updateOrder(order.id, { status: 'failed' });
       console.log(`[Webhook] Marked order ${order.id} as failed`);
+      
+      // Put any seats picked for this order back on sale, and the discount code use it held
+      const orderItems = await ticketsStorage.getOrderItems(order.id);
+      await SeatingService.releaseOrderHolds(order.id, orderItems.map(item => item.tierId));
+      await DiscountService.releaseForOrder(order.id);
     }
   } catch (error) {
     console.error('Error handling Payment Intent failed:', error);
@@ -2307,6 +2926,24 @@ async function handlePaymentIntentFailed(paymentIntent: any) {
   }
 }
 
+// Helper function to handle an abandoned Checkout Session
+async function handleCheckoutExpired(session: any) {
+  try {
+    const order = await ticketsStorage.getOrderByCheckoutSession(session.id);
+    if (!order || order.status !== 'pending') return;
+    
+    await ticketsStorage.updateOrder(order.id, { status: 'canceled' });
+    console.log(`[Webhook] Checkout expired, canceled order ${order.id}`);
+    
+    const orderItems = await ticketsStorage.getOrderItems(order.id);
+    await SeatingService.releaseOrderHolds(order.id, orderItems.map(item => item.tierId));
+    await DiscountService.releaseForOrder(order.id);
+  } catch (error) {
+    console.error('Error handling Checkout Session expired:', error);
+    throw error;
+  }
+}
+
 // ============ MY TICKETS ENDPOINTS ============
 function addMyTicketsRoutes(app: Express) {
   // Get all tickets for logged-in user
@@ -2338,6 +2975,20 @@ function addMyTicketsRoutes(app: Express) {
       
       const orders = Array.from(orderMap.values());
       
+      // Tickets transferred or resold to this user live on someone else's order
+      const heldTickets = (await ticketsStorage.getTicketsByHolderEmail(user.email))
+        .filter(ticket => ticket.status === 'valid' || ticket.status === 'used');
+      const heldByOrderItem = new Map<string, any[]>();
+      for (const ticket of heldTickets) {
+        const orderItem = await ticketsStorage.getOrderItemById(ticket.orderItemId);
+        if (!orderItem || orderMap.has(orderItem.orderId)) continue;
+        heldByOrderItem.set(orderItem.id, [...(heldByOrderItem.get(orderItem.id) || []), ticket]);
+        if (!orders.some(order => order.id === orderItem.orderId)) {
+          const order = await ticketsStorage.getOrderById(orderItem.orderId);
+          if (order) orders.push(toCamelCase(order));
+        }
+      }
+      
       // Get all tickets with event and tier details
       const ticketsData = [];
       const now = new Date();
@@ -2351,9 +3002,20 @@ function addMyTicketsRoutes(app: Express) {
         
         const orderItems = await ticketsStorage.getOrderItems(order.id);
         
+        // Tickets for one date of a series are upcoming until that date; passes until the series ends
+        const occurrence = order.occurrenceId ? await ticketsStorage.getOccurrenceById(order.occurrenceId) : null;
+        
         for (const item of orderItems) {
           const tier = await ticketsStorage.getTierById(item.tierId);
-          const tickets = await ticketsStorage.getTicketsByOrderItem(item.id);
+          // On the user's own orders, leave out tickets they've passed on to someone else
+          const tickets = orderMap.has(order.id)
+            ? (await ticketsStorage.getTicketsByOrderItem(item.id)).filter(ticket => TransferService.isHeldBy(ticket, order, user))
+            : heldByOrderItem.get(item.id) || [];
+          const ticketOccurrence = tier?.seriesPass ? null : occurrence;
+          const startsAt = ticketOccurrence ? ticketOccurrence.startAt : event.startAt;
+          const upcomingUntil = ticketOccurrence
+            ? ticketOccurrence.startAt
+            : tier?.seriesPass && event.endAt ? event.endAt : event.startAt;
           
           for (const ticket of tickets) {
             ticketsData.push({
@@ -2373,15 +3035,23 @@ function addMyTicketsRoutes(app: Express) {
                 currency: order.currency,
                 placedAt: order.placedAt
               }),
-              isUpcoming: new Date(event.startAt) > now
+              occurrence: ticketOccurrence ? toCamelCase({
+                id: ticketOccurrence.id,
+                startAt: ticketOccurrence.startAt,
+                endAt: ticketOccurrence.endAt,
+                status: ticketOccurrence.status
+              }) : null,
+              seriesPass: !!tier?.seriesPass,
+              startsAt,
+              isUpcoming: new Date(upcomingUntil) > now
             });
           }
         }
       }
       
-      // Sort by event date
+      // Sort by event date (the ticket's own date for a series)
       ticketsData.sort((a, b) => {
-        return new Date(b.event.startAt).getTime() - new Date(a.event.startAt).getTime();
+        return new Date(b.startsAt).getTime() - new Date(a.startsAt).getTime();
       });
       
       // Group by upcoming vs past
@@ -2428,7 +3098,7 @@ function addMyTicketsRoutes(app: Express) {
       // Verify ownership (if logged in)
       if (userId) {
         const user = await ticketsStorage.getUserById(userId);
-        if (user && order.buyerEmail !== user.email && order.userId !== userId) {
+        if (user && !TransferService.isHeldBy(ticket, order, user)) {
           return res.status(403).json({ ok: false, error: 'Access denied' });
         }
       }
@@ -2447,11 +3117,18 @@ function addMyTicketsRoutes(app: Express) {
         organizer = await ticketsStorage.getOrganizerById(event.organizerId);
       }
       
+      // A dated series ticket shows its own date; a pass shows the dates it's been used for
+      const occurrence = ticket.occurrenceId ? await ticketsStorage.getOccurrenceById(ticket.occurrenceId) : null;
+      const passCheckins = tier.seriesPass ? await ticketsStorage.getOccurrenceCheckinsByTicket(ticket.id) : [];
+      
       res.json({
         ok: true,
         ticket: toCamelCase(ticket),
         tier: toCamelCase(tier),
         event: toCamelCase(event),
+        occurrence: occurrence ? toCamelCase(occurrence) : null,
+        seriesPass: !!tier.seriesPass,
+        passCheckins: passCheckins.map(c => ({ occurrenceId: c.occurrenceId, checkedInAt: c.checkedInAt })),
         order: toCamelCase({
           id: order.id,
           buyerEmail: order.buyerEmail,
@@ -2492,11 +3169,16 @@ function addMyTicketsRoutes(app: Express) {
       // Verify ownership
       if (userId) {
         const user = await ticketsStorage.getUserById(userId);
-        if (user && order.buyerEmail !== user.email && order.userId !== userId) {
+        if (user && !TransferService.isHeldBy(ticket, order, user)) {
           return res.status(403).json({ ok: false, error: 'Access denied' });
         }
       }
       
+      // The order email goes to the original buyer, not whoever the ticket was passed on to
+      if (ticket.holderEmail) {
+        return res.status(400).json({ ok: false, error: 'This ticket was transferred to you - download it from My Tickets instead' });
+      }
+      
       // Import and use email service
       const { sendTicketEmail } = await import('./email-service');
       const emailSent = await sendTicketEmail(order.id, true);
@@ -2595,7 +3277,7 @@ function addMyTicketsRoutes(app: Express) {
       // Verify ownership if logged in
       if (userId) {
         const user = await ticketsStorage.getUserById(userId);
-        if (user && order.buyerEmail !== user.email && order.userId !== userId) {
+        if (user && !TransferService.isHeldBy(ticket, order, user)) {
           return res.status(403).json({ ok: false, error: 'Access denied' });
         }
       }
@@ -2609,11 +3291,7 @@ function addMyTicketsRoutes(app: Express) {
       }
       
       // Generate QR code
-      const qrDataURL = await QRCode.toDataURL(JSON.stringify({
-        ticketId: ticket.id,
-        token: ticket.qrToken,
-        verifyUrl: `${process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com'}/api/tickets/validate?token=${ticket.qrToken}`
-      }), {
+      const qrDataURL = await QRCode.toDataURL(QrSigningService.signTicket(ticket, event.id), {
         errorCorrectionLevel: 'M',
         width: 400,
         margin: 2
@@ -2704,6 +3382,12 @@ function addMyTicketsRoutes(app: Express) {
         <img src="${qrDataURL}" alt="QR Code" />
         <p>Show this code at the venue</p>
       </div>
+      ${ticket.seatLabel ? `
+      <div class="details">
+        <h3>Seat</h3>
+        <p>${ticket.seatLabel}</p>
+      </div>
+      ` : ''}
       <div class="details">
         <h3>Date & Time</h3>
         <p>${format(new Date(event.startAt), 'EEEE, MMMM d, yyyy • h:mm a')}</p>
@@ -2744,7 +3428,8 @@ function addMyTicketsRoutes(app: Express) {
   // Mark ticket as used (check-in)
   app.post('/api/tickets/check-in', async (req: Request, res: Response) => {
     try {
-      const { qrToken, eventId, checkInBy } = req.body;
+      const { eventId, checkInBy } = req.body;
+      const qrToken = req.body.qrToken ? QrSigningService.extractQrToken(req.body.qrToken) : req.body.qrToken;
       
       if (!qrToken || !eventId) {
         return res.status(400).json({ 
@@ -2776,6 +3461,13 @@ function addMyTicketsRoutes(app: Express) {
         });
       }
       
+      if (ticket.isBlocked) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Ticket is blocked'
+        });
+      }
+      
       // Check-in the ticket
       await ticketsStorage.checkInTicket(ticket.id, checkInBy || 'staff');
       
@@ -2793,6 +3485,8 @@ function addMyTicketsRoutes(app: Express) {
         console.error('Failed to create audit log (non-fatal):', auditError);
       }
       
+      await OrganizerWebhookService.ticketEvent('ticket.checked_in', ticket.id, { occurrenceId: null, gateId: null, checkedInBy: checkInBy || 'staff' });
+      
       res.json({
         ok: true,
         message: 'Ticket checked in successfully',
@@ -2946,30 +3640,75 @@ async function createTicketsForPaidOrder(orderId: string): Promise<void> {
     // Get tier details for email
     const tier = await ticketsStorage.getTierById(orderItem.tierId);
     
-    // Create individual tickets for each quantity
-    for (let i = 0; i < orderItem.quantity; i++) {
+    // Seats picked at checkout, if this is a reserved-seating tier
+    const seats = await SeatingService.getHeldSeats(orderId, orderItem.tierId);
+    if (seats.length > 0 && seats.length < orderItem.quantity) {
+      console.warn(`[TicketCreation] Only ${seats.length} of ${orderItem.quantity} seats still held for order ${orderId} - hold may have lapsed`);
+    }
+    
+    // Add-ons get a redeemable voucher per unit, if they use them
+    if (tier) {
+      await ProductService.issueVouchers(orderId, orderItem, tier);
+    }
+    
+    // Create individual tickets for each quantity - bundles issue several per unit, add-ons none
+    const ticketCount = tier ? ProductService.ticketsFor(tier, orderItem.quantity) : orderItem.quantity;
+    for (let i = 0; i < ticketCount; i++) {
       const serial = `TKT-${nanoid(10).toUpperCase()}`;
       const qrToken = nanoid(20);
+      const seat = seats[i];
       
       const ticket = await ticketsStorage.createTicket({
         orderItemId: orderItem.id,
         tierId: orderItem.tierId,
+        occurrenceId: tier?.seriesPass ? null : order.occurrenceId,
         serial,
         qrToken,
-        status: 'valid'
+        status: 'valid',
+        seatId: seat?.id,
+        seatLabel: seat ? SeatingService.formatSeatLabel(seat) : undefined
       });
       
+      if (seat) {
+        await ticketsStorage.markSeatSold(seat.id, ticket.id);
+      }
+      
       createdTickets.push({
         id: ticket.id,
+        tierId: orderItem.tierId,
         tierName: tier?.name || 'General Admission',
         qrToken: ticket.qrToken,
-        serial: ticket.serial
+        serial: ticket.serial,
+        seatLabel: ticket.seatLabel
       });
     }
   }
   
   console.log(`[TicketCreation] Created ${createdTickets.length} tickets for order: ${orderId}`);
   
+  // Attach per-ticket question answers to the tickets they were given for
+  try {
+    await QuestionService.linkTicketAnswers(orderId, createdTickets);
+  } catch (error) {
+    console.error(`[TicketCreation] Failed to link question answers for order ${orderId}:`, error);
+  }
+  
+  // Count the discount code's use now that the order is paid
+  try {
+    await DiscountService.redeemForOrder(order);
+  } catch (error) {
+    console.error(`[TicketCreation] Failed to record discount use for order ${orderId}:`, error);
+  }
+  
+  // Sold seats no longer need their checkout holds
+  await SeatingService.completeOrderHolds(orderId, orderItems.map(item => item.tierId));
+  
+  // Release the waitlist hold, if this order claimed an offer
+  await WaitlistService.markClaimedForOrder(orderId);
+  
+  // Let the organizer's integrations know
+  await OrganizerWebhookService.orderPaid(orderId);
+  
   // Send ticket email confirmation
   try {
     const { sendTicketEmail } = await import('./email-service');
@@ -15,7 +15,54 @@ import type {
   TicketsOrder,
   TicketsOrderItem,
   TicketsTicket,
-  TicketsDiscount
+  TicketsDiscount,
+  TicketsWaitlistEntry,
+  InsertTicketsWaitlistEntry,
+  TicketsSeatMap,
+  InsertTicketsSeatMap,
+  TicketsSeat,
+  InsertTicketsSeat,
+  TicketsEventGate,
+  InsertTicketsEventGate,
+  TicketsScanner,
+  InsertTicketsScanner,
+  TicketsCheckinDevice,
+  InsertTicketsCheckinDevice,
+  TicketsPromoter,
+  InsertTicketsPromoter,
+  TicketsEventOccurrence,
+  InsertTicketsEventOccurrence,
+  TicketsOccurrenceCheckin,
+  InsertTicketsOccurrenceCheckin,
+  TicketsEventQuestion,
+  InsertTicketsEventQuestion,
+  TicketsOrderAnswer,
+  InsertTicketsOrderAnswer,
+  TicketsVoucher,
+  InsertTicketsVoucher,
+  TicketsResaleListing,
+  InsertTicketsResaleListing,
+  TicketsRefundRequest,
+  InsertTicketsRefundRequest,
+  TicketsWalletRegistration,
+  InsertTicketsWalletRegistration,
+  TicketsOrganizerWebhook,
+  InsertTicketsOrganizerWebhook,
+  TicketsWebhookDelivery,
+  InsertTicketsWebhookDelivery,
+  TicketsApiKey,
+  InsertTicketsApiKey,
+  TicketsLedger,
+  TicketsPayout,
+  TicketsReconciliationRun,
+  InsertTicketsReconciliationRun,
+  TicketsStripeTransaction,
+  InsertTicketsStripeTransaction,
+  TicketsJournalLine,
+  InsertTicketsJournalLine,
+  TicketsDispute,
+  InsertTicketsDispute,
+  TicketsAudit
 } from '@shared/schema';
 import { nanoid } from 'nanoid';
 
@@ -106,7 +153,19 @@ export class TicketsStorage {
     return ticketsDB.deleteTier(id);
   }
 
-  async checkTierAvailability(tierId: string, quantity: number): Promise<boolean> {
+  /**
+   * The date whose inventory a purchase draws on, or null for the event-wide pool.
+   * Add-ons aren't tied to a date, so like series passes they share one pool.
+   */
+  private inventoryDateFor(tier: TicketsTier, occurrenceId?: string | null): string | null {
+    return occurrenceId && !tier.seriesPass && tier.kind !== 'addon' ? occurrenceId : null;
+  }
+
+  /**
+   * For series events pass the occurrence being bought - each date has its own
+   * inventory of every tier except series passes.
+   */
+  async checkTierAvailability(tierId: string, quantity: number, holdReservationId?: string, occurrenceId?: string | null): Promise<boolean> {
     // Validate quantity is within tier limits
     const tier = await this.getTierById(tierId);
     if (!tier) return false;
@@ -117,9 +176,22 @@ export class TicketsStorage {
     
     // Check inventory if tier has capacity limit
     if (tier.capacity) {
-      // Count sold tickets for this tier
-      const soldCount = await ticketsDB.getTierSoldCount(tierId);
-      const available = tier.capacity - soldCount;
+      const dateId = this.inventoryDateFor(tier, occurrenceId);
+      const soldCount = dateId
+        ? await ticketsDB.getTierOccurrenceSoldCount(tierId, dateId)
+        : await ticketsDB.getTierSoldCount(tierId);
+      
+      // Seats held by open reservations (e.g. waitlist offers) are not for sale,
+      // except the hold the buyer is claiming
+      let reserved = await ticketsDB.getTierReservedCount(tierId, dateId || undefined);
+      if (holdReservationId) {
+        const hold = await ticketsDB.getCapacityReservation(holdReservationId);
+        if (hold && hold.tierId === tierId && (!dateId || !hold.occurrenceId || hold.occurrenceId === dateId)) {
+          reserved -= hold.quantity;
+        }
+      }
+      
+      const available = tier.capacity - soldCount - reserved;
       if (available < quantity) {
         return false;
       }
@@ -186,6 +258,10 @@ export class TicketsStorage {
     return ticketsDB.getTicketsByOrderItem(orderItemId);
   }
 
+  async getTicketsByHolderEmail(email: string): Promise<TicketsTicket[]> {
+    return ticketsDB.getTicketsByHolderEmail(email);
+  }
+
   async getTicketByQR(qrToken: string): Promise<TicketsTicket | null> {
     return ticketsDB.getTicketByQR(qrToken);
   }
@@ -220,17 +296,349 @@ export class TicketsStorage {
   }
 
   // ============ DISCOUNTS ============
-  async createDiscount(data: InsertTicketsDiscount): Promise<TicketsDiscount> {
-    // Implementation needed
-    throw new Error('Not implemented yet');
+  async getDiscountsByEvent(eventId: string): Promise<TicketsDiscount[]> {
+    return ticketsDB.getDiscountsByEvent(eventId);
+  }
+
+  async getDiscountById(id: string): Promise<TicketsDiscount | null> {
+    return ticketsDB.getDiscountById(id);
   }
 
   async getDiscountByCode(eventId: string, code: string): Promise<TicketsDiscount | null> {
     return ticketsDB.getDiscountByCode(eventId, code);
   }
 
-  async updateDiscountUsage(discountId: string): Promise<void> {
-    return ticketsDB.incrementDiscountUsage(discountId);
+  async getExistingDiscountCodes(eventId: string, codes: string[]): Promise<string[]> {
+    return ticketsDB.getExistingDiscountCodes(eventId, codes);
+  }
+
+  async createDiscount(data: InsertTicketsDiscount): Promise<TicketsDiscount> {
+    const [discount] = await ticketsDB.createDiscounts([data]);
+    return discount;
+  }
+
+  async createDiscounts(data: InsertTicketsDiscount[]): Promise<TicketsDiscount[]> {
+    return ticketsDB.createDiscounts(data);
+  }
+
+  async updateDiscount(id: string, data: Partial<InsertTicketsDiscount>): Promise<TicketsDiscount> {
+    return ticketsDB.updateDiscount(id, data);
+  }
+
+  async deleteDiscount(id: string): Promise<void> {
+    return ticketsDB.deleteDiscount(id);
+  }
+
+  async redeemDiscount(discountId: string, orderId: string, heldUntil: Date | null = null): Promise<boolean> {
+    return ticketsDB.redeemDiscount(discountId, orderId, heldUntil);
+  }
+
+  async releaseDiscountHold(orderId: string): Promise<boolean> {
+    return ticketsDB.releaseDiscountHold(orderId);
+  }
+
+  async releaseExpiredDiscountHolds(discountId: string): Promise<number> {
+    return ticketsDB.releaseExpiredDiscountHolds(discountId);
+  }
+
+  // ============ OCCURRENCES ============
+  async getOccurrencesByEvent(eventId: string): Promise<TicketsEventOccurrence[]> {
+    return ticketsDB.getOccurrencesByEvent(eventId);
+  }
+
+  async getOccurrenceById(id: string): Promise<TicketsEventOccurrence | null> {
+    return ticketsDB.getOccurrenceById(id);
+  }
+
+  async createOccurrences(data: InsertTicketsEventOccurrence[]): Promise<TicketsEventOccurrence[]> {
+    return ticketsDB.createOccurrences(data);
+  }
+
+  async updateOccurrence(id: string, data: Partial<InsertTicketsEventOccurrence>): Promise<TicketsEventOccurrence> {
+    return ticketsDB.updateOccurrence(id, data);
+  }
+
+  async deleteOccurrence(id: string): Promise<void> {
+    return ticketsDB.deleteOccurrence(id);
+  }
+
+  async getTierOccurrenceSoldCount(tierId: string, occurrenceId: string): Promise<number> {
+    return ticketsDB.getTierOccurrenceSoldCount(tierId, occurrenceId);
+  }
+
+  async getOccurrenceTicketCounts(eventId: string) {
+    return ticketsDB.getOccurrenceTicketCounts(eventId);
+  }
+
+  async countOccurrenceOrders(occurrenceId: string): Promise<number> {
+    return ticketsDB.countOccurrenceOrders(occurrenceId);
+  }
+
+  async getOccurrenceCheckins(occurrenceIds: string[]): Promise<TicketsOccurrenceCheckin[]> {
+    return ticketsDB.getOccurrenceCheckins(occurrenceIds);
+  }
+
+  async getOccurrenceCheckin(ticketId: string, occurrenceId: string): Promise<TicketsOccurrenceCheckin | null> {
+    return ticketsDB.getOccurrenceCheckin(ticketId, occurrenceId);
+  }
+
+  async getOccurrenceCheckinsByTicket(ticketId: string): Promise<TicketsOccurrenceCheckin[]> {
+    return ticketsDB.getOccurrenceCheckinsByTicket(ticketId);
+  }
+
+  async createOccurrenceCheckin(data: InsertTicketsOccurrenceCheckin): Promise<TicketsOccurrenceCheckin | null> {
+    return ticketsDB.createOccurrenceCheckin(data);
+  }
+
+  async updateOccurrenceCheckin(id: string, data: Partial<InsertTicketsOccurrenceCheckin>): Promise<TicketsOccurrenceCheckin> {
+    return ticketsDB.updateOccurrenceCheckin(id, data);
+  }
+
+  // ============ PROMOTERS ============
+  async getPromotersByEvent(eventId: string): Promise<TicketsPromoter[]> {
+    return ticketsDB.getPromotersByEvent(eventId);
+  }
+
+  async getPromoterById(id: string): Promise<TicketsPromoter | null> {
+    return ticketsDB.getPromoterById(id);
+  }
+
+  async getPromoterByRefCode(eventId: string, refCode: string): Promise<TicketsPromoter | null> {
+    return ticketsDB.getPromoterByRefCode(eventId, refCode);
+  }
+
+  async getPromoterByViewToken(viewToken: string): Promise<TicketsPromoter | null> {
+    return ticketsDB.getPromoterByViewToken(viewToken);
+  }
+
+  async createPromoter(data: InsertTicketsPromoter): Promise<TicketsPromoter> {
+    return ticketsDB.createPromoter(data);
+  }
+
+  async updatePromoter(id: string, data: Partial<InsertTicketsPromoter>): Promise<TicketsPromoter> {
+    return ticketsDB.updatePromoter(id, data);
+  }
+
+  async deletePromoter(id: string): Promise<void> {
+    return ticketsDB.deletePromoter(id);
+  }
+
+  async getPromoterOrders(eventId: string, promoterId?: string) {
+    return ticketsDB.getPromoterOrders(eventId, promoterId);
+  }
+
+  // ============ QUESTIONS ============
+  async getQuestionsByEvent(eventId: string): Promise<TicketsEventQuestion[]> {
+    return ticketsDB.getQuestionsByEvent(eventId);
+  }
+
+  async getQuestionById(id: string): Promise<TicketsEventQuestion | null> {
+    return ticketsDB.getQuestionById(id);
+  }
+
+  async createQuestion(data: InsertTicketsEventQuestion): Promise<TicketsEventQuestion> {
+    return ticketsDB.createQuestion(data);
+  }
+
+  async updateQuestion(id: string, data: Partial<InsertTicketsEventQuestion>): Promise<TicketsEventQuestion> {
+    return ticketsDB.updateQuestion(id, data);
+  }
+
+  async deleteQuestion(id: string): Promise<void> {
+    return ticketsDB.deleteQuestion(id);
+  }
+
+  async countQuestionAnswers(questionId: string): Promise<number> {
+    return ticketsDB.countQuestionAnswers(questionId);
+  }
+
+  async createOrderAnswers(rows: InsertTicketsOrderAnswer[]): Promise<void> {
+    return ticketsDB.createOrderAnswers(rows);
+  }
+
+  async getOrderAnswers(orderId: string): Promise<TicketsOrderAnswer[]> {
+    return ticketsDB.getOrderAnswers(orderId);
+  }
+
+  async getAnswersByEvent(eventId: string): Promise<TicketsOrderAnswer[]> {
+    return ticketsDB.getAnswersByEvent(eventId);
+  }
+
+  async setAnswerTicket(id: string, ticketId: string): Promise<void> {
+    return ticketsDB.setAnswerTicket(id, ticketId);
+  }
+
+  // ============ VOUCHERS ============
+  async createVouchers(rows: InsertTicketsVoucher[]): Promise<TicketsVoucher[]> {
+    return ticketsDB.createVouchers(rows);
+  }
+
+  async getVouchersByOrder(orderId: string): Promise<TicketsVoucher[]> {
+    return ticketsDB.getVouchersByOrder(orderId);
+  }
+
+  async getVouchersByEvent(eventId: string): Promise<Array<TicketsVoucher & { tierName: string; buyerName: string | null; buyerEmail: string }>> {
+    return ticketsDB.getVouchersByEvent(eventId);
+  }
+
+  async getVoucherByCode(code: string): Promise<TicketsVoucher | null> {
+    return ticketsDB.getVoucherByCode(code);
+  }
+
+  async redeemVoucher(id: string, redeemedBy: string): Promise<TicketsVoucher | null> {
+    return ticketsDB.redeemVoucher(id, redeemedBy);
+  }
+
+  async voidVouchersByOrder(orderId: string): Promise<void> {
+    return ticketsDB.voidVouchersByOrder(orderId);
+  }
+
+  // ============ RESALE ============
+  async createResaleListing(data: InsertTicketsResaleListing): Promise<TicketsResaleListing> {
+    return ticketsDB.createResaleListing(data);
+  }
+
+  async getResaleListingById(id: string): Promise<TicketsResaleListing | null> {
+    return ticketsDB.getResaleListingById(id);
+  }
+
+  async getOpenResaleListingByTicket(ticketId: string): Promise<TicketsResaleListing | null> {
+    return ticketsDB.getOpenResaleListingByTicket(ticketId);
+  }
+
+  async getAvailableResaleListings(eventId: string): Promise<Array<TicketsResaleListing & { tierId: string; tierName: string; seatLabel: string | null; occurrenceId: string | null }>> {
+    return ticketsDB.getAvailableResaleListings(eventId);
+  }
+
+  async claimResaleListing(id: string, hold: { buyerEmail: string; buyerName: string | null; pendingUntil: Date }): Promise<TicketsResaleListing | null> {
+    return ticketsDB.claimResaleListing(id, hold);
+  }
+
+  async updateResaleListing(id: string, data: Partial<InsertTicketsResaleListing>): Promise<TicketsResaleListing> {
+    return ticketsDB.updateResaleListing(id, data);
+  }
+
+  async releaseResaleListing(id: string, paymentIntentId: string): Promise<void> {
+    return ticketsDB.releaseResaleListing(id, paymentIntentId);
+  }
+
+  async getResaleListingByNewTicket(ticketId: string): Promise<TicketsResaleListing | null> {
+    return ticketsDB.getResaleListingByNewTicket(ticketId);
+  }
+
+  async getSoldResaleListingsByOrder(orderId: string): Promise<TicketsResaleListing[]> {
+    return ticketsDB.getSoldResaleListingsByOrder(orderId);
+  }
+
+  // ============ REFUND REQUESTS ============
+  async createRefundRequest(data: InsertTicketsRefundRequest): Promise<TicketsRefundRequest> {
+    return ticketsDB.createRefundRequest(data);
+  }
+
+  async getRefundRequestById(id: string): Promise<TicketsRefundRequest | null> {
+    return ticketsDB.getRefundRequestById(id);
+  }
+
+  async getRefundRequestsByOrder(orderId: string): Promise<TicketsRefundRequest[]> {
+    return ticketsDB.getRefundRequestsByOrder(orderId);
+  }
+
+  async getRefundRequestsByEvent(eventId: string, status?: string) {
+    return ticketsDB.getRefundRequestsByEvent(eventId, status);
+  }
+
+  async decideRefundRequest(id: string, data: Partial<InsertTicketsRefundRequest>): Promise<TicketsRefundRequest | null> {
+    return ticketsDB.decideRefundRequest(id, data);
+  }
+
+  async updateRefundRequest(id: string, data: Partial<InsertTicketsRefundRequest>): Promise<TicketsRefundRequest> {
+    return ticketsDB.updateRefundRequest(id, data);
+  }
+
+  // ============ WALLET PASSES ============
+  async upsertWalletRegistration(data: InsertTicketsWalletRegistration): Promise<TicketsWalletRegistration> {
+    return ticketsDB.upsertWalletRegistration(data);
+  }
+
+  async deleteWalletRegistration(deviceLibraryId: string, ticketId: string): Promise<void> {
+    return ticketsDB.deleteWalletRegistration(deviceLibraryId, ticketId);
+  }
+
+  async getWalletRegistrationsByDevice(deviceLibraryId: string, passTypeId: string): Promise<TicketsWalletRegistration[]> {
+    return ticketsDB.getWalletRegistrationsByDevice(deviceLibraryId, passTypeId);
+  }
+
+  async getWalletRegistrationsByTickets(ticketIds: string[]): Promise<TicketsWalletRegistration[]> {
+    return ticketsDB.getWalletRegistrationsByTickets(ticketIds);
+  }
+
+  async getWalletRegistrationsByEvent(eventId: string): Promise<TicketsWalletRegistration[]> {
+    return ticketsDB.getWalletRegistrationsByEvent(eventId);
+  }
+
+  // ============ ORGANIZER WEBHOOKS & API KEYS ============
+  async createOrganizerWebhook(data: InsertTicketsOrganizerWebhook): Promise<TicketsOrganizerWebhook> {
+    return ticketsDB.createOrganizerWebhook(data);
+  }
+
+  async getOrganizerWebhookById(id: string): Promise<TicketsOrganizerWebhook | null> {
+    return ticketsDB.getOrganizerWebhookById(id);
+  }
+
+  async getOrganizerWebhooks(organizerId: string): Promise<TicketsOrganizerWebhook[]> {
+    return ticketsDB.getOrganizerWebhooks(organizerId);
+  }
+
+  async getOrganizerWebhooksForEvent(organizerId: string, eventType: string): Promise<TicketsOrganizerWebhook[]> {
+    return ticketsDB.getOrganizerWebhooksForEvent(organizerId, eventType);
+  }
+
+  async updateOrganizerWebhook(id: string, data: Partial<InsertTicketsOrganizerWebhook>): Promise<TicketsOrganizerWebhook> {
+    return ticketsDB.updateOrganizerWebhook(id, data);
+  }
+
+  async deleteOrganizerWebhook(id: string): Promise<void> {
+    return ticketsDB.deleteOrganizerWebhook(id);
+  }
+
+  async createWebhookDelivery(data: InsertTicketsWebhookDelivery): Promise<TicketsWebhookDelivery> {
+    return ticketsDB.createWebhookDelivery(data);
+  }
+
+  async getWebhookDeliveryById(id: string): Promise<TicketsWebhookDelivery | null> {
+    return ticketsDB.getWebhookDeliveryById(id);
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit?: number): Promise<TicketsWebhookDelivery[]> {
+    return ticketsDB.getWebhookDeliveries(webhookId, limit);
+  }
+
+  async getDueWebhookDeliveries(limit?: number): Promise<TicketsWebhookDelivery[]> {
+    return ticketsDB.getDueWebhookDeliveries(limit);
+  }
+
+  async claimWebhookDelivery(id: string, leaseUntil: Date): Promise<TicketsWebhookDelivery | null> {
+    return ticketsDB.claimWebhookDelivery(id, leaseUntil);
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<InsertTicketsWebhookDelivery>): Promise<TicketsWebhookDelivery> {
+    return ticketsDB.updateWebhookDelivery(id, data);
+  }
+
+  async createApiKey(data: InsertTicketsApiKey): Promise<TicketsApiKey> {
+    return ticketsDB.createApiKey(data);
+  }
+
+  async getApiKeysByOrganizer(organizerId: string): Promise<TicketsApiKey[]> {
+    return ticketsDB.getApiKeysByOrganizer(organizerId);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<TicketsApiKey | null> {
+    return ticketsDB.getApiKeyByHash(keyHash);
+  }
+
+  async updateApiKey(id: string, data: Partial<InsertTicketsApiKey>): Promise<TicketsApiKey> {
+    return ticketsDB.updateApiKey(id, data);
   }
 
   // ============ WEBHOOKS ============
@@ -265,13 +673,21 @@ export class TicketsStorage {
     return ticketsDB.createAudit(data);
   }
 
+  async getAuditEntries(targetType: string, targetIds: string[]): Promise<TicketsAudit[]> {
+    return ticketsDB.getAuditEntries(targetType, targetIds);
+  }
+
   // ============ CHECK-IN OPERATIONS ============
   async getTicketByQrToken(qrToken: string): Promise<TicketsTicket | null> {
     return ticketsDB.getTicketByQrToken(qrToken);
   }
 
-  async checkInTicket(ticketId: string, checkInBy: string): Promise<void> {
-    return ticketsDB.checkInTicket(ticketId, checkInBy);
+  async checkInTicket(
+    ticketId: string,
+    checkInBy: string,
+    options?: { usedAt?: Date; gateId?: string | null; scannerId?: string | null }
+  ): Promise<void> {
+    return ticketsDB.checkInTicket(ticketId, checkInBy, options);
   }
 
   async getOrderItemById(id: string): Promise<TicketsOrderItem | null> {
@@ -292,29 +708,39 @@ export class TicketsStorage {
   }
 
   // ============ INVENTORY MANAGEMENT ============
-  async getAvailableCapacity(tierId: string): Promise<number | null> {
+  async getTierSoldCount(tierId: string): Promise<number> {
+    return ticketsDB.getTierSoldCount(tierId);
+  }
+
+  // For series events, pass the occurrence to get what's left on that date
+  async getAvailableCapacity(tierId: string, occurrenceId?: string | null): Promise<number | null> {
     // Check if tier has a capacity limit
     const tier = await this.getTierById(tierId);
     if (!tier || !tier.capacity) return null; // No limit
     
-    // Count sold tickets for this tier
-    const soldCount = await ticketsDB.getTierSoldCount(tierId);
-    const reserved = await ticketsDB.getTierReservedCount(tierId);
+    const dateId = this.inventoryDateFor(tier, occurrenceId);
+    const soldCount = dateId
+      ? await ticketsDB.getTierOccurrenceSoldCount(tierId, dateId)
+      : await ticketsDB.getTierSoldCount(tierId);
+    const reserved = await ticketsDB.getTierReservedCount(tierId, dateId || undefined);
     
     return Math.max(0, tier.capacity - soldCount - reserved);
   }
 
-  async reserveCapacity(tierId: string, quantity: number, reservationId?: string): Promise<boolean> {
+  async reserveCapacity(tierId: string, quantity: number, reservationId?: string, expiresAt?: Date, occurrenceId?: string | null): Promise<boolean> {
     try {
       // Use database transaction to safely reserve capacity
-      const available = await this.getAvailableCapacity(tierId);
+      const tier = await this.getTierById(tierId);
+      const dateId = tier ? this.inventoryDateFor(tier, occurrenceId) : null;
+      const available = await this.getAvailableCapacity(tierId, dateId);
       if (available === null || available >= quantity) {
         // Create reservation record
         await ticketsDB.createCapacityReservation({
           tierId,
           quantity,
           reservationId: reservationId || nanoid(),
-          expiresAt: new Date(Date.now() + 15 * 60 * 1000) // 15 minutes
+          expiresAt: expiresAt || new Date(Date.now() + 15 * 60 * 1000), // 15 minutes
+          occurrenceId: dateId
         });
         return true;
       }
@@ -347,6 +773,153 @@ export class TicketsStorage {
     }
   }
 
+  // ============ WAITLIST ============
+  async createWaitlistEntry(data: InsertTicketsWaitlistEntry): Promise<TicketsWaitlistEntry> {
+    return ticketsDB.createWaitlistEntry(data);
+  }
+
+  async getWaitlistEntryById(id: string): Promise<TicketsWaitlistEntry | null> {
+    return ticketsDB.getWaitlistEntryById(id);
+  }
+
+  async getWaitlistEntryByToken(claimToken: string): Promise<TicketsWaitlistEntry | null> {
+    return ticketsDB.getWaitlistEntryByToken(claimToken);
+  }
+
+  async getWaitlistEntryByOrderId(orderId: string): Promise<TicketsWaitlistEntry | null> {
+    return ticketsDB.getWaitlistEntryByOrderId(orderId);
+  }
+
+  async getWaitlistByEvent(eventId: string): Promise<TicketsWaitlistEntry[]> {
+    return ticketsDB.getWaitlistByEvent(eventId);
+  }
+
+  async getWaitlistByTier(tierId: string, statuses: string[] = ['waiting']): Promise<TicketsWaitlistEntry[]> {
+    return ticketsDB.getWaitlistByTier(tierId, statuses);
+  }
+
+  async getNextWaitlistPosition(tierId: string): Promise<number> {
+    return (await ticketsDB.getMaxWaitlistPosition(tierId)) + 1;
+  }
+
+  async getExpiredWaitlistOffers(): Promise<TicketsWaitlistEntry[]> {
+    return ticketsDB.getExpiredWaitlistOffers();
+  }
+
+  async getTiersWithWaitingEntries(): Promise<string[]> {
+    return ticketsDB.getTiersWithWaitingEntries();
+  }
+
+  async updateWaitlistEntry(id: string, data: Partial<InsertTicketsWaitlistEntry>): Promise<TicketsWaitlistEntry> {
+    return ticketsDB.updateWaitlistEntry(id, data);
+  }
+
+  // ============ SEATING ============
+  async getSeatMapByEvent(eventId: string): Promise<TicketsSeatMap | null> {
+    return ticketsDB.getSeatMapByEvent(eventId);
+  }
+
+  async createSeatMap(data: InsertTicketsSeatMap): Promise<TicketsSeatMap> {
+    return ticketsDB.createSeatMap(data);
+  }
+
+  async updateSeatMap(id: string, data: Partial<InsertTicketsSeatMap>): Promise<TicketsSeatMap> {
+    return ticketsDB.updateSeatMap(id, data);
+  }
+
+  async deleteSeatMap(id: string): Promise<void> {
+    return ticketsDB.deleteSeatMap(id);
+  }
+
+  async createSeats(seats: InsertTicketsSeat[]): Promise<void> {
+    return ticketsDB.createSeats(seats);
+  }
+
+  async deleteSeatsByMap(seatMapId: string): Promise<void> {
+    return ticketsDB.deleteSeatsByMap(seatMapId);
+  }
+
+  async getSeatsByEvent(eventId: string): Promise<TicketsSeat[]> {
+    return ticketsDB.getSeatsByEvent(eventId);
+  }
+
+  async getSeatsByIds(seatIds: string[]): Promise<TicketsSeat[]> {
+    return ticketsDB.getSeatsByIds(seatIds);
+  }
+
+  async getSeatsByHold(holdReservationId: string): Promise<TicketsSeat[]> {
+    return ticketsDB.getSeatsByHold(holdReservationId);
+  }
+
+  async countUnavailableSeats(seatMapId: string): Promise<number> {
+    return ticketsDB.countUnavailableSeats(seatMapId);
+  }
+
+  async holdSeats(seatIds: string[], holdReservationId: string, heldUntil: Date): Promise<TicketsSeat[]> {
+    return ticketsDB.holdSeats(seatIds, holdReservationId, heldUntil);
+  }
+
+  async releaseSeatHold(holdReservationId: string): Promise<void> {
+    return ticketsDB.releaseSeatHold(holdReservationId);
+  }
+
+  async markSeatSold(seatId: string, ticketId: string): Promise<void> {
+    return ticketsDB.markSeatSold(seatId, ticketId);
+  }
+
+  async releaseSeatsForTickets(ticketIds: string[]): Promise<void> {
+    return ticketsDB.releaseSeatsForTickets(ticketIds);
+  }
+
+  // ============ GATES & SCANNERS ============
+  async getGatesByEvent(eventId: string): Promise<TicketsEventGate[]> {
+    return ticketsDB.getGatesByEvent(eventId);
+  }
+
+  async getGateById(id: string): Promise<TicketsEventGate | null> {
+    return ticketsDB.getGateById(id);
+  }
+
+  async createGate(data: InsertTicketsEventGate): Promise<TicketsEventGate> {
+    return ticketsDB.createGate(data);
+  }
+
+  async deleteGate(id: string): Promise<void> {
+    return ticketsDB.deleteGate(id);
+  }
+
+  async getScannersByEvent(eventId: string): Promise<TicketsScanner[]> {
+    return ticketsDB.getScannersByEvent(eventId);
+  }
+
+  async getScannerById(id: string): Promise<TicketsScanner | null> {
+    return ticketsDB.getScannerById(id);
+  }
+
+  async getScannerByAccessCodeHash(accessCodeHash: string): Promise<TicketsScanner | null> {
+    return ticketsDB.getScannerByAccessCodeHash(accessCodeHash);
+  }
+
+  async createScanner(data: InsertTicketsScanner): Promise<TicketsScanner> {
+    return ticketsDB.createScanner(data);
+  }
+
+  async updateScanner(id: string, data: Partial<InsertTicketsScanner>): Promise<TicketsScanner> {
+    return ticketsDB.updateScanner(id, data);
+  }
+
+  async getCheckinDevice(eventId: string, deviceId: string): Promise<TicketsCheckinDevice | null> {
+    return ticketsDB.getCheckinDevice(eventId, deviceId);
+  }
+
+  async upsertCheckinDevice(data: InsertTicketsCheckinDevice): Promise<TicketsCheckinDevice> {
+    return ticketsDB.upsertCheckinDevice(data);
+  }
+
+  async getEventCheckIns(eventId: string) {
+    return ticketsDB.getEventCheckIns(eventId);
+  }
+
   // ============ LEDGER & PAYOUT SYSTEM ============
   
   // Ledger operations
@@ -374,7 +947,7 @@ export class TicketsStorage {
     return ticketsDB.getLedgerEntryByOrderId(orderId);
   }
 
-  async getLedgerEntriesByOrganizer(organizerId: string): Promise<any[]> {
+  async getLedgerEntriesByOrganizer(organizerId: string): Promise<TicketsLedger[]> {
     return ticketsDB.getLedgerEntriesByOrganizer(organizerId);
   }
 
@@ -428,10 +1001,22 @@ export class TicketsStorage {
     });
   }
 
-  async getPayoutsByOrganizer(organizerId: string): Promise<any[]> {
+  async getPayoutsByOrganizer(organizerId: string): Promise<TicketsPayout[]> {
     return ticketsDB.getPayoutsByOrganizer(organizerId);
   }
 
+  async getPayoutById(payoutId: string): Promise<TicketsPayout | null> {
+    return ticketsDB.getPayoutById(payoutId);
+  }
+
+  async getLedgerEntriesByPayout(payoutId: string): Promise<TicketsLedger[]> {
+    return ticketsDB.getLedgerEntriesByPayout(payoutId);
+  }
+
+  async getLedgerEntriesByOrder(orderId: string): Promise<TicketsLedger[]> {
+    return ticketsDB.getLedgerEntriesByOrder(orderId);
+  }
+
   async updatePayoutStatus(payoutId: string, status: string, reference?: string): Promise<void> {
     return ticketsDB.updatePayoutStatus(payoutId, status, reference);
   }
@@ -461,7 +1046,7 @@ export class TicketsStorage {
     const totalEarned = balance + totalPaidOut;
     const lastPayout = payouts
       .filter(p => p.status === 'paid' && p.paidAt)
-      .sort((a, b) => new Date(b.paidAt).getTime() - new Date(a.paidAt).getTime())[0];
+      .sort((a, b) => new Date(b.paidAt!).getTime() - new Date(a.paidAt!).getTime())[0];
 
     return {
       totalEarned,
@@ -471,6 +1056,80 @@ export class TicketsStorage {
     };
   }
 
+  // ============ STRIPE RECONCILIATION ============
+  async createReconciliationRun(data: InsertTicketsReconciliationRun): Promise<TicketsReconciliationRun> {
+    return ticketsDB.createReconciliationRun(data);
+  }
+
+  async updateReconciliationRun(id: string, data: Partial<TicketsReconciliationRun>): Promise<TicketsReconciliationRun> {
+    return ticketsDB.updateReconciliationRun(id, data);
+  }
+
+  async getReconciliationRuns(limit?: number): Promise<TicketsReconciliationRun[]> {
+    return ticketsDB.getReconciliationRuns(limit);
+  }
+
+  async getLastCompletedReconciliationRun(): Promise<TicketsReconciliationRun | null> {
+    return ticketsDB.getLastCompletedReconciliationRun();
+  }
+
+  async getStripeTransactionByStripeId(stripeId: string): Promise<TicketsStripeTransaction | null> {
+    return ticketsDB.getStripeTransactionByStripeId(stripeId);
+  }
+
+  async getStripeTransactionById(id: string): Promise<TicketsStripeTransaction | null> {
+    return ticketsDB.getStripeTransactionById(id);
+  }
+
+  async upsertStripeTransaction(data: InsertTicketsStripeTransaction): Promise<TicketsStripeTransaction> {
+    return ticketsDB.upsertStripeTransaction(data);
+  }
+
+  async updateStripeTransaction(id: string, data: Partial<TicketsStripeTransaction>): Promise<TicketsStripeTransaction> {
+    return ticketsDB.updateStripeTransaction(id, data);
+  }
+
+  async getStripeTransactions(filters: { status?: string; organizerId?: string; unresolved?: boolean; limit?: number }): Promise<TicketsStripeTransaction[]> {
+    return ticketsDB.getStripeTransactions(filters);
+  }
+
+  async getStripeTransactionsByOrders(orderIds: string[]): Promise<TicketsStripeTransaction[]> {
+    return ticketsDB.getStripeTransactionsByOrders(orderIds);
+  }
+
+  async replaceJournalLines(stripeTransactionId: string, lines: InsertTicketsJournalLine[]): Promise<void> {
+    return ticketsDB.replaceJournalLines(stripeTransactionId, lines);
+  }
+
+  async getJournalLines(filters: { organizerId?: string; until?: Date }): Promise<TicketsJournalLine[]> {
+    return ticketsDB.getJournalLines(filters);
+  }
+
+  // ============ DISPUTES ============
+  async createDispute(data: InsertTicketsDispute): Promise<TicketsDispute> {
+    return ticketsDB.createDispute(data);
+  }
+
+  async updateDispute(id: string, data: Partial<TicketsDispute>): Promise<TicketsDispute> {
+    return ticketsDB.updateDispute(id, data);
+  }
+
+  async claimDisputeStep(id: string, step: 'fundsWithdrawnAt' | 'fundsReinstatedAt' | 'closedAt'): Promise<TicketsDispute | null> {
+    return ticketsDB.claimDisputeStep(id, step);
+  }
+
+  async getDisputeById(id: string): Promise<TicketsDispute | null> {
+    return ticketsDB.getDisputeById(id);
+  }
+
+  async getDisputeByStripeId(stripeDisputeId: string): Promise<TicketsDispute | null> {
+    return ticketsDB.getDisputeByStripeId(stripeDisputeId);
+  }
+
+  async getDisputesByOrganizer(organizerId: string): Promise<TicketsDispute[]> {
+    return ticketsDB.getDisputesByOrganizer(organizerId);
+  }
+
   // ============ EXTENDED METHODS FOR REFUNDS & ANALYTICS ============
   // These methods are implemented in storage-extensions.ts
   async updateTicket(id: string, data: any): Promise<TicketsTicket> {
@@ -482,6 +1141,10 @@ export class TicketsStorage {
     return ticketsDB.getOrdersByEvent(eventId);
   }
 
+  async getPaidOrdersForEvents(eventIds: string[], from: Date, to: Date): Promise<TicketsOrder[]> {
+    return ticketsDB.getPaidOrdersForEvents(eventIds, from, to);
+  }
+
   async getOrdersByBuyer(email: string): Promise<TicketsOrder[]> {
     return ticketsDB.getOrdersByBuyer(email);
   }
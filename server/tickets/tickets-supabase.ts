@@ -62,7 +62,53 @@ import type {
   InsertTicketsTicket,
   InsertTicketsDiscount,
   InsertTicketsWebhook,
-  InsertTicketsAudit
+  InsertTicketsAudit,
+  TicketsWaitlistEntry,
+  InsertTicketsWaitlistEntry,
+  TicketsSeatMap,
+  InsertTicketsSeatMap,
+  TicketsSeat,
+  InsertTicketsSeat,
+  TicketsEventGate,
+  InsertTicketsEventGate,
+  TicketsScanner,
+  InsertTicketsScanner,
+  TicketsCheckinDevice,
+  InsertTicketsCheckinDevice,
+  TicketsPromoter,
+  InsertTicketsPromoter,
+  TicketsEventOccurrence,
+  InsertTicketsEventOccurrence,
+  TicketsOccurrenceCheckin,
+  InsertTicketsOccurrenceCheckin,
+  TicketsEventQuestion,
+  InsertTicketsEventQuestion,
+  TicketsOrderAnswer,
+  InsertTicketsOrderAnswer,
+  TicketsVoucher,
+  InsertTicketsVoucher,
+  TicketsResaleListing,
+  InsertTicketsResaleListing,
+  TicketsRefundRequest,
+  InsertTicketsRefundRequest,
+  TicketsWalletRegistration,
+  InsertTicketsWalletRegistration,
+  TicketsOrganizerWebhook,
+  InsertTicketsOrganizerWebhook,
+  TicketsWebhookDelivery,
+  InsertTicketsWebhookDelivery,
+  TicketsApiKey,
+  InsertTicketsApiKey,
+  TicketsLedger,
+  TicketsPayout,
+  TicketsReconciliationRun,
+  InsertTicketsReconciliationRun,
+  TicketsStripeTransaction,
+  InsertTicketsStripeTransaction,
+  TicketsJournalLine,
+  InsertTicketsJournalLine,
+  TicketsDispute,
+  InsertTicketsDispute
 } from '@shared/schema';
 
 // Initialize Supabase client using the same method as main system
@@ -228,15 +274,40 @@ export class TicketsSupabaseDB {
   }
 
   async getPublicEvents(): Promise<TicketsEvent[]> {
+    const now = new Date().toISOString();
     const { data, error } = await this.client
       .from('tickets_events')
       .select('*')
       .eq('status', 'published')
-      .gt('start_at', new Date().toISOString())
+      .gt('start_at', now)
       .order('start_at', { ascending: true });
     
     if (error) throw error;
-    return data ? data.map(toCamelCase) : [];
+    const events = data || [];
+    
+    // A series stays listed while it still has dates to come, even once its first date has passed
+    const { data: upcoming, error: upcomingError } = await this.client
+      .from('tickets_event_occurrences')
+      .select('event_id')
+      .eq('status', 'scheduled')
+      .gt('start_at', now);
+    
+    if (upcomingError) throw upcomingError;
+    const listed = new Set(events.map((e: any) => e.id));
+    const missing = Array.from(new Set((upcoming || []).map((o: any) => o.event_id))).filter(id => !listed.has(id));
+    
+    if (missing.length > 0) {
+      const { data: series, error: seriesError } = await this.client
+        .from('tickets_events')
+        .select('*')
+        .eq('status', 'published')
+        .in('id', missing);
+      
+      if (seriesError) throw seriesError;
+      events.push(...(series || []));
+    }
+    
+    return events.map(toCamelCase);
   }
 
   async getEventsByOrganizer(organizerId: string): Promise<TicketsEvent[]> {
@@ -296,11 +367,13 @@ export class TicketsSupabaseDB {
       event_id: data.eventId,
       name: data.name,
       price_cents: data.priceCents,
+      price_schedule: toSnakeCase(data.priceSchedule ?? null),
       capacity: data.capacity,
       max_per_order: data.maxPerOrder,
       sales_start_at: data.salesStartAt,
       sales_end_at: data.salesEndAt,
       show_remaining: data.showRemaining ?? true,
+      series_pass: data.seriesPass ?? false,
       sort_order: data.sortOrder
     };
     
@@ -326,20 +399,10 @@ export class TicketsSupabaseDB {
     if (tiersError) throw tiersError;
     
     // Get sold counts for each tier
-    const tiersWithCounts = await Promise.all((tiers || []).map(async (tier) => {
-      const { count, error: countError } = await this.client
-        .from('tickets_tickets')
-        .select('*', { count: 'exact', head: true })
-        .eq('tier_id', tier.id)
-        .in('status', ['valid', 'used']);
-      
-      if (countError) throw countError;
-      
-      return {
-        ...tier,
-        sold_count: count || 0
-      };
-    }));
+    const tiersWithCounts = await Promise.all((tiers || []).map(async (tier) => ({
+      ...tier,
+      sold_count: await this.countTierUnitsSold(tier)
+    })));
     
     return tiersWithCounts.map(toCamelCase);
   }
@@ -356,14 +419,64 @@ export class TicketsSupabaseDB {
   }
 
   async getTierSoldCount(tierId: string): Promise<number> {
-    const { count, error } = await this.client
+    const tier = await this.getTierProduct(tierId);
+    return tier ? this.countTierUnitsSold(tier) : 0;
+  }
+
+  private async getTierProduct(tierId: string): Promise<{ id: string; kind: string; tickets_per_unit: number; addon_fulfillment: string | null } | null> {
+    const { data, error } = await this.client
+      .from('tickets_tiers')
+      .select('id, kind, tickets_per_unit, addon_fulfillment')
+      .eq('id', tierId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Inventory units sold for a tier. Capacity counts units, so a bundle's
+   * tickets are divided back into bundles; add-ons don't issue tickets and are
+   * counted from their vouchers or paid order lines instead.
+   */
+  private async countTierUnitsSold(
+    tier: { id: string; kind?: string; tickets_per_unit?: number; addon_fulfillment?: string | null },
+    occurrenceId?: string
+  ): Promise<number> {
+    if (tier.kind === 'addon') {
+      if (tier.addon_fulfillment === 'voucher') {
+        const { count, error } = await this.client
+          .from('tickets_vouchers')
+          .select('*', { count: 'exact', head: true })
+          .eq('tier_id', tier.id)
+          .in('status', ['issued', 'redeemed']);
+        
+        if (error) throw error;
+        return count || 0;
+      }
+      
+      const { data, error } = await this.client
+        .from('tickets_order_items')
+        .select('quantity, order:tickets_orders!inner(status)')
+        .eq('tier_id', tier.id)
+        .in('tickets_orders.status', ['paid', 'partially_refunded']);
+      
+      if (error) throw error;
+      return (data || []).reduce((sum: number, item: any) => sum + item.quantity, 0);
+    }
+    
+    let query = this.client
       .from('tickets_tickets')
       .select('*', { count: 'exact', head: true })
-      .eq('tier_id', tierId)
+      .eq('tier_id', tier.id)
       .in('status', ['valid', 'used']);
+    if (occurrenceId) {
+      query = query.eq('occurrence_id', occurrenceId);
+    }
     
+    const { count, error } = await query;
     if (error) throw error;
-    return count || 0;
+    return Math.ceil((count || 0) / Math.max(1, tier.tickets_per_unit || 1));
   }
 
   // ============ ORDERS ============
@@ -550,6 +663,17 @@ export class TicketsSupabaseDB {
     return data ? data.map(ticket => toCamelCase(ticket)) : [];
   }
 
+  // Tickets transferred or resold to this email (holder emails are stored lowercased)
+  async getTicketsByHolderEmail(email: string): Promise<TicketsTicket[]> {
+    const { data, error } = await this.client
+      .from('tickets_tickets')
+      .select('*')
+      .eq('holder_email', email.trim().toLowerCase());
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
   async getTicketByQR(qrToken: string): Promise<TicketsTicket | null> {
     const { data, error } = await this.client
       .from('tickets_tickets')
@@ -589,6 +713,23 @@ export class TicketsSupabaseDB {
     return data ? toCamelCase(data) : null;
   }
 
+  // Orders that were paid for in [from, to), refunded or not, across a set of events
+  async getPaidOrdersForEvents(eventIds: string[], from: Date, to: Date): Promise<TicketsOrder[]> {
+    if (eventIds.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('tickets_orders')
+      .select('*')
+      .in('event_id', eventIds)
+      .in('status', ['paid', 'partially_refunded', 'refunded'])
+      .gte('placed_at', from.toISOString())
+      .lt('placed_at', to.toISOString())
+      .order('placed_at', { ascending: true });
+
+    if (error) throw error;
+    return data ? data.map(toCamelCase) : [];
+  }
+
   // ============ MISSING ADMIN FUNCTIONS ============
   async updateOrganizerStripeAccount(id: string, stripeAccountId: string): Promise<TicketsOrganizer> {
     const { data, error } = await this.client
@@ -737,23 +878,25 @@ export class TicketsSupabaseDB {
 
   // ============ INVENTORY MANAGEMENT ============
   async getTierSoldCount(tierId: string): Promise<number> {
-    const { data, error } = await this.client
-      .from('tickets_tickets')
-      .select('id', { count: 'exact' })
-      .eq('tier_id', tierId)
-      .in('status', ['valid', 'used']); // Count valid and used tickets as sold
-    
-    if (error) throw error;
-    return data?.length || 0;
+    // Counts valid and used tickets, in inventory units
+    const tier = await this.getTierProduct(tierId);
+    return tier ? this.countTierUnitsSold(tier) : 0;
   }
 
-  async getTierReservedCount(tierId: string): Promise<number> {
-    const { data, error } = await this.client
+  // With an occurrence, only holds on that date and holds not tied to any date
+  async getTierReservedCount(tierId: string, occurrenceId?: string): Promise<number> {
+    let query = this.client
       .from('tickets_capacity_reservations')
       .select('quantity')
       .eq('tier_id', tierId)
       .gt('expires_at', new Date().toISOString());
     
+    if (occurrenceId) {
+      query = query.or(`occurrence_id.is.null,occurrence_id.eq.${occurrenceId}`);
+    }
+    
+    const { data, error } = await query;
+    
     if (error && error.code !== 'PGRST116') throw error;
     return data?.reduce((sum, r) => sum + r.quantity, 0) || 0;
   }
@@ -763,6 +906,7 @@ export class TicketsSupabaseDB {
     quantity: number;
     reservationId: string;
     expiresAt: Date;
+    occurrenceId?: string | null;
   }): Promise<void> {
     const { error } = await this.client
       .from('tickets_capacity_reservations')
@@ -771,6 +915,7 @@ export class TicketsSupabaseDB {
         quantity: data.quantity,
         reservation_id: data.reservationId,
         expires_at: data.expiresAt.toISOString(),
+        occurrence_id: data.occurrenceId || null,
         created_at: new Date().toISOString()
       });
     
@@ -817,206 +962,1645 @@ export class TicketsSupabaseDB {
     if (error) throw error;
   }
 
-  // ============ DISCOUNTS ============
-  async getDiscountByCode(eventId: string, code: string): Promise<TicketsDiscount | null> {
+  async getCapacityReservation(reservationId: string): Promise<{ tierId: string; quantity: number; expiresAt: string; occurrenceId: string | null } | null> {
     const { data, error } = await this.client
-      .from('tickets_discounts')
+      .from('tickets_capacity_reservations')
       .select('*')
-      .eq('event_id', eventId)
-      .eq('code', code)
+      .eq('reservation_id', reservationId)
+      .gt('expires_at', new Date().toISOString())
       .single();
     
     if (error && error.code !== 'PGRST116') throw error;
-    return data;
+    return data ? toCamelCase(data) : null;
   }
 
-  async incrementDiscountUsage(discountId: string): Promise<void> {
-    const { error } = await this.client.rpc('increment', {
-      table_name: 'tickets_discounts',
-      column_name: 'uses_count',
-      row_id: discountId
-    });
+  // ============ WAITLIST ============
+  async createWaitlistEntry(data: InsertTicketsWaitlistEntry): Promise<TicketsWaitlistEntry> {
+    const { data: entry, error } = await this.client
+      .from('tickets_waitlist')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
     
-    // If RPC doesn't exist, fall back to manual update
-    if (error && error.code === 'PGRST202') {
-      const { data: discount } = await this.client
-        .from('tickets_discounts')
-        .select('uses_count')
-        .eq('id', discountId)
-        .single();
-      
-      if (discount) {
-        await this.client
-          .from('tickets_discounts')
-          .update({ uses_count: (discount.uses_count || 0) + 1 })
-          .eq('id', discountId);
-      }
-    } else if (error) {
-      throw error;
-    }
+    if (error) throw error;
+    return toCamelCase(entry);
   }
 
-  // ============ WEBHOOKS ============
-  async createWebhook(data: InsertTicketsWebhook): Promise<void> {
-    const { error } = await this.client
-      .from('tickets_webhooks')
-      .insert(data);
+  async getWaitlistEntryById(id: string): Promise<TicketsWaitlistEntry | null> {
+    const { data, error } = await this.client
+      .from('tickets_waitlist')
+      .select('*')
+      .eq('id', id)
+      .single();
     
-    if (error) throw error;
+    if (error && error.code !== 'PGRST116') throw error;
+    return data ? toCamelCase(data) : null;
   }
 
-  async markWebhookProcessed(id: string, error?: string): Promise<void> {
-    const { error: updateError } = await this.client
-      .from('tickets_webhooks')
-      .update({
-        processed: true,
-        processed_at: new Date().toISOString(),
-        error: error || null
-      })
-      .eq('id', id);
+  async getWaitlistEntryByToken(claimToken: string): Promise<TicketsWaitlistEntry | null> {
+    const { data, error } = await this.client
+      .from('tickets_waitlist')
+      .select('*')
+      .eq('claim_token', claimToken)
+      .single();
     
-    if (updateError) throw updateError;
+    if (error && error.code !== 'PGRST116') throw error;
+    return data ? toCamelCase(data) : null;
   }
 
-  // ============ AUDIT ============
-  async createAudit(data: InsertTicketsAudit): Promise<void> {
-    // Convert camelCase to snake_case for Supabase
-    const { error } = await this.client
-      .from('tickets_audit')
-      .insert({
-        actor_type: data.actorType,
-        actor_id: data.actorId,
-        action: data.action,
-        target_type: data.targetType,
-        target_id: data.targetId,
-        meta_json: data.metaJson,
-        ip_address: data.ipAddress,
-        user_agent: data.userAgent
-      });
+  async getWaitlistEntryByOrderId(orderId: string): Promise<TicketsWaitlistEntry | null> {
+    const { data, error } = await this.client
+      .from('tickets_waitlist')
+      .select('*')
+      .eq('order_id', orderId)
+      .maybeSingle();
     
     if (error) throw error;
+    return data ? toCamelCase(data) : null;
   }
 
-  // ============ LEDGER & PAYOUT SYSTEM ============
-  
-  // Ledger operations
-  async createLedgerEntry(data: {
-    organizerId: string;
-    orderId?: string;
-    payoutId?: string;
-    type: string;
-    amountCents: number;
-    currency?: string;
-    description?: string;
-  }): Promise<void> {
-    const { error } = await this.client
-      .from('tickets_ledger')
-      .insert({
-        organizer_id: data.organizerId,
-        order_id: data.orderId,
-        payout_id: data.payoutId,
-        type: data.type,
-        amount_cents: data.amountCents,
-        currency: data.currency || 'CAD',
-        description: data.description
-      });
+  async getWaitlistByEvent(eventId: string): Promise<TicketsWaitlistEntry[]> {
+    const { data, error } = await this.client
+      .from('tickets_waitlist')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('position', { ascending: true });
     
     if (error) throw error;
+    return (data || []).map(toCamelCase);
   }
 
-  async getLedgerEntryByOrderId(orderId: string): Promise<any | null> {
+  async getWaitlistByTier(tierId: string, statuses: string[]): Promise<TicketsWaitlistEntry[]> {
     const { data, error } = await this.client
-      .from('tickets_ledger')
+      .from('tickets_waitlist')
       .select('*')
-      .eq('order_id', orderId)
-      .single();
+      .eq('tier_id', tierId)
+      .in('status', statuses)
+      .order('position', { ascending: true });
     
-    if (error && error.code !== 'PGRST116') throw error;
-    return data;
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
   }
 
-  async getLedgerEntriesByOrganizer(organizerId: string): Promise<any[]> {
+  async getMaxWaitlistPosition(tierId: string): Promise<number> {
     const { data, error } = await this.client
-      .from('tickets_ledger')
+      .from('tickets_waitlist')
+      .select('position')
+      .eq('tier_id', tierId)
+      .order('position', { ascending: false })
+      .limit(1);
+    
+    if (error) throw error;
+    return data?.[0]?.position || 0;
+  }
+
+  async getExpiredWaitlistOffers(): Promise<TicketsWaitlistEntry[]> {
+    const { data, error } = await this.client
+      .from('tickets_waitlist')
       .select('*')
-      .eq('organizer_id', organizerId)
-      .order('created_at', { ascending: false });
+      .eq('status', 'offered')
+      .lt('offer_expires_at', new Date().toISOString());
     
     if (error) throw error;
-    return data || [];
+    return (data || []).map(toCamelCase);
   }
 
-  async getOrganizerBalance(organizerId: string): Promise<number> {
+  async getTiersWithWaitingEntries(): Promise<string[]> {
     const { data, error } = await this.client
-      .from('tickets_ledger')
-      .select('amount_cents')
-      .eq('organizer_id', organizerId)
-      .is('payout_id', null); // Only unpaid entries
+      .from('tickets_waitlist')
+      .select('tier_id')
+      .eq('status', 'waiting');
     
     if (error) throw error;
+    return Array.from(new Set((data || []).map((row: any) => row.tier_id as string)));
+  }
+
+  async updateWaitlistEntry(id: string, data: Partial<InsertTicketsWaitlistEntry>): Promise<TicketsWaitlistEntry> {
+    const { data: entry, error } = await this.client
+      .from('tickets_waitlist')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
     
-    return (data || []).reduce((sum, entry) => sum + entry.amount_cents, 0);
+    if (error) throw error;
+    return toCamelCase(entry);
   }
 
-  async getUnpaidLedgerEntries(organizerId: string): Promise<any[]> {
+  // ============ SEATING ============
+  async getSeatMapByEvent(eventId: string): Promise<TicketsSeatMap | null> {
     const { data, error } = await this.client
-      .from('tickets_ledger')
+      .from('tickets_seat_maps')
       .select('*')
-      .eq('organizer_id', organizerId)
-      .is('payout_id', null)
-      .order('created_at', { ascending: false });
+      .eq('event_id', eventId)
+      .maybeSingle();
     
     if (error) throw error;
-    return data || [];
+    return data ? toCamelCase(data) : null;
   }
 
-  // Payout operations - SECURE: Server-computed totals with atomic transactions
-  async createAndFinalizePayout(data: {
-    organizerId: string;
-    periodStart: string;
-    periodEnd: string;
-    method: string;
-    reference?: string;
-    notes?: string;
-  }): Promise<any> {
-    // Check for existing payouts for this organizer and period to prevent duplicates
-    const { data: existingPayouts, error: duplicateError } = await this.client
-      .from('tickets_payouts')
-      .select('id, status')
-      .eq('organizer_id', data.organizerId)
-      .eq('period_start', data.periodStart.split('T')[0])
-      .eq('period_end', data.periodEnd.split('T')[0])
-      .in('status', ['draft', 'ready', 'paid']);
+  async createSeatMap(data: InsertTicketsSeatMap): Promise<TicketsSeatMap> {
+    const { data: seatMap, error } = await this.client
+      .from('tickets_seat_maps')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
     
-    if (duplicateError) throw duplicateError;
+    if (error) throw error;
+    return toCamelCase(seatMap);
+  }
+
+  async updateSeatMap(id: string, data: Partial<InsertTicketsSeatMap>): Promise<TicketsSeatMap> {
+    const { data: seatMap, error } = await this.client
+      .from('tickets_seat_maps')
+      .update({ ...toSnakeCase(data), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
     
-    if (existingPayouts && existingPayouts.length > 0) {
-      throw new Error(`Payout already exists for organizer ${data.organizerId} for period ${data.periodStart.split('T')[0]} to ${data.periodEnd.split('T')[0]}. Status: ${existingPayouts[0].status}`);
-    }
+    if (error) throw error;
+    return toCamelCase(seatMap);
+  }
+
+  async deleteSeatMap(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_seat_maps')
+      .delete()
+      .eq('id', id);
     
-    // Start transaction by computing unpaid ledger entries for the period
-    const { data: unpaidEntries, error: ledgerError } = await this.client
-      .from('tickets_ledger')
-      .select('*')
-      .eq('organizer_id', data.organizerId)
-      .is('payout_id', null) // Only unpaid entries
-      .gte('created_at', data.periodStart)
-      .lte('created_at', data.periodEnd);
+    if (error) throw error;
+  }
+
+  async createSeats(seats: InsertTicketsSeat[]): Promise<void> {
+    if (seats.length === 0) return;
     
-    if (ledgerError) throw ledgerError;
+    const { error } = await this.client
+      .from('tickets_seats')
+      .insert(seats.map(toSnakeCase));
     
-    if (!unpaidEntries || unpaidEntries.length === 0) {
-      throw new Error('No unpaid ledger entries found for the specified period');
-    }
+    if (error) throw error;
+  }
+
+  async deleteSeatsByMap(seatMapId: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_seats')
+      .delete()
+      .eq('seat_map_id', seatMapId);
     
-    // Server-computed total - SECURE
-    const totalCents = unpaidEntries.reduce((sum, entry) => sum + entry.amount_cents, 0);
+    if (error) throw error;
+  }
+
+  async getSeatsByEvent(eventId: string): Promise<TicketsSeat[]> {
+    const { data, error } = await this.client
+      .from('tickets_seats')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('sort_order', { ascending: true });
     
-    if (totalCents <= 0) {
-      throw new Error('No positive balance to pay out');
-    }
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getSeatsByIds(seatIds: string[]): Promise<TicketsSeat[]> {
+    if (seatIds.length === 0) return [];
     
-    // Create payout record
+    const { data, error } = await this.client
+      .from('tickets_seats')
+      .select('*')
+      .in('id', seatIds);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getSeatsByHold(holdReservationId: string): Promise<TicketsSeat[]> {
+    const { data, error } = await this.client
+      .from('tickets_seats')
+      .select('*')
+      .eq('hold_reservation_id', holdReservationId)
+      .order('sort_order', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async countUnavailableSeats(seatMapId: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('tickets_seats')
+      .select('id', { count: 'exact', head: true })
+      .eq('seat_map_id', seatMapId)
+      .or(`status.eq.sold,and(status.eq.held,held_until.gt.${new Date().toISOString()})`);
+    
+    if (error) throw error;
+    return count || 0;
+  }
+
+  // Conditional update so two buyers can't hold the same seat: only seats that are
+  // free (or whose hold has lapsed) are claimed. Returns the seats actually held.
+  async holdSeats(seatIds: string[], holdReservationId: string, heldUntil: Date): Promise<TicketsSeat[]> {
+    const { data, error } = await this.client
+      .from('tickets_seats')
+      .update({
+        status: 'held',
+        hold_reservation_id: holdReservationId,
+        held_until: heldUntil.toISOString()
+      })
+      .in('id', seatIds)
+      .or(`status.eq.available,and(status.eq.held,held_until.lt.${new Date().toISOString()})`)
+      .select();
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async releaseSeatHold(holdReservationId: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_seats')
+      .update({ status: 'available', hold_reservation_id: null, held_until: null })
+      .eq('hold_reservation_id', holdReservationId)
+      .eq('status', 'held');
+    
+    if (error) throw error;
+  }
+
+  async markSeatSold(seatId: string, ticketId: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_seats')
+      .update({ status: 'sold', ticket_id: ticketId, hold_reservation_id: null, held_until: null })
+      .eq('id', seatId);
+    
+    if (error) throw error;
+  }
+
+  async releaseSeatsForTickets(ticketIds: string[]): Promise<void> {
+    if (ticketIds.length === 0) return;
+    
+    const { error } = await this.client
+      .from('tickets_seats')
+      .update({ status: 'available', ticket_id: null, hold_reservation_id: null, held_until: null })
+      .in('ticket_id', ticketIds)
+      .eq('status', 'sold');
+    
+    if (error) throw error;
+  }
+
+  // ============ GATES & SCANNERS ============
+  async getGatesByEvent(eventId: string): Promise<TicketsEventGate[]> {
+    const { data, error } = await this.client
+      .from('tickets_event_gates')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getGateById(id: string): Promise<TicketsEventGate | null> {
+    const { data, error } = await this.client
+      .from('tickets_event_gates')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async createGate(data: InsertTicketsEventGate): Promise<TicketsEventGate> {
+    const { data: gate, error } = await this.client
+      .from('tickets_event_gates')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(gate);
+  }
+
+  async deleteGate(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_event_gates')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  }
+
+  async getScannersByEvent(eventId: string): Promise<TicketsScanner[]> {
+    const { data, error } = await this.client
+      .from('tickets_scanners')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getScannerById(id: string): Promise<TicketsScanner | null> {
+    const { data, error } = await this.client
+      .from('tickets_scanners')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getScannerByAccessCodeHash(accessCodeHash: string): Promise<TicketsScanner | null> {
+    const { data, error } = await this.client
+      .from('tickets_scanners')
+      .select('*')
+      .eq('access_code_hash', accessCodeHash)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async createScanner(data: InsertTicketsScanner): Promise<TicketsScanner> {
+    const { data: scanner, error } = await this.client
+      .from('tickets_scanners')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(scanner);
+  }
+
+  async updateScanner(id: string, data: Partial<InsertTicketsScanner>): Promise<TicketsScanner> {
+    const { data: scanner, error } = await this.client
+      .from('tickets_scanners')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(scanner);
+  }
+
+  async getCheckinDevice(eventId: string, deviceId: string): Promise<TicketsCheckinDevice | null> {
+    const { data, error } = await this.client
+      .from('tickets_checkin_devices')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('device_id', deviceId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async upsertCheckinDevice(data: InsertTicketsCheckinDevice): Promise<TicketsCheckinDevice> {
+    const { data: device, error } = await this.client
+      .from('tickets_checkin_devices')
+      .upsert(toSnakeCase(data), { onConflict: 'event_id,device_id' })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(device);
+  }
+
+  // Checked-in tickets with where and by whom, for per-gate throughput
+  async getEventCheckIns(eventId: string): Promise<Array<{ ticketId: string; gateId: string | null; scannerId: string | null; usedAt: string }>> {
+    const { data, error } = await this.client
+      .from('tickets_tickets')
+      .select(`
+        id,
+        gate_id,
+        scanner_id,
+        used_at,
+        tier:tickets_tiers!inner(event_id)
+      `)
+      .eq('tickets_tiers.event_id', eventId)
+      .eq('status', 'used')
+      .not('used_at', 'is', null);
+    
+    if (error) throw error;
+    return (data || []).map((item: any) => ({
+      ticketId: item.id,
+      gateId: item.gate_id,
+      scannerId: item.scanner_id,
+      usedAt: item.used_at
+    }));
+  }
+
+  // ============ DISCOUNTS ============
+  async getDiscountsByEvent(eventId: string): Promise<TicketsDiscount[]> {
+    const { data, error } = await this.client
+      .from('tickets_discounts')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getDiscountById(id: string): Promise<TicketsDiscount | null> {
+    const { data, error } = await this.client
+      .from('tickets_discounts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getDiscountByCode(eventId: string, code: string): Promise<TicketsDiscount | null> {
+    const { data, error } = await this.client
+      .from('tickets_discounts')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('code', code)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getExistingDiscountCodes(eventId: string, codes: string[]): Promise<string[]> {
+    if (codes.length === 0) return [];
+    
+    const { data, error } = await this.client
+      .from('tickets_discounts')
+      .select('code')
+      .eq('event_id', eventId)
+      .in('code', codes);
+    
+    if (error) throw error;
+    return (data || []).map((row: any) => row.code);
+  }
+
+  async createDiscounts(data: InsertTicketsDiscount[]): Promise<TicketsDiscount[]> {
+    const { data: discounts, error } = await this.client
+      .from('tickets_discounts')
+      .insert(toSnakeCase(data))
+      .select();
+    
+    if (error) throw error;
+    return (discounts || []).map(toCamelCase);
+  }
+
+  async updateDiscount(id: string, data: Partial<InsertTicketsDiscount>): Promise<TicketsDiscount> {
+    const { data: discount, error } = await this.client
+      .from('tickets_discounts')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(discount);
+  }
+
+  async deleteDiscount(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_discounts')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  }
+
+  /**
+   * Count one use of a discount against a paid order. Returns false if the
+   * code has no uses left; redeeming the same order twice is a no-op.
+   */
+  async redeemDiscount(discountId: string, orderId: string, heldUntil: Date | null = null): Promise<boolean> {
+    const { data, error } = await this.client.rpc('redeem_ticket_discount', {
+      p_discount_id: discountId,
+      p_order_id: orderId,
+      p_held_until: heldUntil ? heldUntil.toISOString() : null
+    });
+    
+    // A concurrent call already recorded this order
+    if (error && error.code === '23505') return true;
+    if (error) throw error;
+    return data === true;
+  }
+
+  async releaseDiscountHold(orderId: string): Promise<boolean> {
+    const { data, error } = await this.client.rpc('release_ticket_discount', {
+      p_order_id: orderId
+    });
+    
+    if (error) throw error;
+    return data === true;
+  }
+
+  async releaseExpiredDiscountHolds(discountId: string): Promise<number> {
+    const { data, error } = await this.client.rpc('release_expired_ticket_discount_holds', {
+      p_discount_id: discountId
+    });
+    
+    if (error) throw error;
+    return data || 0;
+  }
+
+  // ============ OCCURRENCES ============
+  async getOccurrencesByEvent(eventId: string): Promise<TicketsEventOccurrence[]> {
+    const { data, error } = await this.client
+      .from('tickets_event_occurrences')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('start_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getOccurrenceById(id: string): Promise<TicketsEventOccurrence | null> {
+    const { data, error } = await this.client
+      .from('tickets_event_occurrences')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  // Dates the event already has are skipped
+  async createOccurrences(data: InsertTicketsEventOccurrence[]): Promise<TicketsEventOccurrence[]> {
+    if (data.length === 0) return [];
+    
+    const { data: occurrences, error } = await this.client
+      .from('tickets_event_occurrences')
+      .upsert(toSnakeCase(data), { onConflict: 'event_id,start_at', ignoreDuplicates: true })
+      .select();
+    
+    if (error) throw error;
+    return (occurrences || []).map(toCamelCase);
+  }
+
+  async updateOccurrence(id: string, data: Partial<InsertTicketsEventOccurrence>): Promise<TicketsEventOccurrence> {
+    const { data: occurrence, error } = await this.client
+      .from('tickets_event_occurrences')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(occurrence);
+  }
+
+  async deleteOccurrence(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_event_occurrences')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  }
+
+  async getTierOccurrenceSoldCount(tierId: string, occurrenceId: string): Promise<number> {
+    const tier = await this.getTierProduct(tierId);
+    return tier ? this.countTierUnitsSold(tier, occurrenceId) : 0;
+  }
+
+  // Sold tickets with their occurrence, for per-date sales and check-in numbers
+  async getOccurrenceTicketCounts(eventId: string): Promise<Array<{ occurrenceId: string | null; tierId: string; status: string }>> {
+    const { data, error } = await this.client
+      .from('tickets_tickets')
+      .select(`
+        occurrence_id,
+        tier_id,
+        status,
+        tier:tickets_tiers!inner(event_id)
+      `)
+      .eq('tickets_tiers.event_id', eventId)
+      .in('status', ['valid', 'used']);
+    
+    if (error) throw error;
+    return (data || []).map((item: any) => ({
+      occurrenceId: item.occurrence_id,
+      tierId: item.tier_id,
+      status: item.status
+    }));
+  }
+
+  async countOccurrenceOrders(occurrenceId: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('tickets_orders')
+      .select('*', { count: 'exact', head: true })
+      .eq('occurrence_id', occurrenceId)
+      .in('status', ['pending', 'paid', 'partially_refunded']);
+    
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async getOccurrenceCheckins(occurrenceIds: string[]): Promise<TicketsOccurrenceCheckin[]> {
+    if (occurrenceIds.length === 0) return [];
+    
+    const { data, error } = await this.client
+      .from('tickets_occurrence_checkins')
+      .select('*')
+      .in('occurrence_id', occurrenceIds);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getOccurrenceCheckin(ticketId: string, occurrenceId: string): Promise<TicketsOccurrenceCheckin | null> {
+    const { data, error } = await this.client
+      .from('tickets_occurrence_checkins')
+      .select('*')
+      .eq('ticket_id', ticketId)
+      .eq('occurrence_id', occurrenceId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getOccurrenceCheckinsByTicket(ticketId: string): Promise<TicketsOccurrenceCheckin[]> {
+    const { data, error } = await this.client
+      .from('tickets_occurrence_checkins')
+      .select('*')
+      .eq('ticket_id', ticketId);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  /**
+   * Record a series pass check-in. Returns null if the pass was already
+   * checked in for that occurrence.
+   */
+  async createOccurrenceCheckin(data: InsertTicketsOccurrenceCheckin): Promise<TicketsOccurrenceCheckin | null> {
+    const { data: checkin, error } = await this.client
+      .from('tickets_occurrence_checkins')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error && error.code === '23505') return null;
+    if (error) throw error;
+    return toCamelCase(checkin);
+  }
+
+  async updateOccurrenceCheckin(id: string, data: Partial<InsertTicketsOccurrenceCheckin>): Promise<TicketsOccurrenceCheckin> {
+    const { data: checkin, error } = await this.client
+      .from('tickets_occurrence_checkins')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(checkin);
+  }
+
+  // ============ PROMOTERS ============
+  async getPromotersByEvent(eventId: string): Promise<TicketsPromoter[]> {
+    const { data, error } = await this.client
+      .from('tickets_promoters')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getPromoterById(id: string): Promise<TicketsPromoter | null> {
+    const { data, error } = await this.client
+      .from('tickets_promoters')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getPromoterByRefCode(eventId: string, refCode: string): Promise<TicketsPromoter | null> {
+    const { data, error } = await this.client
+      .from('tickets_promoters')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('ref_code', refCode)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getPromoterByViewToken(viewToken: string): Promise<TicketsPromoter | null> {
+    const { data, error } = await this.client
+      .from('tickets_promoters')
+      .select('*')
+      .eq('view_token', viewToken)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async createPromoter(data: InsertTicketsPromoter): Promise<TicketsPromoter> {
+    const { data: promoter, error } = await this.client
+      .from('tickets_promoters')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(promoter);
+  }
+
+  async updatePromoter(id: string, data: Partial<InsertTicketsPromoter>): Promise<TicketsPromoter> {
+    const { data: promoter, error } = await this.client
+      .from('tickets_promoters')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(promoter);
+  }
+
+  async deletePromoter(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_promoters')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  }
+
+  // Paid orders that came through a promoter link, with their ticket counts
+  async getPromoterOrders(eventId: string, promoterId?: string): Promise<Array<{
+    orderId: string;
+    promoterId: string;
+    status: string;
+    subtotalCents: number;
+    discountAmountCents: number;
+    totalCents: number;
+    refundedAmountCents: number;
+    items: Array<{ quantity: number; kind: string; ticketsPerUnit: number }>;
+    placedAt: string | null;
+  }>> {
+    let query = this.client
+      .from('tickets_orders')
+      .select(`
+        id,
+        promoter_id,
+        status,
+        subtotal_cents,
+        discount_amount_cents,
+        total_cents,
+        refunded_amount_cents,
+        placed_at,
+        items:tickets_order_items(quantity, tier:tickets_tiers(kind, tickets_per_unit))
+      `)
+      .eq('event_id', eventId)
+      .in('status', ['paid', 'partially_refunded']);
+    
+    query = promoterId ? query.eq('promoter_id', promoterId) : query.not('promoter_id', 'is', null);
+    
+    const { data, error } = await query;
+    
+    if (error) throw error;
+    return (data || []).map((order: any) => ({
+      orderId: order.id,
+      promoterId: order.promoter_id,
+      status: order.status,
+      subtotalCents: order.subtotal_cents,
+      discountAmountCents: order.discount_amount_cents || 0,
+      totalCents: order.total_cents,
+      refundedAmountCents: order.refunded_amount_cents || 0,
+      items: (order.items || []).map((item: any) => ({
+        quantity: item.quantity,
+        kind: item.tier?.kind || 'ticket',
+        ticketsPerUnit: item.tier?.tickets_per_unit ?? 1
+      })),
+      placedAt: order.placed_at
+    }));
+  }
+
+  // ============ QUESTIONS ============
+  async getQuestionsByEvent(eventId: string): Promise<TicketsEventQuestion[]> {
+    const { data, error } = await this.client
+      .from('tickets_event_questions')
+      .select('*')
+      .eq('event_id', eventId)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getQuestionById(id: string): Promise<TicketsEventQuestion | null> {
+    const { data, error } = await this.client
+      .from('tickets_event_questions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async createQuestion(data: InsertTicketsEventQuestion): Promise<TicketsEventQuestion> {
+    const { data: question, error } = await this.client
+      .from('tickets_event_questions')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(question);
+  }
+
+  async updateQuestion(id: string, data: Partial<InsertTicketsEventQuestion>): Promise<TicketsEventQuestion> {
+    const { data: question, error } = await this.client
+      .from('tickets_event_questions')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(question);
+  }
+
+  async deleteQuestion(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_event_questions')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  }
+
+  async countQuestionAnswers(questionId: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('tickets_order_answers')
+      .select('*', { count: 'exact', head: true })
+      .eq('question_id', questionId);
+    
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async createOrderAnswers(rows: InsertTicketsOrderAnswer[]): Promise<void> {
+    if (rows.length === 0) return;
+    const { error } = await this.client
+      .from('tickets_order_answers')
+      .insert(rows.map(toSnakeCase));
+    
+    if (error) throw error;
+  }
+
+  async getOrderAnswers(orderId: string): Promise<TicketsOrderAnswer[]> {
+    const { data, error } = await this.client
+      .from('tickets_order_answers')
+      .select('*')
+      .eq('order_id', orderId);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getAnswersByEvent(eventId: string): Promise<TicketsOrderAnswer[]> {
+    const { data, error } = await this.client
+      .from('tickets_order_answers')
+      .select(`
+        *,
+        order:tickets_orders!inner(event_id)
+      `)
+      .eq('tickets_orders.event_id', eventId);
+    
+    if (error) throw error;
+    return (data || []).map(({ order, ...answer }: any) => toCamelCase(answer));
+  }
+
+  async setAnswerTicket(id: string, ticketId: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_order_answers')
+      .update({ ticket_id: ticketId })
+      .eq('id', id);
+    
+    if (error) throw error;
+  }
+
+  // ============ VOUCHERS ============
+  async createVouchers(rows: InsertTicketsVoucher[]): Promise<TicketsVoucher[]> {
+    if (rows.length === 0) return [];
+    const { data, error } = await this.client
+      .from('tickets_vouchers')
+      .insert(rows.map(toSnakeCase))
+      .select();
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getVouchersByOrder(orderId: string): Promise<TicketsVoucher[]> {
+    const { data, error } = await this.client
+      .from('tickets_vouchers')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getVouchersByEvent(eventId: string): Promise<Array<TicketsVoucher & { tierName: string; buyerName: string | null; buyerEmail: string }>> {
+    const { data, error } = await this.client
+      .from('tickets_vouchers')
+      .select(`
+        *,
+        tier:tickets_tiers!inner(name, event_id),
+        order:tickets_orders(buyer_name, buyer_email)
+      `)
+      .eq('tickets_tiers.event_id', eventId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    return (data || []).map(({ tier, order, ...voucher }: any) => ({
+      ...toCamelCase(voucher),
+      tierName: tier?.name,
+      buyerName: order?.buyer_name ?? null,
+      buyerEmail: order?.buyer_email
+    }));
+  }
+
+  async getVoucherByCode(code: string): Promise<TicketsVoucher | null> {
+    const { data, error } = await this.client
+      .from('tickets_vouchers')
+      .select('*')
+      .eq('code', code)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  // Only an issued voucher can be redeemed, so two scans of one code can't both succeed
+  async redeemVoucher(id: string, redeemedBy: string): Promise<TicketsVoucher | null> {
+    const { data, error } = await this.client
+      .from('tickets_vouchers')
+      .update({ status: 'redeemed', redeemed_at: new Date().toISOString(), redeemed_by: redeemedBy })
+      .eq('id', id)
+      .eq('status', 'issued')
+      .select()
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async voidVouchersByOrder(orderId: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_vouchers')
+      .update({ status: 'void' })
+      .eq('order_id', orderId)
+      .eq('status', 'issued');
+    
+    if (error) throw error;
+  }
+
+  // ============ RESALE ============
+  async createResaleListing(data: InsertTicketsResaleListing): Promise<TicketsResaleListing> {
+    const { data: listing, error } = await this.client
+      .from('tickets_resale_listings')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(listing);
+  }
+
+  async getResaleListingById(id: string): Promise<TicketsResaleListing | null> {
+    const { data, error } = await this.client
+      .from('tickets_resale_listings')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getOpenResaleListingByTicket(ticketId: string): Promise<TicketsResaleListing | null> {
+    const { data, error } = await this.client
+      .from('tickets_resale_listings')
+      .select('*')
+      .eq('ticket_id', ticketId)
+      .in('status', ['active', 'pending'])
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  // Listings a fan can buy right now: active, or held for a buyer who never finished paying
+  async getAvailableResaleListings(eventId: string): Promise<Array<TicketsResaleListing & { tierId: string; tierName: string; seatLabel: string | null; occurrenceId: string | null }>> {
+    const { data, error } = await this.client
+      .from('tickets_resale_listings')
+      .select(`
+        *,
+        ticket:tickets_tickets(tier_id, seat_label, occurrence_id, tier:tickets_tiers(name))
+      `)
+      .eq('event_id', eventId)
+      .or(`status.eq.active,and(status.eq.pending,pending_until.lt.${new Date().toISOString()})`)
+      .order('price_cents', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(({ ticket, ...listing }: any) => ({
+      ...toCamelCase(listing),
+      tierId: ticket?.tier_id,
+      tierName: ticket?.tier?.name,
+      seatLabel: ticket?.seat_label ?? null,
+      occurrenceId: ticket?.occurrence_id ?? null
+    }));
+  }
+
+  // Hold a listing for one buyer while they pay; fails if someone else got there first
+  async claimResaleListing(id: string, hold: { buyerEmail: string; buyerName: string | null; pendingUntil: Date }): Promise<TicketsResaleListing | null> {
+    const { data, error } = await this.client
+      .from('tickets_resale_listings')
+      .update({
+        status: 'pending',
+        buyer_email: hold.buyerEmail,
+        buyer_name: hold.buyerName,
+        pending_until: hold.pendingUntil.toISOString(),
+        stripe_payment_intent_id: null
+      })
+      .eq('id', id)
+      .or(`status.eq.active,and(status.eq.pending,pending_until.lt.${new Date().toISOString()})`)
+      .select()
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async updateResaleListing(id: string, data: Partial<InsertTicketsResaleListing>): Promise<TicketsResaleListing> {
+    const { data: listing, error } = await this.client
+      .from('tickets_resale_listings')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(listing);
+  }
+
+  // Payment for a held listing failed or was abandoned - put it back on sale
+  async releaseResaleListing(id: string, paymentIntentId: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_resale_listings')
+      .update({ status: 'active', buyer_email: null, buyer_name: null, pending_until: null, stripe_payment_intent_id: null })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .eq('stripe_payment_intent_id', paymentIntentId);
+    
+    if (error) throw error;
+  }
+
+  // The sale a ticket came from, if its holder bought it on resale
+  async getResaleListingByNewTicket(ticketId: string): Promise<TicketsResaleListing | null> {
+    const { data, error } = await this.client
+      .from('tickets_resale_listings')
+      .select('*')
+      .eq('new_ticket_id', ticketId)
+      .eq('status', 'sold')
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getSoldResaleListingsByOrder(orderId: string): Promise<TicketsResaleListing[]> {
+    const { data, error } = await this.client
+      .from('tickets_resale_listings')
+      .select('*')
+      .eq('seller_order_id', orderId)
+      .eq('status', 'sold');
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // ============ REFUND REQUESTS ============
+  async createRefundRequest(data: InsertTicketsRefundRequest): Promise<TicketsRefundRequest> {
+    const { data: request, error } = await this.client
+      .from('tickets_refund_requests')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(request);
+  }
+
+  async getRefundRequestById(id: string): Promise<TicketsRefundRequest | null> {
+    const { data, error } = await this.client
+      .from('tickets_refund_requests')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getRefundRequestsByOrder(orderId: string): Promise<TicketsRefundRequest[]> {
+    const { data, error } = await this.client
+      .from('tickets_refund_requests')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // Organizer queue, oldest first so nobody waits longest
+  async getRefundRequestsByEvent(eventId: string, status?: string): Promise<Array<TicketsRefundRequest & { buyerName: string | null; orderTotalCents: number }>> {
+    let query = this.client
+      .from('tickets_refund_requests')
+      .select(`
+        *,
+        order:tickets_orders(buyer_name, total_cents)
+      `)
+      .eq('event_id', eventId)
+      .order('created_at', { ascending: true });
+    
+    if (status) {
+      query = query.eq('status', status);
+    }
+    
+    const { data, error } = await query;
+    
+    if (error) throw error;
+    return (data || []).map(({ order, ...request }: any) => ({
+      ...toCamelCase(request),
+      buyerName: order?.buyer_name ?? null,
+      orderTotalCents: order?.total_cents ?? 0
+    }));
+  }
+
+  // Record a decision, only if nobody has decided the request already
+  async decideRefundRequest(id: string, data: Partial<InsertTicketsRefundRequest>): Promise<TicketsRefundRequest | null> {
+    const { data: request, error } = await this.client
+      .from('tickets_refund_requests')
+      .update(toSnakeCase({ ...data, decidedAt: new Date() }))
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+    
+    if (error) throw error;
+    return request ? toCamelCase(request) : null;
+  }
+
+  async updateRefundRequest(id: string, data: Partial<InsertTicketsRefundRequest>): Promise<TicketsRefundRequest> {
+    const { data: request, error } = await this.client
+      .from('tickets_refund_requests')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(request);
+  }
+
+  // ============ WALLET PASSES ============
+  // A device re-registering a pass just refreshes its push token
+  async upsertWalletRegistration(data: InsertTicketsWalletRegistration): Promise<TicketsWalletRegistration> {
+    const { data: registration, error } = await this.client
+      .from('tickets_wallet_registrations')
+      .upsert(toSnakeCase(data), { onConflict: 'device_library_id,ticket_id' })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(registration);
+  }
+
+  async deleteWalletRegistration(deviceLibraryId: string, ticketId: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_wallet_registrations')
+      .delete()
+      .eq('device_library_id', deviceLibraryId)
+      .eq('ticket_id', ticketId);
+    
+    if (error) throw error;
+  }
+
+  async getWalletRegistrationsByDevice(deviceLibraryId: string, passTypeId: string): Promise<TicketsWalletRegistration[]> {
+    const { data, error } = await this.client
+      .from('tickets_wallet_registrations')
+      .select('*')
+      .eq('device_library_id', deviceLibraryId)
+      .eq('pass_type_id', passTypeId);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getWalletRegistrationsByTickets(ticketIds: string[]): Promise<TicketsWalletRegistration[]> {
+    if (ticketIds.length === 0) return [];
+    const { data, error } = await this.client
+      .from('tickets_wallet_registrations')
+      .select('*')
+      .in('ticket_id', ticketIds);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getWalletRegistrationsByEvent(eventId: string): Promise<TicketsWalletRegistration[]> {
+    const { data, error } = await this.client
+      .from('tickets_wallet_registrations')
+      .select('*')
+      .eq('event_id', eventId);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // ============ ORGANIZER WEBHOOKS & API KEYS ============
+  async createOrganizerWebhook(data: InsertTicketsOrganizerWebhook): Promise<TicketsOrganizerWebhook> {
+    const { data: webhook, error } = await this.client
+      .from('tickets_organizer_webhooks')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(webhook);
+  }
+
+  async getOrganizerWebhookById(id: string): Promise<TicketsOrganizerWebhook | null> {
+    const { data, error } = await this.client
+      .from('tickets_organizer_webhooks')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getOrganizerWebhooks(organizerId: string): Promise<TicketsOrganizerWebhook[]> {
+    const { data, error } = await this.client
+      .from('tickets_organizer_webhooks')
+      .select('*')
+      .eq('organizer_id', organizerId)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // Active endpoints subscribed to an event type
+  async getOrganizerWebhooksForEvent(organizerId: string, eventType: string): Promise<TicketsOrganizerWebhook[]> {
+    const { data, error } = await this.client
+      .from('tickets_organizer_webhooks')
+      .select('*')
+      .eq('organizer_id', organizerId)
+      .eq('is_active', true)
+      .contains('event_types', [eventType]);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async updateOrganizerWebhook(id: string, data: Partial<InsertTicketsOrganizerWebhook>): Promise<TicketsOrganizerWebhook> {
+    const { data: webhook, error } = await this.client
+      .from('tickets_organizer_webhooks')
+      .update(toSnakeCase({ ...data, updatedAt: new Date() }))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(webhook);
+  }
+
+  async deleteOrganizerWebhook(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_organizer_webhooks')
+      .delete()
+      .eq('id', id);
+    
+    if (error) throw error;
+  }
+
+  async createWebhookDelivery(data: InsertTicketsWebhookDelivery): Promise<TicketsWebhookDelivery> {
+    const { data: delivery, error } = await this.client
+      .from('tickets_webhook_deliveries')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(delivery);
+  }
+
+  async getWebhookDeliveryById(id: string): Promise<TicketsWebhookDelivery | null> {
+    const { data, error } = await this.client
+      .from('tickets_webhook_deliveries')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  // Delivery log, newest first
+  async getWebhookDeliveries(webhookId: string, limit = 50): Promise<TicketsWebhookDelivery[]> {
+    const { data, error } = await this.client
+      .from('tickets_webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getDueWebhookDeliveries(limit = 50): Promise<TicketsWebhookDelivery[]> {
+    const { data, error } = await this.client
+      .from('tickets_webhook_deliveries')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // Push a due delivery's next attempt out to leaseUntil, only if nobody else has picked it up
+  async claimWebhookDelivery(id: string, leaseUntil: Date): Promise<TicketsWebhookDelivery | null> {
+    const { data, error } = await this.client
+      .from('tickets_webhook_deliveries')
+      .update({ next_attempt_at: leaseUntil.toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .select()
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<InsertTicketsWebhookDelivery>): Promise<TicketsWebhookDelivery> {
+    const { data: delivery, error } = await this.client
+      .from('tickets_webhook_deliveries')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(delivery);
+  }
+
+  async createApiKey(data: InsertTicketsApiKey): Promise<TicketsApiKey> {
+    const { data: apiKey, error } = await this.client
+      .from('tickets_api_keys')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(apiKey);
+  }
+
+  async getApiKeysByOrganizer(organizerId: string): Promise<TicketsApiKey[]> {
+    const { data, error } = await this.client
+      .from('tickets_api_keys')
+      .select('*')
+      .eq('organizer_id', organizerId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<TicketsApiKey | null> {
+    const { data, error } = await this.client
+      .from('tickets_api_keys')
+      .select('*')
+      .eq('key_hash', keyHash)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async updateApiKey(id: string, data: Partial<InsertTicketsApiKey>): Promise<TicketsApiKey> {
+    const { data: apiKey, error } = await this.client
+      .from('tickets_api_keys')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(apiKey);
+  }
+
+  // ============ WEBHOOKS ============
+  async createWebhook(data: InsertTicketsWebhook): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_webhooks')
+      .insert(data);
+    
+    if (error) throw error;
+  }
+
+  async markWebhookProcessed(id: string, error?: string): Promise<void> {
+    const { error: updateError } = await this.client
+      .from('tickets_webhooks')
+      .update({
+        processed: true,
+        processed_at: new Date().toISOString(),
+        error: error || null
+      })
+      .eq('id', id);
+    
+    if (updateError) throw updateError;
+  }
+
+  // ============ AUDIT ============
+  async createAudit(data: InsertTicketsAudit): Promise<void> {
+    // Convert camelCase to snake_case for Supabase
+    const { error } = await this.client
+      .from('tickets_audit')
+      .insert({
+        actor_type: data.actorType,
+        actor_id: data.actorId,
+        action: data.action,
+        target_type: data.targetType,
+        target_id: data.targetId,
+        meta_json: data.metaJson,
+        ip_address: data.ipAddress,
+        user_agent: data.userAgent
+      });
+    
+    if (error) throw error;
+  }
+
+  async getAuditEntries(targetType: string, targetIds: string[]): Promise<TicketsAudit[]> {
+    if (targetIds.length === 0) return [];
+    const { data, error } = await this.client
+      .from('tickets_audit')
+      .select('*')
+      .eq('target_type', targetType)
+      .in('target_id', targetIds)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // ============ LEDGER & PAYOUT SYSTEM ============
+  
+  // Ledger operations
+  async createLedgerEntry(data: {
+    organizerId: string;
+    orderId?: string;
+    payoutId?: string;
+    type: string;
+    amountCents: number;
+    currency?: string;
+    description?: string;
+  }): Promise<void> {
+    const { error } = await this.client
+      .from('tickets_ledger')
+      .insert({
+        organizer_id: data.organizerId,
+        order_id: data.orderId,
+        payout_id: data.payoutId,
+        type: data.type,
+        amount_cents: data.amountCents,
+        currency: data.currency || 'CAD',
+        description: data.description
+      });
+    
+    if (error) throw error;
+  }
+
+  async getLedgerEntryByOrderId(orderId: string): Promise<any | null> {
+    const { data, error } = await this.client
+      .from('tickets_ledger')
+      .select('*')
+      .eq('order_id', orderId)
+      .single();
+    
+    if (error && error.code !== 'PGRST116') throw error;
+    return data;
+  }
+
+  async getLedgerEntriesByOrganizer(organizerId: string): Promise<TicketsLedger[]> {
+    const { data, error } = await this.client
+      .from('tickets_ledger')
+      .select('*')
+      .eq('organizer_id', organizerId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getOrganizerBalance(organizerId: string): Promise<number> {
+    const { data, error } = await this.client
+      .from('tickets_ledger')
+      .select('amount_cents')
+      .eq('organizer_id', organizerId)
+      .is('payout_id', null); // Only unpaid entries
+    
+    if (error) throw error;
+    
+    return (data || []).reduce((sum, entry) => sum + entry.amount_cents, 0);
+  }
+
+  async getUnpaidLedgerEntries(organizerId: string): Promise<any[]> {
+    const { data, error } = await this.client
+      .from('tickets_ledger')
+      .select('*')
+      .eq('organizer_id', organizerId)
+      .is('payout_id', null)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Payout operations - SECURE: Server-computed totals with atomic transactions
+  async createAndFinalizePayout(data: {
+    organizerId: string;
+    periodStart: string;
+    periodEnd: string;
+    method: string;
+    reference?: string;
+    notes?: string;
+  }): Promise<any> {
+    // Check for existing payouts for this organizer and period to prevent duplicates
+    const { data: existingPayouts, error: duplicateError } = await this.client
+      .from('tickets_payouts')
+      .select('id, status')
+      .eq('organizer_id', data.organizerId)
+      .eq('period_start', data.periodStart.split('T')[0])
+      .eq('period_end', data.periodEnd.split('T')[0])
+      .in('status', ['draft', 'ready', 'paid']);
+    
+    if (duplicateError) throw duplicateError;
+    
+    if (existingPayouts && existingPayouts.length > 0) {
+      throw new Error(`Payout already exists for organizer ${data.organizerId} for period ${data.periodStart.split('T')[0]} to ${data.periodEnd.split('T')[0]}. Status: ${existingPayouts[0].status}`);
+    }
+    
+    // Start transaction by computing unpaid ledger entries for the period
+    const { data: unpaidEntries, error: ledgerError } = await this.client
+      .from('tickets_ledger')
+      .select('*')
+      .eq('organizer_id', data.organizerId)
+      .is('payout_id', null) // Only unpaid entries
+      .gte('created_at', data.periodStart)
+      .lte('created_at', data.periodEnd);
+    
+    if (ledgerError) throw ledgerError;
+    
+    if (!unpaidEntries || unpaidEntries.length === 0) {
+      throw new Error('No unpaid ledger entries found for the specified period');
+    }
+    
+    // Server-computed total - SECURE
+    const totalCents = unpaidEntries.reduce((sum, entry) => sum + entry.amount_cents, 0);
+    
+    if (totalCents <= 0) {
+      throw new Error('No positive balance to pay out');
+    }
+    
+    // Create payout record
     const { data: payout, error: payoutError } = await this.client
       .from('tickets_payouts')
       .insert({
@@ -1084,7 +2668,7 @@ export class TicketsSupabaseDB {
     return payout;
   }
 
-  async getPayoutsByOrganizer(organizerId: string): Promise<any[]> {
+  async getPayoutsByOrganizer(organizerId: string): Promise<TicketsPayout[]> {
     const { data, error } = await this.client
       .from('tickets_payouts')
       .select('*')
@@ -1092,7 +2676,41 @@ export class TicketsSupabaseDB {
       .order('created_at', { ascending: false });
     
     if (error) throw error;
-    return data || [];
+    return (data || []).map(toCamelCase);
+  }
+
+  async getPayoutById(payoutId: string): Promise<TicketsPayout | null> {
+    const { data, error } = await this.client
+      .from('tickets_payouts')
+      .select('*')
+      .eq('id', payoutId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getLedgerEntriesByPayout(payoutId: string): Promise<TicketsLedger[]> {
+    const { data, error } = await this.client
+      .from('tickets_ledger')
+      .select('*')
+      .eq('payout_id', payoutId)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // Every entry for an order - its sale plus any refunds or chargebacks
+  async getLedgerEntriesByOrder(orderId: string): Promise<TicketsLedger[]> {
+    const { data, error } = await this.client
+      .from('tickets_ledger')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
   }
 
   async updatePayoutStatus(payoutId: string, status: string, reference?: string): Promise<void> {
@@ -1164,6 +2782,234 @@ export class TicketsSupabaseDB {
     return data || [];
   }
 
+  // ============ STRIPE RECONCILIATION ============
+  async createReconciliationRun(data: InsertTicketsReconciliationRun): Promise<TicketsReconciliationRun> {
+    const { data: run, error } = await this.client
+      .from('tickets_reconciliation_runs')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(run);
+  }
+
+  async updateReconciliationRun(id: string, data: Partial<TicketsReconciliationRun>): Promise<TicketsReconciliationRun> {
+    const { data: run, error } = await this.client
+      .from('tickets_reconciliation_runs')
+      .update(toSnakeCase(data))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(run);
+  }
+
+  async getReconciliationRuns(limit = 20): Promise<TicketsReconciliationRun[]> {
+    const { data, error } = await this.client
+      .from('tickets_reconciliation_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getLastCompletedReconciliationRun(): Promise<TicketsReconciliationRun | null> {
+    const { data, error } = await this.client
+      .from('tickets_reconciliation_runs')
+      .select('*')
+      .eq('status', 'completed')
+      .order('range_end', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getStripeTransactionByStripeId(stripeId: string): Promise<TicketsStripeTransaction | null> {
+    const { data, error } = await this.client
+      .from('tickets_stripe_transactions')
+      .select('*')
+      .eq('stripe_id', stripeId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getStripeTransactionById(id: string): Promise<TicketsStripeTransaction | null> {
+    const { data, error } = await this.client
+      .from('tickets_stripe_transactions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  // Re-importing a transaction refreshes its match but keeps any admin resolution
+  async upsertStripeTransaction(data: InsertTicketsStripeTransaction): Promise<TicketsStripeTransaction> {
+    const { data: transaction, error } = await this.client
+      .from('tickets_stripe_transactions')
+      .upsert(toSnakeCase({ ...data, updatedAt: new Date() }), { onConflict: 'stripe_id' })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(transaction);
+  }
+
+  async updateStripeTransaction(id: string, data: Partial<TicketsStripeTransaction>): Promise<TicketsStripeTransaction> {
+    const { data: transaction, error } = await this.client
+      .from('tickets_stripe_transactions')
+      .update(toSnakeCase({ ...data, updatedAt: new Date() }))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(transaction);
+  }
+
+  async getStripeTransactions(filters: { status?: string; organizerId?: string; unresolved?: boolean; limit?: number }): Promise<TicketsStripeTransaction[]> {
+    let query = this.client
+      .from('tickets_stripe_transactions')
+      .select('*');
+    
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.organizerId) query = query.eq('organizer_id', filters.organizerId);
+    if (filters.unresolved) query = query.is('resolved_at', null);
+    
+    const { data, error } = await query
+      .order('stripe_created_at', { ascending: false })
+      .limit(filters.limit || 100);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  async getStripeTransactionsByOrders(orderIds: string[]): Promise<TicketsStripeTransaction[]> {
+    if (orderIds.length === 0) return [];
+    const { data, error } = await this.client
+      .from('tickets_stripe_transactions')
+      .select('*')
+      .in('order_id', orderIds);
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // A transaction's journal entry is reposted whenever its match changes
+  async replaceJournalLines(stripeTransactionId: string, lines: InsertTicketsJournalLine[]): Promise<void> {
+    const { error: deleteError } = await this.client
+      .from('tickets_journal_lines')
+      .delete()
+      .eq('stripe_transaction_id', stripeTransactionId);
+    
+    if (deleteError) throw deleteError;
+    if (lines.length === 0) return;
+    
+    const { error } = await this.client
+      .from('tickets_journal_lines')
+      .insert(lines.map(toSnakeCase));
+    
+    if (error) throw error;
+  }
+
+  async getJournalLines(filters: { organizerId?: string; until?: Date }): Promise<TicketsJournalLine[]> {
+    let query = this.client
+      .from('tickets_journal_lines')
+      .select('*');
+    
+    if (filters.organizerId) query = query.eq('organizer_id', filters.organizerId);
+    if (filters.until) query = query.lte('posted_at', filters.until.toISOString());
+    
+    const { data, error } = await query.order('posted_at', { ascending: true });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
+  // ============ DISPUTES ============
+  async createDispute(data: InsertTicketsDispute): Promise<TicketsDispute> {
+    const { data: dispute, error } = await this.client
+      .from('tickets_disputes')
+      .insert(toSnakeCase(data))
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(dispute);
+  }
+
+  async updateDispute(id: string, data: Partial<TicketsDispute>): Promise<TicketsDispute> {
+    const { data: dispute, error } = await this.client
+      .from('tickets_disputes')
+      .update(toSnakeCase({ ...data, updatedAt: new Date() }))
+      .eq('id', id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    return toCamelCase(dispute);
+  }
+
+  // Stamp a one-time step on a dispute, only if it hasn't been stamped already - null means someone else got there first
+  async claimDisputeStep(id: string, step: 'fundsWithdrawnAt' | 'fundsReinstatedAt' | 'closedAt'): Promise<TicketsDispute | null> {
+    const column = { fundsWithdrawnAt: 'funds_withdrawn_at', fundsReinstatedAt: 'funds_reinstated_at', closedAt: 'closed_at' }[step];
+    const now = new Date().toISOString();
+    let query = this.client
+      .from('tickets_disputes')
+      .update({ [column]: now, updated_at: now })
+      .eq('id', id)
+      .is(column, null);
+    if (step === 'fundsReinstatedAt') {
+      query = query.not('funds_withdrawn_at', 'is', null);
+    }
+    const { data, error } = await query.select().maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getDisputeById(id: string): Promise<TicketsDispute | null> {
+    const { data, error } = await this.client
+      .from('tickets_disputes')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getDisputeByStripeId(stripeDisputeId: string): Promise<TicketsDispute | null> {
+    const { data, error } = await this.client
+      .from('tickets_disputes')
+      .select('*')
+      .eq('stripe_dispute_id', stripeDisputeId)
+      .maybeSingle();
+    
+    if (error) throw error;
+    return data ? toCamelCase(data) : null;
+  }
+
+  async getDisputesByOrganizer(organizerId: string): Promise<TicketsDispute[]> {
+    const { data, error } = await this.client
+      .from('tickets_disputes')
+      .select('*')
+      .eq('organizer_id', organizerId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    return (data || []).map(toCamelCase);
+  }
+
   // ============ ADDITIONAL METHODS FOR MY TICKETS ============
   async getOrdersByBuyer(email: string): Promise<TicketsOrder[]> {
     const { data, error } = await this.client
@@ -1263,13 +3109,19 @@ export class TicketsSupabaseDB {
     return data;
   }
 
-  async checkInTicket(ticketId: string, checkInBy: string): Promise<void> {
+  async checkInTicket(
+    ticketId: string,
+    checkInBy: string,
+    options: { usedAt?: Date; gateId?: string | null; scannerId?: string | null } = {}
+  ): Promise<void> {
     const { error } = await this.client
       .from('tickets_tickets')
       .update({
         status: 'used',
-        used_at: new Date().toISOString(),
-        scanned_by: checkInBy
+        used_at: (options.usedAt || new Date()).toISOString(),
+        scanned_by: checkInBy,
+        gate_id: options.gateId || null,
+        scanner_id: options.scannerId || null
       })
       .eq('id', ticketId);
     
@@ -1294,12 +3146,18 @@ export class TicketsSupabaseDB {
         is_blocked,
         refunded_at,
         refund_reason,
+        seat_label,
+        occurrence_id,
+        holder_email,
+        holder_name,
         tier:tickets_tiers!inner(
           name,
-          event_id
+          event_id,
+          series_pass
         ),
         order_item:tickets_order_items!inner(
           order:tickets_orders(
+            id,
             buyer_email,
             buyer_name,
             buyer_phone,
@@ -1337,11 +3195,16 @@ export class TicketsSupabaseDB {
       isBlocked: item.is_blocked,
       refundedAt: item.refunded_at,
       refundReason: item.refund_reason,
+      seatLabel: item.seat_label,
+      occurrenceId: item.occurrence_id,
+      seriesPass: !!item.tier?.series_pass,
       tierName: item.tier?.name,
-      buyerEmail: item.order_item?.order?.buyer_email,
-      buyerName: item.order_item?.order?.buyer_name,
-      buyerPhone: item.order_item?.order?.buyer_phone,
-      placedAt: item.order_item?.order?.created_at
+      // A transferred or resold ticket is listed under whoever holds it now
+      buyerEmail: item.holder_email || item.order_item?.order?.buyer_email,
+      buyerName: item.holder_email ? item.holder_name : item.order_item?.order?.buyer_name,
+      buyerPhone: item.holder_email ? null : item.order_item?.order?.buyer_phone,
+      placedAt: item.order_item?.order?.created_at,
+      orderId: item.order_item?.order?.id
     }));
     
     // Apply search filter in-memory if provided
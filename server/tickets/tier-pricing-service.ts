@@ -0,0 +1,81 @@
+import { ticketsStorage } from './tickets-storage';
+import type { TicketsTier } from '@shared/schema';
+
+/**
+ * A later price for a tier. It takes over once its start time passes or once
+ * the tier has sold `afterSold` tickets, whichever comes first.
+ */
+export interface PriceStep {
+  label?: string | null;
+  priceCents: number;
+  startsAt?: string | null;
+  afterSold?: number | null;
+}
+
+export interface PricePhase {
+  priceCents: number;
+  label: string | null;
+  step: number; // 0 = the tier's base price, n = nth schedule step
+  next: {
+    priceCents: number;
+    label: string | null;
+    startsAt: string | null;
+    remainingAtPrice: number | null; // tickets left before the sold-count trigger
+  } | null;
+}
+
+export class TierPricingService {
+  static getSchedule(tier: TicketsTier): PriceStep[] {
+    const schedule = (tier.priceSchedule ?? (tier as any).price_schedule) as PriceStep[] | null;
+    return Array.isArray(schedule) ? schedule : [];
+  }
+
+  static hasSoldCountSteps(tier: TicketsTier): boolean {
+    return TierPricingService.getSchedule(tier).some(step => step.afterSold != null);
+  }
+
+  /**
+   * Which price applies right now. Steps only ever move forward: the latest
+   * step whose trigger has fired wins, even if an earlier one hasn't fired yet.
+   */
+  static resolve(tier: TicketsTier, soldCount: number = 0, now: Date = new Date()): PricePhase {
+    const schedule = TierPricingService.getSchedule(tier);
+    const basePriceCents = tier.priceCents ?? (tier as any).price_cents;
+
+    const fired = (step: PriceStep) =>
+      (!!step.startsAt && new Date(step.startsAt) <= now) ||
+      (step.afterSold != null && soldCount >= step.afterSold);
+
+    let current = 0;
+    schedule.forEach((step, index) => {
+      if (fired(step)) current = index + 1;
+    });
+
+    const step = current > 0 ? schedule[current - 1] : null;
+    const upcoming = schedule[current];
+
+    return {
+      priceCents: step ? step.priceCents : basePriceCents,
+      label: step?.label || null,
+      step: current,
+      next: upcoming ? {
+        priceCents: upcoming.priceCents,
+        label: upcoming.label || null,
+        startsAt: upcoming.startsAt || null,
+        remainingAtPrice: upcoming.afterSold != null ? Math.max(0, upcoming.afterSold - soldCount) : null
+      } : null
+    };
+  }
+
+  /**
+   * Attach the tier's sales so far when its schedule has sold-count steps.
+   * Tiers from getTiersByEvent already carry soldCount.
+   */
+  static async withSales<T extends TicketsTier>(tier: T): Promise<T & { soldCount?: number }> {
+    if ((tier as any).soldCount !== undefined || !TierPricingService.hasSoldCountSteps(tier)) {
+      return tier;
+    }
+    const soldCount = await ticketsStorage.getTierSoldCount(tier.id);
+    return { ...tier, soldCount };
+  }
+}
@@ -0,0 +1,193 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { TransferService } from "./transfer-service";
+import { ResaleService } from "./resale-service";
+import { transferTicketSchema, resaleListingSchema, resalePurchaseSchema } from "./validation";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Ticket holders manage their own tickets while signed in
+const requireUser = (req: Request & { session?: any }, res: Response, next: any) => {
+  if (!req.session?.userId) {
+    return res.status(401).json({ ok: false, error: 'Please sign in to manage your tickets' });
+  }
+  next();
+};
+
+// Validation and rule failures are the buyer's to fix; anything else is logged
+const handleError = (res: Response, error: any, fallback: string) => {
+  if (error.name === 'ZodError') {
+    return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid request' });
+  }
+  if (error.transferInvalid || error.resaleInvalid) {
+    return res.status(400).json({ ok: false, error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ ok: false, error: fallback });
+};
+
+export function addTransferRoutes(app: Express) {
+
+  // ============ SELF-SERVICE TRANSFERS ============
+
+  // Send a ticket to a friend - the old QR code stops working and they get a new one
+  app.post('/api/tickets/my-tickets/:ticketId/transfer', requireTicketing, requireUser, async (req: Request & { session?: any }, res: Response) => {
+    try {
+      const recipient = transferTicketSchema.parse(req.body);
+      const owned = await TransferService.getOwnedTicket(req.params.ticketId, req.session.userId);
+      if (!owned) {
+        return res.status(404).json({ ok: false, error: 'Ticket not found' });
+      }
+
+      const to = { email: recipient.email, name: recipient.name || null };
+      const newTicket = await TransferService.transferByHolder(owned, to);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'user',
+        actorId: req.session.userId,
+        action: 'ticket_transferred',
+        targetType: 'ticket',
+        targetId: owned.ticket.id,
+        metaJson: {
+          newTicketId: newTicket.id,
+          newEmail: to.email,
+          newName: to.name,
+          originalEmail: owned.holder.email,
+          selfService: true
+        },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      await TransferService.notifyTransfer(owned.ticket, newTicket.id, owned.event, owned.holder, to);
+
+      res.json({
+        ok: true,
+        transfer: {
+          oldTicketId: owned.ticket.id,
+          newTicketId: newTicket.id,
+          transferredTo: to.email
+        }
+      });
+    } catch (error: any) {
+      handleError(res, error, 'Failed to transfer ticket');
+    }
+  });
+
+  // ============ FAN RESALE ============
+
+  // Whether a ticket can be resold, for how much, and its current listing
+  app.get('/api/tickets/my-tickets/:ticketId/resale', requireTicketing, requireUser, async (req: Request & { session?: any }, res: Response) => {
+    try {
+      const owned = await TransferService.getOwnedTicket(req.params.ticketId, req.session.userId);
+      if (!owned) {
+        return res.status(404).json({ ok: false, error: 'Ticket not found' });
+      }
+
+      const listing = await ticketsStorage.getOpenResaleListingByTicket(owned.ticket.id);
+      if (!owned.event.resaleEnabled) {
+        return res.json({ ok: true, resaleEnabled: false, listing });
+      }
+
+      try {
+        const terms = await ResaleService.sellerTerms(owned);
+        res.json({ ok: true, resaleEnabled: true, listing, maxPriceCents: terms.maxPriceCents, faceValueCents: terms.faceValueCents });
+      } catch (termsError: any) {
+        if (!termsError.resaleInvalid) throw termsError;
+        res.json({ ok: true, resaleEnabled: true, listing, unavailableReason: termsError.message });
+      }
+    } catch (error: any) {
+      handleError(res, error, 'Failed to fetch resale details');
+    }
+  });
+
+  app.post('/api/tickets/my-tickets/:ticketId/resale', requireTicketing, requireUser, async (req: Request & { session?: any }, res: Response) => {
+    try {
+      const { priceCents } = resaleListingSchema.parse(req.body);
+      const owned = await TransferService.getOwnedTicket(req.params.ticketId, req.session.userId);
+      if (!owned) {
+        return res.status(404).json({ ok: false, error: 'Ticket not found' });
+      }
+
+      const listing = await ResaleService.listTicket(owned, priceCents);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'user',
+        actorId: req.session.userId,
+        action: 'resale_listed',
+        targetType: 'ticket',
+        targetId: owned.ticket.id,
+        metaJson: { listingId: listing.id, priceCents },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, listing });
+    } catch (error: any) {
+      handleError(res, error, 'Failed to list ticket for resale');
+    }
+  });
+
+  app.delete('/api/tickets/my-tickets/:ticketId/resale', requireTicketing, requireUser, async (req: Request & { session?: any }, res: Response) => {
+    try {
+      const owned = await TransferService.getOwnedTicket(req.params.ticketId, req.session.userId);
+      if (!owned) {
+        return res.status(404).json({ ok: false, error: 'Ticket not found' });
+      }
+
+      const listing = await ResaleService.cancelListing(owned);
+      res.json({ ok: true, listing });
+    } catch (error: any) {
+      handleError(res, error, 'Failed to cancel resale listing');
+    }
+  });
+
+  // Tickets fans are reselling for an event - no seller details
+  app.get('/api/tickets/events/:eventId/resale', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      const event = await ticketsStorage.getEventById(req.params.eventId);
+      if (!event || event.status !== 'published' || !event.resaleEnabled) {
+        return res.json({ ok: true, listings: [] });
+      }
+
+      const listings = await ticketsStorage.getAvailableResaleListings(event.id);
+      res.json({
+        ok: true,
+        listings: listings.map(listing => ({
+          id: listing.id,
+          tierId: listing.tierId,
+          tierName: listing.tierName,
+          seatLabel: listing.seatLabel,
+          occurrenceId: listing.occurrenceId,
+          priceCents: listing.priceCents,
+          faceValueCents: listing.faceValueCents
+        }))
+      });
+    } catch (error: any) {
+      handleError(res, error, 'Failed to fetch resale tickets');
+    }
+  });
+
+  // Hold a resale ticket for the buyer and start their payment
+  app.post('/api/tickets/resale/:listingId/purchase', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      const buyer = resalePurchaseSchema.parse(req.body);
+      const { listing, clientSecret } = await ResaleService.startPurchase(req.params.listingId, {
+        email: buyer.buyerEmail,
+        name: buyer.buyerName
+      });
+
+      res.json({ ok: true, listingId: listing.id, priceCents: listing.priceCents, clientSecret });
+    } catch (error: any) {
+      handleError(res, error, 'Failed to start resale purchase');
+    }
+  });
+}
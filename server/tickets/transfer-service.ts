@@ -0,0 +1,191 @@
+import { nanoid } from 'nanoid';
+import { ticketsStorage } from './tickets-storage';
+import { sendTransferEmails } from './email-service';
+import { WalletService } from './wallet-service';
+import { OrganizerWebhookService } from './organizer-webhook-service';
+import { communitiesStorage } from '../communities/communities-supabase';
+import type { TicketsTicket, TicketsOrder, TicketsEvent } from '@shared/schema';
+
+export interface TicketHolder {
+  email: string;
+  name: string | null;
+}
+
+export interface OwnedTicket {
+  ticket: TicketsTicket;
+  order: TicketsOrder;
+  event: TicketsEvent;
+  holder: TicketHolder;
+}
+
+function transferInvalid(message: string): Error {
+  const error = new Error(message) as Error & { transferInvalid?: boolean };
+  error.transferInvalid = true;
+  return error;
+}
+
+export class TransferService {
+  // Holder emails are stored lowercased so lookups by a user's email always match
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Who a ticket belongs to: the person it was last transferred or resold to, else the order's buyer
+   */
+  static holderOf(ticket: TicketsTicket, order: TicketsOrder): TicketHolder {
+    if (ticket.holderEmail) {
+      return { email: ticket.holderEmail, name: ticket.holderName };
+    }
+    return { email: order.buyerEmail, name: order.buyerName };
+  }
+
+  static isHeldBy(ticket: TicketsTicket, order: TicketsOrder, user: { id: string; email: string }): boolean {
+    if (ticket.holderEmail) {
+      return TransferService.normalizeEmail(ticket.holderEmail) === TransferService.normalizeEmail(user.email);
+    }
+    return TransferService.normalizeEmail(order.buyerEmail) === TransferService.normalizeEmail(user.email) ||
+      (order as any).userId === user.id;
+  }
+
+  /**
+   * Load a ticket for the signed-in user, or null unless they currently hold it
+   */
+  static async getOwnedTicket(ticketId: string, userId: string): Promise<OwnedTicket | null> {
+    const user = await ticketsStorage.getUserById(userId);
+    const ticket = await ticketsStorage.getTicketById(ticketId);
+    const orderItem = ticket ? await ticketsStorage.getOrderItemById(ticket.orderItemId) : null;
+    const order = orderItem ? await ticketsStorage.getOrderById(orderItem.orderId) : null;
+    const event = order ? await ticketsStorage.getEventById(order.eventId) : null;
+
+    if (!user || !ticket || !order || !event || !TransferService.isHeldBy(ticket, order, user)) {
+      return null;
+    }
+
+    return { ticket, order, event, holder: TransferService.holderOf(ticket, order) };
+  }
+
+  /**
+   * Replace a ticket with a fresh one for a new holder. The old QR code stops working
+   * and the seat and date carry over.
+   */
+  static async reissueTicket(ticket: TicketsTicket, holder: TicketHolder): Promise<TicketsTicket> {
+    if (ticket.status !== 'valid') {
+      throw transferInvalid('Only valid tickets can be transferred');
+    }
+
+    const newTicket = await ticketsStorage.createTicket({
+      orderItemId: ticket.orderItemId,
+      tierId: ticket.tierId,
+      serial: `TKT-${nanoid(10).toUpperCase()}`,
+      qrToken: nanoid(20),
+      status: 'valid',
+      transferredFrom: ticket.id,
+      holderEmail: TransferService.normalizeEmail(holder.email),
+      holderName: holder.name,
+      seatId: ticket.seatId,
+      seatLabel: ticket.seatLabel,
+      occurrenceId: ticket.occurrenceId
+    });
+
+    // The seat follows the ticket to its new holder
+    if (ticket.seatId) {
+      await ticketsStorage.markSeatSold(ticket.seatId, newTicket.id);
+    }
+
+    await ticketsStorage.updateTicket(ticket.id, {
+      status: 'transferred',
+      transferredTo: newTicket.id,
+      transferredAt: new Date()
+    });
+
+    // A ticket that changes hands comes off the resale market
+    const listing = await ticketsStorage.getOpenResaleListingByTicket(ticket.id);
+    if (listing && listing.status === 'active') {
+      await ticketsStorage.updateResaleListing(listing.id, { status: 'canceled' });
+    }
+
+    // Void the old pass in whichever wallets it was saved to
+    await WalletService.ticketsChanged([ticket.id]);
+
+    await OrganizerWebhookService.ticketEvent('ticket.transferred', ticket.id, {
+      newTicketId: newTicket.id,
+      newHolder: { name: newTicket.holderName, email: newTicket.holderEmail }
+    });
+
+    return newTicket;
+  }
+
+  /**
+   * Let the current holder hand a ticket to someone else
+   */
+  static async transferByHolder(owned: OwnedTicket, recipient: TicketHolder): Promise<TicketsTicket> {
+    const { ticket, event, holder } = owned;
+
+    if (TransferService.normalizeEmail(recipient.email) === TransferService.normalizeEmail(holder.email)) {
+      throw transferInvalid('This ticket is already yours');
+    }
+    if (new Date(event.endAt || event.startAt) < new Date()) {
+      throw transferInvalid('Tickets for past events can\'t be transferred');
+    }
+    const listing = await ticketsStorage.getOpenResaleListingByTicket(ticket.id);
+    if (listing?.status === 'pending' && listing.pendingUntil && new Date(listing.pendingUntil) > new Date()) {
+      throw transferInvalid('Someone is buying this ticket on resale right now');
+    }
+
+    return TransferService.reissueTicket(ticket, recipient);
+  }
+
+  /**
+   * Email both people and drop in-app notifications. Failures are logged, never thrown.
+   */
+  static async notifyTransfer(
+    oldTicket: TicketsTicket,
+    newTicketId: string,
+    event: TicketsEvent,
+    from: TicketHolder,
+    to: TicketHolder
+  ): Promise<void> {
+    try {
+      await sendTransferEmails(
+        oldTicket.id,
+        newTicketId,
+        from.email,
+        from.name || 'Attendee',
+        to.email,
+        to.name || 'New Attendee'
+      );
+    } catch (emailError) {
+      console.error('[Transfer] Failed to send transfer emails:', emailError);
+    }
+
+    try {
+      const baseUrl = process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com';
+      const oldUser = await communitiesStorage.getUserByEmail(from.email);
+      const newUser = await communitiesStorage.getUserByEmail(to.email);
+
+      if (oldUser) {
+        await communitiesStorage.createNotification({
+          recipientId: oldUser.id,
+          type: 'ticket_transferred_away',
+          title: 'Ticket Transferred',
+          body: `Your ticket for "${event.title}" has been transferred to ${to.email}`,
+          actionUrl: `${baseUrl}/tickets/my-tickets`,
+          metadata: { eventTitle: event.title, ticketSerial: oldTicket.serial, transferredTo: to.email, eventSlug: event.slug }
+        });
+      }
+      if (newUser) {
+        await communitiesStorage.createNotification({
+          recipientId: newUser.id,
+          type: 'ticket_received',
+          title: 'Ticket Received',
+          body: `You've received a ticket for "${event.title}"`,
+          actionUrl: `${baseUrl}/tickets/my-tickets`,
+          metadata: { eventTitle: event.title, eventSlug: event.slug }
+        });
+      }
+    } catch (notificationError) {
+      console.error('[Transfer] Failed to create notifications:', notificationError);
+    }
+  }
+}
@@ -1,16 +1,34 @@
 import { z } from 'zod';
+import { TAX_PROVINCES } from '@shared/tax-rules';
+import { WEBHOOK_EVENT_TYPES, API_KEY_SCOPES } from '@shared/schema';
+
+// Answers to an event's custom questions, keyed by question id
+const answerValuesSchema = z.record(z.string().uuid(), z.union([z.string().max(2000), z.boolean(), z.number()]));
+
+const checkoutAnswersSchema = z.object({
+  order: answerValuesSchema.optional(),
+  tickets: z.array(z.object({
+    tierId: z.string().uuid(),
+    answers: answerValuesSchema
+  })).max(100).optional() // One entry per ticket, in the order they appear in items
+});
 
 // Checkout validation
 export const checkoutSessionSchema = z.object({
   eventId: z.string().uuid(),
   items: z.array(z.object({
     tierId: z.string().uuid(),
-    quantity: z.number().int().min(1).max(10)
+    quantity: z.number().int().min(1).max(10),
+    seatIds: z.array(z.string().uuid()).max(10).optional() // Reserved seating only
   })).min(1).max(10),
   buyerEmail: z.string().email(),
   buyerName: z.string().min(1).max(100),
   buyerPhone: z.string().optional(),
   discountCode: z.string().optional(),
+  waitlistToken: z.string().optional(),
+  ref: z.string().max(64).optional(), // Promoter link the buyer arrived through
+  occurrenceId: z.string().uuid().optional(), // Date picked for a series event
+  answers: checkoutAnswersSchema.optional(),
   returnUrl: z.string().url().refine(url => {
     // Whitelist returnUrl to same origin only
     try {
@@ -29,12 +47,17 @@ export const paymentIntentSchema = z.object({
   eventId: z.string().uuid(),
   items: z.array(z.object({
     tierId: z.string().uuid(),
-    quantity: z.number().int().min(1).max(10)
+    quantity: z.number().int().min(1).max(10),
+    seatIds: z.array(z.string().uuid()).max(10).optional() // Reserved seating only
   })).min(1).max(10),
   buyerEmail: z.string().email(),
   buyerName: z.string().min(1).max(100),
   buyerPhone: z.string().optional(),
-  discountCode: z.string().optional()
+  discountCode: z.string().optional(),
+  waitlistToken: z.string().optional(),
+  ref: z.string().max(64).optional(), // Promoter link the buyer arrived through
+  occurrenceId: z.string().uuid().optional(), // Date picked for a series event
+  answers: checkoutAnswersSchema.optional()
   // Note: No returnUrl needed for embedded checkout
 });
 
@@ -47,13 +70,21 @@ export const createEventSchema = z.object({
   endAt: z.string().datetime().optional(), // Accept ISO 8601 datetime with timezone
   venue: z.string().min(1).max(200),
   city: z.string().min(1).max(100),
-  province: z.string().length(2),
+  province: z.string().length(2).transform(p => p.toUpperCase()).refine(p => TAX_PROVINCES.includes(p), "Province must be a Canadian province or territory code"),
   coverUrl: z.string().url().optional(),
   status: z.enum(['draft', 'published', 'archived']).default('draft'),
+  resaleEnabled: z.boolean().optional(),
+  allowRefundsUntil: z.string().datetime().nullable().optional(), // Last moment buyers can request a refund
+  refundAutoApprove: z.object({
+    maxCents: z.number().int().min(0).nullable().optional(),
+    minHoursBeforeEvent: z.number().int().min(0).nullable().optional()
+  }).nullable().optional(),
   taxSettings: z.object({
     collectTax: z.boolean(),
-    gstPercent: z.number().min(0).max(100),
-    pstPercent: z.number().min(0).max(100)
+    taxInclusive: z.boolean().optional(), // ticket prices already include tax
+    // Rates come from the province now; still accepted so older clients can save
+    gstPercent: z.number().min(0).max(100).optional(),
+    pstPercent: z.number().min(0).max(100).optional()
   }).optional(),
   feeStructure: z.object({
     type: z.enum(['buyer_pays', 'organizer_absorbs']),
@@ -74,6 +105,24 @@ export const createEventSchema = z.object({
 export const updateEventSchema = createEventSchema.partial();
 
 // Tier creation/update validation
+// Later prices for a tier - each step needs a time or a sold-count trigger
+export const priceScheduleSchema = z.array(z.object({
+  label: z.string().trim().max(40).nullable().optional(),
+  priceCents: z.number().int().min(0),
+  startsAt: z.string().datetime().nullable().optional(),
+  afterSold: z.number().int().min(1).nullable().optional()
+}).refine(step => !!step.startsAt || step.afterSold != null, {
+  message: "Each price step needs a start time or a number of tickets sold"
+})).max(10).nullable();
+
+// Bundle and add-on settings for a tier
+export const tierProductSchema = z.object({
+  kind: z.enum(['admission', 'addon']).default('admission'),
+  ticketsPerUnit: z.number().int().min(1).max(50, "A bundle can include at most 50 tickets").default(1),
+  addonFulfillment: z.enum(['none', 'voucher']).nullable().optional(),
+  taxable: z.boolean().default(true)
+});
+
 export const createTierSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
@@ -83,6 +132,12 @@ export const createTierSchema = z.object({
   minPerOrder: z.number().int().min(1).max(10).default(1),
   salesOpenAt: z.string().datetime().optional(),
   salesCloseAt: z.string().datetime().optional(),
+  priceSchedule: priceScheduleSchema.optional(),
+  seriesPass: z.boolean().optional(), // Admits to every date of a series
+  kind: z.enum(['admission', 'addon']).optional(),
+  ticketsPerUnit: z.number().int().min(1).max(50).optional(), // Bundles: tickets issued per unit sold
+  addonFulfillment: z.enum(['none', 'voucher']).nullable().optional(),
+  taxable: z.boolean().optional(),
   sortOrder: z.number().int().default(0)
 });
 
@@ -101,7 +156,227 @@ export const organizerSignupSchema = z.object({
 // Discount validation
 export const validateDiscountSchema = z.object({
   eventId: z.string().uuid(),
-  code: z.string().min(1).max(50)
+  code: z.string().min(1).max(50),
+  items: z.array(z.object({
+    tierId: z.string().uuid(),
+    quantity: z.number().int().min(1).max(10)
+  })).max(10).optional() // Cart to check tier and quantity rules against
+});
+
+const discountRulesSchema = z.object({
+  type: z.enum(['percent', 'fixed']),
+  value: z.number().positive(), // percentage, or fixed amount in cents
+  maxUses: z.number().int().min(1).nullable().optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime().nullable().optional(),
+  tierIds: z.array(z.string().uuid()).max(50).nullable().optional(),
+  minQuantity: z.number().int().min(1).max(100).nullable().optional()
+});
+
+const discountCodeSchema = z.string().trim().min(3).max(40)
+  .regex(/^[A-Za-z0-9_-]+$/, "Codes can only use letters, numbers, dashes and underscores");
+
+const checkDiscountRules = (data: { type?: string; value?: number; startsAt?: string | null; endsAt?: string | null }, ctx: z.RefinementCtx) => {
+  if (data.type === 'percent' && data.value !== undefined && data.value > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A percentage discount can't be more than 100%", path: ['value'] });
+  }
+  if (data.type === 'fixed' && data.value !== undefined && !Number.isInteger(data.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Fixed discounts are in whole cents", path: ['value'] });
+  }
+  if (data.startsAt && data.endsAt && new Date(data.endsAt) <= new Date(data.startsAt)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "End date must be after the start date", path: ['endsAt'] });
+  }
+};
+
+export const createDiscountSchema = discountRulesSchema.extend({
+  code: discountCodeSchema
+}).superRefine(checkDiscountRules);
+
+export const updateDiscountSchema = discountRulesSchema.partial().extend({
+  code: discountCodeSchema.optional(),
+  status: z.enum(['active', 'paused']).optional()
+}).superRefine(checkDiscountRules);
+
+export const bulkDiscountSchema = discountRulesSchema.omit({ maxUses: true }).extend({
+  count: z.number().int().min(1).max(1000),
+  prefix: z.string().trim().max(12).regex(/^[A-Za-z0-9_-]*$/, "Prefix can only use letters, numbers, dashes and underscores").optional()
+}).superRefine(checkDiscountRules);
+
+// Event series dates
+const occurrenceDateSchema = z.object({
+  startAt: z.string().datetime(),
+  endAt: z.string().datetime().nullable().optional()
+}).refine(d => !d.endAt || new Date(d.endAt) > new Date(d.startAt), {
+  message: "End time must be after the start time"
+});
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  interval: z.number().int().min(1).max(12).default(1),
+  count: z.number().int().min(1).max(200).nullable().optional(),
+  until: z.string().datetime().nullable().optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).max(7).nullable().optional()
+}).refine(rule => rule.count != null || !!rule.until, {
+  message: "Set how many dates to create or a last date"
+});
+
+export const addOccurrencesSchema = z.object({
+  dates: z.array(occurrenceDateSchema).min(1).max(200).optional(),
+  rule: recurrenceRuleSchema.optional(),
+  firstStartAt: z.string().datetime().optional(), // where the rule starts
+  durationMinutes: z.number().int().min(1).max(24 * 60).nullable().optional() // length of each generated date
+}).refine(data => !!data.dates !== !!data.rule, {
+  message: "Add either a list of dates or a repeat rule"
+}).refine(data => !data.rule || !!data.firstStartAt, {
+  message: "A repeat rule needs a first date"
+});
+
+export const updateOccurrenceSchema = z.object({
+  startAt: z.string().datetime().optional(),
+  endAt: z.string().datetime().nullable().optional(),
+  status: z.enum(['scheduled', 'canceled']).optional()
+});
+
+// Custom checkout questions
+const questionFieldsSchema = z.object({
+  label: z.string().trim().min(1, "Question text is required").max(200),
+  helpText: z.string().trim().max(300).nullable().optional(),
+  type: z.enum(['text', 'textarea', 'select', 'checkbox', 'number']),
+  options: z.array(z.string().trim().min(1).max(100)).max(30).nullable().optional(),
+  required: z.boolean().optional(),
+  appliesTo: z.enum(['order', 'ticket']).optional(),
+  tierIds: z.array(z.string().uuid()).nullable().optional(), // Ticket questions only; null asks every tier
+  sortOrder: z.number().int().optional()
+});
+
+export const createQuestionSchema = questionFieldsSchema.refine(
+  data => data.type !== 'select' || (data.options?.length ?? 0) >= 2,
+  { message: "Dropdown questions need at least two options", path: ['options'] }
+);
+
+export const updateQuestionSchema = questionFieldsSchema.partial().extend({
+  status: z.enum(['active', 'hidden']).optional()
+});
+
+// Promoter links
+const promoterFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Promoter name is required").max(100),
+  email: z.string().trim().email().max(200).nullable().optional(),
+  refCode: z.string().trim().min(2).max(32)
+    .regex(/^[A-Za-z0-9-]+$/, "Ref codes can only use letters, numbers and dashes").optional(),
+  commissionType: z.enum(['percent', 'fixed']).nullable().optional(),
+  commissionValue: z.number().min(0).nullable().optional() // percentage, or cents per ticket
+});
+
+const checkCommission = (data: { commissionType?: string | null; commissionValue?: number | null }, ctx: z.RefinementCtx) => {
+  if (data.commissionType && data.commissionValue == null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a commission amount", path: ['commissionValue'] });
+  }
+  if (data.commissionType === 'percent' && data.commissionValue != null && data.commissionValue > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A percentage commission can't be more than 100%", path: ['commissionValue'] });
+  }
+  if (data.commissionType === 'fixed' && data.commissionValue != null && !Number.isInteger(data.commissionValue)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Fixed commissions are in whole cents", path: ['commissionValue'] });
+  }
+};
+
+export const createPromoterSchema = promoterFieldsSchema.superRefine(checkCommission);
+
+export const updatePromoterSchema = promoterFieldsSchema.partial().extend({
+  status: z.enum(['active', 'disabled']).optional()
+}).superRefine(checkCommission);
+
+// Waitlist validation
+export const joinWaitlistSchema = z.object({
+  email: z.string().email(),
+  occurrenceId: z.string().uuid().optional(),
+  name: z.string().min(1).max(100).optional(),
+  phone: z.string().max(30).optional(),
+  quantity: z.number().int().min(1).max(10).default(1)
+});
+
+export const reorderWaitlistSchema = z.object({
+  tierId: z.string().uuid(),
+  entryIds: z.array(z.string().uuid()).min(1)
+});
+
+// Seat map validation
+export const seatMapSchema = z.object({
+  name: z.string().min(1).max(200),
+  zones: z.array(z.object({
+    key: z.string().min(1).max(50),
+    name: z.string().min(1).max(100),
+    tierId: z.string().uuid(),
+    color: z.string().max(20).optional()
+  })).min(1).max(20),
+  sections: z.array(z.object({
+    name: z.string().min(1).max(100),
+    zone: z.string().optional(), // Default price zone for rows in this section
+    rows: z.array(z.object({
+      label: z.string().min(1).max(10),
+      seats: z.number().int().min(1).max(200),
+      zone: z.string().optional()
+    })).min(1).max(100)
+  })).min(1).max(50)
+}).refine((data) => {
+  const zoneKeys = new Set(data.zones.map(z => z.key));
+  return data.sections.every(section =>
+    section.rows.every(row => zoneKeys.has(row.zone || section.zone || ''))
+  );
+}, {
+  message: "Every row needs a price zone, either its own or its section's"
+}).refine((data) => {
+  const sectionNames = data.sections.map(s => s.name);
+  return new Set(sectionNames).size === sectionNames.length &&
+    data.sections.every(section => new Set(section.rows.map(r => r.label)).size === section.rows.length);
+}, {
+  message: "Section names and row labels within a section must be unique"
+});
+
+// Offline check-in scan sync
+export const offlineScanSyncSchema = z.object({
+  deviceId: z.string().min(1).max(100),
+  occurrenceId: z.string().uuid().optional(),
+  scans: z.array(z.object({
+    scanId: z.string().min(1).max(100),
+    code: z.string().min(1).max(1000),
+    scannedAt: z.string().datetime(),
+    scannedBy: z.string().max(200).optional()
+  })).min(1).max(500)
+});
+
+// Check-in gates and scanner accounts
+export const gateSchema = z.object({
+  name: z.string().trim().min(1, "Gate name is required").max(60)
+});
+
+export const scannerSchema = z.object({
+  name: z.string().trim().min(1, "Scanner name is required").max(80),
+  gateId: z.string().uuid().nullable().optional()
+});
+
+export const scannerLoginSchema = z.object({
+  accessCode: z.string().trim().min(1, "Access code is required").max(40)
+});
+
+// Add-on voucher redemption at the venue
+export const redeemVoucherSchema = z.object({
+  code: z.string().trim().min(1, "Voucher code is required").max(40)
+});
+
+// Buyer self-service transfers and fan resale
+export const transferTicketSchema = z.object({
+  email: z.string().trim().email("Enter the recipient's email address"),
+  name: z.string().trim().max(100).optional()
+});
+
+export const resaleListingSchema = z.object({
+  priceCents: z.number().int().min(1)
+});
+
+export const resalePurchaseSchema = z.object({
+  buyerEmail: z.string().trim().email("Enter a valid email address"),
+  buyerName: z.string().trim().min(1, "Name is required").max(100)
 });
 
 // Ticket validation
@@ -114,4 +389,52 @@ export const validateTicketSchema = z.object({
 export const refundSchema = z.object({
   amountCents: z.number().int().min(1).optional(),
   reason: z.string().max(500).optional()
-});
\ No newline at end of file
+});
+
+// A buyer asking for some of their tickets back
+export const refundRequestSchema = z.object({
+  buyerEmail: z.string().trim().email("Enter the email you ordered with"),
+  ticketIds: z.array(z.string().uuid()).min(1, "Pick at least one ticket").max(100),
+  reason: z.string().trim().min(1, "Tell the organizer why you need a refund").max(1000)
+});
+
+// Organizer decisions - leave amountCents off to refund what was requested
+export const refundApprovalSchema = z.object({
+  amountCents: z.number().int().min(0).optional(),
+  note: z.string().trim().max(1000).optional()
+});
+
+export const refundDeclineSchema = z.object({
+  note: z.string().trim().max(1000).optional()
+});
+
+// Organizer webhook endpoints - receivers must be reachable over https
+export const organizerWebhookSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL").refine(url => url.startsWith('https://'), "Webhook URLs must use https"),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, "Pick at least one event"),
+  description: z.string().trim().max(200).optional()
+});
+
+export const updateOrganizerWebhookSchema = organizerWebhookSchema.partial().extend({
+  isActive: z.boolean().optional()
+});
+
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name the key so you can tell it apart").max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Pick at least one permission").default([...API_KEY_SCOPES])
+});
+
+// Admin-triggered reconciliation - leave the range off to continue from the last run
+export const reconciliationRunSchema = z.object({
+  since: z.string().datetime().optional(),
+  until: z.string().datetime().optional()
+}).refine(data => !data.since || !data.until || new Date(data.since) < new Date(data.until), "since must be before until");
+
+export const resolveMismatchSchema = z.object({
+  note: z.string().trim().min(1, "Say what was done about it").max(1000)
+});
+
+export const taxSummaryQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  quarter: z.coerce.number().int().min(1).max(4)
+});
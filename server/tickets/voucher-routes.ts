@@ -0,0 +1,93 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { requireCheckinAccess } from "./scanner-routes";
+import { ScannerService, type CheckinActor } from "./scanner-service";
+import { ProductService } from "./product-service";
+import { redeemVoucherSchema } from "./validation";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+export function addVoucherRoutes(app: Express) {
+
+  // Every add-on voucher sold for an event, for the organizer or door staff to look up
+  app.get('/api/tickets/events/:eventId/vouchers', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      if (!await ScannerService.canAccessEvent(req.checkinActor!, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const vouchers = await ticketsStorage.getVouchersByEvent(eventId);
+      res.json({
+        ok: true,
+        vouchers,
+        summary: {
+          issued: vouchers.filter(v => v.status === 'issued').length,
+          redeemed: vouchers.filter(v => v.status === 'redeemed').length
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching vouchers:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch vouchers' });
+    }
+  });
+
+  // Hand over a parking pass, merch item etc. and mark its voucher used
+  app.post('/api/tickets/events/:eventId/vouchers/redeem', requireTicketing, requireCheckinAccess, async (req: Request & { checkinActor?: CheckinActor }, res: Response) => {
+    try {
+      const { code } = redeemVoucherSchema.parse(req.body);
+      const { eventId } = req.params;
+      if (!await ScannerService.canAccessEvent(req.checkinActor!, eventId)) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const { checkInBy } = ScannerService.attributionFor(req.checkinActor!);
+      const result = await ProductService.redeemVoucher(eventId, code, checkInBy);
+
+      if (result.state === 'not_found') {
+        return res.status(404).json({ ok: false, status: 'not_found', error: 'No voucher with that code for this event' });
+      }
+
+      const meta = {
+        code: result.voucher.code,
+        itemName: result.tier.name,
+        redeemedAt: result.voucher.redeemedAt,
+        redeemedBy: result.voucher.redeemedBy
+      };
+
+      if (result.state === 'void') {
+        return res.json({ ok: false, status: 'void', error: 'This voucher was refunded', meta });
+      }
+      if (result.state === 'already_redeemed') {
+        return res.json({ ok: false, status: 'used', error: 'This voucher has already been redeemed', meta });
+      }
+
+      await ticketsStorage.createAuditLog({
+        actorType: req.checkinActor!.type,
+        actorId: req.checkinActor!.type === 'scanner' ? req.checkinActor!.scanner.id : req.checkinActor!.organizer.id,
+        action: 'voucher_redeemed',
+        targetType: 'event',
+        targetId: eventId,
+        metaJson: { voucherId: result.voucher.id, code: result.voucher.code, tierId: result.tier.id },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true, status: 'redeemed', meta });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: error.errors?.[0]?.message || 'Invalid voucher code' });
+      }
+      console.error('Error redeeming voucher:', error);
+      res.status(500).json({ ok: false, error: 'Failed to redeem voucher' });
+    }
+  });
+}
@@ -0,0 +1,271 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { WaitlistService } from "./waitlist-service";
+import { OccurrenceService } from "./occurrence-service";
+import { joinWaitlistSchema, reorderWaitlistSchema } from "./validation";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Middleware to check organizer auth
+const requireOrganizer = async (req: Request & { session?: any; organizer?: any }, res: Response, next: any) => {
+  let organizer = null;
+
+  if (req.session?.userId) {
+    organizer = await ticketsStorage.getOrganizerByUserId(req.session.userId);
+  }
+
+  if (!organizer && req.session?.organizerId) {
+    organizer = await ticketsStorage.getOrganizerById(req.session.organizerId);
+  }
+
+  if (!organizer) {
+    return res.status(401).json({ ok: false, error: 'Please log in as an organizer' });
+  }
+
+  if (organizer.status === 'suspended') {
+    return res.status(401).json({ ok: false, error: 'Organizer account suspended' });
+  }
+
+  req.organizer = organizer;
+  next();
+};
+
+export function addWaitlistRoutes(app: Express) {
+
+  // ============ BUYER ENDPOINTS ============
+
+  // Join the waitlist for a sold-out tier
+  app.post('/api/tickets/events/:eventId/tiers/:tierId/waitlist', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      const { eventId, tierId } = req.params;
+      const validated = joinWaitlistSchema.parse(req.body);
+      const email = validated.email.trim().toLowerCase();
+
+      const event = await ticketsStorage.getEventById(eventId);
+      if (!event || event.status !== 'published') {
+        return res.status(404).json({ ok: false, error: 'Event not available' });
+      }
+
+      const tier = await ticketsStorage.getTierById(tierId);
+      if (!tier || tier.eventId !== eventId) {
+        return res.status(404).json({ ok: false, error: 'Ticket tier not found' });
+      }
+
+      // Series events sell out one date at a time, so the waitlist is for a date too
+      const occurrence = await OccurrenceService.resolveForCheckout(eventId, validated.occurrenceId, [tierId]);
+      const occurrenceId = occurrence?.id || null;
+
+      // Only sold-out tiers take a waitlist - otherwise the buyer should just check out
+      const available = await ticketsStorage.getAvailableCapacity(tierId, occurrenceId);
+      if (available === null || available >= validated.quantity) {
+        return res.status(400).json({ ok: false, error: 'Tickets are still available for this tier' });
+      }
+
+      const openEntries = await ticketsStorage.getWaitlistByTier(tierId, ['waiting', 'offered']);
+      const existing = openEntries.find(e => e.email.toLowerCase() === email && (e.occurrenceId || null) === occurrenceId);
+      if (existing) {
+        return res.json({
+          ok: true,
+          alreadyJoined: true,
+          position: openEntries.indexOf(existing) + 1
+        });
+      }
+
+      const entry = await ticketsStorage.createWaitlistEntry({
+        eventId,
+        tierId,
+        occurrenceId,
+        email,
+        name: validated.name,
+        phone: validated.phone,
+        quantity: validated.quantity,
+        position: await ticketsStorage.getNextWaitlistPosition(tierId),
+        status: 'waiting'
+      });
+
+      await ticketsStorage.createAudit({
+        actorType: 'user',
+        actorId: email,
+        action: 'waitlist_joined',
+        targetType: 'waitlist',
+        targetId: entry.id,
+        metaJson: { eventId, tierId, occurrenceId, quantity: entry.quantity },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      console.log(`[Waitlist] ${email} joined waitlist for tier ${tierId}`);
+
+      res.json({
+        ok: true,
+        entryId: entry.id,
+        position: openEntries.length + 1
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: 'Invalid waitlist details' });
+      }
+      if (error.occurrenceInvalid) {
+        return res.status(400).json({ ok: false, error: error.message });
+      }
+      console.error('Error joining waitlist:', error);
+      res.status(500).json({ ok: false, error: 'Failed to join waitlist' });
+    }
+  });
+
+  // Look up a waitlist offer from its claim link
+  app.get('/api/tickets/waitlist/claim/:token', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      const entry = await WaitlistService.getActiveOffer(req.params.token);
+      if (!entry) {
+        return res.status(404).json({ ok: false, error: 'This offer has expired or was already claimed' });
+      }
+
+      res.json({
+        ok: true,
+        offer: {
+          eventId: entry.eventId,
+          tierId: entry.tierId,
+          occurrenceId: entry.occurrenceId,
+          quantity: entry.quantity,
+          email: entry.email,
+          name: entry.name,
+          phone: entry.phone,
+          offerExpiresAt: entry.offerExpiresAt
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching waitlist offer:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch waitlist offer' });
+    }
+  });
+
+  // ============ ORGANIZER ENDPOINTS ============
+
+  // Get the waitlist queue for an event
+  app.get('/api/tickets/events/:eventId/waitlist', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+
+      const event = await ticketsStorage.getEventById(eventId);
+      if (!event || event.organizerId !== req.organizer.id) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const [entries, tiers] = await Promise.all([
+        ticketsStorage.getWaitlistByEvent(eventId),
+        ticketsStorage.getTiersByEvent(eventId)
+      ]);
+      const tierNames = new Map(tiers.map(t => [t.id, t.name]));
+
+      res.json({
+        ok: true,
+        entries: entries
+          .filter(e => e.status !== 'removed')
+          .map(e => ({ ...e, tierName: tierNames.get(e.tierId) || 'Unknown tier' }))
+      });
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+      res.status(500).json({ ok: false, error: 'Failed to fetch waitlist' });
+    }
+  });
+
+  // Reorder the waiting entries of a tier
+  app.patch('/api/tickets/events/:eventId/waitlist/reorder', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId } = req.params;
+      const { tierId, entryIds } = reorderWaitlistSchema.parse(req.body);
+
+      const event = await ticketsStorage.getEventById(eventId);
+      if (!event || event.organizerId !== req.organizer.id) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const tier = await ticketsStorage.getTierById(tierId);
+      if (!tier || tier.eventId !== eventId) {
+        return res.status(404).json({ ok: false, error: 'Tier not found' });
+      }
+
+      const waiting = await ticketsStorage.getWaitlistByTier(tierId, ['waiting']);
+      const waitingById = new Map(waiting.map(e => [e.id, e]));
+
+      if (entryIds.some(id => !waitingById.has(id))) {
+        return res.status(400).json({ ok: false, error: 'Only waiting entries of this tier can be reordered' });
+      }
+
+      // Reuse the entries' existing position slots so unlisted entries keep their place
+      const slots = entryIds.map(id => waitingById.get(id)!.position).sort((a, b) => a - b);
+      for (let i = 0; i < entryIds.length; i++) {
+        if (waitingById.get(entryIds[i])!.position !== slots[i]) {
+          await ticketsStorage.updateWaitlistEntry(entryIds[i], { position: slots[i] });
+        }
+      }
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'waitlist_reordered',
+        targetType: 'tier',
+        targetId: tierId,
+        metaJson: { entryIds },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ ok: false, error: 'Invalid reorder request' });
+      }
+      console.error('Error reordering waitlist:', error);
+      res.status(500).json({ ok: false, error: 'Failed to reorder waitlist' });
+    }
+  });
+
+  // Remove someone from the waitlist
+  app.delete('/api/tickets/events/:eventId/waitlist/:entryId', requireTicketing, requireOrganizer, async (req: Request & { organizer?: any }, res: Response) => {
+    try {
+      const { eventId, entryId } = req.params;
+
+      const event = await ticketsStorage.getEventById(eventId);
+      if (!event || event.organizerId !== req.organizer.id) {
+        return res.status(403).json({ ok: false, error: 'Access denied' });
+      }
+
+      const entry = await ticketsStorage.getWaitlistEntryById(entryId);
+      if (!entry || entry.eventId !== eventId) {
+        return res.status(404).json({ ok: false, error: 'Waitlist entry not found' });
+      }
+
+      if (entry.status !== 'waiting' && entry.status !== 'offered') {
+        return res.status(400).json({ ok: false, error: `Entry is already ${entry.status}` });
+      }
+
+      await WaitlistService.removeEntry(entry);
+
+      await ticketsStorage.createAuditLog({
+        actorType: 'organizer',
+        actorId: req.organizer.id,
+        action: 'waitlist_entry_removed',
+        targetType: 'waitlist',
+        targetId: entryId,
+        metaJson: { email: entry.email, previousStatus: entry.status },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+
+      res.json({ ok: true });
+    } catch (error) {
+      console.error('Error removing waitlist entry:', error);
+      res.status(500).json({ ok: false, error: 'Failed to remove waitlist entry' });
+    }
+  });
+}
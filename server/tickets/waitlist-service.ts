@@ -0,0 +1,183 @@
+import { nanoid } from 'nanoid';
+import { ticketsStorage } from './tickets-storage';
+import type { TicketsWaitlistEntry } from '@shared/schema';
+
+// How long a waitlist offer holds its seats before passing to the next person
+const OFFER_WINDOW_MS = parseInt(process.env.TICKETS_WAITLIST_OFFER_HOURS || '24', 10) * 60 * 60 * 1000;
+
+// How often the sweep job expires stale offers and fills freed capacity
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class WaitlistService {
+  /**
+   * Reservation ID used to hold seats for a waitlist offer
+   */
+  static reservationIdFor(entryId: string): string {
+    return `waitlist_${entryId}`;
+  }
+
+  /**
+   * Offer freed seats on a tier to the people at the front of its waitlist.
+   * Strictly first-in-first-out: if the head of the queue wants more seats than
+   * are free, nobody behind them jumps ahead. On a series event each date is
+   * its own queue, since seats freed on one date can't go to someone waiting for another.
+   */
+  static async offerNextForTier(tierId: string): Promise<TicketsWaitlistEntry[]> {
+    const offered: TicketsWaitlistEntry[] = [];
+
+    const waiting = await ticketsStorage.getWaitlistByTier(tierId, ['waiting']);
+    if (waiting.length === 0) return offered;
+
+    // Seats left per date ('' for entries not tied to one); a date stops once its head can't be served
+    const available = new Map<string, number>();
+    const blocked = new Set<string>();
+
+    for (const entry of waiting) {
+      const dateKey = entry.occurrenceId || '';
+      if (blocked.has(dateKey)) continue;
+
+      if (!available.has(dateKey)) {
+        // No capacity limit means everyone can just buy
+        const capacity = await ticketsStorage.getAvailableCapacity(tierId, entry.occurrenceId);
+        available.set(dateKey, capacity ?? Number.MAX_SAFE_INTEGER);
+      }
+      if (entry.quantity > available.get(dateKey)!) {
+        blocked.add(dateKey);
+        continue;
+      }
+
+      const reservationId = WaitlistService.reservationIdFor(entry.id);
+      const offerExpiresAt = new Date(Date.now() + OFFER_WINDOW_MS);
+
+      const reserved = await ticketsStorage.reserveCapacity(tierId, entry.quantity, reservationId, offerExpiresAt, entry.occurrenceId);
+      if (!reserved) {
+        blocked.add(dateKey);
+        continue;
+      }
+
+      const updated = await ticketsStorage.updateWaitlistEntry(entry.id, {
+        status: 'offered',
+        claimToken: nanoid(32),
+        reservationId,
+        offeredAt: new Date(),
+        offerExpiresAt
+      });
+
+      available.set(dateKey, available.get(dateKey)! - entry.quantity);
+      offered.push(updated);
+
+      try {
+        const { sendWaitlistOfferEmail } = await import('./email-service');
+        await sendWaitlistOfferEmail(updated.id);
+      } catch (emailError) {
+        console.error('[Waitlist] Failed to send offer email:', emailError);
+        // Don't fail the offer if email fails - organizer can see it in the queue
+      }
+
+      await ticketsStorage.createAudit({
+        actorType: 'system',
+        actorId: 'waitlist',
+        action: 'waitlist_offer_sent',
+        targetType: 'waitlist',
+        targetId: entry.id,
+        metaJson: { tierId, occurrenceId: entry.occurrenceId, quantity: entry.quantity, offerExpiresAt: offerExpiresAt.toISOString() }
+      });
+    }
+
+    if (offered.length > 0) {
+      console.log(`[Waitlist] Sent ${offered.length} offer(s) for tier ${tierId}`);
+    }
+
+    return offered;
+  }
+
+  /**
+   * Capacity was freed on a tier (refund, cancellation, released hold) - try to fill it
+   */
+  static async handleCapacityReleased(tierIds: string[]): Promise<void> {
+    for (const tierId of Array.from(new Set(tierIds))) {
+      try {
+        await WaitlistService.offerNextForTier(tierId);
+      } catch (error) {
+        console.error(`[Waitlist] Error offering seats for tier ${tierId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Look up a live offer by its claim token. Returns null when the token is unknown,
+   * already used or past its expiry.
+   */
+  static async getActiveOffer(claimToken: string): Promise<TicketsWaitlistEntry | null> {
+    const entry = await ticketsStorage.getWaitlistEntryByToken(claimToken);
+    if (!entry || entry.status !== 'offered') return null;
+    if (!entry.offerExpiresAt || new Date(entry.offerExpiresAt) < new Date()) return null;
+    return entry;
+  }
+
+  /**
+   * Mark the offer linked to a paid order as claimed and release its hold,
+   * since the seats are now counted as sold tickets.
+   */
+  static async markClaimedForOrder(orderId: string): Promise<void> {
+    const entry = await ticketsStorage.getWaitlistEntryByOrderId(orderId);
+    if (!entry || entry.status === 'claimed') return;
+
+    await ticketsStorage.updateWaitlistEntry(entry.id, {
+      status: 'claimed',
+      claimedAt: new Date()
+    });
+
+    if (entry.reservationId) {
+      await ticketsStorage.releaseCapacity(entry.tierId, entry.quantity, entry.reservationId);
+    }
+
+    console.log(`[Waitlist] Entry ${entry.id} claimed by order ${orderId}`);
+  }
+
+  /**
+   * Remove an entry from the queue, releasing any seats its offer was holding
+   */
+  static async removeEntry(entry: TicketsWaitlistEntry): Promise<void> {
+    await ticketsStorage.updateWaitlistEntry(entry.id, { status: 'removed' });
+
+    if (entry.status === 'offered' && entry.reservationId) {
+      await ticketsStorage.releaseCapacity(entry.tierId, entry.quantity, entry.reservationId);
+      await WaitlistService.handleCapacityReleased([entry.tierId]);
+    }
+  }
+
+  /**
+   * Expire unclaimed offers and hand their seats to the next people in line.
+   * Also picks up capacity freed by expired checkout reservations.
+   */
+  static async sweep(): Promise<void> {
+    try {
+      const expired = await ticketsStorage.getExpiredWaitlistOffers();
+
+      for (const entry of expired) {
+        await ticketsStorage.updateWaitlistEntry(entry.id, { status: 'expired' });
+        if (entry.reservationId) {
+          await ticketsStorage.releaseCapacity(entry.tierId, entry.quantity, entry.reservationId);
+        }
+        console.log(`[Waitlist] Offer expired for entry ${entry.id}`);
+      }
+
+      await ticketsStorage.cleanupExpiredReservations();
+
+      const tierIds = await ticketsStorage.getTiersWithWaitingEntries();
+      await WaitlistService.handleCapacityReleased(tierIds);
+    } catch (error) {
+      console.error('[Waitlist] Error during sweep:', error);
+    }
+  }
+}
+
+export function startWaitlistScheduler(): void {
+  console.log('[Waitlist] Starting waitlist scheduler...');
+
+  WaitlistService.sweep();
+  setInterval(() => WaitlistService.sweep(), SWEEP_INTERVAL_MS);
+
+  console.log('[Waitlist] Scheduler started - sweeping every 5 minutes');
+}
@@ -0,0 +1,180 @@
+import type { Express, Request, Response } from "express";
+import { ticketsStorage } from "./tickets-storage";
+import { TransferService } from "./transfer-service";
+import { WalletService } from "./wallet-service";
+
+// Middleware to check if ticketing is enabled
+const isTicketingEnabled = () => process.env.ENABLE_TICKETING === 'true';
+
+const requireTicketing = (req: Request, res: Response, next: any) => {
+  if (!isTicketingEnabled()) {
+    return res.status(404).json({ ok: false, disabled: true });
+  }
+  next();
+};
+
+// Wallet apps authenticate with the token baked into the pass
+const passAuthToken = (req: Request) => (req.headers.authorization || '').replace(/^ApplePass\s+/i, '');
+
+export function addWalletRoutes(app: Express) {
+
+  // ============ ADD TO WALLET ============
+
+  // Wallet links for a signed-in holder's ticket page
+  app.get('/api/tickets/my-tickets/:ticketId/wallet', requireTicketing, async (req: Request & { session?: any }, res: Response) => {
+    try {
+      if (!req.session?.userId) {
+        return res.status(401).json({ ok: false, error: 'Please sign in to view your tickets' });
+      }
+      const owned = await TransferService.getOwnedTicket(req.params.ticketId, req.session.userId);
+      if (!owned || owned.ticket.status !== 'valid') {
+        return res.status(404).json({ ok: false, error: 'Ticket not found' });
+      }
+
+      res.json({ ok: true, ...WalletService.passLinks(owned.ticket) });
+    } catch (error) {
+      console.error('Error getting wallet links:', error);
+      res.status(500).json({ ok: false, error: 'Failed to get wallet links' });
+    }
+  });
+
+  // Download the .pkpass - linked from the ticket email and ticket page
+  app.get('/api/tickets/wallet/:ticketId/apple', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      if (!WalletService.isAppleConfigured()) {
+        return res.status(404).json({ ok: false, error: 'Apple Wallet passes are not available' });
+      }
+      const context = await WalletService.loadPassContext(req.params.ticketId);
+      if (!context || !WalletService.checkAuthenticationToken(context.ticket, req.query.token as string)) {
+        return res.status(404).json({ ok: false, error: 'Ticket not found' });
+      }
+
+      res.setHeader('Content-Type', 'application/vnd.apple.pkpass');
+      res.setHeader('Content-Disposition', `attachment; filename="${context.ticket.serial}.pkpass"`);
+      res.setHeader('Last-Modified', WalletService.lastUpdated(context).toUTCString());
+      res.send(WalletService.buildApplePass(context));
+    } catch (error) {
+      console.error('Error building Apple Wallet pass:', error);
+      res.status(500).json({ ok: false, error: 'Failed to build pass' });
+    }
+  });
+
+  // Send the holder to Google with a freshly signed save link
+  app.get('/api/tickets/wallet/:ticketId/google', requireTicketing, async (req: Request, res: Response) => {
+    try {
+      if (!WalletService.isGoogleConfigured()) {
+        return res.status(404).json({ ok: false, error: 'Google Wallet passes are not available' });
+      }
+      const context = await WalletService.loadPassContext(req.params.ticketId);
+      if (!context || !WalletService.checkAuthenticationToken(context.ticket, req.query.token as string)) {
+        return res.status(404).json({ ok: false, error: 'Ticket not found' });
+      }
+
+      res.redirect(WalletService.googleSaveUrl(context));
+    } catch (error) {
+      console.error('Error building Google Wallet link:', error);
+      res.status(500).json({ ok: false, error: 'Failed to build pass' });
+    }
+  });
+
+  // ============ APPLE PASSKIT WEB SERVICE ============
+  // Devices that saved a pass register here and fetch the new version after a push
+
+  app.post('/api/tickets/wallet/apple/v1/devices/:deviceId/registrations/:passTypeId/:serialNumber', async (req: Request, res: Response) => {
+    try {
+      const context = await WalletService.loadPassContext(req.params.serialNumber);
+      if (!context || !WalletService.checkAuthenticationToken(context.ticket, passAuthToken(req))) {
+        return res.sendStatus(401);
+      }
+      if (!req.body?.pushToken) {
+        return res.sendStatus(400);
+      }
+
+      const existing = await ticketsStorage.getWalletRegistrationsByDevice(req.params.deviceId, req.params.passTypeId);
+      await ticketsStorage.upsertWalletRegistration({
+        deviceLibraryId: req.params.deviceId,
+        pushToken: req.body.pushToken,
+        passTypeId: req.params.passTypeId,
+        ticketId: context.ticket.id,
+        eventId: context.event.id
+      });
+      res.sendStatus(existing.some(r => r.ticketId === context.ticket.id) ? 200 : 201);
+    } catch (error) {
+      console.error('Error registering wallet device:', error);
+      res.sendStatus(500);
+    }
+  });
+
+  app.delete('/api/tickets/wallet/apple/v1/devices/:deviceId/registrations/:passTypeId/:serialNumber', async (req: Request, res: Response) => {
+    try {
+      const context = await WalletService.loadPassContext(req.params.serialNumber);
+      if (!context || !WalletService.checkAuthenticationToken(context.ticket, passAuthToken(req))) {
+        return res.sendStatus(401);
+      }
+
+      await ticketsStorage.deleteWalletRegistration(req.params.deviceId, context.ticket.id);
+      res.sendStatus(200);
+    } catch (error) {
+      console.error('Error unregistering wallet device:', error);
+      res.sendStatus(500);
+    }
+  });
+
+  // Which of a device's passes changed since its last check. The tag is a unix timestamp.
+  app.get('/api/tickets/wallet/apple/v1/devices/:deviceId/registrations/:passTypeId', async (req: Request, res: Response) => {
+    try {
+      const registrations = await ticketsStorage.getWalletRegistrationsByDevice(req.params.deviceId, req.params.passTypeId);
+      const since = Number(req.query.passesUpdatedSince) || 0;
+
+      const serialNumbers: string[] = [];
+      let lastUpdated = since;
+      for (const registration of registrations) {
+        const context = await WalletService.loadPassContext(registration.ticketId);
+        if (!context) continue;
+        const updated = Math.floor(WalletService.lastUpdated(context).getTime() / 1000);
+        if (updated > since) {
+          serialNumbers.push(registration.ticketId);
+          lastUpdated = Math.max(lastUpdated, updated);
+        }
+      }
+
+      if (serialNumbers.length === 0) {
+        return res.sendStatus(204);
+      }
+      res.json({ serialNumbers, lastUpdated: String(lastUpdated) });
+    } catch (error) {
+      console.error('Error listing updated wallet passes:', error);
+      res.sendStatus(500);
+    }
+  });
+
+  app.get('/api/tickets/wallet/apple/v1/passes/:passTypeId/:serialNumber', async (req: Request, res: Response) => {
+    try {
+      const context = await WalletService.loadPassContext(req.params.serialNumber);
+      if (!context || !WalletService.checkAuthenticationToken(context.ticket, passAuthToken(req))) {
+        return res.sendStatus(401);
+      }
+
+      const lastUpdated = WalletService.lastUpdated(context);
+      const ifModifiedSince = req.headers['if-modified-since'];
+      if (ifModifiedSince && new Date(ifModifiedSince) >= lastUpdated) {
+        return res.sendStatus(304);
+      }
+
+      res.setHeader('Content-Type', 'application/vnd.apple.pkpass');
+      res.setHeader('Last-Modified', lastUpdated.toUTCString());
+      res.send(WalletService.buildApplePass(context));
+    } catch (error) {
+      console.error('Error serving updated wallet pass:', error);
+      res.sendStatus(500);
+    }
+  });
+
+  // Devices report pass problems here - worth keeping in the server logs
+  app.post('/api/tickets/wallet/apple/v1/log', (req: Request, res: Response) => {
+    for (const message of req.body?.logs || []) {
+      console.warn('[Wallet] Device log:', message);
+    }
+    res.sendStatus(200);
+  });
+}
@@ -0,0 +1,443 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http2 from 'http2';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import forge from 'node-forge';
+import jwt from 'jsonwebtoken';
+import { ticketsStorage } from './tickets-storage';
+import { QrSigningService } from './qr-signing';
+import type { TicketsEvent, TicketsEventOccurrence, TicketsOrder, TicketsTicket, TicketsTier } from '@shared/schema';
+
+const baseUrl = () => process.env.VITE_BASE_URL || 'https://thehouseofjugnu.com';
+
+// Everything a pass shows about one ticket
+export interface PassContext {
+  ticket: TicketsTicket;
+  order: TicketsOrder;
+  event: TicketsEvent;
+  tier: TicketsTier;
+  occurrence: TicketsEventOccurrence | null;
+}
+
+interface AppleWalletConfig {
+  passTypeId: string;
+  teamId: string;
+  certPem: string;
+  keyPem: string;
+  keyPassphrase?: string;
+  wwdrPem: string;
+  iconPath: string;
+}
+
+interface GoogleWalletConfig {
+  issuerId: string;
+  clientEmail: string;
+  privateKey: string;
+}
+
+// Keys and certificates can be given inline (with \n escapes) or as a path to a PEM file
+const readPem = (value: string): string => {
+  const pem = value.replace(/\\n/g, '\n');
+  return pem.includes('-----BEGIN') ? pem : fs.readFileSync(value, 'utf8');
+};
+
+let appleConfig: AppleWalletConfig | null | undefined;
+let googleConfig: GoogleWalletConfig | null | undefined;
+
+/**
+ * Apple passes are signed with the pass type certificate from the developer account
+ * plus Apple's WWDR intermediate. Point these at a self-signed pair to try it locally.
+ */
+const loadAppleConfig = (): AppleWalletConfig | null => {
+  if (appleConfig !== undefined) return appleConfig;
+
+  const { APPLE_WALLET_PASS_TYPE_ID, APPLE_WALLET_TEAM_ID, APPLE_WALLET_CERT, APPLE_WALLET_KEY, APPLE_WALLET_WWDR_CERT } = process.env;
+  if (!APPLE_WALLET_PASS_TYPE_ID || !APPLE_WALLET_TEAM_ID || !APPLE_WALLET_CERT || !APPLE_WALLET_KEY || !APPLE_WALLET_WWDR_CERT) {
+    console.warn('[Wallet] Apple Wallet not configured - .pkpass downloads disabled');
+    appleConfig = null;
+    return null;
+  }
+
+  appleConfig = {
+    passTypeId: APPLE_WALLET_PASS_TYPE_ID,
+    teamId: APPLE_WALLET_TEAM_ID,
+    certPem: readPem(APPLE_WALLET_CERT),
+    keyPem: readPem(APPLE_WALLET_KEY),
+    keyPassphrase: process.env.APPLE_WALLET_KEY_PASSPHRASE,
+    wwdrPem: readPem(APPLE_WALLET_WWDR_CERT),
+    iconPath: process.env.APPLE_WALLET_ICON || path.resolve(process.cwd(), 'client', 'public', 'favicon.png')
+  };
+  return appleConfig;
+};
+
+const loadGoogleConfig = (): GoogleWalletConfig | null => {
+  if (googleConfig !== undefined) return googleConfig;
+
+  const { GOOGLE_WALLET_ISSUER_ID, GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL, GOOGLE_WALLET_PRIVATE_KEY } = process.env;
+  if (!GOOGLE_WALLET_ISSUER_ID || !GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL || !GOOGLE_WALLET_PRIVATE_KEY) {
+    console.warn('[Wallet] Google Wallet not configured - save links disabled');
+    googleConfig = null;
+    return null;
+  }
+
+  googleConfig = {
+    issuerId: GOOGLE_WALLET_ISSUER_ID,
+    clientEmail: GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL,
+    privateKey: readPem(GOOGLE_WALLET_PRIVATE_KEY)
+  };
+  return googleConfig;
+};
+
+// ============ SIGNATURE ============
+
+/**
+ * Detached PKCS#7 signature over the manifest, the same thing
+ * `openssl smime -sign -binary -outform DER` produces
+ */
+const signManifest = (manifest: Buffer, config: AppleWalletConfig): Buffer => {
+  // Let Node decrypt the key whatever its format; forge takes it from there
+  const keyPem = crypto.createPrivateKey({ key: config.keyPem, passphrase: config.keyPassphrase })
+    .export({ type: 'pkcs8', format: 'pem' })
+    .toString();
+  const signerCert = forge.pki.certificateFromPem(config.certPem);
+
+  const signedData = forge.pkcs7.createSignedData();
+  signedData.content = forge.util.createBuffer(manifest.toString('binary'));
+  signedData.addCertificate(signerCert);
+  signedData.addCertificate(forge.pki.certificateFromPem(config.wwdrPem));
+  signedData.addSigner({
+    key: forge.pki.privateKeyFromPem(keyPem),
+    certificate: signerCert,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime }
+    ]
+  });
+  signedData.sign({ detached: true });
+
+  return Buffer.from(forge.asn1.toDer(signedData.toAsn1()).getBytes(), 'binary');
+};
+
+// ============ PUSH & GOOGLE API ============
+
+// An empty push tells the device to ask our web service what changed
+const pushToDevices = async (config: AppleWalletConfig, pushTokens: string[]): Promise<void> => {
+  if (pushTokens.length === 0) return;
+
+  const client = http2.connect('https://api.push.apple.com', {
+    cert: config.certPem,
+    key: config.keyPem,
+    passphrase: config.keyPassphrase
+  });
+  client.on('error', (error) => console.error('[Wallet] APNs connection error:', error));
+
+  try {
+    await Promise.all(pushTokens.map(token => new Promise<void>((resolve) => {
+      const request = client.request({
+        ':method': 'POST',
+        ':path': `/3/device/${token}`,
+        'apns-topic': config.passTypeId
+      });
+      request.setTimeout(10000, () => request.close());
+      request.on('response', (headers) => {
+        if (headers[':status'] !== 200) {
+          console.warn(`[Wallet] APNs push to ${token.slice(0, 8)}... returned ${headers[':status']}`);
+        }
+      });
+      request.on('error', (error) => console.error('[Wallet] APNs push failed:', error));
+      request.on('close', () => resolve());
+      request.end('{}');
+    })));
+  } finally {
+    client.close();
+  }
+};
+
+const googleAccessToken = async (config: GoogleWalletConfig): Promise<string> => {
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = jwt.sign({
+    iss: config.clientEmail,
+    scope: 'https://www.googleapis.com/auth/wallet_object.issuer',
+    aud: 'https://oauth2.googleapis.com/token',
+    iat: now,
+    exp: now + 3600
+  }, config.privateKey, { algorithm: 'RS256' });
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion })
+  });
+  if (!response.ok) throw new Error(`Google token request failed: ${response.status}`);
+  return (await response.json()).access_token;
+};
+
+// Patch something already in people's wallets; a 404 just means nobody has saved it yet
+const patchGoogleResource = async (accessToken: string, resource: 'eventTicketClass' | 'eventTicketObject', body: { id: string }): Promise<void> => {
+  const response = await fetch(`https://walletobjects.googleapis.com/walletobjects/v1/${resource}/${body.id}`, {
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok && response.status !== 404) {
+    console.error(`[Wallet] Google ${resource} ${body.id} update failed: ${response.status}`);
+  }
+};
+
+export class WalletService {
+  static isAppleConfigured(): boolean {
+    return !!loadAppleConfig();
+  }
+
+  static isGoogleConfigured(): boolean {
+    return !!loadGoogleConfig();
+  }
+
+  /**
+   * Secret the pass carries so the device (or an emailed link) can fetch it again.
+   * Derived from the QR token, so anyone who has it already has the ticket.
+   */
+  static authenticationToken(ticket: Pick<TicketsTicket, 'id' | 'qrToken'>): string {
+    return crypto.createHash('sha256').update(`wallet:${ticket.id}:${ticket.qrToken}`).digest('hex');
+  }
+
+  static checkAuthenticationToken(ticket: Pick<TicketsTicket, 'id' | 'qrToken'>, token: string | undefined): boolean {
+    const expected = Buffer.from(WalletService.authenticationToken(ticket));
+    const given = Buffer.from(token || '');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  /**
+   * Add-to-wallet links for emails and the ticket page. They go through our server
+   * so the pass is built fresh when it's opened. Null where a wallet isn't configured.
+   */
+  static passLinks(ticket: Pick<TicketsTicket, 'id' | 'qrToken'>): { appleUrl: string | null; googleUrl: string | null } {
+    const token = WalletService.authenticationToken(ticket);
+    return {
+      appleUrl: WalletService.isAppleConfigured() ? `${baseUrl()}/api/tickets/wallet/${ticket.id}/apple?token=${token}` : null,
+      googleUrl: WalletService.isGoogleConfigured() ? `${baseUrl()}/api/tickets/wallet/${ticket.id}/google?token=${token}` : null
+    };
+  }
+
+  static async loadPassContext(ticketId: string): Promise<PassContext | null> {
+    const ticket = await ticketsStorage.getTicketById(ticketId);
+    if (!ticket) return null;
+    const orderItem = await ticketsStorage.getOrderItemById(ticket.orderItemId);
+    const order = orderItem ? await ticketsStorage.getOrderById(orderItem.orderId) : null;
+    const event = order ? await ticketsStorage.getEventById(order.eventId) : null;
+    const tier = await ticketsStorage.getTierById(ticket.tierId);
+    if (!order || !event || !tier) return null;
+    const occurrence = ticket.occurrenceId ? await ticketsStorage.getOccurrenceById(ticket.occurrenceId) : null;
+    return { ticket, order, event, tier, occurrence };
+  }
+
+  /**
+   * When the pass last changed - event edits (occurrence edits sync into the event too),
+   * or the ticket being used, refunded or transferred
+   */
+  static lastUpdated({ ticket, event }: PassContext): Date {
+    const times = [event.updatedAt, ticket.createdAt, ticket.usedAt, ticket.refundedAt, ticket.transferredAt]
+      .filter(Boolean)
+      .map(t => new Date(t!).getTime());
+    // Whole seconds, since that's what Last-Modified and the update tag carry
+    return new Date(Math.floor(Math.max(...times) / 1000) * 1000);
+  }
+
+  private static schedule(event: TicketsEvent, occurrence: TicketsEventOccurrence | null): { startAt: Date; endAt: Date | null } {
+    const source = occurrence || event;
+    return { startAt: new Date(source.startAt), endAt: source.endAt ? new Date(source.endAt) : null };
+  }
+
+  private static holderName({ ticket, order }: PassContext): string | null {
+    return ticket.holderEmail ? ticket.holderName : order.buyerName;
+  }
+
+  static buildApplePass(context: PassContext): Buffer {
+    const config = loadAppleConfig();
+    if (!config) throw new Error('Apple Wallet is not configured');
+
+    const { ticket, event, tier, occurrence } = context;
+    const { startAt } = WalletService.schedule(event, occurrence);
+    const code = QrSigningService.signTicket(ticket, event.id);
+    const holderName = WalletService.holderName(context);
+
+    const pass = {
+      formatVersion: 1,
+      passTypeIdentifier: config.passTypeId,
+      teamIdentifier: config.teamId,
+      serialNumber: ticket.id,
+      authenticationToken: WalletService.authenticationToken(ticket),
+      webServiceURL: `${baseUrl()}/api/tickets/wallet/apple`,
+      organizationName: 'Jugnu',
+      description: `Ticket for ${event.title}`,
+      logoText: 'Jugnu',
+      foregroundColor: 'rgb(255, 255, 255)',
+      backgroundColor: 'rgb(28, 20, 16)',
+      labelColor: 'rgb(232, 196, 160)',
+      relevantDate: startAt.toISOString(),
+      // Used, refunded and transferred-away tickets stay in the wallet but can't be shown at the door
+      voided: ticket.status !== 'valid',
+      barcodes: [{ format: 'PKBarcodeFormatQR', message: code, messageEncoding: 'iso-8859-1', altText: ticket.serial }],
+      barcode: { format: 'PKBarcodeFormatQR', message: code, messageEncoding: 'iso-8859-1', altText: ticket.serial },
+      eventTicket: {
+        primaryFields: [{ key: 'event', label: 'EVENT', value: event.title }],
+        secondaryFields: [
+          {
+            key: 'date',
+            label: 'DATE',
+            value: startAt.toISOString(),
+            dateStyle: 'PKDateStyleMedium',
+            timeStyle: 'PKDateStyleShort',
+            changeMessage: 'Now starting %@'
+          },
+          {
+            key: 'venue',
+            label: 'VENUE',
+            value: event.venue || 'Venue TBA',
+            changeMessage: 'Venue changed to %@'
+          }
+        ],
+        auxiliaryFields: [
+          { key: 'tier', label: 'TICKET', value: tier.name },
+          ...(ticket.seatLabel ? [{ key: 'seat', label: 'SEAT', value: ticket.seatLabel }] : [])
+        ],
+        backFields: [
+          ...(holderName ? [{ key: 'holder', label: 'Ticket holder', value: holderName }] : []),
+          { key: 'serial', label: 'Serial', value: ticket.serial },
+          { key: 'address', label: 'Location', value: [event.venue, event.city, event.province].filter(Boolean).join(', ') },
+          { key: 'manage', label: 'Manage your tickets', value: `${baseUrl()}/my-tickets` }
+        ]
+      }
+    };
+
+    const icon = fs.readFileSync(config.iconPath);
+    const files = [
+      { name: 'pass.json', data: Buffer.from(JSON.stringify(pass)) },
+      { name: 'icon.png', data: icon },
+      { name: 'icon@2x.png', data: icon },
+      { name: 'logo.png', data: icon }
+    ];
+    const manifest = Buffer.from(JSON.stringify(Object.fromEntries(
+      files.map(file => [file.name, crypto.createHash('sha1').update(file.data).digest('hex')])
+    )));
+
+    const pkpass = new AdmZip();
+    for (const file of [...files, { name: 'manifest.json', data: manifest }, { name: 'signature', data: signManifest(manifest, config) }]) {
+      pkpass.addFile(file.name, file.data);
+    }
+    return pkpass.toBuffer();
+  }
+
+  // Series tickets get a class per date so each shows its own time
+  private static googleClass(event: TicketsEvent, occurrence: TicketsEventOccurrence | null, config: GoogleWalletConfig) {
+    const { startAt, endAt } = WalletService.schedule(event, occurrence);
+    return {
+      id: occurrence ? `${config.issuerId}.occurrence-${occurrence.id}` : `${config.issuerId}.event-${event.id}`,
+      issuerName: 'Jugnu',
+      reviewStatus: 'UNDER_REVIEW',
+      eventName: { defaultValue: { language: 'en-US', value: event.title } },
+      venue: {
+        name: { defaultValue: { language: 'en-US', value: event.venue || 'Venue TBA' } },
+        address: { defaultValue: { language: 'en-US', value: `${event.city}, ${event.province}` } }
+      },
+      dateTime: {
+        start: startAt.toISOString(),
+        ...(endAt ? { end: endAt.toISOString() } : {})
+      },
+      hexBackgroundColor: '#1c1410'
+    };
+  }
+
+  private static googleObject(context: PassContext, config: GoogleWalletConfig) {
+    const { ticket, event, tier, occurrence } = context;
+    const holderName = WalletService.holderName(context);
+    return {
+      id: `${config.issuerId}.ticket-${ticket.id}`,
+      classId: WalletService.googleClass(event, occurrence, config).id,
+      state: ticket.status === 'valid' ? 'ACTIVE' : 'INACTIVE',
+      barcode: { type: 'QR_CODE', value: QrSigningService.signTicket(ticket, event.id), alternateText: ticket.serial },
+      ticketNumber: ticket.serial,
+      ticketType: { defaultValue: { language: 'en-US', value: tier.name } },
+      ...(holderName ? { ticketHolderName: holderName } : {}),
+      ...(ticket.seatLabel ? { seatInfo: { seat: { defaultValue: { language: 'en-US', value: ticket.seatLabel } } } } : {})
+    };
+  }
+
+  /**
+   * "Save to Google Wallet" link. The class and object ride along in the signed JWT,
+   * so Google creates them on first save.
+   */
+  static googleSaveUrl(context: PassContext): string {
+    const config = loadGoogleConfig();
+    if (!config) throw new Error('Google Wallet is not configured');
+
+    const token = jwt.sign({
+      iss: config.clientEmail,
+      aud: 'google',
+      typ: 'savetowallet',
+      origins: [baseUrl()],
+      payload: {
+        eventTicketClasses: [WalletService.googleClass(context.event, context.occurrence, config)],
+        eventTicketObjects: [WalletService.googleObject(context, config)]
+      }
+    }, config.privateKey, { algorithm: 'RS256' });
+    return `https://pay.google.com/gp/v/save/${token}`;
+  }
+
+  /**
+   * Tell wallets an event's time, venue or title changed. Failures are logged, never thrown.
+   */
+  static async eventChanged(eventId: string): Promise<void> {
+    try {
+      const apple = loadAppleConfig();
+      if (apple) {
+        const registrations = await ticketsStorage.getWalletRegistrationsByEvent(eventId);
+        await pushToDevices(apple, Array.from(new Set(registrations.map(r => r.pushToken))));
+      }
+
+      const google = loadGoogleConfig();
+      if (google) {
+        const event = await ticketsStorage.getEventById(eventId);
+        if (!event) return;
+        const occurrences = await ticketsStorage.getOccurrencesByEvent(eventId);
+        const accessToken = await googleAccessToken(google);
+        // Event details live on the class, so tickets' objects don't need touching
+        for (const occurrence of [null, ...occurrences]) {
+          await patchGoogleResource(accessToken, 'eventTicketClass', WalletService.googleClass(event, occurrence, google));
+        }
+      }
+    } catch (error) {
+      console.error(`[Wallet] Failed to update passes for event ${eventId}:`, error);
+    }
+  }
+
+  /**
+   * Tell wallets these tickets changed - e.g. one was transferred and its old pass is now void.
+   * Failures are logged, never thrown.
+   */
+  static async ticketsChanged(ticketIds: string[]): Promise<void> {
+    try {
+      const apple = loadAppleConfig();
+      if (apple) {
+        const registrations = await ticketsStorage.getWalletRegistrationsByTickets(ticketIds);
+        await pushToDevices(apple, Array.from(new Set(registrations.map(r => r.pushToken))));
+      }
+
+      const google = loadGoogleConfig();
+      if (google) {
+        const accessToken = await googleAccessToken(google);
+        for (const ticketId of ticketIds) {
+          const context = await WalletService.loadPassContext(ticketId);
+          if (context) {
+            await patchGoogleResource(accessToken, 'eventTicketObject', WalletService.googleObject(context, google));
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[Wallet] Failed to update ticket passes:', error);
+    }
+  }
+}
@@ -79,11 +79,18 @@ export const sponsorCampaigns = pgTable("sponsor_campaigns", {
   startAt: timestamp("start_at", { withTimezone: true }).notNull(),
   endAt: timestamp("end_at", { withTimezone: true }).notNull(),
   priority: integer("priority").notNull().default(0),
+  shareOfVoice: integer("share_of_voice"), // % of serves on each placement; null splits what's left with the other unbooked campaigns
+  creativeRotation: text("creative_rotation").notNull().default("even"), // even | performance | split
+  abAutoPromote: boolean("ab_auto_promote").notNull().default(false), // pause the losing variants once a split test is significant
+  abConfidence: numeric("ab_confidence").notNull().default("0.95"),
+  abMinImpressions: integer("ab_min_impressions").notNull().default(1000), // per variant, before a test can be called
+  abDecisions: jsonb("ab_decisions").notNull().default(sql`'{}'::jsonb`), // each placement's test, called once at ab_min_impressions
   isActive: boolean("is_active").notNull().default(true),
   isSponsored: boolean("is_sponsored").notNull().default(true),
   tags: text("tags").array().default(sql`'{}'`),
   freqCapPerUserPerDay: integer("freq_cap_per_user_per_day").notNull().default(1),
   needsMakegood: boolean("needs_makegood").notNull().default(false),
+  pacingBoosts: jsonb("pacing_boosts").notNull().default(sql`'{}'::jsonb`), // rotation weight multiplier per placement while behind on delivery
 });
 
 export const sponsorCreatives = pgTable("sponsor_creatives", {
@@ -95,6 +102,13 @@ export const sponsorCreatives = pgTable("sponsor_creatives", {
   imageMobileUrl: text("image_mobile_url"),
   logoUrl: text("logo_url"),
   alt: text("alt"),
+  isActive: boolean("is_active").notNull().default(true),
+  variantLabel: text("variant_label"),
+  headline: text("headline"), // copy overrides; null uses the campaign's
+  subline: text("subline"),
+  ctaText: text("cta_text"),
+  trafficWeight: integer("traffic_weight"), // % of the placement's serves under split rotation; null splits what's left
+  promotedAt: timestamp("promoted_at", { withTimezone: true }), // won its placement's A/B test
 });
 
 export const sponsorPortalTokens = pgTable("sponsor_portal_tokens", {
@@ -114,6 +128,7 @@ export const sponsorMetricsDaily = pgTable("sponsor_metrics_daily", {
   day: date("day").notNull(), // Using 'day' column for consistency
   placement: text("placement").notNull(),
   billableImpressions: integer("billable_impressions").default(0),
+  viewableImpressions: integer("viewable_impressions").notNull().default(0),
   rawViews: integer("raw_views").default(0),
   uniqueUsers: integer("unique_users").default(0),
   clicks: integer("clicks").default(0),
@@ -121,6 +136,71 @@ export const sponsorMetricsDaily = pgTable("sponsor_metrics_daily", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
 });
 
+// How often each visitor has seen each campaign per day, for frequency caps and impression dedup
+export const sponsorExposures = pgTable("sponsor_exposures", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: uuid("campaign_id").notNull().references(() => sponsorCampaigns.id, { onDelete: 'cascade' }),
+  visitorId: text("visitor_id").notNull(),
+  day: date("day").notNull(), // Vancouver-local, same as sponsor_metrics_daily
+  impressions: integer("impressions").notNull().default(0),
+  billableImpressions: integer("billable_impressions").notNull().default(0),
+  lastBillableAt: timestamp("last_billable_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  campaignVisitorDayUnique: unique("sponsor_exposures_campaign_visitor_day_unique").on(table.campaignId, table.visitorId, table.day),
+}));
+
+// Append-only log of sponsor ad events; rolled up into sponsor_metrics_daily
+export const sponsorAdEvents = pgTable("sponsor_ad_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: uuid("campaign_id").notNull().references(() => sponsorCampaigns.id, { onDelete: 'cascade' }),
+  creativeId: uuid("creative_id"),
+  placement: text("placement").notNull(),
+  eventType: text("event_type").notNull(), // 'impression' | 'viewable' | 'click'
+  day: date("day").notNull(), // Vancouver-local, same as sponsor_metrics_daily
+  visitorId: text("visitor_id"),
+  deviceType: text("device_type"),
+  viewDurationMs: integer("view_duration_ms"),
+  billable: boolean("billable").notNull().default(false),
+  isBot: boolean("is_bot").notNull().default(false),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+});
+
+// Named admin accounts; what each role may do is in server/services/adminUserService.ts
+export const adminUsers = pgTable("admin_users", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  name: text("name"),
+  role: text("role").notNull(), // 'super_admin' | 'sales' | 'content' | 'support'
+  passwordHash: text("password_hash").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at", { withTimezone: true }),
+  createdBy: uuid("created_by"),
+  bootstrap: boolean("bootstrap").notNull().default(false), // the first account, created from ADMIN_PASSWORD
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  roleCheck: check("admin_users_role_check", sql`${table.role} IN ('super_admin', 'sales', 'content', 'support')`),
+}));
+
+// Every admin mutation and login, with who made it
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  action: text("action").notNull(),
+  details: jsonb("details"),
+  userId: text("user_id"), // admin_users.id, or 'admin-key' for the shared key
+  actorEmail: text("actor_email"),
+  actorRole: text("actor_role"),
+  method: text("method"),
+  path: text("path"),
+  statusCode: integer("status_code"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+});
+
 // Visitor Analytics Table
 export const visitorAnalytics = pgTable("visitor_analytics", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -160,6 +240,15 @@ export const sponsorBookingDays = pgTable("sponsor_booking_days", {
   placement: text("placement").notNull(),
   day: date("day").notNull(),
   isActive: boolean("is_active").notNull().default(true),
+  isMakegood: boolean("is_makegood").notNull().default(false),
+  makegoodStatus: text("makegood_status"), // proposed | approved | declined
+  makegoodImpressions: integer("makegood_impressions"), // share of the shortfall this day should deliver
+  slot: integer("slot").notNull().default(1), // rotation slot taken on the placement that day
+  quoteId: uuid("quote_id").references(() => sponsorQuotes.id, { onDelete: 'set null' }),
+  leadId: uuid("lead_id").references(() => sponsorLeads.id, { onDelete: 'cascade' }),
+  holdExpiresAt: timestamp("hold_expires_at", { withTimezone: true }), // set while held, null once sold
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  decidedAt: timestamp("decided_at", { withTimezone: true }),
 });
 
 export const sponsorEmailFeatures = pgTable("sponsor_email_features", {
@@ -232,7 +321,36 @@ export const sponsorLeads = pgTable("sponsor_leads", {
   creativeLinks: text("creative_links"),
   // Notes
   comments: text("comments"),
-  adminNotes: text("admin_notes")
+  adminNotes: text("admin_notes"),
+  // Payment - mirrors the latest invoice; null for leads approved before invoicing
+  paymentStatus: text("payment_status"), // unpaid | paid | overridden
+  paidAt: timestamp("paid_at", { withTimezone: true })
+});
+
+export const sponsorInvoices = pgTable("sponsor_invoices", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: text("number").notNull().unique(), // SP-2026-00042, assigned by the database
+  leadId: uuid("lead_id").notNull().references(() => sponsorLeads.id, { onDelete: 'cascade' }),
+  status: text("status").notNull().default("open"), // open | paid | void
+  currency: text("currency").notNull().default("CAD"),
+  province: text("province").notNull().default("BC"),
+  lineItems: jsonb("line_items").notNull().default(sql`'[]'::jsonb`), // [{kind, description, amountCents}]
+  subtotalCents: integer("subtotal_cents").notNull(),
+  taxBreakdown: jsonb("tax_breakdown"),
+  taxCents: integer("tax_cents").notNull().default(0),
+  totalCents: integer("total_cents").notNull(),
+  issuedAt: timestamp("issued_at", { withTimezone: true }).notNull().default(sql`now()`),
+  dueAt: timestamp("due_at", { withTimezone: true }),
+  paidAt: timestamp("paid_at", { withTimezone: true }),
+  stripePaymentLinkId: text("stripe_payment_link_id"),
+  stripePaymentLinkUrl: text("stripe_payment_link_url"),
+  stripeCheckoutSessionId: text("stripe_checkout_session_id"),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  overrideAt: timestamp("override_at", { withTimezone: true }), // admin let the campaign run before payment
+  overrideBy: text("override_by"),
+  overrideReason: text("override_reason"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
 });
 
 // ============================================
@@ -256,9 +374,12 @@ export const ticketsEvents = pgTable("tickets_events", {
   endAt: timestamp("end_at", { withTimezone: true }),
   status: text("status").notNull().default("draft"), // draft | published | archived
   coverUrl: text("cover_url"),
-  allowRefundsUntil: timestamp("allow_refunds_until", { withTimezone: true }),
+  recurrenceRule: jsonb("recurrence_rule"), // { frequency, interval, count, until, weekdays } used to generate occurrences; null for one-off events
+  allowRefundsUntil: timestamp("allow_refunds_until", { withTimezone: true }), // Buyers can request refunds until then; event start if not set
+  refundAutoApprove: jsonb("refund_auto_approve"), // { maxCents, minHoursBeforeEvent } - requests within these limits are refunded without review; null sends all to the organizer
+  resaleEnabled: boolean("resale_enabled").notNull().default(false), // Ticket holders can resell at face value to other fans
   feeStructure: jsonb("fee_structure").default(sql`'{"type": "buyer_pays", "mode": "percent", "percent": 5, "amountCents": 0}'::jsonb`),
-  taxSettings: jsonb("tax_settings").default(sql`'{"collectTax": true, "gstPercent": 5, "pstPercent": 7}'::jsonb`),
+  taxSettings: jsonb("tax_settings").default(sql`'{"collectTax": true, "taxInclusive": false}'::jsonb`), // rates come from the province - see TaxService
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
 });
@@ -268,7 +389,8 @@ export const ticketsTiers = pgTable("tickets_tiers", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
   name: text("name").notNull(),
-  priceCents: integer("price_cents").notNull(),
+  priceCents: integer("price_cents").notNull(), // base price, before any schedule step kicks in
+  priceSchedule: jsonb("price_schedule"), // [{ label, priceCents, startsAt, afterSold }] - later prices, in order
   currency: text("currency").notNull().default("CAD"),
   capacity: integer("capacity"),
   maxPerOrder: integer("max_per_order").default(10),
@@ -276,6 +398,11 @@ export const ticketsTiers = pgTable("tickets_tiers", {
   salesEndAt: timestamp("sales_end_at", { withTimezone: true }),
   visibility: text("visibility").notNull().default("public"), // public | hidden
   showRemaining: boolean("show_remaining").notNull().default(true), // Whether to show remaining ticket count to buyers
+  seriesPass: boolean("series_pass").notNull().default(false), // admits to every occurrence of a series; capacity is for the whole series
+  kind: text("kind").notNull().default("admission"), // admission | addon - add-ons (parking, merch) never admit anyone
+  ticketsPerUnit: integer("tickets_per_unit").notNull().default(1), // admission only: a bundle like "table for 6" issues 6 tickets per unit; capacity counts units
+  addonFulfillment: text("addon_fulfillment"), // add-ons only: none | voucher (a code redeemed at the venue)
+  taxable: boolean("taxable").notNull().default(true),
   sortOrder: integer("sort_order").default(0),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
 });
@@ -291,12 +418,15 @@ export const ticketsOrders = pgTable("tickets_orders", {
   subtotalCents: integer("subtotal_cents").notNull(),
   applicationFeeCents: integer("application_fee_cents").notNull().default(0), // Platform fee collected via Stripe Connect
   taxCents: integer("tax_cents").notNull().default(0),
+  taxBreakdown: jsonb("tax_breakdown"), // { province, inclusive, components: [{ code, label, ratePercent, cents }] } - null on orders from before per-province tax
   totalCents: integer("total_cents").notNull(),
   currency: text("currency").notNull().default("CAD"),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
   stripeCheckoutSessionId: text("stripe_checkout_session_id"),
   discountCode: text("discount_code"),
   discountAmountCents: integer("discount_amount_cents").default(0),
+  promoterId: uuid("promoter_id").references(() => ticketsPromoters.id, { onDelete: 'set null' }), // referral link the buyer arrived through
+  occurrenceId: uuid("occurrence_id").references(() => ticketsEventOccurrences.id, { onDelete: 'set null' }), // date picked for a series event
   refundedAmountCents: integer("refunded_amount_cents").default(0),
   refundProcessedAt: timestamp("refund_processed_at", { withTimezone: true }),
   refundReason: text("refund_reason"),
@@ -332,6 +462,13 @@ export const ticketsTickets = pgTable("tickets_tickets", {
   transferredFrom: uuid("transferred_from"),
   transferredTo: uuid("transferred_to"),
   transferredAt: timestamp("transferred_at", { withTimezone: true }),
+  holderEmail: text("holder_email"), // Who the ticket was transferred or resold to; null = the order's buyer
+  holderName: text("holder_name"),
+  seatId: uuid("seat_id"), // Reserved seating: tickets_seats.id assigned to this ticket
+  seatLabel: text("seat_label"), // e.g. "Orchestra · Row C · Seat 12", denormalized for QR/PDF/check-in
+  occurrenceId: uuid("occurrence_id"), // tickets_event_occurrences.id the ticket admits to; null for one-off events and series passes
+  gateId: uuid("gate_id"), // tickets_event_gates.id the ticket was scanned in at
+  scannerId: uuid("scanner_id"), // tickets_scanners.id of the door staff account that scanned it
   notes: text("notes"),
   tags: jsonb("tags").default(sql`'[]'::jsonb`),
   isVip: boolean("is_vip").notNull().default(false),
@@ -346,6 +483,7 @@ export const ticketsCapacityReservations = pgTable("tickets_capacity_reservation
   quantity: integer("quantity").notNull(),
   reservationId: text("reservation_id").notNull().unique(),
   expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  occurrenceId: uuid("occurrence_id").references(() => ticketsEventOccurrences.id, { onDelete: 'cascade' }), // null = counts against every date
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
 }, (table) => ({
   tierIdIdx: index("capacity_reservations_tier_id_idx").on(table.tierId),
@@ -353,6 +491,100 @@ export const ticketsCapacityReservations = pgTable("tickets_capacity_reservation
   tierExpiresIdx: index("capacity_reservations_tier_expires_idx").on(table.tierId, table.expiresAt),
 }));
 
+// Per-tier waitlist for sold-out tiers; offers hold seats via a capacity reservation
+export const ticketsWaitlist = pgTable("tickets_waitlist", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  tierId: uuid("tier_id").notNull().references(() => ticketsTiers.id, { onDelete: 'cascade' }),
+  occurrenceId: uuid("occurrence_id").references(() => ticketsEventOccurrences.id, { onDelete: 'cascade' }), // the date wanted, for series events
+  email: text("email").notNull(),
+  name: text("name"),
+  phone: text("phone"),
+  quantity: integer("quantity").notNull().default(1),
+  position: integer("position").notNull(),
+  status: text("status").notNull().default("waiting"), // waiting | offered | claimed | expired | removed
+  claimToken: text("claim_token").unique(),
+  reservationId: text("reservation_id"), // tickets_capacity_reservations.reservation_id holding the offered seats
+  orderId: uuid("order_id").references(() => ticketsOrders.id),
+  offeredAt: timestamp("offered_at", { withTimezone: true }),
+  offerExpiresAt: timestamp("offer_expires_at", { withTimezone: true }),
+  claimedAt: timestamp("claimed_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  tierPositionIdx: index("waitlist_tier_position_idx").on(table.tierId, table.position),
+  statusIdx: index("waitlist_status_idx").on(table.status),
+}));
+
+// Venue seat map for reserved-seating events (one per event)
+export const ticketsSeatMaps = pgTable("tickets_seat_maps", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().unique().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  layout: jsonb("layout").notNull(), // { zones: [{ key, name, tierId, color }], sections: [{ name, rows: [{ label, seats, zone }] }] }
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+});
+
+// Individual seats generated from a seat map; price zones resolve to a tier per seat
+export const ticketsSeats = pgTable("tickets_seats", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  seatMapId: uuid("seat_map_id").notNull().references(() => ticketsSeatMaps.id, { onDelete: 'cascade' }),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  tierId: uuid("tier_id").notNull().references(() => ticketsTiers.id),
+  section: text("section").notNull(),
+  row: text("row").notNull(),
+  number: text("number").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  status: text("status").notNull().default("available"), // available | held | sold | blocked
+  holdReservationId: text("hold_reservation_id"), // tickets_capacity_reservations.reservation_id while held at checkout
+  heldUntil: timestamp("held_until", { withTimezone: true }),
+  ticketId: uuid("ticket_id"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventSeatUnique: unique("seats_event_section_row_number_unique").on(table.eventId, table.section, table.row, table.number),
+  eventStatusIdx: index("seats_event_status_idx").on(table.eventId, table.status),
+  holdIdx: index("seats_hold_reservation_idx").on(table.holdReservationId),
+}));
+
+// Named entrances for an event, used to break down check-in throughput
+export const ticketsEventGates = pgTable("tickets_event_gates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventNameUnique: unique("event_gates_event_name_unique").on(table.eventId, table.name),
+}));
+
+// Door staff credentials scoped to one event - can check tickets in, nothing else
+export const ticketsScanners = pgTable("tickets_scanners", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  gateId: uuid("gate_id").references(() => ticketsEventGates.id, { onDelete: 'set null' }),
+  name: text("name").notNull(),
+  accessCodeHash: text("access_code_hash").notNull().unique(), // sha256 of the code; the code itself is shown once
+  status: text("status").notNull().default("active"), // active | revoked
+  createdBy: uuid("created_by").references(() => organizers.id),
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventIdx: index("scanners_event_idx").on(table.eventId),
+}));
+
+// Offline scanning devices, with server-side times that bound the scan times they report
+export const ticketsCheckinDevices = pgTable("tickets_checkin_devices", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  deviceId: text("device_id").notNull(),
+  manifestDownloadedAt: timestamp("manifest_downloaded_at", { withTimezone: true }),
+  lastSyncedAt: timestamp("last_synced_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventDeviceUnique: unique("checkin_devices_event_device_unique").on(table.eventId, table.deviceId),
+}));
+
 // Discount codes for events
 export const ticketsDiscounts = pgTable("tickets_discounts", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -364,10 +596,230 @@ export const ticketsDiscounts = pgTable("tickets_discounts", {
   usedCount: integer("used_count").notNull().default(0),
   startsAt: timestamp("starts_at", { withTimezone: true }),
   endsAt: timestamp("ends_at", { withTimezone: true }),
-  status: text("status").notNull().default("active"), // active | expired | exhausted
+  tierIds: jsonb("tier_ids"), // tier ids the code applies to; null = every tier
+  minQuantity: integer("min_quantity"), // eligible tickets needed in the order
+  batchId: uuid("batch_id"), // set on codes created together by bulk generation
+  status: text("status").notNull().default("active"), // active | paused | expired | exhausted
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
 });
 
+// One row per paid order that used a discount code
+export const ticketsDiscountRedemptions = pgTable("tickets_discount_redemptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  discountId: uuid("discount_id").notNull().references(() => ticketsDiscounts.id, { onDelete: 'cascade' }),
+  orderId: uuid("order_id").notNull().unique().references(() => ticketsOrders.id, { onDelete: 'cascade' }),
+  heldUntil: timestamp("held_until", { withTimezone: true }), // set while the order is in checkout; null once paid
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+});
+
+// Dates of a recurring or multi-date event. Each occurrence has its own
+// inventory of every non-pass tier.
+export const ticketsEventOccurrences = pgTable("tickets_event_occurrences", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  startAt: timestamp("start_at", { withTimezone: true }).notNull(),
+  endAt: timestamp("end_at", { withTimezone: true }),
+  status: text("status").notNull().default("scheduled"), // scheduled | canceled
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventStartUnique: unique("occurrences_event_start_unique").on(table.eventId, table.startAt),
+}));
+
+// Series pass check-ins - a pass is scanned once per occurrence, so its
+// check-ins live here instead of on the ticket
+export const ticketsOccurrenceCheckins = pgTable("tickets_occurrence_checkins", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: uuid("ticket_id").notNull().references(() => ticketsTickets.id, { onDelete: 'cascade' }),
+  occurrenceId: uuid("occurrence_id").notNull().references(() => ticketsEventOccurrences.id, { onDelete: 'cascade' }),
+  checkedInAt: timestamp("checked_in_at", { withTimezone: true }).notNull().default(sql`now()`),
+  checkedInBy: text("checked_in_by"),
+  gateId: uuid("gate_id"),
+  scannerId: uuid("scanner_id"),
+}, (table) => ({
+  ticketOccurrenceUnique: unique("occurrence_checkins_ticket_occurrence_unique").on(table.ticketId, table.occurrenceId),
+}));
+
+// Promoter / affiliate referral links for an event
+export const ticketsPromoters = pgTable("tickets_promoters", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  email: text("email"),
+  refCode: text("ref_code").notNull(), // the ?ref= value, unique within the event
+  commissionType: text("commission_type"), // percent | fixed (per ticket) | null = no commission
+  commissionValue: numeric("commission_value"), // percentage (0-100) or cents per ticket
+  viewToken: text("view_token").notNull().unique(), // read-only stats link for the promoter
+  status: text("status").notNull().default("active"), // active | disabled
+  createdBy: uuid("created_by").references(() => organizers.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventRefUnique: unique("promoters_event_ref_unique").on(table.eventId, table.refCode),
+}));
+
+// Custom questions an organizer asks at checkout, once per order or once per ticket
+export const ticketsEventQuestions = pgTable("tickets_event_questions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  label: text("label").notNull(),
+  helpText: text("help_text"),
+  type: text("type").notNull(), // text | textarea | select | checkbox | number
+  options: jsonb("options"), // choices for select questions
+  required: boolean("required").notNull().default(false),
+  appliesTo: text("applies_to").notNull().default("order"), // order | ticket
+  tierIds: jsonb("tier_ids"), // ticket questions only: tiers that get asked; null = every tier
+  sortOrder: integer("sort_order").notNull().default(0),
+  status: text("status").notNull().default("active"), // active | hidden
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventIdx: index("event_questions_event_idx").on(table.eventId),
+}));
+
+// Buyer answers. Ticket answers are given before the tickets exist, so they're
+// keyed by tier and position in the order until the tickets are issued.
+export const ticketsOrderAnswers = pgTable("tickets_order_answers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: uuid("order_id").notNull().references(() => ticketsOrders.id, { onDelete: 'cascade' }),
+  questionId: uuid("question_id").notNull().references(() => ticketsEventQuestions.id, { onDelete: 'cascade' }),
+  tierId: uuid("tier_id"), // ticket answers only
+  ticketIndex: integer("ticket_index"), // ticket answers only: 0-based among the order's tickets of that tier
+  ticketId: uuid("ticket_id").references(() => ticketsTickets.id, { onDelete: 'set null' }),
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  orderIdx: index("order_answers_order_idx").on(table.orderId),
+}));
+
+// Redeemable codes issued for voucher add-ons, one per unit bought
+export const ticketsVouchers = pgTable("tickets_vouchers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: uuid("order_id").notNull().references(() => ticketsOrders.id, { onDelete: 'cascade' }),
+  orderItemId: uuid("order_item_id").notNull().references(() => ticketsOrderItems.id, { onDelete: 'cascade' }),
+  tierId: uuid("tier_id").notNull().references(() => ticketsTiers.id),
+  code: text("code").notNull().unique(),
+  status: text("status").notNull().default("issued"), // issued | redeemed | void
+  redeemedAt: timestamp("redeemed_at", { withTimezone: true }),
+  redeemedBy: text("redeemed_by"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  orderIdx: index("vouchers_order_idx").on(table.orderId),
+  tierIdx: index("vouchers_tier_idx").on(table.tierId),
+}));
+
+// Fan-to-fan resale listings, capped at what the seller paid for the ticket
+export const ticketsResaleListings = pgTable("tickets_resale_listings", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  ticketId: uuid("ticket_id").notNull().references(() => ticketsTickets.id, { onDelete: 'cascade' }),
+  sellerOrderId: uuid("seller_order_id").notNull().references(() => ticketsOrders.id, { onDelete: 'cascade' }), // Order the seller paid through - refunded on sale
+  sellerEmail: text("seller_email").notNull(),
+  sellerPaymentIntentId: text("seller_payment_intent_id").notNull(), // What the seller paid with - the original order, or their own resale purchase
+  priceCents: integer("price_cents").notNull(),
+  faceValueCents: integer("face_value_cents").notNull(),
+  status: text("status").notNull().default("active"), // active | pending | sold | canceled
+  pendingUntil: timestamp("pending_until", { withTimezone: true }), // A buyer is paying; the listing frees up again after this
+  buyerEmail: text("buyer_email"),
+  buyerName: text("buyer_name"),
+  stripePaymentIntentId: text("stripe_payment_intent_id"),
+  sellerRefundId: text("seller_refund_id"), // Stripe refund that paid the seller back
+  newTicketId: uuid("new_ticket_id"), // Ticket reissued to the buyer
+  soldAt: timestamp("sold_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventStatusIdx: index("resale_listings_event_status_idx").on(table.eventId, table.status),
+  ticketIdx: index("resale_listings_ticket_idx").on(table.ticketId),
+}));
+
+// Refunds buyers ask for, reviewed by the organizer unless the event's auto-approve rule covers them
+export const ticketsRefundRequests = pgTable("tickets_refund_requests", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: uuid("order_id").notNull().references(() => ticketsOrders.id, { onDelete: 'cascade' }),
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }),
+  ticketIds: jsonb("ticket_ids").notNull(), // Tickets the buyer wants refunded - all of them are canceled on approval
+  buyerEmail: text("buyer_email").notNull(),
+  reason: text("reason").notNull(),
+  requestedCents: integer("requested_cents").notNull(), // What the tickets are worth when asked
+  status: text("status").notNull().default("pending"), // pending | approved | declined
+  approvedCents: integer("approved_cents"), // Can be less than requested for a partial refund
+  autoApproved: boolean("auto_approved").notNull().default(false),
+  decisionNote: text("decision_note"), // Shown to the buyer in the decision email
+  decidedBy: text("decided_by"), // Organizer id, or 'system' for auto-approval
+  decidedAt: timestamp("decided_at", { withTimezone: true }),
+  stripeRefundId: text("stripe_refund_id"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  eventStatusIdx: index("refund_requests_event_status_idx").on(table.eventId, table.status),
+  orderIdx: index("refund_requests_order_idx").on(table.orderId),
+}));
+
+// Apple Wallet devices that saved a ticket's pass, so they can be told when it changes
+export const ticketsWalletRegistrations = pgTable("tickets_wallet_registrations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceLibraryId: text("device_library_id").notNull(),
+  pushToken: text("push_token").notNull(),
+  passTypeId: text("pass_type_id").notNull(),
+  ticketId: uuid("ticket_id").notNull().references(() => ticketsTickets.id, { onDelete: 'cascade' }), // The pass serial number
+  eventId: uuid("event_id").notNull().references(() => ticketsEvents.id, { onDelete: 'cascade' }), // Denormalized so an event change finds every device at once
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  deviceTicketUnique: unique("wallet_registrations_device_ticket_unique").on(table.deviceLibraryId, table.ticketId),
+  eventIdx: index("wallet_registrations_event_idx").on(table.eventId),
+  ticketIdx: index("wallet_registrations_ticket_idx").on(table.ticketId),
+}));
+
+export const WEBHOOK_EVENT_TYPES = ['order.paid', 'order.disputed', 'ticket.checked_in', 'ticket.refunded', 'ticket.transferred'] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+// Organizer-registered endpoints we POST sales and check-in events to
+export const ticketsOrganizerWebhooks = pgTable("tickets_organizer_webhooks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizerId: uuid("organizer_id").notNull().references(() => organizers.id, { onDelete: 'cascade' }),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC key for the X-Jugnu-Signature header
+  eventTypes: jsonb("event_types").notNull(), // e.g. ["order.paid", "ticket.checked_in"]
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  organizerIdx: index("organizer_webhooks_organizer_idx").on(table.organizerId),
+}));
+
+// One row per event sent to an endpoint - the delivery log and the retry queue
+export const ticketsWebhookDeliveries = pgTable("tickets_webhook_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: uuid("webhook_id").notNull().references(() => ticketsOrganizerWebhooks.id, { onDelete: 'cascade' }),
+  eventType: text("event_type").notNull(),
+  payloadJson: jsonb("payload_json").notNull(),
+  status: text("status").notNull().default("pending"), // pending | succeeded | failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().default(sql`now()`),
+  lastResponseStatus: integer("last_response_status"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  dueIdx: index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  webhookIdx: index("webhook_deliveries_webhook_idx").on(table.webhookId, table.createdAt),
+}));
+
+export const API_KEY_SCOPES = ['events:read', 'orders:read', 'attendees:read'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Read-only API keys for an organizer's events, orders and attendees
+export const ticketsApiKeys = pgTable("tickets_api_keys", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizerId: uuid("organizer_id").notNull().references(() => organizers.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // First characters of the key, so organizers can tell keys apart
+  keyHash: text("key_hash").notNull().unique(), // SHA-256 of the key - the key itself is only shown once
+  scopes: jsonb("scopes").notNull(), // events:read | orders:read | attendees:read
+  lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  organizerIdx: index("api_keys_organizer_idx").on(table.organizerId),
+}));
+
 // Webhook processing log
 export const ticketsWebhooks = pgTable("tickets_webhooks", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -383,7 +835,7 @@ export const ticketsWebhooks = pgTable("tickets_webhooks", {
 // Audit log for all ticketing actions
 export const ticketsAudit = pgTable("tickets_audit", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
-  actorType: text("actor_type").notNull(), // user | organizer | admin | system
+  actorType: text("actor_type").notNull(), // user | organizer | admin | system | scanner
   actorId: text("actor_id"),
   action: text("action").notNull(), // event_created | ticket_purchased | refund_issued | etc.
   targetType: text("target_type"), // event | order | ticket | etc.
@@ -431,6 +883,95 @@ export const ticketsPayouts = pgTable("tickets_payouts", {
   periodIdx: index("payouts_period_idx").on(table.periodStart, table.periodEnd),
 }));
 
+// Stripe reconciliation runs - each imports the platform's balance transactions for a window
+export const ticketsReconciliationRuns = pgTable("tickets_reconciliation_runs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  rangeStart: timestamp("range_start", { withTimezone: true }).notNull(),
+  rangeEnd: timestamp("range_end", { withTimezone: true }).notNull(),
+  status: text("status").notNull().default("running"), // running | completed | failed
+  importedCount: integer("imported_count").notNull().default(0),
+  matchedCount: integer("matched_count").notNull().default(0),
+  mismatchCount: integer("mismatch_count").notNull().default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull().default(sql`now()`),
+  finishedAt: timestamp("finished_at", { withTimezone: true }),
+});
+
+// Stripe balance transactions, matched to the order and ledger entry they belong to
+export const ticketsStripeTransactions = pgTable("tickets_stripe_transactions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  stripeId: text("stripe_id").notNull().unique(), // txn_...
+  type: text("type").notNull(), // Stripe's type: charge | payment | refund | payment_refund | adjustment | transfer | application_fee | payout ...
+  reportingCategory: text("reporting_category"), // e.g. dispute | dispute_reversal for adjustments
+  sourceId: text("source_id"), // the charge, refund, dispute or transfer behind it
+  amountCents: integer("amount_cents").notNull(), // signed, before fees
+  feeCents: integer("fee_cents").notNull().default(0),
+  netCents: integer("net_cents").notNull(),
+  currency: text("currency").notNull().default("CAD"),
+  stripeCreatedAt: timestamp("stripe_created_at", { withTimezone: true }).notNull(),
+  availableOn: timestamp("available_on", { withTimezone: true }),
+  organizerId: uuid("organizer_id").references(() => organizers.id),
+  orderId: uuid("order_id").references(() => ticketsOrders.id),
+  ledgerEntryId: uuid("ledger_entry_id").references(() => ticketsLedger.id),
+  status: text("status").notNull().default("unmatched"), // matched | mismatch | unmatched | ignored
+  mismatchReason: text("mismatch_reason"),
+  expectedCents: integer("expected_cents"), // what our records say the amount should be, when they disagree
+  runId: uuid("run_id").references(() => ticketsReconciliationRuns.id),
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }), // an admin looked into the mismatch
+  resolvedBy: text("resolved_by"),
+  resolutionNote: text("resolution_note"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  statusIdx: index("stripe_transactions_status_idx").on(table.status),
+  orderIdx: index("stripe_transactions_order_idx").on(table.orderId),
+  organizerIdx: index("stripe_transactions_organizer_idx").on(table.organizerId, table.stripeCreatedAt),
+}));
+
+// Double-entry journal posted from Stripe transactions - the lines of one journal entry balance
+export const ticketsJournalLines = pgTable("tickets_journal_lines", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  journalId: uuid("journal_id").notNull(), // groups the lines of one entry; debits equal credits
+  account: text("account").notNull(), // stripe_balance | processing_fees | organizer_payable | sales_tax_payable | platform_revenue | disputes | platform_payouts | resale_payable | suspense
+  debitCents: integer("debit_cents").notNull().default(0),
+  creditCents: integer("credit_cents").notNull().default(0),
+  currency: text("currency").notNull().default("CAD"),
+  organizerId: uuid("organizer_id").references(() => organizers.id),
+  orderId: uuid("order_id").references(() => ticketsOrders.id),
+  stripeTransactionId: uuid("stripe_transaction_id").references(() => ticketsStripeTransactions.id, { onDelete: 'cascade' }),
+  memo: text("memo"),
+  postedAt: timestamp("posted_at", { withTimezone: true }).notNull(), // when the money moved, not when we recorded it
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  journalIdx: index("journal_lines_journal_idx").on(table.journalId),
+  accountIdx: index("journal_lines_account_idx").on(table.account, table.organizerId),
+  stripeTransactionIdx: index("journal_lines_stripe_transaction_idx").on(table.stripeTransactionId),
+}));
+
+// Card disputes (chargebacks and inquiries) raised against ticket orders
+export const ticketsDisputes = pgTable("tickets_disputes", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: uuid("order_id").notNull().references(() => ticketsOrders.id),
+  organizerId: uuid("organizer_id").notNull().references(() => organizers.id),
+  stripeDisputeId: text("stripe_dispute_id").notNull().unique(),
+  stripeChargeId: text("stripe_charge_id").notNull(),
+  stripeAccountId: text("stripe_account_id"), // set when the dispute is on a connected account
+  amountCents: integer("amount_cents").notNull(),
+  currency: text("currency").notNull().default("CAD"),
+  reason: text("reason").notNull(), // Stripe's reason: fraudulent | product_not_received | duplicate | etc.
+  status: text("status").notNull(), // Stripe's status: warning_needs_response | needs_response | under_review | won | lost | warning_closed | etc.
+  evidenceDueBy: timestamp("evidence_due_by", { withTimezone: true }),
+  blockedTicketIds: jsonb("blocked_ticket_ids").notNull().default(sql`'[]'::jsonb`), // tickets this dispute blocked, released if it's won
+  fundsWithdrawnAt: timestamp("funds_withdrawn_at", { withTimezone: true }), // when the chargeback entry was written to the ledger
+  fundsReinstatedAt: timestamp("funds_reinstated_at", { withTimezone: true }), // when the reversing entry was written
+  closedAt: timestamp("closed_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().default(sql`now()`),
+}, (table) => ({
+  orderIdx: index("disputes_order_idx").on(table.orderId),
+  organizerStatusIdx: index("disputes_organizer_status_idx").on(table.organizerId, table.status),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -517,11 +1058,107 @@ export const insertTicketsTicketSchema = createInsertSchema(ticketsTickets).omit
   createdAt: true,
 });
 
+export const insertTicketsWaitlistSchema = createInsertSchema(ticketsWaitlist).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsSeatMapSchema = createInsertSchema(ticketsSeatMaps).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTicketsSeatSchema = createInsertSchema(ticketsSeats).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsEventGateSchema = createInsertSchema(ticketsEventGates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsScannerSchema = createInsertSchema(ticketsScanners).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsCheckinDeviceSchema = createInsertSchema(ticketsCheckinDevices).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertTicketsDiscountSchema = createInsertSchema(ticketsDiscounts).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertTicketsDiscountRedemptionSchema = createInsertSchema(ticketsDiscountRedemptions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsEventOccurrenceSchema = createInsertSchema(ticketsEventOccurrences).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsOccurrenceCheckinSchema = createInsertSchema(ticketsOccurrenceCheckins).omit({
+  id: true,
+});
+
+export const insertTicketsPromoterSchema = createInsertSchema(ticketsPromoters).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsEventQuestionSchema = createInsertSchema(ticketsEventQuestions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsOrderAnswerSchema = createInsertSchema(ticketsOrderAnswers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsVoucherSchema = createInsertSchema(ticketsVouchers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsResaleListingSchema = createInsertSchema(ticketsResaleListings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsRefundRequestSchema = createInsertSchema(ticketsRefundRequests).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsWalletRegistrationSchema = createInsertSchema(ticketsWalletRegistrations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsOrganizerWebhookSchema = createInsertSchema(ticketsOrganizerWebhooks).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTicketsWebhookDeliverySchema = createInsertSchema(ticketsWebhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsApiKeySchema = createInsertSchema(ticketsApiKeys).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertTicketsWebhookSchema = createInsertSchema(ticketsWebhooks).omit({
   id: true,
   createdAt: true,
@@ -542,6 +1179,28 @@ export const insertTicketsPayoutSchema = createInsertSchema(ticketsPayouts).omit
   createdAt: true,
 });
 
+export const insertTicketsReconciliationRunSchema = createInsertSchema(ticketsReconciliationRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export const insertTicketsStripeTransactionSchema = createInsertSchema(ticketsStripeTransactions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTicketsJournalLineSchema = createInsertSchema(ticketsJournalLines).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTicketsDisputeSchema = createInsertSchema(ticketsDisputes).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Type exports
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -566,6 +1225,7 @@ export type SponsorQuote = typeof sponsorQuotes.$inferSelect;
 export type InsertSponsorQuote = z.infer<typeof insertSponsorQuoteSchema>;
 export type SponsorLead = typeof sponsorLeads.$inferSelect;
 export type InsertSponsorLead = z.infer<typeof insertSponsorLeadSchema>;
+export type SponsorInvoice = typeof sponsorInvoices.$inferSelect;
 export type VisitorAnalytics = typeof visitorAnalytics.$inferSelect;
 export type InsertVisitorAnalytics = z.infer<typeof insertVisitorAnalyticsSchema>;
 
@@ -581,8 +1241,46 @@ export type TicketsOrderItem = typeof ticketsOrderItems.$inferSelect;
 export type InsertTicketsOrderItem = z.infer<typeof insertTicketsOrderItemSchema>;
 export type TicketsTicket = typeof ticketsTickets.$inferSelect;
 export type InsertTicketsTicket = z.infer<typeof insertTicketsTicketSchema>;
+export type TicketsWaitlistEntry = typeof ticketsWaitlist.$inferSelect;
+export type InsertTicketsWaitlistEntry = z.infer<typeof insertTicketsWaitlistSchema>;
+export type TicketsSeatMap = typeof ticketsSeatMaps.$inferSelect;
+export type InsertTicketsSeatMap = z.infer<typeof insertTicketsSeatMapSchema>;
+export type TicketsSeat = typeof ticketsSeats.$inferSelect;
+export type InsertTicketsSeat = z.infer<typeof insertTicketsSeatSchema>;
+export type TicketsEventGate = typeof ticketsEventGates.$inferSelect;
+export type InsertTicketsEventGate = z.infer<typeof insertTicketsEventGateSchema>;
+export type TicketsScanner = typeof ticketsScanners.$inferSelect;
+export type InsertTicketsScanner = z.infer<typeof insertTicketsScannerSchema>;
+export type TicketsCheckinDevice = typeof ticketsCheckinDevices.$inferSelect;
+export type InsertTicketsCheckinDevice = z.infer<typeof insertTicketsCheckinDeviceSchema>;
 export type TicketsDiscount = typeof ticketsDiscounts.$inferSelect;
 export type InsertTicketsDiscount = z.infer<typeof insertTicketsDiscountSchema>;
+export type TicketsDiscountRedemption = typeof ticketsDiscountRedemptions.$inferSelect;
+export type InsertTicketsDiscountRedemption = z.infer<typeof insertTicketsDiscountRedemptionSchema>;
+export type TicketsEventOccurrence = typeof ticketsEventOccurrences.$inferSelect;
+export type InsertTicketsEventOccurrence = z.infer<typeof insertTicketsEventOccurrenceSchema>;
+export type TicketsOccurrenceCheckin = typeof ticketsOccurrenceCheckins.$inferSelect;
+export type InsertTicketsOccurrenceCheckin = z.infer<typeof insertTicketsOccurrenceCheckinSchema>;
+export type TicketsPromoter = typeof ticketsPromoters.$inferSelect;
+export type InsertTicketsPromoter = z.infer<typeof insertTicketsPromoterSchema>;
+export type TicketsEventQuestion = typeof ticketsEventQuestions.$inferSelect;
+export type InsertTicketsEventQuestion = z.infer<typeof insertTicketsEventQuestionSchema>;
+export type TicketsOrderAnswer = typeof ticketsOrderAnswers.$inferSelect;
+export type InsertTicketsOrderAnswer = z.infer<typeof insertTicketsOrderAnswerSchema>;
+export type TicketsVoucher = typeof ticketsVouchers.$inferSelect;
+export type InsertTicketsVoucher = z.infer<typeof insertTicketsVoucherSchema>;
+export type TicketsResaleListing = typeof ticketsResaleListings.$inferSelect;
+export type InsertTicketsResaleListing = z.infer<typeof insertTicketsResaleListingSchema>;
+export type TicketsRefundRequest = typeof ticketsRefundRequests.$inferSelect;
+export type InsertTicketsRefundRequest = z.infer<typeof insertTicketsRefundRequestSchema>;
+export type TicketsWalletRegistration = typeof ticketsWalletRegistrations.$inferSelect;
+export type InsertTicketsWalletRegistration = z.infer<typeof insertTicketsWalletRegistrationSchema>;
+export type TicketsOrganizerWebhook = typeof ticketsOrganizerWebhooks.$inferSelect;
+export type InsertTicketsOrganizerWebhook = z.infer<typeof insertTicketsOrganizerWebhookSchema>;
+export type TicketsWebhookDelivery = typeof ticketsWebhookDeliveries.$inferSelect;
+export type InsertTicketsWebhookDelivery = z.infer<typeof insertTicketsWebhookDeliverySchema>;
+export type TicketsApiKey = typeof ticketsApiKeys.$inferSelect;
+export type InsertTicketsApiKey = z.infer<typeof insertTicketsApiKeySchema>;
 export type TicketsWebhook = typeof ticketsWebhooks.$inferSelect;
 export type InsertTicketsWebhook = z.infer<typeof insertTicketsWebhookSchema>;
 export type TicketsAudit = typeof ticketsAudit.$inferSelect;
@@ -591,6 +1289,14 @@ export type TicketsLedger = typeof ticketsLedger.$inferSelect;
 export type InsertTicketsLedger = z.infer<typeof insertTicketsLedgerSchema>;
 export type TicketsPayout = typeof ticketsPayouts.$inferSelect;
 export type InsertTicketsPayout = z.infer<typeof insertTicketsPayoutSchema>;
+export type TicketsReconciliationRun = typeof ticketsReconciliationRuns.$inferSelect;
+export type InsertTicketsReconciliationRun = z.infer<typeof insertTicketsReconciliationRunSchema>;
+export type TicketsStripeTransaction = typeof ticketsStripeTransactions.$inferSelect;
+export type InsertTicketsStripeTransaction = z.infer<typeof insertTicketsStripeTransactionSchema>;
+export type TicketsJournalLine = typeof ticketsJournalLines.$inferSelect;
+export type InsertTicketsJournalLine = z.infer<typeof insertTicketsJournalLineSchema>;
+export type TicketsDispute = typeof ticketsDisputes.$inferSelect;
+export type InsertTicketsDispute = z.infer<typeof insertTicketsDisputeSchema>;
 
 // ============ COMMUNITIES TABLES ============
 // Main user accounts for Communities (separate from basic users table)
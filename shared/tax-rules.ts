@@ -0,0 +1,115 @@
+// Sales tax rules for Canadian events, shared so checkout previews match what the server charges
+
+export interface TaxComponent {
+  code: 'GST' | 'HST' | 'PST' | 'QST' | 'RST';
+  label: string;
+  ratePercent: number;
+  appliesToFees: boolean; // provincial sales taxes don't reach service fees; the federal side and QST do
+}
+
+// What an event charges: the province's components, or none if the organizer doesn't collect tax
+export interface TaxRule {
+  province: string;
+  inclusive: boolean; // ticket prices already include the tax
+  components: TaxComponent[];
+}
+
+// What was charged under each component - stored on each order
+export interface TaxBreakdown {
+  province: string;
+  inclusive: boolean;
+  components: Array<{ code: TaxComponent['code']; label: string; ratePercent: number; cents: number }>;
+}
+
+export interface TaxSettings {
+  collectTax: boolean;
+  taxInclusive?: boolean;
+  // Flat rates from before taxes were worked out per province - no longer read
+  gstPercent?: number;
+  pstPercent?: number;
+}
+
+const GST: TaxComponent = { code: 'GST', label: 'GST', ratePercent: 5, appliesToFees: true };
+const hst = (ratePercent: number): TaxComponent => ({ code: 'HST', label: 'HST', ratePercent, appliesToFees: true });
+
+// Sales tax on admissions by province, as of April 2025 (Nova Scotia's HST cut to 14%).
+// Quebec's QST is charged on the price before GST, not compounded.
+export const PROVINCE_TAX_RULES: Record<string, TaxComponent[]> = {
+  AB: [GST],
+  BC: [GST, { code: 'PST', label: 'PST', ratePercent: 7, appliesToFees: false }],
+  MB: [GST, { code: 'RST', label: 'RST', ratePercent: 7, appliesToFees: false }],
+  NB: [hst(15)],
+  NL: [hst(15)],
+  NS: [hst(14)],
+  NT: [GST],
+  NU: [GST],
+  ON: [hst(13)],
+  PE: [hst(15)],
+  QC: [GST, { code: 'QST', label: 'QST', ratePercent: 9.975, appliesToFees: true }],
+  SK: [GST, { code: 'PST', label: 'PST', ratePercent: 6, appliesToFees: false }],
+  YT: [GST]
+};
+
+export const TAX_PROVINCES = Object.keys(PROVINCE_TAX_RULES);
+
+export function getTaxRule(province: string | null | undefined, settings: TaxSettings | null | undefined): TaxRule {
+  const code = (province || 'BC').toUpperCase();
+  const collectTax = settings ? settings.collectTax : true;
+  return {
+    province: code,
+    inclusive: !!settings?.taxInclusive,
+    components: collectTax ? (PROVINCE_TAX_RULES[code] || []) : []
+  };
+}
+
+// Split an amount across weights so the parts add back up exactly
+function split(totalCents: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (totalCents === 0 || weightSum === 0) return weights.map(() => 0);
+  const shares = weights.map(w => Math.floor(totalCents * w / weightSum));
+  let remainder = totalCents - shares.reduce((sum, s) => sum + s, 0);
+  for (let i = 0; remainder > 0 && i < shares.length; i++) {
+    shares[i] += 1;
+    remainder -= 1;
+  }
+  return shares;
+}
+
+// Tax on an amount under each component. Tax-inclusive amounts have the combined rate backed out.
+function taxOn(amountCents: number, components: TaxComponent[], inclusive: boolean): number[] {
+  if (amountCents <= 0) return components.map(() => 0);
+  if (!inclusive) {
+    return components.map(c => Math.round(amountCents * c.ratePercent / 100));
+  }
+  const combinedPercent = components.reduce((sum, c) => sum + c.ratePercent, 0);
+  const taxCents = amountCents - Math.round(amountCents / (1 + combinedPercent / 100));
+  return split(taxCents, components.map(c => c.ratePercent));
+}
+
+/**
+ * Tax on an order's taxable tickets and its fees. Amounts are what the buyer sees:
+ * before tax normally, tax included when the rule is inclusive.
+ */
+export function calculateTax(rule: TaxRule, taxableCents: number, feesCents: number) {
+  const onTickets = taxOn(taxableCents, rule.components, rule.inclusive);
+  const onFees = taxOn(feesCents, rule.components.filter(c => c.appliesToFees), rule.inclusive);
+
+  let feeIndex = 0;
+  const components = rule.components.map((c, i) => ({
+    code: c.code,
+    label: c.label,
+    ratePercent: c.ratePercent,
+    cents: onTickets[i] + (c.appliesToFees ? onFees[feeIndex++] : 0)
+  }));
+
+  const ticketTaxCents = onTickets.reduce((sum, cents) => sum + cents, 0);
+  const feeTaxCents = onFees.reduce((sum, cents) => sum + cents, 0);
+  const breakdown: TaxBreakdown = { province: rule.province, inclusive: rule.inclusive, components };
+
+  return { ticketTaxCents, feeTaxCents, taxCents: ticketTaxCents + feeTaxCents, breakdown };
+}
+
+// e.g. "HST 13%"
+export function describeTax(component: { label: string; ratePercent: number }): string {
+  return `${component.label} ${component.ratePercent}%`;
+}